@@ -3,15 +3,31 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
-import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { SidebarProvider } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/layout/AppSidebar";
+import { AppHeader } from "@/components/layout/AppHeader";
+import { StockAlertNotifier } from "@/components/layout/StockAlertNotifier";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
 import Dashboard from "./pages/Dashboard";
 import ItemMaster from "./pages/ItemMaster";
 import StockOperations from "./pages/StockOperations";
+import StockTransfers from "./pages/StockTransfers";
+import LotTracking from "./pages/LotTracking";
+import StockCounts from "./pages/StockCounts";
+import PurchaseOrders from "./pages/PurchaseOrders";
+import MaterialPlanning from "./pages/MaterialPlanning";
+import Vendors from "./pages/Vendors";
+import Production from "./pages/Production";
+import BillOfMaterials from "./pages/BillOfMaterials";
 import OpeningStock from "./pages/OpeningStock";
 import StockSummary from "./pages/StockSummary";
+import StockLedger from "./pages/StockLedger";
+import StockReconciliation from "./pages/StockReconciliation";
+import ImportHistory from "./pages/ImportHistory";
+import TallyExport from "./pages/TallyExport";
+import ChangeRequests from "./pages/ChangeRequests";
+import AuditTrail from "./pages/AuditTrail";
 import StockAnalytics from "./pages/StockAnalytics";
 import OpeningStockSummary from "./pages/OpeningStockSummary";
 import Categories from "./pages/Categories";
@@ -34,21 +50,33 @@ const App = () => (
               <div className="min-h-screen flex w-full">
                 <AppSidebar />
                 <main className="flex-1">
-                  <header className="h-12 flex items-center border-b px-4">
-                    <SidebarTrigger />
-                    <h2 className="ml-4 font-semibold">ERP Management System</h2>
-                  </header>
+                  <AppHeader />
+                  <StockAlertNotifier />
                   <Routes>
                     <Route path="/" element={<Dashboard />} />
-                    <Route path="/items" element={<ItemMaster />} />
-                    <Route path="/stock" element={<StockOperations />} />
-                    <Route path="/stock-summary" element={<StockSummary />} />
-                    <Route path="/stock-analytics" element={<StockAnalytics />} />
-                    <Route path="/opening-stock" element={<OpeningStock />} />
-                    <Route path="/opening-stock-summary" element={<OpeningStockSummary />} />
-                    <Route path="/categories" element={<Categories />} />
-                    <Route path="/stock-alerts" element={<StockAlerts />} />
-                    <Route path="/legacy" element={<LegacyData />} />
+                    <Route path="/items" element={<ProtectedRoute module="items"><ItemMaster /></ProtectedRoute>} />
+                    <Route path="/stock" element={<ProtectedRoute module={["grn", "issues", "inventory"]}><StockOperations /></ProtectedRoute>} />
+                    <Route path="/transfers" element={<ProtectedRoute module="inventory"><StockTransfers /></ProtectedRoute>} />
+                    <Route path="/lots" element={<ProtectedRoute module="inventory"><LotTracking /></ProtectedRoute>} />
+                    <Route path="/stock-counts" element={<ProtectedRoute module="inventory"><StockCounts /></ProtectedRoute>} />
+                    <Route path="/purchase-orders" element={<ProtectedRoute module="purchasing"><PurchaseOrders /></ProtectedRoute>} />
+                    <Route path="/mrp" element={<ProtectedRoute module="purchasing"><MaterialPlanning /></ProtectedRoute>} />
+                    <Route path="/vendors" element={<ProtectedRoute module="purchasing"><Vendors /></ProtectedRoute>} />
+                    <Route path="/production" element={<ProtectedRoute module="production"><Production /></ProtectedRoute>} />
+                    <Route path="/bom" element={<ProtectedRoute module="production"><BillOfMaterials /></ProtectedRoute>} />
+                    <Route path="/stock-summary" element={<ProtectedRoute module="reports"><StockSummary /></ProtectedRoute>} />
+                    <Route path="/stock-ledger" element={<ProtectedRoute module="reports"><StockLedger /></ProtectedRoute>} />
+                    <Route path="/stock-analytics" element={<ProtectedRoute module="reports"><StockAnalytics /></ProtectedRoute>} />
+                    <Route path="/opening-stock" element={<ProtectedRoute module="inventory"><OpeningStock /></ProtectedRoute>} />
+                    <Route path="/opening-stock-summary" element={<ProtectedRoute module="reports"><OpeningStockSummary /></ProtectedRoute>} />
+                    <Route path="/categories" element={<ProtectedRoute module="items"><Categories /></ProtectedRoute>} />
+                    <Route path="/reconciliation" element={<ProtectedRoute module="inventory"><StockReconciliation /></ProtectedRoute>} />
+                    <Route path="/import-history" element={<ProtectedRoute module="imports"><ImportHistory /></ProtectedRoute>} />
+                    <Route path="/change-requests" element={<ProtectedRoute module={["grn", "issues"]}><ChangeRequests /></ProtectedRoute>} />
+                    <Route path="/audit-trail" element={<ProtectedRoute module="reports"><AuditTrail /></ProtectedRoute>} />
+                    <Route path="/tally-export" element={<ProtectedRoute module="imports"><TallyExport /></ProtectedRoute>} />
+                    <Route path="/stock-alerts" element={<ProtectedRoute module="reports"><StockAlerts /></ProtectedRoute>} />
+                    <Route path="/legacy" element={<ProtectedRoute module="reports"><LegacyData /></ProtectedRoute>} />
                     <Route path="/settings" element={<Settings />} />
                     {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
                     <Route path="*" element={<NotFound />} />
@@ -2,10 +2,24 @@ import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Check, X, Edit } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Check, X, Edit, ScrollText } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 
+const reorderLevelFields = [
+  { field: 'min_level', label: 'Min' },
+  { field: 'reorder_point', label: 'ROP' },
+  { field: 'safety_stock', label: 'Safety' },
+  { field: 'max_level', label: 'Max' },
+] as const;
+
+const parseLevel = (value: unknown): number | null => {
+  if (value === '' || value === null || value === undefined) return null;
+  const parsed = Number(value);
+  return isNaN(parsed) ? null : parsed;
+};
+
 interface ItemMasterInlineEditorProps {
   item: any;
   categories: any[];
@@ -32,6 +46,31 @@ export const ItemMasterInlineEditor: React.FC<ItemMasterInlineEditorProps> = ({
   };
 
   const handleSave = async () => {
+    const levels = {
+      min_level: parseLevel(editedItem.min_level),
+      reorder_point: parseLevel(editedItem.reorder_point),
+      safety_stock: parseLevel(editedItem.safety_stock),
+      max_level: parseLevel(editedItem.max_level),
+    };
+
+    if (levels.safety_stock !== null && levels.reorder_point !== null && levels.safety_stock > levels.reorder_point) {
+      toast({
+        title: "Invalid reorder levels",
+        description: "Safety stock cannot be higher than the reorder point",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (levels.max_level !== null && levels.reorder_point !== null && levels.reorder_point > levels.max_level) {
+      toast({
+        title: "Invalid reorder levels",
+        description: "Reorder point cannot be higher than the max level",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsSaving(true);
     try {
       // Update the item in the database
@@ -46,6 +85,7 @@ export const ItemMasterInlineEditor: React.FC<ItemMasterInlineEditorProps> = ({
           uom: editedItem.uom,
           usage_type: editedItem.usage_type || null,
           status: editedItem.status,
+          ...levels,
           updated_at: new Date().toISOString()
         })
         .eq('id', item.id);
@@ -120,6 +160,23 @@ export const ItemMasterInlineEditor: React.FC<ItemMasterInlineEditorProps> = ({
           </SelectContent>
         </Select>
       </td>
+      <td className="p-2">
+        <div className="grid grid-cols-2 gap-1 min-w-[160px]">
+          {reorderLevelFields.map(({ field, label }) => (
+            <Input
+              key={field}
+              type="number"
+              min="0"
+              step="any"
+              value={editedItem[field] ?? ''}
+              onChange={(e) => handleFieldChange(field, e.target.value)}
+              className="h-7 text-xs"
+              placeholder={label}
+              title={label}
+            />
+          ))}
+        </div>
+      </td>
       <td className="p-2">
         <Select
           value={editedItem.status || ''}
@@ -178,6 +235,7 @@ export const ItemMasterRow: React.FC<ItemMasterRowProps> = ({
   onDelete
 }) => {
   const [isEditing, setIsEditing] = useState(false);
+  const navigate = useNavigate();
 
   const handleEdit = () => {
     setIsEditing(true);
@@ -218,6 +276,9 @@ export const ItemMasterRow: React.FC<ItemMasterRowProps> = ({
       <td className="p-2">{item.categories?.category_name || 'N/A'}</td>
       <td className="p-2 font-mono">{item.stock?.[0]?.current_qty || 0}</td>
       <td className="p-2">{item.uom}</td>
+      <td className="p-2 font-mono text-xs text-muted-foreground">
+        {reorderLevelFields.map(({ field }) => item[field] ?? '-').join(' / ')}
+      </td>
       <td className="p-2">
         <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
           item.status === 'active' 
@@ -237,6 +298,15 @@ export const ItemMasterRow: React.FC<ItemMasterRowProps> = ({
           >
             <Edit className="h-3 w-3" />
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => navigate(`/stock-ledger?item=${encodeURIComponent(item.item_code)}`)}
+            className="h-8 w-8 p-0"
+            title="View stock ledger"
+          >
+            <ScrollText className="h-3 w-3" />
+          </Button>
           <Button
             variant="outline"
             size="sm"
@@ -6,6 +6,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Label } from '@/components/ui/label';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from '@/hooks/use-toast';
+import { useSystemSettings } from '@/hooks/useSystemSettings';
+import { defaultSystemSettings } from '@/utils/systemSettings';
 import { Loader2 } from 'lucide-react';
 
 export const AuthPage = () => {
@@ -13,6 +15,7 @@ export const AuthPage = () => {
   const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const { signIn, signUp } = useAuth();
+  const { data: settings = defaultSystemSettings } = useSystemSettings();
 
   const handleSignIn = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -62,7 +65,7 @@ export const AuthPage = () => {
     <div className="min-h-screen flex items-center justify-center bg-background p-4">
       <Card className="w-full max-w-md">
         <CardHeader className="text-center">
-          <CardTitle className="text-2xl font-bold">DK Enterprises ERP</CardTitle>
+          <CardTitle className="text-2xl font-bold">{settings.company_name} ERP</CardTitle>
           <CardDescription>
             Sign in to access your inventory management system
           </CardDescription>
@@ -81,7 +84,7 @@ export const AuthPage = () => {
                   <Input
                     id="signin-email"
                     type="email"
-                    placeholder="info@dkenterprises.co.in"
+                    placeholder={settings.system_email}
                     value={email}
                     onChange={(e) => setEmail(e.target.value)}
                     required
@@ -147,7 +150,7 @@ export const AuthPage = () => {
           </Tabs>
           
           <div className="mt-4 text-center text-sm text-muted-foreground">
-            Admin access: info@dkenterprises.co.in
+            Admin access: {settings.system_email}
           </div>
         </CardContent>
       </Card>
@@ -1,20 +1,26 @@
 import React from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/usePermission';
+import type { PermissionModule } from '@/utils/permissions';
 import { AuthPage } from './AuthPage';
 import { Loader2 } from 'lucide-react';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
   requireAdmin?: boolean;
+  /** Module(s) the user needs view permission on; any one of them is enough */
+  module?: PermissionModule | PermissionModule[];
 }
 
 export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ 
   children, 
-  requireAdmin = false 
+  requireAdmin = false,
+  module
 }) => {
   const { user, isAdmin, isLoading } = useAuth();
+  const { can, isLoading: permissionsLoading } = usePermissions();
 
-  if (isLoading) {
+  if (isLoading || (module && permissionsLoading)) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
@@ -42,5 +48,18 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
     );
   }
 
+  if (module && ![module].flat().some(m => can(m, 'view'))) {
+    return (
+      <div className="min-h-[50vh] flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold mb-4">Access Denied</h2>
+          <p className="text-muted-foreground">
+            Your role does not include access to this area.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
   return <>{children}</>;
 };
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { useState } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertTriangle, RefreshCw } from "lucide-react"
+
+const ALL_JOBS = 'all'
+
+export const BOMConsumptionReport = () => {
+  const [uiornFilter, setUiornFilter] = useState(ALL_JOBS)
+
+  const { data: rows = [], isLoading, error, refetch } = useQuery({
+    queryKey: ['job-bom-consumption'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('job_bom_consumption')
+        .select('*')
+        .order('uiorn', { ascending: false })
+        .order('item_name')
+
+      if (error) throw error
+      return data || []
+    }
+  })
+
+  const uiorns = [...new Set(rows.map(row => row.uiorn).filter(Boolean))] as string[]
+  const filteredRows = uiornFilter === ALL_JOBS ? rows : rows.filter(row => row.uiorn === uiornFilter)
+
+  const getVarianceBadge = (planned: number, actual: number, onBom: boolean) => {
+    if (!onBom) return <Badge variant="destructive">Not on BOM</Badge>
+    if (actual === 0) return <Badge variant="secondary">Not issued</Badge>
+    const pct = planned > 0 ? ((actual - planned) / planned) * 100 : 0
+    if (Math.abs(pct) < 0.5) return <Badge variant="default" className="bg-green-100 text-green-800">On plan</Badge>
+    if (pct > 0) return <Badge variant="destructive">+{pct.toFixed(1)}%</Badge>
+    return <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">{pct.toFixed(1)}%</Badge>
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertDescription>
+          Error loading planned vs actual consumption: {error.message}
+          <Button variant="outline" size="sm" onClick={() => refetch()} className="ml-2">
+            <RefreshCw className="h-4 w-4 mr-1" />
+            Retry
+          </Button>
+        </AlertDescription>
+      </Alert>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>Planned vs Actual Consumption</CardTitle>
+            <CardDescription>
+              Planned from each job's BOM version and planned quantity; actual from issues booked to the UIORN
+            </CardDescription>
+          </div>
+          <div className="w-64">
+            <Select value={uiornFilter} onValueChange={setUiornFilter}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_JOBS}>All jobs</SelectItem>
+                {uiorns.map(uiorn => (
+                  <SelectItem key={uiorn} value={uiorn}>{uiorn}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>UIORN</TableHead>
+                <TableHead>Component</TableHead>
+                <TableHead>Planned</TableHead>
+                <TableHead>Actual</TableHead>
+                <TableHead>Variance</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8">
+                    <RefreshCw className="h-4 w-4 animate-spin mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : filteredRows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    No jobs have been planned against a BOM yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filteredRows.map(row => (
+                  <TableRow key={`${row.uiorn}-${row.item_code}`}>
+                    <TableCell className="font-mono">{row.uiorn}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{row.item_name}</div>
+                      <div className="text-xs text-muted-foreground">{row.item_code}</div>
+                    </TableCell>
+                    <TableCell>{row.planned_qty} {row.uom}</TableCell>
+                    <TableCell>{row.actual_qty} {row.uom}</TableCell>
+                    <TableCell className={(row.variance_qty || 0) > 0 ? 'text-red-600' : undefined}>
+                      {(row.variance_qty || 0) > 0 ? '+' : ''}{row.variance_qty} {row.uom}
+                    </TableCell>
+                    <TableCell>{getVarianceBadge(row.planned_qty || 0, row.actual_qty || 0, !!row.on_bom)}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
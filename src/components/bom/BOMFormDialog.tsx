@@ -0,0 +1,301 @@
+import { useEffect, useState } from "react"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { ItemCombobox } from "@/components/ui/item-combobox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useItemsWithStock } from "@/hooks/useItemsWithStock"
+import type { BOMWithLines } from "@/hooks/useBOMs"
+import { useToast } from "@/hooks/use-toast"
+import { formatBOMVersion } from "@/utils/bom"
+import { Plus, Trash2 } from "lucide-react"
+
+interface BOMLineDraft {
+  component_item_code: string
+  qty_per_unit: string
+  scrap_pct: string
+}
+
+const emptyLine: BOMLineDraft = { component_item_code: '', qty_per_unit: '', scrap_pct: '0' }
+
+interface BOMFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Draft being edited in place
+  bom?: BOMWithLines | null
+  // Existing version to copy into a new draft version
+  copyFrom?: BOMWithLines | null
+}
+
+export const BOMFormDialog = ({ open, onOpenChange, bom, copyFrom }: BOMFormDialogProps) => {
+  const [itemCode, setItemCode] = useState('')
+  const [remarks, setRemarks] = useState('')
+  const [lines, setLines] = useState<BOMLineDraft[]>([{ ...emptyLine }])
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const { data: items = [], isLoading: itemsLoading } = useItemsWithStock()
+
+  useEffect(() => {
+    if (!open) return
+    const source = bom || copyFrom
+    setItemCode(source?.item_code || '')
+    setRemarks(bom?.remarks || '')
+    setLines(source?.bom_lines.length
+      ? source.bom_lines.map(line => ({
+          component_item_code: line.component_item_code,
+          qty_per_unit: line.qty_per_unit.toString(),
+          scrap_pct: line.scrap_pct.toString()
+        }))
+      : [{ ...emptyLine }])
+  }, [open, bom, copyFrom])
+
+  const saveBOMMutation = useMutation({
+    mutationFn: async () => {
+      const lineRows = (bomId: string) => lines.map(line => ({
+        bom_id: bomId,
+        component_item_code: line.component_item_code,
+        qty_per_unit: parseFloat(line.qty_per_unit),
+        scrap_pct: parseFloat(line.scrap_pct) || 0
+      }))
+
+      if (bom) {
+        const { error: headerError } = await supabase
+          .from('bom_headers')
+          .update({ remarks: remarks.trim() || null })
+          .eq('id', bom.id)
+        if (headerError) throw headerError
+
+        const { error: deleteError } = await supabase.from('bom_lines').delete().eq('bom_id', bom.id)
+        if (deleteError) throw deleteError
+
+        const { error: linesError } = await supabase.from('bom_lines').insert(lineRows(bom.id))
+        if (linesError) throw linesError
+        return { version: bom.version }
+      }
+
+      const { data: latest, error: latestError } = await supabase
+        .from('bom_headers')
+        .select('version')
+        .eq('item_code', itemCode)
+        .order('version', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+      if (latestError) throw latestError
+
+      const { data: header, error } = await supabase
+        .from('bom_headers')
+        .insert({
+          item_code: itemCode,
+          version: (latest?.version || 0) + 1,
+          remarks: remarks.trim() || null
+        })
+        .select()
+        .single()
+      if (error) throw error
+
+      const { error: linesError } = await supabase.from('bom_lines').insert(lineRows(header.id))
+      if (linesError) {
+        // Don't leave a header without lines behind
+        await supabase.from('bom_headers').delete().eq('id', header.id)
+        throw linesError
+      }
+      return { version: header.version }
+    },
+    onSuccess: ({ version }) => {
+      queryClient.invalidateQueries({ queryKey: ['boms'] })
+      toast({
+        title: "Success",
+        description: `BOM ${formatBOMVersion(version)} ${bom ? 'updated' : 'saved as draft'}`,
+      })
+      onOpenChange(false)
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  })
+
+  const updateLine = (index: number, field: keyof BOMLineDraft, value: string) => {
+    setLines(lines.map((line, i) => i === index ? { ...line, [field]: value } : line))
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!itemCode) {
+      toast({
+        title: "Error",
+        description: "Select the finished item this BOM produces",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const invalidLine = lines.findIndex(line => {
+      const qty = parseFloat(line.qty_per_unit)
+      const scrap = parseFloat(line.scrap_pct) || 0
+      return !line.component_item_code || isNaN(qty) || qty <= 0 || scrap < 0 || scrap >= 100
+    })
+    if (invalidLine !== -1) {
+      toast({
+        title: "Error",
+        description: `Line ${invalidLine + 1} needs a component, a positive quantity and scrap between 0 and 100%`,
+        variant: "destructive",
+      })
+      return
+    }
+
+    const components = lines.map(line => line.component_item_code)
+    if (components.includes(itemCode)) {
+      toast({
+        title: "Error",
+        description: "An item cannot be a component of itself",
+        variant: "destructive",
+      })
+      return
+    }
+    if (new Set(components).size !== components.length) {
+      toast({
+        title: "Error",
+        description: "Each component can only appear once; combine duplicate lines",
+        variant: "destructive",
+      })
+      return
+    }
+
+    saveBOMMutation.mutate()
+  }
+
+  const finishedUom = items.find(item => item.item_code === itemCode)?.uom
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {bom
+              ? `Edit BOM ${formatBOMVersion(bom.version)}`
+              : copyFrom
+                ? `New Version of ${copyFrom.item_code}`
+                : 'Create Bill of Materials'}
+          </DialogTitle>
+          <DialogDescription>
+            Quantities are per one unit of the finished item{finishedUom ? ` (${finishedUom})` : ''}. Scrap % is added on top when calculating requirements.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Finished Item *</Label>
+            <ItemCombobox
+              items={items}
+              value={itemCode}
+              onValueChange={setItemCode}
+              placeholder="Search and select finished item..."
+              isLoading={itemsLoading}
+              disabled={!!bom || !!copyFrom}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Components *</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setLines([...lines, { ...emptyLine }])}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Component
+              </Button>
+            </div>
+            <div className="space-y-3">
+              {lines.map((line, index) => {
+                const uom = items.find(item => item.item_code === line.component_item_code)?.uom
+                return (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-end p-3 border rounded-lg">
+                    <div className="col-span-7 space-y-1">
+                      <Label className="text-xs text-muted-foreground">Component</Label>
+                      <ItemCombobox
+                        items={items}
+                        value={line.component_item_code}
+                        onValueChange={(value) => updateLine(index, 'component_item_code', value)}
+                        placeholder="Search and select component..."
+                        isLoading={itemsLoading}
+                      />
+                    </div>
+                    <div className="col-span-2 space-y-1">
+                      <Label className="text-xs text-muted-foreground">Qty / Unit{uom ? ` (${uom})` : ''}</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={line.qty_per_unit}
+                        onChange={(e) => updateLine(index, 'qty_per_unit', e.target.value)}
+                        placeholder="0"
+                      />
+                    </div>
+                    <div className="col-span-2 space-y-1">
+                      <Label className="text-xs text-muted-foreground">Scrap %</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        max="99.99"
+                        step="0.01"
+                        value={line.scrap_pct}
+                        onChange={(e) => updateLine(index, 'scrap_pct', e.target.value)}
+                      />
+                    </div>
+                    <div className="col-span-1">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                        disabled={lines.length === 1}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="bom-remarks">Remarks</Label>
+            <Textarea
+              id="bom-remarks"
+              value={remarks}
+              onChange={(e) => setRemarks(e.target.value)}
+              placeholder="What changed in this version..."
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveBOMMutation.isPending}>
+              {saveBOMMutation.isPending ? "Saving..." : bom ? "Update Draft" : "Save as Draft"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,159 @@
+import { useState } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import type { BOMWithLines } from "@/hooks/useBOMs"
+import { bomStatusLabels, formatBOMVersion, type BOMStatus } from "@/utils/bom"
+import { AlertTriangle, CheckCircle, RefreshCw } from "lucide-react"
+
+interface BOMRequirementsProps {
+  boms: BOMWithLines[]
+}
+
+export const BOMRequirements = ({ boms }: BOMRequirementsProps) => {
+  const [bomId, setBomId] = useState("")
+  const [plannedQty, setPlannedQty] = useState("")
+
+  const selectableBOMs = boms.filter(bom => bom.status !== 'ARCHIVED')
+  const selectedBOM = boms.find(bom => bom.id === bomId)
+  const qty = parseFloat(plannedQty)
+
+  const { data: requirements = [], isLoading, error } = useQuery({
+    queryKey: ['bom-requirements', bomId, qty],
+    enabled: !!bomId && qty > 0,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('calculate_bom_requirements', {
+        p_bom_id: bomId,
+        p_planned_qty: qty
+      })
+
+      if (error) throw error
+      return data || []
+    }
+  })
+
+  const shortages = requirements.filter(line => line.shortage_qty > 0)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Material Requirements</CardTitle>
+        <CardDescription>
+          Gross requirement for a planned production quantity (including scrap) against current stock
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="md:col-span-2 space-y-2">
+            <Label>BOM</Label>
+            <Select value={bomId} onValueChange={setBomId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select finished item BOM" />
+              </SelectTrigger>
+              <SelectContent>
+                {selectableBOMs.map(bom => (
+                  <SelectItem key={bom.id} value={bom.id}>
+                    {bom.item_master?.item_name || bom.item_code} · {formatBOMVersion(bom.version)} ({bomStatusLabels[bom.status as BOMStatus]})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="planned-qty">
+              Planned Quantity{selectedBOM?.item_master?.uom ? ` (${selectedBOM.item_master.uom})` : ''}
+            </Label>
+            <Input
+              id="planned-qty"
+              type="number"
+              min="0"
+              step="any"
+              value={plannedQty}
+              onChange={(e) => setPlannedQty(e.target.value)}
+              placeholder="0"
+            />
+          </div>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>Error calculating requirements: {error.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {requirements.length > 0 && (
+          shortages.length > 0 ? (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                {shortages.length} of {requirements.length} components are short for this quantity
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <Alert>
+              <CheckCircle className="h-4 w-4" />
+              <AlertDescription>All components are available in stock</AlertDescription>
+            </Alert>
+          )
+        )}
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Component</TableHead>
+                <TableHead>Qty / Unit</TableHead>
+                <TableHead>Scrap %</TableHead>
+                <TableHead>Required</TableHead>
+                <TableHead>In Stock</TableHead>
+                <TableHead>Shortage</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {!bomId || !(qty > 0) ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    Select a BOM and enter a planned quantity
+                  </TableCell>
+                </TableRow>
+              ) : isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8">
+                    <RefreshCw className="h-4 w-4 animate-spin mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : (
+                requirements.map(line => (
+                  <TableRow key={line.component_item_code}>
+                    <TableCell>
+                      <div className="font-medium">{line.item_name}</div>
+                      <div className="text-xs text-muted-foreground">{line.component_item_code}</div>
+                    </TableCell>
+                    <TableCell>{line.qty_per_unit}</TableCell>
+                    <TableCell>{line.scrap_pct}%</TableCell>
+                    <TableCell className="font-medium">{line.required_qty} {line.uom}</TableCell>
+                    <TableCell>{line.available_qty} {line.uom}</TableCell>
+                    <TableCell>
+                      {line.shortage_qty > 0 ? (
+                        <Badge variant="destructive">{line.shortage_qty} {line.uom}</Badge>
+                      ) : (
+                        <Badge variant="default" className="bg-green-100 text-green-800">Available</Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,145 @@
+import { useEffect, useState } from "react"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import type { Tables } from "@/integrations/supabase/types"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useToast } from "@/hooks/use-toast"
+
+const ANY = "any"
+
+interface NewStockCountDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  locations: Tables<'storage_locations'>[]
+  categories: Tables<'categories'>[]
+  onCreated: (countId: string) => void
+}
+
+export const NewStockCountDialog = ({ open, onOpenChange, locations, categories, onCreated }: NewStockCountDialogProps) => {
+  const [form, setForm] = useState({ location_id: ANY, category_id: ANY, remarks: '' })
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    if (!open) return
+    setForm({ location_id: ANY, category_id: ANY, remarks: '' })
+  }, [open])
+
+  const createCountMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('create_stock_count', {
+        p_location_id: form.location_id === ANY ? undefined : form.location_id,
+        p_category_id: form.category_id === ANY ? undefined : form.category_id,
+        p_remarks: form.remarks.trim() || undefined
+      })
+
+      if (error) throw error
+      return data
+    },
+    onSuccess: (countId) => {
+      queryClient.invalidateQueries({ queryKey: ['stock-counts'] })
+      toast({
+        title: "Success",
+        description: "Count started and system quantities frozen",
+      })
+      onOpenChange(false)
+      onCreated(countId)
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  })
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (form.location_id === ANY && form.category_id === ANY) {
+      toast({
+        title: "Error",
+        description: "Choose a location, a category or both",
+        variant: "destructive",
+      })
+      return
+    }
+
+    createCountMutation.mutate()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>New Stock Count</DialogTitle>
+          <DialogDescription>
+            System quantities are frozen when the count starts; variances are measured against them.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="count-location">Location</Label>
+              <Select value={form.location_id} onValueChange={(value) => setForm({ ...form, location_id: value })}>
+                <SelectTrigger id="count-location">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>All locations</SelectItem>
+                  {locations.filter(location => location.status === 'active').map(location => (
+                    <SelectItem key={location.id} value={location.id}>{location.location_name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="count-category">Category</Label>
+              <Select value={form.category_id} onValueChange={(value) => setForm({ ...form, category_id: value })}>
+                <SelectTrigger id="count-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>All categories</SelectItem>
+                  {categories.map(category => (
+                    <SelectItem key={category.id} value={category.id}>{category.category_name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="count-remarks">Remarks</Label>
+            <Textarea
+              id="count-remarks"
+              value={form.remarks}
+              onChange={(e) => setForm({ ...form, remarks: e.target.value })}
+              placeholder="e.g. Month-end count, rack A1-A6..."
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={createCountMutation.isPending}>
+              {createCountMutation.isPending ? "Starting..." : "Start Count"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,375 @@
+import { useMemo, useState } from "react"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import type { Tables } from "@/integrations/supabase/types"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { StockCountStatusBadge } from "@/components/counts/StockCountStatusBadge"
+import { StockCountCSVUpload } from "@/components/csv/StockCountCSVUpload"
+import { useStockCountLines } from "@/hooks/useStockCounts"
+import { usePermission } from "@/hooks/usePermission"
+import { useAuth } from "@/contexts/AuthContext"
+import { useToast } from "@/hooks/use-toast"
+import { formatINR } from "@/utils/valuation"
+import { getCountVariance, summarizeCount } from "@/utils/stockCounts"
+import { Ban, CheckCircle, ClipboardCheck, RefreshCw, Save, Send, Undo2, Upload } from "lucide-react"
+
+type StockCount = Tables<'stock_counts'> & {
+  storage_locations: { location_name: string } | null
+  categories: { category_name: string } | null
+}
+
+interface StockCountSheetProps {
+  count: StockCount
+}
+
+interface LineDraft {
+  counted_qty: string
+  remarks: string
+}
+
+const formatQty = (qty: number) => (qty > 0 ? `+${qty}` : `${qty}`)
+
+export const StockCountSheet = ({ count }: StockCountSheetProps) => {
+  const [drafts, setDrafts] = useState<Record<string, LineDraft>>({})
+  const [lineFilter, setLineFilter] = useState("all")
+  const [showUpload, setShowUpload] = useState(false)
+  const { user } = useAuth()
+  const canApprove = usePermission('inventory', 'approve')
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const { data: lines = [], isLoading, refetch } = useStockCountLines(count.id)
+
+  const isCounting = count.status === 'COUNTING'
+  const summary = useMemo(() => summarizeCount(lines), [lines])
+  const dirtyIds = Object.keys(drafts)
+
+  const filteredLines = lines.filter(line => {
+    const variance = getCountVariance(line)
+    if (lineFilter === "uncounted") return variance === null
+    if (lineFilter === "variances") return variance !== null && variance.qty !== 0
+    return true
+  })
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    })
+  }
+
+  const saveCountsMutation = useMutation({
+    mutationFn: async () => {
+      for (const id of dirtyIds) {
+        const draft = drafts[id]
+        const { error } = await supabase
+          .from('stock_count_lines')
+          .update({
+            counted_qty: draft.counted_qty.trim() === '' ? null : parseFloat(draft.counted_qty),
+            remarks: draft.remarks.trim() || null,
+            counted_by: user?.id,
+            counted_at: new Date().toISOString()
+          })
+          .eq('id', id)
+
+        if (error) throw error
+      }
+    },
+    onSuccess: () => {
+      setDrafts({})
+      queryClient.invalidateQueries({ queryKey: ['stock-count-lines', count.id] })
+      toast({
+        title: "Success",
+        description: "Counted quantities saved",
+      })
+    },
+    onError
+  })
+
+  const setStatusMutation = useMutation({
+    mutationFn: async (status: string) => {
+      const { error } = await supabase.rpc('set_stock_count_status', { p_count_id: count.id, p_status: status })
+      if (error) throw error
+      return status
+    },
+    onSuccess: (status) => {
+      queryClient.invalidateQueries({ queryKey: ['stock-counts'] })
+      toast({
+        title: "Success",
+        description: status === 'SUBMITTED' ? "Count submitted for approval"
+          : status === 'APPROVED' ? "Count approved; post it to adjust stock"
+          : status === 'COUNTING' ? "Count sent back for recounting"
+          : "Count cancelled",
+      })
+    },
+    onError
+  })
+
+  const postCountMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('post_stock_count', { p_count_id: count.id })
+      if (error) throw error
+      return data
+    },
+    onSuccess: (posted) => {
+      queryClient.invalidateQueries({ queryKey: ['stock-counts'] })
+      queryClient.invalidateQueries({ queryKey: ['stock-summary'] })
+      queryClient.invalidateQueries({ queryKey: ['stock-summary-detailed'] })
+      queryClient.invalidateQueries({ queryKey: ['stock-alerts'] })
+      queryClient.invalidateQueries({ queryKey: ['items-with-stock'] })
+      queryClient.invalidateQueries({ queryKey: ['location-stock'] })
+      queryClient.invalidateQueries({ queryKey: ['recent-adjustments'] })
+      toast({
+        title: "Success",
+        description: `${posted} stock adjustments posted`,
+      })
+    },
+    onError
+  })
+
+  const updateDraft = (line: typeof lines[number], field: keyof LineDraft, value: string) => {
+    setDrafts(prev => ({
+      ...prev,
+      [line.id]: {
+        counted_qty: prev[line.id]?.counted_qty ?? (line.counted_qty === null ? '' : String(line.counted_qty)),
+        remarks: prev[line.id]?.remarks ?? (line.remarks || ''),
+        [field]: value
+      }
+    }))
+  }
+
+  const handleSave = () => {
+    const invalid = dirtyIds.find(id => {
+      const qty = drafts[id].counted_qty.trim()
+      return qty !== '' && (isNaN(parseFloat(qty)) || parseFloat(qty) < 0)
+    })
+    if (invalid) {
+      onError(new Error("Counted quantities must be zero or more"))
+      return
+    }
+    saveCountsMutation.mutate()
+  }
+
+  const handleSubmit = () => {
+    if (dirtyIds.length > 0) {
+      onError(new Error("Save your counts before submitting"))
+      return
+    }
+    const uncounted = summary.total_lines - summary.counted_lines
+    if (uncounted > 0 && !window.confirm(`${uncounted} lines have not been counted and will not be adjusted. Submit anyway?`)) return
+    setStatusMutation.mutate('SUBMITTED')
+  }
+
+  const handlePost = () => {
+    if (window.confirm(`Post ${summary.variance_lines} adjustments worth ${formatINR(summary.net_value)} net? Stock will change immediately.`)) {
+      postCountMutation.mutate()
+    }
+  }
+
+  const isBusy = setStatusMutation.isPending || postCountMutation.isPending
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardCheck className="h-4 w-4" />
+              {count.count_number}
+              <StockCountStatusBadge status={count.status} />
+            </CardTitle>
+            <CardDescription>
+              {count.storage_locations?.location_name || 'All locations'} · {count.categories?.category_name || 'All categories'} ·
+              frozen {new Date(count.frozen_at).toLocaleString()}
+              {count.remarks ? ` · ${count.remarks}` : ''}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {isCounting && (
+              <>
+                <Button variant="outline" onClick={() => setShowUpload(!showUpload)}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  CSV
+                </Button>
+                <Button variant="outline" onClick={handleSave} disabled={dirtyIds.length === 0 || saveCountsMutation.isPending}>
+                  <Save className="h-4 w-4 mr-2" />
+                  {saveCountsMutation.isPending ? "Saving..." : `Save (${dirtyIds.length})`}
+                </Button>
+                <Button onClick={handleSubmit} disabled={isBusy}>
+                  <Send className="h-4 w-4 mr-2" />
+                  Submit
+                </Button>
+              </>
+            )}
+            {canApprove && count.status === 'SUBMITTED' && (
+              <Button onClick={() => setStatusMutation.mutate('APPROVED')} disabled={isBusy}>
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Approve
+              </Button>
+            )}
+            {canApprove && count.status === 'APPROVED' && (
+              <Button onClick={handlePost} disabled={isBusy}>
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Post Adjustments
+              </Button>
+            )}
+            {canApprove && (count.status === 'SUBMITTED' || count.status === 'APPROVED') && (
+              <Button variant="outline" onClick={() => setStatusMutation.mutate('COUNTING')} disabled={isBusy}>
+                <Undo2 className="h-4 w-4 mr-2" />
+                Send Back
+              </Button>
+            )}
+            {canApprove && ['COUNTING', 'SUBMITTED', 'APPROVED'].includes(count.status) && (
+              <Button
+                variant="outline"
+                onClick={() => window.confirm(`Cancel count ${count.count_number}? Nothing will be posted.`) && setStatusMutation.mutate('CANCELLED')}
+                disabled={isBusy}
+              >
+                <Ban className="h-4 w-4 mr-2" />
+                Cancel Count
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+          <div>
+            <div className="text-muted-foreground">Counted</div>
+            <div className="font-bold">{summary.counted_lines} / {summary.total_lines}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Lines with Variance</div>
+            <div className="font-bold">{summary.variance_lines}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Gains</div>
+            <div className="font-bold text-green-600">{formatINR(summary.gain_value)}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Losses</div>
+            <div className="font-bold text-red-600">{formatINR(summary.loss_value)}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Net Value Impact</div>
+            <div className={`font-bold ${summary.net_value < 0 ? 'text-red-600' : 'text-green-600'}`}>{formatINR(summary.net_value)}</div>
+          </div>
+        </div>
+
+        {isCounting && showUpload && (
+          <StockCountCSVUpload
+            countNumber={count.count_number}
+            lines={lines}
+            onUploadComplete={() => {
+              setDrafts({})
+              refetch()
+            }}
+          />
+        )}
+
+        <div className="flex justify-end">
+          <Select value={lineFilter} onValueChange={setLineFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All lines</SelectItem>
+              <SelectItem value="uncounted">Not counted yet</SelectItem>
+              <SelectItem value="variances">Variances only</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead>Location</TableHead>
+                <TableHead>System Qty</TableHead>
+                <TableHead>Counted Qty</TableHead>
+                <TableHead>Variance</TableHead>
+                <TableHead>Unit Cost</TableHead>
+                <TableHead>Value Impact</TableHead>
+                <TableHead>Remarks</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-8">
+                    <RefreshCw className="h-4 w-4 animate-spin mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : filteredLines.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                    No lines to show
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filteredLines.map(line => {
+                  const draft = drafts[line.id]
+                  const counted = draft
+                    ? (draft.counted_qty.trim() === '' ? null : parseFloat(draft.counted_qty))
+                    : line.counted_qty
+                  const variance = getCountVariance({ ...line, counted_qty: counted !== null && isNaN(counted) ? null : counted })
+                  const uom = line.item_master?.uom || ''
+
+                  return (
+                    <TableRow key={line.id} className={variance && variance.qty !== 0 ? 'bg-orange-50' : ''}>
+                      <TableCell>
+                        <div className="font-medium">{line.item_master?.item_name}</div>
+                        <div className="text-xs text-muted-foreground font-mono">{line.item_code}</div>
+                      </TableCell>
+                      <TableCell>{line.storage_locations?.location_name || '-'}</TableCell>
+                      <TableCell className="font-mono">{line.system_qty} {uom}</TableCell>
+                      <TableCell>
+                        {isCounting ? (
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            className="w-28"
+                            value={draft ? draft.counted_qty : (line.counted_qty ?? '')}
+                            onChange={(e) => updateDraft(line, 'counted_qty', e.target.value)}
+                          />
+                        ) : (
+                          <span className="font-mono">{line.counted_qty === null ? '-' : `${line.counted_qty} ${uom}`}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className={`font-mono ${variance && variance.qty < 0 ? 'text-red-600' : variance && variance.qty > 0 ? 'text-green-600' : ''}`}>
+                        {variance ? formatQty(variance.qty) : '-'}
+                      </TableCell>
+                      <TableCell className="font-mono">{formatINR(line.unit_cost)}</TableCell>
+                      <TableCell className={`font-mono ${variance && variance.value < 0 ? 'text-red-600' : ''}`}>
+                        {variance ? formatINR(variance.value) : '-'}
+                      </TableCell>
+                      <TableCell>
+                        {isCounting ? (
+                          <Input
+                            className="w-40"
+                            value={draft ? draft.remarks : (line.remarks || '')}
+                            onChange={(e) => updateDraft(line, 'remarks', e.target.value)}
+                            placeholder="Damaged, misplaced..."
+                          />
+                        ) : (
+                          line.remarks || '-'
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
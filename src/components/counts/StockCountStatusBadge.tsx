@@ -0,0 +1,23 @@
+import { Badge } from "@/components/ui/badge"
+import { stockCountStatusLabels, type StockCountStatus } from "@/utils/stockCounts"
+
+interface StockCountStatusBadgeProps {
+  status: string
+}
+
+export const StockCountStatusBadge = ({ status }: StockCountStatusBadgeProps) => {
+  const label = stockCountStatusLabels[status as StockCountStatus] || status
+
+  switch (status) {
+    case 'SUBMITTED':
+      return <Badge variant="secondary" className="bg-orange-100 text-orange-800">{label}</Badge>
+    case 'APPROVED':
+      return <Badge variant="secondary" className="bg-blue-100 text-blue-800">{label}</Badge>
+    case 'POSTED':
+      return <Badge variant="default" className="bg-green-100 text-green-800">{label}</Badge>
+    case 'CANCELLED':
+      return <Badge variant="destructive">{label}</Badge>
+    default:
+      return <Badge variant="outline">{label}</Badge>
+  }
+}
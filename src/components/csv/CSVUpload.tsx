@@ -1,13 +1,14 @@
 import React, { useState, useCallback } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Progress } from '@/components/ui/progress';
 import { toast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import type { templateConfigs } from '@/utils/templateGenerator';
+import { SpreadsheetFileInput } from './SpreadsheetFileInput';
 import { Upload, AlertTriangle, CheckCircle, X } from 'lucide-react';
 
 interface CSVData {
@@ -19,6 +20,8 @@ interface CSVUploadProps {
   title: string;
   description: string;
   expectedHeaders: string[];
+  /** Template whose fields the columns of non-template files are mapped onto */
+  templateType?: keyof typeof templateConfigs;
   onDataProcessed: (data: any[]) => Promise<{ success: number; errors: any[] }>;
 }
 
@@ -26,6 +29,7 @@ export const CSVUpload: React.FC<CSVUploadProps> = ({
   title,
   description,
   expectedHeaders,
+  templateType,
   onDataProcessed
 }) => {
   const [file, setFile] = useState<File | null>(null);
@@ -38,64 +42,34 @@ export const CSVUpload: React.FC<CSVUploadProps> = ({
     total: number;
   } | null>(null);
 
-  const parseCSV = (text: string): CSVData => {
-    const lines = text.split('\n').filter(line => line.trim());
-    if (lines.length === 0) throw new Error('CSV file is empty');
-    
-    const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, ''));
-    const rows = lines.slice(1).map(line => 
-      line.split(',').map(cell => cell.trim().replace(/"/g, ''))
-    );
-    
-    return { headers, rows };
-  };
-
-  const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (!selectedFile) return;
-
-    if (!selectedFile.name.endsWith('.csv')) {
-      toast({
-        title: "Invalid file type",
-        description: "Please select a CSV file",
-        variant: "destructive"
-      });
-      return;
-    }
-
+  const handleFileLoad = useCallback(async (selectedFile: File, csvData: CSVData) => {
     setFile(selectedFile);
     setUploadResult(null);
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      try {
-        const csvData = parseCSV(event.target?.result as string);
-        setCsvData(csvData);
-        
-        // Validate headers
-        const missingHeaders = expectedHeaders.filter(
-          header => !csvData.headers.some(h => 
-            h.toLowerCase().includes(header.toLowerCase())
-          )
-        );
-        
-        if (missingHeaders.length > 0) {
-          toast({
-            title: "Missing required columns",
-            description: `Please ensure your CSV has: ${missingHeaders.join(', ')}`,
-            variant: "destructive"
-          });
-        }
-      } catch (error) {
+    try {
+      setCsvData(csvData);
+      
+      // Validate headers
+      const missingHeaders = expectedHeaders.filter(
+        header => !csvData.headers.some(h => 
+          h.toLowerCase().includes(header.toLowerCase())
+        )
+      );
+      
+      if (missingHeaders.length > 0) {
         toast({
-          title: "Error parsing CSV",
-          description: error instanceof Error ? error.message : "Unknown error",
+          title: "Missing required columns",
+          description: `Please ensure your file has: ${missingHeaders.join(', ')}`,
           variant: "destructive"
         });
       }
-    };
-    
-    reader.readAsText(selectedFile);
+    } catch (error) {
+      toast({
+        title: "Error reading file",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive"
+      });
+    }
   }, [expectedHeaders]);
 
   const processUpload = async () => {
@@ -184,12 +158,11 @@ export const CSVUpload: React.FC<CSVUploadProps> = ({
         {!uploadResult && (
           <>
             <div>
-              <Label htmlFor="csv-file">Select CSV File</Label>
-              <Input
+              <Label htmlFor="csv-file">Select CSV or Excel File</Label>
+              <SpreadsheetFileInput
                 id="csv-file"
-                type="file"
-                accept=".csv"
-                onChange={handleFileChange}
+                templateType={templateType}
+                onLoad={handleFileLoad}
                 className="mt-2"
               />
             </div>
@@ -0,0 +1,284 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { useImportMappingProfiles, useSaveImportMappingProfile } from '@/hooks/useImportMappingProfiles';
+import { templateConfigs } from '@/utils/templateGenerator';
+import {
+  applyColumnMapping,
+  dateFormatOptions,
+  decimalSeparatorOptions,
+  getHeaderSignature,
+  pruneColumnMap,
+  type ColumnMapping,
+  type DateFormat,
+  type DecimalSeparator
+} from '@/utils/columnMapping';
+import type { SpreadsheetData } from '@/utils/spreadsheet';
+
+// Radix selects cannot use an empty value for "no column"
+const UNMAPPED = '__unmapped__';
+
+interface ColumnMappingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  templateType: keyof typeof templateConfigs;
+  fileName: string;
+  data: SpreadsheetData;
+  initialMapping: ColumnMapping;
+  onApply: (mapping: ColumnMapping) => void;
+}
+
+export const ColumnMappingDialog: React.FC<ColumnMappingDialogProps> = ({
+  open,
+  onOpenChange,
+  templateType,
+  fileName,
+  data,
+  initialMapping,
+  onApply
+}) => {
+  const config = templateConfigs[templateType];
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+  const [saveAsProfile, setSaveAsProfile] = useState(false);
+  const [profileName, setProfileName] = useState('');
+  const { data: profiles = [] } = useImportMappingProfiles(templateType);
+  const saveProfileMutation = useSaveImportMappingProfile(templateType);
+
+  const preview = useMemo(
+    () => applyColumnMapping({ headers: data.headers, rows: data.rows.slice(0, 5) }, config.headers, mapping),
+    [data, config.headers, mapping]
+  );
+
+  const missingRequired = config.requiredHeaders.filter(field => !mapping.columnMap[field]);
+
+  const setFieldColumn = (field: string, header: string) => {
+    setMapping(prev => {
+      const columnMap = { ...prev.columnMap };
+      if (header === UNMAPPED) delete columnMap[field];
+      else columnMap[field] = header;
+      return { ...prev, columnMap };
+    });
+  };
+
+  const loadProfile = (profileId: string) => {
+    const profile = profiles.find(p => p.id === profileId);
+    if (!profile) return;
+    setMapping({
+      columnMap: pruneColumnMap(profile.columnMap, data.headers),
+      dateFormat: profile.dateFormat,
+      decimalSeparator: profile.decimalSeparator
+    });
+    setProfileName(profile.profileName);
+  };
+
+  const handleApply = async () => {
+    if (saveAsProfile) {
+      if (!profileName.trim()) {
+        toast({
+          title: "Profile name required",
+          description: "Enter a name to save this mapping",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      try {
+        await saveProfileMutation.mutateAsync({
+          ...mapping,
+          profileName: profileName.trim(),
+          headerSignature: getHeaderSignature(data.headers),
+          sourceHeaders: data.headers
+        });
+        toast({
+          title: "Mapping saved",
+          description: `Files with these columns will use "${profileName.trim()}" automatically`
+        });
+      } catch (error) {
+        toast({
+          title: "Error saving mapping",
+          description: error instanceof Error ? error.message : "Unknown error",
+          variant: "destructive"
+        });
+        return;
+      }
+    }
+
+    onApply(mapping);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Map Columns</DialogTitle>
+          <DialogDescription>
+            Match the columns of {fileName} to the fields this upload expects
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="mapping-profile">Saved profile</Label>
+              <Select onValueChange={loadProfile} disabled={profiles.length === 0}>
+                <SelectTrigger id="mapping-profile">
+                  <SelectValue placeholder={profiles.length === 0 ? 'No saved profiles' : 'Load a profile'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {profiles.map(profile => (
+                    <SelectItem key={profile.id} value={profile.id}>{profile.profileName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="mapping-date-format">Date format</Label>
+              <Select
+                value={mapping.dateFormat}
+                onValueChange={(value: DateFormat) => setMapping(prev => ({ ...prev, dateFormat: value }))}
+              >
+                <SelectTrigger id="mapping-date-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {dateFormatOptions.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="mapping-decimal">Decimal separator</Label>
+              <Select
+                value={mapping.decimalSeparator}
+                onValueChange={(value: DecimalSeparator) => setMapping(prev => ({ ...prev, decimalSeparator: value }))}
+              >
+                <SelectTrigger id="mapping-decimal">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {decimalSeparatorOptions.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="border rounded-md max-h-72 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Field</TableHead>
+                  <TableHead>Column in file</TableHead>
+                  <TableHead>First row</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {config.headers.map(field => {
+                  const previewIndex = preview.headers.indexOf(field);
+                  return (
+                    <TableRow key={field}>
+                      <TableCell className="font-mono text-sm">
+                        {field}
+                        {config.requiredHeaders.includes(field) && (
+                          <Badge variant="secondary" className="ml-2">Required</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={mapping.columnMap[field] || UNMAPPED}
+                          onValueChange={(value) => setFieldColumn(field, value)}
+                        >
+                          <SelectTrigger className="w-56">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                            {data.headers.filter(Boolean).map(header => (
+                              <SelectItem key={header} value={header}>{header}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {previewIndex >= 0 ? preview.rows[0]?.[previewIndex] || '-' : '-'}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+
+          {preview.headers.length > 0 && (
+            <div>
+              <h4 className="font-medium mb-2">Preview (first 5 rows after mapping)</h4>
+              <div className="border rounded-md overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {preview.headers.map(header => (
+                        <TableHead key={header}>{header}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rows.map((row, rowIndex) => (
+                      <TableRow key={rowIndex}>
+                        {row.map((cell, cellIndex) => (
+                          <TableCell key={cellIndex}>{cell}</TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="mapping-save-profile"
+                checked={saveAsProfile}
+                onCheckedChange={(checked) => setSaveAsProfile(checked === true)}
+              />
+              <Label htmlFor="mapping-save-profile">Save as profile</Label>
+            </div>
+            {saveAsProfile && (
+              <Input
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                placeholder="e.g. Tally stock journal"
+                className="w-64"
+              />
+            )}
+          </div>
+
+          {missingRequired.length > 0 && (
+            <p className="text-sm text-destructive">
+              Map the required fields: {missingRequired.join(', ')}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={missingRequired.length > 0 || saveProfileMutation.isPending}>
+            {saveProfileMutation.isPending ? 'Saving...' : 'Apply Mapping'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
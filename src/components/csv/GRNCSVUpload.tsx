@@ -1,16 +1,20 @@
 import React, { useState, useCallback } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Progress } from '@/components/ui/progress';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { toast } from '@/hooks/use-toast';
+import { useExcelTemplate } from '@/hooks/useExcelTemplate';
 import { supabase } from '@/integrations/supabase/client';
-import { Upload, Download, AlertTriangle, CheckCircle, X, FileText, AlertCircle } from 'lucide-react';
-import { downloadCSVTemplate } from '@/utils/templateGenerator';
+import { SpreadsheetFileInput } from './SpreadsheetFileInput';
+import { Upload, Download, AlertTriangle, CheckCircle, X, FileText, AlertCircle, FileSpreadsheet } from 'lucide-react';
+import { downloadCSVTemplate, templateConfigs } from '@/utils/templateGenerator';
+import { getOverReceiptQty } from '@/utils/purchaseOrders';
+import { normalizeVendorName } from '@/utils/vendorMatching';
+import { getImportErrors, parseImportResult, toImportValue, type ImportResult, type ImportRowResult } from '@/utils/csvImport';
+import { ImportDryRunResults } from './ImportDryRunResults';
 
 interface CSVData {
   headers: string[];
@@ -34,49 +38,27 @@ export const GRNCSVUpload: React.FC<GRNCSVUploadProps> = ({
   const [file, setFile] = useState<File | null>(null);
   const [csvData, setCsvData] = useState<CSVData | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [progress, setProgress] = useState(0);
   const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
+  const [uploadWarnings, setUploadWarnings] = useState<ValidationError[]>([]);
+  const [poLineAssignments, setPoLineAssignments] = useState<Record<number, string>>({});
+  const [vendorAssignments, setVendorAssignments] = useState<Record<number, { id: string; name: string }>>({});
+  const [locationAssignments, setLocationAssignments] = useState<Record<number, string>>({});
+  const [dryRunResult, setDryRunResult] = useState<ImportResult | null>(null);
   const [uploadResult, setUploadResult] = useState<{
     success: number;
-    errors: any[];
+    errors: ImportRowResult[];
     total: number;
   } | null>(null);
 
-  const requiredHeaders = ['grn_number', 'date', 'item_code', 'qty_received', 'uom'];
-  const optionalHeaders = ['invoice_number', 'amount_inr', 'vendor', 'remarks'];
+  const requiredHeaders = templateConfigs.grn.requiredHeaders;
+  const optionalHeaders = ['invoice_number', 'amount_inr', 'vendor', 'po_number', 'location_code', 'lot_number', 'mfg_date', 'expiry_date', 'remarks'];
+
+  const { downloadExcelTemplate, isDownloading: isDownloadingTemplate } = useExcelTemplate();
 
   const downloadTemplate = () => {
     downloadCSVTemplate('grn');
   };
 
-  const parseCSV = (text: string): CSVData => {
-    const lines = text.split('\n').filter(line => line.trim());
-    if (lines.length === 0) throw new Error('CSV file is empty');
-    
-    const headers = lines[0].split(',').map(h => h.trim().replace(/^"|"$/g, ''));
-    const rows = lines.slice(1).map(line => {
-      const cells = [];
-      let current = '';
-      let inQuotes = false;
-      
-      for (let i = 0; i < line.length; i++) {
-        const char = line[i];
-        if (char === '"') {
-          inQuotes = !inQuotes;
-        } else if (char === ',' && !inQuotes) {
-          cells.push(current.trim().replace(/^"|"$/g, ''));
-          current = '';
-        } else {
-          current += char;
-        }
-      }
-      cells.push(current.trim().replace(/^"|"$/g, ''));
-      return cells;
-    });
-    
-    return { headers, rows };
-  };
-
   const validateRow = (rowData: any, rowIndex: number): ValidationError[] => {
     const errors: ValidationError[] = [];
 
@@ -145,6 +127,26 @@ export const GRNCSVUpload: React.FC<GRNCSVUploadProps> = ({
       });
     }
 
+    ['mfg_date', 'expiry_date'].forEach(field => {
+      if (rowData[field]?.trim() && isNaN(new Date(rowData[field]).getTime())) {
+        errors.push({
+          row: rowIndex + 2,
+          field,
+          message: 'Invalid date format',
+          data: rowData
+        });
+      }
+    });
+
+    if (rowData.mfg_date?.trim() && rowData.expiry_date?.trim() && rowData.expiry_date < rowData.mfg_date) {
+      errors.push({
+        row: rowIndex + 2,
+        field: 'expiry_date',
+        message: 'Expiry date cannot be before the manufacture date',
+        data: rowData
+      });
+    }
+
     return errors;
   };
 
@@ -183,10 +185,10 @@ export const GRNCSVUpload: React.FC<GRNCSVUploadProps> = ({
   const checkDuplicateGRNs = async (dataObjects: any[]): Promise<ValidationError[]> => {
     const errors: ValidationError[] = [];
     
-    // Check for duplicates within the CSV (grn_number + item_code combination)
+    // Check for duplicates within the CSV (grn_number + item_code combination, per lot when rolls are listed)
     const seen = new Set();
     dataObjects.forEach((row, index) => {
-      const grnItemKey = `${row.grn_number}|${row.item_code}`;
+      const grnItemKey = `${row.grn_number}|${row.item_code}|${row.lot_number?.trim() || ''}`;
       if (seen.has(grnItemKey)) {
         errors.push({
           row: index + 2,
@@ -201,7 +203,7 @@ export const GRNCSVUpload: React.FC<GRNCSVUploadProps> = ({
     // Check for duplicates in database (grn_number + item_code combination)
     const { data: existingGRNs, error } = await supabase
       .from('grn_log')
-      .select('grn_number, item_code')
+      .select('grn_number, item_code, lot_number')
       .in('grn_number', [...new Set(dataObjects.map(row => row.grn_number))]);
     
     if (error) {
@@ -209,11 +211,11 @@ export const GRNCSVUpload: React.FC<GRNCSVUploadProps> = ({
     }
 
     const existingGRNItemCombinations = new Set(
-      existingGRNs?.map(grn => `${grn.grn_number}|${grn.item_code}`) || []
+      existingGRNs?.map(grn => `${grn.grn_number}|${grn.item_code}|${grn.lot_number || ''}`) || []
     );
     
     dataObjects.forEach((row, index) => {
-      const grnItemKey = `${row.grn_number}|${row.item_code}`;
+      const grnItemKey = `${row.grn_number}|${row.item_code}|${row.lot_number?.trim() || ''}`;
       if (existingGRNItemCombinations.has(grnItemKey)) {
         errors.push({
           row: index + 2,
@@ -227,179 +229,367 @@ export const GRNCSVUpload: React.FC<GRNCSVUploadProps> = ({
     return errors;
   };
 
-  const handleFileChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (!selectedFile) return;
+  // A lot or roll number can be received only once per item
+  const checkDuplicateLots = async (dataObjects: Record<string, string>[]): Promise<ValidationError[]> => {
+    const errors: ValidationError[] = [];
+    const lotNumbers = [...new Set(dataObjects.map(row => row.lot_number?.trim()).filter(Boolean))];
+    if (lotNumbers.length === 0) return errors;
 
-    if (!selectedFile.name.endsWith('.csv')) {
-      toast({
-        title: "Invalid file type",
-        description: "Please select a CSV file",
-        variant: "destructive"
-      });
-      return;
+    const { data: existingLots, error } = await supabase
+      .from('grn_log')
+      .select('item_code, lot_number')
+      .in('lot_number', lotNumbers);
+
+    if (error) {
+      throw error;
     }
 
-    setFile(selectedFile);
-    setUploadResult(null);
-    setValidationErrors([]);
+    const existingKeys = new Set(existingLots?.map(lot => `${lot.item_code}|${lot.lot_number}`) || []);
+    const seen = new Set<string>();
+
+    dataObjects.forEach((row, index) => {
+      const lotNumber = row.lot_number?.trim();
+      if (!lotNumber) return;
+
+      const key = `${row.item_code}|${lotNumber}`;
+      if (existingKeys.has(key) || seen.has(key)) {
+        errors.push({
+          row: index + 2,
+          field: 'lot_number',
+          message: `Lot '${lotNumber}' of item '${row.item_code}' has already been received`,
+          data: row
+        });
+      }
+      seen.add(key);
+    });
+
+    return errors;
+  };
+
+  // Match po_number + item_code to an open line on an approved PO
+  const resolvePOLines = async (dataObjects: Record<string, string>[]) => {
+    const errors: ValidationError[] = [];
+    const warnings: ValidationError[] = [];
+    const assignments: Record<number, string> = {};
+
+    const poNumbers = [...new Set(dataObjects.map(row => row.po_number?.trim()).filter(Boolean))];
+    if (poNumbers.length === 0) return { errors, warnings, assignments };
+
+    const { data: poLines, error } = await supabase
+      .from('purchase_order_line_status')
+      .select('po_line_id, po_number, po_status, item_code, pending_qty')
+      .in('po_number', poNumbers)
+      .order('expected_date', { ascending: true, nullsFirst: false });
+
+    if (error) {
+      throw error;
+    }
+
+    const remainingByLine = new Map<string, number>();
+    poLines?.forEach(line => remainingByLine.set(line.po_line_id as string, line.pending_qty || 0));
 
-    const reader = new FileReader();
-    reader.onload = async (event) => {
-      try {
-        const csvData = parseCSV(event.target?.result as string);
-        setCsvData(csvData);
-        
-        // Validate headers
-        const missingHeaders = requiredHeaders.filter(
-          header => !csvData.headers.some(h => 
-            h.toLowerCase() === header.toLowerCase()
-          )
-        );
-        
-        if (missingHeaders.length > 0) {
-          toast({
-            title: "Missing required columns",
-            description: `Please ensure your CSV has: ${missingHeaders.join(', ')}`,
-            variant: "destructive"
-          });
-          return;
-        }
-
-        // Convert to objects and validate
-        const dataObjects = csvData.rows.map(row => {
-          const obj: any = {};
-          csvData.headers.forEach((header, index) => {
-            obj[header.toLowerCase()] = row[index] || '';
-          });
-          return obj;
+    dataObjects.forEach((row, index) => {
+      const poNumber = row.po_number?.trim();
+      if (!poNumber) return;
+
+      const linesForPO = poLines?.filter(line => line.po_number === poNumber) || [];
+      if (linesForPO.length === 0) {
+        errors.push({
+          row: index + 2,
+          field: 'po_number',
+          message: `PO '${poNumber}' does not exist`,
+          data: row
         });
+        return;
+      }
 
-        // Validate each row
-        const allErrors: ValidationError[] = [];
-        dataObjects.forEach((rowData, index) => {
-          const errors = validateRow(rowData, index);
-          allErrors.push(...errors);
+      if (linesForPO[0].po_status !== 'APPROVED') {
+        errors.push({
+          row: index + 2,
+          field: 'po_number',
+          message: `PO '${poNumber}' is ${linesForPO[0].po_status?.toLowerCase()} and cannot be received against`,
+          data: row
         });
+        return;
+      }
 
-        // Check item codes exist
-        if (allErrors.length === 0) {
-          const itemCodeErrors = await validateItemCodes(dataObjects);
-          allErrors.push(...itemCodeErrors);
-        }
+      const itemLines = linesForPO.filter(line => line.item_code === row.item_code);
+      if (itemLines.length === 0) {
+        errors.push({
+          row: index + 2,
+          field: 'po_number',
+          message: `PO '${poNumber}' has no line for item '${row.item_code}'`,
+          data: row
+        });
+        return;
+      }
 
-        // Check for duplicate GRNs
-        if (allErrors.length === 0) {
-          const duplicateErrors = await checkDuplicateGRNs(dataObjects);
-          allErrors.push(...duplicateErrors);
-        }
+      // Prefer the earliest line that still has quantity pending
+      const line = itemLines.find(l => (remainingByLine.get(l.po_line_id as string) || 0) > 0) || itemLines[0];
+      const lineId = line.po_line_id as string;
+      const qty = parseFloat(row.qty_received);
+      const remaining = remainingByLine.get(lineId) || 0;
+      const overQty = getOverReceiptQty({ pending_qty: remaining }, qty);
 
-        setValidationErrors(allErrors);
+      if (overQty > 0) {
+        warnings.push({
+          row: index + 2,
+          field: 'qty_received',
+          message: `Receiving ${overQty} more than the ${remaining} pending on PO '${poNumber}' for '${row.item_code}'`,
+          data: row
+        });
+      }
 
-      } catch (error) {
-        toast({
-          title: "Error parsing CSV",
-          description: error instanceof Error ? error.message : "Unknown error",
-          variant: "destructive"
+      remainingByLine.set(lineId, Math.max(0, remaining - qty));
+      assignments[index] = lineId;
+    });
+
+    return { errors, warnings, assignments };
+  };
+
+  // Link vendor names to the vendor master; unmatched names are kept as free text
+  const resolveVendors = async (dataObjects: Record<string, string>[]) => {
+    const warnings: ValidationError[] = [];
+    const assignments: Record<number, { id: string; name: string }> = {};
+
+    if (!dataObjects.some(row => row.vendor?.trim())) return { warnings, assignments };
+
+    const { data: vendors, error } = await supabase
+      .from('vendors')
+      .select('id, vendor_name');
+
+    if (error) {
+      throw error;
+    }
+
+    const vendorsByName = new Map(vendors?.map(vendor => [normalizeVendorName(vendor.vendor_name), vendor]) || []);
+
+    dataObjects.forEach((row, index) => {
+      const vendorName = row.vendor?.trim();
+      if (!vendorName) return;
+
+      const vendor = vendorsByName.get(normalizeVendorName(vendorName));
+      if (vendor) {
+        assignments[index] = { id: vendor.id, name: vendor.vendor_name };
+      } else {
+        warnings.push({
+          row: index + 2,
+          field: 'vendor',
+          message: `Vendor '${vendorName}' is not in the vendor master and will be saved unlinked`,
+          data: row
         });
       }
-    };
-    
-    reader.readAsText(selectedFile);
-  }, []);
+    });
 
-  const processUpload = async () => {
-    if (!csvData || !file || validationErrors.length > 0) return;
+    return { warnings, assignments };
+  };
 
-    setIsProcessing(true);
-    setProgress(0);
+  // Map location_code to an active storage location; blank rows go to the default location
+  const resolveLocations = async (dataObjects: Record<string, string>[]) => {
+    const errors: ValidationError[] = [];
+    const assignments: Record<number, string> = {};
+
+    if (!dataObjects.some(row => row.location_code?.trim())) return { errors, assignments };
+
+    const { data: locations, error } = await supabase
+      .from('storage_locations')
+      .select('id, location_code')
+      .eq('status', 'active');
+
+    if (error) {
+      throw error;
+    }
+
+    const locationsByCode = new Map(locations?.map(location => [location.location_code.toUpperCase(), location.id]) || []);
+
+    dataObjects.forEach((row, index) => {
+      const locationCode = row.location_code?.trim();
+      if (!locationCode) return;
+
+      const locationId = locationsByCode.get(locationCode.toUpperCase());
+      if (locationId) {
+        assignments[index] = locationId;
+      } else {
+        errors.push({
+          row: index + 2,
+          field: 'location_code',
+          message: `Location '${locationCode}' does not exist or is inactive`,
+          data: row
+        });
+      }
+    });
+
+    return { errors, assignments };
+  };
+
+  const handleFileLoad = useCallback(async (selectedFile: File, csvData: CSVData) => {
+    setFile(selectedFile);
+    setUploadResult(null);
+    setValidationErrors([]);
+    setUploadWarnings([]);
+    setPoLineAssignments({});
+    setVendorAssignments({});
+    setLocationAssignments({});
+    setDryRunResult(null);
 
     try {
-      // Convert CSV data to objects
-      const dataObjects = csvData.rows.map((row, index) => {
+      setCsvData(csvData);
+      
+      // Validate headers
+      const missingHeaders = requiredHeaders.filter(
+        header => !csvData.headers.some(h => 
+          h.toLowerCase() === header.toLowerCase()
+        )
+      );
+      
+      if (missingHeaders.length > 0) {
+        toast({
+          title: "Missing required columns",
+          description: `Please ensure your file has: ${missingHeaders.join(', ')}`,
+          variant: "destructive"
+        });
+        return;
+      }
+
+      // Convert to objects and validate
+      const dataObjects = csvData.rows.map(row => {
         const obj: any = {};
-        csvData.headers.forEach((header, headerIndex) => {
-          obj[header.toLowerCase()] = row[headerIndex] || '';
+        csvData.headers.forEach((header, index) => {
+          obj[header.toLowerCase()] = row[index] || '';
         });
-        return { ...obj, originalRowIndex: index + 2 };
+        return obj;
       });
 
-      // Process data in batches
-      const batchSize = 10;
-      let totalSuccess = 0;
-      let allErrors: any[] = [];
-
-      for (let i = 0; i < dataObjects.length; i += batchSize) {
-        const batch = dataObjects.slice(i, i + batchSize);
-        
-        for (const item of batch) {
-          try {
-            // Prepare data for insertion
-            const grnData = {
-              grn_number: item.grn_number,
-              date: item.date,
-              item_code: item.item_code,
-              qty_received: parseFloat(item.qty_received),
-              uom: item.uom,
-              invoice_number: item.invoice_number || null,
-              amount_inr: item.amount_inr ? parseFloat(item.amount_inr) : null,
-              vendor: item.vendor || null,
-              remarks: item.remarks || null
-            };
-
-            // Insert GRN record
-            const { error: insertError } = await supabase
-              .from('grn_log')
-              .insert(grnData);
-
-            if (insertError) {
-              allErrors.push({
-                row: item.originalRowIndex,
-                message: `Error inserting GRN: ${insertError.message}`,
-                data: item
-              });
-            } else {
-              totalSuccess++;
-            }
-          } catch (error) {
-            allErrors.push({
-              row: item.originalRowIndex,
-              message: error instanceof Error ? error.message : 'Unknown error',
-              data: item
-            });
-          }
-        }
-        
-        setProgress(Math.round(((i + batch.length) / dataObjects.length) * 100));
+      // Validate each row
+      const allErrors: ValidationError[] = [];
+      dataObjects.forEach((rowData, index) => {
+        const errors = validateRow(rowData, index);
+        allErrors.push(...errors);
+      });
+
+      // Check item codes exist
+      if (allErrors.length === 0) {
+        const itemCodeErrors = await validateItemCodes(dataObjects);
+        allErrors.push(...itemCodeErrors);
       }
 
-      // Log the upload
-      try {
-        await supabase.from('csv_upload_log').insert({
-          user_id: (await supabase.auth.getUser()).data.user?.id,
-          file_name: file.name,
-          file_type: 'grn',
-          total_rows: dataObjects.length,
-          success_rows: totalSuccess,
-          error_rows: allErrors.length,
-          errors: allErrors.length > 0 ? allErrors : null
-        });
-      } catch (logError) {
-        console.error('Error logging upload:', logError);
+      // Check for duplicate GRNs
+      if (allErrors.length === 0) {
+        const duplicateErrors = await checkDuplicateGRNs(dataObjects);
+        const duplicateLotErrors = await checkDuplicateLots(dataObjects);
+        allErrors.push(...duplicateErrors, ...duplicateLotErrors);
       }
 
+      // Link rows to purchase order lines
+      if (allErrors.length === 0) {
+        const poResult = await resolvePOLines(dataObjects);
+        const vendorResult = await resolveVendors(dataObjects);
+        const locationResult = await resolveLocations(dataObjects);
+        allErrors.push(...poResult.errors, ...locationResult.errors);
+        setUploadWarnings([...poResult.warnings, ...vendorResult.warnings]);
+        setPoLineAssignments(poResult.assignments);
+        setVendorAssignments(vendorResult.assignments);
+        setLocationAssignments(locationResult.assignments);
+      }
+
+      setValidationErrors(allErrors);
+
+    } catch (error) {
+      toast({
+        title: "Error reading file",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive"
+      });
+    }
+  }, []);
+
+  // Rows sent to import_csv_rows with the PO line, vendor and location links resolved above
+  const buildImportRows = () => {
+    if (!csvData) return [];
+
+    return csvData.rows.map((row, index) => {
+      const obj: Record<string, string> = {};
+      csvData.headers.forEach((header, headerIndex) => {
+        obj[header.toLowerCase()] = row[headerIndex] || '';
+      });
+      return {
+        row: index + 2,
+        grn_number: obj.grn_number?.trim(),
+        date: obj.date?.trim(),
+        item_code: obj.item_code?.trim(),
+        qty_received: parseFloat(obj.qty_received),
+        uom: obj.uom?.trim(),
+        invoice_number: toImportValue(obj.invoice_number),
+        amount_inr: toImportValue(obj.amount_inr),
+        vendor: vendorAssignments[index]?.name || toImportValue(obj.vendor),
+        vendor_id: vendorAssignments[index]?.id || null,
+        po_line_id: poLineAssignments[index] || null,
+        location_id: locationAssignments[index] || null,
+        remarks: toImportValue(obj.remarks),
+        lot_number: toImportValue(obj.lot_number),
+        mfg_date: toImportValue(obj.mfg_date),
+        expiry_date: toImportValue(obj.expiry_date)
+      };
+    });
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    const { data, error } = await supabase.rpc('import_csv_rows', {
+      p_file_type: 'grn',
+      p_file_name: file?.name || 'grn.csv',
+      p_rows: buildImportRows(),
+      p_dry_run: dryRun
+    });
+
+    if (error) throw error;
+    return parseImportResult(data);
+  };
+
+  const runDryRun = async () => {
+    if (!csvData || !file || validationErrors.length > 0) return;
+
+    setIsProcessing(true);
+    try {
+      setDryRunResult(await runImport(true));
+    } catch (error) {
+      toast({
+        title: "Dry run failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive"
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // The whole file is applied in one transaction, so either every row is saved or none are
+  const processUpload = async () => {
+    if (!csvData || !file || validationErrors.length > 0) return;
+
+    setIsProcessing(true);
+
+    try {
+      const result = await runImport(false);
+
+      setDryRunResult(null);
       setUploadResult({
-        success: totalSuccess,
-        errors: allErrors,
-        total: dataObjects.length
+        success: result.committed ? result.total_rows : 0,
+        errors: getImportErrors(result),
+        total: result.total_rows
       });
 
-      if (totalSuccess > 0) {
+      if (result.committed) {
         toast({
           title: "Upload completed",
-          description: `Successfully processed ${totalSuccess} out of ${dataObjects.length} GRN records`,
+          description: `Imported all ${result.total_rows} GRN records`,
         });
         onUploadComplete();
+      } else {
+        toast({
+          title: "Upload rejected",
+          description: `${result.error_rows} rows failed, so no GRN records were saved`,
+          variant: "destructive"
+        });
       }
 
     } catch (error) {
@@ -410,7 +600,6 @@ export const GRNCSVUpload: React.FC<GRNCSVUploadProps> = ({
       });
     } finally {
       setIsProcessing(false);
-      setProgress(0);
     }
   };
 
@@ -423,6 +612,7 @@ export const GRNCSVUpload: React.FC<GRNCSVUploadProps> = ({
         </CardTitle>
         <CardDescription>
           Upload multiple GRN records from a CSV file. Same GRN number can be used for multiple items.
+          Add a po_number column to receive against approved purchase orders, and a location_code column to receive into a location other than the default. List each roll or lot on its own row with lot_number, mfg_date and expiry_date.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
@@ -431,23 +621,28 @@ export const GRNCSVUpload: React.FC<GRNCSVUploadProps> = ({
           <div>
             <p className="font-medium">Download Template</p>
             <p className="text-sm text-muted-foreground">
-              Get the CSV template with required columns
+              Get the CSV template, or an Excel template with dropdowns for item codes and units
             </p>
           </div>
-          <Button variant="outline" onClick={downloadTemplate}>
-            <Download className="mr-2 h-4 w-4" />
-            Download Template
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={downloadTemplate}>
+              <Download className="mr-2 h-4 w-4" />
+              CSV Template
+            </Button>
+            <Button variant="outline" onClick={() => downloadExcelTemplate('grn')} disabled={isDownloadingTemplate}>
+              <FileSpreadsheet className="mr-2 h-4 w-4" />
+              Excel Template
+            </Button>
+          </div>
         </div>
 
         {/* File Upload */}
         <div className="space-y-2">
-          <Label htmlFor="csv-file">Select CSV File</Label>
-          <Input
-            id="csv-file"
-            type="file"
-            accept=".csv"
-            onChange={handleFileChange}
+          <Label htmlFor="grn-file">Select CSV or Excel File</Label>
+          <SpreadsheetFileInput
+            id="grn-file"
+            templateType="grn"
+            onLoad={handleFileLoad}
             disabled={isProcessing}
           />
         </div>
@@ -478,6 +673,32 @@ export const GRNCSVUpload: React.FC<GRNCSVUploadProps> = ({
           </Alert>
         )}
 
+        {/* Warnings (upload can still proceed) */}
+        {validationErrors.length === 0 && uploadWarnings.length > 0 && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              <div className="space-y-2">
+                <p className="font-medium">
+                  {uploadWarnings.length} warnings (upload can still proceed):
+                </p>
+                <div className="max-h-40 overflow-y-auto">
+                  {uploadWarnings.slice(0, 10).map((warning, index) => (
+                    <div key={index} className="text-sm">
+                      Row {warning.row}: {warning.message}
+                    </div>
+                  ))}
+                  {uploadWarnings.length > 10 && (
+                    <div className="text-sm text-muted-foreground">
+                      ... and {uploadWarnings.length - 10} more warnings
+                    </div>
+                  )}
+                </div>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* File Preview */}
         {csvData && validationErrors.length === 0 && (
           <div className="space-y-2">
@@ -510,32 +731,35 @@ export const GRNCSVUpload: React.FC<GRNCSVUploadProps> = ({
           </div>
         )}
 
-        {/* Process Button */}
-        {csvData && validationErrors.length === 0 && (
-          <Button
-            onClick={processUpload}
-            disabled={isProcessing || validationErrors.length > 0}
-            className="w-full"
-          >
-            {isProcessing ? (
-              <>Processing... ({progress}%)</>
-            ) : (
-              <>
-                <Upload className="mr-2 h-4 w-4" />
-                Process {csvData.rows.length} GRN Records
-              </>
-            )}
-          </Button>
-        )}
-
-        {/* Progress Bar */}
-        {isProcessing && (
-          <div className="space-y-2">
-            <div className="flex justify-between text-sm">
-              <span>Processing GRN records...</span>
-              <span>{progress}%</span>
-            </div>
-            <Progress value={progress} className="w-full" />
+        {/* Dry Run Results */}
+        {dryRunResult && <ImportDryRunResults result={dryRunResult} />}
+
+        {/* Dry run first; the import is enabled once every row has passed on the server */}
+        {csvData && validationErrors.length === 0 && !uploadResult && (
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={runDryRun}
+              disabled={isProcessing}
+              className="flex-1"
+            >
+              <FileText className="mr-2 h-4 w-4" />
+              {isProcessing && !dryRunResult ? 'Checking...' : 'Dry Run'}
+            </Button>
+            <Button
+              onClick={processUpload}
+              disabled={isProcessing || !dryRunResult || dryRunResult.error_rows > 0}
+              className="flex-1"
+            >
+              {isProcessing && dryRunResult ? (
+                <>Importing...</>
+              ) : (
+                <>
+                  <Upload className="mr-2 h-4 w-4" />
+                  Import {csvData.rows.length} GRN Records
+                </>
+              )}
+            </Button>
           </div>
         )}
 
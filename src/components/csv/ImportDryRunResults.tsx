@@ -0,0 +1,57 @@
+import React from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import { getImportErrors, type ImportResult } from '@/utils/csvImport';
+
+interface ImportDryRunResultsProps {
+  result: ImportResult;
+}
+
+export const ImportDryRunResults: React.FC<ImportDryRunResultsProps> = ({ result }) => {
+  const errors = getImportErrors(result);
+
+  if (errors.length > 0) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertDescription>
+          <div className="space-y-2">
+            <p className="font-medium">
+              Dry run: {errors.length} of {result.total_rows} rows would fail. Nothing was saved; fix the file and select it again.
+            </p>
+            <div className="max-h-40 overflow-y-auto">
+              {errors.slice(0, 10).map(error => (
+                <div key={error.row} className="text-sm">
+                  Row {error.row}{error.item_code ? ` (${error.item_code})` : ''}: {error.message}
+                </div>
+              ))}
+              {errors.length > 10 && (
+                <div className="text-sm text-muted-foreground">
+                  ... and {errors.length - 10} more errors
+                </div>
+              )}
+            </div>
+          </div>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Alert className="border-green-200 bg-green-50">
+      <CheckCircle className="h-4 w-4" />
+      <AlertDescription>
+        <div className="space-y-1">
+          <p className="font-medium">
+            Dry run passed: all {result.total_rows} rows can be imported. Nothing has been saved yet.
+          </p>
+          {result.created_categories.length > 0 && (
+            <p className="text-sm">
+              New categories that will be created: {result.created_categories.join(', ')}
+            </p>
+          )}
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+};
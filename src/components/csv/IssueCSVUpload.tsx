@@ -1,16 +1,19 @@
 import React, { useState, useCallback } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Progress } from '@/components/ui/progress';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { toast } from '@/hooks/use-toast';
+import { useExcelTemplate } from '@/hooks/useExcelTemplate';
 import { supabase } from '@/integrations/supabase/client';
-import { Upload, Download, AlertTriangle, CheckCircle, X, FileText, AlertCircle } from 'lucide-react';
-import { downloadCSVTemplate } from '@/utils/templateGenerator';
+import { SpreadsheetFileInput } from './SpreadsheetFileInput';
+import { Upload, Download, AlertTriangle, CheckCircle, X, FileText, AlertCircle, FileSpreadsheet } from 'lucide-react';
+import { downloadCSVTemplate, templateConfigs } from '@/utils/templateGenerator';
+import { isProductionStageKey, productionStages } from '@/utils/production';
+import { getImportErrors, parseImportResult, toImportValue, type ImportResult, type ImportRowResult } from '@/utils/csvImport';
+import { ImportDryRunResults } from './ImportDryRunResults';
 
 interface CSVData {
   headers: string[];
@@ -34,49 +37,25 @@ export const IssueCSVUpload: React.FC<IssueCSVUploadProps> = ({
   const [file, setFile] = useState<File | null>(null);
   const [csvData, setCsvData] = useState<CSVData | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [progress, setProgress] = useState(0);
   const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
+  const [locationAssignments, setLocationAssignments] = useState<Record<number, string>>({});
+  const [lotAssignments, setLotAssignments] = useState<Record<number, string>>({});
+  const [dryRunResult, setDryRunResult] = useState<ImportResult | null>(null);
   const [uploadResult, setUploadResult] = useState<{
     success: number;
-    errors: any[];
+    errors: ImportRowResult[];
     total: number;
   } | null>(null);
 
-  const requiredHeaders = ['date', 'item_code', 'qty_issued', 'purpose'];
-  const optionalHeaders = ['remarks'];
+  const requiredHeaders = templateConfigs.issue.requiredHeaders;
+  const optionalHeaders = ['remarks', 'uiorn', 'production_stage', 'location_code', 'lot_number'];
+
+  const { downloadExcelTemplate, isDownloading: isDownloadingTemplate } = useExcelTemplate();
 
   const downloadTemplate = () => {
     downloadCSVTemplate('issue');
   };
 
-  const parseCSV = (text: string): CSVData => {
-    const lines = text.split('\n').filter(line => line.trim());
-    if (lines.length === 0) throw new Error('CSV file is empty');
-    
-    const headers = lines[0].split(',').map(h => h.trim().replace(/^"|"$/g, ''));
-    const rows = lines.slice(1).map(line => {
-      const cells = [];
-      let current = '';
-      let inQuotes = false;
-      
-      for (let i = 0; i < line.length; i++) {
-        const char = line[i];
-        if (char === '"') {
-          inQuotes = !inQuotes;
-        } else if (char === ',' && !inQuotes) {
-          cells.push(current.trim().replace(/^"|"$/g, ''));
-          current = '';
-        } else {
-          current += char;
-        }
-      }
-      cells.push(current.trim().replace(/^"|"$/g, ''));
-      return cells;
-    });
-    
-    return { headers, rows };
-  };
-
   const validateRow = (rowData: any, rowIndex: number): ValidationError[] => {
     const errors: ValidationError[] = [];
 
@@ -136,6 +115,25 @@ export const IssueCSVUpload: React.FC<IssueCSVUploadProps> = ({
       });
     }
 
+    const stage = rowData.production_stage?.trim();
+    if (stage) {
+      if (!isProductionStageKey(stage)) {
+        errors.push({
+          row: rowIndex + 2,
+          field: 'production_stage',
+          message: `Production stage must be one of: ${productionStages.map(s => s.key).join(', ')}`,
+          data: rowData
+        });
+      } else if (!rowData.uiorn?.trim()) {
+        errors.push({
+          row: rowIndex + 2,
+          field: 'production_stage',
+          message: 'Production stage requires a UIORN',
+          data: rowData
+        });
+      }
+    }
+
     return errors;
   };
 
@@ -171,6 +169,38 @@ export const IssueCSVUpload: React.FC<IssueCSVUploadProps> = ({
     return errors;
   };
 
+  const validateUiorns = async (dataObjects: Record<string, string>[]): Promise<ValidationError[]> => {
+    const errors: ValidationError[] = [];
+
+    const uiorns = [...new Set(dataObjects.map(row => row.uiorn?.trim()).filter(Boolean))];
+    if (uiorns.length === 0) return errors;
+
+    const { data: orders, error } = await supabase
+      .from('order_punching')
+      .select('uiorn')
+      .in('uiorn', uiorns);
+
+    if (error) {
+      throw error;
+    }
+
+    const existingUiorns = new Set(orders?.map(order => order.uiorn) || []);
+
+    dataObjects.forEach((row, index) => {
+      const uiorn = row.uiorn?.trim();
+      if (uiorn && !existingUiorns.has(uiorn)) {
+        errors.push({
+          row: index + 2,
+          field: 'uiorn',
+          message: `UIORN '${uiorn}' has not been punched`,
+          data: row
+        });
+      }
+    });
+
+    return errors;
+  };
+
   const validateStockAvailability = async (dataObjects: any[]): Promise<ValidationError[]> => {
     const errors: ValidationError[] = [];
     
@@ -206,175 +236,320 @@ export const IssueCSVUpload: React.FC<IssueCSVUploadProps> = ({
     return errors;
   };
 
-  const handleFileChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (!selectedFile) return;
+  // Map location_code to an active storage location; blank rows draw from the default location
+  const resolveLocations = async (dataObjects: Record<string, string>[]) => {
+    const errors: ValidationError[] = [];
+    const assignments: Record<number, string> = {};
 
-    if (!selectedFile.name.endsWith('.csv')) {
-      toast({
-        title: "Invalid file type",
-        description: "Please select a CSV file",
-        variant: "destructive"
-      });
-      return;
-    }
+    const { data: locations, error } = await supabase
+      .from('storage_locations')
+      .select('id, location_code, is_default')
+      .eq('status', 'active');
 
-    setFile(selectedFile);
-    setUploadResult(null);
-    setValidationErrors([]);
+    if (error) {
+      throw error;
+    }
 
-    const reader = new FileReader();
-    reader.onload = async (event) => {
-      try {
-        const csvData = parseCSV(event.target?.result as string);
-        setCsvData(csvData);
-        
-        // Validate headers
-        const missingHeaders = requiredHeaders.filter(
-          header => !csvData.headers.some(h => 
-            h.toLowerCase() === header.toLowerCase()
-          )
-        );
-        
-        if (missingHeaders.length > 0) {
-          toast({
-            title: "Missing required columns",
-            description: `Please ensure your CSV has: ${missingHeaders.join(', ')}`,
-            variant: "destructive"
-          });
-          return;
-        }
+    const locationsByCode = new Map(locations?.map(location => [location.location_code.toUpperCase(), location.id]) || []);
+    const defaultLocationId = locations?.find(location => location.is_default)?.id;
 
-        // Convert to objects and validate
-        const dataObjects = csvData.rows.map(row => {
-          const obj: any = {};
-          csvData.headers.forEach((header, index) => {
-            obj[header.toLowerCase()] = row[index] || '';
-          });
-          return obj;
+    dataObjects.forEach((row, index) => {
+      const locationCode = row.location_code?.trim();
+      const locationId = locationCode ? locationsByCode.get(locationCode.toUpperCase()) : defaultLocationId;
+      if (locationId) {
+        assignments[index] = locationId;
+      } else {
+        errors.push({
+          row: index + 2,
+          field: 'location_code',
+          message: locationCode
+            ? `Location '${locationCode}' does not exist or is inactive`
+            : 'No default location is set up',
+          data: row
         });
+      }
+    });
+
+    return { errors, assignments };
+  };
+
+  // Rows drawing on the same item and location are checked together
+  const validateLocationStock = async (
+    dataObjects: Record<string, string>[],
+    assignments: Record<number, string>
+  ): Promise<ValidationError[]> => {
+    const errors: ValidationError[] = [];
+    const itemCodes = [...new Set(dataObjects.map(row => row.item_code))];
+
+    const { data: locationStock, error } = await supabase
+      .from('location_stock')
+      .select('item_code, location_id, location_name, current_qty')
+      .in('item_code', itemCodes);
+
+    if (error) {
+      throw error;
+    }
+
+    const remaining = new Map(
+      locationStock?.map(row => [`${row.item_code}|${row.location_id}`, row.current_qty || 0]) || []
+    );
+    const locationNames = new Map(locationStock?.map(row => [row.location_id, row.location_name]) || []);
 
-        // Validate each row
-        const allErrors: ValidationError[] = [];
-        dataObjects.forEach((rowData, index) => {
-          const errors = validateRow(rowData, index);
-          allErrors.push(...errors);
+    dataObjects.forEach((row, index) => {
+      const key = `${row.item_code}|${assignments[index]}`;
+      const available = remaining.get(key) || 0;
+      const reqQuantity = parseFloat(row.qty_issued);
+
+      if (available < reqQuantity) {
+        errors.push({
+          row: index + 2,
+          field: 'location_code',
+          message: `Insufficient stock at ${locationNames.get(assignments[index]) || 'location'}. Available: ${available}, Requested: ${reqQuantity}`,
+          data: row
         });
+      }
+      remaining.set(key, available - reqQuantity);
+    });
 
-        // Check item codes exist
-        if (allErrors.length === 0) {
-          const itemCodeErrors = await validateItemCodes(dataObjects);
-          allErrors.push(...itemCodeErrors);
-        }
+    return errors;
+  };
 
-        // Check stock availability
-        if (allErrors.length === 0) {
-          const stockErrors = await validateStockAvailability(dataObjects);
-          allErrors.push(...stockErrors);
-        }
+  // Map lot_number to a received lot of the same item with enough left and not expired on the issue date
+  const resolveLots = async (dataObjects: Record<string, string>[]) => {
+    const errors: ValidationError[] = [];
+    const assignments: Record<number, string> = {};
 
-        setValidationErrors(allErrors);
+    const lotNumbers = [...new Set(dataObjects.map(row => row.lot_number?.trim()).filter(Boolean))];
+    if (lotNumbers.length === 0) return { errors, assignments };
 
-      } catch (error) {
-        toast({
-          title: "Error parsing CSV",
-          description: error instanceof Error ? error.message : "Unknown error",
-          variant: "destructive"
+    const { data: lots, error } = await supabase
+      .from('stock_lots')
+      .select('lot_id, lot_number, item_code, expiry_date, remaining_qty')
+      .in('lot_number', lotNumbers);
+
+    if (error) {
+      throw error;
+    }
+
+    const remaining = new Map(lots?.map(lot => [lot.lot_id, lot.remaining_qty || 0]) || []);
+
+    dataObjects.forEach((row, index) => {
+      const lotNumber = row.lot_number?.trim();
+      if (!lotNumber) return;
+
+      const lot = lots?.find(l => l.lot_number === lotNumber && l.item_code === row.item_code);
+      const qty = parseFloat(row.qty_issued);
+
+      if (!lot?.lot_id) {
+        errors.push({
+          row: index + 2,
+          field: 'lot_number',
+          message: `Lot '${lotNumber}' has not been received for item '${row.item_code}'`,
+          data: row
+        });
+      } else if (lot.expiry_date && lot.expiry_date < row.date) {
+        errors.push({
+          row: index + 2,
+          field: 'lot_number',
+          message: `Lot '${lotNumber}' expired on ${lot.expiry_date}`,
+          data: row
+        });
+      } else if ((remaining.get(lot.lot_id) || 0) < qty) {
+        errors.push({
+          row: index + 2,
+          field: 'lot_number',
+          message: `Lot '${lotNumber}' has only ${remaining.get(lot.lot_id) || 0} left`,
+          data: row
         });
+      } else {
+        remaining.set(lot.lot_id, (remaining.get(lot.lot_id) || 0) - qty);
+        assignments[index] = lot.lot_id;
       }
-    };
-    
-    reader.readAsText(selectedFile);
-  }, []);
+    });
 
-  const processUpload = async () => {
-    if (!csvData || !file || validationErrors.length > 0) return;
+    return { errors, assignments };
+  };
 
-    setIsProcessing(true);
-    setProgress(0);
+  const handleFileLoad = useCallback(async (selectedFile: File, csvData: CSVData) => {
+    setFile(selectedFile);
+    setUploadResult(null);
+    setValidationErrors([]);
+    setLocationAssignments({});
+    setLotAssignments({});
+    setDryRunResult(null);
 
     try {
-      // Convert CSV data to objects
-      const dataObjects = csvData.rows.map((row, index) => {
+      setCsvData(csvData);
+      
+      // Validate headers
+      const missingHeaders = requiredHeaders.filter(
+        header => !csvData.headers.some(h => 
+          h.toLowerCase() === header.toLowerCase()
+        )
+      );
+      
+      if (missingHeaders.length > 0) {
+        toast({
+          title: "Missing required columns",
+          description: `Please ensure your file has: ${missingHeaders.join(', ')}`,
+          variant: "destructive"
+        });
+        return;
+      }
+
+      // Convert to objects and validate
+      const dataObjects = csvData.rows.map(row => {
         const obj: any = {};
-        csvData.headers.forEach((header, headerIndex) => {
-          obj[header.toLowerCase()] = row[headerIndex] || '';
+        csvData.headers.forEach((header, index) => {
+          obj[header.toLowerCase()] = row[index] || '';
         });
-        return { ...obj, originalRowIndex: index + 2 };
+        return obj;
+      });
+
+      // Validate each row
+      const allErrors: ValidationError[] = [];
+      dataObjects.forEach((rowData, index) => {
+        const errors = validateRow(rowData, index);
+        allErrors.push(...errors);
       });
 
-      // Process data in batches
-      const batchSize = 10;
-      let totalSuccess = 0;
-      let allErrors: any[] = [];
-
-      for (let i = 0; i < dataObjects.length; i += batchSize) {
-        const batch = dataObjects.slice(i, i + batchSize);
-        
-        for (const item of batch) {
-          try {
-            // Prepare data for insertion
-            const issueData = {
-              date: item.date,
-              item_code: item.item_code,
-              qty_issued: parseFloat(item.qty_issued),
-              purpose: item.purpose,
-              remarks: item.remarks || null
-            };
-
-            // Insert issue record
-            const { error: insertError } = await supabase
-              .from('issue_log')
-              .insert(issueData);
-
-            if (insertError) {
-              allErrors.push({
-                row: item.originalRowIndex,
-                message: `Error inserting issue: ${insertError.message}`,
-                data: item
-              });
-            } else {
-              totalSuccess++;
-            }
-          } catch (error) {
-            allErrors.push({
-              row: item.originalRowIndex,
-              message: error instanceof Error ? error.message : 'Unknown error',
-              data: item
-            });
-          }
+      // Check item codes exist
+      if (allErrors.length === 0) {
+        const itemCodeErrors = await validateItemCodes(dataObjects);
+        allErrors.push(...itemCodeErrors);
+      }
+
+      // Check referenced jobs exist
+      if (allErrors.length === 0) {
+        const uiornErrors = await validateUiorns(dataObjects);
+        allErrors.push(...uiornErrors);
+      }
+
+      // Stock checks are a preview only; the import enforces them again under a lock.
+      // They are skipped when negative stock is allowed.
+      const { data: negativeStockSetting } = await supabase
+        .from('system_settings')
+        .select('value')
+        .eq('key', 'allow_negative_stock')
+        .maybeSingle();
+      const allowNegativeStock = negativeStockSetting?.value === true;
+
+      // Check stock availability
+      if (allErrors.length === 0 && !allowNegativeStock) {
+        const stockErrors = await validateStockAvailability(dataObjects);
+        allErrors.push(...stockErrors);
+      }
+
+      // Check each row's location and the stock held there
+      if (allErrors.length === 0) {
+        const locationResult = await resolveLocations(dataObjects);
+        allErrors.push(...locationResult.errors);
+        if (locationResult.errors.length === 0 && !allowNegativeStock) {
+          const locationStockErrors = await validateLocationStock(dataObjects, locationResult.assignments);
+          allErrors.push(...locationStockErrors);
         }
-        
-        setProgress(Math.round(((i + batch.length) / dataObjects.length) * 100));
+        setLocationAssignments(locationResult.assignments);
       }
 
-      // Log the upload
-      try {
-        await supabase.from('csv_upload_log').insert({
-          user_id: (await supabase.auth.getUser()).data.user?.id,
-          file_name: file.name,
-          file_type: 'issue',
-          total_rows: dataObjects.length,
-          success_rows: totalSuccess,
-          error_rows: allErrors.length,
-          errors: allErrors.length > 0 ? allErrors : null
-        });
-      } catch (logError) {
-        console.error('Error logging upload:', logError);
+      // Check lots named in the file
+      if (allErrors.length === 0) {
+        const lotResult = await resolveLots(dataObjects);
+        allErrors.push(...lotResult.errors);
+        setLotAssignments(lotResult.assignments);
       }
 
+      setValidationErrors(allErrors);
+
+    } catch (error) {
+      toast({
+        title: "Error reading file",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive"
+      });
+    }
+  }, []);
+
+  // Rows sent to import_csv_rows with the location and lot links resolved above
+  const buildImportRows = () => {
+    if (!csvData) return [];
+
+    return csvData.rows.map((row, index) => {
+      const obj: Record<string, string> = {};
+      csvData.headers.forEach((header, headerIndex) => {
+        obj[header.toLowerCase()] = row[headerIndex] || '';
+      });
+      return {
+        row: index + 2,
+        date: obj.date?.trim(),
+        item_code: obj.item_code?.trim(),
+        qty_issued: parseFloat(obj.qty_issued),
+        purpose: toImportValue(obj.purpose),
+        remarks: toImportValue(obj.remarks),
+        uiorn: toImportValue(obj.uiorn),
+        production_stage: toImportValue(obj.production_stage),
+        location_id: locationAssignments[index] || null,
+        lot_id: lotAssignments[index] || null
+      };
+    });
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    const { data, error } = await supabase.rpc('import_csv_rows', {
+      p_file_type: 'issue',
+      p_file_name: file?.name || 'issues.csv',
+      p_rows: buildImportRows(),
+      p_dry_run: dryRun
+    });
+
+    if (error) throw error;
+    return parseImportResult(data);
+  };
+
+  const runDryRun = async () => {
+    if (!csvData || !file || validationErrors.length > 0) return;
+
+    setIsProcessing(true);
+    try {
+      setDryRunResult(await runImport(true));
+    } catch (error) {
+      toast({
+        title: "Dry run failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive"
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Rows are posted in one transaction under the same stock lock as the manual form; any failure saves nothing
+  const processUpload = async () => {
+    if (!csvData || !file || validationErrors.length > 0) return;
+
+    setIsProcessing(true);
+
+    try {
+      const result = await runImport(false);
+
+      setDryRunResult(null);
       setUploadResult({
-        success: totalSuccess,
-        errors: allErrors,
-        total: dataObjects.length
+        success: result.committed ? result.total_rows : 0,
+        errors: getImportErrors(result),
+        total: result.total_rows
       });
 
-      if (totalSuccess > 0) {
+      if (result.committed) {
         toast({
           title: "Upload completed",
-          description: `Successfully processed ${totalSuccess} out of ${dataObjects.length} issue records`,
+          description: `Imported all ${result.total_rows} issue records`,
         });
         onUploadComplete();
+      } else {
+        toast({
+          title: "Upload rejected",
+          description: `${result.error_rows} rows failed, so no issue records were saved`,
+          variant: "destructive"
+        });
       }
 
     } catch (error) {
@@ -385,7 +560,6 @@ export const IssueCSVUpload: React.FC<IssueCSVUploadProps> = ({
       });
     } finally {
       setIsProcessing(false);
-      setProgress(0);
     }
   };
 
@@ -397,7 +571,7 @@ export const IssueCSVUpload: React.FC<IssueCSVUploadProps> = ({
           Bulk Issue Upload
         </CardTitle>
         <CardDescription>
-          Upload multiple issue records from a CSV file
+          Upload multiple issue records from a CSV file. Add a location_code column to issue from a location other than the default, and a lot_number column to issue a specific lot or roll.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
@@ -406,23 +580,28 @@ export const IssueCSVUpload: React.FC<IssueCSVUploadProps> = ({
           <div>
             <p className="font-medium">Download Template</p>
             <p className="text-sm text-muted-foreground">
-              Get the CSV template with required columns
+              Get the CSV template, or an Excel template with dropdowns for item codes and units
             </p>
           </div>
-          <Button variant="outline" onClick={downloadTemplate}>
-            <Download className="mr-2 h-4 w-4" />
-            Download Template
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={downloadTemplate}>
+              <Download className="mr-2 h-4 w-4" />
+              CSV Template
+            </Button>
+            <Button variant="outline" onClick={() => downloadExcelTemplate('issue')} disabled={isDownloadingTemplate}>
+              <FileSpreadsheet className="mr-2 h-4 w-4" />
+              Excel Template
+            </Button>
+          </div>
         </div>
 
         {/* File Upload */}
         <div className="space-y-2">
-          <Label htmlFor="csv-file">Select CSV File</Label>
-          <Input
-            id="csv-file"
-            type="file"
-            accept=".csv"
-            onChange={handleFileChange}
+          <Label htmlFor="issue-file">Select CSV or Excel File</Label>
+          <SpreadsheetFileInput
+            id="issue-file"
+            templateType="issue"
+            onLoad={handleFileLoad}
             disabled={isProcessing}
           />
         </div>
@@ -485,25 +664,28 @@ export const IssueCSVUpload: React.FC<IssueCSVUploadProps> = ({
           </div>
         )}
 
-        {/* Upload Progress */}
-        {isProcessing && (
-          <div className="space-y-2">
-            <Label>Upload Progress</Label>
-            <Progress value={progress} className="w-full" />
-            <p className="text-sm text-muted-foreground">
-              Processing... {progress}%
-            </p>
-          </div>
-        )}
-
-        {/* Upload Button */}
-        <Button 
-          onClick={processUpload} 
-          disabled={!csvData || validationErrors.length > 0 || isProcessing}
-          className="w-full"
-        >
-          {isProcessing ? "Processing..." : "Upload Issues"}
-        </Button>
+        {/* Dry Run Results */}
+        {dryRunResult && <ImportDryRunResults result={dryRunResult} />}
+
+        {/* Upload is enabled once a dry run has passed every row */}
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={runDryRun}
+            disabled={!csvData || validationErrors.length > 0 || isProcessing}
+            className="flex-1"
+          >
+            <FileText className="mr-2 h-4 w-4" />
+            {isProcessing && !dryRunResult ? "Checking..." : "Dry Run"}
+          </Button>
+          <Button
+            onClick={processUpload}
+            disabled={!dryRunResult || dryRunResult.error_rows > 0 || isProcessing}
+            className="flex-1"
+          >
+            {isProcessing && dryRunResult ? "Importing..." : "Upload Issues"}
+          </Button>
+        </div>
 
         {/* Upload Results */}
         {uploadResult && (
@@ -515,8 +697,13 @@ export const IssueCSVUpload: React.FC<IssueCSVUploadProps> = ({
                 <div className="text-sm">
                   <div className="text-green-600">✓ {uploadResult.success} records uploaded successfully</div>
                   {uploadResult.errors.length > 0 && (
-                    <div className="text-red-600">✗ {uploadResult.errors.length} records failed</div>
+                    <div className="text-red-600">✗ {uploadResult.errors.length} records failed, so nothing was saved</div>
                   )}
+                  {uploadResult.errors.slice(0, 5).map(error => (
+                    <div key={error.row} className="text-red-600">
+                      Row {error.row}: {error.message}
+                    </div>
+                  ))}
                   <div className="text-muted-foreground">
                     Total: {uploadResult.total} records processed
                   </div>
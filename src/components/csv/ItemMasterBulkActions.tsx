@@ -9,7 +9,8 @@ import { Badge } from '@/components/ui/badge';
 import { toast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { Settings, Download, Upload } from 'lucide-react';
+import { Settings, Download, Upload, FileSpreadsheet } from 'lucide-react';
+import { exportRowsToXLSX } from '@/utils/spreadsheet';
 
 interface ItemMasterBulkActionsProps {
   selectedItems: any[];
@@ -18,6 +19,11 @@ interface ItemMasterBulkActionsProps {
   categories: any[];
 }
 
+const exportHeaders = [
+  'item_code', 'item_name', 'category_name', 'qualifier', 
+  'gsm', 'size_mm', 'uom', 'usage_type', 'status', 'current_stock'
+];
+
 export const ItemMasterBulkActions: React.FC<ItemMasterBulkActionsProps> = ({
   selectedItems,
   onSelectionChange,
@@ -84,29 +90,27 @@ export const ItemMasterBulkActions: React.FC<ItemMasterBulkActionsProps> = ({
     }
   };
 
+  const getItemsToExport = () => selectedItems.length > 0 ? selectedItems : allItems;
+
+  const getExportRows = (itemsToExport: typeof allItems) => itemsToExport.map(item => [
+    item.item_code,
+    item.item_name,
+    item.categories?.category_name || '',
+    item.qualifier || '',
+    item.gsm || '',
+    item.size_mm || '',
+    item.uom,
+    item.usage_type || '',
+    item.status,
+    item.stock?.[0]?.current_qty || 0
+  ]);
+
   const exportToCSV = () => {
-    const itemsToExport = selectedItems.length > 0 ? selectedItems : allItems;
-    
-    const headers = [
-      'item_code', 'item_name', 'category_name', 'qualifier', 
-      'gsm', 'size_mm', 'uom', 'usage_type', 'status', 'current_stock'
-    ];
-    
-    const csvData = itemsToExport.map(item => [
-      item.item_code,
-      item.item_name,
-      item.categories?.category_name || '',
-      item.qualifier || '',
-      item.gsm || '',
-      item.size_mm || '',
-      item.uom,
-      item.usage_type || '',
-      item.status,
-      item.stock?.[0]?.current_qty || 0
-    ]);
+    const itemsToExport = getItemsToExport();
+    const csvData = getExportRows(itemsToExport);
 
     const csvContent = [
-      headers.join(','),
+      exportHeaders.join(','),
       ...csvData.map(row => row.map(cell => `"${cell}"`).join(','))
     ].join('\n');
 
@@ -124,6 +128,27 @@ export const ItemMasterBulkActions: React.FC<ItemMasterBulkActionsProps> = ({
     });
   };
 
+  const exportToXLSX = async () => {
+    const itemsToExport = getItemsToExport();
+    const rows = getExportRows(itemsToExport).map(row =>
+      Object.fromEntries(exportHeaders.map((header, index) => [header, row[index]]))
+    );
+
+    try {
+      await exportRowsToXLSX(rows, `item_master_export_${new Date().toISOString().split('T')[0]}.xlsx`, 'Item Master');
+      toast({
+        title: "Export Complete",
+        description: `Exported ${itemsToExport.length} items to Excel`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not build the Excel file",
+        variant: "destructive",
+      });
+    }
+  };
+
   const selectAll = () => {
     onSelectionChange(allItems);
   };
@@ -175,6 +200,15 @@ export const ItemMasterBulkActions: React.FC<ItemMasterBulkActionsProps> = ({
             Export CSV
           </Button>
 
+          <Button 
+            variant="outline" 
+            size="sm" 
+            onClick={exportToXLSX}
+          >
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Export Excel
+          </Button>
+
           <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
             <DialogTrigger asChild>
               <Button 
@@ -1,17 +1,20 @@
 import React, { useState, useCallback } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Progress } from '@/components/ui/progress';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
 import { toast } from '@/hooks/use-toast';
+import { useExcelTemplate } from '@/hooks/useExcelTemplate';
+import { downloadCSVTemplate, templateConfigs } from '@/utils/templateGenerator';
 import { supabase } from '@/integrations/supabase/client';
-import { Upload, Download, AlertTriangle, CheckCircle, X, FileText, AlertCircle } from 'lucide-react';
+import { SpreadsheetFileInput } from './SpreadsheetFileInput';
+import { Upload, Download, AlertTriangle, CheckCircle, X, FileText, AlertCircle, FileSpreadsheet } from 'lucide-react';
+import { getImportErrors, parseImportResult, toImportValue, type ImportResult, type ImportRowResult } from '@/utils/csvImport';
+import { ImportDryRunResults } from './ImportDryRunResults';
 
 interface CSVData {
   headers: string[];
@@ -32,6 +35,20 @@ interface ConflictItem {
   data: any;
 }
 
+const reorderLevelHeaders = ['min_level', 'reorder_point', 'safety_stock', 'max_level'] as const;
+
+// Only non-blank level columns are returned, so blank cells keep existing values on update
+const parseReorderLevels = (row: Record<string, string>) => {
+  const levels: Partial<Record<typeof reorderLevelHeaders[number], number>> = {};
+  reorderLevelHeaders.forEach(header => {
+    const value = row[header]?.trim();
+    if (value) {
+      levels[header] = parseFloat(value);
+    }
+  });
+  return levels;
+};
+
 interface ItemMasterCSVUploadProps {
   categories: any[];
   onUploadComplete: () => void;
@@ -44,67 +61,23 @@ export const ItemMasterCSVUpload: React.FC<ItemMasterCSVUploadProps> = ({
   const [file, setFile] = useState<File | null>(null);
   const [csvData, setCsvData] = useState<CSVData | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [progress, setProgress] = useState(0);
   const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
   const [conflicts, setConflicts] = useState<ConflictItem[]>([]);
   const [showConflictDialog, setShowConflictDialog] = useState(false);
+  const [dryRunResult, setDryRunResult] = useState<ImportResult | null>(null);
   const [uploadResult, setUploadResult] = useState<{
     success: number;
-    errors: any[];
+    errors: ImportRowResult[];
     total: number;
     createdCategories: string[];
   } | null>(null);
 
-  const requiredHeaders = ['item_name', 'category_name', 'uom'];
-  const optionalHeaders = ['qualifier', 'gsm', 'size_mm', 'usage_type', 'status'];
+  const requiredHeaders = templateConfigs.itemMaster.requiredHeaders;
 
-  const downloadTemplate = () => {
-    const headers = [...requiredHeaders, ...optionalHeaders];
-    const sampleData = [
-      'Sample Item 1,Raw Materials,PCS,PREMIUM,80,100x200,Production,active',
-      'Sample Item 2,Finished Goods,KG,,150,,Maintenance,active'
-    ];
-    
-    const csvContent = [
-      headers.join(','),
-      ...sampleData
-    ].join('\n');
-
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'item_master_template.csv';
-    a.click();
-    window.URL.revokeObjectURL(url);
-  };
+  const { downloadExcelTemplate, isDownloading: isDownloadingTemplate } = useExcelTemplate();
 
-  const parseCSV = (text: string): CSVData => {
-    const lines = text.split('\n').filter(line => line.trim());
-    if (lines.length === 0) throw new Error('CSV file is empty');
-    
-    const headers = lines[0].split(',').map(h => h.trim().replace(/^"|"$/g, ''));
-    const rows = lines.slice(1).map(line => {
-      const cells = [];
-      let current = '';
-      let inQuotes = false;
-      
-      for (let i = 0; i < line.length; i++) {
-        const char = line[i];
-        if (char === '"') {
-          inQuotes = !inQuotes;
-        } else if (char === ',' && !inQuotes) {
-          cells.push(current.trim().replace(/^"|"$/g, ''));
-          current = '';
-        } else {
-          current += char;
-        }
-      }
-      cells.push(current.trim().replace(/^"|"$/g, ''));
-      return cells;
-    });
-    
-    return { headers, rows };
+  const downloadTemplate = () => {
+    downloadCSVTemplate('itemMaster');
   };
 
   const validateRow = (rowData: any, rowIndex: number): ValidationError[] => {
@@ -138,6 +111,18 @@ export const ItemMasterCSVUpload: React.FC<ItemMasterCSVUploadProps> = ({
       });
     }
 
+    reorderLevelHeaders.forEach(header => {
+      const value = rowData[header]?.trim();
+      if (value && (isNaN(Number(value)) || Number(value) < 0)) {
+        errors.push({
+          row: rowIndex + 2,
+          field: header,
+          message: `${header} must be a non-negative number`,
+          data: rowData
+        });
+      }
+    });
+
     // Relaxed validations - no strict checks, just warnings
     // GSM can be any value - numbers, text, or empty
     // Status defaults to 'active' if not provided or invalid
@@ -145,42 +130,6 @@ export const ItemMasterCSVUpload: React.FC<ItemMasterCSVUploadProps> = ({
     return errors;
   };
 
-  const [createdCategories, setCreatedCategories] = useState<string[]>([]);
-
-  const findOrCreateCategory = async (categoryName: string) => {
-    // First try to find existing category (case-insensitive)
-    const existingCategory = categories.find(cat => 
-      cat.category_name.toLowerCase() === categoryName.toLowerCase()
-    );
-    
-    if (existingCategory) {
-      return existingCategory;
-    }
-    
-    // Create new category if it doesn't exist
-    const { data: newCategory, error } = await supabase
-      .from('categories')
-      .insert({
-        category_name: categoryName.trim(),
-        description: `Auto-created from CSV upload`
-      })
-      .select()
-      .single();
-    
-    if (error) {
-      console.error('Error creating category:', error);
-      throw error;
-    }
-    
-    // Add to local categories array for subsequent rows
-    categories.push(newCategory);
-    
-    // Track created categories
-    setCreatedCategories(prev => [...prev, newCategory.category_name]);
-    
-    return newCategory;
-  };
-
   const checkForConflicts = async (dataObjects: any[]): Promise<ConflictItem[]> => {
     const conflicts: ConflictItem[] = [];
     
@@ -188,8 +137,10 @@ export const ItemMasterCSVUpload: React.FC<ItemMasterCSVUploadProps> = ({
       const row = dataObjects[i];
       
       try {
-        // Find or create category dynamically
-        const category = await findOrCreateCategory(row.category_name);
+        // Categories are only created by the import itself, so new names are looked up as typed
+        const category = categories.find(cat =>
+          cat.category_name.toLowerCase() === row.category_name.trim().toLowerCase()
+        );
         
         // Prepare GSM value - handle both numeric and text values
         let gsmValue = null;
@@ -201,7 +152,7 @@ export const ItemMasterCSVUpload: React.FC<ItemMasterCSVUploadProps> = ({
         // Use enhanced validation and generation
         const { data: result, error } = await supabase
           .rpc('generate_item_code_with_validation', {
-            category_name: category.category_name,
+            category_name: category?.category_name || row.category_name.trim(),
             qualifier: row.qualifier || '',
             size_mm: row.size_mm || '',
             gsm: gsmValue
@@ -257,80 +208,63 @@ export const ItemMasterCSVUpload: React.FC<ItemMasterCSVUploadProps> = ({
     return conflicts;
   };
 
-  const handleFileChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (!selectedFile) return;
-
-    if (!selectedFile.name.endsWith('.csv')) {
-      toast({
-        title: "Invalid file type",
-        description: "Please select a CSV file",
-        variant: "destructive"
-      });
-      return;
-    }
-
+  const handleFileLoad = useCallback(async (selectedFile: File, csvData: CSVData) => {
     setFile(selectedFile);
     setUploadResult(null);
     setValidationErrors([]);
     setConflicts([]);
+    setDryRunResult(null);
 
-    const reader = new FileReader();
-    reader.onload = async (event) => {
-      try {
-        const csvData = parseCSV(event.target?.result as string);
-        setCsvData(csvData);
-        
-        // Validate headers
-        const missingHeaders = requiredHeaders.filter(
-          header => !csvData.headers.some(h => 
-            h.toLowerCase() === header.toLowerCase()
-          )
-        );
-        
-        if (missingHeaders.length > 0) {
-          toast({
-            title: "Missing required columns",
-            description: `Please ensure your CSV has: ${missingHeaders.join(', ')}`,
-            variant: "destructive"
-          });
-          return;
-        }
-
-        // Convert to objects and validate
-        const dataObjects = csvData.rows.map(row => {
-          const obj: any = {};
-          csvData.headers.forEach((header, index) => {
-            obj[header.toLowerCase()] = row[index] || '';
-          });
-          return obj;
+    try {
+      setCsvData(csvData);
+      
+      // Validate headers
+      const missingHeaders = requiredHeaders.filter(
+        header => !csvData.headers.some(h => 
+          h.toLowerCase() === header.toLowerCase()
+        )
+      );
+      
+      if (missingHeaders.length > 0) {
+        toast({
+          title: "Missing required columns",
+          description: `Please ensure your file has: ${missingHeaders.join(', ')}`,
+          variant: "destructive"
         });
+        return;
+      }
 
-        // Validate each row
-        const allErrors: ValidationError[] = [];
-        dataObjects.forEach((rowData, index) => {
-          const errors = validateRow(rowData, index);
-          allErrors.push(...errors);
+      // Convert to objects and validate
+      const dataObjects = csvData.rows.map(row => {
+        const obj: any = {};
+        csvData.headers.forEach((header, index) => {
+          obj[header.toLowerCase()] = row[index] || '';
         });
+        return obj;
+      });
 
-        setValidationErrors(allErrors);
+      // Validate each row
+      const allErrors: ValidationError[] = [];
+      dataObjects.forEach((rowData, index) => {
+        const errors = validateRow(rowData, index);
+        allErrors.push(...errors);
+      });
 
-        // Check for conflicts only if no validation errors
-        if (allErrors.length === 0) {
-          const conflicts = await checkForConflicts(dataObjects);
-          setConflicts(conflicts);
-        }
+      setValidationErrors(allErrors);
 
-      } catch (error) {
-        toast({
-          title: "Error parsing CSV",
-          description: error instanceof Error ? error.message : "Unknown error",
-          variant: "destructive"
-        });
+      // Check for conflicts only if no validation errors
+      if (allErrors.length === 0) {
+        const conflicts = await checkForConflicts(dataObjects);
+        setConflicts(conflicts);
       }
-    };
-    
-    reader.readAsText(selectedFile);
+
+    } catch (error) {
+      toast({
+        title: "Error reading file",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive"
+      });
+    }
   }, [categories]);
 
   const processUpload = async () => {
@@ -342,188 +276,99 @@ export const ItemMasterCSVUpload: React.FC<ItemMasterCSVUploadProps> = ({
       return;
     }
 
-    await executeUpload();
+    await runDryRun();
   };
 
-  const executeUpload = async () => {
-    if (!csvData || !file) return;
-
-    setIsProcessing(true);
-    setProgress(0);
-    setShowConflictDialog(false);
-
-    try {
-      // Convert CSV data to objects
-      const dataObjects = csvData.rows.map((row, index) => {
-        const obj: any = {};
-        csvData.headers.forEach((header, headerIndex) => {
-          obj[header.toLowerCase()] = row[headerIndex] || '';
-        });
-        return { ...obj, originalRowIndex: index + 2 };
-      });
+  // Skipped conflicts are left out; updated ones carry the existing item code
+  const buildImportRows = () => {
+    if (!csvData) return [];
 
-      // Filter out conflicted items based on user selection
-      const itemsToProcess = dataObjects.filter((item, index) => {
-        const conflict = conflicts.find(c => c.row === index + 2);
-        return !conflict || conflict.action !== 'skip';
+    return csvData.rows.flatMap((row, index) => {
+      const obj: Record<string, string> = {};
+      csvData.headers.forEach((header, headerIndex) => {
+        obj[header.toLowerCase()] = row[headerIndex] || '';
       });
 
-      // Process data in batches
-      const batchSize = 10;
-      let totalSuccess = 0;
-      let allErrors: any[] = [];
+      const conflict = conflicts.find(c => c.row === index + 2 && c.data.generated_code);
+      if (conflict?.action === 'skip') return [];
+
+      const gsm = parseFloat(obj.gsm);
+      return [{
+        row: index + 2,
+        action: conflict?.action || 'insert',
+        item_code: conflict?.item_code || null,
+        item_name: obj.item_name?.trim(),
+        category_name: obj.category_name?.trim(),
+        qualifier: toImportValue(obj.qualifier),
+        gsm: isNaN(gsm) ? null : gsm,
+        size_mm: toImportValue(obj.size_mm),
+        uom: obj.uom?.trim(),
+        usage_type: toImportValue(obj.usage_type),
+        status: toImportValue(obj.status),
+        ...parseReorderLevels(obj)
+      }];
+    });
+  };
 
-      for (let i = 0; i < itemsToProcess.length; i += batchSize) {
-        const batch = itemsToProcess.slice(i, i + batchSize);
-        
-        for (const item of batch) {
-          try {
-            // Find or create category dynamically
-            const category = await findOrCreateCategory(item.category_name);
-
-            // Prepare GSM value - handle both numeric and text values
-            let gsmValue = null;
-            if (item.gsm) {
-              const numericGsm = parseFloat(item.gsm);
-              gsmValue = isNaN(numericGsm) ? null : numericGsm;
-            }
+  const runImport = async (dryRun: boolean) => {
+    const { data, error } = await supabase.rpc('import_csv_rows', {
+      p_file_type: 'item_master',
+      p_file_name: file?.name || 'item_master.csv',
+      p_rows: buildImportRows(),
+      p_dry_run: dryRun
+    });
 
-            // Generate item code using enhanced validation
-            const { data: generationResult, error: codeError } = await supabase
-              .rpc('generate_item_code_with_validation', {
-                category_name: category.category_name,
-                qualifier: item.qualifier || '',
-                size_mm: item.size_mm || '',
-                gsm: gsmValue
-              });
+    if (error) throw error;
+    return parseImportResult(data);
+  };
 
-            if (codeError) {
-              allErrors.push({
-                row: item.originalRowIndex,
-                message: `Error generating item code: ${codeError.message}`
-              });
-              continue;
-            }
+  const runDryRun = async () => {
+    setShowConflictDialog(false);
+    setIsProcessing(true);
 
-            const parsedResult = typeof generationResult === 'string' ? JSON.parse(generationResult) : generationResult;
-            
-            if (!parsedResult.success) {
-              allErrors.push({
-                row: item.originalRowIndex,
-                message: `Item code generation failed: ${parsedResult.validation?.errors?.join(', ') || 'Unknown error'}`
-              });
-              continue;
-            }
+    try {
+      setDryRunResult(await runImport(true));
+    } catch (error) {
+      toast({
+        title: "Dry Run Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive"
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
 
-            const itemCode = parsedResult.item_code;
-            
-            // Log any warnings
-            if (parsedResult.validation?.warnings?.length > 0) {
-              console.warn(`Row ${item.originalRowIndex} warnings:`, parsedResult.validation.warnings);
-            }
+  // Every row is applied in one transaction; if any row fails nothing is saved
+  const executeUpload = async () => {
+    if (!csvData || !file) return;
 
-            // Check if we should update existing item
-            const conflict = conflicts.find(c => c.row === item.originalRowIndex);
-            if (conflict && conflict.action === 'update') {
-              // Update existing item
-              const { error: updateError } = await supabase
-                .from('item_master')
-                .update({
-                  item_name: item.item_name,
-                  category_id: category.id,
-                  qualifier: item.qualifier || null,
-                  gsm: gsmValue,
-                  size_mm: item.size_mm || null,
-                  uom: item.uom,
-                  usage_type: item.usage_type || null,
-                  status: item.status || 'active',
-                  updated_at: new Date().toISOString()
-                })
-                .eq('item_code', itemCode);
-
-              if (updateError) {
-                allErrors.push({
-                  row: item.originalRowIndex,
-                  message: `Error updating item: ${updateError.message}`
-                });
-              } else {
-                totalSuccess++;
-              }
-            } else {
-              // Create new item
-              const { data: newItem, error: insertError } = await supabase
-                .from('item_master')
-                .insert({
-                  item_code: itemCode,
-                  item_name: item.item_name,
-                  category_id: category.id,
-                  qualifier: item.qualifier || null,
-                  gsm: gsmValue,
-                  size_mm: item.size_mm || null,
-                  uom: item.uom,
-                  usage_type: item.usage_type || null,
-                  status: item.status || 'active',
-                  auto_code: itemCode
-                })
-                .select()
-                .single();
-
-              if (insertError) {
-                allErrors.push({
-                  row: item.originalRowIndex,
-                  message: `Error inserting item: ${insertError.message}`
-                });
-              } else {
-                // Initialize stock entry
-                await supabase
-                  .from('stock')
-                  .insert({
-                    item_code: itemCode,
-                    opening_qty: 0,
-                    current_qty: 0
-                  });
-                
-                totalSuccess++;
-              }
-            }
-          } catch (error) {
-            allErrors.push({
-              row: item.originalRowIndex,
-              message: error instanceof Error ? error.message : 'Unknown error'
-            });
-          }
-        }
-        
-        setProgress(Math.round(((i + batch.length) / itemsToProcess.length) * 100));
-      }
+    setIsProcessing(true);
 
-      // Log the upload
-      const { data: userData } = await supabase.auth.getUser();
-      if (userData.user) {
-        await supabase.from('csv_upload_log').insert({
-          user_id: userData.user.id,
-          file_name: file.name,
-          file_type: 'item_master',
-          total_rows: dataObjects.length,
-          success_rows: totalSuccess,
-          error_rows: allErrors.length,
-          errors: allErrors as any
-        });
-      }
+    try {
+      const result = await runImport(false);
 
+      setDryRunResult(null);
       setUploadResult({
-        success: totalSuccess,
-        errors: allErrors,
-        total: dataObjects.length,
-        createdCategories: [...new Set(createdCategories)]
+        success: result.committed ? result.total_rows : 0,
+        errors: getImportErrors(result),
+        total: result.total_rows,
+        createdCategories: result.committed ? result.created_categories : []
       });
 
-      toast({
-        title: "Upload Complete",
-        description: `Successfully processed ${totalSuccess} out of ${dataObjects.length} rows`
-      });
-
-      onUploadComplete();
+      if (result.committed) {
+        toast({
+          title: "Upload Complete",
+          description: `Imported all ${result.total_rows} rows`
+        });
+        onUploadComplete();
+      } else {
+        toast({
+          title: "Upload Rejected",
+          description: `${result.error_rows} rows failed, so no items were saved`,
+          variant: "destructive"
+        });
+      }
 
     } catch (error) {
       toast({
@@ -542,8 +387,7 @@ export const ItemMasterCSVUpload: React.FC<ItemMasterCSVUploadProps> = ({
     setUploadResult(null);
     setValidationErrors([]);
     setConflicts([]);
-    setProgress(0);
-    setCreatedCategories([]);
+    setDryRunResult(null);
   };
 
   const updateConflictAction = (rowIndex: number, action: 'skip' | 'update' | 'error') => {
@@ -552,6 +396,7 @@ export const ItemMasterCSVUpload: React.FC<ItemMasterCSVUploadProps> = ({
         conflict.row === rowIndex ? { ...conflict, action } : conflict
       )
     );
+    setDryRunResult(null);
   };
 
   return (
@@ -572,7 +417,11 @@ export const ItemMasterCSVUpload: React.FC<ItemMasterCSVUploadProps> = ({
               <div className="flex gap-2">
                 <Button variant="outline" onClick={downloadTemplate}>
                   <Download className="h-4 w-4 mr-2" />
-                  Download Template
+                  CSV Template
+                </Button>
+                <Button variant="outline" onClick={() => downloadExcelTemplate('itemMaster')} disabled={isDownloadingTemplate}>
+                  <FileSpreadsheet className="h-4 w-4 mr-2" />
+                  Excel Template
                 </Button>
                 <Button variant="outline" asChild>
                   <a href="#" onClick={(e) => { e.preventDefault(); /* Add help functionality */ }}>
@@ -583,12 +432,11 @@ export const ItemMasterCSVUpload: React.FC<ItemMasterCSVUploadProps> = ({
               </div>
 
               <div>
-                <Label htmlFor="csv-file">Select CSV File</Label>
-                <Input
-                  id="csv-file"
-                  type="file"
-                  accept=".csv"
-                  onChange={handleFileChange}
+                <Label htmlFor="item-master-file">Select CSV or Excel File</Label>
+                <SpreadsheetFileInput
+                  id="item-master-file"
+                  templateType="itemMaster"
+                  onLoad={handleFileLoad}
                   className="mt-2"
                 />
               </div>
@@ -636,28 +484,29 @@ export const ItemMasterCSVUpload: React.FC<ItemMasterCSVUploadProps> = ({
                     </div>
                   </div>
 
+                  {dryRunResult && <ImportDryRunResults result={dryRunResult} />}
+
                   <div className="flex gap-2">
                     <Button 
+                      variant="outline"
                       onClick={processUpload} 
                       disabled={isProcessing}
                       className="flex-1"
                     >
-                      {isProcessing ? 'Processing...' : conflicts.length > 0 ? 'Review Conflicts & Upload' : 'Upload Data'}
+                      {isProcessing && !dryRunResult ? 'Checking...' : conflicts.length > 0 ? 'Review Conflicts & Dry Run' : 'Dry Run'}
+                    </Button>
+                    <Button
+                      onClick={executeUpload}
+                      disabled={isProcessing || !dryRunResult || dryRunResult.error_rows > 0}
+                      className="flex-1"
+                    >
+                      {isProcessing && dryRunResult ? 'Importing...' : 'Upload Data'}
                     </Button>
                     <Button variant="outline" onClick={resetUpload}>
                       <X className="h-4 w-4 mr-2" />
                       Reset
                     </Button>
                   </div>
-
-                  {isProcessing && (
-                    <div>
-                      <Progress value={progress} className="w-full" />
-                      <p className="text-sm text-muted-foreground mt-2">
-                        Processing... {progress}% complete
-                      </p>
-                    </div>
-                  )}
                 </>
               )}
 
@@ -686,7 +535,9 @@ export const ItemMasterCSVUpload: React.FC<ItemMasterCSVUploadProps> = ({
               <Alert className={uploadResult.errors.length === 0 ? "border-green-200 bg-green-50" : ""}>
                 <CheckCircle className="h-4 w-4" />
                 <AlertDescription>
-                  Upload completed: {uploadResult.success} successful, {uploadResult.errors.length} failed out of {uploadResult.total} total rows
+                  {uploadResult.errors.length === 0
+                    ? `Upload completed: ${uploadResult.success} of ${uploadResult.total} rows imported`
+                    : `Upload rejected: ${uploadResult.errors.length} of ${uploadResult.total} rows failed, so nothing was saved`}
                 </AlertDescription>
               </Alert>
 
@@ -780,8 +631,8 @@ export const ItemMasterCSVUpload: React.FC<ItemMasterCSVUploadProps> = ({
             <Button variant="outline" onClick={() => setShowConflictDialog(false)}>
               Cancel
             </Button>
-            <Button onClick={executeUpload}>
-              Proceed with Upload
+            <Button onClick={runDryRun}>
+              Run Dry Run
             </Button>
           </DialogFooter>
         </DialogContent>
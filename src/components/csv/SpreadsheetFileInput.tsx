@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import type { Workbook } from 'exceljs';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { useImportMappingProfiles } from '@/hooks/useImportMappingProfiles';
+import { templateConfigs } from '@/utils/templateGenerator';
+import {
+  applyColumnMapping,
+  getHeaderSignature,
+  matchesTemplate,
+  pruneColumnMap,
+  suggestColumnMap,
+  type ColumnMapping
+} from '@/utils/columnMapping';
+import {
+  getSheetNames,
+  isExcelFile,
+  isSpreadsheetFile,
+  loadWorkbook,
+  parseCSVText,
+  readWorksheet,
+  type SpreadsheetData
+} from '@/utils/spreadsheet';
+import { ColumnMappingDialog } from './ColumnMappingDialog';
+import { Columns3 } from 'lucide-react';
+
+interface SpreadsheetFileInputProps {
+  id: string;
+  disabled?: boolean;
+  className?: string;
+  /** Uploader template the file's columns are mapped onto; without it the file is passed on as read */
+  templateType?: keyof typeof templateConfigs;
+  onLoad: (file: File, data: SpreadsheetData) => void | Promise<void>;
+}
+
+interface LoadedSource {
+  file: File;
+  data: SpreadsheetData;
+}
+
+// File picker for .csv and .xlsx uploads; workbooks with several sheets get a sheet picker.
+// Files that don't follow the template layout go through a column mapping step first.
+export const SpreadsheetFileInput: React.FC<SpreadsheetFileInputProps> = ({
+  id,
+  disabled,
+  className,
+  templateType,
+  onLoad
+}) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [workbook, setWorkbook] = useState<Workbook | null>(null);
+  const [sheetNames, setSheetNames] = useState<string[]>([]);
+  const [selectedSheet, setSelectedSheet] = useState('');
+  const [source, setSource] = useState<LoadedSource | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [mappingStatus, setMappingStatus] = useState<string | null>(null);
+  const [showMappingDialog, setShowMappingDialog] = useState(false);
+  const { data: profiles, refetch: refetchProfiles } = useImportMappingProfiles(templateType);
+
+  const reportError = (error: unknown) => {
+    toast({
+      title: "Error reading file",
+      description: error instanceof Error ? error.message : "Unknown error",
+      variant: "destructive"
+    });
+  };
+
+  const loadMapped = async (loaded: LoadedSource, columnMapping: ColumnMapping) => {
+    if (!templateType) return;
+    await onLoad(loaded.file, applyColumnMapping(loaded.data, templateConfigs[templateType].headers, columnMapping));
+  };
+
+  // Template-shaped files load as they are; otherwise a saved profile for the same headers is
+  // applied, and failing that the user maps the columns
+  const deliver = async (selectedFile: File, data: SpreadsheetData) => {
+    if (!templateType) {
+      await onLoad(selectedFile, data);
+      return;
+    }
+
+    const config = templateConfigs[templateType];
+    const loaded = { file: selectedFile, data };
+    setSource(loaded);
+    setShowMappingDialog(false);
+
+    if (matchesTemplate(data.headers, config.headers, config.requiredHeaders)) {
+      setMapping(null);
+      setMappingStatus(null);
+      await onLoad(selectedFile, data);
+      return;
+    }
+
+    const savedProfiles = profiles ?? (await refetchProfiles()).data ?? [];
+    const signature = getHeaderSignature(data.headers);
+    const profile = savedProfiles.find(p => p.headerSignature === signature);
+    if (profile) {
+      const profileMapping = { ...profile, columnMap: pruneColumnMap(profile.columnMap, data.headers) };
+      if (config.requiredHeaders.every(field => profileMapping.columnMap[field])) {
+        setMapping(profileMapping);
+        setMappingStatus(`Columns mapped with saved profile "${profile.profileName}"`);
+        await loadMapped(loaded, profileMapping);
+        return;
+      }
+    }
+
+    setMapping({
+      columnMap: suggestColumnMap(data.headers, config.headers),
+      dateFormat: 'YYYY-MM-DD',
+      decimalSeparator: '.'
+    });
+    setMappingStatus(null);
+    setShowMappingDialog(true);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0];
+    if (!selectedFile) return;
+
+    if (!isSpreadsheetFile(selectedFile)) {
+      toast({
+        title: "Invalid file type",
+        description: "Please select a CSV or Excel (.xlsx) file",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setFile(selectedFile);
+    setWorkbook(null);
+    setSheetNames([]);
+
+    try {
+      if (isExcelFile(selectedFile)) {
+        const loadedWorkbook = await loadWorkbook(selectedFile);
+        const names = getSheetNames(loadedWorkbook);
+        setWorkbook(loadedWorkbook);
+        setSheetNames(names);
+        setSelectedSheet(names[0] || '');
+        await deliver(selectedFile, readWorksheet(loadedWorkbook, names[0]));
+      } else {
+        await deliver(selectedFile, parseCSVText(await selectedFile.text()));
+      }
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  const handleSheetChange = async (sheetName: string) => {
+    if (!file || !workbook) return;
+
+    setSelectedSheet(sheetName);
+    try {
+      await deliver(file, readWorksheet(workbook, sheetName));
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  const handleApplyMapping = async (columnMapping: ColumnMapping) => {
+    if (!source) return;
+
+    setShowMappingDialog(false);
+    setMapping(columnMapping);
+    setMappingStatus('Columns mapped');
+    try {
+      await loadMapped(source, columnMapping);
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  const canMap = !!templateType && !!source && !!mapping;
+
+  return (
+    <div className={`space-y-2 ${className || ''}`}>
+      <Input
+        id={id}
+        type="file"
+        accept=".csv,.xlsx"
+        onChange={handleFileChange}
+        disabled={disabled}
+      />
+      {sheetNames.length > 1 && (
+        <div className="flex items-center gap-2">
+          <Label htmlFor={`${id}-sheet`} className="whitespace-nowrap">Sheet</Label>
+          <Select value={selectedSheet} onValueChange={handleSheetChange} disabled={disabled}>
+            <SelectTrigger id={`${id}-sheet`} className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {sheetNames.map(name => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      {canMap && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <span>{mappingStatus || 'The columns in this file need to be mapped before upload'}</span>
+          <Button variant="outline" size="sm" onClick={() => setShowMappingDialog(true)} disabled={disabled}>
+            <Columns3 className="h-4 w-4 mr-2" />
+            {mappingStatus ? 'Edit Mapping' : 'Map Columns'}
+          </Button>
+        </div>
+      )}
+      {templateType && source && mapping && showMappingDialog && (
+        <ColumnMappingDialog
+          open={showMappingDialog}
+          onOpenChange={setShowMappingDialog}
+          templateType={templateType}
+          fileName={source.file.name}
+          data={source.data}
+          initialMapping={mapping}
+          onApply={handleApplyMapping}
+        />
+      )}
+    </div>
+  );
+};
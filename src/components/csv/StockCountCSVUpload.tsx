@@ -0,0 +1,225 @@
+import React, { useState, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Upload, Download, AlertTriangle, CheckCircle, FileSpreadsheet } from 'lucide-react';
+import { matchCountRows, type CountCSVError, type CountCSVUpdate, type CountLine } from '@/utils/stockCounts';
+import { exportRowsToXLSX, type SpreadsheetData } from '@/utils/spreadsheet';
+import { SpreadsheetFileInput } from './SpreadsheetFileInput';
+
+interface CountSheetLine extends CountLine {
+  item_master: { item_name: string; uom: string } | null;
+  storage_locations: { location_code: string; location_name: string } | null;
+}
+
+interface StockCountCSVUploadProps {
+  countNumber: string;
+  lines: CountSheetLine[];
+  onUploadComplete: () => void;
+}
+
+const escapeCSV = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const StockCountCSVUpload: React.FC<StockCountCSVUploadProps> = ({
+  countNumber,
+  lines,
+  onUploadComplete
+}) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [updates, setUpdates] = useState<CountCSVUpdate[]>([]);
+  const [errors, setErrors] = useState<CountCSVError[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  // Count sheet for counting on paper or in a spreadsheet; system quantities are left out on purpose
+  const downloadCountSheet = () => {
+    const header = ['item_code', 'item_name', 'location_code', 'uom', 'counted_qty', 'remarks'];
+    const rows = lines.map(line => [
+      line.item_code,
+      line.item_master?.item_name || '',
+      line.storage_locations?.location_code || '',
+      line.item_master?.uom || '',
+      line.counted_qty === null ? '' : String(line.counted_qty),
+      ''
+    ]);
+
+    const csvContent = [header, ...rows].map(row => row.map(escapeCSV).join(',')).join('\n');
+    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `count-sheet-${countNumber}.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const downloadCountSheetXLSX = () => {
+    exportRowsToXLSX(lines.map(line => ({
+      item_code: line.item_code,
+      item_name: line.item_master?.item_name || '',
+      location_code: line.storage_locations?.location_code || '',
+      uom: line.item_master?.uom || '',
+      counted_qty: line.counted_qty,
+      remarks: ''
+    })), `count-sheet-${countNumber}.xlsx`, countNumber);
+  };
+
+  const handleFileLoad = useCallback((selectedFile: File, data: SpreadsheetData) => {
+    setFile(selectedFile);
+
+    if (data.rows.length === 0) {
+      setUpdates([]);
+      setErrors([{ row: 1, message: 'The file has no count rows' }]);
+      return;
+    }
+
+    const headers = data.headers.map(h => h.toLowerCase());
+    const missing = ['item_code', 'counted_qty'].filter(h => !headers.includes(h));
+    if (missing.length > 0) {
+      setUpdates([]);
+      setErrors([{ row: 1, message: `Missing required columns: ${missing.join(', ')}` }]);
+      return;
+    }
+
+    const rows = data.rows.map(cells =>
+      headers.reduce<Record<string, string>>((row, header, index) => {
+        row[header] = cells[index] || '';
+        return row;
+      }, {})
+    );
+
+    const locationCodes = new Map<string, string>();
+    lines.forEach(line => {
+      if (line.storage_locations) locationCodes.set(line.storage_locations.location_code.toUpperCase(), line.location_id);
+    });
+
+    const result = matchCountRows(rows, lines, locationCodes);
+    setUpdates(result.updates);
+    setErrors(result.errors);
+  }, [lines]);
+
+  const applyCounts = async () => {
+    if (!file || updates.length === 0) return;
+
+    setIsProcessing(true);
+    const userId = (await supabase.auth.getUser()).data.user?.id;
+    const failed: CountCSVError[] = [];
+    let success = 0;
+
+    for (const update of updates) {
+      const { error } = await supabase
+        .from('stock_count_lines')
+        .update({
+          counted_qty: update.counted_qty,
+          remarks: update.remarks,
+          counted_by: userId,
+          counted_at: new Date().toISOString()
+        })
+        .eq('id', update.line_id);
+
+      if (error) {
+        failed.push({ row: 0, message: error.message });
+      } else {
+        success++;
+      }
+    }
+
+    try {
+      await supabase.from('csv_upload_log').insert({
+        user_id: userId,
+        file_name: file.name,
+        file_type: 'stock_count',
+        total_rows: updates.length + errors.length,
+        success_rows: success,
+        error_rows: errors.length + failed.length,
+        errors: errors.length + failed.length > 0 ? [...errors, ...failed].map(e => ({ ...e })) : null
+      });
+    } catch (logError) {
+      console.error('Error logging upload:', logError);
+    }
+
+    setIsProcessing(false);
+    setFile(null);
+    setUpdates([]);
+    setErrors(failed);
+
+    toast({
+      title: failed.length === 0 ? "Counts applied" : "Counts partly applied",
+      description: `${success} of ${updates.length} counted quantities saved`,
+      variant: failed.length === 0 ? undefined : "destructive"
+    });
+    onUploadComplete();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between p-4 bg-muted rounded-lg">
+        <div>
+          <p className="font-medium">Count Sheet</p>
+          <p className="text-sm text-muted-foreground">
+            Download the sheet, fill in counted_qty and upload it back. location_code is needed only when an item is counted at several locations.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={downloadCountSheet}>
+            <Download className="mr-2 h-4 w-4" />
+            CSV Sheet
+          </Button>
+          <Button variant="outline" onClick={downloadCountSheetXLSX}>
+            <FileSpreadsheet className="mr-2 h-4 w-4" />
+            Excel Sheet
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex items-end gap-4">
+        <div className="space-y-2 flex-1">
+          <Label htmlFor="count-csv-file">Upload Counted Sheet</Label>
+          <SpreadsheetFileInput
+            id="count-csv-file"
+            templateType="stockCount"
+            onLoad={handleFileLoad}
+            disabled={isProcessing}
+          />
+        </div>
+        <Button onClick={applyCounts} disabled={isProcessing || updates.length === 0}>
+          <Upload className="mr-2 h-4 w-4" />
+          {isProcessing ? 'Applying...' : `Apply ${updates.length} Counts`}
+        </Button>
+      </div>
+
+      {file && updates.length > 0 && errors.length === 0 && (
+        <Alert className="border-green-200 bg-green-50">
+          <CheckCircle className="h-4 w-4" />
+          <AlertDescription>{updates.length} rows matched to count lines and ready to apply</AlertDescription>
+        </Alert>
+      )}
+
+      {errors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            <div className="space-y-1">
+              <p className="font-medium">
+                {errors.length} rows cannot be applied{updates.length > 0 ? `; the other ${updates.length} can` : ''}:
+              </p>
+              <div className="max-h-40 overflow-y-auto">
+                {errors.slice(0, 10).map((error, index) => (
+                  <div key={index} className="text-sm">
+                    {error.row > 0 ? `Row ${error.row}: ` : ''}{error.message}
+                  </div>
+                ))}
+                {errors.length > 10 && (
+                  <div className="text-sm text-muted-foreground">
+                    ... and {errors.length - 10} more errors
+                  </div>
+                )}
+              </div>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,194 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { usePermission } from "@/hooks/usePermission"
+import { importFileTypeLabels } from "@/utils/csvImport"
+import { RefreshCw, Undo2 } from "lucide-react"
+
+interface ImportBatchRowsProps {
+  batch: {
+    id: string
+    file_name: string
+    file_type: string
+    status: string
+    rolled_back_at: string | null
+  }
+}
+
+interface BatchRow {
+  id: string
+  date: string
+  reference: string
+  item_code: string
+  qty: string
+  details: string
+}
+
+// Rows an import created, normalised so GRN, issue and item uploads share one table
+const fetchBatchRows = async (batchId: string, fileType: string): Promise<BatchRow[]> => {
+  if (fileType === 'grn') {
+    const { data, error } = await supabase
+      .from('grn_log')
+      .select('id, date, grn_number, item_code, qty_received, uom, lot_number, vendor')
+      .eq('import_batch_id', batchId)
+      .order('created_at')
+
+    if (error) throw error
+    return (data || []).map(grn => ({
+      id: grn.id,
+      date: grn.date,
+      reference: grn.grn_number,
+      item_code: grn.item_code,
+      qty: `+${grn.qty_received} ${grn.uom}`,
+      details: [grn.vendor, grn.lot_number && `Lot ${grn.lot_number}`].filter(Boolean).join(' · '),
+    }))
+  }
+
+  if (fileType === 'issue') {
+    const { data, error } = await supabase
+      .from('issue_log')
+      .select('id, date, item_code, qty_issued, purpose, uiorn')
+      .eq('import_batch_id', batchId)
+      .order('created_at')
+
+    if (error) throw error
+    return (data || []).map(issue => ({
+      id: issue.id,
+      date: issue.date,
+      reference: issue.uiorn || '-',
+      item_code: issue.item_code,
+      qty: `-${issue.qty_issued}`,
+      details: issue.purpose || '',
+    }))
+  }
+
+  const { data, error } = await supabase
+    .from('item_master')
+    .select('id, created_at, item_code, item_name, uom')
+    .eq('import_batch_id', batchId)
+    .order('item_code')
+
+  if (error) throw error
+  return (data || []).map(item => ({
+    id: item.id,
+    date: item.created_at,
+    reference: 'New item',
+    item_code: item.item_code,
+    qty: item.uom,
+    details: item.item_name,
+  }))
+}
+
+export const ImportBatchRows = ({ batch }: ImportBatchRowsProps) => {
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const canRollback = usePermission('imports', 'delete')
+
+  const { data: rows = [], isLoading } = useQuery({
+    queryKey: ['import-batch-rows', batch.id],
+    queryFn: () => fetchBatchRows(batch.id, batch.file_type)
+  })
+
+  const rollbackMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('rollback_import_batch', { p_batch_id: batch.id })
+      if (error) throw error
+      return data as { grn_rows?: number, issue_rows?: number, item_rows?: number } | null
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['csv-upload-log'] })
+      queryClient.invalidateQueries({ queryKey: ['import-batch-rows', batch.id] })
+      queryClient.invalidateQueries({ queryKey: ['stock-summary-detailed'] })
+      queryClient.invalidateQueries({ queryKey: ['stock-summary'] })
+      queryClient.invalidateQueries({ queryKey: ['items-with-stock'] })
+      queryClient.invalidateQueries({ queryKey: ['recent-grn'] })
+      queryClient.invalidateQueries({ queryKey: ['recent-issues'] })
+      const removed = (result?.grn_rows ?? 0) + (result?.issue_rows ?? 0) + (result?.item_rows ?? 0)
+      toast({
+        title: "Import Rolled Back",
+        description: `Removed ${removed} rows created by ${batch.file_name}`,
+      })
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  })
+
+  const handleRollback = () => {
+    const note = batch.file_type === 'item_master' ? ' Items the import updated keep their new values.' : ' Stock will be reversed.'
+    if (!window.confirm(`Delete all ${rows.length} rows created by ${batch.file_name}?${note}`)) return
+    rollbackMutation.mutate()
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle>{batch.file_name}</CardTitle>
+            <CardDescription>
+              {batch.status === 'ROLLED_BACK' && batch.rolled_back_at
+                ? `${importFileTypeLabels[batch.file_type] || batch.file_type} import rolled back on ${new Date(batch.rolled_back_at).toLocaleString()}`
+                : `${importFileTypeLabels[batch.file_type] || batch.file_type} rows created by this import`}
+            </CardDescription>
+          </div>
+          {canRollback && batch.status === 'COMMITTED' && rows.length > 0 && (
+            <Button variant="destructive" size="sm" onClick={handleRollback} disabled={rollbackMutation.isPending}>
+              <Undo2 className="h-4 w-4 mr-2" />
+              {rollbackMutation.isPending ? 'Rolling Back...' : 'Roll Back This Import'}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead>Item Code</TableHead>
+                <TableHead className="text-right">{batch.file_type === 'item_master' ? 'UOM' : 'Qty'}</TableHead>
+                <TableHead>Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8">
+                    <RefreshCw className="h-4 w-4 animate-spin mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                    {batch.status === 'COMMITTED'
+                      ? 'No rows are linked to this import; uploads made before batch tracking cannot be rolled back'
+                      : 'This import has no rows in the system'}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rows.map(row => (
+                  <TableRow key={row.id}>
+                    <TableCell className="whitespace-nowrap">{new Date(row.date).toLocaleDateString()}</TableCell>
+                    <TableCell className="font-mono text-sm">{row.reference}</TableCell>
+                    <TableCell className="font-mono text-sm">{row.item_code}</TableCell>
+                    <TableCell className="text-right font-mono">{row.qty}</TableCell>
+                    <TableCell className="text-muted-foreground">{row.details}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
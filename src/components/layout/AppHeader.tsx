@@ -0,0 +1,19 @@
+import { SidebarTrigger } from "@/components/ui/sidebar"
+import { useSystemSettings } from "@/hooks/useSystemSettings"
+import { defaultSystemSettings } from "@/utils/systemSettings"
+import { NotificationBell } from "./NotificationBell"
+
+export const AppHeader = () => {
+  const { data: settings } = useSystemSettings()
+  const companyName = settings?.company_name || defaultSystemSettings.company_name
+
+  return (
+    <header className="h-12 flex items-center border-b px-4">
+      <SidebarTrigger />
+      <h2 className="ml-4 font-semibold">{companyName} ERP</h2>
+      <div className="ml-auto">
+        <NotificationBell />
+      </div>
+    </header>
+  )
+}
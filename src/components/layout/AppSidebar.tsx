@@ -16,7 +16,22 @@ import {
   Tag,
   Plus,
   Minus,
-  AlertTriangle
+  AlertTriangle,
+  FileCheck,
+  Building2,
+  Factory,
+  Layers,
+  Calculator,
+  ArrowLeftRight,
+  Boxes,
+  ClipboardCheck,
+  ScrollText,
+  Scale,
+  FileUp,
+  FileCode,
+  FilePen,
+  History,
+  type LucideIcon
 } from "lucide-react"
 
 import {
@@ -33,34 +48,61 @@ import {
   useSidebar,
 } from "@/components/ui/sidebar"
 import { useAuth } from "@/contexts/AuthContext"
+import { usePermissions } from "@/hooks/usePermission"
+import type { PermissionModule } from "@/utils/permissions"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 
-const mainItems = [
+interface NavItem {
+  title: string
+  url: string
+  icon: LucideIcon
+  /** Shown when the user can view any of these modules; always shown when absent */
+  module?: PermissionModule | PermissionModule[]
+}
+
+const mainItems: NavItem[] = [
   { title: "Dashboard", url: "/", icon: LayoutDashboard },
-  { title: "Item Master", url: "/items", icon: Package },
-  { title: "Stock Operations", url: "/stock", icon: ShoppingCart },
-  { title: "Stock Summary", url: "/stock-summary", icon: BarChart3 },
-  { title: "Stock Analytics", url: "/stock-analytics", icon: TrendingUp },
-  { title: "Opening Stock", url: "/opening-stock", icon: Inbox },
-  { title: "Opening Stock Summary", url: "/opening-stock-summary", icon: ClipboardList },
-  { title: "Stock Alerts", url: "/stock-alerts", icon: AlertTriangle },
-  { title: "Legacy Data", url: "/legacy", icon: Database },
+  { title: "Item Master", url: "/items", icon: Package, module: "items" },
+  { title: "Stock Operations", url: "/stock", icon: ShoppingCart, module: ["grn", "issues", "inventory"] },
+  { title: "Stock Transfers", url: "/transfers", icon: ArrowLeftRight, module: "inventory" },
+  { title: "Lots & Rolls", url: "/lots", icon: Boxes, module: "inventory" },
+  { title: "Stock Counts", url: "/stock-counts", icon: ClipboardCheck, module: "inventory" },
+  { title: "Purchase Orders", url: "/purchase-orders", icon: FileCheck, module: "purchasing" },
+  { title: "Material Planning", url: "/mrp", icon: Calculator, module: "purchasing" },
+  { title: "Vendors", url: "/vendors", icon: Building2, module: "purchasing" },
+  { title: "Production", url: "/production", icon: Factory, module: "production" },
+  { title: "Bill of Materials", url: "/bom", icon: Layers, module: "production" },
+  { title: "Stock Summary", url: "/stock-summary", icon: BarChart3, module: "reports" },
+  { title: "Stock Ledger", url: "/stock-ledger", icon: ScrollText, module: "reports" },
+  { title: "Stock Analytics", url: "/stock-analytics", icon: TrendingUp, module: "reports" },
+  { title: "Opening Stock", url: "/opening-stock", icon: Inbox, module: "inventory" },
+  { title: "Opening Stock Summary", url: "/opening-stock-summary", icon: ClipboardList, module: "reports" },
+  { title: "Stock Alerts", url: "/stock-alerts", icon: AlertTriangle, module: "reports" },
+  { title: "Legacy Data", url: "/legacy", icon: Database, module: "reports" },
 ]
 
-const settingsItems = [
-  { title: "Categories", url: "/categories", icon: Tag },
+const settingsItems: NavItem[] = [
+  { title: "Categories", url: "/categories", icon: Tag, module: "items" },
+  { title: "Stock Reconciliation", url: "/reconciliation", icon: Scale, module: "inventory" },
+  { title: "Change Requests", url: "/change-requests", icon: FilePen, module: ["grn", "issues"] },
+  { title: "Audit Trail", url: "/audit-trail", icon: History, module: "reports" },
+  { title: "Import History", url: "/import-history", icon: FileUp, module: "imports" },
+  { title: "Tally Export", url: "/tally-export", icon: FileCode, module: "imports" },
   { title: "Settings", url: "/settings", icon: Settings },
 ]
 
 export function AppSidebar() {
   const { state } = useSidebar()
-  const { user, isAdmin, signOut } = useAuth()
+  const { user, signOut } = useAuth()
+  const { can, roleName } = usePermissions()
   const location = useLocation()
   const currentPath = location.pathname
   const collapsed = state === "collapsed"
 
   const isActive = (path: string) => currentPath === path
+  const isVisible = (item: NavItem) =>
+    !item.module || [item.module].flat().some(module => can(module, 'view'))
   const getNavCls = ({ isActive }: { isActive: boolean }) =>
     isActive ? "bg-accent text-accent-foreground font-medium" : "hover:bg-accent/50"
 
@@ -76,7 +118,7 @@ export function AppSidebar() {
           <SidebarGroupLabel>ERP System</SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {mainItems.map((item) => (
+              {mainItems.filter(isVisible).map((item) => (
                 <SidebarMenuItem key={item.title}>
                   <SidebarMenuButton asChild>
                     <NavLink to={item.url} end className={getNavCls}>
@@ -94,7 +136,7 @@ export function AppSidebar() {
           <SidebarGroupLabel>Management</SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {settingsItems.map((item) => (
+              {settingsItems.filter(isVisible).map((item) => (
                 <SidebarMenuItem key={item.title}>
                   <SidebarMenuButton asChild>
                     <NavLink to={item.url} className={getNavCls}>
@@ -118,7 +160,7 @@ export function AppSidebar() {
                 {!collapsed && (
                   <>
                     <span className="truncate">{user?.email}</span>
-                    {isAdmin && <Badge variant="secondary" className="text-xs">Admin</Badge>}
+                    {roleName && <Badge variant="secondary" className="text-xs">{roleName}</Badge>}
                   </>
                 )}
               </div>
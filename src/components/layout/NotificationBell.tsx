@@ -0,0 +1,69 @@
+import { useNavigate } from "react-router-dom"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { useMarkNotificationsRead, useNotifications } from "@/hooks/useNotifications"
+import { Bell } from "lucide-react"
+
+// Hidden while notifications are switched off in system settings
+export const NotificationBell = () => {
+  const navigate = useNavigate()
+  const { data: notifications, isFetched } = useNotifications()
+  const markRead = useMarkNotificationsRead()
+
+  if (!isFetched || !notifications) return null
+
+  const unread = notifications.filter(notification => !notification.read_at)
+
+  const handleOpen = (notification: (typeof notifications)[number]) => {
+    if (!notification.read_at) markRead.mutate([notification.id])
+    if (notification.link) navigate(notification.link)
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-4 w-4" />
+          {unread.length > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] leading-4">
+              {unread.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-2">
+          <span className="font-medium">Notifications</span>
+          {unread.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => markRead.mutate(unread.map(notification => notification.id))}
+              disabled={markRead.isPending}
+            >
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-center text-sm text-muted-foreground">No notifications</p>
+          ) : (
+            notifications.map(notification => (
+              <button
+                key={notification.id}
+                type="button"
+                onClick={() => handleOpen(notification)}
+                className={`w-full border-b px-4 py-2 text-left last:border-b-0 hover:bg-accent/50 ${notification.read_at ? "text-muted-foreground" : ""}`}
+              >
+                <div className="text-sm font-medium">{notification.title}</div>
+                <div className="text-sm">{notification.message}</div>
+                <div className="text-xs text-muted-foreground">{new Date(notification.created_at).toLocaleString()}</div>
+              </button>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
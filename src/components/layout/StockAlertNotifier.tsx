@@ -0,0 +1,52 @@
+import { useEffect } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { useNavigate } from "react-router-dom"
+import { supabase } from "@/integrations/supabase/client"
+import { useToast } from "@/hooks/use-toast"
+import { useSystemSettings } from "@/hooks/useSystemSettings"
+import { reorderStatuses } from "@/utils/stockStatus"
+import { ToastAction } from "@/components/ui/toast"
+
+const SHOWN_KEY = 'stock-alert-notification-shown'
+
+// Tells the user once per browser session how many items need reordering,
+// as long as notifications are switched on in system settings
+export const StockAlertNotifier = () => {
+  const { toast } = useToast()
+  const navigate = useNavigate()
+  const { data: settings } = useSystemSettings()
+  const enabled = settings?.notifications_enabled === true
+
+  const { data: alertCount } = useQuery({
+    queryKey: ['stock-alert-count'],
+    enabled: enabled && !sessionStorage.getItem(SHOWN_KEY),
+    queryFn: async () => {
+      const { count, error } = await supabase
+        .from('stock_summary')
+        .select('item_code', { count: 'exact', head: true })
+        .in('stock_status', reorderStatuses)
+
+      if (error) throw error
+      return count || 0
+    }
+  })
+
+  useEffect(() => {
+    if (!enabled || alertCount === undefined || sessionStorage.getItem(SHOWN_KEY)) return
+
+    sessionStorage.setItem(SHOWN_KEY, 'true')
+    if (alertCount === 0) return
+
+    toast({
+      title: "Stock Alerts",
+      description: `${alertCount} item${alertCount === 1 ? ' is' : 's are'} low or out of stock`,
+      action: (
+        <ToastAction altText="View stock alerts" onClick={() => navigate('/stock-alerts')}>
+          View
+        </ToastAction>
+      ),
+    })
+  }, [enabled, alertCount, toast, navigate])
+
+  return null
+}
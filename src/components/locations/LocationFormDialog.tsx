@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import type { Tables } from "@/integrations/supabase/types"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useToast } from "@/hooks/use-toast"
+
+const emptyForm = {
+  location_code: '',
+  location_name: '',
+  description: '',
+  status: 'active'
+}
+
+interface LocationFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  location?: Tables<'storage_locations'> | null
+}
+
+export const LocationFormDialog = ({ open, onOpenChange, location }: LocationFormDialogProps) => {
+  const [form, setForm] = useState(emptyForm)
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    if (!open) return
+    setForm(location ? {
+      location_code: location.location_code,
+      location_name: location.location_name,
+      description: location.description || '',
+      status: location.status
+    } : emptyForm)
+  }, [open, location])
+
+  const saveLocationMutation = useMutation({
+    mutationFn: async () => {
+      const locationData = {
+        location_code: form.location_code.trim().toUpperCase(),
+        location_name: form.location_name.trim(),
+        description: form.description.trim() || null,
+        status: form.status
+      }
+
+      const query = location
+        ? supabase.from('storage_locations').update(locationData).eq('id', location.id)
+        : supabase.from('storage_locations').insert(locationData)
+
+      const { error } = await query
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['storage-locations'] })
+      queryClient.invalidateQueries({ queryKey: ['location-stock'] })
+      toast({
+        title: "Success",
+        description: `Location ${location ? 'updated' : 'created'} successfully`,
+      })
+      onOpenChange(false)
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  })
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!form.location_code.trim() || !form.location_name.trim()) {
+      toast({
+        title: "Error",
+        description: "Location code and name are required",
+        variant: "destructive",
+      })
+      return
+    }
+
+    if (location?.is_default && form.status === 'inactive') {
+      toast({
+        title: "Error",
+        description: "The default location cannot be deactivated",
+        variant: "destructive",
+      })
+      return
+    }
+
+    saveLocationMutation.mutate()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{location ? 'Edit Location' : 'Add Location'}</DialogTitle>
+          <DialogDescription>
+            {location ? 'Update storage location details' : 'Add a store, floor or godown that holds stock'}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="location-code">Code *</Label>
+              <Input
+                id="location-code"
+                value={form.location_code}
+                onChange={(e) => setForm({ ...form, location_code: e.target.value.toUpperCase() })}
+                placeholder="GODOWN2"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="location-name">Name *</Label>
+              <Input
+                id="location-name"
+                value={form.location_name}
+                onChange={(e) => setForm({ ...form, location_name: e.target.value })}
+                placeholder="Second Godown"
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="location-description">Description</Label>
+            <Textarea
+              id="location-description"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="location-status">Status</Label>
+            <Select
+              value={form.status}
+              onValueChange={(value) => setForm({ ...form, status: value })}
+            >
+              <SelectTrigger id="location-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="active">Active</SelectItem>
+                <SelectItem value="inactive">Inactive</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveLocationMutation.isPending}>
+              {saveLocationMutation.isPending ? "Saving..." : location ? "Update Location" : "Add Location"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,40 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { Tables } from "@/integrations/supabase/types"
+
+interface LocationSelectProps {
+  locations: Tables<'storage_locations'>[]
+  value: string
+  onValueChange: (locationId: string) => void
+  id?: string
+  placeholder?: string
+  disabled?: boolean
+  className?: string
+}
+
+// Inactive locations stay listed only while they are the current value, so old entries still display
+export const LocationSelect = ({
+  locations,
+  value,
+  onValueChange,
+  id,
+  placeholder = "Select location",
+  disabled,
+  className,
+}: LocationSelectProps) => {
+  const options = locations.filter(location => location.status === 'active' || location.id === value)
+
+  return (
+    <Select value={value} onValueChange={onValueChange} disabled={disabled}>
+      <SelectTrigger id={id} className={className}>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map(location => (
+          <SelectItem key={location.id} value={location.id}>
+            {location.location_name} ({location.location_code})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
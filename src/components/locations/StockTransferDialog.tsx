@@ -0,0 +1,230 @@
+import { useEffect, useState } from "react"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import type { Tables } from "@/integrations/supabase/types"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { ItemCombobox } from "@/components/ui/item-combobox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { LocationSelect } from "@/components/locations/LocationSelect"
+import { useItemsWithStock } from "@/hooks/useItemsWithStock"
+import { useToast } from "@/hooks/use-toast"
+import { getLocationQty, getNextTransferNumber, type LocationStockRow } from "@/utils/locations"
+
+const today = () => new Date().toISOString().split('T')[0]
+
+interface StockTransferDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  locations: Tables<'storage_locations'>[]
+  locationStock: LocationStockRow[]
+}
+
+export const StockTransferDialog = ({ open, onOpenChange, locations, locationStock }: StockTransferDialogProps) => {
+  const [form, setForm] = useState({
+    date: today(),
+    item_code: '',
+    from_location_id: '',
+    to_location_id: '',
+    qty: '',
+    remarks: ''
+  })
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const { data: items = [], isLoading: itemsLoading } = useItemsWithStock()
+
+  useEffect(() => {
+    if (!open) return
+    setForm({
+      date: today(),
+      item_code: '',
+      from_location_id: locations.find(location => location.is_default)?.id || '',
+      to_location_id: '',
+      qty: '',
+      remarks: ''
+    })
+  }, [open, locations])
+
+  const available = form.item_code && form.from_location_id
+    ? getLocationQty(locationStock, form.item_code, form.from_location_id)
+    : 0
+  const uom = items.find(item => item.item_code === form.item_code)?.uom || ''
+
+  const createTransferMutation = useMutation({
+    mutationFn: async () => {
+      const { data: existing, error: numberError } = await supabase
+        .from('stock_transfers')
+        .select('transfer_number')
+        .like('transfer_number', `TRF-${form.date.replace(/-/g, '')}-%`)
+
+      if (numberError) throw numberError
+
+      const { error } = await supabase
+        .from('stock_transfers')
+        .insert({
+          transfer_number: getNextTransferNumber(existing?.map(row => row.transfer_number) || [], form.date),
+          date: form.date,
+          item_code: form.item_code,
+          from_location_id: form.from_location_id,
+          to_location_id: form.to_location_id,
+          qty: parseFloat(form.qty),
+          remarks: form.remarks.trim() || null
+        })
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['stock-transfers'] })
+      queryClient.invalidateQueries({ queryKey: ['location-stock'] })
+      toast({
+        title: "Success",
+        description: "Stock transferred successfully",
+      })
+      onOpenChange(false)
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  })
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const qty = parseFloat(form.qty)
+
+    if (!form.item_code || !form.from_location_id || !form.to_location_id) {
+      toast({
+        title: "Error",
+        description: "Item, source and destination are required",
+        variant: "destructive",
+      })
+      return
+    }
+
+    if (form.from_location_id === form.to_location_id) {
+      toast({
+        title: "Error",
+        description: "Source and destination must be different locations",
+        variant: "destructive",
+      })
+      return
+    }
+
+    if (isNaN(qty) || qty <= 0 || qty > available) {
+      toast({
+        title: "Error",
+        description: `Quantity must be greater than 0 and at most ${available} ${uom}`,
+        variant: "destructive",
+      })
+      return
+    }
+
+    createTransferMutation.mutate()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Transfer Stock</DialogTitle>
+          <DialogDescription>Move stock between locations. The item's total stock does not change.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="transfer-date">Date *</Label>
+            <Input
+              id="transfer-date"
+              type="date"
+              value={form.date}
+              onChange={(e) => setForm({ ...form, date: e.target.value })}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Item *</Label>
+            <ItemCombobox
+              items={items}
+              value={form.item_code}
+              onValueChange={(itemCode) => setForm({ ...form, item_code: itemCode })}
+              placeholder="Search and select item..."
+              showStockLevel={true}
+              isLoading={itemsLoading}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="transfer-from">From *</Label>
+              <LocationSelect
+                id="transfer-from"
+                locations={locations}
+                value={form.from_location_id}
+                onValueChange={(locationId) => setForm({ ...form, from_location_id: locationId })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transfer-to">To *</Label>
+              <LocationSelect
+                id="transfer-to"
+                locations={locations.filter(location => location.id !== form.from_location_id)}
+                value={form.to_location_id}
+                onValueChange={(locationId) => setForm({ ...form, to_location_id: locationId })}
+              />
+            </div>
+          </div>
+
+          {form.item_code && form.from_location_id && (
+            <div className="p-3 bg-muted rounded-lg text-sm text-muted-foreground">
+              Available at source: <span className="font-medium text-foreground">{available} {uom}</span>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="transfer-qty">Quantity *</Label>
+            <Input
+              id="transfer-qty"
+              type="number"
+              min="0"
+              step="0.01"
+              max={available || undefined}
+              value={form.qty}
+              onChange={(e) => setForm({ ...form, qty: e.target.value })}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="transfer-remarks">Remarks</Label>
+            <Textarea
+              id="transfer-remarks"
+              value={form.remarks}
+              onChange={(e) => setForm({ ...form, remarks: e.target.value })}
+              placeholder="Reason for the move..."
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={createTransferMutation.isPending}>
+              {createTransferMutation.isPending ? "Transferring..." : "Transfer Stock"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
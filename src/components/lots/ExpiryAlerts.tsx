@@ -0,0 +1,91 @@
+import { useNavigate } from "react-router-dom"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ExpiryBadge } from "@/components/lots/ExpiryBadge"
+import { useStockLots } from "@/hooks/useStockLots"
+import { RefreshCw } from "lucide-react"
+
+interface ExpiryAlertsProps {
+  searchTerm?: string
+  categoryFilter?: string
+}
+
+// Lots with stock left that have expired or expire within 30 days
+export const ExpiryAlerts = ({ searchTerm = "", categoryFilter = "all" }: ExpiryAlertsProps) => {
+  const navigate = useNavigate()
+  const { data: lots = [], isLoading } = useStockLots()
+
+  const term = searchTerm.toLowerCase()
+  const expiryAlerts = lots.filter(lot =>
+    (lot.remaining_qty || 0) > 0 &&
+    (lot.expiry_status === 'EXPIRED' || lot.expiry_status === 'EXPIRING') &&
+    (categoryFilter === "all" || lot.category_name === categoryFilter) &&
+    (!term ||
+      lot.item_name?.toLowerCase().includes(term) ||
+      lot.item_code?.toLowerCase().includes(term) ||
+      lot.lot_number?.toLowerCase().includes(term))
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Expiry Alerts ({expiryAlerts.length} lots)</CardTitle>
+        <CardDescription>
+          Lots with stock left that have expired or expire within 30 days. Issue expiring lots first; expired lots cannot be issued.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item Name</TableHead>
+                <TableHead>Lot / Roll</TableHead>
+                <TableHead>Location</TableHead>
+                <TableHead>Expiry Date</TableHead>
+                <TableHead>Remaining</TableHead>
+                <TableHead>Shelf Life</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8">
+                    <div className="flex items-center justify-center">
+                      <RefreshCw className="h-4 w-4 animate-spin mr-2" />
+                      Loading lots...
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ) : expiryAlerts.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8">
+                    No lots are expired or expiring soon
+                  </TableCell>
+                </TableRow>
+              ) : (
+                expiryAlerts.map(lot => (
+                  <TableRow
+                    key={lot.lot_id}
+                    className="cursor-pointer"
+                    onClick={() => navigate(`/lots?lot=${lot.lot_id}`)}
+                  >
+                    <TableCell>
+                      <div className="font-medium">{lot.item_name}</div>
+                      <div className="text-xs text-muted-foreground font-mono">{lot.item_code}</div>
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">{lot.lot_number}</TableCell>
+                    <TableCell>{lot.location_name || '-'}</TableCell>
+                    <TableCell>{lot.expiry_date}</TableCell>
+                    <TableCell className="font-mono font-bold">{lot.remaining_qty} {lot.uom}</TableCell>
+                    <TableCell><ExpiryBadge status={lot.expiry_status} daysToExpiry={lot.days_to_expiry} /></TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,26 @@
+import { Badge } from "@/components/ui/badge"
+import { expiryStatusLabels, type ExpiryStatus } from "@/utils/lots"
+
+interface ExpiryBadgeProps {
+  status: string | null
+  daysToExpiry?: number | null
+}
+
+export const ExpiryBadge = ({ status, daysToExpiry }: ExpiryBadgeProps) => {
+  const label = expiryStatusLabels[status as ExpiryStatus] || status || '-'
+
+  switch (status) {
+    case 'EXPIRED':
+      return <Badge variant="destructive">{label}</Badge>
+    case 'EXPIRING':
+      return (
+        <Badge variant="secondary" className="bg-orange-100 text-orange-800">
+          {daysToExpiry != null ? `${daysToExpiry}d left` : label}
+        </Badge>
+      )
+    case 'OK':
+      return <Badge variant="default" className="bg-green-100 text-green-800">{label}</Badge>
+    default:
+      return <Badge variant="outline">{label}</Badge>
+  }
+}
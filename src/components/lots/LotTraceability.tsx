@@ -0,0 +1,126 @@
+import { useQuery } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import type { Tables } from "@/integrations/supabase/types"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ExpiryBadge } from "@/components/lots/ExpiryBadge"
+import { getProductionStageLabel } from "@/utils/production"
+import { GitBranch, RefreshCw } from "lucide-react"
+
+interface LotTraceabilityProps {
+  lot: Tables<'stock_lots'>
+}
+
+export const LotTraceability = ({ lot }: LotTraceabilityProps) => {
+  const { data: issues = [], isLoading } = useQuery({
+    queryKey: ['lot-issues', lot.lot_id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('issue_log')
+        .select('id, date, qty_issued, purpose, uiorn, production_stage, storage_locations(location_name)')
+        .eq('lot_id', lot.lot_id as string)
+        .order('date', { ascending: true })
+
+      if (error) throw error
+      return data || []
+    },
+    enabled: !!lot.lot_id
+  })
+
+  // Quantity consumed per job, in the order the jobs first drew on the lot
+  const byJob = issues.reduce((acc, issue) => {
+    const key = issue.uiorn || 'Not linked to a job'
+    acc.set(key, (acc.get(key) || 0) + issue.qty_issued)
+    return acc
+  }, new Map<string, number>())
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <GitBranch className="mr-2 h-4 w-4" />
+          Lot {lot.lot_number} · {lot.item_name}
+        </CardTitle>
+        <CardDescription>
+          Received on {lot.grn_number} ({lot.received_date}){lot.vendor ? ` from ${lot.vendor}` : ''} into {lot.location_name}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+          <div>
+            <div className="text-muted-foreground">Mfg / Expiry</div>
+            <div>{lot.mfg_date || '-'} / {lot.expiry_date || '-'}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Received</div>
+            <div className="font-mono">{lot.qty_received} {lot.uom}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Issued</div>
+            <div className="font-mono">{lot.qty_issued} {lot.uom}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Remaining</div>
+            <div className="font-mono font-bold">{lot.remaining_qty} {lot.uom}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Shelf Life</div>
+            <ExpiryBadge status={lot.expiry_status} daysToExpiry={lot.days_to_expiry} />
+          </div>
+        </div>
+
+        {byJob.size > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {[...byJob.entries()].map(([uiorn, qty]) => (
+              <Badge key={uiorn} variant="outline" className="font-mono">
+                {uiorn}: {qty} {lot.uom}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Job (UIORN)</TableHead>
+                <TableHead>Stage</TableHead>
+                <TableHead>Purpose</TableHead>
+                <TableHead>Location</TableHead>
+                <TableHead>Quantity</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8">
+                    <RefreshCw className="h-4 w-4 animate-spin mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : issues.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    Nothing has been issued from this lot yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                issues.map(issue => (
+                  <TableRow key={issue.id}>
+                    <TableCell>{issue.date}</TableCell>
+                    <TableCell className="font-mono text-sm">{issue.uiorn || '-'}</TableCell>
+                    <TableCell>{issue.production_stage ? getProductionStageLabel(issue.production_stage) : '-'}</TableCell>
+                    <TableCell>{issue.purpose || '-'}</TableCell>
+                    <TableCell>{issue.storage_locations?.location_name || '-'}</TableCell>
+                    <TableCell className="font-mono">{issue.qty_issued} {lot.uom}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
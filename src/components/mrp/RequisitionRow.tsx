@@ -0,0 +1,238 @@
+import { useState } from "react"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { TableCell, TableRow } from "@/components/ui/table"
+import { VendorCombobox } from "@/components/ui/vendor-combobox"
+import type { Tables } from "@/integrations/supabase/types"
+import { useToast } from "@/hooks/use-toast"
+import { formatINR } from "@/utils/valuation"
+import {
+  getOrderUrgency,
+  orderUrgencyLabels,
+  requisitionStatusLabels,
+  type RequisitionStatus,
+} from "@/utils/mrp"
+import { Ban, Edit, Save, X } from "lucide-react"
+
+export type RequisitionWithItem = Tables<'purchase_requisitions'> & {
+  item_master: { item_name: string, uom: string } | null
+  vendors: { vendor_name: string } | null
+}
+
+interface RequisitionRowProps {
+  requisition: RequisitionWithItem
+  vendors: Tables<'vendors'>[]
+  selected: boolean
+  onSelectedChange: (selected: boolean) => void
+  canEdit: boolean
+}
+
+const addDays = (date: string, days: number) => {
+  const result = new Date(date)
+  result.setDate(result.getDate() + days)
+  return result.toISOString().split('T')[0]
+}
+
+export const RequisitionRow = ({ requisition, vendors, selected, onSelectedChange, canEdit }: RequisitionRowProps) => {
+  const [isEditing, setIsEditing] = useState(false)
+  const [editData, setEditData] = useState({
+    proposed_qty: requisition.proposed_qty.toString(),
+    vendor_id: requisition.vendor_id || '',
+    rate: requisition.rate?.toString() || '',
+    need_by_date: requisition.need_by_date
+  })
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const isProposed = requisition.status === 'PROPOSED'
+  const urgency = getOrderUrgency(requisition.order_by_date)
+  const uom = requisition.item_master?.uom || ''
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: Partial<Tables<'purchase_requisitions'>>) => {
+      const { error } = await supabase
+        .from('purchase_requisitions')
+        .update(data)
+        .eq('id', requisition.id)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['purchase-requisitions'] })
+      setIsEditing(false)
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to update requisition: ${error.message}`,
+        variant: "destructive",
+      })
+    }
+  })
+
+  const handleSave = () => {
+    const qty = parseFloat(editData.proposed_qty)
+    const rate = editData.rate ? parseFloat(editData.rate) : null
+    if (isNaN(qty) || qty <= 0 || (rate !== null && (isNaN(rate) || rate < 0))) {
+      toast({
+        title: "Validation Error",
+        description: "Quantity must be greater than 0 and rate cannot be negative",
+        variant: "destructive",
+      })
+      return
+    }
+
+    // A different vendor brings its own lead time, which moves the order-by date
+    const vendor = vendors.find(v => v.id === editData.vendor_id)
+    const leadTime = editData.vendor_id !== requisition.vendor_id && vendor?.lead_time_days != null
+      ? vendor.lead_time_days
+      : requisition.lead_time_days
+
+    updateMutation.mutate({
+      proposed_qty: qty,
+      vendor_id: editData.vendor_id || null,
+      rate,
+      need_by_date: editData.need_by_date,
+      lead_time_days: leadTime,
+      order_by_date: addDays(editData.need_by_date, -leadTime)
+    })
+  }
+
+  const handleReject = () => {
+    if (window.confirm(`Reject the proposal for ${requisition.item_code}? It will not be ordered from this run.`)) {
+      updateMutation.mutate({ status: 'REJECTED' })
+    }
+  }
+
+  const value = requisition.proposed_qty * (requisition.rate || 0)
+
+  return (
+    <TableRow className={selected ? 'bg-muted/50' : undefined}>
+      <TableCell>
+        <Checkbox
+          checked={selected}
+          onCheckedChange={(checked) => onSelectedChange(checked === true)}
+          disabled={!canEdit || !isProposed || isEditing}
+        />
+      </TableCell>
+      <TableCell>
+        <div className="font-medium">{requisition.item_master?.item_name || requisition.item_code}</div>
+        <div className="text-xs text-muted-foreground">{requisition.item_code}</div>
+      </TableCell>
+      <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+        <div>Stock {requisition.current_qty} · On PO {requisition.open_po_qty}</div>
+        <div>Jobs {requisition.job_demand_qty} · Forecast {requisition.forecast_demand_qty}</div>
+        <div>Projected {requisition.projected_qty} vs ROL {requisition.reorder_level}</div>
+      </TableCell>
+      <TableCell>
+        {isEditing ? (
+          <Input
+            type="number"
+            min="0"
+            step="any"
+            value={editData.proposed_qty}
+            onChange={(e) => setEditData({ ...editData, proposed_qty: e.target.value })}
+            className="w-24"
+          />
+        ) : (
+          <div>
+            <div className="font-medium">{requisition.proposed_qty} {uom}</div>
+            {requisition.proposed_qty !== requisition.suggested_qty && (
+              <div className="text-xs text-muted-foreground">Suggested {requisition.suggested_qty}</div>
+            )}
+          </div>
+        )}
+      </TableCell>
+      <TableCell className="min-w-[200px]">
+        {isEditing ? (
+          <VendorCombobox
+            vendors={vendors}
+            value={editData.vendor_id}
+            onValueChange={(vendorId) => setEditData({ ...editData, vendor_id: vendorId })}
+          />
+        ) : requisition.vendors?.vendor_name ? (
+          <div>
+            <div>{requisition.vendors.vendor_name}</div>
+            <div className="text-xs text-muted-foreground">{requisition.lead_time_days}d lead</div>
+          </div>
+        ) : (
+          <span className="text-muted-foreground">No vendor</span>
+        )}
+      </TableCell>
+      <TableCell>
+        {isEditing ? (
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            value={editData.rate}
+            onChange={(e) => setEditData({ ...editData, rate: e.target.value })}
+            className="w-24"
+          />
+        ) : (
+          <div>
+            <div>{requisition.rate != null ? formatINR(requisition.rate) : '-'}</div>
+            {value > 0 && <div className="text-xs text-muted-foreground">{formatINR(value)}</div>}
+          </div>
+        )}
+      </TableCell>
+      <TableCell>
+        {isEditing ? (
+          <Input
+            type="date"
+            value={editData.need_by_date}
+            onChange={(e) => setEditData({ ...editData, need_by_date: e.target.value })}
+            className="w-36"
+          />
+        ) : (
+          requisition.need_by_date
+        )}
+      </TableCell>
+      <TableCell>
+        <div className="whitespace-nowrap">{requisition.order_by_date}</div>
+        {isProposed && (
+          <Badge
+            variant={urgency === 'late' ? 'destructive' : 'secondary'}
+            className={urgency === 'due' ? 'bg-yellow-100 text-yellow-800' : undefined}
+          >
+            {orderUrgencyLabels[urgency]}
+          </Badge>
+        )}
+      </TableCell>
+      <TableCell>
+        <Badge variant={isProposed ? 'outline' : 'secondary'}>
+          {requisitionStatusLabels[requisition.status as RequisitionStatus] || requisition.status}
+        </Badge>
+      </TableCell>
+      {canEdit && (
+        <TableCell>
+          {isProposed && (
+            isEditing ? (
+              <div className="flex gap-2">
+                <Button size="sm" onClick={handleSave} disabled={updateMutation.isPending}>
+                  <Save className="h-4 w-4" />
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setIsEditing(false)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={() => setIsEditing(true)}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button size="sm" variant="outline" onClick={handleReject} disabled={updateMutation.isPending}>
+                  <Ban className="h-4 w-4" />
+                </Button>
+              </div>
+            )
+          )}
+        </TableCell>
+      )}
+    </TableRow>
+  )
+}
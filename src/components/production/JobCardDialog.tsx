@@ -0,0 +1,367 @@
+import { useEffect, useMemo, useState } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import type { PostgrestError } from "@supabase/supabase-js"
+import { supabase } from "@/integrations/supabase/client"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useToast } from "@/hooks/use-toast"
+import { usePermissions } from "@/hooks/usePermission"
+import { CheckCircle, Circle, Clock, RefreshCw } from "lucide-react"
+import {
+  canRecordStep,
+  getNextStep,
+  getStageState,
+  productionStages,
+  stageStateLabels,
+  stageStatusOptions,
+  stageSteps,
+  type StageState,
+  type StageTable,
+  type WorkflowStatusRow,
+} from "@/utils/production"
+
+interface StageRecord {
+  id: string
+  status: string
+  item_code: string | null
+  item_name: string | null
+  substrate_name: string | null
+  substrate_gsm: number | null
+  deckle: number | null
+  length: number | null
+  updated_at: string | null
+}
+
+interface StepValues {
+  uiorn: string
+  item_code: string
+  item_name: string
+  substrate_name: string
+  substrate_gsm: number
+  deckle: number
+  length: number
+}
+
+type StepWriter = (id: string | undefined, values: StepValues, status: string) => PromiseLike<{ error: PostgrestError | null }>
+
+// Each stage table names its status column differently
+const stepWriters: Record<StageTable, StepWriter> = {
+  gravure_printing: (id, values, status) => id
+    ? supabase.from('gravure_printing').update({ ...values, status_gravure: status }).eq('id', id)
+    : supabase.from('gravure_printing').insert({ ...values, status_gravure: status }),
+  lamination: (id, values, status) => id
+    ? supabase.from('lamination').update({ ...values, status_lamination: status }).eq('id', id)
+    : supabase.from('lamination').insert({ ...values, status_lamination: status }),
+  adhesive_coating: (id, values, status) => id
+    ? supabase.from('adhesive_coating').update({ ...values, status_adhesive: status }).eq('id', id)
+    : supabase.from('adhesive_coating').insert({ ...values, status_adhesive: status }),
+  slitting: (id, values, status) => id
+    ? supabase.from('slitting').update({ ...values, status_slitting: status }).eq('id', id)
+    : supabase.from('slitting').insert({ ...values, status_slitting: status }),
+}
+
+const stateIcons: Record<StageState, React.ReactNode> = {
+  not_started: <Circle className="h-4 w-4 text-muted-foreground" />,
+  in_progress: <Clock className="h-4 w-4 text-yellow-600" />,
+  completed: <CheckCircle className="h-4 w-4 text-green-600" />,
+}
+
+const emptyStepForm = {
+  status: 'In Progress',
+  substrate_name: '',
+  substrate_gsm: '',
+  deckle: '',
+  length: ''
+}
+
+interface JobCardDialogProps {
+  job: WorkflowStatusRow | null
+  onOpenChange: (open: boolean) => void
+}
+
+export const JobCardDialog = ({ job, onOpenChange }: JobCardDialogProps) => {
+  const [step, setStep] = useState<StageTable | ''>('')
+  const [stepForm, setStepForm] = useState(emptyStepForm)
+  const { toast } = useToast()
+  const { canAccessStage, isLoading: permissionsLoading } = usePermissions()
+  const queryClient = useQueryClient()
+  const uiorn = job?.uiorn
+
+  const { data: jobCard, isLoading } = useQuery({
+    queryKey: ['job-card', uiorn],
+    enabled: !!uiorn && !permissionsLoading,
+    queryFn: async () => {
+      // Stages outside the user's own are not read (RLS would hide them anyway)
+      const skipped = Promise.resolve({ data: null, error: null })
+      const [order, gravure, lamination, adhesive, slitting] = await Promise.all([
+        supabase.from('order_punching').select('*').eq('uiorn', uiorn as string).maybeSingle(),
+        canAccessStage('gravure_printing')
+          ? supabase.from('gravure_printing').select('*').eq('uiorn', uiorn as string).order('updated_at', { ascending: false }).limit(1).maybeSingle()
+          : skipped,
+        canAccessStage('lamination')
+          ? supabase.from('lamination').select('*').eq('uiorn', uiorn as string).order('updated_at', { ascending: false }).limit(1).maybeSingle()
+          : skipped,
+        canAccessStage('adhesive_coating')
+          ? supabase.from('adhesive_coating').select('*').eq('uiorn', uiorn as string).order('updated_at', { ascending: false }).limit(1).maybeSingle()
+          : skipped,
+        canAccessStage('slitting')
+          ? supabase.from('slitting').select('*').eq('uiorn', uiorn as string).order('updated_at', { ascending: false }).limit(1).maybeSingle()
+          : skipped,
+      ])
+
+      const failed = [order, gravure, lamination, adhesive, slitting].find(result => result.error)
+      if (failed?.error) throw failed.error
+
+      const stages: Partial<Record<StageTable, StageRecord>> = {}
+      if (gravure.data) stages.gravure_printing = { ...gravure.data, status: gravure.data.status_gravure }
+      if (lamination.data) stages.lamination = { ...lamination.data, status: lamination.data.status_lamination }
+      if (adhesive.data) stages.adhesive_coating = { ...adhesive.data, status: adhesive.data.status_adhesive }
+      if (slitting.data) stages.slitting = { ...slitting.data, status: slitting.data.status_slitting }
+
+      return { order: order.data, stages }
+    }
+  })
+
+  useEffect(() => {
+    const next = job ? getNextStep(job) : null
+    setStep(next && canAccessStage(next) ? next : '')
+  }, [job, canAccessStage])
+
+  // Prefill from this stage's own record, else the previous stage, else the punched order
+  const prefill = useMemo(() => {
+    if (!step || !jobCard?.order) return null
+    const index = stageSteps.findIndex(s => s.key === step)
+    const own = jobCard.stages[step]
+    const previous = stageSteps
+      .slice(0, index)
+      .reverse()
+      .map(s => jobCard.stages[s.key])
+      .find(Boolean)
+    const source = own || previous || jobCard.order
+    return {
+      status: own?.status || 'In Progress',
+      substrate_name: source.substrate_name || jobCard.order.substrate_name,
+      substrate_gsm: (source.substrate_gsm ?? jobCard.order.substrate_gsm).toString(),
+      deckle: (source.deckle ?? jobCard.order.deckle).toString(),
+      length: (source.length ?? jobCard.order.length).toString()
+    }
+  }, [step, jobCard])
+
+  useEffect(() => {
+    setStepForm(prefill || emptyStepForm)
+  }, [prefill])
+
+  const recordStepMutation = useMutation({
+    mutationFn: async () => {
+      if (!step || !jobCard?.order) throw new Error('Select a stage to record')
+
+      const { error } = await stepWriters[step](
+        jobCard.stages[step]?.id,
+        {
+          uiorn: jobCard.order.uiorn,
+          item_code: jobCard.order.item_code,
+          item_name: jobCard.order.item_name,
+          substrate_name: stepForm.substrate_name.trim(),
+          substrate_gsm: parseFloat(stepForm.substrate_gsm),
+          deckle: parseFloat(stepForm.deckle),
+          length: parseFloat(stepForm.length)
+        },
+        stepForm.status
+      )
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['workflow-status'] })
+      queryClient.invalidateQueries({ queryKey: ['job-card', uiorn] })
+      toast({
+        title: "Success",
+        description: `${stageSteps.find(s => s.key === step)?.label} recorded for ${uiorn}`,
+      })
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  })
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const invalid = [stepForm.substrate_gsm, stepForm.deckle, stepForm.length]
+      .some(value => isNaN(parseFloat(value)) || parseFloat(value) <= 0)
+    if (!stepForm.substrate_name.trim() || invalid) {
+      toast({
+        title: "Error",
+        description: "Substrate, GSM, deckle and length are required and must be positive",
+        variant: "destructive",
+      })
+      return
+    }
+
+    recordStepMutation.mutate()
+  }
+
+  const recordableSteps = job ? stageSteps.filter(s => canAccessStage(s.key) && canRecordStep(job, s.key)) : []
+
+  return (
+    <Dialog open={job !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Job Card · {job?.uiorn}</DialogTitle>
+          <DialogDescription>{job?.item_name}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <RefreshCw className="h-4 w-4 animate-spin mr-2" />
+            Loading job card...
+          </div>
+        ) : jobCard?.order ? (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-3 bg-muted rounded-lg text-sm">
+              <div><span className="font-medium">Job No:</span> {jobCard.order.job_no}</div>
+              <div><span className="font-medium">Order Date:</span> {jobCard.order.order_entry_date}</div>
+              <div><span className="font-medium">Item:</span> {jobCard.order.item_code}</div>
+              <div><span className="font-medium">Colours:</span> {jobCard.order.number_colours}</div>
+              <div className="col-span-2"><span className="font-medium">Substrate:</span> {jobCard.order.substrate_name} ({jobCard.order.substrate_gsm} GSM)</div>
+              <div><span className="font-medium">Deckle:</span> {jobCard.order.deckle}</div>
+              <div><span className="font-medium">Length:</span> {jobCard.order.length}</div>
+            </div>
+
+            <div className="space-y-2">
+              {productionStages.slice(1).filter(stage => canAccessStage(stage.key)).map(stage => {
+                const record = jobCard.stages[stage.key as StageTable]
+                const state = job ? getStageState(job[stage.workflowField]) : 'not_started'
+                return (
+                  <div key={stage.key} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div className="flex items-center gap-3">
+                      {stateIcons[state]}
+                      <div>
+                        <div className="font-medium">{stage.label}</div>
+                        {record && (
+                          <div className="text-xs text-muted-foreground">
+                            {record.substrate_name} · {record.substrate_gsm} GSM · Deckle {record.deckle} · Length {record.length}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <Badge variant={state === 'completed' ? 'default' : 'secondary'}>
+                        {record?.status || stageStateLabels[state]}
+                      </Badge>
+                      {record?.updated_at && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {new Date(record.updated_at).toLocaleString()}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4 p-4 border rounded-lg">
+              <div className="font-medium">Record Stage Step</div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Stage</Label>
+                  <Select value={step} onValueChange={(value) => setStep(value as StageTable)}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select stage" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {recordableSteps.map(s => (
+                        <SelectItem key={s.key} value={s.key}>{s.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Status</Label>
+                  <Select value={stepForm.status} onValueChange={(value) => setStepForm({ ...stepForm, status: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {stageStatusOptions.map(status => (
+                        <SelectItem key={status} value={status}>{status}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="step-substrate">Substrate</Label>
+                <Input
+                  id="step-substrate"
+                  value={stepForm.substrate_name}
+                  onChange={(e) => setStepForm({ ...stepForm, substrate_name: e.target.value })}
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="step-gsm">Substrate GSM</Label>
+                  <Input
+                    id="step-gsm"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={stepForm.substrate_gsm}
+                    onChange={(e) => setStepForm({ ...stepForm, substrate_gsm: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="step-deckle">Deckle (mm)</Label>
+                  <Input
+                    id="step-deckle"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={stepForm.deckle}
+                    onChange={(e) => setStepForm({ ...stepForm, deckle: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="step-length">Length (m)</Label>
+                  <Input
+                    id="step-length"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={stepForm.length}
+                    onChange={(e) => setStepForm({ ...stepForm, length: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="flex justify-end">
+                <Button type="submit" disabled={!step || recordStepMutation.isPending}>
+                  {recordStepMutation.isPending ? "Saving..." : "Save Step"}
+                </Button>
+              </div>
+            </form>
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            No order punched for this UIORN
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
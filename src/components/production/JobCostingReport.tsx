@@ -0,0 +1,335 @@
+import { Fragment, useState } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { usePermission } from "@/hooks/usePermission"
+import { useToast } from "@/hooks/use-toast"
+import { formatINR } from "@/utils/valuation"
+import { getProductionStageLabel } from "@/utils/production"
+import { exportRowsToXLSX } from "@/utils/spreadsheet"
+import { AlertTriangle, ChevronDown, ChevronRight, Download, FileSpreadsheet, RefreshCw, Search } from "lucide-react"
+
+const JobConsumptionDetail = ({ uiorn }: { uiorn: string }) => {
+  const { data: lines = [], isLoading } = useQuery({
+    queryKey: ['job-costing', 'consumption', uiorn],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('job_material_consumption')
+        .select('*')
+        .eq('uiorn', uiorn)
+        .order('total_cost', { ascending: false })
+
+      if (error) throw error
+      return data || []
+    }
+  })
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <RefreshCw className="h-4 w-4 animate-spin mr-2" />
+        Loading material issued...
+      </div>
+    )
+  }
+
+  if (lines.length === 0) {
+    return <div className="text-center py-4 text-muted-foreground">No material issued against this job yet</div>
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Stage</TableHead>
+          <TableHead>Item</TableHead>
+          <TableHead>Issues</TableHead>
+          <TableHead>Quantity</TableHead>
+          <TableHead>Cost (INR)</TableHead>
+          <TableHead>Issued</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {lines.map(line => (
+          <TableRow key={`${line.production_stage}-${line.item_code}`}>
+            <TableCell>{line.production_stage ? getProductionStageLabel(line.production_stage) : 'Unspecified'}</TableCell>
+            <TableCell>
+              <div className="font-medium">{line.item_name}</div>
+              <div className="text-xs text-muted-foreground">{line.item_code}</div>
+            </TableCell>
+            <TableCell>{line.issue_count}</TableCell>
+            <TableCell>{line.total_qty} {line.uom}</TableCell>
+            <TableCell>{formatINR(line.total_cost)}</TableCell>
+            <TableCell className="text-sm text-muted-foreground">
+              {line.first_issue_date === line.last_issue_date
+                ? line.first_issue_date
+                : `${line.first_issue_date} – ${line.last_issue_date}`}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
+
+export const JobCostingReport = () => {
+  const [searchTerm, setSearchTerm] = useState("")
+  const [expandedUiorn, setExpandedUiorn] = useState<string | null>(null)
+  const canLinkEstimate = usePermission('production', 'edit')
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const { data: jobs = [], isLoading, error, refetch } = useQuery({
+    queryKey: ['job-costing'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('job_costing_summary')
+        .select('*')
+        .order('order_entry_date', { ascending: false })
+
+      if (error) throw error
+      return data || []
+    }
+  })
+
+  const { data: estimates = [] } = useQuery({
+    queryKey: ['cost-estimates'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('cost_mockup_estimate')
+        .select('id, brand_sku_ref, mockup_type, cost_per_sqm, total_cost_estimate')
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      return data || []
+    }
+  })
+
+  const linkEstimateMutation = useMutation({
+    mutationFn: async ({ uiorn, estimateId }: { uiorn: string, estimateId: string | null }) => {
+      const { error } = await supabase
+        .from('order_punching')
+        .update({ cost_estimate_id: estimateId })
+        .eq('uiorn', uiorn)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['job-costing'] })
+      queryClient.invalidateQueries({ queryKey: ['production-orders'] })
+      toast({
+        title: "Success",
+        description: "Job estimate updated",
+      })
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  })
+
+  const filteredJobs = jobs.filter(job => {
+    const term = searchTerm.toLowerCase()
+    return !term ||
+      job.uiorn?.toLowerCase().includes(term) ||
+      job.item_name?.toLowerCase().includes(term) ||
+      job.estimate_ref?.toLowerCase().includes(term)
+  })
+
+  const getVariance = (job: typeof jobs[number]) =>
+    job.estimated_cost != null ? (job.material_cost || 0) - job.estimated_cost : null
+
+  const totalMaterialCost = filteredJobs.reduce((sum, job) => sum + (job.material_cost || 0), 0)
+  const overEstimateCount = filteredJobs.filter(job => (getVariance(job) || 0) > 0).length
+
+  const getExportRows = () => filteredJobs.map(job => ({
+    'UIORN': job.uiorn,
+    'Item': job.item_name,
+    'Order Date': job.order_entry_date,
+    'Area (sqm)': job.job_area_sqm ?? '',
+    'Issues': job.issue_count,
+    'Items Issued': job.items_issued,
+    'Material Cost': job.material_cost ?? 0,
+    'Estimate': job.estimate_ref ?? '',
+    'Estimated Cost': job.estimated_cost ?? '',
+    'Variance': getVariance(job) ?? ''
+  }))
+
+  const exportToCSV = () => {
+    const csvData = getExportRows()
+
+    const csvString = [
+      Object.keys(csvData[0]).join(','),
+      ...csvData.map(row => Object.values(row).map(value => `"${value ?? ''}"`).join(','))
+    ].join('\n')
+
+    const blob = new Blob([csvString], { type: 'text/csv' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `job-costing-${new Date().toISOString().split('T')[0]}.csv`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertDescription>
+          Error loading job costing: {error.message}
+          <Button variant="outline" size="sm" onClick={() => refetch()} className="ml-2">
+            <RefreshCw className="h-4 w-4 mr-1" />
+            Retry
+          </Button>
+        </AlertDescription>
+      </Alert>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>Job Costing</CardTitle>
+            <CardDescription>
+              Material issued per UIORN at inventory cost, compared with the linked cost estimate.
+              {' '}{formatINR(totalMaterialCost)} issued across {filteredJobs.length} jobs; {overEstimateCount} over estimate.
+            </CardDescription>
+          </div>
+          <Button onClick={exportToCSV} disabled={!filteredJobs.length}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+          <Button variant="outline" onClick={() => exportRowsToXLSX(getExportRows(), `job-costing-${new Date().toISOString().split('T')[0]}.xlsx`, 'Job Costing')} disabled={!filteredJobs.length}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Export Excel
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="relative max-w-sm">
+          <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search UIORN, item or estimate..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8"></TableHead>
+                <TableHead>UIORN</TableHead>
+                <TableHead>Item</TableHead>
+                <TableHead>Area (sqm)</TableHead>
+                <TableHead>Issues</TableHead>
+                <TableHead>Material Cost</TableHead>
+                <TableHead className="w-[220px]">Estimate</TableHead>
+                <TableHead>Estimated Cost</TableHead>
+                <TableHead>Variance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={9} className="text-center py-8">
+                    <RefreshCw className="h-4 w-4 animate-spin mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : filteredJobs.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">
+                    No jobs found
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filteredJobs.map(job => {
+                  const variance = getVariance(job)
+                  const isExpanded = expandedUiorn === job.uiorn
+                  return (
+                    <Fragment key={job.uiorn}>
+                      <TableRow>
+                        <TableCell>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setExpandedUiorn(isExpanded ? null : job.uiorn)}
+                          >
+                            {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </Button>
+                        </TableCell>
+                        <TableCell className="font-mono">{job.uiorn}</TableCell>
+                        <TableCell>
+                          <div className="font-medium">{job.item_name}</div>
+                          <div className="text-xs text-muted-foreground">{job.order_entry_date}</div>
+                        </TableCell>
+                        <TableCell>{job.job_area_sqm ?? '-'}</TableCell>
+                        <TableCell>{job.issue_count}</TableCell>
+                        <TableCell className="font-medium">{formatINR(job.material_cost)}</TableCell>
+                        <TableCell>
+                          {canLinkEstimate ? (
+                            <Select
+                              value={job.cost_estimate_id || 'none'}
+                              onValueChange={(value) => linkEstimateMutation.mutate({
+                                uiorn: job.uiorn as string,
+                                estimateId: value === 'none' ? null : value
+                              })}
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder="No estimate" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="none">No estimate</SelectItem>
+                                {estimates.map(estimate => (
+                                  <SelectItem key={estimate.id} value={estimate.id}>
+                                    {estimate.brand_sku_ref || estimate.mockup_type || estimate.id.slice(0, 8)}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            job.estimate_ref || '-'
+                          )}
+                        </TableCell>
+                        <TableCell>{job.estimated_cost != null ? formatINR(job.estimated_cost) : '-'}</TableCell>
+                        <TableCell>
+                          {variance != null ? (
+                            <Badge variant={variance > 0 ? "destructive" : "default"}>
+                              {variance > 0 ? '+' : ''}{formatINR(variance)}
+                              {job.estimated_cost ? ` (${((variance / job.estimated_cost) * 100).toFixed(1)}%)` : ''}
+                            </Badge>
+                          ) : '-'}
+                        </TableCell>
+                      </TableRow>
+                      {isExpanded && (
+                        <TableRow>
+                          <TableCell colSpan={9} className="bg-muted/40">
+                            <JobConsumptionDetail uiorn={job.uiorn as string} />
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  )
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
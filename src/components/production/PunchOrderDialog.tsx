@@ -0,0 +1,308 @@
+import { useEffect, useState } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ItemCombobox } from "@/components/ui/item-combobox"
+import { useItemsWithStock } from "@/hooks/useItemsWithStock"
+import { useBOMs } from "@/hooks/useBOMs"
+import { useToast } from "@/hooks/use-toast"
+import { formatBOMVersion } from "@/utils/bom"
+import { Plus } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+
+const emptyForm = {
+  uiorn: '',
+  order_entry_date: new Date().toISOString().split('T')[0],
+  item_code: '',
+  job_no: '',
+  sr_no: '',
+  number_colours: '',
+  substrate_name: '',
+  substrate_gsm: '',
+  deckle: '',
+  length: '',
+  planned_qty: ''
+}
+
+type NumericField = 'job_no' | 'sr_no' | 'number_colours' | 'substrate_gsm' | 'deckle' | 'length'
+
+const numericFields: { field: NumericField, label: string }[] = [
+  { field: 'number_colours', label: 'Number of Colours' },
+  { field: 'substrate_gsm', label: 'Substrate GSM' },
+  { field: 'deckle', label: 'Deckle (mm)' },
+  { field: 'length', label: 'Length (m)' },
+]
+
+export const PunchOrderDialog = () => {
+  const [open, setOpen] = useState(false)
+  const [form, setForm] = useState(emptyForm)
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const { data: items = [], isLoading: itemsLoading } = useItemsWithStock()
+  const { data: boms = [] } = useBOMs()
+
+  // New jobs are planned against whichever BOM version is active for the item
+  const activeBOM = boms.find(bom => bom.item_code === form.item_code && bom.status === 'ACTIVE')
+  const itemUom = items.find(i => i.item_code === form.item_code)?.uom
+
+  const { data: nextNumbers } = useQuery({
+    queryKey: ['order-punching-next-numbers'],
+    enabled: open,
+    queryFn: async () => {
+      const [{ data: lastJob, error: jobError }, { data: lastSr, error: srError }] = await Promise.all([
+        supabase.from('order_punching').select('job_no').order('job_no', { ascending: false }).limit(1).maybeSingle(),
+        supabase.from('order_punching').select('sr_no').order('sr_no', { ascending: false }).limit(1).maybeSingle()
+      ])
+
+      if (jobError) throw jobError
+      if (srError) throw srError
+      return { job_no: (lastJob?.job_no || 0) + 1, sr_no: (lastSr?.sr_no || 0) + 1 }
+    }
+  })
+
+  useEffect(() => {
+    if (!open || !nextNumbers) return
+    setForm(current => ({
+      ...current,
+      job_no: current.job_no || nextNumbers.job_no.toString(),
+      sr_no: current.sr_no || nextNumbers.sr_no.toString()
+    }))
+  }, [open, nextNumbers])
+
+  const punchOrderMutation = useMutation({
+    mutationFn: async () => {
+      const item = items.find(i => i.item_code === form.item_code)
+      const { data, error } = await supabase
+        .from('order_punching')
+        .insert({
+          uiorn: form.uiorn.trim().toUpperCase(),
+          order_entry_date: form.order_entry_date,
+          item_code: form.item_code,
+          item_name: item?.item_name || form.item_code,
+          job_no: parseInt(form.job_no),
+          sr_no: parseInt(form.sr_no),
+          number_colours: parseInt(form.number_colours),
+          substrate_name: form.substrate_name.trim(),
+          substrate_gsm: parseFloat(form.substrate_gsm),
+          deckle: parseFloat(form.deckle),
+          length: parseFloat(form.length),
+          bom_id: activeBOM?.id || null,
+          planned_qty: form.planned_qty ? parseFloat(form.planned_qty) : null
+        })
+        .select()
+        .single()
+
+      if (error) throw error
+      return data
+    },
+    onSuccess: (order) => {
+      queryClient.invalidateQueries({ queryKey: ['workflow-status'] })
+      queryClient.invalidateQueries({ queryKey: ['order-punching-next-numbers'] })
+      queryClient.invalidateQueries({ queryKey: ['production-orders'] })
+      queryClient.invalidateQueries({ queryKey: ['job-bom-consumption'] })
+      toast({
+        title: "Success",
+        description: `Order ${order.uiorn} punched`,
+      })
+      setOpen(false)
+      setForm(emptyForm)
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  })
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!form.uiorn.trim() || !form.item_code || !form.substrate_name.trim()) {
+      toast({
+        title: "Error",
+        description: "UIORN, item and substrate are required",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const invalidField = [{ field: 'job_no', label: 'Job No' }, { field: 'sr_no', label: 'Sr No' }, ...numericFields]
+      .find(({ field }) => {
+        const value = parseFloat(form[field as NumericField])
+        return isNaN(value) || value <= 0
+      })
+    if (invalidField) {
+      toast({
+        title: "Error",
+        description: `${invalidField.label} must be a positive number`,
+        variant: "destructive",
+      })
+      return
+    }
+
+    if (form.planned_qty && !(parseFloat(form.planned_qty) > 0)) {
+      toast({
+        title: "Error",
+        description: "Planned quantity must be a positive number",
+        variant: "destructive",
+      })
+      return
+    }
+
+    punchOrderMutation.mutate()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button>
+          <Plus className="h-4 w-4 mr-2" />
+          Punch Order
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Punch Order</DialogTitle>
+          <DialogDescription>
+            Create a job card. The UIORN identifies the job through gravure, lamination, adhesive coating and slitting.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-4 gap-4">
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="punch-uiorn">UIORN *</Label>
+              <Input
+                id="punch-uiorn"
+                value={form.uiorn}
+                onChange={(e) => setForm({ ...form, uiorn: e.target.value.toUpperCase() })}
+                placeholder="e.g. 250724001"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="punch-job-no">Job No *</Label>
+              <Input
+                id="punch-job-no"
+                type="number"
+                min="1"
+                step="1"
+                value={form.job_no}
+                onChange={(e) => setForm({ ...form, job_no: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="punch-sr-no">Sr No *</Label>
+              <Input
+                id="punch-sr-no"
+                type="number"
+                min="1"
+                step="1"
+                value={form.sr_no}
+                onChange={(e) => setForm({ ...form, sr_no: e.target.value })}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="col-span-2 space-y-2">
+              <Label>Item *</Label>
+              <ItemCombobox
+                items={items}
+                value={form.item_code}
+                onValueChange={(value) => setForm({ ...form, item_code: value })}
+                placeholder="Search and select item..."
+                isLoading={itemsLoading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="punch-date">Order Entry Date *</Label>
+              <Input
+                id="punch-date"
+                type="date"
+                value={form.order_entry_date}
+                onChange={(e) => setForm({ ...form, order_entry_date: e.target.value })}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="punch-substrate">Substrate *</Label>
+            <Input
+              id="punch-substrate"
+              value={form.substrate_name}
+              onChange={(e) => setForm({ ...form, substrate_name: e.target.value })}
+              placeholder="e.g. BOPP 20 micron"
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-4 gap-4">
+            {numericFields.map(({ field, label }) => (
+              <div key={field} className="space-y-2">
+                <Label htmlFor={`punch-${field}`}>{label} *</Label>
+                <Input
+                  id={`punch-${field}`}
+                  type="number"
+                  min="0"
+                  step={field === 'number_colours' ? '1' : '0.01'}
+                  value={form[field]}
+                  onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                  required
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="punch-planned-qty">Planned Quantity{itemUom ? ` (${itemUom})` : ''}</Label>
+              <Input
+                id="punch-planned-qty"
+                type="number"
+                min="0"
+                step="any"
+                value={form.planned_qty}
+                onChange={(e) => setForm({ ...form, planned_qty: e.target.value })}
+                placeholder="Optional"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Bill of Materials</Label>
+              <p className="text-sm text-muted-foreground pt-2">
+                {!form.item_code
+                  ? 'Select an item'
+                  : activeBOM
+                    ? `${formatBOMVersion(activeBOM.version)} (${activeBOM.bom_lines.length} components) will be linked`
+                    : 'No active BOM for this item; planned vs actual will not be tracked'}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={punchOrderMutation.isPending}>
+              {punchOrderMutation.isPending ? "Punching..." : "Punch Order"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,289 @@
+import { useState } from "react"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { ItemCombobox } from "@/components/ui/item-combobox"
+import { VendorCombobox } from "@/components/ui/vendor-combobox"
+import { useItemsWithStock } from "@/hooks/useItemsWithStock"
+import { useVendors } from "@/hooks/useVendors"
+import { useToast } from "@/hooks/use-toast"
+import { Plus, Trash2 } from "lucide-react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+
+interface POLineDraft {
+  item_code: string
+  ordered_qty: string
+  rate: string
+  expected_date: string
+}
+
+const emptyLine: POLineDraft = { item_code: '', ordered_qty: '', rate: '', expected_date: '' }
+
+const emptyHeader = {
+  po_number: '',
+  vendor_id: '',
+  po_date: new Date().toISOString().split('T')[0],
+  remarks: ''
+}
+
+export const CreatePODialog = () => {
+  const [open, setOpen] = useState(false)
+  const [header, setHeader] = useState(emptyHeader)
+  const [lines, setLines] = useState<POLineDraft[]>([{ ...emptyLine }])
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const { data: items = [], isLoading: itemsLoading } = useItemsWithStock()
+  const { data: vendors = [], isLoading: vendorsLoading } = useVendors()
+
+  const createPOMutation = useMutation({
+    mutationFn: async () => {
+      const { data: po, error } = await supabase
+        .from('purchase_orders')
+        .insert({
+          po_number: header.po_number.trim(),
+          vendor_id: header.vendor_id,
+          vendor: vendors.find(vendor => vendor.id === header.vendor_id)?.vendor_name || '',
+          po_date: header.po_date,
+          remarks: header.remarks.trim() || null
+        })
+        .select()
+        .single()
+
+      if (error) throw error
+
+      const { error: linesError } = await supabase
+        .from('purchase_order_lines')
+        .insert(lines.map(line => ({
+          po_id: po.id,
+          item_code: line.item_code,
+          ordered_qty: parseFloat(line.ordered_qty),
+          rate: line.rate ? parseFloat(line.rate) : null,
+          expected_date: line.expected_date || null
+        })))
+
+      if (linesError) {
+        // Don't leave a header without lines behind
+        await supabase.from('purchase_orders').delete().eq('id', po.id)
+        throw linesError
+      }
+
+      return po
+    },
+    onSuccess: (po) => {
+      queryClient.invalidateQueries({ queryKey: ['purchase-orders'] })
+      queryClient.invalidateQueries({ queryKey: ['purchase-order-lines'] })
+      toast({
+        title: "Success",
+        description: `Purchase order ${po.po_number} created as draft`,
+      })
+      setOpen(false)
+      setHeader(emptyHeader)
+      setLines([{ ...emptyLine }])
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  })
+
+  const updateLine = (index: number, field: keyof POLineDraft, value: string) => {
+    setLines(lines.map((line, i) => i === index ? { ...line, [field]: value } : line))
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!header.po_number.trim() || !header.vendor_id) {
+      toast({
+        title: "Error",
+        description: "PO number and vendor are required",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const invalidLine = lines.findIndex(line => {
+      const qty = parseFloat(line.ordered_qty)
+      const rate = line.rate ? parseFloat(line.rate) : 0
+      return !line.item_code || isNaN(qty) || qty <= 0 || isNaN(rate) || rate < 0
+    })
+    if (invalidLine !== -1) {
+      toast({
+        title: "Error",
+        description: `Line ${invalidLine + 1} needs an item, a positive quantity and a non-negative rate`,
+        variant: "destructive",
+      })
+      return
+    }
+
+    createPOMutation.mutate()
+  }
+
+  const orderValue = lines.reduce(
+    (sum, line) => sum + (parseFloat(line.ordered_qty) || 0) * (parseFloat(line.rate) || 0),
+    0
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button>
+          <Plus className="h-4 w-4 mr-2" />
+          New Purchase Order
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Create Purchase Order</DialogTitle>
+          <DialogDescription>
+            New orders are saved as drafts and must be approved before goods can be received against them
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="po-number">PO Number *</Label>
+              <Input
+                id="po-number"
+                value={header.po_number}
+                onChange={(e) => setHeader({ ...header, po_number: e.target.value })}
+                placeholder="PO-001"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="po-vendor">Vendor *</Label>
+              <VendorCombobox
+                vendors={vendors}
+                value={header.vendor_id}
+                onValueChange={(vendorId) => setHeader({ ...header, vendor_id: vendorId })}
+                isLoading={vendorsLoading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="po-date">PO Date *</Label>
+              <Input
+                id="po-date"
+                type="date"
+                value={header.po_date}
+                onChange={(e) => setHeader({ ...header, po_date: e.target.value })}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Line Items *</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setLines([...lines, { ...emptyLine }])}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Line
+              </Button>
+            </div>
+            <div className="space-y-3">
+              {lines.map((line, index) => {
+                const uom = items.find(item => item.item_code === line.item_code)?.uom
+                return (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-end p-3 border rounded-lg">
+                    <div className="col-span-5 space-y-1">
+                      <Label className="text-xs text-muted-foreground">Item</Label>
+                      <ItemCombobox
+                        items={items}
+                        value={line.item_code}
+                        onValueChange={(value) => updateLine(index, 'item_code', value)}
+                        placeholder="Search and select item..."
+                        isLoading={itemsLoading}
+                      />
+                    </div>
+                    <div className="col-span-2 space-y-1">
+                      <Label className="text-xs text-muted-foreground">Qty{uom ? ` (${uom})` : ''}</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={line.ordered_qty}
+                        onChange={(e) => updateLine(index, 'ordered_qty', e.target.value)}
+                        placeholder="0"
+                      />
+                    </div>
+                    <div className="col-span-2 space-y-1">
+                      <Label className="text-xs text-muted-foreground">Rate (INR)</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={line.rate}
+                        onChange={(e) => updateLine(index, 'rate', e.target.value)}
+                        placeholder="0.00"
+                      />
+                    </div>
+                    <div className="col-span-2 space-y-1">
+                      <Label className="text-xs text-muted-foreground">Expected</Label>
+                      <Input
+                        type="date"
+                        value={line.expected_date}
+                        onChange={(e) => updateLine(index, 'expected_date', e.target.value)}
+                      />
+                    </div>
+                    <div className="col-span-1">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                        disabled={lines.length === 1}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+            <div className="text-sm text-muted-foreground text-right">
+              Order value: ₹{orderValue.toLocaleString()}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="po-remarks">Remarks</Label>
+            <Textarea
+              id="po-remarks"
+              value={header.remarks}
+              onChange={(e) => setHeader({ ...header, remarks: e.target.value })}
+              placeholder="Delivery terms, notes..."
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={createPOMutation.isPending}>
+              {createPOMutation.isPending ? "Creating..." : "Create Purchase Order"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
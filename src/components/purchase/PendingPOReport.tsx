@@ -0,0 +1,180 @@
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useOpenPOLines } from "@/hooks/useOpenPOLines"
+import { poLineStatusLabels, type POLineStatus } from "@/utils/purchaseOrders"
+import { exportRowsToXLSX } from "@/utils/spreadsheet"
+import { Download, FileSpreadsheet, RefreshCw, Search } from "lucide-react"
+
+export const PendingPOReport = () => {
+  const [searchTerm, setSearchTerm] = useState("")
+  const [overdueOnly, setOverdueOnly] = useState(false)
+
+  const { data: lines = [], isLoading, refetch } = useOpenPOLines()
+
+  const filteredLines = lines.filter(line => {
+    const term = searchTerm.toLowerCase()
+    const matchesSearch = !term ||
+      line.po_number?.toLowerCase().includes(term) ||
+      line.vendor?.toLowerCase().includes(term) ||
+      line.item_code?.toLowerCase().includes(term) ||
+      line.item_name?.toLowerCase().includes(term)
+    return matchesSearch && (!overdueOnly || line.is_overdue)
+  })
+
+  const pendingValue = filteredLines.reduce(
+    (sum, line) => sum + (line.pending_qty || 0) * (line.rate || 0),
+    0
+  )
+
+  const getExportRows = () => filteredLines.map(line => ({
+    'PO Number': line.po_number,
+    'Vendor': line.vendor,
+    'PO Date': line.po_date,
+    'Item Code': line.item_code,
+    'Item Name': line.item_name,
+    'UOM': line.uom,
+    'Ordered Qty': line.ordered_qty,
+    'Received Qty': line.received_qty,
+    'Pending Qty': line.pending_qty,
+    'Rate': line.rate ?? '',
+    'Expected Date': line.expected_date ?? '',
+    'Overdue': line.is_overdue ? 'Yes' : 'No'
+  }))
+
+  const exportToCSV = () => {
+    if (filteredLines.length === 0) return
+
+    const csvData = getExportRows()
+
+    const csvString = [
+      Object.keys(csvData[0]).join(','),
+      ...csvData.map(row => Object.values(row).join(','))
+    ].join('\n')
+
+    const blob = new Blob([csvString], { type: 'text/csv' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `pending-po-${new Date().toISOString().split('T')[0]}.csv`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>Pending Purchase Orders</CardTitle>
+            <CardDescription>
+              Approved PO lines still awaiting receipt · {filteredLines.length} lines worth ₹{pendingValue.toLocaleString()}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => refetch()}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+            <Button variant="outline" onClick={exportToCSV} disabled={filteredLines.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+            <Button variant="outline" onClick={() => exportRowsToXLSX(getExportRows(), `pending-po-${new Date().toISOString().split('T')[0]}.xlsx`, 'Pending PO')} disabled={filteredLines.length === 0}>
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              Export Excel
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-4 sm:items-center">
+          <div className="relative flex-1 max-w-sm">
+            <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search PO, vendor or item..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="overdue-only"
+              checked={overdueOnly}
+              onCheckedChange={(checked) => setOverdueOnly(checked === true)}
+            />
+            <Label htmlFor="overdue-only">Overdue only</Label>
+          </div>
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>PO Number</TableHead>
+                <TableHead>Vendor</TableHead>
+                <TableHead>Item</TableHead>
+                <TableHead>Ordered</TableHead>
+                <TableHead>Received</TableHead>
+                <TableHead>Pending</TableHead>
+                <TableHead>Expected</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-8">
+                    <RefreshCw className="h-4 w-4 animate-spin mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : filteredLines.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                    No pending purchase order lines
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filteredLines.map(line => (
+                  <TableRow key={line.po_line_id}>
+                    <TableCell className="font-medium">{line.po_number}</TableCell>
+                    <TableCell>{line.vendor}</TableCell>
+                    <TableCell>
+                      <div>{line.item_name}</div>
+                      <div className="text-xs text-muted-foreground">{line.item_code}</div>
+                    </TableCell>
+                    <TableCell>{line.ordered_qty} {line.uom}</TableCell>
+                    <TableCell>{line.received_qty} {line.uom}</TableCell>
+                    <TableCell className="font-medium">{line.pending_qty} {line.uom}</TableCell>
+                    <TableCell>
+                      {line.expected_date ? (
+                        <span className={line.is_overdue ? "text-red-600 font-medium" : ""}>
+                          {line.expected_date}
+                        </span>
+                      ) : '-'}
+                    </TableCell>
+                    <TableCell>
+                      {line.is_overdue ? (
+                        <Badge variant="destructive">Overdue</Badge>
+                      ) : (
+                        <Badge variant="secondary">
+                          {poLineStatusLabels[line.line_status as POLineStatus] || line.line_status}
+                        </Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
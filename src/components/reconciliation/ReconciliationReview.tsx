@@ -0,0 +1,196 @@
+import { useMemo, useState } from "react"
+import { useNavigate } from "react-router-dom"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useItemLedger } from "@/hooks/useItemLedger"
+import { usePermission } from "@/hooks/usePermission"
+import { useToast } from "@/hooks/use-toast"
+import { buildLedger, getLedgerBalance, ledgerEntryLabels } from "@/utils/ledger"
+import { getDriftEntries } from "@/utils/reconciliation"
+import { CheckCircle, RefreshCw, ScrollText } from "lucide-react"
+
+interface ReconciliationReviewProps {
+  item: {
+    item_code: string
+    item_name: string | null
+    current_qty: number
+    calculated_qty: number
+  }
+  lastOkAt: string | null
+  onApplied: () => void
+}
+
+const formatQty = (qty: number) => (qty > 0 ? `+${qty}` : `${qty}`)
+
+export const ReconciliationReview = ({ item, lastOkAt, onApplied }: ReconciliationReviewProps) => {
+  const [remarks, setRemarks] = useState("")
+  const navigate = useNavigate()
+  const { toast } = useToast()
+  const canApprove = usePermission('inventory', 'approve')
+  const queryClient = useQueryClient()
+
+  const { data: ledgerData, isLoading } = useItemLedger(item.item_code)
+
+  const entries = useMemo(() => ledgerData ? buildLedger({
+    opening_qty: ledgerData.stock?.opening_qty || 0,
+    grns: ledgerData.grns,
+    issues: ledgerData.issues,
+    adjustments: ledgerData.adjustments,
+    audits: ledgerData.audits,
+  }) : [], [ledgerData])
+
+  const driftEntries = useMemo(() => getDriftEntries(entries, lastOkAt), [entries, lastOkAt])
+  const proposedQty = ledgerData ? getLedgerBalance(entries) : item.calculated_qty
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('apply_stock_reconciliation', {
+        p_item_code: item.item_code,
+        p_remarks: remarks.trim()
+      })
+      if (error) throw error
+      return data
+    },
+    onSuccess: (correctedQty) => {
+      queryClient.invalidateQueries({ queryKey: ['stock-summary-detailed'] })
+      queryClient.invalidateQueries({ queryKey: ['stock-summary'] })
+      queryClient.invalidateQueries({ queryKey: ['items-with-stock'] })
+      queryClient.invalidateQueries({ queryKey: ['item-ledger', item.item_code] })
+      queryClient.invalidateQueries({ queryKey: ['stock-reconciliation-log'] })
+      toast({
+        title: "Stock Corrected",
+        description: `${item.item_code} current stock set to ${correctedQty}`,
+      })
+      setRemarks("")
+      onApplied()
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  })
+
+  const handleApprove = () => {
+    if (!remarks.trim()) {
+      toast({
+        title: "Reason Required",
+        description: "Enter why the correction is being approved",
+        variant: "destructive",
+      })
+      return
+    }
+    if (!window.confirm(`Set current stock of ${item.item_code} from ${item.current_qty} to ${proposedQty}?`)) return
+    applyMutation.mutate()
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle>
+              {item.item_name || item.item_code} <span className="font-mono text-sm text-muted-foreground">{item.item_code}</span>
+            </CardTitle>
+            <CardDescription>
+              {lastOkAt
+                ? `Transactions and edits recorded since the last clean check on ${new Date(lastOkAt).toLocaleString()}`
+                : 'No earlier clean check on record; showing edits and deletions, the usual cause of drift'}
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => navigate(`/stock-ledger?item=${encodeURIComponent(item.item_code)}`)}>
+            <ScrollText className="h-4 w-4 mr-2" />
+            Full Ledger
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+          <div className="rounded-md border p-3">
+            <div className="text-muted-foreground">Current stock</div>
+            <div className="text-xl font-bold font-mono">{item.current_qty}</div>
+          </div>
+          <div className="rounded-md border p-3">
+            <div className="text-muted-foreground">Transactions add up to</div>
+            <div className="text-xl font-bold font-mono">{proposedQty}</div>
+          </div>
+          <div className="rounded-md border p-3">
+            <div className="text-muted-foreground">Proposed correction</div>
+            <div className={`text-xl font-bold font-mono ${proposedQty - item.current_qty < 0 ? 'text-red-600' : 'text-green-600'}`}>
+              {formatQty(proposedQty - item.current_qty)}
+            </div>
+          </div>
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Recorded</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">In</TableHead>
+                <TableHead className="text-right">Out</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8">
+                    <RefreshCw className="h-4 w-4 animate-spin mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : driftEntries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    No transactions explain the drift; current stock was likely changed directly
+                  </TableCell>
+                </TableRow>
+              ) : (
+                driftEntries.map(entry => (
+                  <TableRow key={`${entry.type}-${entry.id}`}>
+                    <TableCell className="whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Badge variant={entry.type === 'DELETE' ? 'destructive' : 'outline'}>{ledgerEntryLabels[entry.type]}</Badge>
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">{entry.reference}</TableCell>
+                    <TableCell>{entry.description}</TableCell>
+                    <TableCell className="text-right font-mono text-green-600">{entry.qty_in || ''}</TableCell>
+                    <TableCell className="text-right font-mono text-red-600">{entry.qty_out || ''}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="reconciliation-remarks">Reason for correction</Label>
+          <Textarea
+            id="reconciliation-remarks"
+            value={remarks}
+            onChange={(e) => setRemarks(e.target.value)}
+            placeholder="e.g. GRN edited before the stock trigger fix; transactions verified against invoices"
+            rows={2}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleApprove} disabled={applyMutation.isPending || isLoading || !canApprove}>
+            <CheckCircle className="h-4 w-4 mr-2" />
+            {applyMutation.isPending ? 'Applying...' : 'Approve Correction'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,140 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAccountingPeriods, useCloseAccountingPeriod, useReopenAccountingPeriod } from "@/hooks/useAccountingPeriods";
+import { formatPeriodMonth, getClosedThroughMonth, getRecentPeriodMonths } from "@/utils/accountingPeriods";
+import { CalendarCheck, Lock, LockOpen } from "lucide-react";
+
+const RECENT_MONTHS = 12;
+
+// Closing a month closes every month before it; only the latest closed month can be reopened.
+// Both are recorded in the audit trail, and reopening needs a reason.
+export const PeriodClosingSettings = () => {
+  const { toast } = useToast();
+  const { data: periods = [], isLoading } = useAccountingPeriods();
+  const closeMutation = useCloseAccountingPeriod();
+  const reopenMutation = useReopenAccountingPeriod();
+  const isPending = closeMutation.isPending || reopenMutation.isPending;
+
+  const periodsByMonth = new Map(periods.map(period => [period.period_month, period]));
+  const closedThrough = getClosedThroughMonth(periods);
+  const months = [...new Set([...getRecentPeriodMonths(RECENT_MONTHS), ...periods.map(period => period.period_month)])]
+    .sort((a, b) => b.localeCompare(a));
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const handleClose = (periodMonth: string) => {
+    const label = formatPeriodMonth(periodMonth);
+    if (!window.confirm(`Close ${label} and every month before it? GRNs, issues and adjustments dated on or before its end can no longer be added, changed or deleted.`)) return;
+
+    closeMutation.mutate(periodMonth, {
+      onSuccess: () => {
+        toast({
+          title: "Period Closed",
+          description: `Books are closed through ${label}`,
+        });
+      },
+      onError
+    });
+  };
+
+  const handleReopen = (periodMonth: string) => {
+    const label = formatPeriodMonth(periodMonth);
+    const reason = window.prompt(`Why is ${label} being reopened?`);
+    if (reason === null) return;
+    if (!reason.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "A reason is required to reopen a closed period",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    reopenMutation.mutate({ periodMonth, reason: reason.trim() }, {
+      onSuccess: () => {
+        toast({
+          title: "Period Reopened",
+          description: `Entries dated in ${label} can be changed again`,
+        });
+      },
+      onError
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarCheck className="h-5 w-5" />
+          Period Closing
+        </CardTitle>
+        <CardDescription>
+          Lock months whose books are closed so their stock history cannot change
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Month</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Details</TableHead>
+                <TableHead className="w-32"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {months.map(month => {
+                const period = periodsByMonth.get(month);
+                const isLocked = !!closedThrough && month <= closedThrough;
+
+                return (
+                  <TableRow key={month} className={isLocked ? "bg-muted/50" : undefined}>
+                    <TableCell className="font-medium">{formatPeriodMonth(month)}</TableCell>
+                    <TableCell>
+                      {isLocked ? (
+                        <Badge variant="secondary" className="gap-1">
+                          <Lock className="h-3 w-3" />
+                          Closed
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline">{period ? "Reopened" : "Open"}</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {isLocked
+                        ? period?.is_locked && `Closed ${new Date(period.locked_at).toLocaleDateString()}`
+                        : period && `Reopened ${period.reopened_at ? new Date(period.reopened_at).toLocaleDateString() : ""}: ${period.reopen_reason || "-"}`}
+                    </TableCell>
+                    <TableCell>
+                      {month === closedThrough ? (
+                        <Button size="sm" variant="outline" onClick={() => handleReopen(month)} disabled={isLoading || isPending}>
+                          <LockOpen className="h-4 w-4 mr-1" />
+                          Reopen
+                        </Button>
+                      ) : !isLocked && (
+                        <Button size="sm" onClick={() => handleClose(month)} disabled={isLoading || isPending}>
+                          <Lock className="h-4 w-4 mr-1" />
+                          Close
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
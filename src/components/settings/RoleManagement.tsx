@@ -1,105 +1,216 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { useToast } from "@/hooks/use-toast";
-import { Users, Shield, UserCheck, UserX } from "lucide-react";
+import {
+  noPermissions,
+  permissionActions,
+  permissionModules,
+  toPermissionMatrix,
+  type PermissionAction,
+  type PermissionModule,
+} from "@/utils/permissions";
+import { productionStages, type ProductionStageKey } from "@/utils/production";
+import { Plus, Shield, Trash2, UserCheck, Users } from "lucide-react";
 
-interface UserWithRole {
+interface UserAccess {
   id: string;
-  email: string;
   full_name: string | null;
-  role: string;
-  created_at: string;
+  is_admin: boolean;
+  role_id: string | null;
+  /** Production stages the user works on; null means every stage */
+  allowed_stages: string[] | null;
 }
 
+const NO_ROLE = "none";
+
+const toRoleKey = (name: string) =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+
 export const RoleManagement = () => {
-  const { isAdmin } = useAuth();
+  const { isAdmin, user: currentUser } = useAuth();
   const { toast } = useToast();
-  const [users, setUsers] = useState<UserWithRole[]>([]);
-  const [loading, setLoading] = useState(true);
+  const queryClient = useQueryClient();
+  const [selectedRoleId, setSelectedRoleId] = useState<string | null>(null);
+  const [newRole, setNewRole] = useState({ role_name: "", description: "" });
 
-  useEffect(() => {
-    if (isAdmin) {
-      fetchUsers();
-    }
-  }, [isAdmin]);
+  const showError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
 
-  const fetchUsers = async () => {
-    try {
-      const { data: userRoles, error } = await supabase
-        .from("user_roles")
-        .select(`
-          user_id,
-          role
-        `);
+  const { data: roles = [], isLoading: rolesLoading } = useQuery({
+    queryKey: ["roles"],
+    enabled: isAdmin,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("roles")
+        .select("*")
+        .order("is_system", { ascending: false })
+        .order("role_name");
 
       if (error) throw error;
+      return data || [];
+    }
+  });
 
-      // Get profiles for each user
-      const userIds = userRoles.map(ur => ur.user_id);
-      const { data: profiles } = await supabase
-        .from("profiles")
-        .select("id, full_name")
-        .in("id", userIds);
-
-      // Combine user roles with profiles
-      const processedUsers: UserWithRole[] = userRoles.map(ur => {
-        const profile = profiles?.find(p => p.id === ur.user_id);
-        return {
-          id: ur.user_id,
-          email: "email@example.com", // Would need admin query to get actual email
-          full_name: profile?.full_name || null,
-          role: ur.role,
-          created_at: new Date().toISOString()
-        };
-      });
+  const { data: users = [], isLoading: usersLoading } = useQuery({
+    queryKey: ["user-access"],
+    enabled: isAdmin,
+    queryFn: async (): Promise<UserAccess[]> => {
+      const [rolesResult, assignmentsResult] = await Promise.all([
+        supabase.from("user_roles").select("user_id, role"),
+        supabase.from("user_role_assignments").select("user_id, role_id, allowed_stages"),
+      ]);
 
-      setUsers(processedUsers);
-    } catch (error) {
-      console.error("Error fetching users:", error);
-      toast({
-        title: "Error",
-        description: "Failed to load user data",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
+      if (rolesResult.error) throw rolesResult.error;
+      if (assignmentsResult.error) throw assignmentsResult.error;
+
+      const userIds = [...new Set((rolesResult.data || []).map(userRole => userRole.user_id))];
+      const { data: profiles } = userIds.length > 0
+        ? await supabase.from("profiles").select("id, full_name").in("id", userIds)
+        : { data: [] };
+
+      const names = new Map((profiles || []).map(profile => [profile.id, profile.full_name]));
+      const assignments = new Map((assignmentsResult.data || []).map(assignment => [assignment.user_id, assignment]));
+      return userIds
+        .map(id => ({
+          id,
+          full_name: names.get(id) || null,
+          is_admin: (rolesResult.data || []).some(userRole => userRole.user_id === id && userRole.role === "admin"),
+          role_id: assignments.get(id)?.role_id || null,
+          allowed_stages: assignments.get(id)?.allowed_stages ?? null,
+        }))
+        .sort((a, b) => (a.full_name || "").localeCompare(b.full_name || ""));
     }
-  };
+  });
 
-  const handleRoleChange = async (userId: string, newRole: "admin" | "user") => {
-    try {
-      const { error } = await supabase
-        .from("user_roles")
-        .update({ role: newRole })
-        .eq("user_id", userId);
+  const selectedRole = roles.find(role => role.id === selectedRoleId) || roles[0] || null;
+
+  const { data: matrix = {}, isLoading: matrixLoading } = useQuery({
+    queryKey: ["role-permissions", selectedRole?.id],
+    enabled: isAdmin && !!selectedRole,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("role_permissions")
+        .select("module, can_view, can_create, can_edit, can_delete, can_approve")
+        .eq("role_id", selectedRole?.id ?? "");
 
       if (error) throw error;
+      return toPermissionMatrix(data || []);
+    }
+  });
 
-      setUsers(prev => 
-        prev.map(user => 
-          user.id === userId ? { ...user, role: newRole } : user
-        )
-      );
+  const accessMutation = useMutation({
+    mutationFn: async ({ userId, roleId, isAdmin, allowedStages }: {
+      userId: string;
+      roleId: string | null;
+      isAdmin: boolean;
+      allowedStages: string[] | null;
+    }) => {
+      const { error } = await supabase.rpc("set_user_access", {
+        p_user_id: userId,
+        p_role_id: roleId,
+        p_is_admin: isAdmin,
+        p_allowed_stages: allowedStages ?? undefined,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["user-access"] });
+      queryClient.invalidateQueries({ queryKey: ["my-permissions"] });
+      toast({
+        title: "Access Updated",
+        description: "The user's access takes effect on their next page load",
+      });
+    },
+    onError: showError
+  });
+
+  const createRoleMutation = useMutation({
+    mutationFn: async () => {
+      const roleKey = toRoleKey(newRole.role_name);
+      if (!roleKey) throw new Error("Role name is required");
 
+      const { data, error } = await supabase
+        .from("roles")
+        .insert({
+          role_key: roleKey,
+          role_name: newRole.role_name.trim(),
+          description: newRole.description.trim() || null,
+        })
+        .select("id")
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (role) => {
+      queryClient.invalidateQueries({ queryKey: ["roles"] });
+      setSelectedRoleId(role.id);
+      setNewRole({ role_name: "", description: "" });
       toast({
-        title: "Success",
-        description: "User role updated successfully",
+        title: "Role Created",
+        description: "Tick the modules and actions it should allow",
       });
-    } catch (error) {
-      console.error("Error updating role:", error);
+    },
+    onError: showError
+  });
+
+  const deleteRoleMutation = useMutation({
+    mutationFn: async (roleId: string) => {
+      const { error } = await supabase.from("roles").delete().eq("id", roleId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["roles"] });
+      setSelectedRoleId(null);
       toast({
-        title: "Error",
-        description: "Failed to update user role",
-        variant: "destructive",
+        title: "Role Deleted",
       });
-    }
-  };
+    },
+    onError: showError
+  });
+
+  const permissionMutation = useMutation({
+    mutationFn: async ({ module, action, allowed }: { module: PermissionModule; action: PermissionAction; allowed: boolean }) => {
+      if (!selectedRole) return;
+
+      const flags = { ...(matrix[module] || noPermissions), [action]: allowed };
+      const { error } = await supabase
+        .from("role_permissions")
+        .upsert({
+          role_id: selectedRole.id,
+          module,
+          can_view: flags.view,
+          can_create: flags.create,
+          can_edit: flags.edit,
+          can_delete: flags.delete,
+          can_approve: flags.approve,
+        }, { onConflict: "role_id,module" });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["role-permissions", selectedRole?.id] });
+      queryClient.invalidateQueries({ queryKey: ["my-permissions"] });
+    },
+    onError: showError
+  });
 
   if (!isAdmin) {
     return (
@@ -110,7 +221,7 @@ export const RoleManagement = () => {
     );
   }
 
-  if (loading) {
+  if (rolesLoading || usersLoading) {
     return (
       <div className="text-center py-8">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
@@ -119,6 +230,33 @@ export const RoleManagement = () => {
     );
   }
 
+  const userCounts = new Map<string, number>();
+  users.forEach(user => {
+    if (user.role_id) userCounts.set(user.role_id, (userCounts.get(user.role_id) || 0) + 1);
+  });
+
+  const handleStageChange = (user: UserAccess, stage: ProductionStageKey, allowed: boolean) => {
+    const current = user.allowed_stages ?? productionStages.map(s => s.key);
+    const next = allowed ? [...current, stage] : current.filter(key => key !== stage);
+    accessMutation.mutate({
+      userId: user.id,
+      roleId: user.role_id,
+      isAdmin: user.is_admin,
+      allowedStages: productionStages.every(s => next.includes(s.key)) ? null : next,
+    });
+  };
+
+  const describeStages = (allowedStages: string[] | null) => {
+    if (allowedStages === null) return "All stages";
+    if (allowedStages.length === 0) return "No stages";
+    return productionStages.filter(s => allowedStages.includes(s.key)).map(s => s.label).join(", ");
+  };
+
+  const handleDeleteRole = (roleId: string, roleName: string) => {
+    if (!window.confirm(`Delete the ${roleName} role?`)) return;
+    deleteRoleMutation.mutate(roleId);
+  };
+
   return (
     <div className="space-y-6">
       <Card>
@@ -128,7 +266,7 @@ export const RoleManagement = () => {
             User Management
           </CardTitle>
           <CardDescription>
-            Manage user accounts and their role assignments
+            Each user gets one role and the production stages they work on; admins can do everything regardless of their role
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -138,7 +276,8 @@ export const RoleManagement = () => {
                 <TableRow>
                   <TableHead>User</TableHead>
                   <TableHead>Role</TableHead>
-                  <TableHead>Actions</TableHead>
+                  <TableHead>Production Stages</TableHead>
+                  <TableHead>Admin</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -153,31 +292,73 @@ export const RoleManagement = () => {
                           <p className="font-medium">
                             {user.full_name || "Unknown User"}
                           </p>
-                          <p className="text-sm text-muted-foreground">
-                            {user.email}
-                          </p>
+                          {user.id === currentUser?.id && (
+                            <p className="text-sm text-muted-foreground">You</p>
+                          )}
                         </div>
                       </div>
                     </TableCell>
-                    <TableCell>
-                      <Badge variant={user.role === "admin" ? "default" : "secondary"}>
-                        {user.role}
-                      </Badge>
-                    </TableCell>
                     <TableCell>
                       <Select
-                        value={user.role}
-                        onValueChange={(value) => handleRoleChange(user.id, value as "admin" | "user")}
+                        value={user.role_id || NO_ROLE}
+                        onValueChange={(value) => accessMutation.mutate({
+                          userId: user.id,
+                          roleId: value === NO_ROLE ? null : value,
+                          isAdmin: user.is_admin,
+                          allowedStages: user.allowed_stages,
+                        })}
+                        disabled={accessMutation.isPending}
                       >
-                        <SelectTrigger className="w-32">
+                        <SelectTrigger className="w-48">
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="user">User</SelectItem>
-                          <SelectItem value="admin">Admin</SelectItem>
+                          <SelectItem value={NO_ROLE}>No access</SelectItem>
+                          {roles.map(role => (
+                            <SelectItem key={role.id} value={role.id}>{role.role_name}</SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                     </TableCell>
+                    <TableCell>
+                      <Popover>
+                        <PopoverTrigger asChild>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="max-w-56 justify-start truncate"
+                            disabled={!user.role_id || accessMutation.isPending}
+                          >
+                            {user.role_id ? describeStages(user.allowed_stages) : "-"}
+                          </Button>
+                        </PopoverTrigger>
+                        <PopoverContent align="start" className="w-56 space-y-2">
+                          {productionStages.map(stage => (
+                            <div key={stage.key} className="flex items-center gap-2">
+                              <Checkbox
+                                id={`${user.id}-${stage.key}`}
+                                checked={user.allowed_stages?.includes(stage.key) ?? true}
+                                onCheckedChange={(checked) => handleStageChange(user, stage.key, checked === true)}
+                                disabled={accessMutation.isPending}
+                              />
+                              <Label htmlFor={`${user.id}-${stage.key}`} className="font-normal">{stage.label}</Label>
+                            </div>
+                          ))}
+                        </PopoverContent>
+                      </Popover>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={user.is_admin}
+                        onCheckedChange={(checked) => accessMutation.mutate({
+                          userId: user.id,
+                          roleId: user.role_id,
+                          isAdmin: checked,
+                          allowedStages: user.allowed_stages,
+                        })}
+                        disabled={accessMutation.isPending || user.id === currentUser?.id}
+                      />
+                    </TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -190,44 +371,131 @@ export const RoleManagement = () => {
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Shield className="h-5 w-5" />
-            Role Permissions
+            Roles
           </CardTitle>
           <CardDescription>
-            Overview of role-based permissions
+            Built-in roles can be re-permissioned but not deleted; a role can only be deleted once no one has it
           </CardDescription>
         </CardHeader>
-        <CardContent>
-          <div className="space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <h4 className="font-medium flex items-center gap-2">
-                  <UserCheck className="h-4 w-4" />
-                  User Role
-                </h4>
-                <ul className="text-sm text-muted-foreground space-y-1">
-                  <li>• View dashboard and reports</li>
-                  <li>• Access item master data</li>
-                  <li>• View stock information</li>
-                  <li>• Update own profile</li>
-                </ul>
-              </div>
-              <div className="space-y-2">
-                <h4 className="font-medium flex items-center gap-2">
-                  <Shield className="h-4 w-4" />
-                  Admin Role
-                </h4>
-                <ul className="text-sm text-muted-foreground space-y-1">
-                  <li>• All user permissions</li>
-                  <li>• Manage categories and items</li>
-                  <li>• Manage stock operations</li>
-                  <li>• Access system settings</li>
-                  <li>• Manage user roles</li>
-                </ul>
-              </div>
+        <CardContent className="space-y-4">
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Users</TableHead>
+                  <TableHead className="w-24"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {roles.map(role => (
+                  <TableRow
+                    key={role.id}
+                    className={`cursor-pointer ${role.id === selectedRole?.id ? "bg-muted/50" : ""}`}
+                    onClick={() => setSelectedRoleId(role.id)}
+                  >
+                    <TableCell>
+                      <span className="font-medium">{role.role_name}</span>
+                      {role.is_system && <Badge variant="outline" className="ml-2">Built-in</Badge>}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{role.description || "-"}</TableCell>
+                    <TableCell>{userCounts.get(role.id) || 0}</TableCell>
+                    <TableCell onClick={(e) => e.stopPropagation()}>
+                      {!role.is_system && (
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => handleDeleteRole(role.id, role.role_name)}
+                          disabled={(userCounts.get(role.id) || 0) > 0 || deleteRoleMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="new-role-name">New Role</Label>
+              <Input
+                id="new-role-name"
+                placeholder="e.g. Quality Inspector"
+                value={newRole.role_name}
+                onChange={(e) => setNewRole(prev => ({ ...prev, role_name: e.target.value }))}
+              />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-role-description">Description</Label>
+              <Input
+                id="new-role-description"
+                value={newRole.description}
+                onChange={(e) => setNewRole(prev => ({ ...prev, description: e.target.value }))}
+              />
+            </div>
+            <Button
+              onClick={() => createRoleMutation.mutate()}
+              disabled={!newRole.role_name.trim() || createRoleMutation.isPending}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Role
+            </Button>
           </div>
         </CardContent>
       </Card>
+
+      {selectedRole && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{selectedRole.role_name} Permissions</CardTitle>
+            <CardDescription>
+              Changes apply straight away; users pick them up on their next page load
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Module</TableHead>
+                    {permissionActions.map(action => (
+                      <TableHead key={action.key} className="text-center">{action.label}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {permissionModules.map(module => (
+                    <TableRow key={module.key}>
+                      <TableCell>
+                        <div className="font-medium">{module.label}</div>
+                        <div className="text-xs text-muted-foreground">{module.description}</div>
+                      </TableCell>
+                      {permissionActions.map(action => (
+                        <TableCell key={action.key} className="text-center">
+                          <Checkbox
+                            aria-label={`${module.label} ${action.label}`}
+                            checked={matrix[module.key]?.[action.key] ?? false}
+                            onCheckedChange={(checked) => permissionMutation.mutate({
+                              module: module.key,
+                              action: action.key,
+                              allowed: checked === true,
+                            })}
+                            disabled={matrixLoading || permissionMutation.isPending}
+                          />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,62 @@
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { useSystemSettings, useUpdateSystemSettings } from "@/hooks/useSystemSettings";
+import { Package } from "lucide-react";
+
+// Saved as soon as it is toggled; post_issue and update_issue read it inside their stock lock
+export const StockControlSettings = () => {
+  const { toast } = useToast();
+
+  const { data: settings, isLoading } = useSystemSettings();
+  const allowNegativeStock = settings?.allow_negative_stock ?? false;
+  const updateMutation = useUpdateSystemSettings();
+
+  const handleToggle = (allow: boolean) => {
+    updateMutation.mutate({ allow_negative_stock: allow }, {
+      onSuccess: () => {
+        toast({
+          title: "Success",
+          description: allow ? "Issues may now take stock below zero" : "Issues can no longer take stock below zero",
+        });
+      },
+      onError: (error) => {
+        toast({
+          title: "Error",
+          description: error.message,
+          variant: "destructive",
+        });
+      }
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Package className="h-5 w-5" />
+          Stock Control
+        </CardTitle>
+        <CardDescription>
+          Rules applied when stock is issued
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label>Allow Negative Stock</Label>
+            <p className="text-sm text-muted-foreground">
+              Let issues go ahead when the item or location does not have enough stock
+            </p>
+          </div>
+          <Switch
+            checked={allowNegativeStock}
+            disabled={isLoading || updateMutation.isPending}
+            onCheckedChange={handleToggle}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
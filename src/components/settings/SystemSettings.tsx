@@ -6,19 +6,45 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
-import { Settings, Save, Database, Mail, Bell } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useSystemSettings, useUpdateSystemSettings } from "@/hooks/useSystemSettings";
+import { StockControlSettings } from "@/components/settings/StockControlSettings";
+import { PeriodClosingSettings } from "@/components/settings/PeriodClosingSettings";
+import {
+  defaultSystemSettings,
+  MAX_RETENTION_DAYS,
+  MIN_RETENTION_DAYS,
+  validateSystemSettings,
+  type SystemSettingValues
+} from "@/utils/systemSettings";
+import { Settings, Save, Database, Bell, Trash2 } from "lucide-react";
+
+type GeneralSettings = Pick<
+  SystemSettingValues,
+  "company_name" | "system_email" | "notifications_enabled" | "auto_backup" | "data_retention_days"
+>;
+
+const pickGeneralSettings = (settings: SystemSettingValues): GeneralSettings => ({
+  company_name: settings.company_name,
+  system_email: settings.system_email,
+  notifications_enabled: settings.notifications_enabled,
+  auto_backup: settings.auto_backup,
+  data_retention_days: settings.data_retention_days,
+});
 
 export const SystemSettings = () => {
   const { isAdmin } = useAuth();
   const { toast } = useToast();
-  const [loading, setLoading] = useState(false);
-  const [settings, setSettings] = useState({
-    company_name: "DK Enterprises",
-    system_email: "info@dkenterprises.co.in",
-    notifications_enabled: true,
-    auto_backup: true,
-    data_retention_days: 365,
-  });
+  const { data: savedSettings, isLoading } = useSystemSettings();
+  const updateMutation = useUpdateSystemSettings();
+  const [pruning, setPruning] = useState(false);
+  const [settings, setSettings] = useState<GeneralSettings>(pickGeneralSettings(defaultSystemSettings));
+
+  useEffect(() => {
+    if (savedSettings) {
+      setSettings(pickGeneralSettings(savedSettings));
+    }
+  }, [savedSettings]);
 
   if (!isAdmin) {
     return (
@@ -29,26 +55,67 @@ export const SystemSettings = () => {
     );
   }
 
-  const handleSave = async () => {
-    setLoading(true);
+  const handleSave = () => {
+    const values = {
+      ...settings,
+      company_name: settings.company_name.trim(),
+      system_email: settings.system_email.trim(),
+    };
+    const errors = validateSystemSettings(values);
+    if (errors.length > 0) {
+      toast({
+        title: "Error",
+        description: errors.join(". "),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    updateMutation.mutate(values, {
+      onSuccess: () => {
+        toast({
+          title: "Success",
+          description: "System settings updated successfully",
+        });
+      },
+      onError: (error) => {
+        toast({
+          title: "Error",
+          description: error.message,
+          variant: "destructive",
+        });
+      }
+    });
+  };
+
+  // Runs the same cleanup as the nightly job, using the saved retention period
+  const handlePruneNow = async () => {
+    if (!window.confirm(`Delete stock snapshots and analytics queries older than ${savedSettings?.data_retention_days ?? settings.data_retention_days} days? Snapshots in closed periods are kept.`)) {
+      return;
+    }
+
+    setPruning(true);
     try {
-      // This would save to a system_settings table in the future
+      const { data, error } = await supabase.rpc('prune_expired_data');
+      if (error) throw error;
+
+      const result = data as { snapshots_deleted: number; analytics_queries_deleted: number };
       toast({
-        title: "Success",
-        description: "System settings updated successfully",
+        title: "Old Data Removed",
+        description: `${result.snapshots_deleted} snapshots and ${result.analytics_queries_deleted} analytics queries deleted`,
       });
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to update system settings",
+        description: error instanceof Error ? error.message : "Failed to remove old data",
         variant: "destructive",
       });
     } finally {
-      setLoading(false);
+      setPruning(false);
     }
   };
 
-  const handleInputChange = (field: string, value: string | boolean | number) => {
+  const handleInputChange = (field: keyof GeneralSettings, value: string | boolean | number) => {
     setSettings(prev => ({ ...prev, [field]: value }));
   };
 
@@ -104,7 +171,7 @@ export const SystemSettings = () => {
             <div className="space-y-0.5">
               <Label>Enable Notifications</Label>
               <p className="text-sm text-muted-foreground">
-                Send system notifications to users
+                Show stock alerts to users when they sign in
               </p>
             </div>
             <Switch
@@ -115,6 +182,10 @@ export const SystemSettings = () => {
         </CardContent>
       </Card>
 
+      <StockControlSettings />
+
+      <PeriodClosingSettings />
+
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
@@ -130,7 +201,7 @@ export const SystemSettings = () => {
             <div className="space-y-0.5">
               <Label>Auto Backup</Label>
               <p className="text-sm text-muted-foreground">
-                Automatically backup data daily
+                Take a stock snapshot every night at 2 AM
               </p>
             </div>
             <Switch
@@ -146,17 +217,24 @@ export const SystemSettings = () => {
               value={settings.data_retention_days}
               onChange={(e) => handleInputChange("data_retention_days", parseInt(e.target.value))}
               placeholder="365"
-              min="1"
-              max="3650"
+              min={MIN_RETENTION_DAYS}
+              max={MAX_RETENTION_DAYS}
             />
+            <p className="text-sm text-muted-foreground">
+              Stock snapshots and analytics queries older than this are deleted every night. Snapshots in closed periods are kept
+            </p>
           </div>
+          <Button variant="outline" onClick={handlePruneNow} disabled={pruning || isLoading}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            {pruning ? "Cleaning Up..." : "Clean Up Now"}
+          </Button>
         </CardContent>
       </Card>
 
       <div className="flex justify-end">
-        <Button onClick={handleSave} disabled={loading}>
+        <Button onClick={handleSave} disabled={isLoading || updateMutation.isPending}>
           <Save className="h-4 w-4 mr-2" />
-          {loading ? "Saving..." : "Save Settings"}
+          {updateMutation.isPending ? "Saving..." : "Save Settings"}
         </Button>
       </div>
     </div>
@@ -1,11 +1,19 @@
 import React, { useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { supabase } from "@/integrations/supabase/client";
+import { usePermissions } from "@/hooks/usePermission";
+import { usePendingChangeEntries, useRequestEntryChange } from "@/hooks/useChangeRequests";
+import { useClosedThroughMonth } from "@/hooks/useAccountingPeriods";
+import { isDateInClosedPeriod } from "@/utils/accountingPeriods";
+import { changeEntryKey, type ChangeAction } from "@/utils/changeRequests";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { TableCell, TableRow } from "@/components/ui/table";
-import { Edit, Save, X, Trash2 } from "lucide-react";
+import { Edit, Save, X, Trash2, Lock } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { useVendors } from "@/hooks/useVendors";
+import { VendorCombobox } from "@/components/ui/vendor-combobox";
+import { LocationSelect } from "@/components/locations/LocationSelect";
+import type { Json, Tables } from "@/integrations/supabase/types";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -27,93 +35,110 @@ interface GRNData {
   uom: string;
   invoice_number: string | null;
   vendor: string | null;
+  vendor_id?: string | null;
   amount_inr: number | null;
   remarks: string | null;
+  po_line_id?: string | null;
+  location_id: string;
+  lot_number?: string | null;
+  mfg_date?: string | null;
+  expiry_date?: string | null;
+  purchase_order_lines?: {
+    purchase_orders: { po_number: string } | null;
+  } | null;
+  storage_locations?: { location_name: string } | null;
 }
 
 interface EditableGRNRowProps {
   grn: GRNData;
+  locations?: Tables<'storage_locations'>[];
   onEdit?: () => void;
   onCancel?: () => void;
 }
 
-export const EditableGRNRow: React.FC<EditableGRNRowProps> = ({ grn }) => {
+export const EditableGRNRow: React.FC<EditableGRNRowProps> = ({ grn, locations = [] }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editData, setEditData] = useState(grn);
-  const queryClient = useQueryClient();
+  const { data: vendors = [] } = useVendors();
+  const { can } = usePermissions();
+  const canEdit = can('grn', 'edit');
+  const canDelete = can('grn', 'delete');
+  const requestChange = useRequestEntryChange();
+  const { data: pendingEntries } = usePendingChangeEntries();
+  const hasPendingChange = pendingEntries?.has(changeEntryKey('grn', grn.id)) ?? false;
+  const closedThrough = useClosedThroughMonth();
+  const isLocked = isDateInClosedPeriod(grn.date, closedThrough);
+  const [deleteReason, setDeleteReason] = useState('');
 
-  const updateMutation = useMutation({
-    mutationFn: async (data: Partial<GRNData>) => {
-      const { error } = await supabase
-        .from('grn_log')
-        .update(data)
-        .eq('id', grn.id);
-      
-      if (error) throw error;
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['recent-grn'] });
-      setIsEditing(false);
-      toast({
-        title: "Success",
-        description: "GRN entry updated successfully",
-      });
-    },
-    onError: (error) => {
+  // Posted entries change only once another user approves; until then the row shows as pending
+  const submitRequest = (action: ChangeAction, newValues?: Record<string, Json>, reason?: string) => {
+    requestChange.mutate(
+      { entryType: 'grn', entryId: grn.id, action, newValues, reason },
+      {
+        onSuccess: () => {
+          setIsEditing(false);
+          setDeleteReason('');
+          toast({
+            title: "Change Requested",
+            description: `The GRN entry will be ${action === 'DELETE' ? 'deleted' : 'updated'} once another user approves it`,
+          });
+        },
+        onError: (error) => {
+          toast({
+            title: "Error",
+            description: `Failed to request change: ${error.message}`,
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  const handleSave = () => {
+    if (editData.qty_received <= 0) {
       toast({
-        title: "Error",
-        description: `Failed to update GRN: ${error.message}`,
+        title: "Validation Error",
+        description: "Quantity must be greater than 0",
         variant: "destructive",
       });
-    },
-  });
+      return;
+    }
 
-  const deleteMutation = useMutation({
-    mutationFn: async () => {
-      const { error } = await supabase
-        .from('grn_log')
-        .delete()
-        .eq('id', grn.id);
-      
-      if (error) throw error;
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['recent-grn'] });
-      toast({
-        title: "Success",
-        description: "GRN entry deleted successfully",
-      });
-    },
-    onError: (error) => {
+    if (isDateInClosedPeriod(editData.date, closedThrough)) {
       toast({
-        title: "Error",
-        description: `Failed to delete GRN: ${error.message}`,
+        title: "Validation Error",
+        description: "That date falls in a closed accounting period",
         variant: "destructive",
       });
-    },
-  });
+      return;
+    }
 
-  const handleSave = () => {
-    if (editData.qty_received <= 0) {
+    if (editData.mfg_date && editData.expiry_date && editData.expiry_date < editData.mfg_date) {
       toast({
         title: "Validation Error",
-        description: "Quantity must be greater than 0",
+        description: "Expiry date cannot be before the manufacture date",
         variant: "destructive",
       });
       return;
     }
 
-    updateMutation.mutate({
+    submitRequest('UPDATE', {
       date: editData.date,
       grn_number: editData.grn_number,
       qty_received: editData.qty_received,
       invoice_number: editData.invoice_number,
+      vendor_id: editData.vendor_id || null,
       vendor: editData.vendor,
       amount_inr: editData.amount_inr,
       remarks: editData.remarks,
+      location_id: editData.location_id,
+      lot_number: editData.lot_number?.trim() || null,
+      expiry_date: editData.expiry_date || null,
     });
   };
 
+  const poNumber = grn.purchase_order_lines?.purchase_orders?.po_number;
+
   const handleCancel = () => {
     setEditData(grn);
     setIsEditing(false);
@@ -130,10 +155,23 @@ export const EditableGRNRow: React.FC<EditableGRNRowProps> = ({ grn }) => {
           />
         </TableCell>
         <TableCell>
-          <Input
-            value={editData.grn_number}
-            onChange={(e) => setEditData({...editData, grn_number: e.target.value})}
-          />
+          <div className="space-y-1 min-w-[140px]">
+            <Input
+              value={editData.grn_number}
+              onChange={(e) => setEditData({...editData, grn_number: e.target.value})}
+            />
+            <Input
+              value={editData.lot_number || ''}
+              onChange={(e) => setEditData({...editData, lot_number: e.target.value})}
+              placeholder="Lot / roll"
+            />
+            <Input
+              type="date"
+              value={editData.expiry_date || ''}
+              onChange={(e) => setEditData({...editData, expiry_date: e.target.value})}
+              title="Expiry date"
+            />
+          </div>
         </TableCell>
         <TableCell>{editData.item_code}</TableCell>
         <TableCell>
@@ -144,6 +182,14 @@ export const EditableGRNRow: React.FC<EditableGRNRowProps> = ({ grn }) => {
           />
         </TableCell>
         <TableCell>{editData.uom}</TableCell>
+        <TableCell>
+          <LocationSelect
+            locations={locations}
+            value={editData.location_id}
+            onValueChange={(value) => setEditData({...editData, location_id: value})}
+            className="min-w-[160px]"
+          />
+        </TableCell>
         <TableCell>
           <Input
             value={editData.invoice_number || ''}
@@ -151,11 +197,19 @@ export const EditableGRNRow: React.FC<EditableGRNRowProps> = ({ grn }) => {
           />
         </TableCell>
         <TableCell>
-          <Input
-            value={editData.vendor || ''}
-            onChange={(e) => setEditData({...editData, vendor: e.target.value})}
+          <VendorCombobox
+            vendors={vendors}
+            value={editData.vendor_id || ''}
+            onValueChange={(vendorId) => setEditData({
+              ...editData,
+              vendor_id: vendorId || null,
+              vendor: vendors.find(vendor => vendor.id === vendorId)?.vendor_name || null
+            })}
+            placeholder={editData.vendor || "Select vendor..."}
+            className="min-w-[180px]"
           />
         </TableCell>
+        <TableCell>{poNumber || '-'}</TableCell>
         <TableCell>
           <Input
             type="number"
@@ -174,7 +228,7 @@ export const EditableGRNRow: React.FC<EditableGRNRowProps> = ({ grn }) => {
             <Button
               size="sm"
               onClick={handleSave}
-              disabled={updateMutation.isPending}
+              disabled={requestChange.isPending}
             >
               <Save className="h-4 w-4" />
             </Button>
@@ -192,51 +246,78 @@ export const EditableGRNRow: React.FC<EditableGRNRowProps> = ({ grn }) => {
   }
 
   return (
-    <TableRow>
+    <TableRow className={isLocked ? "bg-muted/50 text-muted-foreground" : undefined}>
       <TableCell>{grn.date}</TableCell>
-      <TableCell>{grn.grn_number}</TableCell>
+      <TableCell>
+        <div>{grn.grn_number}</div>
+        {grn.lot_number && (
+          <div className="text-xs text-muted-foreground">
+            Lot {grn.lot_number}{grn.expiry_date && ` · exp ${grn.expiry_date}`}
+          </div>
+        )}
+      </TableCell>
       <TableCell>{grn.item_code}</TableCell>
       <TableCell>{grn.qty_received}</TableCell>
       <TableCell>{grn.uom}</TableCell>
+      <TableCell>{grn.storage_locations?.location_name || '-'}</TableCell>
       <TableCell>{grn.invoice_number || '-'}</TableCell>
       <TableCell>{grn.vendor || '-'}</TableCell>
+      <TableCell>{poNumber || '-'}</TableCell>
       <TableCell>{grn.amount_inr || '-'}</TableCell>
       <TableCell>{grn.remarks || '-'}</TableCell>
       <TableCell>
-        <div className="flex gap-2">
-          <Button
-            size="sm"
-            variant="outline"
-            onClick={() => setIsEditing(true)}
-          >
-            <Edit className="h-4 w-4" />
-          </Button>
-          <AlertDialog>
-            <AlertDialogTrigger asChild>
-              <Button size="sm" variant="destructive">
-                <Trash2 className="h-4 w-4" />
+        {isLocked ? (
+          <Badge variant="outline" className="gap-1" title="Entries in a closed period cannot be changed">
+            <Lock className="h-3 w-3" />
+            Period closed
+          </Badge>
+        ) : hasPendingChange ? (
+          <Badge variant="secondary">Change pending</Badge>
+        ) : (
+          <div className="flex gap-2">
+            {canEdit && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setIsEditing(true)}
+              >
+                <Edit className="h-4 w-4" />
               </Button>
-            </AlertDialogTrigger>
-            <AlertDialogContent>
-              <AlertDialogHeader>
-                <AlertDialogTitle>Delete GRN Entry</AlertDialogTitle>
-                <AlertDialogDescription>
-                  Are you sure you want to delete this GRN entry? This will reverse the stock addition and cannot be undone.
-                </AlertDialogDescription>
-              </AlertDialogHeader>
-              <AlertDialogFooter>
-                <AlertDialogCancel>Cancel</AlertDialogCancel>
-                <AlertDialogAction
-                  onClick={() => deleteMutation.mutate()}
-                  disabled={deleteMutation.isPending}
-                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                >
-                  Delete
-                </AlertDialogAction>
-              </AlertDialogFooter>
-            </AlertDialogContent>
-          </AlertDialog>
-        </div>
+            )}
+            {canDelete && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button size="sm" variant="destructive">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete GRN Entry</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The entry will be deleted and its stock addition reversed once another user approves the request.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <Input
+                    placeholder="Reason for deleting"
+                    value={deleteReason}
+                    onChange={(e) => setDeleteReason(e.target.value)}
+                  />
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={() => submitRequest('DELETE', undefined, deleteReason)}
+                      disabled={requestChange.isPending}
+                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    >
+                      Request Deletion
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+          </div>
+        )}
       </TableCell>
     </TableRow>
   );
@@ -1,11 +1,21 @@
 import React, { useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { supabase } from "@/integrations/supabase/client";
+import { usePermissions } from "@/hooks/usePermission";
+import { usePendingChangeEntries, useRequestEntryChange } from "@/hooks/useChangeRequests";
+import { useClosedThroughMonth } from "@/hooks/useAccountingPeriods";
+import { isDateInClosedPeriod } from "@/utils/accountingPeriods";
+import { changeEntryKey, type ChangeAction } from "@/utils/changeRequests";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { TableCell, TableRow } from "@/components/ui/table";
-import { Edit, Save, X, Trash2 } from "lucide-react";
+import { Edit, Save, X, Trash2, Lock } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { formatINR } from "@/utils/valuation";
+import { getProductionStageLabel, productionStages } from "@/utils/production";
+import { useProductionOrders } from "@/hooks/useProductionOrders";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LocationSelect } from "@/components/locations/LocationSelect";
+import type { Json, Tables } from "@/integrations/supabase/types";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -25,71 +35,59 @@ interface IssueData {
   qty_issued: number;
   purpose: string | null;
   remarks: string | null;
+  uiorn: string | null;
+  production_stage: string | null;
+  location_id: string;
+  issue_valuation?: { unit_cost: number; total_cost: number } | null;
+  storage_locations?: { location_name: string } | null;
+  lot?: { lot_number: string | null } | null;
 }
 
 interface EditableIssueRowProps {
   issue: IssueData;
-  availableStock?: number;
+  locations?: Tables<'storage_locations'>[];
 }
 
 export const EditableIssueRow: React.FC<EditableIssueRowProps> = ({ 
   issue, 
-  availableStock = 0 
+  locations = []
 }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editData, setEditData] = useState(issue);
-  const queryClient = useQueryClient();
+  const { data: productionOrders = [] } = useProductionOrders();
+  const { can } = usePermissions();
+  const canEdit = can('issues', 'edit');
+  const canDelete = can('issues', 'delete');
+  const requestChange = useRequestEntryChange();
+  const { data: pendingEntries } = usePendingChangeEntries();
+  const hasPendingChange = pendingEntries?.has(changeEntryKey('issue', issue.id)) ?? false;
+  const closedThrough = useClosedThroughMonth();
+  const isLocked = isDateInClosedPeriod(issue.date, closedThrough);
+  const [deleteReason, setDeleteReason] = useState('');
 
-  const updateMutation = useMutation({
-    mutationFn: async (data: Partial<IssueData>) => {
-      const { error } = await supabase
-        .from('issue_log')
-        .update(data)
-        .eq('id', issue.id);
-      
-      if (error) throw error;
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['recent-issues'] });
-      setIsEditing(false);
-      toast({
-        title: "Success",
-        description: "Issue entry updated successfully",
-      });
-    },
-    onError: (error) => {
-      toast({
-        title: "Error",
-        description: `Failed to update issue: ${error.message}`,
-        variant: "destructive",
-      });
-    },
-  });
-
-  const deleteMutation = useMutation({
-    mutationFn: async () => {
-      const { error } = await supabase
-        .from('issue_log')
-        .delete()
-        .eq('id', issue.id);
-      
-      if (error) throw error;
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['recent-issues'] });
-      toast({
-        title: "Success",
-        description: "Issue entry deleted successfully",
-      });
-    },
-    onError: (error) => {
-      toast({
-        title: "Error",
-        description: `Failed to delete issue: ${error.message}`,
-        variant: "destructive",
-      });
-    },
-  });
+  // Posted entries change only once another user approves; until then the row shows as pending
+  const submitRequest = (action: ChangeAction, newValues?: Record<string, Json>, reason?: string) => {
+    requestChange.mutate(
+      { entryType: 'issue', entryId: issue.id, action, newValues, reason },
+      {
+        onSuccess: () => {
+          setIsEditing(false);
+          setDeleteReason('');
+          toast({
+            title: "Change Requested",
+            description: `The issue entry will be ${action === 'DELETE' ? 'deleted' : 'updated'} once another user approves it`,
+          });
+        },
+        onError: (error) => {
+          toast({
+            title: "Error",
+            description: `Failed to request change: ${error.message}`,
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
 
   const handleSave = () => {
     if (editData.qty_issued <= 0) {
@@ -101,22 +99,23 @@ export const EditableIssueRow: React.FC<EditableIssueRowProps> = ({
       return;
     }
 
-    // Check if new quantity exceeds available stock + current issue quantity
-    const maxAllowedQty = availableStock + issue.qty_issued;
-    if (editData.qty_issued > maxAllowedQty) {
+    if (isDateInClosedPeriod(editData.date, closedThrough)) {
       toast({
         title: "Validation Error",
-        description: `Insufficient stock. Maximum allowed: ${maxAllowedQty}`,
+        description: "That date falls in a closed accounting period",
         variant: "destructive",
       });
       return;
     }
 
-    updateMutation.mutate({
+    submitRequest('UPDATE', {
       date: editData.date,
       qty_issued: editData.qty_issued,
       purpose: editData.purpose,
       remarks: editData.remarks,
+      uiorn: editData.uiorn,
+      production_stage: editData.uiorn ? editData.production_stage : null,
+      location_id: editData.location_id,
     });
   };
 
@@ -143,12 +142,58 @@ export const EditableIssueRow: React.FC<EditableIssueRowProps> = ({
             onChange={(e) => setEditData({...editData, qty_issued: Number(e.target.value)})}
           />
         </TableCell>
+        <TableCell>
+          <LocationSelect
+            locations={locations}
+            value={editData.location_id}
+            onValueChange={(value) => setEditData({...editData, location_id: value})}
+            className="min-w-[160px]"
+          />
+        </TableCell>
+        <TableCell className="text-muted-foreground">Recalculated on save</TableCell>
         <TableCell>
           <Input
             value={editData.purpose || ''}
             onChange={(e) => setEditData({...editData, purpose: e.target.value})}
           />
         </TableCell>
+        <TableCell>
+          <div className="space-y-1 min-w-[180px]">
+            <Select
+              value={editData.uiorn || 'none'}
+              onValueChange={(value) => setEditData({
+                ...editData,
+                uiorn: value === 'none' ? null : value,
+                production_stage: value === 'none' ? null : editData.production_stage,
+              })}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="No job" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No job</SelectItem>
+                {productionOrders.map(order => (
+                  <SelectItem key={order.uiorn} value={order.uiorn}>{order.uiorn}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={editData.production_stage || 'none'}
+              onValueChange={(value) => setEditData({...editData, production_stage: value === 'none' ? null : value})}
+              disabled={!editData.uiorn}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Stage" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Not specified</SelectItem>
+                {productionStages.map(stage => (
+                  <SelectItem key={stage.key} value={stage.key}>{stage.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </TableCell>
         <TableCell>
           <Input
             value={editData.remarks || ''}
@@ -160,7 +205,7 @@ export const EditableIssueRow: React.FC<EditableIssueRowProps> = ({
             <Button
               size="sm"
               onClick={handleSave}
-              disabled={updateMutation.isPending}
+              disabled={requestChange.isPending}
             >
               <Save className="h-4 w-4" />
             </Button>
@@ -178,47 +223,87 @@ export const EditableIssueRow: React.FC<EditableIssueRowProps> = ({
   }
 
   return (
-    <TableRow>
+    <TableRow className={isLocked ? "bg-muted/50 text-muted-foreground" : undefined}>
       <TableCell>{issue.date}</TableCell>
       <TableCell>{issue.item_code}</TableCell>
-      <TableCell>{issue.qty_issued}</TableCell>
+      <TableCell>
+        <div>{issue.qty_issued}</div>
+        {issue.lot?.lot_number && <div className="text-xs text-muted-foreground">Lot {issue.lot.lot_number}</div>}
+      </TableCell>
+      <TableCell>{issue.storage_locations?.location_name || '-'}</TableCell>
+      <TableCell>
+        {issue.issue_valuation ? (
+          <div>
+            <div>{formatINR(issue.issue_valuation.total_cost)}</div>
+            <div className="text-xs text-muted-foreground">@ {formatINR(issue.issue_valuation.unit_cost)}</div>
+          </div>
+        ) : '-'}
+      </TableCell>
       <TableCell>{issue.purpose || '-'}</TableCell>
+      <TableCell>
+        {issue.uiorn ? (
+          <div>
+            <div className="font-mono text-sm">{issue.uiorn}</div>
+            {issue.production_stage && (
+              <div className="text-xs text-muted-foreground">{getProductionStageLabel(issue.production_stage)}</div>
+            )}
+          </div>
+        ) : '-'}
+      </TableCell>
       <TableCell>{issue.remarks || '-'}</TableCell>
       <TableCell>
-        <div className="flex gap-2">
-          <Button
-            size="sm"
-            variant="outline"
-            onClick={() => setIsEditing(true)}
-          >
-            <Edit className="h-4 w-4" />
-          </Button>
-          <AlertDialog>
-            <AlertDialogTrigger asChild>
-              <Button size="sm" variant="destructive">
-                <Trash2 className="h-4 w-4" />
+        {isLocked ? (
+          <Badge variant="outline" className="gap-1" title="Entries in a closed period cannot be changed">
+            <Lock className="h-3 w-3" />
+            Period closed
+          </Badge>
+        ) : hasPendingChange ? (
+          <Badge variant="secondary">Change pending</Badge>
+        ) : (
+          <div className="flex gap-2">
+            {canEdit && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setIsEditing(true)}
+              >
+                <Edit className="h-4 w-4" />
               </Button>
-            </AlertDialogTrigger>
-            <AlertDialogContent>
-              <AlertDialogHeader>
-                <AlertDialogTitle>Delete Issue Entry</AlertDialogTitle>
-                <AlertDialogDescription>
-                  Are you sure you want to delete this issue entry? This will reverse the stock deduction and cannot be undone.
-                </AlertDialogDescription>
-              </AlertDialogHeader>
-              <AlertDialogFooter>
-                <AlertDialogCancel>Cancel</AlertDialogCancel>
-                <AlertDialogAction
-                  onClick={() => deleteMutation.mutate()}
-                  disabled={deleteMutation.isPending}
-                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                >
-                  Delete
-                </AlertDialogAction>
-              </AlertDialogFooter>
-            </AlertDialogContent>
-          </AlertDialog>
-        </div>
+            )}
+            {canDelete && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button size="sm" variant="destructive">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete Issue Entry</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The entry will be deleted and its stock deduction reversed once another user approves the request.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <Input
+                    placeholder="Reason for deleting"
+                    value={deleteReason}
+                    onChange={(e) => setDeleteReason(e.target.value)}
+                  />
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={() => submitRequest('DELETE', undefined, deleteReason)}
+                      disabled={requestChange.isPending}
+                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    >
+                      Request Deletion
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+          </div>
+        )}
       </TableCell>
     </TableRow>
   );
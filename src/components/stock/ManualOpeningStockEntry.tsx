@@ -46,7 +46,8 @@ export function ManualOpeningStockEntry() {
         .upsert({
           item_code: itemCode,
           opening_qty: data.opening_qty,
-          current_qty: data.opening_qty
+          current_qty: data.opening_qty,
+          opening_unit_cost: data.opening_unit_cost
         })
 
       if (stockError) throw stockError
@@ -77,7 +78,8 @@ export function ManualOpeningStockEntry() {
       item_code: isNewItem ? formData.get('new_item_code') : selectedItem,
       item_name: formData.get('item_name') as string,
       uom: formData.get('uom') as string,
-      opening_qty: parseFloat(formData.get('opening_qty') as string)
+      opening_qty: parseFloat(formData.get('opening_qty') as string),
+      opening_unit_cost: formData.get('opening_unit_cost') ? parseFloat(formData.get('opening_unit_cost') as string) : null
     }
 
     createOpeningStockMutation.mutate(data)
@@ -193,16 +195,29 @@ export function ManualOpeningStockEntry() {
             </div>
           )}
 
-          <div className="space-y-2">
-            <Label htmlFor="opening_qty">Opening Quantity *</Label>
-            <Input
-              id="opening_qty"
-              name="opening_qty"
-              type="number"
-              step="0.01"
-              placeholder="0"
-              required
-            />
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="opening_qty">Opening Quantity *</Label>
+              <Input
+                id="opening_qty"
+                name="opening_qty"
+                type="number"
+                step="0.01"
+                placeholder="0"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="opening_unit_cost">Unit Cost (INR)</Label>
+              <Input
+                id="opening_unit_cost"
+                name="opening_unit_cost"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="Used to value opening stock"
+              />
+            </div>
           </div>
 
           <Button 
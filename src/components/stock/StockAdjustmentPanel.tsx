@@ -0,0 +1,454 @@
+import { useState } from "react"
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import type { Tables } from "@/integrations/supabase/types"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ItemCombobox } from "@/components/ui/item-combobox"
+import { LocationSelect } from "@/components/locations/LocationSelect"
+import { useItemsWithStock } from "@/hooks/useItemsWithStock"
+import { usePermissions } from "@/hooks/usePermission"
+import { useAuth } from "@/contexts/AuthContext"
+import { useToast } from "@/hooks/use-toast"
+import { getLocationQty, type LocationStockRow } from "@/utils/locations"
+import {
+  adjustmentReasons,
+  adjustmentStatusLabels,
+  getAdjustmentReason,
+  getAdjustmentReasonLabel,
+  getNextAdjustmentNumber,
+  getSignedAdjustmentQty,
+  type AdjustmentReason,
+  type AdjustmentStatus
+} from "@/utils/adjustments"
+import { Check, RefreshCw, SlidersHorizontal, Trash2, X } from "lucide-react"
+
+type AdjustmentWithDetails = Tables<'stock_adjustment_log'> & {
+  item_master: { item_name: string, uom: string } | null
+  storage_locations: { location_name: string } | null
+}
+
+interface StockAdjustmentPanelProps {
+  locations: Tables<'storage_locations'>[]
+  locationStock: LocationStockRow[]
+}
+
+const today = () => new Date().toISOString().split('T')[0]
+
+const emptyForm = () => ({
+  date: today(),
+  item_code: '',
+  location_id: '',
+  reason: 'DAMAGE' as AdjustmentReason,
+  direction: 'decrease' as 'decrease' | 'increase',
+  qty: '',
+  remarks: ''
+})
+
+const AdjustmentStatusBadge = ({ status }: { status: string }) => {
+  const label = adjustmentStatusLabels[status as AdjustmentStatus] || status
+  switch (status) {
+    case 'APPROVED':
+      return <Badge variant="default" className="bg-green-100 text-green-800">{label}</Badge>
+    case 'PENDING':
+      return <Badge variant="secondary" className="bg-orange-100 text-orange-800">{label}</Badge>
+    case 'REJECTED':
+      return <Badge variant="destructive">{label}</Badge>
+    default:
+      return <Badge variant="outline">{label}</Badge>
+  }
+}
+
+export const StockAdjustmentPanel = ({ locations, locationStock }: StockAdjustmentPanelProps) => {
+  const [form, setForm] = useState(emptyForm)
+  const { user } = useAuth()
+  const { can } = usePermissions()
+  const canApprove = can('inventory', 'approve')
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const { data: items = [], isLoading: itemsLoading } = useItemsWithStock()
+
+  const defaultLocationId = locations.find(location => location.is_default)?.id || ""
+  const locationId = form.location_id || defaultLocationId
+  const selectedItem = items.find(item => item.item_code === form.item_code)
+  const locationQty = form.item_code ? getLocationQty(locationStock, form.item_code, locationId) : 0
+  const reasonDirection = getAdjustmentReason(form.reason)?.direction || 'either'
+
+  const { data: adjustments = [], isLoading } = useQuery({
+    queryKey: ['recent-adjustments'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('stock_adjustment_log')
+        .select('*, item_master(item_name, uom), storage_locations(location_name)')
+        .order('created_at', { ascending: false })
+        .limit(50)
+
+      if (error) throw error
+      return (data || []) as AdjustmentWithDetails[]
+    }
+  })
+
+  const pendingCount = adjustments.filter(adjustment => adjustment.status === 'PENDING').length
+
+  const invalidateStock = () => {
+    queryClient.invalidateQueries({ queryKey: ['recent-adjustments'] })
+    queryClient.invalidateQueries({ queryKey: ['stock-summary'] })
+    queryClient.invalidateQueries({ queryKey: ['items-with-stock'] })
+    queryClient.invalidateQueries({ queryKey: ['location-stock'] })
+    queryClient.invalidateQueries({ queryKey: ['stock-alerts'] })
+  }
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    })
+  }
+
+  const createAdjustmentMutation = useMutation({
+    mutationFn: async () => {
+      const { data: existing, error: numberError } = await supabase
+        .from('stock_adjustment_log')
+        .select('adjustment_number')
+        .like('adjustment_number', `ADJ-${form.date.replace(/-/g, '')}-%`)
+
+      if (numberError) throw numberError
+
+      const { error } = await supabase
+        .from('stock_adjustment_log')
+        .insert({
+          adjustment_number: getNextAdjustmentNumber(existing?.map(row => row.adjustment_number) || [], form.date),
+          date: form.date,
+          item_code: form.item_code,
+          location_id: locationId,
+          reason: form.reason,
+          qty: getSignedAdjustmentQty(form.reason, parseFloat(form.qty), form.direction),
+          remarks: form.remarks.trim()
+        })
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      invalidateStock()
+      toast({
+        title: "Success",
+        description: "Adjustment sent for approval",
+      })
+      setForm(emptyForm())
+    },
+    onError
+  })
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string, status: AdjustmentStatus }) => {
+      const { error } = await supabase
+        .from('stock_adjustment_log')
+        .update({ status })
+        .eq('id', id)
+
+      if (error) throw error
+      return status
+    },
+    onSuccess: (status) => {
+      invalidateStock()
+      toast({
+        title: "Success",
+        description: status === 'APPROVED' ? "Adjustment approved and stock updated" : "Adjustment rejected",
+      })
+    },
+    onError
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('stock_adjustment_log')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      invalidateStock()
+      toast({
+        title: "Success",
+        description: "Adjustment deleted",
+      })
+    },
+    onError
+  })
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const qty = parseFloat(form.qty)
+    const signedQty = getSignedAdjustmentQty(form.reason, qty, form.direction)
+
+    if (!form.item_code || !locationId) {
+      onError(new Error("Item and location are required"))
+      return
+    }
+    if (isNaN(qty) || qty <= 0) {
+      onError(new Error("Quantity must be greater than 0"))
+      return
+    }
+    if (!form.remarks.trim()) {
+      onError(new Error("Remarks are required for every adjustment"))
+      return
+    }
+    if (signedQty < 0 && form.reason !== 'COUNT_CORRECTION' && -signedQty > locationQty) {
+      onError(new Error(`Only ${locationQty} ${selectedItem?.uom || ''} available at this location`))
+      return
+    }
+
+    createAdjustmentMutation.mutate()
+  }
+
+  const handleDelete = (adjustment: AdjustmentWithDetails) => {
+    const note = adjustment.status === 'APPROVED' ? ' Its stock movement will be reversed.' : ''
+    if (window.confirm(`Delete adjustment ${adjustment.adjustment_number}?${note}`)) {
+      deleteMutation.mutate(adjustment.id)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-1">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">How adjustments work</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm text-muted-foreground">
+              <p>Use an adjustment for damage, scrap from a failed run, expired material, samples, write-offs and stock found, instead of an issue.</p>
+              <p>Adjustments you enter wait for someone else to approve them and only then change stock.</p>
+              {pendingCount > 0 && (
+                <p className="font-medium text-orange-600">{pendingCount} adjustments are waiting for approval</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="lg:col-span-2">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <SlidersHorizontal className="mr-2 h-4 w-4" />
+                Adjust Stock
+              </CardTitle>
+              <CardDescription>Record stock lost or found outside receipts and issues</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="adjustment_date">Date *</Label>
+                    <Input
+                      id="adjustment_date"
+                      type="date"
+                      value={form.date}
+                      onChange={(e) => setForm({ ...form, date: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="adjustment_reason">Reason *</Label>
+                    <Select value={form.reason} onValueChange={(value) => setForm({ ...form, reason: value as AdjustmentReason })}>
+                      <SelectTrigger id="adjustment_reason">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {adjustmentReasons.map(reason => (
+                          <SelectItem key={reason.key} value={reason.key}>{reason.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Item *</Label>
+                  <ItemCombobox
+                    items={items}
+                    value={form.item_code}
+                    onValueChange={(itemCode) => setForm({ ...form, item_code: itemCode })}
+                    placeholder="Search and select item..."
+                    showStockLevel={true}
+                    isLoading={itemsLoading}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="adjustment_location">Location *</Label>
+                  <LocationSelect
+                    id="adjustment_location"
+                    locations={locations}
+                    value={locationId}
+                    onValueChange={(value) => setForm({ ...form, location_id: value })}
+                  />
+                </div>
+
+                {selectedItem && (
+                  <div className="p-3 bg-muted rounded-lg text-sm text-muted-foreground">
+                    Available at location: <span className="font-medium text-foreground">{locationQty} {selectedItem.uom}</span>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="adjustment_direction">Direction</Label>
+                    <Select
+                      value={reasonDirection === 'either' ? form.direction : reasonDirection}
+                      onValueChange={(value) => setForm({ ...form, direction: value as 'decrease' | 'increase' })}
+                      disabled={reasonDirection !== 'either'}
+                    >
+                      <SelectTrigger id="adjustment_direction">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="decrease">Reduce stock (−)</SelectItem>
+                        <SelectItem value="increase">Add stock (+)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="adjustment_qty">Quantity *</Label>
+                    <Input
+                      id="adjustment_qty"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="0"
+                      value={form.qty}
+                      onChange={(e) => setForm({ ...form, qty: e.target.value })}
+                      required
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="adjustment_remarks">Remarks *</Label>
+                  <Textarea
+                    id="adjustment_remarks"
+                    value={form.remarks}
+                    onChange={(e) => setForm({ ...form, remarks: e.target.value })}
+                    placeholder="What happened, job or roll affected..."
+                    required
+                  />
+                </div>
+
+                <Button type="submit" className="w-full" disabled={createAdjustmentMutation.isPending || !form.item_code || !can('inventory', 'create')}>
+                  {createAdjustmentMutation.isPending ? "Processing..." : "Submit for Approval"}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Adjustments</CardTitle>
+          <CardDescription>Approve pending adjustments; approved ones have already changed stock</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Adjustment #</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Quantity</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Remarks</TableHead>
+                  <TableHead>Status</TableHead>
+                  {canApprove && <TableHead>Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={canApprove ? 9 : 8} className="text-center py-8">
+                      <RefreshCw className="h-4 w-4 animate-spin mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : adjustments.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={canApprove ? 9 : 8} className="text-center py-8 text-muted-foreground">
+                      No stock adjustments yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  adjustments.map(adjustment => (
+                    <TableRow key={adjustment.id}>
+                      <TableCell className="font-mono text-sm">{adjustment.adjustment_number}</TableCell>
+                      <TableCell>{adjustment.date}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{adjustment.item_master?.item_name}</div>
+                        <div className="text-xs text-muted-foreground font-mono">{adjustment.item_code}</div>
+                      </TableCell>
+                      <TableCell className={`font-mono ${adjustment.qty < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {adjustment.qty > 0 ? '+' : ''}{adjustment.qty} {adjustment.item_master?.uom}
+                      </TableCell>
+                      <TableCell>{adjustment.storage_locations?.location_name || '-'}</TableCell>
+                      <TableCell>{getAdjustmentReasonLabel(adjustment.reason)}</TableCell>
+                      <TableCell className="max-w-xs truncate" title={adjustment.remarks}>{adjustment.remarks}</TableCell>
+                      <TableCell><AdjustmentStatusBadge status={adjustment.status} /></TableCell>
+                      {canApprove && (
+                        <TableCell>
+                          <div className="flex gap-1">
+                            {adjustment.status === 'PENDING' && adjustment.created_by !== user?.id && (
+                              <>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  title="Approve"
+                                  onClick={() => reviewMutation.mutate({ id: adjustment.id, status: 'APPROVED' })}
+                                  disabled={reviewMutation.isPending}
+                                >
+                                  <Check className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  title="Reject"
+                                  onClick={() => reviewMutation.mutate({ id: adjustment.id, status: 'REJECTED' })}
+                                  disabled={reviewMutation.isPending}
+                                >
+                                  <X className="h-4 w-4" />
+                                </Button>
+                              </>
+                            )}
+                            {!adjustment.count_id && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                title="Delete"
+                                onClick={() => handleDelete(adjustment)}
+                                disabled={deleteMutation.isPending}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,25 @@
+import { Badge } from "@/components/ui/badge"
+import { getStockStatus, stockStatusLabels, type StockLevels } from "@/utils/stockStatus"
+
+interface StockStatusBadgeProps {
+  item: Pick<StockLevels, 'stock_status'>
+}
+
+export const StockStatusBadge = ({ item }: StockStatusBadgeProps) => {
+  const status = getStockStatus(item)
+  const label = stockStatusLabels[status]
+
+  switch (status) {
+    case 'OUT_OF_STOCK':
+    case 'CRITICAL':
+      return <Badge variant="destructive">{label}</Badge>
+    case 'LOW':
+      return <Badge variant="secondary" className="bg-orange-100 text-orange-800">{label}</Badge>
+    case 'OVERSTOCK':
+      return <Badge variant="secondary" className="bg-blue-100 text-blue-800">{label}</Badge>
+    case 'NORMAL':
+      return <Badge variant="default" className="bg-green-100 text-green-800">{label}</Badge>
+    default:
+      return <Badge variant="outline">{label}</Badge>
+  }
+}
@@ -0,0 +1,298 @@
+import { useMemo, useState } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { useAuth } from "@/contexts/AuthContext"
+import { usePermission } from "@/hooks/usePermission"
+import { useVendors } from "@/hooks/useVendors"
+import { useSaveTallyName, useTallyNames } from "@/hooks/useTallyMappings"
+import { useSystemSettings, useUpdateSystemSettings } from "@/hooks/useSystemSettings"
+import type { TallyMappingType, TallySettings } from "@/utils/tallyXml"
+import { RefreshCw, Save, Search } from "lucide-react"
+
+interface MappingRow {
+  sourceKey: string
+  label: string
+  fallback: string
+}
+
+interface MappingTableProps {
+  title: string
+  description: string
+  sourceLabel: string
+  mappingType: TallyMappingType
+  rows: MappingRow[]
+  names: Map<string, string>
+  isLoading: boolean
+}
+
+const MappingTable = ({ title, description, sourceLabel, mappingType, rows, names, isLoading }: MappingTableProps) => {
+  const { toast } = useToast()
+  const saveName = useSaveTallyName()
+  const canEdit = usePermission('imports', 'edit')
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const [searchTerm, setSearchTerm] = useState("")
+  const [unmappedOnly, setUnmappedOnly] = useState(false)
+
+  const filteredRows = rows.filter(row => {
+    if (unmappedOnly && names.has(row.sourceKey)) return false
+    const term = searchTerm.toLowerCase()
+    return !term || row.sourceKey.toLowerCase().includes(term) || row.label.toLowerCase().includes(term)
+  })
+
+  const handleSave = (row: MappingRow) => {
+    saveName.mutate(
+      { mappingType, sourceKey: row.sourceKey, tallyName: drafts[row.sourceKey] ?? '' },
+      {
+        onSuccess: () => {
+          setDrafts(prev => {
+            const next = { ...prev }
+            delete next[row.sourceKey]
+            return next
+          })
+        },
+        onError: (error) => {
+          toast({
+            title: "Error",
+            description: error.message,
+            variant: "destructive",
+          })
+        }
+      }
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="relative flex-1 min-w-48">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+            <Input
+              placeholder={`Search ${sourceLabel.toLowerCase()}...`}
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id={`${mappingType}-unmapped`}
+              checked={unmappedOnly}
+              onCheckedChange={(checked) => setUnmappedOnly(checked === true)}
+            />
+            <Label htmlFor={`${mappingType}-unmapped`}>Unmapped only</Label>
+          </div>
+        </div>
+
+        <div className="rounded-md border max-h-96 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{sourceLabel}</TableHead>
+                <TableHead>Tally Name</TableHead>
+                <TableHead className="w-24"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center py-8">
+                    <RefreshCw className="h-4 w-4 animate-spin mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : filteredRows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center py-8 text-muted-foreground">
+                    Nothing to map
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filteredRows.map(row => {
+                  const saved = names.get(row.sourceKey) || ''
+                  const value = drafts[row.sourceKey] ?? saved
+                  return (
+                    <TableRow key={row.sourceKey}>
+                      <TableCell>
+                        <div className="font-medium">{row.label}</div>
+                        {row.label !== row.sourceKey && (
+                          <div className="font-mono text-xs text-muted-foreground">{row.sourceKey}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={value}
+                          placeholder={row.fallback}
+                          disabled={!canEdit}
+                          onChange={(e) => setDrafts(prev => ({ ...prev, [row.sourceKey]: e.target.value }))}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleSave(row)}
+                          disabled={!canEdit || value === saved || saveName.isPending}
+                        >
+                          <Save className="h-4 w-4 mr-1" />
+                          Save
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+const TallySettingsForm = ({ settings }: { settings: TallySettings }) => {
+  const { toast } = useToast()
+  const saveSettings = useUpdateSystemSettings()
+  const [form, setForm] = useState(settings)
+
+  const handleSave = () => {
+    if (!form.purchase_ledger.trim() || !form.godown.trim()) {
+      toast({
+        title: "Error",
+        description: "Purchase ledger and godown are required",
+        variant: "destructive",
+      })
+      return
+    }
+
+    saveSettings.mutate({ tally_export: form }, {
+      onSuccess: () => {
+        toast({
+          title: "Tally Settings Saved",
+          description: "New exports will use these names",
+        })
+      },
+      onError: (error) => {
+        toast({
+          title: "Error",
+          description: error.message,
+          variant: "destructive",
+        })
+      }
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Tally Company</CardTitle>
+        <CardDescription>Names from the Tally company the vouchers are imported into</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="tally-company">Company Name</Label>
+            <Input
+              id="tally-company"
+              value={form.company_name}
+              placeholder="Currently open company"
+              onChange={(e) => setForm(prev => ({ ...prev, company_name: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="tally-purchase-ledger">Purchase Ledger</Label>
+            <Input
+              id="tally-purchase-ledger"
+              value={form.purchase_ledger}
+              onChange={(e) => setForm(prev => ({ ...prev, purchase_ledger: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="tally-godown">Godown</Label>
+            <Input
+              id="tally-godown"
+              value={form.godown}
+              onChange={(e) => setForm(prev => ({ ...prev, godown: e.target.value }))}
+            />
+          </div>
+        </div>
+        <Button onClick={handleSave} disabled={saveSettings.isPending}>
+          <Save className="h-4 w-4 mr-2" />
+          {saveSettings.isPending ? "Saving..." : "Save Settings"}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
+
+// Ledger and stock item names as they appear in Tally, keyed on our vendor names and item codes.
+// The company settings live in system_settings, so only admins see that form.
+export const TallyNameMapping = () => {
+  const { isAdmin } = useAuth()
+  const { data: systemSettings } = useSystemSettings()
+  const settings = systemSettings?.tally_export
+  const { data: names, isLoading: namesLoading } = useTallyNames()
+  const { data: vendors = [], isLoading: vendorsLoading } = useVendors()
+
+  const { data: items = [], isLoading: itemsLoading } = useQuery({
+    queryKey: ['item-master-names'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('item_master')
+        .select('item_code, item_name')
+        .eq('status', 'active')
+        .order('item_code')
+
+      if (error) throw error
+      return data || []
+    }
+  })
+
+  const itemRows = useMemo(
+    () => items.map(item => ({ sourceKey: item.item_code, label: item.item_name, fallback: item.item_name })),
+    [items]
+  )
+
+  // Vendor master plus names mapped earlier, since GRNs carry the vendor as free text
+  const vendorRows = useMemo(() => {
+    const vendorNames = new Set(vendors.map(vendor => vendor.vendor_name))
+    names?.partyLedgers.forEach((_, vendorName) => vendorNames.add(vendorName))
+    return [...vendorNames].sort().map(vendorName => ({ sourceKey: vendorName, label: vendorName, fallback: vendorName }))
+  }, [vendors, names])
+
+  return (
+    <div className="space-y-6">
+      {isAdmin && settings && <TallySettingsForm key={JSON.stringify(settings)} settings={settings} />}
+
+      <MappingTable
+        title="Party Ledgers"
+        description="Tally ledger for each vendor; purchase vouchers are posted against it"
+        sourceLabel="Vendor"
+        mappingType="party_ledger"
+        rows={vendorRows}
+        names={names?.partyLedgers || new Map()}
+        isLoading={vendorsLoading || namesLoading}
+      />
+
+      <MappingTable
+        title="Stock Items"
+        description="Tally stock item for each item code; blank uses the item name"
+        sourceLabel="Item"
+        mappingType="stock_item"
+        rows={itemRows}
+        names={names?.stockItems || new Map()}
+        isLoading={itemsLoading || namesLoading}
+      />
+    </div>
+  )
+}
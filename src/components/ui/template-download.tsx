@@ -1,7 +1,8 @@
 
 import { Button } from "@/components/ui/button";
-import { Download, FileText } from "lucide-react";
+import { Download, FileSpreadsheet, FileText } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useExcelTemplate } from "@/hooks/useExcelTemplate";
 import { downloadCSVTemplate, templateConfigs } from "@/utils/templateGenerator";
 
 interface TemplateDownloadProps {
@@ -22,6 +23,7 @@ export const TemplateDownload = ({
   showPreview = true 
 }: TemplateDownloadProps) => {
   const config = templateConfigs[templateType];
+  const { downloadExcelTemplate, isDownloading } = useExcelTemplate();
 
   const handleDownload = () => {
     downloadCSVTemplate(templateType);
@@ -29,15 +31,26 @@ export const TemplateDownload = ({
 
   return (
     <div className="space-y-3">
-      <Button
-        onClick={handleDownload}
-        variant={variant}
-        size={size}
-        className="w-full"
-      >
-        <Download className="mr-2 h-4 w-4" />
-        {title}
-      </Button>
+      <div className="flex gap-2">
+        <Button
+          onClick={handleDownload}
+          variant={variant}
+          size={size}
+          className="flex-1"
+        >
+          <Download className="mr-2 h-4 w-4" />
+          {title}
+        </Button>
+        <Button
+          onClick={() => downloadExcelTemplate(templateType)}
+          variant={variant}
+          size={size}
+          disabled={isDownloading}
+        >
+          <FileSpreadsheet className="mr-2 h-4 w-4" />
+          Excel
+        </Button>
+      </div>
       
       {showPreview && (
         <Card className="border-dashed">
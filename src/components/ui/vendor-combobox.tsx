@@ -0,0 +1,147 @@
+import * as React from "react"
+import { Check, ChevronsUpDown, Building2, Loader2 } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command"
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover"
+import { Badge } from "@/components/ui/badge"
+
+interface VendorComboboxProps {
+  vendors: Array<{
+    id: string
+    vendor_name: string
+    gstin?: string | null
+    lead_time_days?: number | null
+    status?: string
+  }>
+  value: string
+  onValueChange: (value: string) => void
+  placeholder?: string
+  disabled?: boolean
+  className?: string
+  isLoading?: boolean
+}
+
+export function VendorCombobox({
+  vendors,
+  value,
+  onValueChange,
+  placeholder = "Select vendor...",
+  disabled = false,
+  className,
+  isLoading = false
+}: VendorComboboxProps) {
+  const [open, setOpen] = React.useState(false)
+  const [search, setSearch] = React.useState("")
+
+  const selectedVendor = vendors.find(vendor => vendor.id === value)
+
+  const filteredVendors = vendors.filter(vendor =>
+    (vendor.status !== 'inactive' || vendor.id === value) && (
+      vendor.vendor_name.toLowerCase().includes(search.toLowerCase()) ||
+      vendor.gstin?.toLowerCase().includes(search.toLowerCase())
+    )
+  )
+
+  if (isLoading) {
+    return (
+      <Button
+        variant="outline"
+        disabled
+        className={cn("w-full justify-between", className)}
+      >
+        <div className="flex items-center gap-2">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span>Loading vendors...</span>
+        </div>
+        <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+      </Button>
+    )
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className={cn("w-full justify-between", className)}
+          disabled={disabled}
+        >
+          {selectedVendor ? (
+            <div className="flex items-center gap-2 truncate">
+              <Building2 className="h-4 w-4 text-muted-foreground" />
+              <span className="truncate font-medium">{selectedVendor.vendor_name}</span>
+            </div>
+          ) : (
+            <span className="text-muted-foreground">{placeholder}</span>
+          )}
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[400px] p-0">
+        <Command shouldFilter={false}>
+          <CommandInput
+            placeholder="Search vendors or GSTIN..."
+            value={search}
+            onValueChange={setSearch}
+          />
+          <CommandList>
+            <CommandEmpty>
+              {vendors.length === 0 ?
+                "No vendors found. Add vendors from the Vendors page." :
+                "No vendors match your search."
+              }
+            </CommandEmpty>
+            <CommandGroup>
+              {filteredVendors.map((vendor) => (
+                <CommandItem
+                  key={vendor.id}
+                  value={vendor.id}
+                  onSelect={(currentValue) => {
+                    onValueChange(currentValue === value ? "" : currentValue)
+                    setOpen(false)
+                  }}
+                  className="flex items-center justify-between p-3"
+                >
+                  <div className="flex items-center gap-2 flex-1 min-w-0">
+                    <Check
+                      className={cn(
+                        "h-4 w-4",
+                        value === vendor.id ? "opacity-100" : "opacity-0"
+                      )}
+                    />
+                    <Building2 className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium truncate">{vendor.vendor_name}</div>
+                      {vendor.gstin && (
+                        <div className="text-sm text-muted-foreground">{vendor.gstin}</div>
+                      )}
+                    </div>
+                  </div>
+                  {vendor.lead_time_days != null && (
+                    <Badge variant="secondary" className="text-xs flex-shrink-0">
+                      {vendor.lead_time_days}d lead
+                    </Badge>
+                  )}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,264 @@
+import { useEffect, useState } from "react"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import type { Tables } from "@/integrations/supabase/types"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useToast } from "@/hooks/use-toast"
+import { GSTIN_PATTERN } from "@/utils/vendorMatching"
+
+const paymentTermsOptions = ['Advance', 'Immediate', 'Net 7', 'Net 15', 'Net 30', 'Net 45', 'Net 60', 'Net 90']
+
+const emptyForm = {
+  vendor_name: '',
+  gstin: '',
+  contact_person: '',
+  phone: '',
+  email: '',
+  address: '',
+  payment_terms: '',
+  lead_time_days: '',
+  status: 'active'
+}
+
+interface VendorFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  vendor?: Tables<'vendors'> | null
+  defaultName?: string
+  onSaved?: (vendor: Tables<'vendors'>) => void
+}
+
+export const VendorFormDialog = ({ open, onOpenChange, vendor, defaultName, onSaved }: VendorFormDialogProps) => {
+  const [form, setForm] = useState(emptyForm)
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    if (!open) return
+    setForm(vendor ? {
+      vendor_name: vendor.vendor_name,
+      gstin: vendor.gstin || '',
+      contact_person: vendor.contact_person || '',
+      phone: vendor.phone || '',
+      email: vendor.email || '',
+      address: vendor.address || '',
+      payment_terms: vendor.payment_terms || '',
+      lead_time_days: vendor.lead_time_days?.toString() || '',
+      status: vendor.status
+    } : { ...emptyForm, vendor_name: defaultName || '' })
+  }, [open, vendor, defaultName])
+
+  const saveVendorMutation = useMutation({
+    mutationFn: async () => {
+      const vendorData = {
+        vendor_name: form.vendor_name.trim(),
+        gstin: form.gstin.trim().toUpperCase() || null,
+        contact_person: form.contact_person.trim() || null,
+        phone: form.phone.trim() || null,
+        email: form.email.trim() || null,
+        address: form.address.trim() || null,
+        payment_terms: form.payment_terms || null,
+        lead_time_days: form.lead_time_days ? parseInt(form.lead_time_days) : null,
+        status: form.status
+      }
+
+      const query = vendor
+        ? supabase.from('vendors').update(vendorData).eq('id', vendor.id)
+        : supabase.from('vendors').insert(vendorData)
+
+      const { data, error } = await query.select().single()
+      if (error) throw error
+      return data
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['vendors'] })
+      queryClient.invalidateQueries({ queryKey: ['vendor-purchase-summary'] })
+      toast({
+        title: "Success",
+        description: `Vendor ${vendor ? 'updated' : 'created'} successfully`,
+      })
+      onOpenChange(false)
+      onSaved?.(saved)
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  })
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!form.vendor_name.trim()) {
+      toast({
+        title: "Error",
+        description: "Vendor name is required",
+        variant: "destructive",
+      })
+      return
+    }
+
+    if (form.gstin.trim() && !GSTIN_PATTERN.test(form.gstin.trim().toUpperCase())) {
+      toast({
+        title: "Error",
+        description: "GSTIN must be 15 characters, e.g. 27AAPFU0939F1ZV",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const leadTime = form.lead_time_days ? Number(form.lead_time_days) : 0
+    if (!Number.isInteger(leadTime) || leadTime < 0) {
+      toast({
+        title: "Error",
+        description: "Lead time must be a whole number of days",
+        variant: "destructive",
+      })
+      return
+    }
+
+    saveVendorMutation.mutate()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{vendor ? 'Edit Vendor' : 'Create New Vendor'}</DialogTitle>
+          <DialogDescription>
+            {vendor ? 'Update vendor details' : 'Add a supplier to the vendor master'}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="vendor-name">Vendor Name *</Label>
+              <Input
+                id="vendor-name"
+                value={form.vendor_name}
+                onChange={(e) => setForm({ ...form, vendor_name: e.target.value })}
+                placeholder="ABC Suppliers Pvt Ltd"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vendor-gstin">GSTIN</Label>
+              <Input
+                id="vendor-gstin"
+                value={form.gstin}
+                onChange={(e) => setForm({ ...form, gstin: e.target.value.toUpperCase() })}
+                placeholder="27AAPFU0939F1ZV"
+                maxLength={15}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="vendor-contact">Contact Person</Label>
+              <Input
+                id="vendor-contact"
+                value={form.contact_person}
+                onChange={(e) => setForm({ ...form, contact_person: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vendor-phone">Phone</Label>
+              <Input
+                id="vendor-phone"
+                value={form.phone}
+                onChange={(e) => setForm({ ...form, phone: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vendor-email">Email</Label>
+              <Input
+                id="vendor-email"
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="vendor-address">Address</Label>
+            <Textarea
+              id="vendor-address"
+              value={form.address}
+              onChange={(e) => setForm({ ...form, address: e.target.value })}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="vendor-terms">Payment Terms</Label>
+              <Select
+                value={form.payment_terms}
+                onValueChange={(value) => setForm({ ...form, payment_terms: value })}
+              >
+                <SelectTrigger id="vendor-terms">
+                  <SelectValue placeholder="Select terms" />
+                </SelectTrigger>
+                <SelectContent>
+                  {paymentTermsOptions.map(term => (
+                    <SelectItem key={term} value={term}>{term}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vendor-lead-time">Lead Time (days)</Label>
+              <Input
+                id="vendor-lead-time"
+                type="number"
+                min="0"
+                step="1"
+                value={form.lead_time_days}
+                onChange={(e) => setForm({ ...form, lead_time_days: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vendor-status">Status</Label>
+              <Select
+                value={form.status}
+                onValueChange={(value) => setForm({ ...form, status: value })}
+              >
+                <SelectTrigger id="vendor-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="active">Active</SelectItem>
+                  <SelectItem value="inactive">Inactive</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveVendorMutation.isPending}>
+              {saveVendorMutation.isPending ? "Saving..." : vendor ? "Update Vendor" : "Create Vendor"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
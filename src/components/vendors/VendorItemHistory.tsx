@@ -0,0 +1,79 @@
+import { useQuery } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { RefreshCw } from "lucide-react"
+
+interface VendorItemHistoryProps {
+  vendorId: string
+}
+
+export const VendorItemHistory = ({ vendorId }: VendorItemHistoryProps) => {
+  const { data: history = [], isLoading } = useQuery({
+    queryKey: ['vendor-item-history', vendorId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('vendor_item_purchase_history')
+        .select('*')
+        .eq('vendor_id', vendorId)
+        .order('last_purchase_date', { ascending: false })
+
+      if (error) throw error
+      return data || []
+    }
+  })
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Item</TableHead>
+            <TableHead>GRNs</TableHead>
+            <TableHead>Total Qty</TableHead>
+            <TableHead>Spend (INR)</TableHead>
+            <TableHead>Avg Rate</TableHead>
+            <TableHead>Last Rate</TableHead>
+            <TableHead>Last Purchase</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {isLoading ? (
+            <TableRow>
+              <TableCell colSpan={7} className="text-center py-8">
+                <RefreshCw className="h-4 w-4 animate-spin mx-auto" />
+              </TableCell>
+            </TableRow>
+          ) : history.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                No receipts recorded for this vendor
+              </TableCell>
+            </TableRow>
+          ) : (
+            history.map(row => (
+              <TableRow key={row.item_code}>
+                <TableCell>
+                  <div className="font-medium">{row.item_name}</div>
+                  <div className="text-xs text-muted-foreground">{row.item_code}</div>
+                </TableCell>
+                <TableCell>{row.grn_count}</TableCell>
+                <TableCell>{row.total_qty} {row.uom}</TableCell>
+                <TableCell>₹{(row.total_amount || 0).toLocaleString()}</TableCell>
+                <TableCell>{row.avg_rate != null ? `₹${row.avg_rate}` : '-'}</TableCell>
+                <TableCell>
+                  {row.last_rate != null ? (
+                    <div>
+                      <div className="font-medium">₹{row.last_rate}</div>
+                      <div className="text-xs text-muted-foreground">{row.last_rate_date}</div>
+                    </div>
+                  ) : '-'}
+                </TableCell>
+                <TableCell>{row.last_purchase_date || '-'}</TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
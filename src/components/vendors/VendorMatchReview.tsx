@@ -0,0 +1,252 @@
+import { useMemo, useState } from "react"
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { VendorCombobox } from "@/components/ui/vendor-combobox"
+import { VendorFormDialog } from "@/components/vendors/VendorFormDialog"
+import { useVendors } from "@/hooks/useVendors"
+import { useToast } from "@/hooks/use-toast"
+import { findBestVendorMatch } from "@/utils/vendorMatching"
+import { AlertTriangle, CheckCircle, Link2, Plus, RefreshCw } from "lucide-react"
+
+// Suggestions at or above this score are applied by "Link all confident matches"
+const CONFIDENT_MATCH_SCORE = 0.9
+const PAGE_SIZE = 1000
+
+interface UnlinkedVendor {
+  raw_name: string
+  grn_count: number
+  total_amount: number
+}
+
+export const VendorMatchReview = () => {
+  const [targets, setTargets] = useState<Record<string, string>>({})
+  const [createFor, setCreateFor] = useState<string | null>(null)
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const { data: vendors = [], isLoading: vendorsLoading } = useVendors()
+
+  const { data: unlinked = [], isLoading, error, refetch } = useQuery({
+    queryKey: ['unlinked-grn-vendors'],
+    queryFn: async () => {
+      const totals = new Map<string, UnlinkedVendor>()
+
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('grn_log')
+          .select('vendor, amount_inr')
+          .is('vendor_id', null)
+          .not('vendor', 'is', null)
+          .range(from, from + PAGE_SIZE - 1)
+
+        if (error) throw error
+
+        data?.forEach(row => {
+          const raw = row.vendor?.trim()
+          if (!raw) return
+          const entry = totals.get(row.vendor as string) || { raw_name: row.vendor as string, grn_count: 0, total_amount: 0 }
+          entry.grn_count++
+          entry.total_amount += row.amount_inr || 0
+          totals.set(row.vendor as string, entry)
+        })
+
+        if (!data || data.length < PAGE_SIZE) break
+      }
+
+      return [...totals.values()].sort((a, b) => b.grn_count - a.grn_count)
+    }
+  })
+
+  const suggestions = useMemo(() => {
+    const result: Record<string, { vendorId: string, vendorName: string, score: number } | null> = {}
+    unlinked.forEach(entry => {
+      const match = findBestVendorMatch(entry.raw_name, vendors)
+      result[entry.raw_name] = match
+        ? { vendorId: match.vendor.id, vendorName: match.vendor.vendor_name, score: match.score }
+        : null
+    })
+    return result
+  }, [unlinked, vendors])
+
+  const getTarget = (rawName: string) => targets[rawName] ?? suggestions[rawName]?.vendorId ?? ''
+
+  const linkMutation = useMutation({
+    mutationFn: async (links: { rawName: string, vendorId: string }[]) => {
+      let linkedRows = 0
+      for (const { rawName, vendorId } of links) {
+        const vendor = vendors.find(v => v.id === vendorId)
+        if (!vendor) continue
+
+        const { data, error } = await supabase
+          .from('grn_log')
+          .update({ vendor_id: vendor.id, vendor: vendor.vendor_name })
+          .eq('vendor', rawName)
+          .is('vendor_id', null)
+          .select('id')
+
+        if (error) throw error
+        linkedRows += data?.length || 0
+      }
+      return linkedRows
+    },
+    onSuccess: (linkedRows) => {
+      queryClient.invalidateQueries({ queryKey: ['unlinked-grn-vendors'] })
+      queryClient.invalidateQueries({ queryKey: ['vendor-purchase-summary'] })
+      queryClient.invalidateQueries({ queryKey: ['recent-grn'] })
+      toast({
+        title: "Success",
+        description: `Linked ${linkedRows} GRN entries to vendors`,
+      })
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  })
+
+  const confidentLinks = unlinked
+    .filter(entry => !(entry.raw_name in targets) && (suggestions[entry.raw_name]?.score || 0) >= CONFIDENT_MATCH_SCORE)
+    .map(entry => ({ rawName: entry.raw_name, vendorId: suggestions[entry.raw_name]!.vendorId }))
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertDescription>
+          Error loading GRN vendors: {error.message}
+          <Button variant="outline" size="sm" onClick={() => refetch()} className="ml-2">
+            <RefreshCw className="h-4 w-4 mr-1" />
+            Retry
+          </Button>
+        </AlertDescription>
+      </Alert>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>Link Legacy GRN Vendors</CardTitle>
+            <CardDescription>
+              Free-text vendor names on GRNs that are not linked to the vendor master. Review the suggested match,
+              pick a different vendor or create a new one, then link.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => refetch()}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+            <Button
+              onClick={() => linkMutation.mutate(confidentLinks)}
+              disabled={confidentLinks.length === 0 || linkMutation.isPending}
+            >
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Link {confidentLinks.length} Confident Matches
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>GRN Vendor Text</TableHead>
+                <TableHead>GRNs</TableHead>
+                <TableHead>Amount (INR)</TableHead>
+                <TableHead>Suggested Match</TableHead>
+                <TableHead className="w-[260px]">Link To</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8">
+                    <RefreshCw className="h-4 w-4 animate-spin mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : unlinked.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    All GRN vendors are linked to the vendor master
+                  </TableCell>
+                </TableRow>
+              ) : (
+                unlinked.map(entry => {
+                  const suggestion = suggestions[entry.raw_name]
+                  const target = getTarget(entry.raw_name)
+                  return (
+                    <TableRow key={entry.raw_name}>
+                      <TableCell className="font-medium">{entry.raw_name}</TableCell>
+                      <TableCell>{entry.grn_count}</TableCell>
+                      <TableCell>₹{entry.total_amount.toLocaleString()}</TableCell>
+                      <TableCell>
+                        {suggestion ? (
+                          <div className="flex items-center gap-2">
+                            <span>{suggestion.vendorName}</span>
+                            <Badge variant={suggestion.score >= CONFIDENT_MATCH_SCORE ? "default" : "secondary"}>
+                              {Math.round(suggestion.score * 100)}%
+                            </Badge>
+                          </div>
+                        ) : (
+                          <span className="text-muted-foreground">No close match</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <VendorCombobox
+                          vendors={vendors}
+                          value={target}
+                          onValueChange={(vendorId) => setTargets({ ...targets, [entry.raw_name]: vendorId })}
+                          isLoading={vendorsLoading}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            onClick={() => linkMutation.mutate([{ rawName: entry.raw_name, vendorId: target }])}
+                            disabled={!target || linkMutation.isPending}
+                          >
+                            <Link2 className="h-4 w-4 mr-1" />
+                            Link
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setCreateFor(entry.raw_name)}
+                          >
+                            <Plus className="h-4 w-4 mr-1" />
+                            New
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <VendorFormDialog
+        open={createFor !== null}
+        onOpenChange={(open) => !open && setCreateFor(null)}
+        defaultName={createFor || ''}
+        onSaved={(vendor) => createFor && setTargets({ ...targets, [createFor]: vendor.id })}
+      />
+    </Card>
+  )
+}
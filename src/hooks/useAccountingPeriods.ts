@@ -0,0 +1,59 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { getClosedThroughMonth } from "@/utils/accountingPeriods"
+
+export const useAccountingPeriods = () => {
+  return useQuery({
+    queryKey: ['accounting-periods'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('accounting_periods')
+        .select('*')
+        .order('period_month', { ascending: false })
+
+      if (error) throw error
+      return data || []
+    }
+  })
+}
+
+// Month ('YYYY-MM-01') the books are closed through, for isDateInClosedPeriod
+export const useClosedThroughMonth = () => {
+  const { data: periods } = useAccountingPeriods()
+  return getClosedThroughMonth(periods || [])
+}
+
+const useInvalidatePeriods = () => {
+  const queryClient = useQueryClient()
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ['accounting-periods'] })
+    queryClient.invalidateQueries({ queryKey: ['audit-trail'] })
+  }
+}
+
+export const useCloseAccountingPeriod = () => {
+  const invalidate = useInvalidatePeriods()
+
+  return useMutation({
+    mutationFn: async (periodMonth: string) => {
+      const { error } = await supabase.rpc('close_accounting_period', { p_period_month: periodMonth })
+      if (error) throw error
+    },
+    onSuccess: invalidate
+  })
+}
+
+export const useReopenAccountingPeriod = () => {
+  const invalidate = useInvalidatePeriods()
+
+  return useMutation({
+    mutationFn: async ({ periodMonth, reason }: { periodMonth: string, reason: string }) => {
+      const { error } = await supabase.rpc('reopen_accounting_period', {
+        p_period_month: periodMonth,
+        p_reason: reason,
+      })
+      if (error) throw error
+    },
+    onSuccess: invalidate
+  })
+}
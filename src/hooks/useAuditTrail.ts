@@ -0,0 +1,84 @@
+import { useQuery } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { masterDataSources, toAuditEntry, type AuditEntry, type AuditSource } from "@/utils/auditTrail"
+
+export interface AuditTrailFilters {
+  source: AuditSource | 'ALL'
+  userId: string | null
+  fromDate: string
+  toDate: string
+  itemCode: string
+}
+
+const ROW_LIMIT = 500
+
+// Audit rows from every log the user can read (RLS decides), newest first
+export const useAuditTrail = (filters: AuditTrailFilters) => {
+  return useQuery({
+    queryKey: ['audit-trail', filters],
+    queryFn: async () => {
+      const { source, userId, fromDate, toDate } = filters
+      const itemCode = filters.itemCode.trim()
+      const itemFilter = `old_values->>item_code.eq."${itemCode}",new_values->>item_code.eq."${itemCode}"`
+      const wants = (candidate: AuditSource) => source === 'ALL' || source === candidate
+
+      const grnQuery = () => {
+        let query = supabase.from('grn_audit_log').select('*')
+        if (fromDate) query = query.gte('created_at', fromDate)
+        if (toDate) query = query.lte('created_at', `${toDate}T23:59:59.999`)
+        if (userId) query = query.eq('user_id', userId)
+        if (itemCode) query = query.or(itemFilter)
+        return query.order('created_at', { ascending: false }).limit(ROW_LIMIT)
+      }
+
+      const issueQuery = () => {
+        let query = supabase.from('issue_audit_log').select('*')
+        if (fromDate) query = query.gte('created_at', fromDate)
+        if (toDate) query = query.lte('created_at', `${toDate}T23:59:59.999`)
+        if (userId) query = query.eq('user_id', userId)
+        if (itemCode) query = query.or(itemFilter)
+        return query.order('created_at', { ascending: false }).limit(ROW_LIMIT)
+      }
+
+      // Only items and stock are keyed by item code
+      const masterTables = masterDataSources
+        .filter(wants)
+        .filter(table => !itemCode || table === 'item_master' || table === 'stock')
+
+      const masterQuery = () => {
+        let query = supabase.from('master_data_audit_log').select('*').in('table_name', masterTables)
+        if (fromDate) query = query.gte('created_at', fromDate)
+        if (toDate) query = query.lte('created_at', `${toDate}T23:59:59.999`)
+        if (userId) query = query.eq('user_id', userId)
+        if (itemCode) query = query.eq('record_key', itemCode)
+        return query.order('created_at', { ascending: false }).limit(ROW_LIMIT)
+      }
+
+      const [grnResult, issueResult, masterResult] = await Promise.all([
+        wants('grn') ? grnQuery() : null,
+        wants('issue') ? issueQuery() : null,
+        masterTables.length > 0 ? masterQuery() : null,
+      ])
+
+      const failed = [grnResult, issueResult, masterResult].find(result => result?.error)
+      if (failed?.error) throw failed.error
+
+      const entries: AuditEntry[] = [
+        ...(grnResult?.data || []).map(row => toAuditEntry('grn', row, row.grn_id)),
+        ...(issueResult?.data || []).map(row => toAuditEntry('issue', row, row.issue_id)),
+        ...(masterResult?.data || []).map(row => toAuditEntry(row.table_name as AuditSource, row, row.record_key)),
+      ].sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+
+      const userIds = [...new Set(entries.map(entry => entry.userId).filter(Boolean))] as string[]
+      const { data: profiles } = userIds.length > 0
+        ? await supabase.from('profiles').select('id, full_name').in('id', userIds)
+        : { data: [] }
+
+      return {
+        entries,
+        userNames: new Map((profiles || []).map(profile => [profile.id, profile.full_name])),
+        truncated: [grnResult, issueResult, masterResult].some(result => (result?.data?.length || 0) >= ROW_LIMIT),
+      }
+    }
+  })
+}
@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+
+// Every BOM version with its finished item and component lines
+export const useBOMs = () => {
+  return useQuery({
+    queryKey: ['boms'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('bom_headers')
+        .select('*, item_master(item_name, uom), bom_lines(*, item_master(item_name, uom))')
+        .order('item_code')
+        .order('version', { ascending: false })
+
+      if (error) throw error
+      return data || []
+    }
+  })
+}
+
+export type BOMWithLines = NonNullable<ReturnType<typeof useBOMs>['data']>[number]
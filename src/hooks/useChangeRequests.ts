@@ -0,0 +1,110 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { changeEntryKey, type ChangeAction, type ChangeEntryType, type ChangeRequestStatus } from "@/utils/changeRequests"
+import type { Json } from "@/integrations/supabase/types"
+
+// Change requests with requester and reviewer names, newest first
+export const useChangeRequests = (status: ChangeRequestStatus | 'ALL') => {
+  return useQuery({
+    queryKey: ['change-requests', status],
+    queryFn: async () => {
+      let query = supabase
+        .from('transaction_change_requests')
+        .select('*')
+        .order('requested_at', { ascending: false })
+        .limit(200)
+
+      if (status !== 'ALL') query = query.eq('status', status)
+
+      const { data: requests, error } = await query
+      if (error) throw error
+
+      const userIds = [...new Set((requests || []).flatMap(request => [request.requested_by, request.reviewed_by]).filter(Boolean))] as string[]
+      const { data: profiles } = userIds.length > 0
+        ? await supabase.from('profiles').select('id, full_name').in('id', userIds)
+        : { data: [] }
+
+      const userNames = new Map((profiles || []).map(profile => [profile.id, profile.full_name]))
+      return (requests || []).map(request => ({
+        ...request,
+        requested_by_name: userNames.get(request.requested_by) || null,
+        reviewed_by_name: request.reviewed_by ? userNames.get(request.reviewed_by) || null : null,
+      }))
+    }
+  })
+}
+
+// Entries with a change waiting for approval, keyed by changeEntryKey
+export const usePendingChangeEntries = () => {
+  return useQuery({
+    queryKey: ['change-requests', 'pending-entries'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('transaction_change_requests')
+        .select('entry_type, entry_id')
+        .eq('status', 'PENDING')
+
+      if (error) throw error
+      return new Set((data || []).map(request => changeEntryKey(request.entry_type as ChangeEntryType, request.entry_id)))
+    }
+  })
+}
+
+interface RequestEntryChange {
+  entryType: ChangeEntryType
+  entryId: string
+  action: ChangeAction
+  newValues?: Record<string, Json | undefined>
+  reason?: string
+}
+
+export const useRequestEntryChange = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ entryType, entryId, action, newValues, reason }: RequestEntryChange) => {
+      const { data, error } = await supabase.rpc('request_entry_change', {
+        p_entry_type: entryType,
+        p_entry_id: entryId,
+        p_action: action,
+        p_new_values: newValues,
+        p_reason: reason,
+      })
+
+      if (error) throw error
+      return data
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['change-requests'] })
+    }
+  })
+}
+
+// Approving applies the change, so everything stock-related is refreshed
+export const useReviewEntryChange = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ requestId, approve, notes }: { requestId: string, approve: boolean, notes?: string }) => {
+      const { error } = await supabase.rpc('review_entry_change', {
+        p_request_id: requestId,
+        p_approve: approve,
+        p_notes: notes,
+      })
+
+      if (error) throw error
+    },
+    onSuccess: (_, { approve }) => {
+      queryClient.invalidateQueries({ queryKey: ['change-requests'] })
+      if (!approve) return
+      queryClient.invalidateQueries({ queryKey: ['recent-grn'] })
+      queryClient.invalidateQueries({ queryKey: ['recent-issues'] })
+      queryClient.invalidateQueries({ queryKey: ['stock-summary'] })
+      queryClient.invalidateQueries({ queryKey: ['items-with-stock'] })
+      queryClient.invalidateQueries({ queryKey: ['location-stock'] })
+      queryClient.invalidateQueries({ queryKey: ['stock-lots'] })
+      queryClient.invalidateQueries({ queryKey: ['open-po-lines'] })
+      queryClient.invalidateQueries({ queryKey: ['job-costing'] })
+    }
+  })
+}
@@ -0,0 +1,51 @@
+import { useState } from "react"
+import { useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { useToast } from "@/hooks/use-toast"
+import { downloadXLSXTemplate, templateConfigs, uomOptions, type TemplateLists } from "@/utils/templateGenerator"
+
+const fetchTemplateLists = async (): Promise<TemplateLists> => {
+  const [itemsResult, categoriesResult] = await Promise.all([
+    supabase.from('item_master').select('item_code, uom').eq('status', 'active').order('item_code'),
+    supabase.from('categories').select('category_name').order('category_name'),
+  ])
+
+  if (itemsResult.error) throw itemsResult.error
+  if (categoriesResult.error) throw categoriesResult.error
+
+  const items = itemsResult.data || []
+  return {
+    item_code: items.map(item => item.item_code),
+    category: (categoriesResult.data || []).map(category => category.category_name),
+    uom: [...new Set([...uomOptions, ...items.map(item => item.uom).filter(Boolean)])],
+  }
+}
+
+// Excel templates with dropdowns of current item codes, categories and units
+export const useExcelTemplate = () => {
+  const [isDownloading, setIsDownloading] = useState(false)
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  const downloadExcelTemplate = async (templateType: keyof typeof templateConfigs) => {
+    setIsDownloading(true)
+    try {
+      const lists = await queryClient.fetchQuery({
+        queryKey: ['template-lists'],
+        queryFn: fetchTemplateLists,
+        staleTime: 5 * 60 * 1000,
+      })
+      await downloadXLSXTemplate(templateType, lists)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not build the Excel template",
+        variant: "destructive",
+      })
+    } finally {
+      setIsDownloading(false)
+    }
+  }
+
+  return { downloadExcelTemplate, isDownloading }
+}
@@ -0,0 +1,71 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { useAuth } from "@/contexts/AuthContext"
+import type { ColumnMap, ColumnMapping, DateFormat, DecimalSeparator } from "@/utils/columnMapping"
+
+export interface ImportMappingProfile extends ColumnMapping {
+  id: string
+  profileName: string
+  headerSignature: string
+  sourceHeaders: string[]
+}
+
+interface SaveProfileInput extends ColumnMapping {
+  profileName: string
+  headerSignature: string
+  sourceHeaders: string[]
+}
+
+// Saved column mappings for one uploader's template, newest first so a re-saved layout wins
+export const useImportMappingProfiles = (templateType: string | undefined) => {
+  return useQuery({
+    queryKey: ['import-mapping-profiles', templateType],
+    enabled: !!templateType,
+    queryFn: async (): Promise<ImportMappingProfile[]> => {
+      const { data, error } = await supabase
+        .from('import_mapping_profiles')
+        .select('*')
+        .eq('template_type', templateType ?? '')
+        .order('updated_at', { ascending: false })
+
+      if (error) throw error
+      return (data || []).map(profile => ({
+        id: profile.id,
+        profileName: profile.profile_name,
+        headerSignature: profile.header_signature,
+        sourceHeaders: profile.source_headers,
+        columnMap: (profile.column_map || {}) as ColumnMap,
+        dateFormat: profile.date_format as DateFormat,
+        decimalSeparator: profile.decimal_separator as DecimalSeparator,
+      }))
+    }
+  })
+}
+
+// Saving under an existing name replaces that profile
+export const useSaveImportMappingProfile = (templateType: string) => {
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+
+  return useMutation({
+    mutationFn: async (profile: SaveProfileInput) => {
+      const { error } = await supabase
+        .from('import_mapping_profiles')
+        .upsert({
+          template_type: templateType,
+          profile_name: profile.profileName,
+          header_signature: profile.headerSignature,
+          source_headers: profile.sourceHeaders,
+          column_map: profile.columnMap,
+          date_format: profile.dateFormat,
+          decimal_separator: profile.decimalSeparator,
+          created_by: user?.id,
+        }, { onConflict: 'template_type,profile_name' })
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['import-mapping-profiles', templateType] })
+    }
+  })
+}
@@ -0,0 +1,59 @@
+import { useQuery } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+
+// PostgREST caps a response at 1000 rows; the running balance needs every movement
+const PAGE_SIZE = 1000
+
+const fetchAllPages = async <T,>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null, error: Error | null }>
+): Promise<T[]> => {
+  const rows: T[] = []
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) return rows
+  }
+}
+
+// Everything that moved an item's stock, plus GRN/issue audit history (for users who can view them, via RLS)
+export const useItemLedger = (itemCode: string | null) => {
+  return useQuery({
+    queryKey: ['item-ledger', itemCode],
+    enabled: !!itemCode,
+    queryFn: async () => {
+      const code = itemCode as string
+      const auditFilter = `old_values->>item_code.eq."${code}",new_values->>item_code.eq."${code}"`
+
+      // Pages are ordered by id so range() never skips or repeats a row
+      const [stockResult, grns, issues, adjustments, grnAudits, issueAudits] = await Promise.all([
+        supabase.from('stock').select('opening_qty, current_qty').eq('item_code', code).maybeSingle(),
+        fetchAllPages((from, to) =>
+          supabase.from('grn_log').select('id, date, created_at, grn_number, qty_received, vendor').eq('item_code', code).order('id').range(from, to)),
+        fetchAllPages((from, to) =>
+          supabase.from('issue_log').select('id, date, created_at, qty_issued, purpose, uiorn').eq('item_code', code).order('id').range(from, to)),
+        fetchAllPages((from, to) =>
+          supabase.from('stock_adjustment_log').select('id, date, created_at, adjustment_number, qty, reason').eq('item_code', code).eq('status', 'APPROVED').order('id').range(from, to)),
+        fetchAllPages((from, to) =>
+          supabase.from('grn_audit_log').select('*').or(auditFilter).order('id').range(from, to)),
+        fetchAllPages((from, to) =>
+          supabase.from('issue_audit_log').select('*').or(auditFilter).order('id').range(from, to)),
+      ])
+
+      if (stockResult.error) throw stockResult.error
+
+      return {
+        stock: stockResult.data,
+        grns,
+        issues,
+        adjustments,
+        audits: [
+          ...grnAudits.map(audit => ({ ...audit, source: 'GRN' as const })),
+          ...issueAudits.map(audit => ({ ...audit, source: 'ISSUE' as const })),
+        ],
+      }
+    }
+  })
+}
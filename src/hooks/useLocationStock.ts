@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+
+// Stock per (item, location)
+export const useLocationStock = () => {
+  return useQuery({
+    queryKey: ['location-stock'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('location_stock')
+        .select('*')
+        .order('item_code')
+
+      if (error) throw error
+      return data || []
+    }
+  })
+}
@@ -0,0 +1,46 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { useAuth } from "@/contexts/AuthContext"
+import { useSystemSettings } from "@/hooks/useSystemSettings"
+
+// The signed-in user's latest notifications; nothing is fetched while notifications are switched off
+export const useNotifications = () => {
+  const { user } = useAuth()
+  const { data: settings } = useSystemSettings()
+  const enabled = !!user && settings?.notifications_enabled === true
+
+  return useQuery({
+    queryKey: ['notifications', user?.id],
+    enabled,
+    refetchInterval: 60_000,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', user?.id ?? '')
+        .order('created_at', { ascending: false })
+        .limit(30)
+
+      if (error) throw error
+      return data || []
+    }
+  })
+}
+
+export const useMarkNotificationsRead = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (ids: string[]) => {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .in('id', ids)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] })
+    }
+  })
+}
@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+
+// Lines on approved POs that still have quantity left to receive
+export const useOpenPOLines = () => {
+  return useQuery({
+    queryKey: ['open-po-lines'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('purchase_order_line_status')
+        .select('*')
+        .eq('po_status', 'APPROVED')
+        .gt('pending_qty', 0)
+        .order('expected_date', { ascending: true, nullsFirst: false })
+
+      if (error) throw error
+      return data || []
+    }
+  })
+}
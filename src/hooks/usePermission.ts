@@ -0,0 +1,71 @@
+import { useCallback } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { useAuth } from "@/contexts/AuthContext"
+import {
+  hasPermission,
+  hasStageAccess,
+  toPermissionMatrix,
+  type PermissionAction,
+  type PermissionMatrix,
+  type PermissionModule,
+} from "@/utils/permissions"
+import type { ProductionStageKey } from "@/utils/production"
+
+// The signed-in user's role and what it allows. Admins are allowed everything regardless of role.
+export const usePermissions = () => {
+  const { user, isAdmin } = useAuth()
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['my-permissions', user?.id],
+    enabled: !!user,
+    queryFn: async () => {
+      // Admin status is read here too so pages don't flash "no access" while AuthContext catches up
+      const [adminResult, assignmentResult] = await Promise.all([
+        supabase.from('user_roles').select('role').eq('user_id', user?.id ?? '').eq('role', 'admin').maybeSingle(),
+        supabase.from('user_role_assignments').select('role_id, allowed_stages, roles(role_name)').eq('user_id', user?.id ?? '').maybeSingle(),
+      ])
+
+      if (adminResult.error) throw adminResult.error
+      if (assignmentResult.error) throw assignmentResult.error
+
+      const assignment = assignmentResult.data
+      if (!assignment) {
+        return { isAdmin: !!adminResult.data, roleName: null, matrix: {} as PermissionMatrix, allowedStages: [] as string[] }
+      }
+
+      const { data: rows, error } = await supabase
+        .from('role_permissions')
+        .select('module, can_view, can_create, can_edit, can_delete, can_approve')
+        .eq('role_id', assignment.role_id)
+
+      if (error) throw error
+      return {
+        isAdmin: !!adminResult.data,
+        roleName: assignment.roles?.role_name ?? null,
+        matrix: toPermissionMatrix(rows || []),
+        allowedStages: assignment.allowed_stages,
+      }
+    }
+  })
+
+  const admin = isAdmin || !!data?.isAdmin
+  const can = (module: PermissionModule, action: PermissionAction = 'view') =>
+    admin || hasPermission(data?.matrix ?? {}, module, action)
+  // Production stages the user can see and record; production permissions still apply on top
+  // Kept stable so components can depend on it in effects
+  const canAccessStage = useCallback((stage: ProductionStageKey) =>
+    admin || (!!data && hasStageAccess(data.allowedStages, stage)), [admin, data])
+
+  return {
+    can,
+    canAccessStage,
+    roleName: admin ? 'Admin' : data?.roleName ?? null,
+    isLoading: !!user && isLoading,
+  }
+}
+
+export const usePermission = (module: PermissionModule, action: PermissionAction = 'view') => {
+  const { can } = usePermissions()
+  return can(module, action)
+}
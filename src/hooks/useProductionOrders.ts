@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+
+// Punched jobs that material can be issued against, newest first
+export const useProductionOrders = () => {
+  return useQuery({
+    queryKey: ['production-orders'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('order_punching')
+        .select('uiorn, item_code, item_name, order_entry_date, cost_estimate_id')
+        .order('order_entry_date', { ascending: false })
+
+      if (error) throw error
+      return data || []
+    }
+  })
+}
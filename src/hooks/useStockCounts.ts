@@ -0,0 +1,36 @@
+import { useQuery } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+
+// Count sessions, newest first
+export const useStockCounts = () => {
+  return useQuery({
+    queryKey: ['stock-counts'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('stock_counts')
+        .select('*, storage_locations(location_name), categories(category_name)')
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      return data || []
+    }
+  })
+}
+
+// Lines of one count session with item and location details
+export const useStockCountLines = (countId: string | null) => {
+  return useQuery({
+    queryKey: ['stock-count-lines', countId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('stock_count_lines')
+        .select('*, item_master(item_name, uom), storage_locations(location_code, location_name)')
+        .eq('count_id', countId as string)
+        .order('item_code')
+
+      if (error) throw error
+      return data || []
+    },
+    enabled: !!countId
+  })
+}
@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+
+// Lots and rolls with their remaining quantity, first-expiring first
+export const useStockLots = () => {
+  return useQuery({
+    queryKey: ['stock-lots'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('stock_lots')
+        .select('*')
+        .order('expiry_date', { ascending: true, nullsFirst: false })
+        .order('received_date', { ascending: true })
+
+      if (error) throw error
+      return data || []
+    }
+  })
+}
@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+
+// All storage locations, default first; callers filter out inactive ones for new entries
+export const useStorageLocations = () => {
+  return useQuery({
+    queryKey: ['storage-locations'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('storage_locations')
+        .select('*')
+        .order('is_default', { ascending: false })
+        .order('location_name')
+
+      if (error) throw error
+      return data || []
+    }
+  })
+}
@@ -0,0 +1,50 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { useAuth } from "@/contexts/AuthContext"
+import type { Json } from "@/integrations/supabase/types"
+import { mergeSystemSettings, type SystemSettingValues } from "@/utils/systemSettings"
+
+// Every setting in one query; keys that were never saved read as their defaults.
+// Signed-out users only get the public keys (company name and email) through RLS,
+// so the cache is kept per user.
+export const useSystemSettings = () => {
+  const { user } = useAuth()
+
+  return useQuery({
+    queryKey: ['system-settings', user?.id ?? 'anonymous'],
+    queryFn: async (): Promise<SystemSettingValues> => {
+      const { data, error } = await supabase
+        .from('system_settings')
+        .select('key, value')
+
+      if (error) throw error
+      return mergeSystemSettings(data || [])
+    }
+  })
+}
+
+// Admin only: RLS rejects writes from anyone else, and the database validates each value
+export const useUpdateSystemSettings = () => {
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+
+  return useMutation({
+    mutationFn: async (settings: Partial<SystemSettingValues>) => {
+      const rows = Object.entries(settings).map(([key, value]) => ({
+        key,
+        value: value as Json,
+        updated_by: user?.id,
+      }))
+      if (rows.length === 0) return
+
+      const { error } = await supabase
+        .from('system_settings')
+        .upsert(rows, { onConflict: 'key' })
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['system-settings'] })
+    }
+  })
+}
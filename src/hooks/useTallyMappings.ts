@@ -0,0 +1,59 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { useAuth } from "@/contexts/AuthContext"
+import type { TallyMappingType, TallyNames } from "@/utils/tallyXml"
+
+// Tally names for our item codes and vendors; anything unmapped is exported under its own name
+export const useTallyNames = () => {
+  return useQuery({
+    queryKey: ['tally-name-mappings'],
+    queryFn: async (): Promise<TallyNames> => {
+      const { data, error } = await supabase
+        .from('tally_name_mappings')
+        .select('mapping_type, source_key, tally_name')
+
+      if (error) throw error
+      const names: TallyNames = { stockItems: new Map(), partyLedgers: new Map() }
+      for (const mapping of data || []) {
+        const target = mapping.mapping_type === 'stock_item' ? names.stockItems : names.partyLedgers
+        target.set(mapping.source_key, mapping.tally_name)
+      }
+      return names
+    }
+  })
+}
+
+// A blank name removes the mapping
+export const useSaveTallyName = () => {
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+
+  return useMutation({
+    mutationFn: async ({ mappingType, sourceKey, tallyName }: { mappingType: TallyMappingType, sourceKey: string, tallyName: string }) => {
+      if (!tallyName.trim()) {
+        const { error } = await supabase
+          .from('tally_name_mappings')
+          .delete()
+          .eq('mapping_type', mappingType)
+          .eq('source_key', sourceKey)
+
+        if (error) throw error
+        return
+      }
+
+      const { error } = await supabase
+        .from('tally_name_mappings')
+        .upsert({
+          mapping_type: mappingType,
+          source_key: sourceKey,
+          tally_name: tallyName.trim(),
+          updated_by: user?.id,
+        }, { onConflict: 'mapping_type,source_key' })
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tally-name-mappings'] })
+    }
+  })
+}
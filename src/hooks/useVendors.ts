@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+
+export const useVendors = () => {
+  return useQuery({
+    queryKey: ['vendors'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('vendors')
+        .select('*')
+        .order('vendor_name')
+
+      if (error) throw error
+      return data || []
+    }
+  })
+}
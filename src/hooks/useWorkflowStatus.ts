@@ -0,0 +1,15 @@
+import { useQuery } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+
+// Every punched UIORN with the status it has reached in each production stage, whichever stages the user works on
+export const useWorkflowStatus = () => {
+  return useQuery({
+    queryKey: ['workflow-status'],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_job_board')
+
+      if (error) throw error
+      return data || []
+    }
+  })
+}
@@ -14,6 +14,45 @@ export type Database = {
   }
   public: {
     Tables: {
+      accounting_periods: {
+        Row: {
+          created_at: string
+          id: string
+          is_locked: boolean
+          locked_at: string
+          locked_by: string | null
+          period_month: string
+          reopen_reason: string | null
+          reopened_at: string | null
+          reopened_by: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_locked?: boolean
+          locked_at?: string
+          locked_by?: string | null
+          period_month: string
+          reopen_reason?: string | null
+          reopened_at?: string | null
+          reopened_by?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_locked?: boolean
+          locked_at?: string
+          locked_by?: string | null
+          period_month?: string
+          reopen_reason?: string | null
+          reopened_at?: string | null
+          reopened_by?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       adhesive_coating: {
         Row: {
           created_at: string | null
@@ -115,27 +154,134 @@ export type Database = {
         }
         Relationships: []
       }
+      bom_headers: {
+        Row: {
+          activated_at: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          item_code: string
+          remarks: string | null
+          status: string
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          activated_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          item_code: string
+          remarks?: string | null
+          status?: string
+          updated_at?: string
+          version: number
+        }
+        Update: {
+          activated_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          item_code?: string
+          remarks?: string | null
+          status?: string
+          updated_at?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bom_headers_item_code_fkey"
+            columns: ["item_code"]
+            isOneToOne: false
+            referencedRelation: "item_master"
+            referencedColumns: ["item_code"]
+          },
+        ]
+      }
+      bom_lines: {
+        Row: {
+          bom_id: string
+          component_item_code: string
+          created_at: string
+          id: string
+          qty_per_unit: number
+          remarks: string | null
+          scrap_pct: number
+          updated_at: string
+        }
+        Insert: {
+          bom_id: string
+          component_item_code: string
+          created_at?: string
+          id?: string
+          qty_per_unit: number
+          remarks?: string | null
+          scrap_pct?: number
+          updated_at?: string
+        }
+        Update: {
+          bom_id?: string
+          component_item_code?: string
+          created_at?: string
+          id?: string
+          qty_per_unit?: number
+          remarks?: string | null
+          scrap_pct?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bom_lines_bom_id_fkey"
+            columns: ["bom_id"]
+            isOneToOne: false
+            referencedRelation: "bom_headers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bom_lines_component_item_code_fkey"
+            columns: ["component_item_code"]
+            isOneToOne: false
+            referencedRelation: "item_master"
+            referencedColumns: ["item_code"]
+          },
+        ]
+      }
       categories: {
         Row: {
           category_name: string
           created_at: string
+          default_max_level: number | null
+          default_min_level: number | null
+          default_reorder_point: number | null
+          default_safety_stock: number | null
           description: string | null
           id: string
           updated_at: string
+          valuation_method: string
         }
         Insert: {
           category_name: string
           created_at?: string
+          default_max_level?: number | null
+          default_min_level?: number | null
+          default_reorder_point?: number | null
+          default_safety_stock?: number | null
           description?: string | null
           id?: string
           updated_at?: string
+          valuation_method?: string
         }
         Update: {
           category_name?: string
           created_at?: string
+          default_max_level?: number | null
+          default_min_level?: number | null
+          default_reorder_point?: number | null
+          default_safety_stock?: number | null
           description?: string | null
           id?: string
           updated_at?: string
+          valuation_method?: string
         }
         Relationships: []
       }
@@ -195,6 +341,9 @@ export type Database = {
           file_name: string
           file_type: string
           id: string
+          rolled_back_at: string | null
+          rolled_back_by: string | null
+          status: string
           success_rows: number
           total_rows: number
           user_id: string
@@ -206,6 +355,9 @@ export type Database = {
           file_name: string
           file_type: string
           id?: string
+          rolled_back_at?: string | null
+          rolled_back_by?: string | null
+          status?: string
           success_rows: number
           total_rows: number
           user_id: string
@@ -217,6 +369,9 @@ export type Database = {
           file_name?: string
           file_type?: string
           id?: string
+          rolled_back_at?: string | null
+          rolled_back_by?: string | null
+          status?: string
           success_rows?: number
           total_rows?: number
           user_id?: string
@@ -231,6 +386,7 @@ export type Database = {
           record_count: number
           snapshot_data: Json
           snapshot_date: string
+          total_stock_value: number | null
           updated_at: string
         }
         Insert: {
@@ -240,6 +396,7 @@ export type Database = {
           record_count?: number
           snapshot_data: Json
           snapshot_date: string
+          total_stock_value?: number | null
           updated_at?: string
         }
         Update: {
@@ -249,6 +406,7 @@ export type Database = {
           record_count?: number
           snapshot_data?: Json
           snapshot_date?: string
+          total_stock_value?: number | null
           updated_at?: string
         }
         Relationships: []
@@ -691,55 +849,68 @@ export type Database = {
           old_values?: Json | null
           user_id?: string | null
         }
-        Relationships: [
-          {
-            foreignKeyName: "grn_audit_log_grn_id_fkey"
-            columns: ["grn_id"]
-            isOneToOne: false
-            referencedRelation: "grn_log"
-            referencedColumns: ["id"]
-          },
-        ]
+        Relationships: []
       }
       grn_log: {
         Row: {
           amount_inr: number | null
           created_at: string
           date: string
+          expiry_date: string | null
           grn_number: string
           id: string
+          import_batch_id: string | null
           invoice_number: string | null
           item_code: string
+          location_id: string
+          lot_number: string | null
+          mfg_date: string | null
+          po_line_id: string | null
           qty_received: number
           remarks: string | null
           uom: string
           vendor: string | null
+          vendor_id: string | null
         }
         Insert: {
           amount_inr?: number | null
           created_at?: string
           date?: string
+          expiry_date?: string | null
           grn_number: string
           id?: string
+          import_batch_id?: string | null
           invoice_number?: string | null
           item_code: string
+          location_id?: string
+          lot_number?: string | null
+          mfg_date?: string | null
+          po_line_id?: string | null
           qty_received: number
           remarks?: string | null
           uom: string
           vendor?: string | null
+          vendor_id?: string | null
         }
         Update: {
           amount_inr?: number | null
           created_at?: string
           date?: string
+          expiry_date?: string | null
           grn_number?: string
           id?: string
+          import_batch_id?: string | null
           invoice_number?: string | null
           item_code?: string
+          location_id?: string
+          lot_number?: string | null
+          mfg_date?: string | null
+          po_line_id?: string | null
           qty_received?: number
           remarks?: string | null
           uom?: string
           vendor?: string | null
+          vendor_id?: string | null
         }
         Relationships: [
           {
@@ -749,8 +920,92 @@ export type Database = {
             referencedRelation: "item_master"
             referencedColumns: ["item_code"]
           },
+          {
+            foreignKeyName: "grn_log_po_line_id_fkey"
+            columns: ["po_line_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_order_line_status"
+            referencedColumns: ["po_line_id"]
+          },
+          {
+            foreignKeyName: "grn_log_po_line_id_fkey"
+            columns: ["po_line_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_order_lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "grn_log_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendor_purchase_summary"
+            referencedColumns: ["vendor_id"]
+          },
+          {
+            foreignKeyName: "grn_log_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "grn_log_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "storage_locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "grn_log_import_batch_id_fkey"
+            columns: ["import_batch_id"]
+            isOneToOne: false
+            referencedRelation: "csv_upload_log"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      import_mapping_profiles: {
+        Row: {
+          column_map: Json
+          created_at: string
+          created_by: string | null
+          date_format: string
+          decimal_separator: string
+          header_signature: string
+          id: string
+          profile_name: string
+          source_headers: string[]
+          template_type: string
+          updated_at: string
+        }
+        Insert: {
+          column_map?: Json
+          created_at?: string
+          created_by?: string | null
+          date_format?: string
+          decimal_separator?: string
+          header_signature: string
+          id?: string
+          profile_name: string
+          source_headers: string[]
+          template_type: string
+          updated_at?: string
+        }
+        Update: {
+          column_map?: Json
+          created_at?: string
+          created_by?: string | null
+          date_format?: string
+          decimal_separator?: string
+          header_signature?: string
+          id?: string
+          profile_name?: string
+          source_headers?: string[]
+          template_type?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       issue_audit_log: {
         Row: {
           action: string
@@ -779,46 +1034,53 @@ export type Database = {
           old_values?: Json | null
           user_id?: string | null
         }
-        Relationships: [
-          {
-            foreignKeyName: "issue_audit_log_issue_id_fkey"
-            columns: ["issue_id"]
-            isOneToOne: false
-            referencedRelation: "issue_log"
-            referencedColumns: ["id"]
-          },
-        ]
+        Relationships: []
       }
       issue_log: {
         Row: {
           created_at: string
           date: string
           id: string
+          import_batch_id: string | null
           item_code: string
+          location_id: string
+          lot_id: string | null
+          production_stage: string | null
           purpose: string | null
           qty_issued: number
           remarks: string | null
           total_issued_qty: number | null
+          uiorn: string | null
         }
         Insert: {
           created_at?: string
           date?: string
           id?: string
+          import_batch_id?: string | null
           item_code: string
+          location_id?: string
+          lot_id?: string | null
+          production_stage?: string | null
           purpose?: string | null
           qty_issued: number
           remarks?: string | null
           total_issued_qty?: number | null
+          uiorn?: string | null
         }
         Update: {
           created_at?: string
           date?: string
           id?: string
+          import_batch_id?: string | null
           item_code?: string
+          location_id?: string
+          lot_id?: string | null
+          production_stage?: string | null
           purpose?: string | null
           qty_issued?: number
           remarks?: string | null
           total_issued_qty?: number | null
+          uiorn?: string | null
         }
         Relationships: [
           {
@@ -828,6 +1090,69 @@ export type Database = {
             referencedRelation: "item_master"
             referencedColumns: ["item_code"]
           },
+          {
+            foreignKeyName: "issue_log_uiorn_fkey"
+            columns: ["uiorn"]
+            isOneToOne: false
+            referencedRelation: "order_punching"
+            referencedColumns: ["uiorn"]
+          },
+          {
+            foreignKeyName: "issue_log_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "storage_locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issue_log_lot_id_fkey"
+            columns: ["lot_id"]
+            isOneToOne: false
+            referencedRelation: "grn_log"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issue_log_import_batch_id_fkey"
+            columns: ["import_batch_id"]
+            isOneToOne: false
+            referencedRelation: "csv_upload_log"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      issue_valuation: {
+        Row: {
+          calculated_at: string
+          issue_id: string
+          item_code: string
+          total_cost: number
+          unit_cost: number
+          valuation_method: string
+        }
+        Insert: {
+          calculated_at?: string
+          issue_id: string
+          item_code: string
+          total_cost: number
+          unit_cost: number
+          valuation_method: string
+        }
+        Update: {
+          calculated_at?: string
+          issue_id?: string
+          item_code?: string
+          total_cost?: number
+          unit_cost?: number
+          valuation_method?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "issue_valuation_issue_id_fkey"
+            columns: ["issue_id"]
+            isOneToOne: true
+            referencedRelation: "issue_log"
+            referencedColumns: ["id"]
+          },
         ]
       }
       item_master: {
@@ -837,9 +1162,14 @@ export type Database = {
           created_at: string
           gsm: number | null
           id: string
+          import_batch_id: string | null
           item_code: string
           item_name: string
+          max_level: number | null
+          min_level: number | null
           qualifier: string | null
+          reorder_point: number | null
+          safety_stock: number | null
           size_mm: string | null
           status: string
           uom: string
@@ -852,9 +1182,14 @@ export type Database = {
           created_at?: string
           gsm?: number | null
           id?: string
+          import_batch_id?: string | null
           item_code: string
           item_name: string
+          max_level?: number | null
+          min_level?: number | null
           qualifier?: string | null
+          reorder_point?: number | null
+          safety_stock?: number | null
           size_mm?: string | null
           status?: string
           uom?: string
@@ -867,9 +1202,14 @@ export type Database = {
           created_at?: string
           gsm?: number | null
           id?: string
+          import_batch_id?: string | null
           item_code?: string
           item_name?: string
+          max_level?: number | null
+          min_level?: number | null
           qualifier?: string | null
+          reorder_point?: number | null
+          safety_stock?: number | null
           size_mm?: string | null
           status?: string
           uom?: string
@@ -884,6 +1224,55 @@ export type Database = {
             referencedRelation: "categories"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "item_master_import_batch_id_fkey"
+            columns: ["import_batch_id"]
+            isOneToOne: false
+            referencedRelation: "csv_upload_log"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      item_valuation: {
+        Row: {
+          calculated_at: string
+          item_code: string
+          qty: number
+          stock_value: number
+          unit_cost: number
+          valuation_method: string
+        }
+        Insert: {
+          calculated_at?: string
+          item_code: string
+          qty?: number
+          stock_value?: number
+          unit_cost?: number
+          valuation_method: string
+        }
+        Update: {
+          calculated_at?: string
+          item_code?: string
+          qty?: number
+          stock_value?: number
+          unit_cost?: number
+          valuation_method?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "item_valuation_item_code_fkey"
+            columns: ["item_code"]
+            isOneToOne: true
+            referencedRelation: "item_master"
+            referencedColumns: ["item_code"]
+          },
+          {
+            foreignKeyName: "item_valuation_item_code_fkey"
+            columns: ["item_code"]
+            isOneToOne: true
+            referencedRelation: "stock_summary"
+            referencedColumns: ["item_code"]
+          },
         ]
       }
       lamination: {
@@ -999,6 +1388,39 @@ export type Database = {
         }
         Relationships: []
       }
+      master_data_audit_log: {
+        Row: {
+          action: string
+          created_at: string
+          id: string
+          new_values: Json | null
+          old_values: Json | null
+          record_key: string
+          table_name: string
+          user_id: string | null
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          id?: string
+          new_values?: Json | null
+          old_values?: Json | null
+          record_key: string
+          table_name: string
+          user_id?: string | null
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          id?: string
+          new_values?: Json | null
+          old_values?: Json | null
+          record_key?: string
+          table_name?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
       material_selection: {
         Row: {
           barrier_material: string | null
@@ -1053,32 +1475,95 @@ export type Database = {
         }
         Relationships: []
       }
-      order_punching: {
+      mrp_runs: {
         Row: {
-          created_at: string | null
-          deckle: number
-          item_code: string
-          item_name: string
-          job_no: number
-          length: number
-          number_colours: number
-          order_entry_date: string
-          sr_no: number
-          status: string | null
-          substrate_gsm: number
-          substrate_name: string
-          uiorn: string
-          updated_at: string | null
+          created_at: string
+          created_by: string | null
+          default_lead_time_days: number
+          horizon_days: number
+          id: string
+          requisition_count: number
         }
         Insert: {
-          created_at?: string | null
-          deckle: number
-          item_code: string
+          created_at?: string
+          created_by?: string | null
+          default_lead_time_days: number
+          horizon_days: number
+          id?: string
+          requisition_count?: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          default_lead_time_days?: number
+          horizon_days?: number
+          id?: string
+          requisition_count?: number
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          created_at: string
+          id: string
+          link: string | null
+          message: string
+          read_at: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          link?: string | null
+          message: string
+          read_at?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          link?: string | null
+          message?: string
+          read_at?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      order_punching: {
+        Row: {
+          bom_id: string | null
+          cost_estimate_id: string | null
+          created_at: string | null
+          deckle: number
+          item_code: string
+          item_name: string
+          job_no: number
+          length: number
+          number_colours: number
+          order_entry_date: string
+          planned_qty: number | null
+          sr_no: number
+          status: string | null
+          substrate_gsm: number
+          substrate_name: string
+          uiorn: string
+          updated_at: string | null
+        }
+        Insert: {
+          bom_id?: string | null
+          cost_estimate_id?: string | null
+          created_at?: string | null
+          deckle: number
+          item_code: string
           item_name: string
           job_no: number
           length: number
           number_colours: number
           order_entry_date: string
+          planned_qty?: number | null
           sr_no: number
           status?: string | null
           substrate_gsm: number
@@ -1087,6 +1572,8 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
+          bom_id?: string | null
+          cost_estimate_id?: string | null
           created_at?: string | null
           deckle?: number
           item_code?: string
@@ -1095,6 +1582,7 @@ export type Database = {
           length?: number
           number_colours?: number
           order_entry_date?: string
+          planned_qty?: number | null
           sr_no?: number
           status?: string | null
           substrate_gsm?: number
@@ -1102,7 +1590,22 @@ export type Database = {
           uiorn?: string
           updated_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "order_punching_cost_estimate_id_fkey"
+            columns: ["cost_estimate_id"]
+            isOneToOne: false
+            referencedRelation: "cost_mockup_estimate"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_punching_bom_id_fkey"
+            columns: ["bom_id"]
+            isOneToOne: false
+            referencedRelation: "bom_headers"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       packaging_projects: {
         Row: {
@@ -1302,6 +1805,314 @@ export type Database = {
         }
         Relationships: []
       }
+      purchase_order_lines: {
+        Row: {
+          created_at: string
+          expected_date: string | null
+          id: string
+          item_code: string
+          ordered_qty: number
+          po_id: string
+          rate: number | null
+          remarks: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          expected_date?: string | null
+          id?: string
+          item_code: string
+          ordered_qty: number
+          po_id: string
+          rate?: number | null
+          remarks?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          expected_date?: string | null
+          id?: string
+          item_code?: string
+          ordered_qty?: number
+          po_id?: string
+          rate?: number | null
+          remarks?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_lines_item_code_fkey"
+            columns: ["item_code"]
+            isOneToOne: false
+            referencedRelation: "item_master"
+            referencedColumns: ["item_code"]
+          },
+          {
+            foreignKeyName: "purchase_order_lines_item_code_fkey"
+            columns: ["item_code"]
+            isOneToOne: false
+            referencedRelation: "stock_summary"
+            referencedColumns: ["item_code"]
+          },
+          {
+            foreignKeyName: "purchase_order_lines_po_id_fkey"
+            columns: ["po_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_orders: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          closed_at: string | null
+          closed_by: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          po_date: string
+          po_number: string
+          remarks: string | null
+          status: string
+          updated_at: string
+          vendor: string
+          vendor_id: string | null
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          closed_at?: string | null
+          closed_by?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          po_date?: string
+          po_number: string
+          remarks?: string | null
+          status?: string
+          updated_at?: string
+          vendor: string
+          vendor_id?: string | null
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          closed_at?: string | null
+          closed_by?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          po_date?: string
+          po_number?: string
+          remarks?: string | null
+          status?: string
+          updated_at?: string
+          vendor?: string
+          vendor_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendor_purchase_summary"
+            referencedColumns: ["vendor_id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_requisitions: {
+        Row: {
+          created_at: string
+          current_qty: number
+          daily_consumption: number
+          forecast_demand_qty: number
+          id: string
+          item_code: string
+          job_demand_qty: number
+          lead_time_days: number
+          need_by_date: string
+          open_po_qty: number
+          order_by_date: string
+          po_line_id: string | null
+          projected_qty: number
+          proposed_qty: number
+          rate: number | null
+          remarks: string | null
+          reorder_level: number
+          run_id: string
+          status: string
+          suggested_qty: number
+          target_qty: number
+          updated_at: string
+          vendor_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          current_qty?: number
+          daily_consumption?: number
+          forecast_demand_qty?: number
+          id?: string
+          item_code: string
+          job_demand_qty?: number
+          lead_time_days?: number
+          need_by_date: string
+          open_po_qty?: number
+          order_by_date: string
+          po_line_id?: string | null
+          projected_qty?: number
+          proposed_qty: number
+          rate?: number | null
+          remarks?: string | null
+          reorder_level?: number
+          run_id: string
+          status?: string
+          suggested_qty: number
+          target_qty?: number
+          updated_at?: string
+          vendor_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          current_qty?: number
+          daily_consumption?: number
+          forecast_demand_qty?: number
+          id?: string
+          item_code?: string
+          job_demand_qty?: number
+          lead_time_days?: number
+          need_by_date?: string
+          open_po_qty?: number
+          order_by_date?: string
+          po_line_id?: string | null
+          projected_qty?: number
+          proposed_qty?: number
+          rate?: number | null
+          remarks?: string | null
+          reorder_level?: number
+          run_id?: string
+          status?: string
+          suggested_qty?: number
+          target_qty?: number
+          updated_at?: string
+          vendor_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_requisitions_item_code_fkey"
+            columns: ["item_code"]
+            isOneToOne: false
+            referencedRelation: "item_master"
+            referencedColumns: ["item_code"]
+          },
+          {
+            foreignKeyName: "purchase_requisitions_po_line_id_fkey"
+            columns: ["po_line_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_order_lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_requisitions_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "mrp_runs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_requisitions_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      role_permissions: {
+        Row: {
+          can_approve: boolean
+          can_create: boolean
+          can_delete: boolean
+          can_edit: boolean
+          can_view: boolean
+          created_at: string
+          id: string
+          module: string
+          role_id: string
+          updated_at: string
+        }
+        Insert: {
+          can_approve?: boolean
+          can_create?: boolean
+          can_delete?: boolean
+          can_edit?: boolean
+          can_view?: boolean
+          created_at?: string
+          id?: string
+          module: string
+          role_id: string
+          updated_at?: string
+        }
+        Update: {
+          can_approve?: boolean
+          can_create?: boolean
+          can_delete?: boolean
+          can_edit?: boolean
+          can_view?: boolean
+          created_at?: string
+          id?: string
+          module?: string
+          role_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "role_permissions_role_id_fkey"
+            columns: ["role_id"]
+            isOneToOne: false
+            referencedRelation: "roles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      roles: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          is_system: boolean
+          role_key: string
+          role_name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_system?: boolean
+          role_key: string
+          role_name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_system?: boolean
+          role_key?: string
+          role_name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       slitting: {
         Row: {
           created_at: string | null
@@ -1380,6 +2191,7 @@ export type Database = {
           item_code: string
           last_updated: string
           opening_qty: number
+          opening_unit_cost: number | null
         }
         Insert: {
           current_qty?: number
@@ -1387,6 +2199,7 @@ export type Database = {
           item_code: string
           last_updated?: string
           opening_qty?: number
+          opening_unit_cost?: number | null
         }
         Update: {
           current_qty?: number
@@ -1394,6 +2207,7 @@ export type Database = {
           item_code?: string
           last_updated?: string
           opening_qty?: number
+          opening_unit_cost?: number | null
         }
         Relationships: [
           {
@@ -1405,44 +2219,707 @@ export type Database = {
           },
         ]
       }
-      stock_analytics_queries: {
+      stock_adjustment_audit_log: {
         Row: {
-          created_at: string
-          date_range_end: string | null
-          date_range_start: string | null
-          execution_time_ms: number | null
-          filters: Json | null
+          action: string
+          adjustment_id: string
+          created_at: string | null
           id: string
-          query_result: Json | null
-          query_text: string
-          query_type: string
-          user_id: string
+          new_values: Json | null
+          old_values: Json | null
+          user_id: string | null
         }
         Insert: {
-          created_at?: string
-          date_range_end?: string | null
-          date_range_start?: string | null
-          execution_time_ms?: number | null
-          filters?: Json | null
+          action: string
+          adjustment_id: string
+          created_at?: string | null
           id?: string
-          query_result?: Json | null
-          query_text: string
-          query_type?: string
-          user_id: string
+          new_values?: Json | null
+          old_values?: Json | null
+          user_id?: string | null
         }
         Update: {
-          created_at?: string
-          date_range_end?: string | null
-          date_range_start?: string | null
-          execution_time_ms?: number | null
-          filters?: Json | null
-          id?: string
+          action?: string
+          adjustment_id?: string
+          created_at?: string | null
+          id?: string
+          new_values?: Json | null
+          old_values?: Json | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      stock_adjustment_log: {
+        Row: {
+          adjustment_number: string
+          approved_at: string | null
+          approved_by: string | null
+          count_id: string | null
+          created_at: string
+          created_by: string | null
+          date: string
+          id: string
+          item_code: string
+          location_id: string
+          qty: number
+          reason: string
+          remarks: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          adjustment_number: string
+          approved_at?: string | null
+          approved_by?: string | null
+          count_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          date?: string
+          id?: string
+          item_code: string
+          location_id?: string
+          qty: number
+          reason: string
+          remarks: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          adjustment_number?: string
+          approved_at?: string | null
+          approved_by?: string | null
+          count_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          date?: string
+          id?: string
+          item_code?: string
+          location_id?: string
+          qty?: number
+          reason?: string
+          remarks?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_adjustment_log_count_id_fkey"
+            columns: ["count_id"]
+            isOneToOne: false
+            referencedRelation: "stock_counts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_adjustment_log_item_code_fkey"
+            columns: ["item_code"]
+            isOneToOne: false
+            referencedRelation: "item_master"
+            referencedColumns: ["item_code"]
+          },
+          {
+            foreignKeyName: "stock_adjustment_log_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "storage_locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_analytics_queries: {
+        Row: {
+          created_at: string
+          date_range_end: string | null
+          date_range_start: string | null
+          execution_time_ms: number | null
+          filters: Json | null
+          id: string
+          query_result: Json | null
+          query_text: string
+          query_type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          date_range_end?: string | null
+          date_range_start?: string | null
+          execution_time_ms?: number | null
+          filters?: Json | null
+          id?: string
+          query_result?: Json | null
+          query_text: string
+          query_type?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          date_range_end?: string | null
+          date_range_start?: string | null
+          execution_time_ms?: number | null
+          filters?: Json | null
+          id?: string
           query_result?: Json | null
           query_text?: string
           query_type?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: []
+      }
+      stock_count_lines: {
+        Row: {
+          count_id: string
+          counted_at: string | null
+          counted_by: string | null
+          counted_qty: number | null
+          created_at: string
+          id: string
+          item_code: string
+          location_id: string
+          remarks: string | null
+          system_qty: number
+          unit_cost: number
+          updated_at: string
+        }
+        Insert: {
+          count_id: string
+          counted_at?: string | null
+          counted_by?: string | null
+          counted_qty?: number | null
+          created_at?: string
+          id?: string
+          item_code: string
+          location_id: string
+          remarks?: string | null
+          system_qty?: number
+          unit_cost?: number
+          updated_at?: string
+        }
+        Update: {
+          count_id?: string
+          counted_at?: string | null
+          counted_by?: string | null
+          counted_qty?: number | null
+          created_at?: string
+          id?: string
+          item_code?: string
+          location_id?: string
+          remarks?: string | null
+          system_qty?: number
+          unit_cost?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_count_lines_count_id_fkey"
+            columns: ["count_id"]
+            isOneToOne: false
+            referencedRelation: "stock_counts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_count_lines_item_code_fkey"
+            columns: ["item_code"]
+            isOneToOne: false
+            referencedRelation: "item_master"
+            referencedColumns: ["item_code"]
+          },
+          {
+            foreignKeyName: "stock_count_lines_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "storage_locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_counts: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          category_id: string | null
+          count_date: string
+          count_number: string
+          created_at: string
+          created_by: string | null
+          frozen_at: string
+          id: string
+          location_id: string | null
+          posted_at: string | null
+          remarks: string | null
+          status: string
+          submitted_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          category_id?: string | null
+          count_date?: string
+          count_number: string
+          created_at?: string
+          created_by?: string | null
+          frozen_at?: string
+          id?: string
+          location_id?: string | null
+          posted_at?: string | null
+          remarks?: string | null
+          status?: string
+          submitted_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          category_id?: string | null
+          count_date?: string
+          count_number?: string
+          created_at?: string
+          created_by?: string | null
+          frozen_at?: string
+          id?: string
+          location_id?: string | null
+          posted_at?: string | null
+          remarks?: string | null
+          status?: string
+          submitted_at?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_counts_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_counts_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "storage_locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_reconciliation_log: {
+        Row: {
+          approved_by: string
+          corrected_qty: number
+          created_at: string
+          id: string
+          item_code: string
+          previous_qty: number
+          remarks: string
+        }
+        Insert: {
+          approved_by: string
+          corrected_qty: number
+          created_at?: string
+          id?: string
+          item_code: string
+          previous_qty: number
+          remarks: string
+        }
+        Update: {
+          approved_by?: string
+          corrected_qty?: number
+          created_at?: string
+          id?: string
+          item_code?: string
+          previous_qty?: number
+          remarks?: string
+        }
+        Relationships: []
+      }
+      stock_reconciliation_runs: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          mismatch_count: number
+          mismatches: Json
+          new_mismatch_count: number
+          resolved_count: number
+          run_at: string
+          trigger_type: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          mismatch_count?: number
+          mismatches?: Json
+          new_mismatch_count?: number
+          resolved_count?: number
+          run_at?: string
+          trigger_type?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          mismatch_count?: number
+          mismatches?: Json
+          new_mismatch_count?: number
+          resolved_count?: number
+          run_at?: string
+          trigger_type?: string
+        }
+        Relationships: []
+      }
+      stock_transfer_audit_log: {
+        Row: {
+          action: string
+          created_at: string | null
+          id: string
+          new_values: Json | null
+          old_values: Json | null
+          transfer_id: string
+          user_id: string | null
+        }
+        Insert: {
+          action: string
+          created_at?: string | null
+          id?: string
+          new_values?: Json | null
+          old_values?: Json | null
+          transfer_id: string
+          user_id?: string | null
+        }
+        Update: {
+          action?: string
+          created_at?: string | null
+          id?: string
+          new_values?: Json | null
+          old_values?: Json | null
+          transfer_id?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      stock_transfers: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          date: string
+          from_location_id: string
+          id: string
+          item_code: string
+          qty: number
+          remarks: string | null
+          to_location_id: string
+          transfer_number: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          date?: string
+          from_location_id: string
+          id?: string
+          item_code: string
+          qty: number
+          remarks?: string | null
+          to_location_id: string
+          transfer_number: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          date?: string
+          from_location_id?: string
+          id?: string
+          item_code?: string
+          qty?: number
+          remarks?: string | null
+          to_location_id?: string
+          transfer_number?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_transfers_from_location_id_fkey"
+            columns: ["from_location_id"]
+            isOneToOne: false
+            referencedRelation: "storage_locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfers_item_code_fkey"
+            columns: ["item_code"]
+            isOneToOne: false
+            referencedRelation: "item_master"
+            referencedColumns: ["item_code"]
+          },
+          {
+            foreignKeyName: "stock_transfers_to_location_id_fkey"
+            columns: ["to_location_id"]
+            isOneToOne: false
+            referencedRelation: "storage_locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      storage_locations: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          is_default: boolean
+          location_code: string
+          location_name: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_default?: boolean
+          location_code: string
+          location_name: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_default?: boolean
+          location_code?: string
+          location_name?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      system_settings: {
+        Row: {
+          created_at: string
+          id: string
+          key: string
+          updated_at: string
+          updated_by: string | null
+          value: Json
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          key: string
+          updated_at?: string
+          updated_by?: string | null
+          value: Json
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          key?: string
+          updated_at?: string
+          updated_by?: string | null
+          value?: Json
+        }
+        Relationships: []
+      }
+      tally_export_entries: {
+        Row: {
+          export_id: string
+          grn_id: string | null
+          id: string
+          issue_id: string | null
+        }
+        Insert: {
+          export_id: string
+          grn_id?: string | null
+          id?: string
+          issue_id?: string | null
+        }
+        Update: {
+          export_id?: string
+          grn_id?: string | null
+          id?: string
+          issue_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tally_export_entries_export_id_fkey"
+            columns: ["export_id"]
+            isOneToOne: false
+            referencedRelation: "tally_exports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tally_export_entries_grn_id_fkey"
+            columns: ["grn_id"]
+            isOneToOne: true
+            referencedRelation: "grn_log"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tally_export_entries_issue_id_fkey"
+            columns: ["issue_id"]
+            isOneToOne: true
+            referencedRelation: "issue_log"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tally_exports: {
+        Row: {
+          created_at: string
+          entry_count: number
+          exported_by: string | null
+          file_name: string
+          from_date: string | null
+          id: string
+          to_date: string | null
+          voucher_count: number
+          voucher_type: string
+        }
+        Insert: {
+          created_at?: string
+          entry_count?: number
+          exported_by?: string | null
+          file_name: string
+          from_date?: string | null
+          id?: string
+          to_date?: string | null
+          voucher_count?: number
+          voucher_type: string
+        }
+        Update: {
+          created_at?: string
+          entry_count?: number
+          exported_by?: string | null
+          file_name?: string
+          from_date?: string | null
+          id?: string
+          to_date?: string | null
+          voucher_count?: number
+          voucher_type?: string
+        }
+        Relationships: []
+      }
+      tally_name_mappings: {
+        Row: {
+          created_at: string
+          id: string
+          mapping_type: string
+          source_key: string
+          tally_name: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          mapping_type: string
+          source_key: string
+          tally_name: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          mapping_type?: string
+          source_key?: string
+          tally_name?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      transaction_change_requests: {
+        Row: {
+          action: string
+          created_at: string
+          entry_id: string
+          entry_type: string
+          id: string
+          new_values: Json | null
+          old_values: Json
+          reason: string | null
+          requested_at: string
+          requested_by: string
+          review_notes: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          entry_id: string
+          entry_type: string
+          id?: string
+          new_values?: Json | null
+          old_values: Json
+          reason?: string | null
+          requested_at?: string
+          requested_by?: string
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          entry_id?: string
+          entry_type?: string
+          id?: string
+          new_values?: Json | null
+          old_values?: Json
+          reason?: string | null
+          requested_at?: string
+          requested_by?: string
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      user_role_assignments: {
+        Row: {
+          allowed_stages: string[] | null
+          assigned_by: string | null
+          created_at: string
+          id: string
+          role_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          allowed_stages?: string[] | null
+          assigned_by?: string | null
+          created_at?: string
+          id?: string
+          role_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          allowed_stages?: string[] | null
+          assigned_by?: string | null
+          created_at?: string
+          id?: string
+          role_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_role_assignments_role_id_fkey"
+            columns: ["role_id"]
+            isOneToOne: false
+            referencedRelation: "roles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       user_roles: {
         Row: {
@@ -1468,6 +2945,63 @@ export type Database = {
         }
         Relationships: []
       }
+      valuation_recalc_queue: {
+        Row: {
+          item_code: string
+        }
+        Insert: {
+          item_code: string
+        }
+        Update: {
+          item_code?: string
+        }
+        Relationships: []
+      }
+      vendors: {
+        Row: {
+          address: string | null
+          contact_person: string | null
+          created_at: string
+          email: string | null
+          gstin: string | null
+          id: string
+          lead_time_days: number | null
+          payment_terms: string | null
+          phone: string | null
+          status: string
+          updated_at: string
+          vendor_name: string
+        }
+        Insert: {
+          address?: string | null
+          contact_person?: string | null
+          created_at?: string
+          email?: string | null
+          gstin?: string | null
+          id?: string
+          lead_time_days?: number | null
+          payment_terms?: string | null
+          phone?: string | null
+          status?: string
+          updated_at?: string
+          vendor_name: string
+        }
+        Update: {
+          address?: string | null
+          contact_person?: string | null
+          created_at?: string
+          email?: string | null
+          gstin?: string | null
+          id?: string
+          lead_time_days?: number | null
+          payment_terms?: string | null
+          phone?: string | null
+          status?: string
+          updated_at?: string
+          vendor_name?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       eligible_adhesive_coating_uiorns: {
@@ -1501,6 +3035,140 @@ export type Database = {
         }
         Relationships: []
       }
+      job_bom_consumption: {
+        Row: {
+          actual_qty: number | null
+          item_code: string | null
+          item_name: string | null
+          on_bom: boolean | null
+          planned_qty: number | null
+          uiorn: string | null
+          uom: string | null
+          variance_qty: number | null
+        }
+        Relationships: []
+      }
+      job_costing_summary: {
+        Row: {
+          cost_estimate_id: string | null
+          deckle: number | null
+          estimate_cost_per_sqm: number | null
+          estimate_ref: string | null
+          estimated_cost: number | null
+          issue_count: number | null
+          item_code: string | null
+          item_name: string | null
+          items_issued: number | null
+          job_area_sqm: number | null
+          job_no: number | null
+          last_issue_date: string | null
+          length: number | null
+          material_cost: number | null
+          order_entry_date: string | null
+          total_qty: number | null
+          uiorn: string | null
+        }
+        Relationships: []
+      }
+      job_material_consumption: {
+        Row: {
+          first_issue_date: string | null
+          issue_count: number | null
+          item_code: string | null
+          item_name: string | null
+          last_issue_date: string | null
+          production_stage: string | null
+          total_cost: number | null
+          total_qty: number | null
+          uiorn: string | null
+          uom: string | null
+        }
+        Relationships: []
+      }
+      location_stock: {
+        Row: {
+          category_name: string | null
+          current_qty: number | null
+          item_code: string | null
+          item_name: string | null
+          location_code: string | null
+          location_id: string | null
+          location_name: string | null
+          stock_value: number | null
+          unit_cost: number | null
+          uom: string | null
+        }
+        Relationships: []
+      }
+      purchase_order_line_status: {
+        Row: {
+          expected_date: string | null
+          is_overdue: boolean | null
+          item_code: string | null
+          item_name: string | null
+          last_received_date: string | null
+          line_status: string | null
+          ordered_qty: number | null
+          over_received_qty: number | null
+          pending_qty: number | null
+          po_date: string | null
+          po_id: string | null
+          po_line_id: string | null
+          po_number: string | null
+          po_status: string | null
+          rate: number | null
+          received_qty: number | null
+          uom: string | null
+          vendor: string | null
+          vendor_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_lines_item_code_fkey"
+            columns: ["item_code"]
+            isOneToOne: false
+            referencedRelation: "item_master"
+            referencedColumns: ["item_code"]
+          },
+          {
+            foreignKeyName: "purchase_order_lines_item_code_fkey"
+            columns: ["item_code"]
+            isOneToOne: false
+            referencedRelation: "stock_summary"
+            referencedColumns: ["item_code"]
+          },
+          {
+            foreignKeyName: "purchase_order_lines_po_id_fkey"
+            columns: ["po_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_lots: {
+        Row: {
+          category_name: string | null
+          days_to_expiry: number | null
+          expiry_date: string | null
+          expiry_status: string | null
+          grn_number: string | null
+          item_code: string | null
+          item_name: string | null
+          location_id: string | null
+          location_name: string | null
+          lot_id: string | null
+          lot_number: string | null
+          mfg_date: string | null
+          qty_issued: number | null
+          qty_received: number | null
+          received_date: string | null
+          remaining_qty: number | null
+          uom: string | null
+          vendor: string | null
+        }
+        Relationships: []
+      }
       stock_summary: {
         Row: {
           calculated_qty: number | null
@@ -1517,10 +3185,19 @@ export type Database = {
           issue_90d: number | null
           item_code: string | null
           item_name: string | null
+          max_level: number | null
+          min_level: number | null
           opening_qty: number | null
+          reorder_point: number | null
+          safety_stock: number | null
+          stock_status: string | null
           stock_validation_status: string | null
+          stock_value: number | null
+          total_adjustment_qty: number | null
           total_grn_qty: number | null
           total_issued_qty: number | null
+          unit_cost: number | null
+          valuation_method: string | null
         }
         Relationships: [
           {
@@ -1532,12 +3209,123 @@ export type Database = {
           },
         ]
       }
+      vendor_item_purchase_history: {
+        Row: {
+          avg_rate: number | null
+          grn_count: number | null
+          item_code: string | null
+          item_name: string | null
+          last_purchase_date: string | null
+          last_rate: number | null
+          last_rate_date: string | null
+          total_amount: number | null
+          total_qty: number | null
+          uom: string | null
+          vendor_id: string | null
+          vendor_name: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "grn_log_item_code_fkey"
+            columns: ["item_code"]
+            isOneToOne: false
+            referencedRelation: "item_master"
+            referencedColumns: ["item_code"]
+          },
+          {
+            foreignKeyName: "grn_log_item_code_fkey"
+            columns: ["item_code"]
+            isOneToOne: false
+            referencedRelation: "stock_summary"
+            referencedColumns: ["item_code"]
+          },
+          {
+            foreignKeyName: "grn_log_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendor_purchase_summary"
+            referencedColumns: ["vendor_id"]
+          },
+          {
+            foreignKeyName: "grn_log_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vendor_purchase_summary: {
+        Row: {
+          first_purchase_date: string | null
+          grn_count: number | null
+          items_supplied: number | null
+          last_purchase_date: string | null
+          status: string | null
+          total_spend: number | null
+          vendor_id: string | null
+          vendor_name: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      activate_bom: {
+        Args: {
+          p_bom_id: string
+        }
+        Returns: undefined
+      }
+      apply_stock_reconciliation: {
+        Args: {
+          p_item_code: string
+          p_remarks: string
+        }
+        Returns: number
+      }
+      calculate_bom_requirements: {
+        Args: {
+          p_bom_id: string
+          p_planned_qty: number
+        }
+        Returns: {
+          component_item_code: string
+          item_name: string
+          uom: string
+          qty_per_unit: number
+          scrap_pct: number
+          required_qty: number
+          available_qty: number
+          shortage_qty: number
+        }[]
+      }
+      can_view_module: {
+        Args: {
+          p_module: string
+        }
+        Returns: boolean
+      }
       capture_daily_stock_snapshot: {
         Args: Record<PropertyKey, never>
         Returns: Json
       }
+      close_accounting_period: {
+        Args: {
+          p_period_month: string
+        }
+        Returns: undefined
+      }
+      convert_requisitions_to_pos: {
+        Args: {
+          p_requisition_ids: string[]
+        }
+        Returns: {
+          po_id: string
+          po_number: string
+          vendor: string
+          line_count: number
+        }[]
+      }
       count_adhesive_started: {
         Args: Record<PropertyKey, never>
         Returns: {
@@ -1562,6 +3350,29 @@ export type Database = {
           count: number
         }[]
       }
+      create_notification: {
+        Args: {
+          p_user_id: string
+          p_title: string
+          p_message: string
+          p_link?: string
+        }
+        Returns: undefined
+      }
+      create_stock_count: {
+        Args: {
+          p_category_id?: string
+          p_location_id?: string
+          p_remarks?: string
+        }
+        Returns: string
+      }
+      detect_stock_mismatches: {
+        Args: {
+          p_trigger?: string
+        }
+        Returns: Json
+      }
       dkegl_count_adhesive_started: {
         Args: Record<PropertyKey, never>
         Returns: {
@@ -1616,10 +3427,36 @@ export type Database = {
         }
         Returns: Json
       }
+      get_closed_through_month: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
       get_current_user_role: {
         Args: Record<PropertyKey, never>
         Returns: Database["public"]["Enums"]["app_role"]
       }
+      get_default_location_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      get_job_board: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          uiorn: string
+          item_name: string
+          order_punching: string
+          gravure_printing: string
+          coating_lamination: string
+          adhesive_coating: string
+          slitting: string
+        }[]
+      }
+      get_system_setting: {
+        Args: {
+          p_key: string
+        }
+        Returns: Json
+      }
       get_workflow_status: {
         Args: Record<PropertyKey, never>
         Returns: {
@@ -1632,6 +3469,14 @@ export type Database = {
           slitting: string
         }[]
       }
+      has_permission: {
+        Args: {
+          _user_id: string
+          _module: string
+          _action: string
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _user_id: string
@@ -1639,6 +3484,138 @@ export type Database = {
         }
         Returns: boolean
       }
+      has_stage_access: {
+        Args: {
+          _user_id: string
+          _stage: string
+        }
+        Returns: boolean
+      }
+      import_csv_rows: {
+        Args: {
+          p_dry_run?: boolean
+          p_file_name: string
+          p_file_type: string
+          p_rows: Json
+        }
+        Returns: Json
+      }
+      is_period_locked: {
+        Args: {
+          p_date: string
+        }
+        Returns: boolean
+      }
+      lock_stock_for_issue: {
+        Args: {
+          p_item_code: string
+          p_location_id: string
+          p_qty: number
+          p_returned_location_id?: string
+          p_returned_qty?: number
+        }
+        Returns: undefined
+      }
+      post_issue: {
+        Args: {
+          p_date: string
+          p_item_code: string
+          p_location_id: string
+          p_lot_allocations?: Json
+          p_production_stage?: string
+          p_purpose?: string
+          p_qty: number
+          p_remarks?: string
+          p_uiorn?: string
+        }
+        Returns: number
+      }
+      post_stock_count: {
+        Args: {
+          p_count_id: string
+        }
+        Returns: number
+      }
+      prune_expired_data: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      recalculate_all_valuations: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      recalculate_item_valuation: {
+        Args: {
+          p_item_code: string
+        }
+        Returns: undefined
+      }
+      record_tally_export: {
+        Args: {
+          p_file_name: string
+          p_from_date: string
+          p_grn_ids?: string[]
+          p_issue_ids?: string[]
+          p_to_date: string
+          p_voucher_count: number
+          p_voucher_type: string
+        }
+        Returns: string
+      }
+      reopen_accounting_period: {
+        Args: {
+          p_period_month: string
+          p_reason: string
+        }
+        Returns: undefined
+      }
+      request_entry_change: {
+        Args: {
+          p_entry_type: string
+          p_entry_id: string
+          p_action: string
+          p_new_values?: Json
+          p_reason?: string
+        }
+        Returns: string
+      }
+      review_entry_change: {
+        Args: {
+          p_request_id: string
+          p_approve: boolean
+          p_notes?: string
+        }
+        Returns: undefined
+      }
+      rollback_import_batch: {
+        Args: {
+          p_batch_id: string
+        }
+        Returns: Json
+      }
+      run_mrp: {
+        Args: {
+          p_horizon_days?: number
+          p_default_lead_time_days?: number
+        }
+        Returns: string
+      }
+      set_stock_count_status: {
+        Args: {
+          p_count_id: string
+          p_status: string
+        }
+        Returns: undefined
+      }
+      set_user_access: {
+        Args: {
+          p_user_id: string
+          p_role_id: string
+          p_is_admin: boolean
+          p_allowed_stages?: string[]
+        }
+        Returns: undefined
+      }
       validate_item_code_params: {
         Args: {
           category_name: string
@@ -0,0 +1,269 @@
+import { Fragment, useState } from "react"
+import { Link } from "react-router-dom"
+import { useQuery } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { useAuditTrail, type AuditTrailFilters } from "@/hooks/useAuditTrail"
+import {
+  auditSourceLabels,
+  diffAuditValues,
+  getAuditLink,
+  summarizeAuditChange,
+  type AuditEntry,
+  type AuditSource,
+} from "@/utils/auditTrail"
+import { AlertCircle, ChevronDown, ChevronRight, ExternalLink, RefreshCw } from "lucide-react"
+
+const ALL_USERS = "all"
+
+const actionVariants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  INSERT: "default",
+  UPDATE: "secondary",
+  DELETE: "destructive",
+}
+
+const AuditDiff = ({ entry }: { entry: AuditEntry }) => {
+  const [changedOnly, setChangedOnly] = useState(entry.action === "UPDATE")
+  const diffs = diffAuditValues(entry.oldValues, entry.newValues)
+  const shown = changedOnly ? diffs.filter(diff => diff.changed) : diffs
+
+  return (
+    <div className="space-y-2">
+      {entry.action === "UPDATE" && (
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id={`changed-only-${entry.id}`}
+            checked={changedOnly}
+            onCheckedChange={(checked) => setChangedOnly(checked === true)}
+          />
+          <Label htmlFor={`changed-only-${entry.id}`}>Changed fields only</Label>
+        </div>
+      )}
+      <div className="rounded-md border bg-background">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-48">Field</TableHead>
+              <TableHead>Before</TableHead>
+              <TableHead>After</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {shown.map(diff => (
+              <TableRow key={diff.field} className={diff.changed ? "bg-yellow-50" : undefined}>
+                <TableCell className="font-mono text-xs">{diff.field}</TableCell>
+                <TableCell className={`font-mono text-xs break-all ${diff.changed ? "text-red-700" : ""}`}>{diff.before || "-"}</TableCell>
+                <TableCell className={`font-mono text-xs break-all ${diff.changed ? "text-green-700" : ""}`}>{diff.after || "-"}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
+
+const AuditTrail = () => {
+  const [filters, setFilters] = useState<AuditTrailFilters>({
+    source: 'ALL',
+    userId: null,
+    fromDate: '',
+    toDate: '',
+    itemCode: '',
+  })
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const { data, isLoading, error, refetch } = useAuditTrail(filters)
+  const entries = data?.entries || []
+
+  const { data: users = [] } = useQuery({
+    queryKey: ['profiles'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, full_name')
+        .order('full_name')
+
+      if (error) throw error
+      return data || []
+    }
+  })
+
+  const userName = (userId: string | null) => {
+    if (!userId) return "System"
+    return data?.userNames.get(userId) || users.find(user => user.id === userId)?.full_name || "Unknown user"
+  }
+
+  const updateFilter = <K extends keyof AuditTrailFilters>(key: K, value: AuditTrailFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }))
+    setExpandedId(null)
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Audit Trail</h1>
+        <p className="text-muted-foreground">Every recorded change to transactions, master data, stock and user access</p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Error loading audit trail: {error.message}
+            <Button variant="outline" size="sm" onClick={() => refetch()} className="ml-2">
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Retry
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="audit-source">Table</Label>
+              <Select value={filters.source} onValueChange={(value) => updateFilter('source', value as AuditSource | 'ALL')}>
+                <SelectTrigger id="audit-source">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ALL">All tables</SelectItem>
+                  {(Object.keys(auditSourceLabels) as AuditSource[]).map(source => (
+                    <SelectItem key={source} value={source}>{auditSourceLabels[source]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-user">User</Label>
+              <Select value={filters.userId || ALL_USERS} onValueChange={(value) => updateFilter('userId', value === ALL_USERS ? null : value)}>
+                <SelectTrigger id="audit-user">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_USERS}>All users</SelectItem>
+                  {users.map(user => (
+                    <SelectItem key={user.id} value={user.id}>{user.full_name || user.id.slice(0, 8)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">From</Label>
+              <Input id="audit-from" type="date" value={filters.fromDate} onChange={(e) => updateFilter('fromDate', e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">To</Label>
+              <Input id="audit-to" type="date" value={filters.toDate} onChange={(e) => updateFilter('toDate', e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-item">Item Code</Label>
+              <Input
+                id="audit-item"
+                placeholder="Any item"
+                value={filters.itemCode}
+                onChange={(e) => updateFilter('itemCode', e.target.value)}
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Changes ({entries.length})</CardTitle>
+          <CardDescription>
+            {data?.truncated
+              ? "Showing the latest changes only; narrow the filters to see older ones"
+              : "Select a change to compare the record before and after"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8"></TableHead>
+                  <TableHead>When</TableHead>
+                  <TableHead>Table</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Record</TableHead>
+                  <TableHead>Changed</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead className="w-12"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center py-8">
+                      <RefreshCw className="h-4 w-4 animate-spin mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : entries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                      No changes found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  entries.map(entry => {
+                    const expanded = expandedId === entry.id
+                    const link = getAuditLink(entry)
+                    return (
+                      <Fragment key={`${entry.source}-${entry.id}`}>
+                        <TableRow className="cursor-pointer" onClick={() => setExpandedId(expanded ? null : entry.id)}>
+                          <TableCell>
+                            {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</TableCell>
+                          <TableCell>{auditSourceLabels[entry.source] || entry.source}</TableCell>
+                          <TableCell>
+                            <Badge variant={actionVariants[entry.action] || "outline"}>{entry.action}</Badge>
+                          </TableCell>
+                          <TableCell>
+                            <div className="font-mono text-sm">{entry.itemCode || entry.recordKey}</div>
+                          </TableCell>
+                          <TableCell className="max-w-64 truncate text-sm text-muted-foreground">{summarizeAuditChange(entry)}</TableCell>
+                          <TableCell>{userName(entry.userId)}</TableCell>
+                          <TableCell onClick={(e) => e.stopPropagation()}>
+                            {link && (
+                              <Button variant="ghost" size="sm" asChild>
+                                <Link to={link} title="Open affected record">
+                                  <ExternalLink className="h-4 w-4" />
+                                </Link>
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                        {expanded && (
+                          <TableRow>
+                            <TableCell colSpan={8} className="bg-muted/30">
+                              <AuditDiff entry={entry} />
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </Fragment>
+                    )
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default AuditTrail
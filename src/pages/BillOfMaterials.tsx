@@ -0,0 +1,401 @@
+import { Fragment, useState } from "react"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { BOMFormDialog } from "@/components/bom/BOMFormDialog"
+import { BOMRequirements } from "@/components/bom/BOMRequirements"
+import { BOMConsumptionReport } from "@/components/bom/BOMConsumptionReport"
+import { useBOMs, type BOMWithLines } from "@/hooks/useBOMs"
+import { usePermissions } from "@/hooks/usePermission"
+import { useToast } from "@/hooks/use-toast"
+import { bomStatusLabels, formatBOMVersion, type BOMStatus } from "@/utils/bom"
+import {
+  AlertTriangle,
+  CheckCircle,
+  ChevronDown,
+  ChevronRight,
+  Copy,
+  Edit,
+  FileText,
+  Layers,
+  Plus,
+  RefreshCw,
+  Search,
+  Trash2
+} from "lucide-react"
+
+const getBOMStatusBadge = (status: string) => {
+  const label = bomStatusLabels[status as BOMStatus] || status
+  switch (status) {
+    case 'ACTIVE':
+      return <Badge variant="default" className="bg-green-100 text-green-800">{label}</Badge>
+    case 'ARCHIVED':
+      return <Badge variant="secondary">{label}</Badge>
+    default:
+      return <Badge variant="outline">{label}</Badge>
+  }
+}
+
+const BillOfMaterials = () => {
+  const [searchTerm, setSearchTerm] = useState("")
+  const [statusFilter, setStatusFilter] = useState("all")
+  const [expandedBOM, setExpandedBOM] = useState<string | null>(null)
+  const [formOpen, setFormOpen] = useState(false)
+  const [editingBOM, setEditingBOM] = useState<BOMWithLines | null>(null)
+  const [copyFromBOM, setCopyFromBOM] = useState<BOMWithLines | null>(null)
+  const { can } = usePermissions()
+  const canEdit = can('production', 'edit')
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const { data: boms = [], isLoading, error, refetch } = useBOMs()
+
+  const activateBOMMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.rpc('activate_bom', { p_bom_id: id })
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['boms'] })
+      toast({
+        title: "Success",
+        description: "BOM activated; the previous active version has been archived",
+      })
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  })
+
+  const deleteBOMMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('bom_headers')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['boms'] })
+      toast({
+        title: "Success",
+        description: "Draft BOM deleted",
+      })
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  })
+
+  const filteredBOMs = boms.filter(bom => {
+    const term = searchTerm.toLowerCase()
+    const matchesSearch = !term ||
+      bom.item_code.toLowerCase().includes(term) ||
+      bom.item_master?.item_name?.toLowerCase().includes(term)
+    const matchesStatus = statusFilter === "all" || bom.status === statusFilter
+    return matchesSearch && matchesStatus
+  })
+
+  const activeCount = boms.filter(bom => bom.status === 'ACTIVE').length
+  const draftCount = boms.filter(bom => bom.status === 'DRAFT').length
+  const finishedItemCount = new Set(boms.map(bom => bom.item_code)).size
+
+  const openForm = (bom: BOMWithLines | null, copyFrom: BOMWithLines | null) => {
+    setEditingBOM(bom)
+    setCopyFromBOM(copyFrom)
+    setFormOpen(true)
+  }
+
+  const handleActivate = (bom: BOMWithLines) => {
+    if (window.confirm(`Activate ${bom.item_code} ${formatBOMVersion(bom.version)}? It will be frozen and any currently active version archived.`)) {
+      activateBOMMutation.mutate(bom.id)
+    }
+  }
+
+  const handleDelete = (id: string) => {
+    if (window.confirm('Are you sure you want to delete this draft BOM? This action cannot be undone.')) {
+      deleteBOMMutation.mutate(id)
+    }
+  }
+
+  if (error) {
+    return (
+      <div className="p-6">
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            Error loading bills of materials: {error.message}
+            <Button variant="outline" size="sm" onClick={() => refetch()} className="ml-2">
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Retry
+            </Button>
+          </AlertDescription>
+        </Alert>
+      </div>
+    )
+  }
+
+  const colSpan = canEdit ? 8 : 7
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Bill of Materials</h1>
+          <p className="text-muted-foreground">Versioned component lists for finished items, with scrap allowances</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => refetch()}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+          {can('production', 'create') && (
+            <Button onClick={() => openForm(null, null)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Create BOM
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Statistics */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Finished Items</CardTitle>
+            <Layers className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{finishedItemCount}</div>
+            <p className="text-xs text-muted-foreground">With at least one BOM version</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Active BOMs</CardTitle>
+            <CheckCircle className="h-4 w-4 text-green-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">{activeCount}</div>
+            <p className="text-xs text-muted-foreground">Used for new jobs</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Drafts</CardTitle>
+            <FileText className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{draftCount}</div>
+            <p className="text-xs text-muted-foreground">Awaiting activation</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="boms" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="boms">BOMs</TabsTrigger>
+          <TabsTrigger value="requirements">Requirements</TabsTrigger>
+          <TabsTrigger value="consumption">Planned vs Actual</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="boms">
+          <Card>
+            <CardHeader>
+              <CardTitle>BOM Versions</CardTitle>
+              <CardDescription>
+                Active and archived versions are frozen; create a new version to change components
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex gap-4">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Search finished item..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="pl-9"
+                  />
+                </div>
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All statuses</SelectItem>
+                    {Object.entries(bomStatusLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-8"></TableHead>
+                      <TableHead>Finished Item</TableHead>
+                      <TableHead>Version</TableHead>
+                      <TableHead>Components</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Activated</TableHead>
+                      <TableHead>Remarks</TableHead>
+                      {canEdit && <TableHead>Actions</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {isLoading ? (
+                      <TableRow>
+                        <TableCell colSpan={colSpan} className="text-center py-8">
+                          <RefreshCw className="h-4 w-4 animate-spin mx-auto" />
+                        </TableCell>
+                      </TableRow>
+                    ) : filteredBOMs.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={colSpan} className="text-center py-8 text-muted-foreground">
+                          No bills of materials found
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      filteredBOMs.map(bom => {
+                        const isExpanded = expandedBOM === bom.id
+                        return (
+                          <Fragment key={bom.id}>
+                            <TableRow
+                              className="cursor-pointer"
+                              onClick={() => setExpandedBOM(isExpanded ? null : bom.id)}
+                            >
+                              <TableCell>
+                                {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                              </TableCell>
+                              <TableCell>
+                                <div className="font-medium">{bom.item_master?.item_name || bom.item_code}</div>
+                                <div className="text-xs text-muted-foreground">{bom.item_code}</div>
+                              </TableCell>
+                              <TableCell className="font-mono">{formatBOMVersion(bom.version)}</TableCell>
+                              <TableCell>{bom.bom_lines.length}</TableCell>
+                              <TableCell>{getBOMStatusBadge(bom.status)}</TableCell>
+                              <TableCell>
+                                {bom.activated_at ? new Date(bom.activated_at).toLocaleDateString() : '-'}
+                              </TableCell>
+                              <TableCell className="max-w-xs truncate">{bom.remarks || '-'}</TableCell>
+                              {canEdit && (
+                                <TableCell onClick={(e) => e.stopPropagation()}>
+                                  <div className="flex gap-2">
+                                    {bom.status === 'DRAFT' ? (
+                                      <>
+                                        {can('production', 'approve') && (
+                                          <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() => handleActivate(bom)}
+                                            disabled={activateBOMMutation.isPending}
+                                          >
+                                            <CheckCircle className="h-4 w-4 mr-1" />
+                                            Activate
+                                          </Button>
+                                        )}
+                                        <Button size="sm" variant="outline" onClick={() => openForm(bom, null)}>
+                                          <Edit className="h-4 w-4" />
+                                        </Button>
+                                        {can('production', 'delete') && (
+                                          <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() => handleDelete(bom.id)}
+                                            disabled={deleteBOMMutation.isPending}
+                                          >
+                                            <Trash2 className="h-4 w-4" />
+                                          </Button>
+                                        )}
+                                      </>
+                                    ) : (
+                                      <Button size="sm" variant="outline" onClick={() => openForm(null, bom)}>
+                                        <Copy className="h-4 w-4 mr-1" />
+                                        New Version
+                                      </Button>
+                                    )}
+                                  </div>
+                                </TableCell>
+                              )}
+                            </TableRow>
+                            {isExpanded && (
+                              <TableRow className="bg-muted/50 hover:bg-muted/50">
+                                <TableCell colSpan={colSpan} className="p-4">
+                                  <Table>
+                                    <TableHeader>
+                                      <TableRow>
+                                        <TableHead>Component</TableHead>
+                                        <TableHead>Qty / Unit</TableHead>
+                                        <TableHead>Scrap %</TableHead>
+                                        <TableHead>UOM</TableHead>
+                                      </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                      {bom.bom_lines.map(line => (
+                                        <TableRow key={line.id}>
+                                          <TableCell>
+                                            <div className="font-medium">{line.item_master?.item_name || line.component_item_code}</div>
+                                            <div className="text-xs text-muted-foreground">{line.component_item_code}</div>
+                                          </TableCell>
+                                          <TableCell>{line.qty_per_unit}</TableCell>
+                                          <TableCell>{line.scrap_pct}%</TableCell>
+                                          <TableCell>{line.item_master?.uom}</TableCell>
+                                        </TableRow>
+                                      ))}
+                                    </TableBody>
+                                  </Table>
+                                </TableCell>
+                              </TableRow>
+                            )}
+                          </Fragment>
+                        )
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="requirements">
+          <BOMRequirements boms={boms} />
+        </TabsContent>
+
+        <TabsContent value="consumption">
+          <BOMConsumptionReport />
+        </TabsContent>
+      </Tabs>
+
+      <BOMFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        bom={editingBOM}
+        copyFrom={copyFromBOM}
+      />
+    </div>
+  )
+}
+
+export default BillOfMaterials
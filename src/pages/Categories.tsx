@@ -7,6 +7,7 @@ import { Button } from "@/components/ui/button"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
 import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { 
   Table, 
   TableBody, 
@@ -34,11 +35,105 @@ import {
 } from "lucide-react"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { useToast } from "@/hooks/use-toast"
+import { getValuationMethodLabel, valuationMethodLabels, valuationMethods } from "@/utils/valuation"
+
+// Default reorder levels applied to items in the category that don't set their own
+const defaultLevelFields = [
+  { field: 'default_min_level', label: 'Min Level' },
+  { field: 'default_reorder_point', label: 'Reorder Point' },
+  { field: 'default_safety_stock', label: 'Safety Stock' },
+  { field: 'default_max_level', label: 'Max Level' },
+] as const
+
+type DefaultLevelField = typeof defaultLevelFields[number]['field']
+type DefaultLevels = Record<DefaultLevelField, number | null>
+
+interface CategoryData extends Partial<DefaultLevels> {
+  category_name: string
+  description?: string
+  valuation_method?: string
+}
+
+const emptyLevels: Record<DefaultLevelField, string> = {
+  default_min_level: '',
+  default_reorder_point: '',
+  default_safety_stock: '',
+  default_max_level: '',
+}
+
+const parseLevels = (values: Record<string, unknown>): DefaultLevels => {
+  const levels = {} as DefaultLevels
+  defaultLevelFields.forEach(({ field }) => {
+    const value = values[field]
+    levels[field] = value === '' || value === null || value === undefined || isNaN(Number(value)) ? null : Number(value)
+  })
+  return levels
+}
+
+const DefaultLevelInputs = ({
+  idPrefix,
+  values,
+  onChange
+}: {
+  idPrefix: string
+  values: Record<string, unknown>
+  onChange: (field: DefaultLevelField, value: string) => void
+}) => (
+  <div className="space-y-2">
+    <Label>Default Reorder Levels</Label>
+    <div className="grid grid-cols-2 gap-2">
+      {defaultLevelFields.map(({ field, label }) => (
+        <div key={field} className="space-y-1">
+          <Label htmlFor={`${idPrefix}-${field}`} className="text-xs text-muted-foreground">{label}</Label>
+          <Input
+            id={`${idPrefix}-${field}`}
+            type="number"
+            min="0"
+            step="any"
+            value={(values[field] as string | number | null) ?? ''}
+            onChange={(e) => onChange(field, e.target.value)}
+            placeholder="Not set"
+          />
+        </div>
+      ))}
+    </div>
+    <p className="text-xs text-muted-foreground">
+      Used for stock alerts on items in this category that don't have their own levels.
+    </p>
+  </div>
+)
+
+const ValuationMethodSelect = ({
+  id,
+  value,
+  onChange
+}: {
+  id: string
+  value: string
+  onChange: (value: string) => void
+}) => (
+  <div className="space-y-2">
+    <Label htmlFor={id}>Valuation Method</Label>
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {valuationMethods.map(method => (
+          <SelectItem key={method} value={method}>{valuationMethodLabels[method]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+    <p className="text-xs text-muted-foreground">
+      How issues are costed and closing stock is valued for items in this category.
+    </p>
+  </div>
+)
 
 const Categories = () => {
   const [isCreateOpen, setIsCreateOpen] = useState(false)
   const [editingCategory, setEditingCategory] = useState<any>(null)
-  const [newCategory, setNewCategory] = useState({ name: '', description: '' })
+  const [newCategory, setNewCategory] = useState({ name: '', description: '', valuation_method: 'WEIGHTED_AVERAGE', ...emptyLevels })
   const { toast } = useToast()
   const queryClient = useQueryClient()
 
@@ -76,7 +171,7 @@ const Categories = () => {
   })
 
   const createCategoryMutation = useMutation({
-    mutationFn: async (categoryData: { category_name: string, description?: string }) => {
+    mutationFn: async (categoryData: CategoryData) => {
       const { data, error } = await supabase
         .from('categories')
         .insert(categoryData)
@@ -93,7 +188,7 @@ const Categories = () => {
         description: "Category created successfully",
       })
       setIsCreateOpen(false)
-      setNewCategory({ name: '', description: '' })
+      setNewCategory({ name: '', description: '', valuation_method: 'WEIGHTED_AVERAGE', ...emptyLevels })
     },
     onError: (error) => {
       toast({
@@ -105,7 +200,7 @@ const Categories = () => {
   })
 
   const updateCategoryMutation = useMutation({
-    mutationFn: async ({ id, categoryData }: { id: string, categoryData: { category_name: string, description?: string } }) => {
+    mutationFn: async ({ id, categoryData }: { id: string, categoryData: CategoryData }) => {
       const { data, error } = await supabase
         .from('categories')
         .update(categoryData)
@@ -117,6 +212,9 @@ const Categories = () => {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['categories-management'] })
+      queryClient.invalidateQueries({ queryKey: ['stock-summary'] })
+      queryClient.invalidateQueries({ queryKey: ['stock-alerts'] })
+      queryClient.invalidateQueries({ queryKey: ['stock-summary-detailed'] })
       toast({
         title: "Success",
         description: "Category updated successfully",
@@ -184,7 +282,9 @@ const Categories = () => {
     
     createCategoryMutation.mutate({
       category_name: newCategory.name.trim(),
-      description: newCategory.description.trim() || undefined
+      description: newCategory.description.trim() || undefined,
+      valuation_method: newCategory.valuation_method,
+      ...parseLevels(newCategory)
     })
   }
 
@@ -203,7 +303,9 @@ const Categories = () => {
       id: editingCategory.id,
       categoryData: {
         category_name: editingCategory.category_name.trim(),
-        description: editingCategory.description?.trim() || undefined
+        description: editingCategory.description?.trim() || undefined,
+        valuation_method: editingCategory.valuation_method,
+        ...parseLevels(editingCategory)
       }
     })
   }
@@ -277,6 +379,16 @@ const Categories = () => {
                     placeholder="Enter category description"
                   />
                 </div>
+                <ValuationMethodSelect
+                  id="category-valuation-method"
+                  value={newCategory.valuation_method}
+                  onChange={(value) => setNewCategory({ ...newCategory, valuation_method: value })}
+                />
+                <DefaultLevelInputs
+                  idPrefix="category"
+                  values={newCategory}
+                  onChange={(field, value) => setNewCategory({ ...newCategory, [field]: value })}
+                />
                 <div className="flex justify-end gap-2">
                   <Button type="button" variant="outline" onClick={() => setIsCreateOpen(false)}>
                     Cancel
@@ -349,6 +461,8 @@ const Categories = () => {
                   <TableHead>Category Name</TableHead>
                   <TableHead>Description</TableHead>
                   <TableHead>Items Count</TableHead>
+                  <TableHead>Default Min / ROP / Safety / Max</TableHead>
+                  <TableHead>Valuation</TableHead>
                   <TableHead>Created</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
@@ -356,7 +470,7 @@ const Categories = () => {
               <TableBody>
                 {isLoading ? (
                   <TableRow>
-                    <TableCell colSpan={5} className="text-center py-8">
+                    <TableCell colSpan={7} className="text-center py-8">
                       <div className="flex items-center justify-center">
                         <RefreshCw className="h-4 w-4 animate-spin mr-2" />
                         Loading categories...
@@ -365,7 +479,7 @@ const Categories = () => {
                   </TableRow>
                 ) : categories?.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={5} className="text-center py-8">
+                    <TableCell colSpan={7} className="text-center py-8">
                       No categories found. Create your first category to get started.
                     </TableCell>
                   </TableRow>
@@ -381,6 +495,12 @@ const Categories = () => {
                           {itemCounts?.[category.category_name] || 0} items
                         </Badge>
                       </TableCell>
+                      <TableCell className="font-mono text-xs text-muted-foreground">
+                        {defaultLevelFields.map(({ field }) => category[field] ?? '-').join(' / ')}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{getValuationMethodLabel(category.valuation_method)}</Badge>
+                      </TableCell>
                       <TableCell className="text-sm text-muted-foreground">
                         {new Date(category.created_at).toLocaleDateString()}
                       </TableCell>
@@ -448,6 +568,22 @@ const Categories = () => {
                   placeholder="Enter category description"
                 />
               </div>
+              <ValuationMethodSelect
+                id="edit-category-valuation-method"
+                value={editingCategory.valuation_method}
+                onChange={(value) => setEditingCategory({
+                  ...editingCategory,
+                  valuation_method: value
+                })}
+              />
+              <DefaultLevelInputs
+                idPrefix="edit-category"
+                values={editingCategory}
+                onChange={(field, value) => setEditingCategory({
+                  ...editingCategory,
+                  [field]: value
+                })}
+              />
               <div className="flex justify-end gap-2">
                 <Button type="button" variant="outline" onClick={() => setEditingCategory(null)}>
                   Cancel
@@ -0,0 +1,216 @@
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { useAuth } from "@/contexts/AuthContext"
+import { usePermissions } from "@/hooks/usePermission"
+import { useToast } from "@/hooks/use-toast"
+import { useChangeRequests, useReviewEntryChange } from "@/hooks/useChangeRequests"
+import { useStorageLocations } from "@/hooks/useStorageLocations"
+import {
+  changeEntryModules,
+  changeRequestStatusLabels,
+  describeChangeEntry,
+  getFieldChanges,
+  type ChangeEntryType,
+  type ChangeRequestStatus,
+} from "@/utils/changeRequests"
+import { AlertCircle, ArrowRight, Check, RefreshCw, X } from "lucide-react"
+
+const statusVariants: Record<ChangeRequestStatus, "default" | "secondary" | "destructive"> = {
+  PENDING: "secondary",
+  APPROVED: "default",
+  REJECTED: "destructive",
+}
+
+type Values = Record<string, unknown> | null
+
+const ChangeRequests = () => {
+  const [view, setView] = useState<"PENDING" | "ALL">("PENDING")
+  const { user } = useAuth()
+  const { can } = usePermissions()
+  const { toast } = useToast()
+  const { data: requests = [], isLoading, error, refetch } = useChangeRequests(view)
+  const { data: locations = [] } = useStorageLocations()
+  const reviewMutation = useReviewEntryChange()
+
+  const locationNames = new Map(locations.map(location => [location.id, location.location_name]))
+
+  const formatValue = (field: string, value: unknown) => {
+    if (value === null || value === undefined || value === '') return '-'
+    if (field === 'location_id') return locationNames.get(String(value)) || String(value)
+    return String(value)
+  }
+
+  const handleReview = (requestId: string, approve: boolean) => {
+    let notes: string | undefined
+    if (approve) {
+      if (!window.confirm("Apply this change? Stock will be updated straight away.")) return
+    } else {
+      const reason = window.prompt("Why is this change being rejected? (optional)")
+      if (reason === null) return
+      notes = reason
+    }
+
+    reviewMutation.mutate({ requestId, approve, notes }, {
+      onSuccess: () => {
+        toast({
+          title: approve ? "Change Applied" : "Change Rejected",
+          description: approve ? "The entry and stock have been updated" : "The requester has been told",
+        })
+      },
+      onError: (error) => {
+        toast({
+          title: "Error",
+          description: error.message,
+          variant: "destructive",
+        })
+      }
+    })
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Change Requests</h1>
+        <p className="text-muted-foreground">Edits and deletions of posted GRNs and issues wait here until a second person approves them</p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Error loading change requests: {error.message}
+            <Button variant="outline" size="sm" onClick={() => refetch()} className="ml-2">
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Retry
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-start">
+            <div>
+              <CardTitle>{view === "PENDING" ? "Waiting for Approval" : "All Requests"}</CardTitle>
+              <CardDescription>You can review changes other people requested on entries you are allowed to approve</CardDescription>
+            </div>
+            <Tabs value={view} onValueChange={(value) => setView(value as "PENDING" | "ALL")}>
+              <TabsList>
+                <TabsTrigger value="PENDING">Pending</TabsTrigger>
+                <TabsTrigger value="ALL">History</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Requested</TableHead>
+                  <TableHead>Entry</TableHead>
+                  <TableHead>Change</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-40"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8">
+                      <RefreshCw className="h-4 w-4 animate-spin mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : requests.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                      {view === "PENDING" ? "Nothing waiting for approval" : "No change requests yet"}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  requests.map(request => {
+                    const entryType = request.entry_type as ChangeEntryType
+                    const status = request.status as ChangeRequestStatus
+                    const oldValues = request.old_values as Values
+                    const canReview = status === "PENDING"
+                      && request.requested_by !== user?.id
+                      && can(changeEntryModules[entryType], "approve")
+
+                    return (
+                      <TableRow key={request.id}>
+                        <TableCell className="whitespace-nowrap">
+                          <div>{new Date(request.requested_at).toLocaleString()}</div>
+                          <div className="text-xs text-muted-foreground">{request.requested_by_name || "Unknown user"}</div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{describeChangeEntry(entryType, oldValues)}</div>
+                          <div className="text-xs text-muted-foreground">Qty {String(oldValues?.[entryType === "grn" ? "qty_received" : "qty_issued"] ?? "-")}</div>
+                        </TableCell>
+                        <TableCell>
+                          {request.action === "DELETE" ? (
+                            <Badge variant="destructive">Delete entry</Badge>
+                          ) : (
+                            <div className="space-y-1">
+                              {getFieldChanges(entryType, oldValues, request.new_values as Values).map(change => (
+                                <div key={change.field} className="flex items-center gap-2 text-sm">
+                                  <span className="text-muted-foreground">{change.label}:</span>
+                                  <span className="line-through text-muted-foreground">{formatValue(change.field, change.from)}</span>
+                                  <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                                  <span className="font-medium">{formatValue(change.field, change.to)}</span>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>{request.reason || "-"}</TableCell>
+                        <TableCell>
+                          <Badge variant={statusVariants[status]}>{changeRequestStatusLabels[status]}</Badge>
+                          {request.reviewed_at && (
+                            <div className="text-xs text-muted-foreground mt-1">
+                              {request.reviewed_by_name || "Unknown user"}, {new Date(request.reviewed_at).toLocaleDateString()}
+                              {request.review_notes && <div>{request.review_notes}</div>}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {canReview && (
+                            <div className="flex gap-2">
+                              <Button
+                                size="sm"
+                                onClick={() => handleReview(request.id, true)}
+                                disabled={reviewMutation.isPending}
+                              >
+                                <Check className="h-4 w-4 mr-1" />
+                                Approve
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleReview(request.id, false)}
+                                disabled={reviewMutation.isPending}
+                              >
+                                <X className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default ChangeRequests
@@ -2,9 +2,13 @@ import { useQuery } from "@tanstack/react-query"
 import { supabase } from "@/integrations/supabase/client"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { Package, TrendingUp, AlertTriangle, ShoppingCart, BarChart3, PieChart } from "lucide-react"
+import { Package, TrendingUp, AlertTriangle, ShoppingCart, BarChart3, PieChart, IndianRupee, MapPin } from "lucide-react"
 import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent } from "@/components/ui/chart"
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, PieChart as RechartsPieChart, Pie, Cell, LineChart, Line, Area, AreaChart } from "recharts"
+import { getStockStatus, needsReorder, stockStatusLabels, type StockStatus } from "@/utils/stockStatus"
+import { formatINR, getStockValueByCategory } from "@/utils/valuation"
+import { getStockByLocation } from "@/utils/locations"
+import { useLocationStock } from "@/hooks/useLocationStock"
 
 const Dashboard = () => {
   const { data: stockSummary } = useQuery({
@@ -20,6 +24,8 @@ const Dashboard = () => {
     }
   })
 
+  const { data: locationStock = [] } = useLocationStock()
+
   const { data: recentGRNs } = useQuery({
     queryKey: ['recent-grns'],
     queryFn: async () => {
@@ -90,8 +96,11 @@ const Dashboard = () => {
   })
 
   const totalItems = stockSummary?.length || 0
-  const lowStockItems = stockSummary?.filter(item => (item.current_qty || 0) < 10).length || 0
+  const lowStockItems = stockSummary?.filter(needsReorder).length || 0
   const totalValue = stockSummary?.reduce((sum, item) => sum + (item.current_qty || 0), 0) || 0
+  const totalStockValue = stockSummary?.reduce((sum, item) => sum + (item.stock_value || 0), 0) || 0
+  const topValueCategory = getStockValueByCategory(stockSummary || [])[0]
+  const stockByLocation = getStockByLocation(locationStock)
 
   // Process data for charts
   const categoryData = stockSummary?.reduce((acc, item) => {
@@ -106,12 +115,20 @@ const Dashboard = () => {
 
   const categoryChartData = Object.values(categoryData || {})
   
-  const stockLevelDistribution = [
-    { name: 'High Stock (100+)', value: stockSummary?.filter(item => (item.current_qty || 0) >= 100).length || 0, color: '#10B981' },
-    { name: 'Medium Stock (10-99)', value: stockSummary?.filter(item => (item.current_qty || 0) >= 10 && (item.current_qty || 0) < 100).length || 0, color: '#F59E0B' },
-    { name: 'Low Stock (<10)', value: stockSummary?.filter(item => (item.current_qty || 0) < 10).length || 0, color: '#EF4444' },
-    { name: 'Zero Stock', value: stockSummary?.filter(item => (item.current_qty || 0) === 0).length || 0, color: '#6B7280' }
-  ]
+  const statusColors: Record<StockStatus, string> = {
+    NORMAL: '#10B981',
+    OVERSTOCK: '#3B82F6',
+    LOW: '#F59E0B',
+    CRITICAL: '#EF4444',
+    OUT_OF_STOCK: '#6B7280',
+    NOT_CONFIGURED: '#D1D5DB'
+  }
+
+  const stockLevelDistribution = (Object.keys(statusColors) as StockStatus[]).map(status => ({
+    name: stockStatusLabels[status],
+    value: stockSummary?.filter(item => getStockStatus(item) === status).length || 0,
+    color: statusColors[status]
+  }))
 
   const chartConfig = {
     grn: {
@@ -139,7 +156,7 @@ const Dashboard = () => {
       </div>
 
       {/* Key Metrics */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Total Items</CardTitle>
@@ -158,7 +175,7 @@ const Dashboard = () => {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-red-600">{lowStockItems}</div>
-            <p className="text-xs text-muted-foreground">Items below threshold</p>
+            <p className="text-xs text-muted-foreground">Items at or below reorder point</p>
           </CardContent>
         </Card>
 
@@ -173,6 +190,19 @@ const Dashboard = () => {
           </CardContent>
         </Card>
 
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Stock Value</CardTitle>
+            <IndianRupee className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatINR(totalStockValue)}</div>
+            <p className="text-xs text-muted-foreground">
+              {topValueCategory?.value ? `Largest: ${topValueCategory.category}` : 'Inventory at cost'}
+            </p>
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Recent Transactions</CardTitle>
@@ -235,7 +265,7 @@ const Dashboard = () => {
               <PieChart className="mr-2 h-4 w-4" />
               Stock Level Distribution
             </CardTitle>
-            <CardDescription>Items distribution by stock levels</CardDescription>
+            <CardDescription>Items distribution by reorder status</CardDescription>
           </CardHeader>
           <CardContent>
             <ChartContainer config={{}} className="h-[300px]">
@@ -281,6 +311,43 @@ const Dashboard = () => {
         </CardContent>
       </Card>
 
+      {/* Location Analysis */}
+      {stockByLocation.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <MapPin className="mr-2 h-4 w-4" />
+              Stock by Location
+            </CardTitle>
+            <CardDescription>Inventory value held at each store, floor and godown</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <ChartContainer config={{}} className="h-[250px] lg:col-span-2">
+                <BarChart data={stockByLocation}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="location_name" />
+                  <YAxis />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="value" fill="hsl(var(--chart-3))" name="Stock Value (INR)" />
+                </BarChart>
+              </ChartContainer>
+              <div className="space-y-3">
+                {stockByLocation.map(entry => (
+                  <div key={entry.location_id} className="flex items-center justify-between p-2 border rounded">
+                    <div>
+                      <p className="font-medium">{entry.location_name}</p>
+                      <p className="text-sm text-muted-foreground">{entry.item_count} items</p>
+                    </div>
+                    <p className="font-mono">{formatINR(entry.value)}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Stock Status */}
         <Card>
@@ -0,0 +1,217 @@
+import { useQuery } from "@tanstack/react-query"
+import { useSearchParams } from "react-router-dom"
+import { supabase } from "@/integrations/supabase/client"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ImportBatchRows } from "@/components/imports/ImportBatchRows"
+import { usePermission } from "@/hooks/usePermission"
+import { buildErrorReport, getUploadErrors, importFileTypeLabels } from "@/utils/csvImport"
+import { AlertCircle, CheckCircle, Download, FileUp, RefreshCw, Undo2, XCircle } from "lucide-react"
+
+const statusBadges: Record<string, { label: string, variant: "default" | "secondary" | "destructive" }> = {
+  COMMITTED: { label: "Committed", variant: "default" },
+  FAILED: { label: "Failed", variant: "destructive" },
+  ROLLED_BACK: { label: "Rolled Back", variant: "secondary" },
+}
+
+const ImportHistory = () => {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const selectedBatchId = searchParams.get('batch')
+  const canView = usePermission('imports', 'view')
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['csv-upload-log'],
+    enabled: canView,
+    queryFn: async () => {
+      const { data: uploads, error } = await supabase
+        .from('csv_upload_log')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(200)
+
+      if (error) throw error
+
+      const userIds = [...new Set((uploads || []).map(upload => upload.user_id))]
+      const { data: profiles } = userIds.length > 0
+        ? await supabase.from('profiles').select('id, full_name').in('id', userIds)
+        : { data: [] }
+
+      const userNames = new Map((profiles || []).map(profile => [profile.id, profile.full_name]))
+      return (uploads || []).map(upload => ({
+        ...upload,
+        user_name: userNames.get(upload.user_id) || null,
+      }))
+    }
+  })
+
+  const uploads = data || []
+
+  if (!canView) {
+    return (
+      <div className="p-6">
+        <div className="text-center py-8 text-muted-foreground">
+          <FileUp className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p>You don't have permission to view import history</p>
+        </div>
+      </div>
+    )
+  }
+
+  const downloadErrorReport = (upload: typeof uploads[number]) => {
+    const blob = new Blob([buildErrorReport(getUploadErrors(upload.errors))], { type: 'text/csv' })
+    const url = window.URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `${upload.file_name.replace(/\.csv$/i, '')}_errors.csv`
+    a.click()
+    window.URL.revokeObjectURL(url)
+  }
+
+  const selectedBatch = uploads.find(upload => upload.id === selectedBatchId)
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Import History</h1>
+        <p className="text-muted-foreground">Every CSV upload with its results; select one to see the rows it created or roll it back</p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Error loading import history: {error.message}
+            <Button variant="outline" size="sm" onClick={() => refetch()} className="ml-2">
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Retry
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Committed</CardTitle>
+            <CheckCircle className="h-4 w-4 text-green-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">{uploads.filter(upload => upload.status === 'COMMITTED').length}</div>
+            <p className="text-xs text-muted-foreground">Uploads saved in full</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Failed</CardTitle>
+            <XCircle className="h-4 w-4 text-red-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600">{uploads.filter(upload => upload.status === 'FAILED').length}</div>
+            <p className="text-xs text-muted-foreground">Rejected with nothing saved</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Rolled Back</CardTitle>
+            <Undo2 className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{uploads.filter(upload => upload.status === 'ROLLED_BACK').length}</div>
+            <p className="text-xs text-muted-foreground">Undone after upload</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {selectedBatch && <ImportBatchRows key={selectedBatch.id} batch={selectedBatch} />}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Uploads ({uploads.length})</CardTitle>
+          <CardDescription>Most recent first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Uploaded</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>File</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Rows</TableHead>
+                  <TableHead className="text-right">Saved</TableHead>
+                  <TableHead className="text-right">Errors</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Error Report</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center py-8">
+                      <RefreshCw className="h-4 w-4 animate-spin mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : uploads.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">
+                      No CSV uploads yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  uploads.map(upload => {
+                    const status = statusBadges[upload.status] || { label: upload.status, variant: "secondary" as const }
+                    return (
+                      <TableRow
+                        key={upload.id}
+                        className={`cursor-pointer ${upload.id === selectedBatchId ? 'bg-muted/50' : ''}`}
+                        onClick={() => setSearchParams({ batch: upload.id })}
+                      >
+                        <TableCell className="whitespace-nowrap">{upload.created_at ? new Date(upload.created_at).toLocaleString() : '-'}</TableCell>
+                        <TableCell>{upload.user_name || <span className="text-muted-foreground">Unknown</span>}</TableCell>
+                        <TableCell className="font-medium">{upload.file_name}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{importFileTypeLabels[upload.file_type] || upload.file_type}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right font-mono">{upload.total_rows}</TableCell>
+                        <TableCell className="text-right font-mono text-green-600">{upload.success_rows}</TableCell>
+                        <TableCell className={`text-right font-mono ${upload.error_rows > 0 ? 'text-red-600 font-bold' : ''}`}>{upload.error_rows}</TableCell>
+                        <TableCell>
+                          <Badge variant={status.variant}>{status.label}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          {getUploadErrors(upload.errors).length > 0 ? (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={(e) => {
+                                e.stopPropagation()
+                                downloadErrorReport(upload)
+                              }}
+                            >
+                              <Download className="h-4 w-4 mr-1" />
+                              CSV
+                            </Button>
+                          ) : (
+                            <span className="text-muted-foreground">-</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default ImportHistory
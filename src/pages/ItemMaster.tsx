@@ -365,6 +365,9 @@ const ItemMaster = () => {
                       <th className="text-left p-2">Category</th>
                       <th className="text-left p-2">Current Stock</th>
                       <th className="text-left p-2">UOM</th>
+                      <th className="text-left p-2" title="Blank values fall back to the category defaults">
+                        Min / ROP / Safety / Max
+                      </th>
                       <th className="text-left p-2">Status</th>
                       <th className="text-left p-2">Actions</th>
                     </tr>
@@ -372,11 +375,11 @@ const ItemMaster = () => {
                   <tbody>
                     {isLoading ? (
                       <tr>
-                        <td colSpan={8} className="text-center p-4">Loading...</td>
+                        <td colSpan={9} className="text-center p-4">Loading...</td>
                       </tr>
                     ) : items?.length === 0 ? (
                       <tr>
-                        <td colSpan={8} className="text-center p-4">No items found</td>
+                        <td colSpan={9} className="text-center p-4">No items found</td>
                       </tr>
                     ) : (
                       items?.map((item) => (
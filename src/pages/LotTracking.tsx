@@ -0,0 +1,199 @@
+import { useMemo, useState } from "react"
+import { useSearchParams } from "react-router-dom"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ExpiryBadge } from "@/components/lots/ExpiryBadge"
+import { LotTraceability } from "@/components/lots/LotTraceability"
+import { useStockLots } from "@/hooks/useStockLots"
+import { AlertCircle, AlertTriangle, Boxes, Clock, RefreshCw, Search, XCircle } from "lucide-react"
+
+const LotTracking = () => {
+  const [searchTerm, setSearchTerm] = useState("")
+  const [statusFilter, setStatusFilter] = useState("open")
+  const [searchParams, setSearchParams] = useSearchParams()
+  const selectedLotId = searchParams.get('lot')
+
+  const { data: lots = [], isLoading, error, refetch } = useStockLots()
+
+  const openLots = lots.filter(lot => (lot.remaining_qty || 0) > 0)
+  const expiringCount = openLots.filter(lot => lot.expiry_status === 'EXPIRING').length
+  const expiredCount = openLots.filter(lot => lot.expiry_status === 'EXPIRED').length
+
+  const filteredLots = useMemo(() => {
+    const term = searchTerm.toLowerCase()
+    return lots.filter(lot => {
+      const matchesSearch = lot.lot_number?.toLowerCase().includes(term) ||
+        lot.item_code?.toLowerCase().includes(term) ||
+        lot.item_name?.toLowerCase().includes(term) ||
+        lot.grn_number?.toLowerCase().includes(term)
+
+      const matchesStatus = statusFilter === "all" ||
+        (statusFilter === "open" && (lot.remaining_qty || 0) > 0) ||
+        (statusFilter === "consumed" && (lot.remaining_qty || 0) <= 0) ||
+        ((lot.remaining_qty || 0) > 0 && lot.expiry_status === statusFilter)
+
+      return matchesSearch && matchesStatus
+    })
+  }, [lots, searchTerm, statusFilter])
+
+  const selectedLot = lots.find(lot => lot.lot_id === selectedLotId)
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Lots & Rolls</h1>
+        <p className="text-muted-foreground">Track film rolls and ink/adhesive lots from receipt to the jobs that consumed them</p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Error loading lots: {error.message}
+            <Button variant="outline" size="sm" onClick={() => refetch()} className="ml-2">
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Retry
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Open Lots</CardTitle>
+            <Boxes className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{openLots.length}</div>
+            <p className="text-xs text-muted-foreground">With quantity left</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Expiring Soon</CardTitle>
+            <Clock className="h-4 w-4 text-orange-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-orange-600">{expiringCount}</div>
+            <p className="text-xs text-muted-foreground">Within 30 days</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Expired With Stock</CardTitle>
+            <XCircle className="h-4 w-4 text-red-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600">{expiredCount}</div>
+            <p className="text-xs text-muted-foreground">Cannot be issued</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {selectedLotId && !selectedLot && !isLoading && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>The selected lot was not found</AlertDescription>
+        </Alert>
+      )}
+
+      {selectedLot && <LotTraceability lot={selectedLot} />}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Lots ({filteredLots.length})</CardTitle>
+          <CardDescription>Select a lot to see which jobs consumed it</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search lot, item or GRN..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">Open lots</SelectItem>
+                <SelectItem value="EXPIRING">Expiring soon</SelectItem>
+                <SelectItem value="EXPIRED">Expired with stock</SelectItem>
+                <SelectItem value="consumed">Fully consumed</SelectItem>
+                <SelectItem value="all">All lots</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Lot / Roll</TableHead>
+                  <TableHead>Item</TableHead>
+                  <TableHead>GRN</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Expiry</TableHead>
+                  <TableHead>Received</TableHead>
+                  <TableHead>Remaining</TableHead>
+                  <TableHead>Shelf Life</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center py-8">
+                      <RefreshCw className="h-4 w-4 animate-spin mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : filteredLots.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                      No lots found. Lots are created by entering a lot or roll number on a GRN.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  filteredLots.map(lot => (
+                    <TableRow
+                      key={lot.lot_id}
+                      className={`cursor-pointer ${lot.lot_id === selectedLotId ? 'bg-muted/50' : ''}`}
+                      onClick={() => setSearchParams({ lot: lot.lot_id as string })}
+                    >
+                      <TableCell className="font-mono text-sm font-medium">{lot.lot_number}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{lot.item_name}</div>
+                        <div className="text-xs text-muted-foreground">{lot.item_code}</div>
+                      </TableCell>
+                      <TableCell>
+                        <div>{lot.grn_number}</div>
+                        <div className="text-xs text-muted-foreground">{lot.received_date}</div>
+                      </TableCell>
+                      <TableCell>{lot.location_name || '-'}</TableCell>
+                      <TableCell>{lot.expiry_date || '-'}</TableCell>
+                      <TableCell className="font-mono">{lot.qty_received} {lot.uom}</TableCell>
+                      <TableCell className="font-mono font-bold">{lot.remaining_qty} {lot.uom}</TableCell>
+                      <TableCell><ExpiryBadge status={lot.expiry_status} daysToExpiry={lot.days_to_expiry} /></TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default LotTracking
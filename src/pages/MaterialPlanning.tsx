@@ -0,0 +1,429 @@
+import { useEffect, useState } from "react"
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import { useNavigate } from "react-router-dom"
+import { supabase } from "@/integrations/supabase/client"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { RequisitionRow } from "@/components/mrp/RequisitionRow"
+import { useVendors } from "@/hooks/useVendors"
+import { usePermissions } from "@/hooks/usePermission"
+import { useToast } from "@/hooks/use-toast"
+import { formatINR } from "@/utils/valuation"
+import { getOrderUrgency, requisitionStatusLabels } from "@/utils/mrp"
+import {
+  AlertTriangle,
+  Calculator,
+  ClipboardList,
+  IndianRupee,
+  Play,
+  RefreshCw,
+  Search,
+  ShoppingCart
+} from "lucide-react"
+
+const MaterialPlanning = () => {
+  const [horizonDays, setHorizonDays] = useState("30")
+  const [defaultLeadTime, setDefaultLeadTime] = useState("7")
+  const [runId, setRunId] = useState("")
+  const [searchTerm, setSearchTerm] = useState("")
+  const [statusFilter, setStatusFilter] = useState("PROPOSED")
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const { can } = usePermissions()
+  const canPlan = can('purchasing', 'create')
+  const canEdit = can('purchasing', 'edit')
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const navigate = useNavigate()
+
+  const { data: vendors = [] } = useVendors()
+
+  const { data: runs = [], error: runsError, refetch: refetchRuns } = useQuery({
+    queryKey: ['mrp-runs'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('mrp_runs')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(20)
+
+      if (error) throw error
+      return data || []
+    }
+  })
+
+  // Default to the most recent run
+  useEffect(() => {
+    if (!runId && runs.length > 0) setRunId(runs[0].id)
+  }, [runs, runId])
+
+  const { data: requisitions = [], isLoading, error, refetch } = useQuery({
+    queryKey: ['purchase-requisitions', runId],
+    enabled: !!runId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('purchase_requisitions')
+        .select('*, item_master(item_name, uom), vendors(vendor_name)')
+        .eq('run_id', runId)
+        .order('order_by_date')
+
+      if (error) throw error
+      return data || []
+    }
+  })
+
+  useEffect(() => {
+    setSelectedIds([])
+  }, [runId, statusFilter])
+
+  const runMRPMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('run_mrp', {
+        p_horizon_days: parseInt(horizonDays),
+        p_default_lead_time_days: parseInt(defaultLeadTime) || 0
+      })
+
+      if (error) throw error
+      return data
+    },
+    onSuccess: (newRunId) => {
+      queryClient.invalidateQueries({ queryKey: ['mrp-runs'] })
+      queryClient.invalidateQueries({ queryKey: ['purchase-requisitions'] })
+      setRunId(newRunId)
+      setStatusFilter('PROPOSED')
+      toast({
+        title: "Success",
+        description: "MRP run complete; earlier open proposals have been superseded",
+      })
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  })
+
+  const convertMutation = useMutation({
+    mutationFn: async (ids: string[]) => {
+      const { data, error } = await supabase.rpc('convert_requisitions_to_pos', {
+        p_requisition_ids: ids
+      })
+
+      if (error) throw error
+      return data || []
+    },
+    onSuccess: (orders) => {
+      queryClient.invalidateQueries({ queryKey: ['purchase-requisitions'] })
+      queryClient.invalidateQueries({ queryKey: ['purchase-orders'] })
+      queryClient.invalidateQueries({ queryKey: ['purchase-order-lines'] })
+      setSelectedIds([])
+      toast({
+        title: "Success",
+        description: `Created ${orders.length} draft purchase order${orders.length === 1 ? '' : 's'}: ${orders.map(po => po.po_number).join(', ')}`,
+      })
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  })
+
+  const filteredRequisitions = requisitions.filter(req => {
+    const term = searchTerm.toLowerCase()
+    const matchesSearch = !term ||
+      req.item_code.toLowerCase().includes(term) ||
+      req.item_master?.item_name?.toLowerCase().includes(term) ||
+      req.vendors?.vendor_name?.toLowerCase().includes(term)
+    const matchesStatus = statusFilter === "all" || req.status === statusFilter
+    return matchesSearch && matchesStatus
+  })
+
+  const proposed = requisitions.filter(req => req.status === 'PROPOSED')
+  const lateCount = proposed.filter(req => getOrderUrgency(req.order_by_date) === 'late').length
+  const proposedValue = proposed.reduce((sum, req) => sum + req.proposed_qty * (req.rate || 0), 0)
+  const selectable = filteredRequisitions.filter(req => req.status === 'PROPOSED')
+  const selectedRequisitions = requisitions.filter(req => selectedIds.includes(req.id))
+  const missingVendor = selectedRequisitions.some(req => !req.vendor_id)
+  const selectedVendorCount = new Set(selectedRequisitions.map(req => req.vendor_id)).size
+
+  const handleRunMRP = () => {
+    const horizon = parseInt(horizonDays)
+    if (isNaN(horizon) || horizon <= 0) {
+      toast({
+        title: "Error",
+        description: "Planning horizon must be a positive number of days",
+        variant: "destructive",
+      })
+      return
+    }
+    if (proposed.length > 0 && !window.confirm(`${proposed.length} open proposals from the current run will be superseded. Continue?`)) {
+      return
+    }
+    runMRPMutation.mutate()
+  }
+
+  const handleConvert = () => {
+    if (window.confirm(`Create ${selectedVendorCount} draft purchase order${selectedVendorCount === 1 ? '' : 's'} from ${selectedIds.length} requisitions?`)) {
+      convertMutation.mutate(selectedIds)
+    }
+  }
+
+  const pageError = runsError || error
+  if (pageError) {
+    return (
+      <div className="p-6">
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            Error loading material planning: {pageError.message}
+            <Button variant="outline" size="sm" onClick={() => { refetchRuns(); refetch() }} className="ml-2">
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Retry
+            </Button>
+          </AlertDescription>
+        </Alert>
+      </div>
+    )
+  }
+
+  const colSpan = canEdit ? 10 : 9
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Material Planning</h1>
+          <p className="text-muted-foreground">
+            Proposed purchases from stock, consumption, open jobs, open POs, vendor lead times and reorder levels
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => navigate('/purchase-orders')}>
+          <ShoppingCart className="h-4 w-4 mr-2" />
+          Purchase Orders
+        </Button>
+      </div>
+
+      {canPlan && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Run MRP</CardTitle>
+            <CardDescription>
+              Each item is projected over its vendor lead time plus the horizon. Items without a known vendor use the default lead time.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-end gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="mrp-horizon">Horizon (days)</Label>
+                <Input
+                  id="mrp-horizon"
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={horizonDays}
+                  onChange={(e) => setHorizonDays(e.target.value)}
+                  className="w-32"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="mrp-lead-time">Default Lead Time (days)</Label>
+                <Input
+                  id="mrp-lead-time"
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={defaultLeadTime}
+                  onChange={(e) => setDefaultLeadTime(e.target.value)}
+                  className="w-32"
+                />
+              </div>
+              <Button onClick={handleRunMRP} disabled={runMRPMutation.isPending}>
+                {runMRPMutation.isPending ? (
+                  <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Play className="h-4 w-4 mr-2" />
+                )}
+                {runMRPMutation.isPending ? "Running..." : "Run MRP"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Statistics */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Open Proposals</CardTitle>
+            <ClipboardList className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{proposed.length}</div>
+            <p className="text-xs text-muted-foreground">Awaiting buyer review</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Order Late</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-red-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600">{lateCount}</div>
+            <p className="text-xs text-muted-foreground">Order-by date already passed</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Proposed Value</CardTitle>
+            <IndianRupee className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatINR(proposedValue)}</div>
+            <p className="text-xs text-muted-foreground">At last purchase rates</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle>Purchase Requisitions</CardTitle>
+              <CardDescription>
+                Review and adjust quantities, vendors and dates, then convert the selection into draft POs (one per vendor)
+              </CardDescription>
+            </div>
+            {canPlan && (
+              <Button
+                onClick={handleConvert}
+                disabled={selectedIds.length === 0 || missingVendor || convertMutation.isPending}
+              >
+                <ShoppingCart className="h-4 w-4 mr-2" />
+                {convertMutation.isPending ? "Creating..." : `Create Draft POs (${selectedIds.length})`}
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search item or vendor..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {Object.entries(requisitionStatusLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={runId} onValueChange={setRunId}>
+              <SelectTrigger className="w-64">
+                <SelectValue placeholder="No MRP runs yet" />
+              </SelectTrigger>
+              <SelectContent>
+                {runs.map(run => (
+                  <SelectItem key={run.id} value={run.id}>
+                    {new Date(run.created_at).toLocaleString()} · {run.requisition_count} items
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {missingVendor && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>Assign a vendor to every selected requisition before creating POs</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8">
+                    {canPlan && selectable.length > 0 && (
+                      <Checkbox
+                        aria-label="Select all proposals"
+                        checked={selectable.every(req => selectedIds.includes(req.id))}
+                        onCheckedChange={(checked) => setSelectedIds(checked === true ? selectable.map(req => req.id) : [])}
+                      />
+                    )}
+                  </TableHead>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Planning Basis</TableHead>
+                  <TableHead>Quantity</TableHead>
+                  <TableHead>Vendor</TableHead>
+                  <TableHead>Rate</TableHead>
+                  <TableHead>Need By</TableHead>
+                  <TableHead>Order By</TableHead>
+                  <TableHead>Status</TableHead>
+                  {canEdit && <TableHead>Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {!runId ? (
+                  <TableRow>
+                    <TableCell colSpan={colSpan} className="text-center py-8 text-muted-foreground">
+                      <Calculator className="h-8 w-8 mx-auto mb-2" />
+                      Run MRP to generate purchase proposals
+                    </TableCell>
+                  </TableRow>
+                ) : isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={colSpan} className="text-center py-8">
+                      <RefreshCw className="h-4 w-4 animate-spin mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : filteredRequisitions.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={colSpan} className="text-center py-8 text-muted-foreground">
+                      No requisitions found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  filteredRequisitions.map(req => (
+                    <RequisitionRow
+                      key={req.id}
+                      requisition={req}
+                      vendors={vendors}
+                      canEdit={canEdit}
+                      selected={selectedIds.includes(req.id)}
+                      onSelectedChange={(selected) => setSelectedIds(selected
+                        ? [...selectedIds, req.id]
+                        : selectedIds.filter(id => id !== req.id))}
+                    />
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default MaterialPlanning
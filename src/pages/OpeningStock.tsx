@@ -66,13 +66,15 @@ const OpeningStock = () => {
 
         // Create or update stock record
         const openingQty = parseFloat(row.opening_qty) || 0;
+        const openingUnitCost = row.opening_unit_cost ? parseFloat(row.opening_unit_cost) : null;
         
         const { error: stockError } = await supabase
           .from('stock')
           .upsert({
             item_code: row.item_code,
             opening_qty: openingQty,
-            current_qty: openingQty
+            current_qty: openingQty,
+            opening_unit_cost: Number.isFinite(openingUnitCost) ? openingUnitCost : null
           }, { 
             onConflict: 'item_code' 
           });
@@ -121,15 +123,16 @@ const OpeningStock = () => {
               <TemplateDownload
                 templateType="openingStock"
                 title="Download Template"
-                description="CSV template with sample opening stock data. Required columns: item_code, opening_qty. Optional: item_name, category, uom"
+                description="CSV template with sample opening stock data. Required columns: item_code, opening_qty. Optional: item_name, category, uom, opening_unit_cost"
               />
             </div>
 
             <div className="lg:col-span-2">
               <CSVUpload
                 title="Opening Stock CSV Upload"
-                description="Upload a CSV file with opening stock data. Required columns: item_code, opening_qty. Optional: item_name, category, uom"
+                description="Upload a CSV file with opening stock data. Required columns: item_code, opening_qty. Optional: item_name, category, uom, opening_unit_cost"
                 expectedHeaders={expectedHeaders}
+                templateType="openingStock"
                 onDataProcessed={processOpeningStock}
               />
             </div>
@@ -140,10 +143,10 @@ const OpeningStock = () => {
       <div className="mt-6 p-4 bg-muted rounded-lg">
         <h3 className="font-semibold mb-2">CSV Format Example:</h3>
         <pre className="text-sm overflow-x-auto">
-{`item_code,item_name,category,opening_qty,uom
-RAW001,Raw Material 1,Raw Materials,100,KG
-PKG001,Packaging Item 1,Packaging,500,PCS
-FIN001,Finished Product 1,Finished Goods,50,PCS`}
+{`item_code,item_name,category,opening_qty,uom,opening_unit_cost
+RAW001,Raw Material 1,Raw Materials,100,KG,85.50
+PKG001,Packaging Item 1,Packaging,500,PCS,2.25
+FIN001,Finished Product 1,Finished Goods,50,PCS,`}
         </pre>
         
         <div className="mt-4">
@@ -154,6 +157,7 @@ FIN001,Finished Product 1,Finished Goods,50,PCS`}
             <li>• Default UOM is 'PCS' if not specified</li>
             <li>• Existing items will be updated with new opening stock</li>
             <li>• Current stock will be set to opening stock value</li>
+            <li>• opening_unit_cost values the opening quantity; leave blank to carry it at zero cost</li>
           </ul>
         </div>
       </div>
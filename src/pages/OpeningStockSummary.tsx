@@ -24,8 +24,10 @@ import {
   Save,
   X,
   Calendar,
-  BarChart3
+  BarChart3,
+  FileSpreadsheet
 } from "lucide-react"
+import { exportRowsToXLSX } from "@/utils/spreadsheet"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { useToast } from "@/hooks/use-toast"
 
@@ -144,16 +146,18 @@ const OpeningStockSummary = () => {
     setEditValue("")
   }
 
+  const getExportRows = () => filteredData.map(item => ({
+    'Item Code': item.item_code,
+    'Item Name': item.item_master?.item_name,
+    'Category': item.item_master?.categories?.category_name,
+    'UOM': item.item_master?.uom,
+    'Opening Qty': item.opening_qty,
+    'Current Qty': item.current_qty,
+    'Last Updated': new Date(item.last_updated).toLocaleString()
+  }))
+
   const exportToCSV = () => {
-    const csvData = filteredData.map(item => ({
-      'Item Code': item.item_code,
-      'Item Name': item.item_master?.item_name,
-      'Category': item.item_master?.categories?.category_name,
-      'UOM': item.item_master?.uom,
-      'Opening Qty': item.opening_qty,
-      'Current Qty': item.current_qty,
-      'Last Updated': new Date(item.last_updated).toLocaleString()
-    }))
+    const csvData = getExportRows()
 
     const csvString = [
       Object.keys(csvData[0]).join(','),
@@ -211,6 +215,10 @@ const OpeningStockSummary = () => {
             <Download className="h-4 w-4 mr-2" />
             Export CSV
           </Button>
+          <Button variant="outline" onClick={() => exportRowsToXLSX(getExportRows(), `opening-stock-summary-${new Date().toISOString().split('T')[0]}.xlsx`, 'Opening Stock')} disabled={!filteredData.length}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Export Excel
+          </Button>
         </div>
       </div>
 
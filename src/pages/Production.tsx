@@ -0,0 +1,219 @@
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { PunchOrderDialog } from "@/components/production/PunchOrderDialog"
+import { JobCardDialog } from "@/components/production/JobCardDialog"
+import { JobCostingReport } from "@/components/production/JobCostingReport"
+import { useWorkflowStatus } from "@/hooks/useWorkflowStatus"
+import { usePermissions } from "@/hooks/usePermission"
+import {
+  getCurrentStage,
+  getNextStep,
+  getStageState,
+  isJobComplete,
+  productionStages,
+  stageStateLabels,
+  type WorkflowStatusRow,
+} from "@/utils/production"
+import { AlertTriangle, CheckCircle, Clock, Factory, RefreshCw, Search } from "lucide-react"
+
+const COMPLETED_COLUMN = 'completed'
+
+const Production = () => {
+  const [searchTerm, setSearchTerm] = useState("")
+  const [selectedUiorn, setSelectedUiorn] = useState<string | null>(null)
+
+  const { data: workflow = [], isLoading, error, refetch } = useWorkflowStatus()
+  const { canAccessStage } = usePermissions()
+
+  const boardStages = productionStages.filter(stage => canAccessStage(stage.key))
+  const showCompleted = canAccessStage('slitting')
+
+  // A job sits in the stage it has reached; users limited to some stages also see the jobs waiting for theirs
+  const getBoardColumn = (job: WorkflowStatusRow): string | null => {
+    if (isJobComplete(job)) return showCompleted ? COMPLETED_COLUMN : null
+    const current = getCurrentStage(job).stage.key
+    if (canAccessStage(current)) return current
+    const next = getNextStep(job)
+    return next && canAccessStage(next) ? next : null
+  }
+
+  const jobColumns = new Map(workflow.map(job => [job.uiorn, getBoardColumn(job)]))
+  const boardJobs = workflow.filter(job => jobColumns.get(job.uiorn))
+
+  const filteredJobs = boardJobs.filter(job => {
+    const term = searchTerm.toLowerCase()
+    return !term ||
+      job.uiorn?.toLowerCase().includes(term) ||
+      job.item_name?.toLowerCase().includes(term)
+  })
+
+  const columns: Record<string, WorkflowStatusRow[]> = { [COMPLETED_COLUMN]: [] }
+  productionStages.forEach(stage => { columns[stage.key] = [] })
+  filteredJobs.forEach(job => {
+    columns[jobColumns.get(job.uiorn) as string].push(job)
+  })
+
+  const completedCount = boardJobs.filter(isJobComplete).length
+  const inProgressCount = boardJobs.filter(job => !isJobComplete(job) && getCurrentStage(job).state === 'in_progress').length
+  const selectedJob = workflow.find(job => job.uiorn === selectedUiorn) || null
+
+  if (error) {
+    return (
+      <div className="p-6">
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            Error loading production workflow: {error.message}
+            <Button variant="outline" size="sm" onClick={() => refetch()} className="ml-2">
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Retry
+            </Button>
+          </AlertDescription>
+        </Alert>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Production</h1>
+          <p className="text-muted-foreground">Job cards from order punching through gravure, lamination, adhesive coating and slitting</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => refetch()}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+          {canAccessStage('order_punching') && <PunchOrderDialog />}
+        </div>
+      </div>
+
+      {/* Statistics */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Total Jobs</CardTitle>
+            <Factory className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{boardJobs.length}</div>
+            <p className="text-xs text-muted-foreground">Punched UIORNs</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">In Progress</CardTitle>
+            <Clock className="h-4 w-4 text-yellow-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-yellow-600">{inProgressCount}</div>
+            <p className="text-xs text-muted-foreground">Running on a machine</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Completed</CardTitle>
+            <CheckCircle className="h-4 w-4 text-green-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">{completedCount}</div>
+            <p className="text-xs text-muted-foreground">Slitting finished</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="board" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="board">Job Board</TabsTrigger>
+          <TabsTrigger value="costing">Job Costing</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="board">
+          <Card>
+            <CardHeader>
+              <CardTitle>Job Board</CardTitle>
+              <CardDescription>
+                Each job sits in the furthest stage it has reached. Click a job card to record the next step.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="relative max-w-sm">
+                <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search UIORN or item..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+
+              {isLoading ? (
+                <div className="flex items-center justify-center py-8">
+                  <RefreshCw className="h-4 w-4 animate-spin mr-2" />
+                  Loading jobs...
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-6 gap-4">
+                  {[
+                    ...boardStages.map(stage => ({ key: stage.key, label: stage.label })),
+                    ...(showCompleted ? [{ key: COMPLETED_COLUMN, label: 'Completed' }] : [])
+                  ].map(column => (
+                    <div key={column.key} className="rounded-lg border bg-muted/40 p-2 space-y-2 min-h-[200px]">
+                      <div className="flex items-center justify-between px-1">
+                        <span className="text-sm font-medium">{column.label}</span>
+                        <Badge variant="secondary">{columns[column.key].length}</Badge>
+                      </div>
+                      {columns[column.key].map(job => {
+                        const stage = productionStages.find(s => s.key === column.key)
+                        const state = stage ? getStageState(job[stage.workflowField]) : 'completed'
+                        return (
+                          <button
+                            key={job.uiorn}
+                            type="button"
+                            onClick={() => setSelectedUiorn(job.uiorn)}
+                            className="w-full text-left rounded-md border bg-background p-2 hover:bg-accent transition-colors"
+                          >
+                            <div className="font-mono text-sm font-medium">{job.uiorn}</div>
+                            <div className="text-xs text-muted-foreground truncate">{job.item_name}</div>
+                            {column.key !== COMPLETED_COLUMN && column.key !== 'order_punching' && (
+                              <Badge
+                                variant={state === 'completed' ? 'default' : 'secondary'}
+                                className="mt-1 text-xs"
+                              >
+                                {stageStateLabels[state]}
+                              </Badge>
+                            )}
+                          </button>
+                        )
+                      })}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="costing">
+          <JobCostingReport />
+        </TabsContent>
+      </Tabs>
+
+      <JobCardDialog
+        job={selectedJob}
+        onOpenChange={(open) => !open && setSelectedUiorn(null)}
+      />
+    </div>
+  )
+}
+
+export default Production
@@ -0,0 +1,475 @@
+import { Fragment, useState } from "react"
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { CreatePODialog } from "@/components/purchase/CreatePODialog"
+import { PendingPOReport } from "@/components/purchase/PendingPOReport"
+import { useAuth } from "@/contexts/AuthContext"
+import { usePermissions } from "@/hooks/usePermission"
+import { useToast } from "@/hooks/use-toast"
+import { poLineStatusLabels, poStatusLabels, type POLineStatus, type PurchaseOrderStatus } from "@/utils/purchaseOrders"
+import {
+  AlertTriangle,
+  CheckCircle,
+  ChevronDown,
+  ChevronRight,
+  Clock,
+  FileText,
+  Lock,
+  RefreshCw,
+  Search,
+  Trash2,
+  XCircle
+} from "lucide-react"
+
+const getPOStatusBadge = (status: string) => {
+  const label = poStatusLabels[status as PurchaseOrderStatus] || status
+  switch (status) {
+    case 'APPROVED':
+      return <Badge variant="default" className="bg-green-100 text-green-800">{label}</Badge>
+    case 'CLOSED':
+      return <Badge variant="secondary">{label}</Badge>
+    case 'CANCELLED':
+      return <Badge variant="destructive">{label}</Badge>
+    default:
+      return <Badge variant="outline">{label}</Badge>
+  }
+}
+
+const PurchaseOrders = () => {
+  const [searchTerm, setSearchTerm] = useState("")
+  const [statusFilter, setStatusFilter] = useState("all")
+  const [expandedPO, setExpandedPO] = useState<string | null>(null)
+  const { user } = useAuth()
+  const { can } = usePermissions()
+  const canEdit = can('purchasing', 'edit')
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const { data: purchaseOrders, isLoading, error, refetch } = useQuery({
+    queryKey: ['purchase-orders'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('purchase_orders')
+        .select('*')
+        .order('po_date', { ascending: false })
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      return data || []
+    }
+  })
+
+  const { data: poLines } = useQuery({
+    queryKey: ['purchase-order-lines'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('purchase_order_line_status')
+        .select('*')
+        .order('expected_date', { ascending: true, nullsFirst: false })
+
+      if (error) throw error
+      return data || []
+    }
+  })
+
+  const updateStatusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string, status: PurchaseOrderStatus }) => {
+      const now = new Date().toISOString()
+      const { error } = await supabase
+        .from('purchase_orders')
+        .update({
+          status,
+          ...(status === 'APPROVED' && { approved_by: user?.id, approved_at: now }),
+          ...((status === 'CLOSED' || status === 'CANCELLED') && { closed_by: user?.id, closed_at: now })
+        })
+        .eq('id', id)
+
+      if (error) throw error
+    },
+    onSuccess: (_, { status }) => {
+      queryClient.invalidateQueries({ queryKey: ['purchase-orders'] })
+      queryClient.invalidateQueries({ queryKey: ['purchase-order-lines'] })
+      queryClient.invalidateQueries({ queryKey: ['open-po-lines'] })
+      toast({
+        title: "Success",
+        description: `Purchase order ${poStatusLabels[status].toLowerCase()}`,
+      })
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  })
+
+  const deletePOMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('purchase_orders')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['purchase-orders'] })
+      queryClient.invalidateQueries({ queryKey: ['purchase-order-lines'] })
+      toast({
+        title: "Success",
+        description: "Draft purchase order deleted",
+      })
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  })
+
+  const linesByPO = (poLines || []).reduce((acc, line) => {
+    const key = line.po_id as string
+    acc[key] = [...(acc[key] || []), line]
+    return acc
+  }, {} as Record<string, NonNullable<typeof poLines>>)
+
+  const getPOProgress = (poId: string) => {
+    const lines = linesByPO[poId] || []
+    const ordered = lines.reduce((sum, line) => sum + (line.ordered_qty || 0), 0)
+    const received = lines.reduce((sum, line) => sum + Math.min(line.received_qty || 0, line.ordered_qty || 0), 0)
+    return ordered > 0 ? Math.round((received / ordered) * 100) : 0
+  }
+
+  const getPOValue = (poId: string) =>
+    (linesByPO[poId] || []).reduce((sum, line) => sum + (line.ordered_qty || 0) * (line.rate || 0), 0)
+
+  const filteredPOs = purchaseOrders?.filter(po => {
+    const term = searchTerm.toLowerCase()
+    const matchesSearch = !term ||
+      po.po_number.toLowerCase().includes(term) ||
+      po.vendor.toLowerCase().includes(term)
+    const matchesStatus = statusFilter === "all" || po.status === statusFilter
+    return matchesSearch && matchesStatus
+  }) || []
+
+  const draftCount = purchaseOrders?.filter(po => po.status === 'DRAFT').length || 0
+  const openCount = purchaseOrders?.filter(po => po.status === 'APPROVED').length || 0
+  const pendingLines = poLines?.filter(line => line.po_status === 'APPROVED' && (line.pending_qty || 0) > 0) || []
+  const overdueLines = pendingLines.filter(line => line.is_overdue)
+
+  const handleStatusChange = (id: string, status: PurchaseOrderStatus, message: string) => {
+    if (window.confirm(message)) {
+      updateStatusMutation.mutate({ id, status })
+    }
+  }
+
+  const handleDeletePO = (id: string) => {
+    if (window.confirm('Are you sure you want to delete this draft purchase order? This action cannot be undone.')) {
+      deletePOMutation.mutate(id)
+    }
+  }
+
+  if (error) {
+    return (
+      <div className="p-6">
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            Error loading purchase orders: {error.message}
+            <Button variant="outline" size="sm" onClick={() => refetch()} className="ml-2">
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Retry
+            </Button>
+          </AlertDescription>
+        </Alert>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Purchase Orders</h1>
+          <p className="text-muted-foreground">Raise, approve and track supplier orders against goods receipts</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => refetch()}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+          {can('purchasing', 'create') && <CreatePODialog />}
+        </div>
+      </div>
+
+      {/* Statistics */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Open POs</CardTitle>
+            <FileText className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{openCount}</div>
+            <p className="text-xs text-muted-foreground">Approved, awaiting receipt</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Drafts</CardTitle>
+            <Clock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{draftCount}</div>
+            <p className="text-xs text-muted-foreground">Pending approval</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Pending Lines</CardTitle>
+            <FileText className="h-4 w-4 text-orange-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-orange-600">{pendingLines.length}</div>
+            <p className="text-xs text-muted-foreground">Items not fully received</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Overdue Lines</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-red-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600">{overdueLines.length}</div>
+            <p className="text-xs text-muted-foreground">Past expected date</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="orders" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="orders">Purchase Orders</TabsTrigger>
+          <TabsTrigger value="pending">Pending Report</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="orders">
+          <Card>
+            <CardHeader>
+              <CardTitle>Purchase Orders ({filteredPOs.length})</CardTitle>
+              <CardDescription>Expand an order to see ordered vs received quantities per line</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-col sm:flex-row gap-4">
+                <div className="relative flex-1 max-w-sm">
+                  <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Search PO number or vendor..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="pl-9"
+                  />
+                </div>
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="Filter by status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Statuses</SelectItem>
+                    {Object.entries(poStatusLabels).map(([status, label]) => (
+                      <SelectItem key={status} value={status}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-8"></TableHead>
+                      <TableHead>PO Number</TableHead>
+                      <TableHead>Vendor</TableHead>
+                      <TableHead>PO Date</TableHead>
+                      <TableHead>Lines</TableHead>
+                      <TableHead>Value (INR)</TableHead>
+                      <TableHead>Received</TableHead>
+                      <TableHead>Status</TableHead>
+                      {canEdit && <TableHead>Actions</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {isLoading ? (
+                      <TableRow>
+                        <TableCell colSpan={9} className="text-center py-8">
+                          <RefreshCw className="h-4 w-4 animate-spin mx-auto" />
+                        </TableCell>
+                      </TableRow>
+                    ) : filteredPOs.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">
+                          No purchase orders found
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      filteredPOs.map(po => {
+                        const isExpanded = expandedPO === po.id
+                        const lines = linesByPO[po.id] || []
+                        const progress = getPOProgress(po.id)
+                        return (
+                          <Fragment key={po.id}>
+                            <TableRow
+                              className="cursor-pointer"
+                              onClick={() => setExpandedPO(isExpanded ? null : po.id)}
+                            >
+                              <TableCell>
+                                {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                              </TableCell>
+                              <TableCell className="font-medium">{po.po_number}</TableCell>
+                              <TableCell>{po.vendor}</TableCell>
+                              <TableCell>{po.po_date}</TableCell>
+                              <TableCell>{lines.length}</TableCell>
+                              <TableCell>₹{getPOValue(po.id).toLocaleString()}</TableCell>
+                              <TableCell>
+                                <div className="flex items-center gap-2 min-w-[120px]">
+                                  <Progress value={progress} className="w-20" />
+                                  <span className="text-sm text-muted-foreground">{progress}%</span>
+                                </div>
+                              </TableCell>
+                              <TableCell>{getPOStatusBadge(po.status)}</TableCell>
+                              {canEdit && (
+                                <TableCell onClick={(e) => e.stopPropagation()}>
+                                  <div className="flex gap-2">
+                                    {po.status === 'DRAFT' && (
+                                      <>
+                                        {can('purchasing', 'approve') && (
+                                          <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() => handleStatusChange(po.id, 'APPROVED', `Approve ${po.po_number}? Goods can then be received against it.`)}
+                                            disabled={updateStatusMutation.isPending}
+                                          >
+                                            <CheckCircle className="h-4 w-4 mr-1" />
+                                            Approve
+                                          </Button>
+                                        )}
+                                        {can('purchasing', 'delete') && (
+                                          <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() => handleDeletePO(po.id)}
+                                            disabled={deletePOMutation.isPending}
+                                          >
+                                            <Trash2 className="h-4 w-4" />
+                                          </Button>
+                                        )}
+                                      </>
+                                    )}
+                                    {po.status === 'APPROVED' && (
+                                      <>
+                                        <Button
+                                          size="sm"
+                                          variant="outline"
+                                          onClick={() => handleStatusChange(po.id, 'CLOSED', `Close ${po.po_number}? Remaining quantities will no longer be expected.`)}
+                                          disabled={updateStatusMutation.isPending}
+                                        >
+                                          <Lock className="h-4 w-4 mr-1" />
+                                          Close
+                                        </Button>
+                                        {progress === 0 && (
+                                          <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() => handleStatusChange(po.id, 'CANCELLED', `Cancel ${po.po_number}?`)}
+                                            disabled={updateStatusMutation.isPending}
+                                          >
+                                            <XCircle className="h-4 w-4 mr-1" />
+                                            Cancel
+                                          </Button>
+                                        )}
+                                      </>
+                                    )}
+                                  </div>
+                                </TableCell>
+                              )}
+                            </TableRow>
+                            {isExpanded && (
+                              <TableRow className="bg-muted/50 hover:bg-muted/50">
+                                <TableCell colSpan={9} className="p-4">
+                                  {po.remarks && (
+                                    <p className="text-sm text-muted-foreground mb-3">{po.remarks}</p>
+                                  )}
+                                  <Table>
+                                    <TableHeader>
+                                      <TableRow>
+                                        <TableHead>Item</TableHead>
+                                        <TableHead>Ordered</TableHead>
+                                        <TableHead>Received</TableHead>
+                                        <TableHead>Pending</TableHead>
+                                        <TableHead>Rate (INR)</TableHead>
+                                        <TableHead>Expected</TableHead>
+                                        <TableHead>Last Receipt</TableHead>
+                                        <TableHead>Line Status</TableHead>
+                                      </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                      {lines.map(line => (
+                                        <TableRow key={line.po_line_id}>
+                                          <TableCell>
+                                            <div className="font-medium">{line.item_name}</div>
+                                            <div className="text-xs text-muted-foreground">{line.item_code}</div>
+                                          </TableCell>
+                                          <TableCell>{line.ordered_qty} {line.uom}</TableCell>
+                                          <TableCell>{line.received_qty} {line.uom}</TableCell>
+                                          <TableCell>{line.pending_qty} {line.uom}</TableCell>
+                                          <TableCell>{line.rate ?? '-'}</TableCell>
+                                          <TableCell className={line.is_overdue ? "text-red-600 font-medium" : ""}>
+                                            {line.expected_date || '-'}
+                                          </TableCell>
+                                          <TableCell>{line.last_received_date || '-'}</TableCell>
+                                          <TableCell>
+                                            <Badge variant={line.line_status === 'OVER_RECEIVED' ? "destructive" : "secondary"}>
+                                              {poLineStatusLabels[line.line_status as POLineStatus] || line.line_status}
+                                            </Badge>
+                                          </TableCell>
+                                        </TableRow>
+                                      ))}
+                                    </TableBody>
+                                  </Table>
+                                </TableCell>
+                              </TableRow>
+                            )}
+                          </Fragment>
+                        )
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="pending">
+          <PendingPOReport />
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
+
+export default PurchaseOrders
@@ -1,5 +1,6 @@
 import { useState, useMemo } from "react"
 import { useQuery } from "@tanstack/react-query"
+import { useNavigate } from "react-router-dom"
 import { supabase } from "@/integrations/supabase/client"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
@@ -20,16 +21,45 @@ import {
   XCircle,
   CheckCircle,
   RefreshCw,
-  Download
+  Download,
+  Calculator,
+  ScrollText,
+  FileSpreadsheet
 } from "lucide-react"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart"
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer } from "recharts"
+import { StockStatusBadge } from "@/components/stock/StockStatusBadge"
+import { getStockLevelPercent, getStockStatus, stockStatusLabels, type StockStatus } from "@/utils/stockStatus"
+import { ALL_LOCATIONS, formatLocationBreakdown } from "@/utils/locations"
+import { useStorageLocations } from "@/hooks/useStorageLocations"
+import { useLocationStock } from "@/hooks/useLocationStock"
+import { useStockLots } from "@/hooks/useStockLots"
+import { ExpiryAlerts } from "@/components/lots/ExpiryAlerts"
+import { exportRowsToXLSX } from "@/utils/spreadsheet"
+
+// Alert buckets shown on this page, keyed by the stock_status computed in stock_summary
+const alertStatuses: Record<string, StockStatus> = {
+  critical: 'CRITICAL',
+  low: 'LOW',
+  overstock: 'OVERSTOCK',
+  outOfStock: 'OUT_OF_STOCK',
+}
 
 const StockAlerts = () => {
   const [searchTerm, setSearchTerm] = useState("")
+  const navigate = useNavigate()
   const [categoryFilter, setCategoryFilter] = useState("all")
   const [alertType, setAlertType] = useState("all")
+  const [locationFilter, setLocationFilter] = useState(ALL_LOCATIONS)
+
+  const { data: locations = [] } = useStorageLocations()
+  const { data: locationStock = [] } = useLocationStock()
+  const { data: stockLots = [] } = useStockLots()
+
+  const expiryAlertCount = stockLots.filter(lot =>
+    (lot.remaining_qty || 0) > 0 && (lot.expiry_status === 'EXPIRED' || lot.expiry_status === 'EXPIRING')
+  ).length
 
   const { data: stockData, isLoading, error, refetch } = useQuery({
     queryKey: ['stock-alerts'],
@@ -58,30 +88,22 @@ const StockAlerts = () => {
   })
 
   const alertsData = useMemo(() => {
-    if (!stockData) return { critical: [], low: [], medium: [], outOfStock: [] }
-    
-    const alerts = {
-      critical: stockData.filter(item => 
-        (item.current_qty || 0) > 0 && 
-        (item.current_qty || 0) < 5 &&
-        (item.days_of_cover || 0) < 7
-      ),
-      low: stockData.filter(item => 
-        (item.current_qty || 0) >= 5 && 
-        (item.current_qty || 0) < 10 &&
-        (item.days_of_cover || 0) < 14
-      ),
-      medium: stockData.filter(item => 
-        (item.current_qty || 0) >= 10 && 
-        (item.current_qty || 0) < 50 &&
-        (item.days_of_cover || 0) < 30
-      ),
-      outOfStock: stockData.filter(item => (item.current_qty || 0) === 0)
+    const items = stockData || []
+    const byStatus = (status: StockStatus) => items.filter(item => getStockStatus(item) === status)
+
+    return {
+      critical: byStatus(alertStatuses.critical),
+      low: byStatus(alertStatuses.low),
+      overstock: byStatus(alertStatuses.overstock),
+      outOfStock: byStatus(alertStatuses.outOfStock)
     }
-    
-    return alerts
   }, [stockData])
 
+  const notConfiguredCount = useMemo(
+    () => (stockData || []).filter(item => getStockStatus(item) === 'NOT_CONFIGURED').length,
+    [stockData]
+  )
+
   const filteredAlerts = useMemo(() => {
     let filtered = stockData || []
     
@@ -95,79 +117,48 @@ const StockAlerts = () => {
     if (categoryFilter !== "all") {
       filtered = filtered.filter(item => item.category_name === categoryFilter)
     }
+
+    // Alert levels are company-wide; a location narrows the list to items that move through it
+    if (locationFilter !== ALL_LOCATIONS) {
+      const itemsAtLocation = new Set(
+        locationStock.filter(row => row.location_id === locationFilter).map(row => row.item_code)
+      )
+      filtered = filtered.filter(item => itemsAtLocation.has(item.item_code))
+    }
     
-    if (alertType !== "all") {
-      switch (alertType) {
-        case "critical":
-          filtered = filtered.filter(item => 
-            (item.current_qty || 0) > 0 && 
-            (item.current_qty || 0) < 5 &&
-            (item.days_of_cover || 0) < 7
-          )
-          break
-        case "low":
-          filtered = filtered.filter(item => 
-            (item.current_qty || 0) >= 5 && 
-            (item.current_qty || 0) < 10 &&
-            (item.days_of_cover || 0) < 14
-          )
-          break
-        case "medium":
-          filtered = filtered.filter(item => 
-            (item.current_qty || 0) >= 10 && 
-            (item.current_qty || 0) < 50 &&
-            (item.days_of_cover || 0) < 30
-          )
-          break
-        case "outOfStock":
-          filtered = filtered.filter(item => (item.current_qty || 0) === 0)
-          break
-      }
+    if (alertType === "notConfigured") {
+      filtered = filtered.filter(item => getStockStatus(item) === 'NOT_CONFIGURED')
+    } else if (alertType !== "all") {
+      filtered = filtered.filter(item => getStockStatus(item) === alertStatuses[alertType])
     }
     
     return filtered
-  }, [stockData, searchTerm, categoryFilter, alertType])
-
-  const getAlertBadge = (item: any) => {
-    const qty = item.current_qty || 0
-    const days = item.days_of_cover || 0
-    
-    if (qty === 0) return <Badge variant="destructive">Out of Stock</Badge>
-    if (qty < 5 && days < 7) return <Badge variant="destructive">Critical</Badge>
-    if (qty < 10 && days < 14) return <Badge variant="secondary" className="bg-orange-100 text-orange-800">Low Stock</Badge>
-    if (qty < 50 && days < 30) return <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">Medium Alert</Badge>
-    return <Badge variant="default" className="bg-green-100 text-green-800">Normal</Badge>
-  }
-
-  const getStockLevel = (qty: number) => {
-    if (qty === 0) return 0
-    if (qty < 5) return 10
-    if (qty < 10) return 25
-    if (qty < 50) return 50
-    return 100
-  }
+  }, [stockData, searchTerm, categoryFilter, alertType, locationFilter, locationStock])
 
   const chartData = Object.entries(alertsData).map(([key, items]) => ({
-    name: key.charAt(0).toUpperCase() + key.slice(1),
+    name: stockStatusLabels[alertStatuses[key]],
     value: items.length,
     color: key === 'critical' ? '#EF4444' : 
            key === 'low' ? '#F59E0B' : 
-           key === 'medium' ? '#F59E0B' : 
+           key === 'overstock' ? '#3B82F6' : 
            '#6B7280'
   }))
 
+  const getExportRows = () => filteredAlerts.map(item => ({
+    'Item Code': item.item_code,
+    'Item Name': item.item_name,
+    'Category': item.category_name,
+    'Current Qty': item.current_qty,
+    'By Location': formatLocationBreakdown(locationStock, item.item_code || ''),
+    'Safety Stock': item.safety_stock ?? '',
+    'Reorder Point': item.reorder_point ?? '',
+    'Max Level': item.max_level ?? '',
+    'Days of Cover': item.days_of_cover,
+    'Alert Level': stockStatusLabels[getStockStatus(item)]
+  }))
+
   const exportToCSV = () => {
-    const csvData = filteredAlerts.map(item => ({
-      'Item Code': item.item_code,
-      'Item Name': item.item_name,
-      'Category': item.category_name,
-      'Current Qty': item.current_qty,
-      'Days of Cover': item.days_of_cover,
-      'Alert Level': item.current_qty === 0 ? 'Out of Stock' :
-                    item.current_qty < 5 ? 'Critical' :
-                    item.current_qty < 10 ? 'Low Stock' :
-                    item.current_qty < 50 ? 'Medium Alert' : 'Normal'
-    }))
+    const csvData = getExportRows()
 
     const csvString = [
       Object.keys(csvData[0]).join(','),
@@ -212,10 +203,18 @@ const StockAlerts = () => {
             <RefreshCw className="h-4 w-4 mr-2" />
             Refresh
           </Button>
+          <Button variant="outline" onClick={() => navigate('/mrp')}>
+            <Calculator className="h-4 w-4 mr-2" />
+            Plan Purchases
+          </Button>
           <Button onClick={exportToCSV}>
             <Download className="h-4 w-4 mr-2" />
             Export
           </Button>
+          <Button variant="outline" onClick={() => exportRowsToXLSX(getExportRows(), `stock-alerts-${new Date().toISOString().split('T')[0]}.xlsx`, 'Stock Alerts')}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Export Excel
+          </Button>
         </div>
       </div>
 
@@ -228,29 +227,29 @@ const StockAlerts = () => {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-red-600">{alertsData.critical.length}</div>
-            <p className="text-xs text-muted-foreground">Immediate attention required</p>
+            <p className="text-xs text-muted-foreground">At or below safety stock</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Low Stock</CardTitle>
+            <CardTitle className="text-sm font-medium">Reorder</CardTitle>
             <AlertTriangle className="h-4 w-4 text-orange-500" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-orange-600">{alertsData.low.length}</div>
-            <p className="text-xs text-muted-foreground">Reorder soon</p>
+            <p className="text-xs text-muted-foreground">At or below reorder point</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Medium Alerts</CardTitle>
-            <AlertCircle className="h-4 w-4 text-yellow-500" />
+            <CardTitle className="text-sm font-medium">Overstock</CardTitle>
+            <AlertCircle className="h-4 w-4 text-blue-500" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-yellow-600">{alertsData.medium.length}</div>
-            <p className="text-xs text-muted-foreground">Monitor closely</p>
+            <div className="text-2xl font-bold text-blue-600">{alertsData.overstock.length}</div>
+            <p className="text-xs text-muted-foreground">Above max level</p>
           </CardContent>
         </Card>
 
@@ -266,6 +265,16 @@ const StockAlerts = () => {
         </Card>
       </div>
 
+      {notConfiguredCount > 0 && (
+        <Alert>
+          <Bell className="h-4 w-4" />
+          <AlertDescription>
+            {notConfiguredCount} items have no reorder levels set on the item or its category and are not monitored.
+            Set them in Item Master or Categories.
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Alerts Chart */}
       <Card>
         <CardHeader>
@@ -291,7 +300,7 @@ const StockAlerts = () => {
           <CardTitle>Filters</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
             <div className="space-y-2">
               <label className="text-sm font-medium">Search Items</label>
               <div className="relative">
@@ -331,9 +340,27 @@ const StockAlerts = () => {
                 <SelectContent>
                   <SelectItem value="all">All Alerts</SelectItem>
                   <SelectItem value="critical">Critical</SelectItem>
-                  <SelectItem value="low">Low Stock</SelectItem>
-                  <SelectItem value="medium">Medium Alert</SelectItem>
+                  <SelectItem value="low">Reorder</SelectItem>
+                  <SelectItem value="overstock">Overstock</SelectItem>
                   <SelectItem value="outOfStock">Out of Stock</SelectItem>
+                  <SelectItem value="notConfigured">Levels Not Set</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Location</label>
+              <Select value={locationFilter} onValueChange={setLocationFilter}>
+                <SelectTrigger>
+                  <SelectValue placeholder="All Locations" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_LOCATIONS}>All Locations</SelectItem>
+                  {locations.map(location => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.location_name}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -346,6 +373,7 @@ const StockAlerts = () => {
                   setSearchTerm("")
                   setCategoryFilter("all")
                   setAlertType("all")
+                  setLocationFilter(ALL_LOCATIONS)
                 }}
                 className="w-full"
               >
@@ -356,71 +384,108 @@ const StockAlerts = () => {
         </CardContent>
       </Card>
 
-      {/* Alerts Table */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Stock Alerts ({filteredAlerts.length} items)</CardTitle>
-          <CardDescription>
-            Detailed view of all stock alerts requiring attention
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="rounded-md border">
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Item Name</TableHead>
-                  <TableHead>Item Code</TableHead>
-                  <TableHead>Category</TableHead>
-                  <TableHead>Current Stock</TableHead>
-                  <TableHead>Stock Level</TableHead>
-                  <TableHead>Days of Cover</TableHead>
-                  <TableHead>Alert Level</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {isLoading ? (
-                  <TableRow>
-                    <TableCell colSpan={7} className="text-center py-8">
-                      <div className="flex items-center justify-center">
-                        <RefreshCw className="h-4 w-4 animate-spin mr-2" />
-                        Loading alerts...
-                      </div>
-                    </TableCell>
-                  </TableRow>
-                ) : filteredAlerts.length === 0 ? (
-                  <TableRow>
-                    <TableCell colSpan={7} className="text-center py-8">
-                      No alerts found matching your criteria
-                    </TableCell>
-                  </TableRow>
-                ) : (
-                  filteredAlerts.map((item) => (
-                    <TableRow key={item.item_code}>
-                      <TableCell className="font-medium">{item.item_name}</TableCell>
-                      <TableCell className="font-mono text-sm">{item.item_code}</TableCell>
-                      <TableCell>
-                        <Badge variant="outline">{item.category_name || 'Uncategorized'}</Badge>
-                      </TableCell>
-                      <TableCell className="font-mono font-bold">{item.current_qty || 0}</TableCell>
-                      <TableCell>
-                        <div className="flex items-center space-x-2">
-                          <Progress value={getStockLevel(item.current_qty || 0)} className="w-16" />
-                          <span className="text-sm">{getStockLevel(item.current_qty || 0)}%</span>
-                        </div>
-                      </TableCell>
-                      <TableCell className="font-mono">
-                        {item.days_of_cover ? `${item.days_of_cover.toFixed(0)} days` : 'N/A'}
-                      </TableCell>
-                      <TableCell>{getAlertBadge(item)}</TableCell>
+      <Tabs defaultValue="levels" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="levels">Stock Levels ({filteredAlerts.length})</TabsTrigger>
+          <TabsTrigger value="expiry">Expiry ({expiryAlertCount})</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="levels">
+          {/* Alerts Table */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Stock Alerts ({filteredAlerts.length} items)</CardTitle>
+              <CardDescription>
+                Detailed view of all stock alerts requiring attention
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item Name</TableHead>
+                      <TableHead>Item Code</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead>Current Stock</TableHead>
+                      <TableHead>By Location</TableHead>
+                      <TableHead>Safety / Reorder / Max</TableHead>
+                      <TableHead>Stock Level</TableHead>
+                      <TableHead>Days of Cover</TableHead>
+                      <TableHead>Alert Level</TableHead>
+                      <TableHead>Ledger</TableHead>
                     </TableRow>
-                  ))
-                )}
-              </TableBody>
-            </Table>
-          </div>
-        </CardContent>
-      </Card>
+                  </TableHeader>
+                  <TableBody>
+                    {isLoading ? (
+                      <TableRow>
+                        <TableCell colSpan={10} className="text-center py-8">
+                          <div className="flex items-center justify-center">
+                            <RefreshCw className="h-4 w-4 animate-spin mr-2" />
+                            Loading alerts...
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ) : filteredAlerts.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={10} className="text-center py-8">
+                          No alerts found matching your criteria
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      filteredAlerts.map((item) => (
+                        <TableRow key={item.item_code}>
+                          <TableCell className="font-medium">{item.item_name}</TableCell>
+                          <TableCell className="font-mono text-sm">{item.item_code}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline">{item.category_name || 'Uncategorized'}</Badge>
+                          </TableCell>
+                          <TableCell className="font-mono font-bold">{item.current_qty || 0}</TableCell>
+                          <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                            {formatLocationBreakdown(locationStock, item.item_code || '') || '-'}
+                          </TableCell>
+                          <TableCell className="font-mono text-sm text-muted-foreground">
+                            {item.safety_stock ?? '-'} / {item.reorder_point ?? '-'} / {item.max_level ?? '-'}
+                          </TableCell>
+                          <TableCell>
+                            {getStockLevelPercent(item) === null ? (
+                              <span className="text-sm text-muted-foreground">N/A</span>
+                            ) : (
+                              <div className="flex items-center space-x-2">
+                                <Progress value={getStockLevelPercent(item)} className="w-16" />
+                                <span className="text-sm">{getStockLevelPercent(item)}%</span>
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell className="font-mono">
+                            {item.days_of_cover ? `${item.days_of_cover.toFixed(0)} days` : 'N/A'}
+                          </TableCell>
+                          <TableCell><StockStatusBadge item={item} /></TableCell>
+                          <TableCell>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 w-8 p-0"
+                              title="View stock ledger"
+                              onClick={() => navigate(`/stock-ledger?item=${encodeURIComponent(item.item_code || '')}`)}
+                            >
+                              <ScrollText className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="expiry">
+          <ExpiryAlerts searchTerm={searchTerm} categoryFilter={categoryFilter} />
+        </TabsContent>
+      </Tabs>
     </div>
   )
 }
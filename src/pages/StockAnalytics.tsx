@@ -44,6 +44,7 @@ import {
   Pie,
   Cell
 } from "recharts"
+import { summarizeAdjustmentsByReason } from "@/utils/adjustments"
 
 const StockAnalytics = () => {
   const [searchTerm, setSearchTerm] = useState("")
@@ -104,6 +105,23 @@ const StockAnalytics = () => {
     }
   })
 
+  // Approved adjustments of the last 90 days, shown as their own series
+  const { data: adjustmentData } = useQuery({
+    queryKey: ['adjustment-analytics'],
+    queryFn: async () => {
+      const since = new Date()
+      since.setDate(since.getDate() - 90)
+      const { data, error } = await supabase
+        .from('stock_adjustment_log')
+        .select('reason, qty, date')
+        .eq('status', 'APPROVED')
+        .gte('date', since.toISOString().split('T')[0])
+
+      if (error) throw error
+      return data || []
+    }
+  })
+
   const filteredStockData = useMemo(() => {
     if (!stockData) return []
     
@@ -142,6 +160,7 @@ const StockAnalytics = () => {
       current: item.current_qty || 0,
       grn_30d: item.total_grn_qty || 0,
       issued_30d: item.issue_30d || 0,
+      adjusted: item.total_adjustment_qty || 0,
       turnover: ((item.issue_30d || 0) / (item.current_qty || 1)) * 100
     })).slice(0, 10)
 
@@ -155,6 +174,8 @@ const StockAnalytics = () => {
       }
     }) || []
 
+    const adjustmentReasonData = summarizeAdjustmentsByReason(adjustmentData || [])
+
     return {
       totalItems,
       lowStockItems,
@@ -165,9 +186,10 @@ const StockAnalytics = () => {
       totalIssuedValue,
       validationIssues,
       stockMovementData,
-      categoryData
+      categoryData,
+      adjustmentReasonData
     }
-  }, [stockData, categories])
+  }, [stockData, categories, adjustmentData])
 
   // Chart colors
   const COLORS = ['hsl(var(--primary))', 'hsl(var(--secondary))', 'hsl(var(--accent))', 'hsl(var(--muted))']
@@ -271,7 +293,7 @@ const StockAnalytics = () => {
                   <BarChart3 className="mr-2 h-4 w-4" />
                   Top 10 Stock Movement
                 </CardTitle>
-                <CardDescription>Current stock vs 30-day issues</CardDescription>
+                <CardDescription>Current stock vs 30-day issues and net adjustments</CardDescription>
               </CardHeader>
               <CardContent>
                 <ResponsiveContainer width="100%" height={300}>
@@ -283,6 +305,7 @@ const StockAnalytics = () => {
                     <Legend />
                     <Bar dataKey="current" fill="hsl(var(--primary))" name="Current Stock" />
                     <Bar dataKey="issued_30d" fill="hsl(var(--destructive))" name="30d Issues" />
+                    <Bar dataKey="adjusted" fill="hsl(var(--accent-foreground))" name="Net Adjustments" />
                   </BarChart>
                 </ResponsiveContainer>
               </CardContent>
@@ -318,6 +341,34 @@ const StockAnalytics = () => {
               </CardContent>
             </Card>
           </div>
+
+          {/* Adjustments by reason */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <TrendingDown className="mr-2 h-4 w-4" />
+                Stock Adjustments by Reason
+              </CardTitle>
+              <CardDescription>Approved adjustments in the last 90 days, kept apart from issues</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {analytics?.adjustmentReasonData.length ? (
+                <ResponsiveContainer width="100%" height={300}>
+                  <BarChart data={analytics.adjustmentReasonData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="name" />
+                    <YAxis />
+                    <Tooltip />
+                    <Legend />
+                    <Bar dataKey="removed" fill="hsl(var(--destructive))" name="Removed" />
+                    <Bar dataKey="added" fill="hsl(var(--primary))" name="Added" />
+                  </BarChart>
+                </ResponsiveContainer>
+              ) : (
+                <div className="text-center py-8 text-muted-foreground">No approved adjustments in the last 90 days</div>
+              )}
+            </CardContent>
+          </Card>
         </TabsContent>
 
         <TabsContent value="trends" className="space-y-4">
@@ -0,0 +1,177 @@
+import { useState } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { useSearchParams } from "react-router-dom"
+import { supabase } from "@/integrations/supabase/client"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { NewStockCountDialog } from "@/components/counts/NewStockCountDialog"
+import { StockCountSheet } from "@/components/counts/StockCountSheet"
+import { StockCountStatusBadge } from "@/components/counts/StockCountStatusBadge"
+import { useStockCounts } from "@/hooks/useStockCounts"
+import { useStorageLocations } from "@/hooks/useStorageLocations"
+import { AlertCircle, AlertTriangle, CheckCircle, ClipboardCheck, Plus, RefreshCw } from "lucide-react"
+
+const StockCounts = () => {
+  const [newCountOpen, setNewCountOpen] = useState(false)
+  const [searchParams, setSearchParams] = useSearchParams()
+  const selectedCountId = searchParams.get('count')
+
+  const { data: counts = [], isLoading, error, refetch } = useStockCounts()
+  const { data: locations = [] } = useStorageLocations()
+
+  const { data: categories = [] } = useQuery({
+    queryKey: ['categories'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('*')
+        .order('category_name')
+
+      if (error) throw error
+      return data || []
+    }
+  })
+
+  const openCount = counts.filter(count => count.status === 'COUNTING').length
+  const awaitingApproval = counts.filter(count => count.status === 'SUBMITTED' || count.status === 'APPROVED').length
+  const postedCount = counts.filter(count => count.status === 'POSTED').length
+
+  const selectedCount = counts.find(count => count.id === selectedCountId)
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Stock Counts</h1>
+          <p className="text-muted-foreground">Count stock by location or category, review variances and post approved corrections</p>
+        </div>
+        <Button onClick={() => setNewCountOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Count
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Error loading stock counts: {error.message}
+            <Button variant="outline" size="sm" onClick={() => refetch()} className="ml-2">
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Retry
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">In Progress</CardTitle>
+            <ClipboardCheck className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{openCount}</div>
+            <p className="text-xs text-muted-foreground">Open for counting</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Awaiting Admin</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-orange-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-orange-600">{awaitingApproval}</div>
+            <p className="text-xs text-muted-foreground">To approve or post</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Posted</CardTitle>
+            <CheckCircle className="h-4 w-4 text-green-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">{postedCount}</div>
+            <p className="text-xs text-muted-foreground">Variances adjusted in stock</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {selectedCountId && !selectedCount && !isLoading && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>The selected count was not found</AlertDescription>
+        </Alert>
+      )}
+
+      {selectedCount && <StockCountSheet key={selectedCount.id} count={selectedCount} />}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Count Sessions ({counts.length})</CardTitle>
+          <CardDescription>Select a count to enter quantities or review its variances</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Count #</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Remarks</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8">
+                      <RefreshCw className="h-4 w-4 animate-spin mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : counts.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                      No stock counts yet. Start one to freeze system quantities and count.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  counts.map(count => (
+                    <TableRow
+                      key={count.id}
+                      className={`cursor-pointer ${count.id === selectedCountId ? 'bg-muted/50' : ''}`}
+                      onClick={() => setSearchParams({ count: count.id })}
+                    >
+                      <TableCell className="font-mono text-sm font-medium">{count.count_number}</TableCell>
+                      <TableCell>{count.count_date}</TableCell>
+                      <TableCell>{count.storage_locations?.location_name || 'All locations'}</TableCell>
+                      <TableCell>{count.categories?.category_name || 'All categories'}</TableCell>
+                      <TableCell><StockCountStatusBadge status={count.status} /></TableCell>
+                      <TableCell className="text-muted-foreground">{count.remarks || '-'}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <NewStockCountDialog
+        open={newCountOpen}
+        onOpenChange={setNewCountOpen}
+        locations={locations}
+        categories={categories}
+        onCreated={(countId) => setSearchParams({ count: countId })}
+      />
+    </div>
+  )
+}
+
+export default StockCounts
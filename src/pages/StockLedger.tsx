@@ -0,0 +1,339 @@
+import { useMemo, useState } from "react"
+import { useSearchParams } from "react-router-dom"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ItemCombobox } from "@/components/ui/item-combobox"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { useItemsWithStock } from "@/hooks/useItemsWithStock"
+import { useItemLedger } from "@/hooks/useItemLedger"
+import { useAuth } from "@/contexts/AuthContext"
+import { exportRowsToXLSX } from "@/utils/spreadsheet"
+import { buildLedger, filterLedger, getLedgerBalance, ledgerEntryLabels, LedgerEntry } from "@/utils/ledger"
+import { AlertCircle, AlertTriangle, ArrowDownCircle, ArrowUpCircle, CheckCircle, Download, FileSpreadsheet, FileText, RefreshCw, ScrollText } from "lucide-react"
+
+const escapeHTML = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const getEntryBadge = (entry: LedgerEntry) => {
+  switch (entry.type) {
+    case 'GRN':
+      return <Badge className="bg-green-100 text-green-800">{ledgerEntryLabels.GRN}</Badge>
+    case 'ISSUE':
+      return <Badge className="bg-orange-100 text-orange-800">{ledgerEntryLabels.ISSUE}</Badge>
+    case 'ADJUSTMENT':
+      return <Badge className="bg-blue-100 text-blue-800">{ledgerEntryLabels.ADJUSTMENT}</Badge>
+    case 'DELETE':
+      return <Badge variant="destructive">{ledgerEntryLabels.DELETE}</Badge>
+    default:
+      return <Badge variant="outline">{ledgerEntryLabels[entry.type]}</Badge>
+  }
+}
+
+const StockLedger = () => {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const itemCode = searchParams.get('item')
+  const [fromDate, setFromDate] = useState("")
+  const [toDate, setToDate] = useState("")
+  const { isAdmin } = useAuth()
+
+  const { data: items = [], isLoading: itemsLoading } = useItemsWithStock()
+  const { data: ledgerData, isLoading, error, refetch } = useItemLedger(itemCode)
+
+  const selectedItem = items.find(item => item.item_code === itemCode)
+
+  const entries = useMemo(() => ledgerData ? buildLedger({
+    opening_qty: ledgerData.stock?.opening_qty || 0,
+    grns: ledgerData.grns,
+    issues: ledgerData.issues,
+    adjustments: ledgerData.adjustments,
+    audits: ledgerData.audits,
+  }) : [], [ledgerData])
+
+  const view = useMemo(() => filterLedger(entries, fromDate, toDate), [entries, fromDate, toDate])
+
+  // Same check as stock_summary.stock_validation_status: movements should add up to current_qty
+  const ledgerBalance = getLedgerBalance(entries)
+  const currentQty = ledgerData?.stock?.current_qty || 0
+  const isMismatch = !!ledgerData && ledgerBalance !== currentQty
+
+  const fileName = `stock-ledger-${itemCode}-${new Date().toISOString().split('T')[0]}`
+
+  const getExportRows = () => [
+    ...(fromDate ? [{ 'Date': fromDate, 'Type': 'Brought forward', 'Reference': '', 'Description': '', 'In': '', 'Out': '', 'Balance': view.broughtForward }] : []),
+    ...view.entries.map(entry => ({
+      'Date': entry.date,
+      'Type': ledgerEntryLabels[entry.type],
+      'Reference': entry.reference,
+      'Description': entry.description,
+      'In': entry.qty_in || '',
+      'Out': entry.qty_out || '',
+      'Balance': entry.balance,
+    }))
+  ]
+
+  const exportToCSV = () => {
+    const csvData = getExportRows()
+
+    const csvString = [
+      Object.keys(csvData[0]).join(','),
+      ...csvData.map(row => Object.values(row).map(value => `"${String(value).replace(/"/g, '""')}"`).join(','))
+    ].join('\n')
+
+    const blob = new Blob([csvString], { type: 'text/csv' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `${fileName}.csv`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  // No PDF library in the bundle: open a printable stock card and let the browser save it as PDF
+  const exportToPDF = () => {
+    const printWindow = window.open('', '_blank')
+    if (!printWindow) return
+
+    const rows = [
+      ...(fromDate ? [`<tr><td>${escapeHTML(fromDate)}</td><td colspan="4">Brought forward</td><td></td><td class="num">${view.broughtForward}</td></tr>`] : []),
+      ...view.entries.map(entry => `<tr>
+        <td>${escapeHTML(entry.date)}</td>
+        <td>${escapeHTML(ledgerEntryLabels[entry.type])}</td>
+        <td>${escapeHTML(entry.reference)}</td>
+        <td>${escapeHTML(entry.description)}</td>
+        <td class="num">${entry.qty_in || ''}</td>
+        <td class="num">${entry.qty_out || ''}</td>
+        <td class="num">${entry.balance}</td>
+      </tr>`)
+    ]
+
+    printWindow.document.write(`<!DOCTYPE html>
+      <html>
+        <head>
+          <title>${escapeHTML(fileName)}</title>
+          <style>
+            body { font-family: sans-serif; font-size: 12px; margin: 24px; }
+            table { width: 100%; border-collapse: collapse; margin-top: 12px; }
+            th, td { border: 1px solid #ccc; padding: 4px 6px; text-align: left; }
+            .num { text-align: right; font-family: monospace; }
+            .mismatch { color: #b91c1c; font-weight: bold; }
+          </style>
+        </head>
+        <body>
+          <h2>Stock Ledger: ${escapeHTML(selectedItem?.item_name || itemCode || '')} (${escapeHTML(itemCode || '')})</h2>
+          <div>Period: ${escapeHTML(fromDate || 'Start')} to ${escapeHTML(toDate || 'Today')}</div>
+          <div>Received: ${view.totalIn} &nbsp; Issued / Removed: ${view.totalOut} &nbsp; Closing balance: ${view.closingBalance}</div>
+          ${isMismatch ? `<div class="mismatch">Ledger balance ${ledgerBalance} does not match current stock ${currentQty}</div>` : ''}
+          <table>
+            <thead><tr><th>Date</th><th>Type</th><th>Reference</th><th>Description</th><th>In</th><th>Out</th><th>Balance</th></tr></thead>
+            <tbody>${rows.join('')}</tbody>
+          </table>
+        </body>
+      </html>`)
+    printWindow.document.close()
+    printWindow.focus()
+    printWindow.print()
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Stock Ledger</h1>
+          <p className="text-muted-foreground">Every receipt, issue and adjustment of an item with its running balance</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={exportToCSV} disabled={!ledgerData}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+          <Button variant="outline" onClick={() => exportRowsToXLSX(getExportRows(), `${fileName}.xlsx`, 'Stock Ledger')} disabled={!ledgerData}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Export Excel
+          </Button>
+          <Button variant="outline" onClick={exportToPDF} disabled={!ledgerData}>
+            <FileText className="h-4 w-4 mr-2" />
+            Export PDF
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Item</Label>
+              <ItemCombobox
+                items={items}
+                value={itemCode || ""}
+                onValueChange={(value) => setSearchParams(value ? { item: value } : {})}
+                placeholder="Select an item"
+                isLoading={itemsLoading}
+                showStockLevel
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ledger-from">From</Label>
+              <Input id="ledger-from" type="date" value={fromDate} max={toDate || undefined} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ledger-to">To</Label>
+              <Input id="ledger-to" type="date" value={toDate} min={fromDate || undefined} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Error loading stock ledger: {error.message}
+            <Button variant="outline" size="sm" onClick={() => refetch()} className="ml-2">
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Retry
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {!itemCode ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            <ScrollText className="h-8 w-8 mx-auto mb-2" />
+            Select an item to see its stock card
+          </CardContent>
+        </Card>
+      ) : isLoading ? (
+        <div className="flex justify-center py-12">
+          <RefreshCw className="h-6 w-6 animate-spin" />
+        </div>
+      ) : ledgerData && (
+        <>
+          {isMismatch && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                Stock mismatch: the ledger adds up to {ledgerBalance} but current stock is {currentQty} (difference {currentQty - ledgerBalance}).
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">{fromDate ? 'Brought Forward' : 'Opening Stock'}</CardTitle>
+                <ScrollText className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{fromDate ? view.broughtForward : ledgerData.stock?.opening_qty || 0}</div>
+                <p className="text-xs text-muted-foreground">{fromDate ? `Balance before ${fromDate}` : 'From opening stock entry'}</p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Received</CardTitle>
+                <ArrowDownCircle className="h-4 w-4 text-green-500" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-green-600">{view.totalIn}</div>
+                <p className="text-xs text-muted-foreground">GRNs and positive adjustments</p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Issued / Removed</CardTitle>
+                <ArrowUpCircle className="h-4 w-4 text-red-500" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-red-600">{view.totalOut}</div>
+                <p className="text-xs text-muted-foreground">Issues and negative adjustments</p>
+              </CardContent>
+            </Card>
+
+            <Card className={isMismatch ? 'border-destructive' : ''}>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Closing Balance</CardTitle>
+                {isMismatch
+                  ? <AlertTriangle className="h-4 w-4 text-red-500" />
+                  : <CheckCircle className="h-4 w-4 text-green-500" />}
+              </CardHeader>
+              <CardContent>
+                <div className={`text-2xl font-bold ${isMismatch ? 'text-red-600' : ''}`}>{view.closingBalance}</div>
+                <p className="text-xs text-muted-foreground">Current stock: {currentQty} {selectedItem?.uom || ''}</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                {selectedItem?.item_name || itemCode} <span className="font-mono text-sm text-muted-foreground">{itemCode}</span>
+              </CardTitle>
+              <CardDescription>
+                {isAdmin
+                  ? 'Edits and deletions from the audit log are listed for reference and do not change the balance'
+                  : 'Audit history of edits and deletions is visible to admins only'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Reference</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="text-right">In</TableHead>
+                      <TableHead className="text-right">Out</TableHead>
+                      <TableHead className="text-right">Balance</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {fromDate && (
+                      <TableRow className="bg-muted/50">
+                        <TableCell>{fromDate}</TableCell>
+                        <TableCell colSpan={5} className="font-medium">Brought forward</TableCell>
+                        <TableCell className="text-right font-mono font-bold">{view.broughtForward}</TableCell>
+                      </TableRow>
+                    )}
+                    {view.entries.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                          No movements in this period
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      view.entries.map(entry => (
+                        <TableRow
+                          key={`${entry.type}-${entry.id}`}
+                          className={entry.type === 'EDIT' || entry.type === 'DELETE' ? 'text-muted-foreground italic' : ''}
+                        >
+                          <TableCell className="whitespace-nowrap">{entry.date || '-'}</TableCell>
+                          <TableCell>{getEntryBadge(entry)}</TableCell>
+                          <TableCell className="font-mono text-sm">{entry.reference}</TableCell>
+                          <TableCell>{entry.description}</TableCell>
+                          <TableCell className="text-right font-mono text-green-600">{entry.qty_in || ''}</TableCell>
+                          <TableCell className="text-right font-mono text-red-600">{entry.qty_out || ''}</TableCell>
+                          <TableCell className="text-right font-mono font-bold">{entry.balance}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default StockLedger
@@ -9,10 +9,24 @@ import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
 import { TemplateDownload } from "@/components/ui/template-download"
 import { ItemCombobox } from "@/components/ui/item-combobox"
+import { VendorCombobox } from "@/components/ui/vendor-combobox"
 import { PaginatedTable } from "@/components/ui/paginated-table"
 import { useItemsWithStock } from "@/hooks/useItemsWithStock"
+import { useOpenPOLines } from "@/hooks/useOpenPOLines"
+import { useVendors } from "@/hooks/useVendors"
+import { useProductionOrders } from "@/hooks/useProductionOrders"
+import { useStorageLocations } from "@/hooks/useStorageLocations"
+import { useLocationStock } from "@/hooks/useLocationStock"
+import { useSystemSettings } from "@/hooks/useSystemSettings"
+import { usePermissions } from "@/hooks/usePermission"
+import { getLocationQty } from "@/utils/locations"
+import { useStockLots } from "@/hooks/useStockLots"
+import { allocateFEFO, getIssuableLots, type LotAllocation } from "@/utils/lots"
+import { formatPOLineLabel, getOverReceiptQty } from "@/utils/purchaseOrders"
+import { productionStages } from "@/utils/production"
 import { useToast } from "@/hooks/use-toast"
-import { Plus, Minus, AlertCircle, RefreshCw } from "lucide-react"
+import { Plus, Minus, AlertCircle, AlertTriangle, RefreshCw } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import {
   Table,
   TableBody,
@@ -26,20 +40,56 @@ import { GRNCSVUpload } from "@/components/csv/GRNCSVUpload"
 import { IssueCSVUpload } from "@/components/csv/IssueCSVUpload"
 import { EditableGRNRow } from "@/components/stock/EditableGRNRow"
 import { EditableIssueRow } from "@/components/stock/EditableIssueRow"
+import { StockAdjustmentPanel } from "@/components/stock/StockAdjustmentPanel"
+import { LocationSelect } from "@/components/locations/LocationSelect"
+
+interface IssueFormData {
+  date: string
+  item_code: string
+  qty_issued: number
+  purpose: string
+  remarks: string
+  uiorn: string | null
+  production_stage: string | null
+  location_id: string
+}
 
 const StockOperations = () => {
   const [selectedItem, setSelectedItem] = useState("")
+  const [selectedPOLine, setSelectedPOLine] = useState("none")
+  const [grnQty, setGrnQty] = useState("")
+  const [grnVendorId, setGrnVendorId] = useState("")
+  const [issueUiorn, setIssueUiorn] = useState("none")
+  const [issueStage, setIssueStage] = useState("none")
+  const [grnLocationId, setGrnLocationId] = useState("")
+  const [issueLocationId, setIssueLocationId] = useState("")
+  const [issueQty, setIssueQty] = useState("")
+  const [issueLot, setIssueLot] = useState("fefo")
   const { toast } = useToast()
   const queryClient = useQueryClient()
 
   const { data: items = [], isLoading: itemsLoading, error: itemsError, refetch: refetchItems } = useItemsWithStock()
+  const { data: openPOLines = [] } = useOpenPOLines()
+  const { data: vendors = [], isLoading: vendorsLoading } = useVendors()
+  const { data: productionOrders = [] } = useProductionOrders()
+  const { data: locations = [] } = useStorageLocations()
+  const { data: locationStock = [] } = useLocationStock()
+  const { data: systemSettings } = useSystemSettings()
+  const allowNegativeStock = systemSettings?.allow_negative_stock ?? false
+  const { can } = usePermissions()
+  const { data: stockLots = [] } = useStockLots()
+
+  // Until the user picks one, entries go to the default location
+  const defaultLocationId = locations.find(location => location.is_default)?.id || ""
+  const grnLocation = grnLocationId || defaultLocationId
+  const issueLocation = issueLocationId || defaultLocationId
 
   const { data: recentGRNs } = useQuery({
     queryKey: ['recent-grn'],
     queryFn: async () => {
       const { data, error } = await supabase
         .from('grn_log')
-        .select('*')
+        .select('*, purchase_order_lines(purchase_orders(po_number)), storage_locations(location_name)')
         .order('created_at', { ascending: false })
         .limit(50)
       
@@ -53,7 +103,7 @@ const StockOperations = () => {
     queryFn: async () => {
       const { data, error } = await supabase
         .from('issue_log')
-        .select('*')
+        .select('*, issue_valuation(unit_cost, total_cost), storage_locations(location_name), lot:grn_log(lot_number)')
         .order('created_at', { ascending: false })
         .limit(50)
       
@@ -62,6 +112,22 @@ const StockOperations = () => {
     }
   })
 
+  const { data: lastPurchase } = useQuery({
+    queryKey: ['vendor-item-history', grnVendorId, selectedItem],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('vendor_item_purchase_history')
+        .select('last_rate, last_rate_date')
+        .eq('vendor_id', grnVendorId)
+        .eq('item_code', selectedItem)
+        .maybeSingle()
+
+      if (error) throw error
+      return data
+    },
+    enabled: !!grnVendorId && !!selectedItem
+  })
+
   const createGRNMutation = useMutation({
     mutationFn: async (grnData: any) => {
       const { data, error } = await supabase
@@ -76,6 +142,10 @@ const StockOperations = () => {
       queryClient.invalidateQueries({ queryKey: ['recent-grn'] })
       queryClient.invalidateQueries({ queryKey: ['stock-summary'] })
       queryClient.invalidateQueries({ queryKey: ['items-with-stock'] })
+      queryClient.invalidateQueries({ queryKey: ['location-stock'] })
+      queryClient.invalidateQueries({ queryKey: ['stock-lots'] })
+      queryClient.invalidateQueries({ queryKey: ['open-po-lines'] })
+      queryClient.invalidateQueries({ queryKey: ['purchase-orders'] })
       toast({
         title: "Success",
         description: "GRN entry created successfully",
@@ -91,35 +161,33 @@ const StockOperations = () => {
   })
 
   const createIssueMutation = useMutation({
-    mutationFn: async (issueData: any) => {
-      // Check available stock first
-      const { data: stockData, error: stockError } = await supabase
-        .from('stock')
-        .select('current_qty')
-        .eq('item_code', issueData.item_code)
-        .single()
-
-      if (stockError) throw new Error('Could not check stock levels')
-      
-      if (!stockData || stockData.current_qty < issueData.qty_issued) {
-        throw new Error('Insufficient stock available')
-      }
-
-      const { data, error } = await supabase
-        .from('issue_log')
-        .insert(issueData)
-        .select()
+    mutationFn: async ({ issueData, allocations }: { issueData: IssueFormData, allocations: LotAllocation[] }) => {
+      // Availability is checked under a lock on the stock row, so concurrent issues cannot both pass
+      const { data, error } = await supabase.rpc('post_issue', {
+        p_item_code: issueData.item_code,
+        p_date: issueData.date,
+        p_qty: issueData.qty_issued,
+        p_location_id: issueData.location_id,
+        p_purpose: issueData.purpose,
+        p_remarks: issueData.remarks,
+        p_uiorn: issueData.uiorn,
+        p_production_stage: issueData.production_stage,
+        p_lot_allocations: allocations.map(allocation => ({ lot_id: allocation.lot_id, qty: allocation.qty }))
+      })
 
       if (error) throw error
       return data
     },
-    onSuccess: () => {
+    onSuccess: (balance) => {
       queryClient.invalidateQueries({ queryKey: ['recent-issues'] })
       queryClient.invalidateQueries({ queryKey: ['stock-summary'] })
       queryClient.invalidateQueries({ queryKey: ['items-with-stock'] })
+      queryClient.invalidateQueries({ queryKey: ['location-stock'] })
+      queryClient.invalidateQueries({ queryKey: ['stock-lots'] })
+      queryClient.invalidateQueries({ queryKey: ['job-costing'] })
       toast({
         title: "Success",
-        description: "Issue entry created successfully",
+        description: `Issue entry created successfully. Stock now ${balance}`,
       })
     },
     onError: (error) => {
@@ -131,9 +199,39 @@ const StockOperations = () => {
     }
   })
 
+  const handleItemChange = (itemCode: string) => {
+    setSelectedItem(itemCode)
+    setSelectedPOLine("none")
+    setGrnQty("")
+    setGrnVendorId("")
+    setIssueQty("")
+    setIssueLot("fefo")
+  }
+
+  const handlePOLineChange = (lineId: string) => {
+    setSelectedPOLine(lineId)
+    const line = openPOLines.find(l => l.po_line_id === lineId)
+    if (line) {
+      setGrnVendorId(line.vendor_id || "")
+      if (!grnQty) setGrnQty(String(line.pending_qty ?? ""))
+    }
+  }
+
   const handleGRNSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault()
     const formData = new FormData(e.target as HTMLFormElement)
+    const lotNumber = (formData.get('lot_number') as string).trim()
+    const mfgDate = formData.get('mfg_date') as string
+    const expiryDate = formData.get('expiry_date') as string
+
+    if (mfgDate && expiryDate && expiryDate < mfgDate) {
+      toast({
+        title: "Error",
+        description: "Expiry date cannot be before the manufacture date",
+        variant: "destructive",
+      })
+      return
+    }
     
     const grnData = {
       grn_number: formData.get('grn_number') as string,
@@ -143,39 +241,72 @@ const StockOperations = () => {
       qty_received: parseFloat(formData.get('qty_received') as string),
       invoice_number: formData.get('invoice_number') as string,
       amount_inr: formData.get('amount_inr') ? parseFloat(formData.get('amount_inr') as string) : null,
-      vendor: formData.get('vendor') as string,
-      remarks: formData.get('remarks') as string
+      vendor_id: grnVendorId || null,
+      vendor: vendors.find(vendor => vendor.id === grnVendorId)?.vendor_name || null,
+      remarks: formData.get('remarks') as string,
+      po_line_id: selectedPOLine === "none" ? null : selectedPOLine,
+      location_id: grnLocation,
+      lot_number: lotNumber || null,
+      mfg_date: mfgDate || null,
+      expiry_date: expiryDate || null
     }
 
     createGRNMutation.mutate(grnData)
     ;(e.target as HTMLFormElement).reset()
-    setSelectedItem("")
+    handleItemChange("")
   }
 
   const handleIssueSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault()
     const formData = new FormData(e.target as HTMLFormElement)
     
-    const issueData = {
+    const issueData: IssueFormData = {
       date: formData.get('date') as string,
       item_code: selectedItem,
       qty_issued: parseFloat(formData.get('qty_issued') as string),
       purpose: formData.get('purpose') as string,
-      remarks: formData.get('remarks') as string
+      remarks: formData.get('remarks') as string,
+      uiorn: issueUiorn === "none" ? null : issueUiorn,
+      production_stage: issueUiorn === "none" || issueStage === "none" ? null : issueStage,
+      location_id: issueLocation
     }
 
-    createIssueMutation.mutate(issueData)
+    const lots = getIssuableLots(stockLots, selectedItem, issueData.date)
+    const chosenLot = lots.find(lot => lot.lot_id === issueLot)
+    const allocations = issueLot === "fefo"
+      ? allocateFEFO(lots, issueData.qty_issued).allocations
+      : chosenLot ? allocateFEFO([chosenLot], issueData.qty_issued).allocations : []
+
+    createIssueMutation.mutate({ issueData, allocations })
     ;(e.target as HTMLFormElement).reset()
-    setSelectedItem("")
+    handleItemChange("")
+    setIssueUiorn("none")
+    setIssueStage("none")
   }
 
   const selectedItemDetails = items.find(item => item.item_code === selectedItem)
+  const issueLocationQty = selectedItem ? getLocationQty(locationStock, selectedItem, issueLocation) : 0
+  const issueLots = selectedItem ? getIssuableLots(stockLots, selectedItem, new Date().toISOString().split('T')[0]) : []
+  const fefoPlan = issueLots.length > 0 && parseFloat(issueQty) > 0
+    ? allocateFEFO(issueLot === "fefo" ? issueLots : issueLots.filter(lot => lot.lot_id === issueLot), parseFloat(issueQty))
+    : null
+  const itemPOLines = openPOLines.filter(line => line.item_code === selectedItem)
+  const selectedPOLineDetails = itemPOLines.find(line => line.po_line_id === selectedPOLine)
+  const visibleTabs = [
+    ...(can('grn') ? ['grn'] : []),
+    ...(can('issues') ? ['issue'] : []),
+    ...(can('inventory') ? ['adjustment'] : []),
+  ]
+
+  const overReceiptQty = selectedPOLineDetails && grnQty
+    ? getOverReceiptQty(selectedPOLineDetails, parseFloat(grnQty) || 0)
+    : 0
 
   return (
     <div className="p-6 space-y-6">
       <div>
         <h1 className="text-3xl font-bold">Stock Operations</h1>
-        <p className="text-muted-foreground">Manage stock receipts (GRN) and issues</p>
+        <p className="text-muted-foreground">Manage stock receipts (GRN), issues and adjustments</p>
       </div>
 
       {itemsError && (
@@ -196,158 +327,241 @@ const StockOperations = () => {
         </Alert>
       )}
 
-      <Tabs defaultValue="grn" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-2">
-          <TabsTrigger value="grn">Goods Receipt Note (GRN)</TabsTrigger>
-          <TabsTrigger value="issue">Stock Issue</TabsTrigger>
+      <Tabs defaultValue={visibleTabs[0]} className="space-y-6">
+        <TabsList className="grid w-full" style={{ gridTemplateColumns: `repeat(${visibleTabs.length}, minmax(0, 1fr))` }}>
+          {can('grn') && <TabsTrigger value="grn">Goods Receipt Note (GRN)</TabsTrigger>}
+          {can('issues') && <TabsTrigger value="issue">Stock Issue</TabsTrigger>}
+          {can('inventory') && <TabsTrigger value="adjustment">Stock Adjustment</TabsTrigger>}
         </TabsList>
 
         <TabsContent value="grn" className="space-y-6">
-          <Tabs defaultValue="single" className="space-y-4">
-            <TabsList className="grid w-full grid-cols-2">
-              <TabsTrigger value="single">Single Entry</TabsTrigger>
-              <TabsTrigger value="bulk">Bulk Upload</TabsTrigger>
-            </TabsList>
-
-            <TabsContent value="single" className="space-y-6">
-              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-                {/* Template Download */}
-                <div className="lg:col-span-1">
-                  <TemplateDownload
-                    templateType="grn"
-                    title="Download GRN Template"
-                    description="CSV template for bulk GRN entry with sample data and all required fields"
-                    showPreview={false}
-                  />
-                </div>
+          {can('grn', 'create') && (
+            <Tabs defaultValue="single" className="space-y-4">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="single">Single Entry</TabsTrigger>
+                <TabsTrigger value="bulk">Bulk Upload</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="single" className="space-y-6">
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                  {/* Template Download */}
+                  <div className="lg:col-span-1">
+                    <TemplateDownload
+                      templateType="grn"
+                      title="Download GRN Template"
+                      description="CSV template for bulk GRN entry with sample data and all required fields"
+                      showPreview={false}
+                    />
+                  </div>
+
+                  {/* GRN Form */}
+                  <div className="lg:col-span-2">
+                    <Card>
+                      <CardHeader>
+                        <CardTitle className="flex items-center">
+                          <Plus className="mr-2 h-4 w-4" />
+                          Add Stock Receipt
+                        </CardTitle>
+                        <CardDescription>Record incoming stock items</CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <form onSubmit={handleGRNSubmit} className="space-y-4">
+                          <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                              <Label htmlFor="grn_number">GRN Number *</Label>
+                              <Input
+                                id="grn_number"
+                                name="grn_number"
+                                placeholder="GRN-001"
+                                required
+                              />
+                            </div>
+                            <div className="space-y-2">
+                              <Label htmlFor="date">Date *</Label>
+                              <Input
+                                id="date"
+                                name="date"
+                                type="date"
+                                defaultValue={new Date().toISOString().split('T')[0]}
+                                required
+                              />
+                            </div>
+                          </div>
 
-                {/* GRN Form */}
-                <div className="lg:col-span-2">
-                  <Card>
-                    <CardHeader>
-                      <CardTitle className="flex items-center">
-                        <Plus className="mr-2 h-4 w-4" />
-                        Add Stock Receipt
-                      </CardTitle>
-                      <CardDescription>Record incoming stock items</CardDescription>
-                    </CardHeader>
-                    <CardContent>
-                      <form onSubmit={handleGRNSubmit} className="space-y-4">
-                        <div className="grid grid-cols-2 gap-4">
                           <div className="space-y-2">
-                            <Label htmlFor="grn_number">GRN Number *</Label>
-                            <Input
-                              id="grn_number"
-                              name="grn_number"
-                              placeholder="GRN-001"
-                              required
+                            <Label htmlFor="item_code">Item *</Label>
+                            <ItemCombobox
+                              items={items}
+                              value={selectedItem}
+                              onValueChange={handleItemChange}
+                              placeholder="Search and select item..."
+                              showStockLevel={true}
+                              isLoading={itemsLoading}
                             />
                           </div>
+
+                          {selectedItem && (
+                            <div className="space-y-2">
+                              <Label htmlFor="po_line">Purchase Order Line</Label>
+                              <Select value={selectedPOLine} onValueChange={handlePOLineChange}>
+                                <SelectTrigger id="po_line">
+                                  <SelectValue placeholder="Select PO line" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="none">No purchase order</SelectItem>
+                                  {itemPOLines.map(line => (
+                                    <SelectItem key={line.po_line_id} value={line.po_line_id as string}>
+                                      {formatPOLineLabel(line)}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              {itemPOLines.length === 0 && (
+                                <p className="text-xs text-muted-foreground">No open purchase orders for this item</p>
+                              )}
+                            </div>
+                          )}
+
                           <div className="space-y-2">
-                            <Label htmlFor="date">Date *</Label>
-                            <Input
-                              id="date"
-                              name="date"
-                              type="date"
-                              defaultValue={new Date().toISOString().split('T')[0]}
-                              required
+                            <Label htmlFor="grn_location">Receive Into *</Label>
+                            <LocationSelect
+                              id="grn_location"
+                              locations={locations}
+                              value={grnLocation}
+                              onValueChange={setGrnLocationId}
                             />
                           </div>
-                        </div>
-
-                        <div className="space-y-2">
-                          <Label htmlFor="item_code">Item *</Label>
-                          <ItemCombobox
-                            items={items}
-                            value={selectedItem}
-                            onValueChange={setSelectedItem}
-                            placeholder="Search and select item..."
-                            showStockLevel={true}
-                            isLoading={itemsLoading}
-                          />
-                        </div>
-
-                        <div className="grid grid-cols-2 gap-4">
-                          <div className="space-y-2">
-                            <Label htmlFor="qty_received">Quantity Received *</Label>
-                            <Input
-                              id="qty_received"
-                              name="qty_received"
-                              type="number"
-                              step="0.01"
-                              placeholder="0"
-                              required
-                            />
+
+                          <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                              <Label htmlFor="qty_received">Quantity Received *</Label>
+                              <Input
+                                id="qty_received"
+                                name="qty_received"
+                                type="number"
+                                step="0.01"
+                                placeholder="0"
+                                value={grnQty}
+                                onChange={(e) => setGrnQty(e.target.value)}
+                                required
+                              />
+                            </div>
+                            <div className="space-y-2">
+                              <Label htmlFor="uom">UOM</Label>
+                              <Input
+                                id="uom"
+                                name="uom"
+                                value={selectedItemDetails?.uom || ''}
+                                readOnly
+                                placeholder="Select item first"
+                              />
+                            </div>
                           </div>
-                          <div className="space-y-2">
-                            <Label htmlFor="uom">UOM</Label>
-                            <Input
-                              id="uom"
-                              name="uom"
-                              value={selectedItemDetails?.uom || ''}
-                              readOnly
-                              placeholder="Select item first"
-                            />
+
+                          {overReceiptQty > 0 && selectedPOLineDetails && (
+                            <Alert>
+                              <AlertTriangle className="h-4 w-4" />
+                              <AlertDescription>
+                                Over-receipt: {overReceiptQty} {selectedItemDetails?.uom} more than the {selectedPOLineDetails.pending_qty} pending on {selectedPOLineDetails.po_number}
+                              </AlertDescription>
+                            </Alert>
+                          )}
+
+                          <div className="grid grid-cols-3 gap-4">
+                            <div className="space-y-2">
+                              <Label htmlFor="lot_number">Lot / Roll Number</Label>
+                              <Input
+                                id="lot_number"
+                                name="lot_number"
+                                placeholder="R-1024"
+                              />
+                            </div>
+                            <div className="space-y-2">
+                              <Label htmlFor="mfg_date">Mfg Date</Label>
+                              <Input
+                                id="mfg_date"
+                                name="mfg_date"
+                                type="date"
+                              />
+                            </div>
+                            <div className="space-y-2">
+                              <Label htmlFor="expiry_date">Expiry Date</Label>
+                              <Input
+                                id="expiry_date"
+                                name="expiry_date"
+                                type="date"
+                              />
+                            </div>
+                          </div>
+
+                          <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                              <Label htmlFor="invoice_number">Invoice Number</Label>
+                              <Input
+                                id="invoice_number"
+                                name="invoice_number"
+                                placeholder="INV-001"
+                              />
+                            </div>
+                            <div className="space-y-2">
+                              <Label htmlFor="amount_inr">Amount (INR)</Label>
+                              <Input
+                                id="amount_inr"
+                                name="amount_inr"
+                                type="number"
+                                step="0.01"
+                                placeholder="0.00"
+                              />
+                              {lastPurchase?.last_rate != null && (
+                                <p className="text-xs text-muted-foreground">
+                                  Last rate from this vendor: ₹{lastPurchase.last_rate}/{selectedItemDetails?.uom} on {lastPurchase.last_rate_date}
+                                </p>
+                              )}
+                            </div>
                           </div>
-                        </div>
 
-                        <div className="grid grid-cols-2 gap-4">
                           <div className="space-y-2">
-                            <Label htmlFor="invoice_number">Invoice Number</Label>
-                            <Input
-                              id="invoice_number"
-                              name="invoice_number"
-                              placeholder="INV-001"
+                            <Label htmlFor="vendor">Vendor</Label>
+                            <VendorCombobox
+                              vendors={vendors}
+                              value={grnVendorId}
+                              onValueChange={setGrnVendorId}
+                              placeholder="Search and select vendor..."
+                              isLoading={vendorsLoading}
                             />
                           </div>
+
                           <div className="space-y-2">
-                            <Label htmlFor="amount_inr">Amount (INR)</Label>
-                            <Input
-                              id="amount_inr"
-                              name="amount_inr"
-                              type="number"
-                              step="0.01"
-                              placeholder="0.00"
+                            <Label htmlFor="remarks">Remarks</Label>
+                            <Textarea
+                              id="remarks"
+                              name="remarks"
+                              placeholder="Additional notes..."
                             />
                           </div>
-                        </div>
-
-                        <div className="space-y-2">
-                          <Label htmlFor="vendor">Vendor</Label>
-                          <Input
-                            id="vendor"
-                            name="vendor"
-                            placeholder="Vendor name"
-                          />
-                        </div>
-
-                        <div className="space-y-2">
-                          <Label htmlFor="remarks">Remarks</Label>
-                          <Textarea
-                            id="remarks"
-                            name="remarks"
-                            placeholder="Additional notes..."
-                          />
-                        </div>
-
-                        <Button type="submit" className="w-full" disabled={createGRNMutation.isPending || !selectedItem}>
-                          {createGRNMutation.isPending ? "Processing..." : "Add GRN Entry"}
-                        </Button>
-                      </form>
-                    </CardContent>
-                  </Card>
-                </div>
-              </div>
-            </TabsContent>
 
-            <TabsContent value="bulk">
-              <GRNCSVUpload onUploadComplete={() => {
-                queryClient.invalidateQueries({ queryKey: ['recent-grn'] });
-                queryClient.invalidateQueries({ queryKey: ['stock-summary'] });
-                queryClient.invalidateQueries({ queryKey: ['items-with-stock'] });
-              }} />
-            </TabsContent>
-          </Tabs>
+                          <Button type="submit" className="w-full" disabled={createGRNMutation.isPending || !selectedItem}>
+                            {createGRNMutation.isPending ? "Processing..." : "Add GRN Entry"}
+                          </Button>
+                        </form>
+                      </CardContent>
+                    </Card>
+                  </div>
+                </div>
+              </TabsContent>
+
+              <TabsContent value="bulk">
+                <GRNCSVUpload onUploadComplete={() => {
+                  queryClient.invalidateQueries({ queryKey: ['recent-grn'] });
+                  queryClient.invalidateQueries({ queryKey: ['stock-summary'] });
+                  queryClient.invalidateQueries({ queryKey: ['items-with-stock'] });
+                  queryClient.invalidateQueries({ queryKey: ['location-stock'] });
+                  queryClient.invalidateQueries({ queryKey: ['stock-lots'] });
+                  queryClient.invalidateQueries({ queryKey: ['open-po-lines'] });
+                }} />
+              </TabsContent>
+            </Tabs>
+          )}
 
           {/* Recent GRNs with Edit/Delete */}
           <Card>
@@ -365,8 +579,10 @@ const StockOperations = () => {
                       <TableHead>Item Code</TableHead>
                       <TableHead>Quantity</TableHead>
                       <TableHead>UOM</TableHead>
+                      <TableHead>Location</TableHead>
                       <TableHead>Invoice Number</TableHead>
                       <TableHead>Vendor</TableHead>
+                      <TableHead>PO Number</TableHead>
                       <TableHead>Amount (INR)</TableHead>
                       <TableHead>Remarks</TableHead>
                       <TableHead>Actions</TableHead>
@@ -374,7 +590,7 @@ const StockOperations = () => {
                   </TableHeader>
                   <TableBody>
                     {recentGRNs?.map((grn) => (
-                      <EditableGRNRow key={grn.id} grn={grn} />
+                      <EditableGRNRow key={grn.id} grn={grn} locations={locations} />
                     ))}
                   </TableBody>
                 </Table>
@@ -384,123 +600,206 @@ const StockOperations = () => {
         </TabsContent>
 
         <TabsContent value="issue" className="space-y-6">
-          <Tabs defaultValue="single" className="space-y-4">
-            <TabsList className="grid w-full grid-cols-2">
-              <TabsTrigger value="single">Single Entry</TabsTrigger>
-              <TabsTrigger value="bulk">Bulk Upload</TabsTrigger>
-            </TabsList>
-
-            <TabsContent value="single" className="space-y-6">
-              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-                {/* Template Download */}
-                <div className="lg:col-span-1">
-                  <TemplateDownload
-                    templateType="issue"
-                    title="Download Issue Template"
-                    description="CSV template for bulk issue entry with sample data and all required fields"
-                    showPreview={false}
-                  />
-                </div>
+          {can('issues', 'create') && (
+            <Tabs defaultValue="single" className="space-y-4">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="single">Single Entry</TabsTrigger>
+                <TabsTrigger value="bulk">Bulk Upload</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="single" className="space-y-6">
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                  {/* Template Download */}
+                  <div className="lg:col-span-1">
+                    <TemplateDownload
+                      templateType="issue"
+                      title="Download Issue Template"
+                      description="CSV template for bulk issue entry with sample data and all required fields"
+                      showPreview={false}
+                    />
+                  </div>
+
+                  {/* Issue Form */}
+                  <div className="lg:col-span-2">
+                    <Card>
+                      <CardHeader>
+                        <CardTitle className="flex items-center">
+                          <Minus className="mr-2 h-4 w-4" />
+                          Issue Stock
+                        </CardTitle>
+                        <CardDescription>Record stock consumption/issues</CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <form onSubmit={handleIssueSubmit} className="space-y-4">
+                          <div className="space-y-2">
+                            <Label htmlFor="date">Date *</Label>
+                            <Input
+                              id="date"
+                              name="date"
+                              type="date"
+                              defaultValue={new Date().toISOString().split('T')[0]}
+                              required
+                            />
+                          </div>
+
+                          <div className="space-y-2">
+                            <Label htmlFor="item_code">Item *</Label>
+                            <ItemCombobox
+                              items={items}
+                              value={selectedItem}
+                              onValueChange={handleItemChange}
+                              placeholder="Search and select item..."
+                              showStockLevel={true}
+                              isLoading={itemsLoading}
+                            />
+                          </div>
+
+                          <div className="space-y-2">
+                            <Label htmlFor="issue_location">Issue From *</Label>
+                            <LocationSelect
+                              id="issue_location"
+                              locations={locations}
+                              value={issueLocation}
+                              onValueChange={setIssueLocationId}
+                            />
+                          </div>
 
-                {/* Issue Form */}
-                <div className="lg:col-span-2">
-                  <Card>
-                    <CardHeader>
-                      <CardTitle className="flex items-center">
-                        <Minus className="mr-2 h-4 w-4" />
-                        Issue Stock
-                      </CardTitle>
-                      <CardDescription>Record stock consumption/issues</CardDescription>
-                    </CardHeader>
-                    <CardContent>
-                      <form onSubmit={handleIssueSubmit} className="space-y-4">
-                        <div className="space-y-2">
-                          <Label htmlFor="date">Date *</Label>
-                          <Input
-                            id="date"
-                            name="date"
-                            type="date"
-                            defaultValue={new Date().toISOString().split('T')[0]}
-                            required
-                          />
-                        </div>
-
-                        <div className="space-y-2">
-                          <Label htmlFor="item_code">Item *</Label>
-                          <ItemCombobox
-                            items={items}
-                            value={selectedItem}
-                            onValueChange={setSelectedItem}
-                            placeholder="Search and select item..."
-                            showStockLevel={true}
-                            isLoading={itemsLoading}
-                          />
-                        </div>
-
-                        {selectedItemDetails && (
-                          <div className="p-3 bg-muted rounded-lg">
-                            <div className="text-sm text-muted-foreground">
-                              Available Stock: <span className="font-medium text-foreground">{selectedItemDetails.current_qty} {selectedItemDetails.uom}</span>
+                          {selectedItemDetails && (
+                            <div className="p-3 bg-muted rounded-lg">
+                              <div className="text-sm text-muted-foreground">
+                                Available at location: <span className="font-medium text-foreground">{issueLocationQty} {selectedItemDetails.uom}</span>
+                                {' '}of {selectedItemDetails.current_qty} {selectedItemDetails.uom} in total
+                              </div>
                             </div>
+                          )}
+
+                          <div className="space-y-2">
+                            <Label htmlFor="qty_issued">Quantity Issued *</Label>
+                            <Input
+                              id="qty_issued"
+                              name="qty_issued"
+                              type="number"
+                              step="0.01"
+                              placeholder="0"
+                              max={selectedItemDetails && !allowNegativeStock ? issueLocationQty : undefined}
+                              value={issueQty}
+                              onChange={(e) => setIssueQty(e.target.value)}
+                              required
+                            />
+                          </div>
+
+                          {issueLots.length > 0 && (
+                            <div className="space-y-2">
+                              <Label htmlFor="issue_lot">Lot / Roll</Label>
+                              <Select value={issueLot} onValueChange={setIssueLot}>
+                                <SelectTrigger id="issue_lot">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="fefo">First expiry first out (suggested)</SelectItem>
+                                  {issueLots.map(lot => (
+                                    <SelectItem key={lot.lot_id} value={lot.lot_id as string}>
+                                      {lot.lot_number} · {lot.remaining_qty} {lot.uom} left
+                                      {lot.expiry_date ? ` · exp ${lot.expiry_date}` : ''} · {lot.location_name}
+                                    </SelectItem>
+                                  ))}
+                                  <SelectItem value="none">Do not track a lot</SelectItem>
+                                </SelectContent>
+                              </Select>
+                              {fefoPlan && (
+                                <p className="text-xs text-muted-foreground">
+                                  {fefoPlan.allocations.map(allocation => `${allocation.qty} from ${allocation.lot_number}`).join(', ')}
+                                  {fefoPlan.shortfall > 0 && `${fefoPlan.allocations.length > 0 ? ', ' : ''}${fefoPlan.shortfall} without a lot`}
+                                </p>
+                              )}
+                            </div>
+                          )}
+
+                          <div className="space-y-2">
+                            <Label htmlFor="purpose">Purpose *</Label>
+                            <select 
+                              name="purpose" 
+                              required
+                              className="w-full px-3 py-2 border border-input rounded-md bg-background"
+                            >
+                              <option value="">Select purpose</option>
+                              <option value="production">Production</option>
+                              <option value="maintenance">Maintenance</option>
+                              <option value="r&d">R&D</option>
+                              <option value="sample">Sample</option>
+                              <option value="other">Other</option>
+                            </select>
                           </div>
-                        )}
-
-                        <div className="space-y-2">
-                          <Label htmlFor="qty_issued">Quantity Issued *</Label>
-                          <Input
-                            id="qty_issued"
-                            name="qty_issued"
-                            type="number"
-                            step="0.01"
-                            placeholder="0"
-                            max={selectedItemDetails?.current_qty || undefined}
-                            required
-                          />
-                        </div>
-
-                        <div className="space-y-2">
-                          <Label htmlFor="purpose">Purpose *</Label>
-                          <select 
-                            name="purpose" 
-                            required
-                            className="w-full px-3 py-2 border border-input rounded-md bg-background"
-                          >
-                            <option value="">Select purpose</option>
-                            <option value="production">Production</option>
-                            <option value="maintenance">Maintenance</option>
-                            <option value="r&d">R&D</option>
-                            <option value="sample">Sample</option>
-                            <option value="other">Other</option>
-                          </select>
-                        </div>
-
-                        <div className="space-y-2">
-                          <Label htmlFor="remarks">Remarks</Label>
-                          <Textarea
-                            id="remarks"
-                            name="remarks"
-                            placeholder="Additional notes..."
-                          />
-                        </div>
-
-                        <Button type="submit" className="w-full" disabled={createIssueMutation.isPending || !selectedItem}>
-                          {createIssueMutation.isPending ? "Processing..." : "Issue Stock"}
-                        </Button>
-                      </form>
-                    </CardContent>
-                  </Card>
-                </div>
-              </div>
-            </TabsContent>
 
-            <TabsContent value="bulk">
-              <IssueCSVUpload onUploadComplete={() => {
-                queryClient.invalidateQueries({ queryKey: ['recent-issues'] });
-                queryClient.invalidateQueries({ queryKey: ['stock-summary'] });
-                queryClient.invalidateQueries({ queryKey: ['items-with-stock'] });
-              }} />
-            </TabsContent>
-          </Tabs>
+                          <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                              <Label htmlFor="issue_uiorn">Job (UIORN)</Label>
+                              <Select
+                                value={issueUiorn}
+                                onValueChange={(value) => {
+                                  setIssueUiorn(value)
+                                  if (value === "none") setIssueStage("none")
+                                }}
+                              >
+                                <SelectTrigger id="issue_uiorn">
+                                  <SelectValue placeholder="Not linked to a job" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="none">Not linked to a job</SelectItem>
+                                  {productionOrders.map(order => (
+                                    <SelectItem key={order.uiorn} value={order.uiorn}>
+                                      {order.uiorn} · {order.item_name}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                            <div className="space-y-2">
+                              <Label htmlFor="issue_stage">Production Stage</Label>
+                              <Select value={issueStage} onValueChange={setIssueStage} disabled={issueUiorn === "none"}>
+                                <SelectTrigger id="issue_stage">
+                                  <SelectValue placeholder="Select stage" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="none">Not specified</SelectItem>
+                                  {productionStages.map(stage => (
+                                    <SelectItem key={stage.key} value={stage.key}>{stage.label}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          </div>
+
+                          <div className="space-y-2">
+                            <Label htmlFor="remarks">Remarks</Label>
+                            <Textarea
+                              id="remarks"
+                              name="remarks"
+                              placeholder="Additional notes..."
+                            />
+                          </div>
+
+                          <Button type="submit" className="w-full" disabled={createIssueMutation.isPending || !selectedItem}>
+                            {createIssueMutation.isPending ? "Processing..." : "Issue Stock"}
+                          </Button>
+                        </form>
+                      </CardContent>
+                    </Card>
+                  </div>
+                </div>
+              </TabsContent>
+
+              <TabsContent value="bulk">
+                <IssueCSVUpload onUploadComplete={() => {
+                  queryClient.invalidateQueries({ queryKey: ['recent-issues'] });
+                  queryClient.invalidateQueries({ queryKey: ['stock-summary'] });
+                  queryClient.invalidateQueries({ queryKey: ['items-with-stock'] });
+                  queryClient.invalidateQueries({ queryKey: ['location-stock'] });
+                  queryClient.invalidateQueries({ queryKey: ['stock-lots'] });
+                }} />
+              </TabsContent>
+            </Tabs>
+          )}
 
           {/* Recent Issues with Edit/Delete */}
           <Card>
@@ -516,28 +815,32 @@ const StockOperations = () => {
                       <TableHead>Date</TableHead>
                       <TableHead>Item Code</TableHead>
                       <TableHead>Quantity Issued</TableHead>
+                      <TableHead>Location</TableHead>
+                      <TableHead>Cost (INR)</TableHead>
                       <TableHead>Purpose</TableHead>
+                      <TableHead>Job / Stage</TableHead>
                       <TableHead>Remarks</TableHead>
                       <TableHead>Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {recentIssues?.map((issue) => {
-                      const itemStock = items?.find(item => item.item_code === issue.item_code);
-                      return (
-                        <EditableIssueRow 
-                          key={issue.id} 
-                          issue={issue} 
-                          availableStock={itemStock?.current_qty || 0}
-                        />
-                      );
-                    })}
+                    {recentIssues?.map((issue) => (
+                      <EditableIssueRow 
+                        key={issue.id} 
+                        issue={issue} 
+                        locations={locations}
+                      />
+                    ))}
                   </TableBody>
                 </Table>
               </div>
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="adjustment" className="space-y-6">
+          <StockAdjustmentPanel locations={locations} locationStock={locationStock} />
+        </TabsContent>
       </Tabs>
     </div>
   )
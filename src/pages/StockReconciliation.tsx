@@ -0,0 +1,382 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import { useSearchParams } from "react-router-dom"
+import { supabase } from "@/integrations/supabase/client"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ReconciliationReview } from "@/components/reconciliation/ReconciliationReview"
+import { usePermissions } from "@/hooks/usePermission"
+import { useToast } from "@/hooks/use-toast"
+import { getRunMismatches } from "@/utils/reconciliation"
+import { AlertCircle, AlertTriangle, CheckCircle, Clock, History, Play, RefreshCw, Scale } from "lucide-react"
+
+const formatQty = (qty: number) => (qty > 0 ? `+${qty}` : `${qty}`)
+
+const StockReconciliation = () => {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const selectedItemCode = searchParams.get('item')
+  const { can } = usePermissions()
+  const canView = can('inventory')
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const { data: stockData = [], isLoading, error, refetch } = useQuery({
+    queryKey: ['stock-summary-detailed'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('stock_summary')
+        .select('*')
+        .order('item_name')
+
+      if (error) throw error
+      return data || []
+    }
+  })
+
+  const { data: runs = [] } = useQuery({
+    queryKey: ['stock-reconciliation-runs'],
+    enabled: canView,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('stock_reconciliation_runs')
+        .select('*')
+        .order('run_at', { ascending: false })
+        .limit(30)
+
+      if (error) throw error
+      return data || []
+    }
+  })
+
+  const { data: corrections = [] } = useQuery({
+    queryKey: ['stock-reconciliation-log'],
+    enabled: canView,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('stock_reconciliation_log')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(100)
+
+      if (error) throw error
+      return data || []
+    }
+  })
+
+  const runCheckMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('detect_stock_mismatches', { p_trigger: 'MANUAL' })
+      if (error) throw error
+      return data as { mismatch_count?: number, new_mismatch_count?: number } | null
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['stock-reconciliation-runs'] })
+      queryClient.invalidateQueries({ queryKey: ['stock-summary-detailed'] })
+      toast({
+        title: "Reconciliation Check Complete",
+        description: `${result?.mismatch_count ?? 0} mismatched items, ${result?.new_mismatch_count ?? 0} new since the last check`,
+      })
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  })
+
+  if (!canView) {
+    return (
+      <div className="p-6">
+        <div className="text-center py-8 text-muted-foreground">
+          <Scale className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p>You don't have permission to reconcile stock</p>
+        </div>
+      </div>
+    )
+  }
+
+  const latestRun = runs[0]
+  const latestMismatches = getRunMismatches(latestRun?.mismatches ?? null)
+
+  // Live mismatches; items the last run already knew about keep its detection history
+  const mismatches = stockData
+    .filter(item => item.stock_validation_status === 'MISMATCH' && item.item_code)
+    .map(item => {
+      const recorded = latestMismatches.find(mismatch => mismatch.item_code === item.item_code)
+      return {
+        item_code: item.item_code as string,
+        item_name: item.item_name,
+        current_qty: item.current_qty || 0,
+        calculated_qty: item.calculated_qty || 0,
+        difference: (item.current_qty || 0) - (item.calculated_qty || 0),
+        first_detected_at: recorded?.first_detected_at ?? null,
+        last_ok_at: recorded ? recorded.last_ok_at : latestRun?.run_at ?? null,
+        is_new: !recorded,
+      }
+    })
+
+  const selectedMismatch = mismatches.find(mismatch => mismatch.item_code === selectedItemCode)
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Stock Reconciliation</h1>
+          <p className="text-muted-foreground">Items whose current stock disagrees with their transactions, and the corrections applied</p>
+        </div>
+        {can('inventory', 'edit') && (
+          <Button onClick={() => runCheckMutation.mutate()} disabled={runCheckMutation.isPending}>
+            <Play className="h-4 w-4 mr-2" />
+            {runCheckMutation.isPending ? 'Checking...' : 'Run Check Now'}
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Error loading stock summary: {error.message}
+            <Button variant="outline" size="sm" onClick={() => refetch()} className="ml-2">
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Retry
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Mismatched Items</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-red-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600">{mismatches.length}</div>
+            <p className="text-xs text-muted-foreground">Current stock ≠ transactions</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">New Since Last Check</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-orange-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-orange-600">{mismatches.filter(mismatch => mismatch.is_new).length}</div>
+            <p className="text-xs text-muted-foreground">Not in the latest report</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Last Check</CardTitle>
+            <Clock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-lg font-bold">{latestRun ? new Date(latestRun.run_at).toLocaleString() : 'Never'}</div>
+            <p className="text-xs text-muted-foreground">Runs nightly at 2:15 AM</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Corrections</CardTitle>
+            <CheckCircle className="h-4 w-4 text-green-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">{corrections.length}</div>
+            <p className="text-xs text-muted-foreground">Approved stock rewrites</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="mismatches" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="mismatches">Mismatches</TabsTrigger>
+          <TabsTrigger value="reports">Nightly Reports</TabsTrigger>
+          <TabsTrigger value="corrections">Correction Log</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="mismatches" className="space-y-4">
+          {selectedMismatch && (
+            <ReconciliationReview
+              key={selectedMismatch.item_code}
+              item={selectedMismatch}
+              lastOkAt={selectedMismatch.last_ok_at}
+              onApplied={() => setSearchParams({})}
+            />
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Mismatched Items ({mismatches.length})</CardTitle>
+              <CardDescription>Select an item to see the transactions behind its drift and approve a correction</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item Code</TableHead>
+                      <TableHead>Item Name</TableHead>
+                      <TableHead className="text-right">Current</TableHead>
+                      <TableHead className="text-right">Calculated</TableHead>
+                      <TableHead className="text-right">Drift</TableHead>
+                      <TableHead>First Detected</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {isLoading ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-8">
+                          <RefreshCw className="h-4 w-4 animate-spin mx-auto" />
+                        </TableCell>
+                      </TableRow>
+                    ) : mismatches.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                          All items match their transactions
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      mismatches.map(mismatch => (
+                        <TableRow
+                          key={mismatch.item_code}
+                          className={`cursor-pointer ${mismatch.item_code === selectedItemCode ? 'bg-muted/50' : ''}`}
+                          onClick={() => setSearchParams({ item: mismatch.item_code })}
+                        >
+                          <TableCell className="font-mono text-sm">{mismatch.item_code}</TableCell>
+                          <TableCell className="font-medium">{mismatch.item_name}</TableCell>
+                          <TableCell className="text-right font-mono">{mismatch.current_qty}</TableCell>
+                          <TableCell className="text-right font-mono">{mismatch.calculated_qty}</TableCell>
+                          <TableCell className={`text-right font-mono font-bold ${mismatch.difference < 0 ? 'text-red-600' : 'text-orange-600'}`}>
+                            {formatQty(mismatch.difference)}
+                          </TableCell>
+                          <TableCell>
+                            {mismatch.is_new
+                              ? <Badge className="bg-orange-100 text-orange-800">New</Badge>
+                              : mismatch.first_detected_at ? new Date(mismatch.first_detected_at).toLocaleDateString() : '-'}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="reports">
+          <Card>
+            <CardHeader>
+              <CardTitle>Nightly Reports</CardTitle>
+              <CardDescription>Each check records the mismatched items and flags the ones that are new since the previous check</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Run At</TableHead>
+                      <TableHead>Trigger</TableHead>
+                      <TableHead className="text-right">Mismatched</TableHead>
+                      <TableHead className="text-right">New</TableHead>
+                      <TableHead className="text-right">Resolved</TableHead>
+                      <TableHead>New Mismatches</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {runs.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                          <History className="h-6 w-6 mx-auto mb-2" />
+                          No reconciliation checks have run yet
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      runs.map(run => (
+                        <TableRow key={run.id}>
+                          <TableCell className="whitespace-nowrap">{new Date(run.run_at).toLocaleString()}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline">{run.trigger_type === 'SCHEDULED' ? 'Nightly' : 'Manual'}</Badge>
+                          </TableCell>
+                          <TableCell className="text-right font-mono">{run.mismatch_count}</TableCell>
+                          <TableCell className={`text-right font-mono ${run.new_mismatch_count > 0 ? 'text-orange-600 font-bold' : ''}`}>
+                            {run.new_mismatch_count}
+                          </TableCell>
+                          <TableCell className="text-right font-mono text-green-600">{run.resolved_count}</TableCell>
+                          <TableCell className="text-sm">
+                            {getRunMismatches(run.mismatches)
+                              .filter(mismatch => mismatch.is_new)
+                              .map(mismatch => `${mismatch.item_code} (${formatQty(mismatch.difference)})`)
+                              .join(', ') || '-'}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="corrections">
+          <Card>
+            <CardHeader>
+              <CardTitle>Correction Log</CardTitle>
+              <CardDescription>Every approved rewrite of current stock with its reason</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Item Code</TableHead>
+                      <TableHead className="text-right">Previous</TableHead>
+                      <TableHead className="text-right">Corrected</TableHead>
+                      <TableHead className="text-right">Change</TableHead>
+                      <TableHead>Reason</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {corrections.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                          No corrections applied yet
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      corrections.map(correction => (
+                        <TableRow key={correction.id}>
+                          <TableCell className="whitespace-nowrap">{new Date(correction.created_at).toLocaleString()}</TableCell>
+                          <TableCell className="font-mono text-sm">{correction.item_code}</TableCell>
+                          <TableCell className="text-right font-mono">{correction.previous_qty}</TableCell>
+                          <TableCell className="text-right font-mono">{correction.corrected_qty}</TableCell>
+                          <TableCell className="text-right font-mono font-bold">
+                            {formatQty(correction.corrected_qty - correction.previous_qty)}
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">{correction.remarks}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
+
+export default StockReconciliation
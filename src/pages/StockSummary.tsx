@@ -1,5 +1,6 @@
 import { useState, useMemo } from "react"
-import { useQuery } from "@tanstack/react-query"
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import { useNavigate } from "react-router-dom"
 import { supabase } from "@/integrations/supabase/client"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
@@ -24,19 +25,38 @@ import {
   TrendingUp,
   Filter,
   SortAsc,
-  SortDesc
+  SortDesc,
+  IndianRupee,
+  Calculator,
+  MapPin,
+  ScrollText,
+  FileSpreadsheet
 } from "lucide-react"
+import { exportRowsToXLSX } from "@/utils/spreadsheet"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import { StockStatusBadge } from "@/components/stock/StockStatusBadge"
+import { getStockStatus, needsReorder } from "@/utils/stockStatus"
+import { formatINR, getStockValueByCategory, getValuationMethodLabel } from "@/utils/valuation"
+import { ALL_LOCATIONS, formatLocationBreakdown, getLocationQty, getStockByLocation } from "@/utils/locations"
+import { useStorageLocations } from "@/hooks/useStorageLocations"
+import { useLocationStock } from "@/hooks/useLocationStock"
+import { useAuth } from "@/contexts/AuthContext"
+import { useToast } from "@/hooks/use-toast"
 
-type SortField = 'item_name' | 'current_qty' | 'days_of_cover' | 'category_name'
+type SortField = 'item_name' | 'current_qty' | 'days_of_cover' | 'category_name' | 'stock_value'
 type SortOrder = 'asc' | 'desc'
 
 const StockSummary = () => {
   const [searchTerm, setSearchTerm] = useState("")
   const [categoryFilter, setCategoryFilter] = useState("all")
   const [stockLevelFilter, setStockLevelFilter] = useState("all")
+  const [locationFilter, setLocationFilter] = useState(ALL_LOCATIONS)
   const [sortField, setSortField] = useState<SortField>('item_name')
   const [sortOrder, setSortOrder] = useState<SortOrder>('asc')
+  const { isAdmin } = useAuth()
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const navigate = useNavigate()
 
   const { data: stockData, isLoading, error, refetch } = useQuery({
     queryKey: ['stock-summary-detailed'],
@@ -51,6 +71,12 @@ const StockSummary = () => {
     }
   })
 
+  const { data: locations = [] } = useStorageLocations()
+  const { data: locationStock = [] } = useLocationStock()
+
+  const isLocationView = locationFilter !== ALL_LOCATIONS
+  const getQtyAtLocation = (itemCode: string | null) => getLocationQty(locationStock, itemCode || '', locationFilter)
+
   const { data: categories } = useQuery({
     queryKey: ['categories'],
     queryFn: async () => {
@@ -64,6 +90,29 @@ const StockSummary = () => {
     }
   })
 
+  const recalculateMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('recalculate_all_valuations')
+      if (error) throw error
+      return data as { item_count?: number } | null
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['stock-summary-detailed'] })
+      queryClient.invalidateQueries({ queryKey: ['stock-summary'] })
+      toast({
+        title: "Valuation Recalculated",
+        description: `Revalued ${result?.item_count ?? 0} items from GRN and issue history`,
+      })
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  })
+
   const filteredAndSortedData = useMemo(() => {
     if (!stockData) return []
     
@@ -74,11 +123,12 @@ const StockSummary = () => {
       const matchesCategory = categoryFilter === "all" || item.category_name === categoryFilter
       
       const matchesStockLevel = stockLevelFilter === "all" || 
-        (stockLevelFilter === "low" && (item.current_qty || 0) < 10) ||
-        (stockLevelFilter === "medium" && (item.current_qty || 0) >= 10 && (item.current_qty || 0) < 100) ||
-        (stockLevelFilter === "high" && (item.current_qty || 0) >= 100)
+        (stockLevelFilter === "reorder" && needsReorder(item)) ||
+        getStockStatus(item) === stockLevelFilter
+
+      const matchesLocation = !isLocationView || getLocationQty(locationStock, item.item_code || '', locationFilter) !== 0
       
-      return matchesSearch && matchesCategory && matchesStockLevel
+      return matchesSearch && matchesCategory && matchesStockLevel && matchesLocation
     })
 
     // Sort the filtered data
@@ -99,13 +149,7 @@ const StockSummary = () => {
     })
 
     return filtered
-  }, [stockData, searchTerm, categoryFilter, stockLevelFilter, sortField, sortOrder])
-
-  const getStockLevelBadge = (qty: number) => {
-    if (qty < 10) return <Badge variant="destructive">Low</Badge>
-    if (qty < 100) return <Badge variant="secondary">Medium</Badge>
-    return <Badge variant="default" className="bg-green-100 text-green-800">High</Badge>
-  }
+  }, [stockData, searchTerm, categoryFilter, stockLevelFilter, sortField, sortOrder, isLocationView, locationStock, locationFilter])
 
   const getDaysOfCoverBadge = (days: number | null) => {
     if (!days || days === 999999) return <Badge variant="secondary">∞ (No Usage)</Badge>
@@ -128,20 +172,29 @@ const StockSummary = () => {
     }
   }
 
+  const getExportRows = () => filteredAndSortedData.map(item => ({
+    'Item Code': item.item_code,
+    'Item Name': item.item_name,
+    'Category': item.category_name,
+    'Opening Qty': item.opening_qty,
+    'Current Qty': item.current_qty,
+    'Calculated Qty': item.calculated_qty,
+    'Total GRN': item.total_grn_qty,
+    'Total Issued': item.total_issued_qty,
+     'Issue 30d': item.issue_30d,
+    'Reorder Point': item.reorder_point ?? '',
+    'Valuation Method': getValuationMethodLabel(item.valuation_method),
+    'Unit Cost': item.unit_cost ?? 0,
+    'Stock Value': item.stock_value ?? 0,
+    'Stock Status': item.stock_status,
+     'Days of Cover': item.days_of_cover,
+    'Stock Validation': item.stock_validation_status,
+    ...(isLocationView ? { 'Location Qty': getQtyAtLocation(item.item_code) } : {}),
+    'By Location': formatLocationBreakdown(locationStock, item.item_code || '')
+  }))
+
   const exportToCSV = () => {
-    const csvData = filteredAndSortedData.map(item => ({
-      'Item Code': item.item_code,
-      'Item Name': item.item_name,
-      'Category': item.category_name,
-      'Opening Qty': item.opening_qty,
-      'Current Qty': item.current_qty,
-      'Calculated Qty': item.calculated_qty,
-      'Total GRN': item.total_grn_qty,
-      'Total Issued': item.total_issued_qty,
-       'Issue 30d': item.issue_30d,
-       'Days of Cover': item.days_of_cover,
-      'Stock Validation': item.stock_validation_status
-    }))
+    const csvData = getExportRows()
 
     const csvString = [
       Object.keys(csvData[0]).join(','),
@@ -159,12 +212,28 @@ const StockSummary = () => {
 
   const stats = useMemo(() => {
     const totalItems = filteredAndSortedData.length
-    const lowStock = filteredAndSortedData.filter(item => (item.current_qty || 0) < 10).length
-    const totalValue = filteredAndSortedData.reduce((sum, item) => sum + (item.current_qty || 0), 0)
+    const lowStock = filteredAndSortedData.filter(needsReorder).length
     const zeroStock = filteredAndSortedData.filter(item => (item.current_qty || 0) === 0).length
+
+    // Within a location, quantity and value are what that location holds
+    const itemCodes = new Set(filteredAndSortedData.map(item => item.item_code || ''))
+    const atLocation = locationStock.filter(row => row.location_id === locationFilter && itemCodes.has(row.item_code || ''))
+    const totalValue = isLocationView
+      ? atLocation.reduce((sum, row) => sum + (row.current_qty || 0), 0)
+      : filteredAndSortedData.reduce((sum, item) => sum + (item.current_qty || 0), 0)
+    const stockValue = isLocationView
+      ? atLocation.reduce((sum, row) => sum + (row.stock_value || 0), 0)
+      : filteredAndSortedData.reduce((sum, item) => sum + (item.stock_value || 0), 0)
     
-    return { totalItems, lowStock, totalValue, zeroStock }
-  }, [filteredAndSortedData])
+    return { totalItems, lowStock, totalValue, zeroStock, stockValue }
+  }, [filteredAndSortedData, isLocationView, locationStock, locationFilter])
+
+  const valueByCategory = useMemo(() => getStockValueByCategory(filteredAndSortedData), [filteredAndSortedData])
+
+  const valueByLocation = useMemo(
+    () => getStockByLocation(locationStock, new Set(filteredAndSortedData.map(item => item.item_code || ''))),
+    [locationStock, filteredAndSortedData]
+  )
 
   if (error) {
     return (
@@ -195,15 +264,29 @@ const StockSummary = () => {
             <RefreshCw className="h-4 w-4 mr-2" />
             Refresh
           </Button>
+          {isAdmin && (
+            <Button
+              variant="outline"
+              onClick={() => recalculateMutation.mutate()}
+              disabled={recalculateMutation.isPending}
+            >
+              <Calculator className="h-4 w-4 mr-2" />
+              {recalculateMutation.isPending ? "Recalculating..." : "Recalculate Valuation"}
+            </Button>
+          )}
           <Button onClick={exportToCSV} disabled={!filteredAndSortedData.length}>
             <Download className="h-4 w-4 mr-2" />
             Export CSV
           </Button>
+          <Button variant="outline" onClick={() => exportRowsToXLSX(getExportRows(), `stock-summary-${new Date().toISOString().split('T')[0]}.xlsx`, 'Stock Summary')} disabled={!filteredAndSortedData.length}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Export Excel
+          </Button>
         </div>
       </div>
 
       {/* Key Metrics */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Total Items</CardTitle>
@@ -222,7 +305,7 @@ const StockSummary = () => {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-red-600">{stats.lowStock}</div>
-            <p className="text-xs text-muted-foreground">Below threshold</p>
+            <p className="text-xs text-muted-foreground">At or below reorder point</p>
           </CardContent>
         </Card>
 
@@ -237,6 +320,17 @@ const StockSummary = () => {
           </CardContent>
         </Card>
 
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Stock Value</CardTitle>
+            <IndianRupee className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatINR(stats.stockValue)}</div>
+            <p className="text-xs text-muted-foreground">At weighted average / FIFO cost</p>
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Zero Stock</CardTitle>
@@ -258,7 +352,7 @@ const StockSummary = () => {
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
             <div className="space-y-2">
               <label className="text-sm font-medium">Search Items</label>
               <div className="relative">
@@ -297,9 +391,29 @@ const StockSummary = () => {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Levels</SelectItem>
-                  <SelectItem value="low">Low (&lt;10)</SelectItem>
-                  <SelectItem value="medium">Medium (10-99)</SelectItem>
-                  <SelectItem value="high">High (100+)</SelectItem>
+                  <SelectItem value="reorder">Needs Reorder</SelectItem>
+                  <SelectItem value="CRITICAL">Critical</SelectItem>
+                  <SelectItem value="LOW">Reorder</SelectItem>
+                  <SelectItem value="NORMAL">Normal</SelectItem>
+                  <SelectItem value="OVERSTOCK">Overstock</SelectItem>
+                  <SelectItem value="NOT_CONFIGURED">Levels Not Set</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Location</label>
+              <Select value={locationFilter} onValueChange={setLocationFilter}>
+                <SelectTrigger>
+                  <SelectValue placeholder="All Locations" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_LOCATIONS}>All Locations</SelectItem>
+                  {locations.map(location => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.location_name}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -312,6 +426,7 @@ const StockSummary = () => {
                   setSearchTerm("")
                   setCategoryFilter("all")
                   setStockLevelFilter("all")
+                  setLocationFilter(ALL_LOCATIONS)
                 }}
                 className="w-full"
               >
@@ -322,6 +437,61 @@ const StockSummary = () => {
         </CardContent>
       </Card>
 
+      {/* Stock Value by Category */}
+      {valueByCategory.some(entry => entry.value > 0) && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <IndianRupee className="mr-2 h-4 w-4" />
+              Stock Value by Category
+            </CardTitle>
+            <CardDescription>Inventory value of the items in the current view</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+              {valueByCategory.map(entry => (
+                <div key={entry.category} className="rounded-md border p-3">
+                  <div className="text-sm text-muted-foreground truncate">{entry.category}</div>
+                  <div className="text-lg font-semibold">{formatINR(entry.value)}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {stats.stockValue > 0 ? ((entry.value / stats.stockValue) * 100).toFixed(1) : '0.0'}% of total
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Stock Value by Location */}
+      {!isLocationView && valueByLocation.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <MapPin className="mr-2 h-4 w-4" />
+              Stock Value by Location
+            </CardTitle>
+            <CardDescription>Where the items in the current view are held</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+              {valueByLocation.map(entry => (
+                <button
+                  key={entry.location_id}
+                  type="button"
+                  onClick={() => setLocationFilter(entry.location_id)}
+                  className="rounded-md border p-3 text-left hover:bg-muted"
+                >
+                  <div className="text-sm text-muted-foreground truncate">{entry.location_name}</div>
+                  <div className="text-lg font-semibold">{formatINR(entry.value)}</div>
+                  <div className="text-xs text-muted-foreground">{entry.item_count} items</div>
+                </button>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Stock Data Table */}
       <Card>
         <CardHeader>
@@ -370,9 +540,23 @@ const StockSummary = () => {
                       )}
                     </div>
                   </TableHead>
+                   {isLocationView && <TableHead>At Location</TableHead>}
                    <TableHead>Total GRN</TableHead>
                    <TableHead>Total Issued</TableHead>
                    <TableHead>30d Issues</TableHead>
+                   <TableHead>Reorder Point</TableHead>
+                   <TableHead>Unit Cost</TableHead>
+                   <TableHead 
+                     className="cursor-pointer hover:bg-muted"
+                     onClick={() => handleSort('stock_value')}
+                   >
+                     <div className="flex items-center">
+                       Stock Value
+                       {sortField === 'stock_value' && (
+                         sortOrder === 'asc' ? <SortAsc className="ml-1 h-4 w-4" /> : <SortDesc className="ml-1 h-4 w-4" />
+                       )}
+                     </div>
+                   </TableHead>
                    <TableHead>Status</TableHead>
                    <TableHead>Validation</TableHead>
                    <TableHead 
@@ -386,12 +570,13 @@ const StockSummary = () => {
                        )}
                      </div>
                    </TableHead>
+                   <TableHead>Ledger</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                  {isLoading ? (
                    <TableRow>
-                      <TableCell colSpan={10} className="text-center py-8">
+                      <TableCell colSpan={isLocationView ? 16 : 15} className="text-center py-8">
                        <div className="flex items-center justify-center">
                          <RefreshCw className="h-4 w-4 animate-spin mr-2" />
                          Loading stock data...
@@ -400,7 +585,7 @@ const StockSummary = () => {
                    </TableRow>
                  ) : filteredAndSortedData.length === 0 ? (
                    <TableRow>
-                     <TableCell colSpan={10} className="text-center py-8">
+                     <TableCell colSpan={isLocationView ? 16 : 15} className="text-center py-8">
                        No items found matching your criteria
                      </TableCell>
                    </TableRow>
@@ -414,12 +599,31 @@ const StockSummary = () => {
                        </TableCell>
                        <TableCell className="font-mono">{item.opening_qty || 0}</TableCell>
                        <TableCell className="font-mono font-bold">{item.current_qty || 0}</TableCell>
+                       {isLocationView && (
+                         <TableCell className="font-mono font-bold text-blue-600">{getQtyAtLocation(item.item_code)}</TableCell>
+                       )}
                        <TableCell className="font-mono text-green-600">{item.total_grn_qty || 0}</TableCell>
                        <TableCell className="font-mono text-red-600">{item.total_issued_qty || 0}</TableCell>
                         <TableCell className="font-mono text-orange-600">{item.issue_30d || 0}</TableCell>
-                        <TableCell>{getStockLevelBadge(item.current_qty || 0)}</TableCell>
+                        <TableCell className="font-mono text-muted-foreground">{item.reorder_point ?? '-'}</TableCell>
+                        <TableCell className="font-mono" title={getValuationMethodLabel(item.valuation_method)}>
+                          {item.unit_cost != null ? formatINR(item.unit_cost) : '-'}
+                        </TableCell>
+                        <TableCell className="font-mono">{item.stock_value != null ? formatINR(item.stock_value) : '-'}</TableCell>
+                        <TableCell><StockStatusBadge item={item} /></TableCell>
                        <TableCell>{getValidationBadge(item.stock_validation_status || 'OK')}</TableCell>
                        <TableCell>{getDaysOfCoverBadge(item.days_of_cover)}</TableCell>
+                       <TableCell>
+                         <Button
+                           variant="ghost"
+                           size="sm"
+                           className="h-8 w-8 p-0"
+                           title="View stock ledger"
+                           onClick={() => navigate(`/stock-ledger?item=${encodeURIComponent(item.item_code || '')}`)}
+                         >
+                           <ScrollText className="h-4 w-4" />
+                         </Button>
+                       </TableCell>
                      </TableRow>
                    ))
                  )}
@@ -0,0 +1,340 @@
+import { useMemo, useState } from "react"
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import type { Tables } from "@/integrations/supabase/types"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { StockTransferDialog } from "@/components/locations/StockTransferDialog"
+import { LocationFormDialog } from "@/components/locations/LocationFormDialog"
+import { useStorageLocations } from "@/hooks/useStorageLocations"
+import { useLocationStock } from "@/hooks/useLocationStock"
+import { useAuth } from "@/contexts/AuthContext"
+import { usePermissions } from "@/hooks/usePermission"
+import { useToast } from "@/hooks/use-toast"
+import { formatINR } from "@/utils/valuation"
+import { getStockByLocation } from "@/utils/locations"
+import {
+  AlertCircle,
+  ArrowLeftRight,
+  ArrowRight,
+  Edit,
+  MapPin,
+  Plus,
+  RefreshCw,
+  Search,
+  Trash2
+} from "lucide-react"
+
+type TransferWithDetails = Tables<'stock_transfers'> & {
+  item_master: { item_name: string, uom: string } | null
+  from_location: { location_name: string } | null
+  to_location: { location_name: string } | null
+}
+
+const StockTransfers = () => {
+  const [searchTerm, setSearchTerm] = useState("")
+  const [transferOpen, setTransferOpen] = useState(false)
+  const [locationDialogOpen, setLocationDialogOpen] = useState(false)
+  const [editingLocation, setEditingLocation] = useState<Tables<'storage_locations'> | null>(null)
+  const { isAdmin } = useAuth()
+  const { can } = usePermissions()
+  const canDelete = can('inventory', 'delete')
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const { data: locations = [] } = useStorageLocations()
+  const { data: locationStock = [], isLoading: stockLoading } = useLocationStock()
+
+  const { data: transfers = [], isLoading, error, refetch } = useQuery({
+    queryKey: ['stock-transfers'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('stock_transfers')
+        .select(`
+          *,
+          item_master(item_name, uom),
+          from_location:storage_locations!stock_transfers_from_location_id_fkey(location_name),
+          to_location:storage_locations!stock_transfers_to_location_id_fkey(location_name)
+        `)
+        .order('created_at', { ascending: false })
+        .limit(200)
+
+      if (error) throw error
+      return (data || []) as TransferWithDetails[]
+    }
+  })
+
+  const deleteTransferMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('stock_transfers')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['stock-transfers'] })
+      queryClient.invalidateQueries({ queryKey: ['location-stock'] })
+      toast({
+        title: "Success",
+        description: "Transfer deleted and stock moved back",
+      })
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  })
+
+  const locationTotals = useMemo(() => getStockByLocation(locationStock), [locationStock])
+
+  const filteredTransfers = transfers.filter(transfer => {
+    const term = searchTerm.toLowerCase()
+    return transfer.transfer_number.toLowerCase().includes(term) ||
+      transfer.item_code.toLowerCase().includes(term) ||
+      transfer.item_master?.item_name.toLowerCase().includes(term)
+  })
+
+  const handleDelete = (transfer: TransferWithDetails) => {
+    if (window.confirm(`Delete transfer ${transfer.transfer_number}? ${transfer.qty} ${transfer.item_master?.uom || ''} will move back to ${transfer.from_location?.location_name}.`)) {
+      deleteTransferMutation.mutate(transfer.id)
+    }
+  }
+
+  const openLocationDialog = (location: Tables<'storage_locations'> | null) => {
+    setEditingLocation(location)
+    setLocationDialogOpen(true)
+  }
+
+  const colSpan = canDelete ? 7 : 6
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Stock Transfers</h1>
+          <p className="text-muted-foreground">Move stock between the store, floor and godowns</p>
+        </div>
+        {can('inventory', 'create') && (
+          <Button onClick={() => setTransferOpen(true)}>
+            <ArrowLeftRight className="h-4 w-4 mr-2" />
+            New Transfer
+          </Button>
+        )}
+      </div>
+
+      {/* Stock per location */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {stockLoading ? (
+          <Card className="md:col-span-3">
+            <CardContent className="py-8">
+              <RefreshCw className="h-4 w-4 animate-spin mx-auto" />
+            </CardContent>
+          </Card>
+        ) : locationTotals.map(total => (
+          <Card key={total.location_id}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">{total.location_name}</CardTitle>
+              <MapPin className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatINR(total.value)}</div>
+              <p className="text-xs text-muted-foreground">{total.item_count} items in stock</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Tabs defaultValue="transfers" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="transfers">Transfers</TabsTrigger>
+          <TabsTrigger value="locations">Locations</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="transfers">
+          <Card>
+            <CardHeader>
+              <CardTitle>Recent Transfers</CardTitle>
+              <CardDescription>Deleting a transfer moves the stock back; changes are kept in the transfer audit log</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {error && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    Error loading transfers: {error.message}
+                    <Button variant="outline" size="sm" onClick={() => refetch()} className="ml-2">
+                      <RefreshCw className="h-4 w-4 mr-1" />
+                      Retry
+                    </Button>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="relative">
+                <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search transfer number or item..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Transfer No.</TableHead>
+                      <TableHead>Item</TableHead>
+                      <TableHead>Quantity</TableHead>
+                      <TableHead>Movement</TableHead>
+                      <TableHead>Remarks</TableHead>
+                      {canDelete && <TableHead>Actions</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {isLoading ? (
+                      <TableRow>
+                        <TableCell colSpan={colSpan} className="text-center py-8">
+                          <RefreshCw className="h-4 w-4 animate-spin mx-auto" />
+                        </TableCell>
+                      </TableRow>
+                    ) : filteredTransfers.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={colSpan} className="text-center py-8 text-muted-foreground">
+                          No transfers found
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      filteredTransfers.map(transfer => (
+                        <TableRow key={transfer.id}>
+                          <TableCell>{transfer.date}</TableCell>
+                          <TableCell className="font-mono text-sm">{transfer.transfer_number}</TableCell>
+                          <TableCell>
+                            <div className="font-medium">{transfer.item_master?.item_name || transfer.item_code}</div>
+                            <div className="text-xs text-muted-foreground">{transfer.item_code}</div>
+                          </TableCell>
+                          <TableCell>{transfer.qty} {transfer.item_master?.uom}</TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2 whitespace-nowrap">
+                              {transfer.from_location?.location_name}
+                              <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                              {transfer.to_location?.location_name}
+                            </div>
+                          </TableCell>
+                          <TableCell>{transfer.remarks || '-'}</TableCell>
+                          {canDelete && (
+                            <TableCell>
+                              <Button
+                                size="sm"
+                                variant="destructive"
+                                onClick={() => handleDelete(transfer)}
+                                disabled={deleteTransferMutation.isPending}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="locations">
+          <Card>
+            <CardHeader>
+              <div className="flex justify-between items-center">
+                <div>
+                  <CardTitle>Storage Locations</CardTitle>
+                  <CardDescription>Opening stock and entries without a location belong to the default location</CardDescription>
+                </div>
+                {isAdmin && (
+                  <Button onClick={() => openLocationDialog(null)}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Location
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Code</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead>Stock Value</TableHead>
+                      <TableHead>Status</TableHead>
+                      {isAdmin && <TableHead>Actions</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {locations.map(location => (
+                      <TableRow key={location.id}>
+                        <TableCell className="font-mono text-sm">{location.location_code}</TableCell>
+                        <TableCell>
+                          {location.location_name}
+                          {location.is_default && <Badge variant="outline" className="ml-2">Default</Badge>}
+                        </TableCell>
+                        <TableCell>{location.description || '-'}</TableCell>
+                        <TableCell>
+                          {formatINR(locationTotals.find(total => total.location_id === location.id)?.value || 0)}
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant={location.status === 'active' ? 'default' : 'secondary'}
+                            className={location.status === 'active' ? 'bg-green-100 text-green-800' : undefined}
+                          >
+                            {location.status === 'active' ? 'Active' : 'Inactive'}
+                          </Badge>
+                        </TableCell>
+                        {isAdmin && (
+                          <TableCell>
+                            <Button size="sm" variant="outline" onClick={() => openLocationDialog(location)}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <StockTransferDialog
+        open={transferOpen}
+        onOpenChange={setTransferOpen}
+        locations={locations}
+        locationStock={locationStock}
+      />
+      <LocationFormDialog
+        open={locationDialogOpen}
+        onOpenChange={setLocationDialogOpen}
+        location={editingLocation}
+      />
+    </div>
+  )
+}
+
+export default StockTransfers
@@ -0,0 +1,441 @@
+import { useMemo, useState } from "react"
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { TallyNameMapping } from "@/components/tally/TallyNameMapping"
+import { usePermissions } from "@/hooks/usePermission"
+import { useToast } from "@/hooks/use-toast"
+import { useTallyNames } from "@/hooks/useTallyMappings"
+import { useSystemSettings } from "@/hooks/useSystemSettings"
+import { downloadBlob } from "@/utils/spreadsheet"
+import { formatINR } from "@/utils/valuation"
+import {
+  buildPurchaseVouchers,
+  buildStockJournals,
+  buildTallyXML,
+  tallyVoucherTypeLabels,
+  type TallyGRNRow,
+  type TallyIssueRow,
+  type TallyVoucherType,
+} from "@/utils/tallyXml"
+import { AlertCircle, Download, FileCode, RefreshCw, Undo2 } from "lucide-react"
+
+const today = () => new Date().toISOString().split('T')[0]
+const monthStart = () => `${today().slice(0, 8)}01`
+
+interface ExportRows {
+  grns: (TallyGRNRow & { exported: boolean })[]
+  issues: (TallyIssueRow & { exported: boolean })[]
+}
+
+const TallyExport = () => {
+  const { can } = usePermissions()
+  const canView = can('imports')
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const [voucherType, setVoucherType] = useState<TallyVoucherType>('purchase')
+  const [fromDate, setFromDate] = useState(monthStart)
+  const [toDate, setToDate] = useState(today)
+  const [showExported, setShowExported] = useState(false)
+
+  const { data: systemSettings } = useSystemSettings()
+  const settings = systemSettings?.tally_export
+  const { data: names } = useTallyNames()
+
+  const { data: rows, isLoading, error, refetch } = useQuery({
+    queryKey: ['tally-export-rows', voucherType, fromDate, toDate],
+    enabled: canView && !!fromDate && !!toDate,
+    queryFn: async (): Promise<ExportRows> => {
+      if (voucherType === 'purchase') {
+        const { data, error } = await supabase
+          .from('grn_log')
+          .select('id, date, grn_number, invoice_number, vendor, item_code, qty_received, uom, amount_inr, item_master(item_name), vendors(vendor_name), tally_export_entries(id)')
+          .gte('date', fromDate)
+          .lte('date', toDate)
+          .order('date')
+          .order('grn_number')
+
+        if (error) throw error
+        return {
+          grns: (data || []).map(grn => ({
+            id: grn.id,
+            date: grn.date,
+            grn_number: grn.grn_number,
+            invoice_number: grn.invoice_number,
+            vendor: grn.vendor || grn.vendors?.vendor_name || null,
+            item_code: grn.item_code,
+            qty_received: grn.qty_received,
+            uom: grn.uom,
+            amount_inr: grn.amount_inr,
+            item_name: grn.item_master?.item_name || grn.item_code,
+            exported: !!grn.tally_export_entries,
+          })),
+          issues: [],
+        }
+      }
+
+      const { data, error } = await supabase
+        .from('issue_log')
+        .select('id, date, item_code, qty_issued, purpose, uiorn, remarks, item_master(item_name, uom), tally_export_entries(id)')
+        .gte('date', fromDate)
+        .lte('date', toDate)
+        .order('date')
+
+      if (error) throw error
+      return {
+        grns: [],
+        issues: (data || []).map(issue => ({
+          id: issue.id,
+          date: issue.date,
+          item_code: issue.item_code,
+          qty_issued: issue.qty_issued,
+          purpose: issue.purpose,
+          uiorn: issue.uiorn,
+          remarks: issue.remarks,
+          uom: issue.item_master?.uom || '',
+          item_name: issue.item_master?.item_name || issue.item_code,
+          exported: !!issue.tally_export_entries,
+        })),
+      }
+    }
+  })
+
+  const { data: exports = [] } = useQuery({
+    queryKey: ['tally-exports'],
+    enabled: canView,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('tally_exports')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(50)
+
+      if (error) throw error
+      return data || []
+    }
+  })
+
+  const { vouchers, exportedIds } = useMemo(() => {
+    if (!rows || !names) return { vouchers: [], exportedIds: new Set<string>() }
+    const isListed = (row: { exported: boolean }) => showExported || !row.exported
+    return {
+      vouchers: voucherType === 'purchase'
+        ? buildPurchaseVouchers(rows.grns.filter(isListed), names)
+        : buildStockJournals(rows.issues.filter(isListed), names),
+      exportedIds: new Set([...rows.grns, ...rows.issues].filter(row => row.exported).map(row => row.id)),
+    }
+  }, [rows, names, voucherType, showExported])
+
+  // Vouchers with an already-exported line are shown for reference but never exported again
+  const readyVouchers = vouchers.filter(voucher =>
+    voucher.problems.length === 0 && !voucher.entryIds.some(id => exportedIds.has(id))
+  )
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      if (!settings) throw new Error('Tally settings are still loading')
+      const fileName = `tally-${voucherType === 'purchase' ? 'purchase' : 'stock-journal'}-${fromDate}-to-${toDate}.xml`
+      const entryIds = readyVouchers.flatMap(voucher => voucher.entryIds)
+
+      const { error } = await supabase.rpc('record_tally_export', {
+        p_voucher_type: voucherType,
+        p_file_name: fileName,
+        p_from_date: fromDate,
+        p_to_date: toDate,
+        p_voucher_count: readyVouchers.length,
+        p_grn_ids: voucherType === 'purchase' ? entryIds : [],
+        p_issue_ids: voucherType === 'stock_journal' ? entryIds : [],
+      })
+      if (error) throw error
+
+      downloadBlob(new Blob([buildTallyXML(readyVouchers, settings)], { type: 'application/xml' }), fileName)
+      return readyVouchers.length
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ['tally-export-rows'] })
+      queryClient.invalidateQueries({ queryKey: ['tally-exports'] })
+      toast({
+        title: "Tally Export Ready",
+        description: `${count} vouchers exported; import the file in Tally under Import > Transactions`,
+      })
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  })
+
+  const releaseMutation = useMutation({
+    mutationFn: async (exportId: string) => {
+      const { error } = await supabase.from('tally_exports').delete().eq('id', exportId)
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tally-export-rows'] })
+      queryClient.invalidateQueries({ queryKey: ['tally-exports'] })
+      toast({
+        title: "Export Released",
+        description: "Its entries can be exported again",
+      })
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  })
+
+  if (!canView) {
+    return (
+      <div className="p-6">
+        <div className="text-center py-8 text-muted-foreground">
+          <FileCode className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p>You don't have permission to export to Tally</p>
+        </div>
+      </div>
+    )
+  }
+
+  const handleRelease = (exportId: string, fileName: string) => {
+    if (!window.confirm(`Release ${fileName}? Only do this if Tally did not import it, or its vouchers will be duplicated.`)) return
+    releaseMutation.mutate(exportId)
+  }
+
+  const blockedCount = vouchers.filter(voucher => voucher.problems.length > 0).length
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Tally Export</h1>
+        <p className="text-muted-foreground">Purchase vouchers from GRNs and stock journals from issues, as Tally XML</p>
+      </div>
+
+      <Tabs defaultValue="export" className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="export">Export</TabsTrigger>
+          <TabsTrigger value="mapping">Name Mapping</TabsTrigger>
+          <TabsTrigger value="history">History</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="export" className="space-y-6">
+          <Card>
+            <CardContent className="pt-6">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="tally-voucher-type">Vouchers</Label>
+                  <Select value={voucherType} onValueChange={(value: TallyVoucherType) => setVoucherType(value)}>
+                    <SelectTrigger id="tally-voucher-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="purchase">Purchase vouchers (GRNs)</SelectItem>
+                      <SelectItem value="stock_journal">Stock journals (issues)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="tally-from">From</Label>
+                  <Input id="tally-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="tally-to">To</Label>
+                  <Input id="tally-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+                </div>
+                <div className="flex items-center gap-2 pb-2">
+                  <Checkbox
+                    id="tally-show-exported"
+                    checked={showExported}
+                    onCheckedChange={(checked) => setShowExported(checked === true)}
+                  />
+                  <Label htmlFor="tally-show-exported">Show exported ({exportedIds.size})</Label>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                Error loading entries: {error.message}
+                <Button variant="outline" size="sm" onClick={() => refetch()} className="ml-2">
+                  <RefreshCw className="h-4 w-4 mr-1" />
+                  Retry
+                </Button>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {blockedCount > 0 && (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                {blockedCount} vouchers are missing a vendor or amount and will be left out until the GRNs are corrected
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <Card>
+            <CardHeader>
+              <div className="flex justify-between items-start">
+                <div>
+                  <CardTitle>{tallyVoucherTypeLabels[voucherType]} ({vouchers.length})</CardTitle>
+                  <CardDescription>{readyVouchers.length} ready to export</CardDescription>
+                </div>
+                <Button
+                  onClick={() => exportMutation.mutate()}
+                  disabled={!can('imports', 'create') || readyVouchers.length === 0 || !settings || exportMutation.isPending}
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  {exportMutation.isPending ? "Exporting..." : "Export XML"}
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>{voucherType === 'purchase' ? 'GRN / Invoice' : 'Job'}</TableHead>
+                      <TableHead>{voucherType === 'purchase' ? 'Party Ledger' : 'Narration'}</TableHead>
+                      <TableHead>Stock Items</TableHead>
+                      {voucherType === 'purchase' && <TableHead className="text-right">Amount</TableHead>}
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {isLoading ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-8">
+                          <RefreshCw className="h-4 w-4 animate-spin mx-auto" />
+                        </TableCell>
+                      </TableRow>
+                    ) : vouchers.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                          Nothing left to export in this period
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      vouchers.map(voucher => {
+                        const exported = voucher.entryIds.some(id => exportedIds.has(id))
+                        return (
+                          <TableRow key={voucher.key}>
+                            <TableCell className="whitespace-nowrap">{new Date(voucher.date).toLocaleDateString()}</TableCell>
+                            <TableCell className="font-mono text-sm">
+                              {voucherType === 'purchase'
+                                ? `${voucher.voucherNumber}${voucher.reference ? ` / ${voucher.reference}` : ''}`
+                                : voucher.reference || '-'}
+                            </TableCell>
+                            <TableCell>{voucherType === 'purchase' ? voucher.partyLedger || '-' : voucher.narration}</TableCell>
+                            <TableCell className="text-sm">
+                              {voucher.lines.map(line => `${line.stockItem} × ${line.qty} ${line.uom}`).join(', ')}
+                            </TableCell>
+                            {voucherType === 'purchase' && (
+                              <TableCell className="text-right font-mono">{formatINR(voucher.total)}</TableCell>
+                            )}
+                            <TableCell>
+                              {exported ? (
+                                <Badge variant="secondary">Exported</Badge>
+                              ) : voucher.problems.length > 0 ? (
+                                <Badge variant="destructive" title={voucher.problems.join(', ')}>{voucher.problems[0]}</Badge>
+                              ) : (
+                                <Badge variant="default">Ready</Badge>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        )
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="mapping">
+          <TallyNameMapping />
+        </TabsContent>
+
+        <TabsContent value="history">
+          <Card>
+            <CardHeader>
+              <CardTitle>Exports ({exports.length})</CardTitle>
+              <CardDescription>Releasing an export lets its entries be exported again</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Exported</TableHead>
+                      <TableHead>File</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Period</TableHead>
+                      <TableHead className="text-right">Vouchers</TableHead>
+                      <TableHead className="text-right">Entries</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {exports.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                          No Tally exports yet
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      exports.map(tallyExport => (
+                        <TableRow key={tallyExport.id}>
+                          <TableCell className="whitespace-nowrap">{new Date(tallyExport.created_at).toLocaleString()}</TableCell>
+                          <TableCell className="font-mono text-sm">{tallyExport.file_name}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline">
+                              {tallyVoucherTypeLabels[tallyExport.voucher_type as TallyVoucherType] || tallyExport.voucher_type}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">{tallyExport.from_date || '-'} to {tallyExport.to_date || '-'}</TableCell>
+                          <TableCell className="text-right font-mono">{tallyExport.voucher_count}</TableCell>
+                          <TableCell className="text-right font-mono">{tallyExport.entry_count}</TableCell>
+                          <TableCell>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleRelease(tallyExport.id, tallyExport.file_name)}
+                              disabled={!can('imports', 'delete') || releaseMutation.isPending}
+                            >
+                              <Undo2 className="h-4 w-4 mr-1" />
+                              Release
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
+
+export default TallyExport
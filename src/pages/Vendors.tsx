@@ -0,0 +1,275 @@
+import { useState } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import type { Tables } from "@/integrations/supabase/types"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { VendorFormDialog } from "@/components/vendors/VendorFormDialog"
+import { VendorItemHistory } from "@/components/vendors/VendorItemHistory"
+import { VendorMatchReview } from "@/components/vendors/VendorMatchReview"
+import { useVendors } from "@/hooks/useVendors"
+import { usePermissions } from "@/hooks/usePermission"
+import { AlertTriangle, Building2, Edit, History, IndianRupee, Plus, RefreshCw, Search } from "lucide-react"
+
+const Vendors = () => {
+  const [searchTerm, setSearchTerm] = useState("")
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [editingVendor, setEditingVendor] = useState<Tables<'vendors'> | null>(null)
+  const [historyVendor, setHistoryVendor] = useState<Tables<'vendors'> | null>(null)
+  const { can } = usePermissions()
+
+  const { data: vendors = [], isLoading, error, refetch } = useVendors()
+
+  const { data: purchaseSummary = [] } = useQuery({
+    queryKey: ['vendor-purchase-summary'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('vendor_purchase_summary')
+        .select('*')
+
+      if (error) throw error
+      return data || []
+    }
+  })
+
+  const summaryByVendor = new Map(purchaseSummary.map(row => [row.vendor_id, row]))
+
+  const filteredVendors = vendors.filter(vendor => {
+    const term = searchTerm.toLowerCase()
+    return !term ||
+      vendor.vendor_name.toLowerCase().includes(term) ||
+      vendor.gstin?.toLowerCase().includes(term) ||
+      vendor.contact_person?.toLowerCase().includes(term)
+  })
+
+  const activeCount = vendors.filter(vendor => vendor.status === 'active').length
+  const totalSpend = purchaseSummary.reduce((sum, row) => sum + (row.total_spend || 0), 0)
+  const topVendor = [...purchaseSummary].sort((a, b) => (b.total_spend || 0) - (a.total_spend || 0))[0]
+
+  const openCreate = () => {
+    setEditingVendor(null)
+    setIsFormOpen(true)
+  }
+
+  const openEdit = (vendor: Tables<'vendors'>) => {
+    setEditingVendor(vendor)
+    setIsFormOpen(true)
+  }
+
+  if (error) {
+    return (
+      <div className="p-6">
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            Error loading vendors: {error.message}
+            <Button variant="outline" size="sm" onClick={() => refetch()} className="ml-2">
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Retry
+            </Button>
+          </AlertDescription>
+        </Alert>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Vendors</h1>
+          <p className="text-muted-foreground">Supplier master, purchase history and price tracking</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => refetch()}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+          {can('purchasing', 'create') && (
+            <Button onClick={openCreate}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Vendor
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Statistics */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Total Vendors</CardTitle>
+            <Building2 className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{vendors.length}</div>
+            <p className="text-xs text-muted-foreground">{activeCount} active</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Total Spend</CardTitle>
+            <IndianRupee className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">₹{totalSpend.toLocaleString()}</div>
+            <p className="text-xs text-muted-foreground">Across GRNs linked to vendors</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Top Vendor</CardTitle>
+            <Building2 className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold truncate">{topVendor?.total_spend ? topVendor.vendor_name : '-'}</div>
+            <p className="text-xs text-muted-foreground">
+              {topVendor?.total_spend ? `₹${topVendor.total_spend.toLocaleString()} spend` : 'No linked receipts yet'}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="vendors" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="vendors">Vendors</TabsTrigger>
+          {can('grn', 'edit') && <TabsTrigger value="link">Link GRN Vendors</TabsTrigger>}
+        </TabsList>
+
+        <TabsContent value="vendors">
+          <Card>
+            <CardHeader>
+              <CardTitle>Vendors ({filteredVendors.length})</CardTitle>
+              <CardDescription>Spend and items supplied are based on GRNs linked to each vendor</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="relative max-w-sm">
+                <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search name, GSTIN or contact..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Vendor</TableHead>
+                      <TableHead>GSTIN</TableHead>
+                      <TableHead>Contact</TableHead>
+                      <TableHead>Payment Terms</TableHead>
+                      <TableHead>Lead Time</TableHead>
+                      <TableHead>Spend (INR)</TableHead>
+                      <TableHead>Items</TableHead>
+                      <TableHead>Last Purchase</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {isLoading ? (
+                      <TableRow>
+                        <TableCell colSpan={10} className="text-center py-8">
+                          <RefreshCw className="h-4 w-4 animate-spin mx-auto" />
+                        </TableCell>
+                      </TableRow>
+                    ) : filteredVendors.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={10} className="text-center py-8 text-muted-foreground">
+                          No vendors found
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      filteredVendors.map(vendor => {
+                        const summary = summaryByVendor.get(vendor.id)
+                        return (
+                          <TableRow key={vendor.id}>
+                            <TableCell className="font-medium">{vendor.vendor_name}</TableCell>
+                            <TableCell className="font-mono text-sm">{vendor.gstin || '-'}</TableCell>
+                            <TableCell>
+                              <div>{vendor.contact_person || '-'}</div>
+                              {(vendor.phone || vendor.email) && (
+                                <div className="text-xs text-muted-foreground">
+                                  {[vendor.phone, vendor.email].filter(Boolean).join(' · ')}
+                                </div>
+                              )}
+                            </TableCell>
+                            <TableCell>{vendor.payment_terms || '-'}</TableCell>
+                            <TableCell>{vendor.lead_time_days != null ? `${vendor.lead_time_days} days` : '-'}</TableCell>
+                            <TableCell>₹{(summary?.total_spend || 0).toLocaleString()}</TableCell>
+                            <TableCell>{summary?.items_supplied || 0}</TableCell>
+                            <TableCell>{summary?.last_purchase_date || '-'}</TableCell>
+                            <TableCell>
+                              <Badge variant={vendor.status === 'active' ? 'default' : 'secondary'}>
+                                {vendor.status}
+                              </Badge>
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex gap-2">
+                                <Button size="sm" variant="outline" onClick={() => setHistoryVendor(vendor)}>
+                                  <History className="h-4 w-4" />
+                                </Button>
+                                {can('purchasing', 'edit') && (
+                                  <Button size="sm" variant="outline" onClick={() => openEdit(vendor)}>
+                                    <Edit className="h-4 w-4" />
+                                  </Button>
+                                )}
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        )
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {can('grn', 'edit') && (
+          <TabsContent value="link">
+            <VendorMatchReview />
+          </TabsContent>
+        )}
+      </Tabs>
+
+      <VendorFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        vendor={editingVendor}
+      />
+
+      <Dialog open={historyVendor !== null} onOpenChange={(open) => !open && setHistoryVendor(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{historyVendor?.vendor_name} · Purchase History</DialogTitle>
+            <DialogDescription>
+              Items supplied with quantities, spend and the rate paid on the latest priced receipt
+            </DialogDescription>
+          </DialogHeader>
+          {historyVendor && <VendorItemHistory vendorId={historyVendor.id} />}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
+
+export default Vendors
@@ -0,0 +1,26 @@
+// Closed accounting months, keyed by their first day ('YYYY-MM-01') like accounting_periods.period_month.
+// Closing is cumulative: the books are closed through the latest locked month.
+
+/** First day of the month an entry date ('YYYY-MM-DD') falls in */
+export const toPeriodMonth = (date: string): string => `${date.slice(0, 7)}-01`;
+
+/** The latest locked month; every month up to and including it is closed */
+export const getClosedThroughMonth = (periods: { period_month: string; is_locked: boolean }[]): string | null =>
+  periods.filter(period => period.is_locked).reduce<string | null>(
+    (latest, period) => (!latest || period.period_month > latest ? period.period_month : latest),
+    null
+  );
+
+/** Mirrors is_period_locked() in the database */
+export const isDateInClosedPeriod = (date: string | null | undefined, closedThrough: string | null | undefined): boolean =>
+  !!date && !!closedThrough && toPeriodMonth(date) <= closedThrough;
+
+export const formatPeriodMonth = (periodMonth: string): string =>
+  new Date(`${periodMonth}T00:00:00`).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+
+/** The months that have ended, most recent first; the current month cannot be closed */
+export const getRecentPeriodMonths = (count: number, today = new Date()): string[] =>
+  Array.from({ length: count }, (_, index) => {
+    const month = new Date(today.getFullYear(), today.getMonth() - index - 1, 1);
+    return `${month.getFullYear()}-${String(month.getMonth() + 1).padStart(2, '0')}-01`;
+  });
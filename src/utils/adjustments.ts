@@ -0,0 +1,64 @@
+export type AdjustmentReason = 'DAMAGE' | 'SCRAP' | 'EXPIRY' | 'SAMPLE' | 'WRITE_OFF' | 'FOUND' | 'COUNT_CORRECTION';
+
+export type AdjustmentDirection = 'decrease' | 'increase' | 'either';
+
+export type AdjustmentStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+// Direction is enforced by the database as well; losses can only reduce stock
+export const adjustmentReasons: { key: AdjustmentReason, label: string, direction: AdjustmentDirection }[] = [
+  { key: 'DAMAGE', label: 'Damage', direction: 'decrease' },
+  { key: 'SCRAP', label: 'Scrap / failed run', direction: 'decrease' },
+  { key: 'EXPIRY', label: 'Expired', direction: 'decrease' },
+  { key: 'SAMPLE', label: 'Sample', direction: 'decrease' },
+  { key: 'WRITE_OFF', label: 'Write-off', direction: 'decrease' },
+  { key: 'FOUND', label: 'Stock found', direction: 'increase' },
+  { key: 'COUNT_CORRECTION', label: 'Count correction', direction: 'either' },
+];
+
+export const adjustmentStatusLabels: Record<AdjustmentStatus, string> = {
+  PENDING: 'Pending approval',
+  APPROVED: 'Approved',
+  REJECTED: 'Rejected',
+};
+
+export const getAdjustmentReason = (key: string | null) => adjustmentReasons.find(reason => reason.key === key);
+
+export const getAdjustmentReasonLabel = (key: string | null): string => getAdjustmentReason(key)?.label || key || '-';
+
+/**
+ * Signed quantity for a reason: decreases are always negative, increases always positive.
+ * Count corrections keep the direction the user chose.
+ */
+export const getSignedAdjustmentQty = (reason: AdjustmentReason, qty: number, direction: 'decrease' | 'increase'): number => {
+  const magnitude = Math.abs(qty);
+  const effective = getAdjustmentReason(reason)?.direction || 'either';
+  if (effective === 'decrease') return -magnitude;
+  if (effective === 'increase') return magnitude;
+  return direction === 'decrease' ? -magnitude : magnitude;
+};
+
+/** Next sequential adjustment number for a day, e.g. ADJ-20250730-004 */
+export const getNextAdjustmentNumber = (existingNumbers: string[], date: string): string => {
+  const prefix = `ADJ-${date.replace(/-/g, '')}-`;
+  const lastSeq = existingNumbers
+    .filter(number => number.startsWith(prefix))
+    .reduce((max, number) => Math.max(max, parseInt(number.slice(prefix.length)) || 0), 0);
+  return `${prefix}${String(lastSeq + 1).padStart(3, '0')}`;
+};
+
+/**
+ * Quantity added and removed per reason, for reasons that have any movement.
+ */
+export const summarizeAdjustmentsByReason = (adjustments: { reason: string, qty: number }[]) =>
+  adjustmentReasons
+    .map(reason => {
+      const rows = adjustments.filter(adjustment => adjustment.reason === reason.key);
+      return {
+        reason: reason.key,
+        name: reason.label,
+        added: rows.filter(row => row.qty > 0).reduce((sum, row) => sum + row.qty, 0),
+        removed: rows.filter(row => row.qty < 0).reduce((sum, row) => sum - row.qty, 0),
+        count: rows.length,
+      };
+    })
+    .filter(summary => summary.count > 0);
@@ -0,0 +1,115 @@
+// Audit trail rows from grn_audit_log, issue_audit_log and master_data_audit_log in one shape
+
+export type AuditSource =
+  | 'grn'
+  | 'issue'
+  | 'item_master'
+  | 'categories'
+  | 'stock'
+  | 'user_roles'
+  | 'user_role_assignments'
+  | 'role_permissions'
+  | 'accounting_periods';
+
+export const auditSourceLabels: Record<AuditSource, string> = {
+  grn: 'GRNs',
+  issue: 'Issues',
+  item_master: 'Items',
+  categories: 'Categories',
+  stock: 'Stock',
+  user_roles: 'Admin Access',
+  user_role_assignments: 'Role Assignments',
+  role_permissions: 'Role Permissions',
+  accounting_periods: 'Period Closing',
+};
+
+export const masterDataSources: AuditSource[] = [
+  'item_master',
+  'categories',
+  'stock',
+  'user_roles',
+  'user_role_assignments',
+  'role_permissions',
+  'accounting_periods',
+];
+
+export type AuditValues = { [key: string]: unknown } | null;
+
+export interface AuditEntry {
+  id: string;
+  source: AuditSource;
+  action: string;
+  recordKey: string;
+  itemCode: string | null;
+  oldValues: AuditValues;
+  newValues: AuditValues;
+  userId: string | null;
+  createdAt: string;
+}
+
+export interface AuditFieldDiff {
+  field: string;
+  before: string;
+  after: string;
+  changed: boolean;
+}
+
+const asValues = (values: unknown): AuditValues =>
+  values && typeof values === 'object' && !Array.isArray(values) ? values as AuditValues : null;
+
+export const toAuditEntry = (
+  source: AuditSource,
+  row: { id: string; action: string; old_values: unknown; new_values: unknown; user_id: string | null; created_at: string | null },
+  recordKey: string
+): AuditEntry => {
+  const oldValues = asValues(row.old_values);
+  const newValues = asValues(row.new_values);
+  const itemCode = (newValues || oldValues)?.item_code;
+  return {
+    id: row.id,
+    source,
+    action: row.action,
+    recordKey,
+    itemCode: typeof itemCode === 'string' ? itemCode : null,
+    oldValues,
+    newValues,
+    userId: row.user_id,
+    createdAt: row.created_at || '',
+  };
+};
+
+const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/** Every field in either version, changed fields first, for a side-by-side before/after view */
+export const diffAuditValues = (oldValues: AuditValues, newValues: AuditValues): AuditFieldDiff[] => {
+  const fields = [...new Set([...Object.keys(oldValues || {}), ...Object.keys(newValues || {})])];
+  return fields
+    .map(field => {
+      const before = formatAuditValue(oldValues?.[field]);
+      const after = formatAuditValue(newValues?.[field]);
+      return { field, before, after, changed: !!oldValues && !!newValues && before !== after };
+    })
+    .sort((a, b) => Number(b.changed) - Number(a.changed) || a.field.localeCompare(b.field));
+};
+
+/** One-line summary of what changed, e.g. "qty_received, remarks" */
+export const summarizeAuditChange = (entry: AuditEntry): string => {
+  if (entry.action === 'INSERT') return 'Created';
+  if (entry.action === 'DELETE') return 'Deleted';
+  const changed = diffAuditValues(entry.oldValues, entry.newValues).filter(diff => diff.changed);
+  return changed.length > 0 ? changed.map(diff => diff.field).join(', ') : 'No field changes';
+};
+
+/** Where the affected record can be seen; transactions and stock open the item's ledger */
+export const getAuditLink = (entry: AuditEntry): string | null => {
+  if (entry.itemCode && (entry.source === 'grn' || entry.source === 'issue' || entry.source === 'stock' || entry.source === 'item_master')) {
+    return `/stock-ledger?item=${encodeURIComponent(entry.itemCode)}`;
+  }
+  if (entry.source === 'categories') return '/categories';
+  if (entry.source === 'user_roles' || entry.source === 'user_role_assignments' || entry.source === 'role_permissions' || entry.source === 'accounting_periods') return '/settings';
+  return null;
+};
@@ -0,0 +1,10 @@
+export type BOMStatus = 'DRAFT' | 'ACTIVE' | 'ARCHIVED';
+
+export const bomStatusLabels: Record<BOMStatus, string> = {
+  DRAFT: 'Draft',
+  ACTIVE: 'Active',
+  ARCHIVED: 'Archived',
+};
+
+export const formatBOMVersion = (version: number | null | undefined): string =>
+  version != null ? `v${version}` : '-';
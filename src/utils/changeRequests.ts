@@ -0,0 +1,67 @@
+import type { PermissionModule } from '@/utils/permissions';
+
+export type ChangeEntryType = 'grn' | 'issue';
+
+export type ChangeAction = 'UPDATE' | 'DELETE';
+
+export type ChangeRequestStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export const changeRequestStatusLabels: Record<ChangeRequestStatus, string> = {
+  PENDING: 'Pending approval',
+  APPROVED: 'Approved',
+  REJECTED: 'Rejected',
+};
+
+export const changeEntryModules: Record<ChangeEntryType, PermissionModule> = {
+  grn: 'grn',
+  issue: 'issues',
+};
+
+// Fields request_entry_change accepts for each entry type, in display order
+export const changeFieldLabels: Record<ChangeEntryType, Record<string, string>> = {
+  grn: {
+    date: 'Date',
+    grn_number: 'GRN No.',
+    qty_received: 'Quantity',
+    location_id: 'Location',
+    invoice_number: 'Invoice',
+    vendor: 'Vendor',
+    amount_inr: 'Amount',
+    lot_number: 'Lot / roll',
+    expiry_date: 'Expiry',
+    remarks: 'Remarks',
+  },
+  issue: {
+    date: 'Date',
+    qty_issued: 'Quantity',
+    location_id: 'Location',
+    purpose: 'Purpose',
+    uiorn: 'UIORN',
+    production_stage: 'Stage',
+    remarks: 'Remarks',
+  },
+};
+
+export interface FieldChange {
+  field: string;
+  label: string;
+  from: unknown;
+  to: unknown;
+}
+
+type Values = Record<string, unknown> | null;
+
+/** Field-by-field old and new values of a requested edit; vendor_id travels with vendor and is not listed */
+export const getFieldChanges = (entryType: ChangeEntryType, oldValues: Values, newValues: Values): FieldChange[] =>
+  Object.entries(changeFieldLabels[entryType])
+    .filter(([field]) => newValues && field in newValues)
+    .map(([field, label]) => ({ field, label, from: oldValues?.[field] ?? null, to: newValues?.[field] ?? null }));
+
+/** Short description of the entry a request is about, e.g. "GRN GRN-0012 · PAP-80" */
+export const describeChangeEntry = (entryType: ChangeEntryType, values: Values): string => {
+  const itemCode = String(values?.item_code ?? '');
+  if (entryType === 'grn') return `GRN ${values?.grn_number ?? ''} · ${itemCode}`;
+  return `Issue ${values?.date ?? ''} · ${itemCode}`;
+};
+
+export const changeEntryKey = (entryType: ChangeEntryType, entryId: string) => `${entryType}:${entryId}`;
@@ -0,0 +1,158 @@
+import type { SpreadsheetData } from './spreadsheet';
+
+export type DateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'DD-MM-YYYY' | 'DD.MM.YYYY' | 'DD-MMM-YYYY';
+
+export type DecimalSeparator = '.' | ',';
+
+export const dateFormatOptions: { value: DateFormat; label: string }[] = [
+  { value: 'YYYY-MM-DD', label: 'YYYY-MM-DD (2024-01-31)' },
+  { value: 'DD/MM/YYYY', label: 'DD/MM/YYYY (31/01/2024)' },
+  { value: 'MM/DD/YYYY', label: 'MM/DD/YYYY (01/31/2024)' },
+  { value: 'DD-MM-YYYY', label: 'DD-MM-YYYY (31-01-2024)' },
+  { value: 'DD.MM.YYYY', label: 'DD.MM.YYYY (31.01.2024)' },
+  { value: 'DD-MMM-YYYY', label: 'DD-MMM-YYYY (31-Jan-2024, Tally)' }
+];
+
+export const decimalSeparatorOptions: { value: DecimalSeparator; label: string }[] = [
+  { value: '.', label: 'Point (1,234.50)' },
+  { value: ',', label: 'Comma (1.234,50)' }
+];
+
+/** Target field -> source column header */
+export type ColumnMap = Record<string, string>;
+
+export interface ColumnMapping {
+  columnMap: ColumnMap;
+  dateFormat: DateFormat;
+  decimalSeparator: DecimalSeparator;
+}
+
+// Template fields holding numbers; their cells are cleaned up using the decimal separator
+const numericFields = new Set([
+  'qty_received', 'qty_issued', 'opening_qty', 'counted_qty', 'amount_inr', 'opening_unit_cost',
+  'gsm', 'min_level', 'reorder_point', 'safety_stock', 'max_level'
+]);
+
+// Column names other systems commonly use for the template fields (compared after normalizeHeader)
+const fieldAliases: Record<string, string[]> = {
+  item_code: ['code', 'sku', 'item', 'stock_item', 'stock_item_code', 'part_no', 'part_number', 'material_code'],
+  item_name: ['name', 'description', 'item_description', 'stock_item_name', 'material'],
+  category: ['category_name', 'stock_group', 'group'],
+  category_name: ['category', 'stock_group', 'group'],
+  uom: ['unit', 'units', 'unit_of_measure'],
+  date: ['voucher_date', 'grn_date', 'issue_date', 'receipt_date', 'txn_date'],
+  grn_number: ['grn_no', 'voucher_no', 'voucher_number', 'receipt_no', 'mrn_no'],
+  qty_received: ['qty', 'quantity', 'received_qty', 'actual_quantity', 'billed_quantity'],
+  qty_issued: ['qty', 'quantity', 'issued_qty', 'issue_qty'],
+  opening_qty: ['qty', 'quantity', 'opening_balance', 'opening_quantity'],
+  counted_qty: ['qty', 'quantity', 'physical_qty', 'count'],
+  invoice_number: ['invoice_no', 'bill_no', 'supplier_invoice_no', 'reference_no'],
+  amount_inr: ['amount', 'value', 'total', 'net_amount'],
+  vendor: ['party', 'party_name', 'supplier', 'supplier_name', 'party_a_c_name'],
+  po_number: ['po_no', 'order_no', 'purchase_order'],
+  location_code: ['location', 'godown', 'store'],
+  lot_number: ['lot', 'lot_no', 'batch', 'batch_no', 'batch_number'],
+  opening_unit_cost: ['rate', 'unit_cost', 'cost'],
+  remarks: ['narration', 'notes', 'comment', 'comments']
+};
+
+const monthNames = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+export const normalizeHeader = (header: string) =>
+  header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+export const isDateField = (field: string) => /(^|_)date$/.test(field);
+
+export const isNumericField = (field: string) => numericFields.has(field);
+
+/** Identifies a file layout regardless of column order or letter case, so a saved profile can be matched */
+export const getHeaderSignature = (headers: string[]) =>
+  headers.map(normalizeHeader).filter(Boolean).sort().join('|');
+
+/** Files already laid out like the template (every column a template field, required ones present) skip mapping */
+export const matchesTemplate = (headers: string[], fields: string[], requiredFields: string[]) => {
+  const normalized = headers.map(header => header.trim().toLowerCase()).filter(Boolean);
+  return normalized.every(header => fields.includes(header))
+    && requiredFields.every(field => normalized.includes(field));
+};
+
+/** Best guess of the source column for each template field: exact name first, then known aliases */
+export const suggestColumnMap = (headers: string[], fields: string[]): ColumnMap => {
+  const columnMap: ColumnMap = {};
+  const used = new Set<string>();
+  const byName = new Map(headers.map(header => [normalizeHeader(header), header]));
+
+  const claim = (field: string, candidates: string[]) => {
+    const header = candidates.map(name => byName.get(name)).find(found => found && !used.has(found));
+    if (!header) return;
+    columnMap[field] = header;
+    used.add(header);
+  };
+
+  fields.forEach(field => claim(field, [field]));
+  fields.filter(field => !columnMap[field]).forEach(field => claim(field, fieldAliases[field] || []));
+  return columnMap;
+};
+
+/** Keeps only mappings whose source column is in this file */
+export const pruneColumnMap = (columnMap: ColumnMap, headers: string[]): ColumnMap =>
+  Object.fromEntries(Object.entries(columnMap).filter(([, header]) => headers.includes(header)));
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** Converts a date written in the given format to yyyy-mm-dd; values it cannot read are left for row validation */
+export const parseDateValue = (value: string, format: DateFormat): string => {
+  const text = value.trim();
+  if (!text || /^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+
+  let day: number, month: number, year: number;
+  if (format === 'DD-MMM-YYYY') {
+    const match = text.match(/^(\d{1,2})[-\s/]([A-Za-z]{3})[A-Za-z]*[-\s/](\d{2,4})$/);
+    if (!match) return text;
+    day = Number(match[1]);
+    month = monthNames.indexOf(match[2].toLowerCase()) + 1;
+    year = Number(match[3]);
+  } else {
+    const parts = text.split(/[-/.]/).map(Number);
+    if (parts.length !== 3 || parts.some(isNaN)) return text;
+    if (format === 'YYYY-MM-DD') [year, month, day] = parts;
+    else if (format === 'MM/DD/YYYY') [month, day, year] = parts;
+    else [day, month, year] = parts;
+  }
+
+  if (year < 100) year += 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (month < 1 || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return text;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+/** Strips thousands separators, currency symbols and unit suffixes ("1,250.00 Kgs") down to a plain number */
+export const parseNumberValue = (value: string, decimalSeparator: DecimalSeparator): string => {
+  const text = value.trim();
+  const numeric = text.replace(/[^0-9.,-]/g, '').replace(/^[.,]+|[.,]+$/g, '');
+  if (!/\d/.test(numeric)) return text;
+
+  const normalized = decimalSeparator === ','
+    ? numeric.replace(/\./g, '').replace(',', '.')
+    : numeric.replace(/,/g, '');
+  return isNaN(Number(normalized)) ? text : normalized;
+};
+
+const transformValue = (field: string, value: string, mapping: ColumnMapping) => {
+  if (isDateField(field)) return parseDateValue(value, mapping.dateFormat);
+  if (isNumericField(field)) return parseNumberValue(value, mapping.decimalSeparator);
+  return value;
+};
+
+/** Rebuilds the file with template field names as headers; fields left unmapped are dropped */
+export const applyColumnMapping = (data: SpreadsheetData, fields: string[], mapping: ColumnMapping): SpreadsheetData => {
+  const columns = fields
+    .filter(field => mapping.columnMap[field])
+    .map(field => ({ field, index: data.headers.indexOf(mapping.columnMap[field]) }))
+    .filter(column => column.index >= 0);
+
+  return {
+    headers: columns.map(column => column.field),
+    rows: data.rows.map(row => columns.map(column => transformValue(column.field, row[column.index] || '', mapping)))
+  };
+};
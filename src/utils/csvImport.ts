@@ -0,0 +1,53 @@
+import type { Json } from '@/integrations/supabase/types';
+
+export type ImportFileType = 'grn' | 'issue' | 'item_master';
+
+export interface ImportRowResult {
+  row: number;
+  status: 'OK' | 'ERROR';
+  item_code: string | null;
+  message: string | null;
+}
+
+export interface ImportResult {
+  batch_id: string | null;
+  dry_run: boolean;
+  committed: boolean;
+  total_rows: number;
+  error_rows: number;
+  results: ImportRowResult[];
+  created_categories: string[];
+}
+
+/** Result returned by the import_csv_rows RPC */
+export const parseImportResult = (data: Json): ImportResult => data as unknown as ImportResult;
+
+export const getImportErrors = (result: ImportResult): ImportRowResult[] =>
+  result.results.filter(row => row.status === 'ERROR');
+
+/** Blank CSV cells are sent as null so the server can tell them apart from real values */
+export const toImportValue = (value: string | undefined): string | null => value?.trim() || null;
+
+export interface UploadError {
+  row: number;
+  message: string;
+}
+
+export const importFileTypeLabels: Record<string, string> = {
+  grn: 'GRN',
+  issue: 'Issue',
+  item_master: 'Item Master',
+};
+
+/** Row errors stored on a csv_upload_log entry */
+export const getUploadErrors = (errors: Json | null): UploadError[] =>
+  Array.isArray(errors) ? errors as unknown as UploadError[] : [];
+
+/** CSV report of an upload's row errors, one line per error */
+export const buildErrorReport = (errors: UploadError[]): string => {
+  const escape = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+  return [
+    ['Row', 'Error'].map(escape).join(','),
+    ...errors.map(error => [error.row, error.message].map(escape).join(',')),
+  ].join('\n');
+};
@@ -0,0 +1,169 @@
+import { getAdjustmentReasonLabel } from './adjustments';
+
+export type LedgerEntryType = 'OPENING' | 'GRN' | 'ISSUE' | 'ADJUSTMENT' | 'EDIT' | 'DELETE';
+
+export const ledgerEntryLabels: Record<LedgerEntryType, string> = {
+  OPENING: 'Opening stock',
+  GRN: 'Receipt (GRN)',
+  ISSUE: 'Issue',
+  ADJUSTMENT: 'Adjustment',
+  EDIT: 'Edited',
+  DELETE: 'Deleted',
+};
+
+export interface LedgerEntry {
+  id: string;
+  type: LedgerEntryType;
+  date: string;
+  created_at: string;
+  reference: string;
+  description: string;
+  qty_in: number;
+  qty_out: number;
+  balance: number;
+}
+
+export interface LedgerSource {
+  opening_qty: number;
+  grns: { id: string, date: string, created_at: string, grn_number: string, qty_received: number, vendor: string | null }[];
+  issues: { id: string, date: string, created_at: string, qty_issued: number, purpose: string | null, uiorn: string | null }[];
+  adjustments: { id: string, date: string, created_at: string, adjustment_number: string, qty: number, reason: string }[];
+  audits: { id: string, source: 'GRN' | 'ISSUE', action: string, created_at: string | null, old_values: unknown, new_values: unknown }[];
+}
+
+export interface LedgerView {
+  broughtForward: number;
+  entries: LedgerEntry[];
+  closingBalance: number;
+  totalIn: number;
+  totalOut: number;
+}
+
+type AuditValues = { [key: string]: unknown } | null;
+
+const asValues = (values: unknown): AuditValues =>
+  values && typeof values === 'object' && !Array.isArray(values) ? values as { [key: string]: unknown } : null;
+
+const getAuditQty = (values: AuditValues, source: 'GRN' | 'ISSUE'): number =>
+  Number(values?.[source === 'GRN' ? 'qty_received' : 'qty_issued']) || 0;
+
+const describeAudit = (source: 'GRN' | 'ISSUE', action: string, oldValues: AuditValues, newValues: AuditValues): string => {
+  const label = source === 'GRN' ? 'GRN' : 'Issue';
+  const oldQty = getAuditQty(oldValues, source);
+  if (action === 'DELETE') {
+    return `${label} dated ${oldValues?.date || '-'} deleted (qty ${oldQty})`;
+  }
+  const newQty = getAuditQty(newValues, source);
+  const changes = Object.keys(newValues || {})
+    .filter(key => !['updated_at', 'created_at'].includes(key))
+    .filter(key => JSON.stringify(oldValues?.[key]) !== JSON.stringify(newValues?.[key]));
+  const qtyChange = oldQty !== newQty ? `qty ${oldQty} → ${newQty}` : '';
+  const otherChanges = changes.filter(key => key !== 'qty_received' && key !== 'qty_issued');
+  return [`${label} dated ${newValues?.date || oldValues?.date || '-'} edited`, qtyChange, otherChanges.length > 0 ? `changed ${otherChanges.join(', ')}` : '']
+    .filter(Boolean)
+    .join('; ');
+};
+
+const compareEntries = (a: Pick<LedgerEntry, 'type' | 'date' | 'created_at'>, b: Pick<LedgerEntry, 'type' | 'date' | 'created_at'>) => {
+  if (a.type === 'OPENING' || b.type === 'OPENING') return a.type === 'OPENING' ? -1 : 1;
+  if (a.date !== b.date) return a.date < b.date ? -1 : 1;
+  return a.created_at < b.created_at ? -1 : a.created_at > b.created_at ? 1 : 0;
+};
+
+/**
+ * Every movement of an item in date order with a running balance.
+ * Edits and deletions from the audit logs are listed on the day they happened but do not move
+ * the balance: the GRN and issue rows already carry their current (post-edit) quantities.
+ */
+export const buildLedger = (source: LedgerSource): LedgerEntry[] => {
+  const entries: Omit<LedgerEntry, 'balance'>[] = [
+    {
+      id: 'opening',
+      type: 'OPENING',
+      date: '',
+      created_at: '',
+      reference: '-',
+      description: 'Opening stock',
+      qty_in: Math.max(0, source.opening_qty),
+      qty_out: Math.max(0, -source.opening_qty),
+    },
+    ...source.grns.map(grn => ({
+      id: grn.id,
+      type: 'GRN' as const,
+      date: grn.date,
+      created_at: grn.created_at,
+      reference: grn.grn_number,
+      description: grn.vendor ? `Received from ${grn.vendor}` : 'Goods received',
+      qty_in: grn.qty_received,
+      qty_out: 0,
+    })),
+    ...source.issues.map(issue => ({
+      id: issue.id,
+      type: 'ISSUE' as const,
+      date: issue.date,
+      created_at: issue.created_at,
+      reference: issue.uiorn || '-',
+      description: issue.purpose || 'Issued',
+      qty_in: 0,
+      qty_out: issue.qty_issued,
+    })),
+    ...source.adjustments.map(adjustment => ({
+      id: adjustment.id,
+      type: 'ADJUSTMENT' as const,
+      date: adjustment.date,
+      created_at: adjustment.created_at,
+      reference: adjustment.adjustment_number,
+      description: getAdjustmentReasonLabel(adjustment.reason),
+      qty_in: Math.max(0, adjustment.qty),
+      qty_out: Math.max(0, -adjustment.qty),
+    })),
+    ...source.audits.map(audit => {
+      const oldValues = asValues(audit.old_values);
+      const newValues = asValues(audit.new_values);
+      const createdAt = audit.created_at || '';
+      return {
+        id: audit.id,
+        type: (audit.action === 'DELETE' ? 'DELETE' : 'EDIT') as LedgerEntryType,
+        date: createdAt.slice(0, 10),
+        created_at: createdAt,
+        reference: String((audit.source === 'GRN' ? (newValues || oldValues)?.grn_number : (newValues || oldValues)?.uiorn) || '-'),
+        description: describeAudit(audit.source, audit.action, oldValues, newValues),
+        qty_in: 0,
+        qty_out: 0,
+      };
+    }),
+  ];
+
+  let balance = 0;
+  return entries
+    .sort(compareEntries)
+    .map(entry => {
+      balance += entry.qty_in - entry.qty_out;
+      return { ...entry, balance };
+    });
+};
+
+/**
+ * Entries within a date range, with the balance carried in from before the range.
+ * The opening stock row only shows when there is no start date.
+ */
+export const filterLedger = (entries: LedgerEntry[], fromDate: string, toDate: string): LedgerView => {
+  const before = fromDate ? entries.filter(entry => entry.type === 'OPENING' || entry.date < fromDate) : [];
+  const broughtForward = before.length > 0 ? before[before.length - 1].balance : 0;
+  const inRange = entries.filter(entry =>
+    (!fromDate || (entry.type !== 'OPENING' && entry.date >= fromDate)) &&
+    (!toDate || entry.type === 'OPENING' || entry.date <= toDate)
+  );
+
+  return {
+    broughtForward,
+    entries: inRange,
+    closingBalance: inRange.length > 0 ? inRange[inRange.length - 1].balance : broughtForward,
+    totalIn: inRange.reduce((sum, entry) => sum + entry.qty_in, 0),
+    totalOut: inRange.reduce((sum, entry) => sum + entry.qty_out, 0),
+  };
+};
+
+/** Final ledger balance, i.e. what stock.current_qty should be */
+export const getLedgerBalance = (entries: LedgerEntry[]): number =>
+  entries.length > 0 ? entries[entries.length - 1].balance : 0;
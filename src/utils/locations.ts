@@ -0,0 +1,60 @@
+export interface LocationStockRow {
+  item_code: string | null;
+  location_id: string | null;
+  location_code: string | null;
+  location_name: string | null;
+  current_qty: number | null;
+  stock_value: number | null;
+}
+
+export interface LocationTotal {
+  location_id: string;
+  location_name: string;
+  item_count: number;
+  qty: number;
+  value: number;
+}
+
+export const ALL_LOCATIONS = 'all';
+
+export const getLocationQty = (rows: LocationStockRow[], itemCode: string, locationId: string): number =>
+  rows.find(row => row.item_code === itemCode && row.location_id === locationId)?.current_qty || 0;
+
+/**
+ * Quantity and value per location. Pass item codes to restrict the totals to
+ * the items currently in view. Items with nothing at a location are not counted.
+ */
+export const getStockByLocation = (rows: LocationStockRow[], itemCodes?: Set<string>): LocationTotal[] => {
+  const totals = new Map<string, LocationTotal>();
+  rows.forEach(row => {
+    if (!row.location_id || (itemCodes && !itemCodes.has(row.item_code || ''))) return;
+    const total = totals.get(row.location_id) || {
+      location_id: row.location_id,
+      location_name: row.location_name || row.location_code || '',
+      item_count: 0,
+      qty: 0,
+      value: 0,
+    };
+    if ((row.current_qty || 0) !== 0) total.item_count += 1;
+    total.qty += row.current_qty || 0;
+    total.value += row.stock_value || 0;
+    totals.set(row.location_id, total);
+  });
+  return [...totals.values()].sort((a, b) => b.value - a.value);
+};
+
+/** Non-zero holdings of one item, e.g. "MAIN 120 · FLOOR 15" */
+export const formatLocationBreakdown = (rows: LocationStockRow[], itemCode: string): string =>
+  rows
+    .filter(row => row.item_code === itemCode && (row.current_qty || 0) !== 0)
+    .map(row => `${row.location_code} ${row.current_qty}`)
+    .join(' · ');
+
+/** Next sequential transfer number for a day, e.g. TRF-20250727-003 */
+export const getNextTransferNumber = (existingNumbers: string[], date: string): string => {
+  const prefix = `TRF-${date.replace(/-/g, '')}-`;
+  const lastSeq = existingNumbers
+    .filter(number => number.startsWith(prefix))
+    .reduce((max, number) => Math.max(max, parseInt(number.slice(prefix.length)) || 0), 0);
+  return `${prefix}${String(lastSeq + 1).padStart(3, '0')}`;
+};
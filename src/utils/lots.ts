@@ -0,0 +1,59 @@
+export type ExpiryStatus = 'EXPIRED' | 'EXPIRING' | 'OK' | 'NO_EXPIRY';
+
+export const expiryStatusLabels: Record<ExpiryStatus, string> = {
+  EXPIRED: 'Expired',
+  EXPIRING: 'Expiring ≤ 30d',
+  OK: 'In date',
+  NO_EXPIRY: 'No expiry',
+};
+
+export interface LotBalance {
+  lot_id: string | null;
+  lot_number: string | null;
+  item_code: string | null;
+  received_date: string | null;
+  expiry_date: string | null;
+  remaining_qty: number | null;
+}
+
+export interface LotAllocation {
+  lot_id: string;
+  lot_number: string;
+  qty: number;
+}
+
+/**
+ * Lots of an item that can still be issued on a date, first-expiring first.
+ * Lots without an expiry date go last, oldest receipt first.
+ */
+export const getIssuableLots = <T extends LotBalance>(lots: T[], itemCode: string, date: string): T[] =>
+  lots
+    .filter(lot => lot.item_code === itemCode && (lot.remaining_qty || 0) > 0)
+    .filter(lot => !lot.expiry_date || lot.expiry_date >= date)
+    .sort((a, b) => {
+      if (a.expiry_date !== b.expiry_date) {
+        if (!a.expiry_date) return 1;
+        if (!b.expiry_date) return -1;
+        return a.expiry_date < b.expiry_date ? -1 : 1;
+      }
+      return (a.received_date || '') < (b.received_date || '') ? -1 : 1;
+    });
+
+/**
+ * First-expiry-first-out split of a quantity across lots (already in FEFO order).
+ * Whatever the lots cannot cover is returned as the shortfall.
+ */
+export const allocateFEFO = (lots: LotBalance[], qty: number): { allocations: LotAllocation[], shortfall: number } => {
+  const allocations: LotAllocation[] = [];
+  let remaining = qty;
+
+  for (const lot of lots) {
+    if (remaining <= 0) break;
+    const take = Math.min(remaining, lot.remaining_qty || 0);
+    if (take <= 0 || !lot.lot_id) continue;
+    allocations.push({ lot_id: lot.lot_id, lot_number: lot.lot_number || '', qty: take });
+    remaining -= take;
+  }
+
+  return { allocations, shortfall: Math.max(0, remaining) };
+};
@@ -0,0 +1,27 @@
+export type RequisitionStatus = 'PROPOSED' | 'CONVERTED' | 'REJECTED' | 'SUPERSEDED';
+
+export type OrderUrgency = 'late' | 'due' | 'planned';
+
+export const requisitionStatusLabels: Record<RequisitionStatus, string> = {
+  PROPOSED: 'Proposed',
+  CONVERTED: 'On PO',
+  REJECTED: 'Rejected',
+  SUPERSEDED: 'Superseded',
+};
+
+export const orderUrgencyLabels: Record<OrderUrgency, string> = {
+  late: 'Order late',
+  due: 'Order this week',
+  planned: 'Planned',
+};
+
+/**
+ * How pressing a proposal is, from the date it must be ordered by to arrive
+ * before stock reaches the reorder level. Dates are ISO (yyyy-mm-dd) strings.
+ */
+export const getOrderUrgency = (orderByDate: string, today = new Date().toISOString().split('T')[0]): OrderUrgency => {
+  if (orderByDate < today) return 'late';
+  const weekAhead = new Date(today);
+  weekAhead.setDate(weekAhead.getDate() + 7);
+  return orderByDate <= weekAhead.toISOString().split('T')[0] ? 'due' : 'planned';
+};
@@ -0,0 +1,93 @@
+// Module permissions granted through roles (roles, role_permissions, user_role_assignments).
+// has_permission() in the database applies the same rules in RLS and RPCs; admins can do everything.
+
+import type { ProductionStageKey } from './production';
+
+export type PermissionModule =
+  | 'items'
+  | 'grn'
+  | 'issues'
+  | 'inventory'
+  | 'purchasing'
+  | 'production'
+  | 'reports'
+  | 'imports';
+
+export type PermissionAction = 'view' | 'create' | 'edit' | 'delete' | 'approve';
+
+export interface PermissionModuleInfo {
+  key: PermissionModule;
+  label: string;
+  description: string;
+}
+
+export const permissionModules: PermissionModuleInfo[] = [
+  { key: 'items', label: 'Items', description: 'Item master and categories' },
+  { key: 'grn', label: 'Goods Receipts', description: 'GRNs and their audit trail' },
+  { key: 'issues', label: 'Issues', description: 'Stock issues and their audit trail' },
+  { key: 'inventory', label: 'Inventory', description: 'Transfers, adjustments, counts, lots and reconciliation' },
+  { key: 'purchasing', label: 'Purchasing', description: 'Vendors, purchase orders and material planning' },
+  { key: 'production', label: 'Production', description: 'Production stages, job costing and BOMs' },
+  { key: 'reports', label: 'Reports', description: 'Stock summary, ledger, analytics and alerts' },
+  { key: 'imports', label: 'Imports & Exports', description: 'Import history, rollbacks and Tally export' }
+];
+
+export const permissionActions: { key: PermissionAction; label: string }[] = [
+  { key: 'view', label: 'View' },
+  { key: 'create', label: 'Create' },
+  { key: 'edit', label: 'Edit' },
+  { key: 'delete', label: 'Delete' },
+  { key: 'approve', label: 'Approve' }
+];
+
+/** Column in role_permissions holding each action */
+export const permissionColumns = {
+  view: 'can_view',
+  create: 'can_create',
+  edit: 'can_edit',
+  delete: 'can_delete',
+  approve: 'can_approve'
+} as const satisfies Record<PermissionAction, string>;
+
+export type PermissionFlags = Record<PermissionAction, boolean>;
+
+export type PermissionMatrix = Partial<Record<PermissionModule, PermissionFlags>>;
+
+export const noPermissions: PermissionFlags = {
+  view: false,
+  create: false,
+  edit: false,
+  delete: false,
+  approve: false
+};
+
+export interface RolePermissionRow {
+  module: string;
+  can_view: boolean;
+  can_create: boolean;
+  can_edit: boolean;
+  can_delete: boolean;
+  can_approve: boolean;
+}
+
+export const toPermissionMatrix = (rows: RolePermissionRow[]): PermissionMatrix => {
+  const matrix: PermissionMatrix = {};
+  rows.forEach(row => {
+    if (!permissionModules.some(m => m.key === row.module)) return;
+    matrix[row.module as PermissionModule] = {
+      view: row.can_view,
+      create: row.can_create,
+      edit: row.can_edit,
+      delete: row.can_delete,
+      approve: row.can_approve
+    };
+  });
+  return matrix;
+};
+
+export const hasPermission = (matrix: PermissionMatrix, module: PermissionModule, action: PermissionAction) =>
+  matrix[module]?.[action] ?? false;
+
+/** Mirrors has_stage_access(): a role assignment without allowed_stages covers every production stage */
+export const hasStageAccess = (allowedStages: string[] | null, stage: ProductionStageKey) =>
+  allowedStages === null || allowedStages.includes(stage);
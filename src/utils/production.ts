@@ -0,0 +1,115 @@
+export type ProductionStageKey =
+  | 'order_punching'
+  | 'gravure_printing'
+  | 'lamination'
+  | 'adhesive_coating'
+  | 'slitting';
+
+export type StageTable = Exclude<ProductionStageKey, 'order_punching'>;
+
+export type StageState = 'not_started' | 'in_progress' | 'completed';
+
+export interface ProductionStage {
+  key: ProductionStageKey;
+  label: string;
+  // Column returned for this stage by get_workflow_status()
+  workflowField: keyof WorkflowStatusRow;
+}
+
+export interface StageStep {
+  key: StageTable;
+  label: string;
+  statusField: 'status_gravure' | 'status_lamination' | 'status_adhesive' | 'status_slitting';
+}
+
+export interface WorkflowStatusRow {
+  uiorn: string;
+  item_name: string;
+  order_punching: string;
+  gravure_printing: string;
+  coating_lamination: string;
+  adhesive_coating: string;
+  slitting: string;
+}
+
+export const productionStages: ProductionStage[] = [
+  { key: 'order_punching', label: 'Order Punching', workflowField: 'order_punching' },
+  { key: 'gravure_printing', label: 'Gravure Printing', workflowField: 'gravure_printing' },
+  { key: 'lamination', label: 'Lamination', workflowField: 'coating_lamination' },
+  { key: 'adhesive_coating', label: 'Adhesive Coating', workflowField: 'adhesive_coating' },
+  { key: 'slitting', label: 'Slitting', workflowField: 'slitting' },
+];
+
+export const stageSteps: StageStep[] = [
+  { key: 'gravure_printing', label: 'Gravure Printing', statusField: 'status_gravure' },
+  { key: 'lamination', label: 'Lamination', statusField: 'status_lamination' },
+  { key: 'adhesive_coating', label: 'Adhesive Coating', statusField: 'status_adhesive' },
+  { key: 'slitting', label: 'Slitting', statusField: 'status_slitting' },
+];
+
+export const stageStatusOptions = ['In Progress', 'On Hold', 'Completed'];
+
+export const stageStateLabels: Record<StageState, string> = {
+  not_started: 'Not Started',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+};
+
+/**
+ * Classify a free-text stage status (as stored in the stage tables and
+ * echoed by get_workflow_status) into not started / in progress / completed.
+ */
+export const getStageState = (status: string | null | undefined): StageState => {
+  const value = (status || '').trim().toLowerCase();
+  if (!value || ['pending', 'not started', 'not_started', 'n/a', '-', 'null'].includes(value)) {
+    return 'not_started';
+  }
+  if (/complete|done|finish/.test(value)) return 'completed';
+  return 'in_progress';
+};
+
+/**
+ * Furthest stage a job has reached, and whether that stage is finished.
+ * A job that appears in the workflow has always been punched.
+ */
+export const getCurrentStage = (row: WorkflowStatusRow): { stage: ProductionStage; state: StageState } => {
+  for (let i = productionStages.length - 1; i > 0; i--) {
+    const stage = productionStages[i];
+    const state = getStageState(row[stage.workflowField]);
+    if (state !== 'not_started') return { stage, state };
+  }
+  return { stage: productionStages[0], state: 'completed' };
+};
+
+export const isJobComplete = (row: WorkflowStatusRow): boolean => {
+  const { stage, state } = getCurrentStage(row);
+  return stage.key === 'slitting' && state === 'completed';
+};
+
+/**
+ * A stage step can be recorded once the previous stage is completed,
+ * or updated if it has already been started.
+ */
+export const canRecordStep = (row: WorkflowStatusRow, step: StageTable): boolean => {
+  const index = productionStages.findIndex(stage => stage.key === step);
+  const current = getStageState(row[productionStages[index].workflowField]);
+  if (current !== 'not_started') return true;
+  if (index === 1) return true;
+  return getStageState(row[productionStages[index - 1].workflowField]) === 'completed';
+};
+
+/**
+ * The step the shop floor should act on next for this job, if any.
+ */
+export const getNextStep = (row: WorkflowStatusRow): StageTable | null => {
+  const { stage, state } = getCurrentStage(row);
+  if (state !== 'completed') return stage.key as StageTable;
+  const index = productionStages.findIndex(s => s.key === stage.key);
+  return index < productionStages.length - 1 ? (productionStages[index + 1].key as StageTable) : null;
+};
+
+export const getProductionStageLabel = (key: string | null | undefined): string =>
+  productionStages.find(stage => stage.key === key)?.label || key || '-';
+
+export const isProductionStageKey = (key: string): key is ProductionStageKey =>
+  productionStages.some(stage => stage.key === key);
@@ -0,0 +1,39 @@
+export type PurchaseOrderStatus = 'DRAFT' | 'APPROVED' | 'CLOSED' | 'CANCELLED';
+
+export type POLineStatus = 'PENDING' | 'PARTIAL' | 'RECEIVED' | 'OVER_RECEIVED';
+
+export interface POLineReceipt {
+  po_line_id: string | null;
+  po_number: string | null;
+  vendor: string | null;
+  item_code: string | null;
+  ordered_qty: number | null;
+  received_qty: number | null;
+  pending_qty: number | null;
+  rate: number | null;
+  expected_date: string | null;
+}
+
+export const poStatusLabels: Record<PurchaseOrderStatus, string> = {
+  DRAFT: 'Draft',
+  APPROVED: 'Approved',
+  CLOSED: 'Closed',
+  CANCELLED: 'Cancelled',
+};
+
+export const poLineStatusLabels: Record<POLineStatus, string> = {
+  PENDING: 'Pending',
+  PARTIAL: 'Partially Received',
+  RECEIVED: 'Received',
+  OVER_RECEIVED: 'Over Received',
+};
+
+export const formatPOLineLabel = (line: POLineReceipt): string =>
+  `${line.po_number} · ${line.vendor} · pending ${line.pending_qty ?? 0} of ${line.ordered_qty ?? 0}`;
+
+/**
+ * Quantity by which receiving `qty` against the line would exceed what was
+ * ordered. Returns 0 when the receipt fits within the pending quantity.
+ */
+export const getOverReceiptQty = (line: Pick<POLineReceipt, 'pending_qty'>, qty: number): number =>
+  Math.max(0, qty - (line.pending_qty || 0));
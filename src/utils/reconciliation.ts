@@ -0,0 +1,27 @@
+import type { Json } from '@/integrations/supabase/types';
+import type { LedgerEntry } from './ledger';
+
+export interface ReconciliationMismatch {
+  item_code: string;
+  item_name: string | null;
+  current_qty: number;
+  calculated_qty: number;
+  difference: number;
+  is_new: boolean;
+  first_detected_at: string | null;
+  last_ok_at: string | null;
+}
+
+/** Mismatches recorded by a reconciliation run (stored as JSON by detect_stock_mismatches) */
+export const getRunMismatches = (mismatches: Json | null): ReconciliationMismatch[] =>
+  Array.isArray(mismatches) ? mismatches as unknown as ReconciliationMismatch[] : [];
+
+/**
+ * Ledger rows that can explain an item's drift: everything recorded since the last run in which the
+ * item still matched. Without a clean run to go back to, only edits and deletions are shown since
+ * those change transactions after stock was already updated.
+ */
+export const getDriftEntries = (entries: LedgerEntry[], lastOkAt: string | null): LedgerEntry[] =>
+  entries.filter(entry => entry.type !== 'OPENING' && (
+    lastOkAt ? new Date(entry.created_at) >= new Date(lastOkAt) : entry.type === 'EDIT' || entry.type === 'DELETE'
+  ));
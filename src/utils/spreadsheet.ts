@@ -0,0 +1,151 @@
+import type { CellValue, Workbook } from 'exceljs';
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: string[][];
+}
+
+export type ExportRow = Record<string, string | number | null | undefined>;
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// ExcelJS is only needed for .xlsx files, so it is loaded on first use instead of with the app
+export const loadExcelJS = async () => (await import('exceljs')).default;
+
+export const isExcelFile = (file: File) => /\.xlsx$/i.test(file.name);
+
+export const isSpreadsheetFile = (file: File) => /\.(csv|xlsx)$/i.test(file.name);
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Parses CSV text where quoted fields may contain commas, doubled quotes and line breaks.
+ * Blank lines are skipped and cells are trimmed.
+ */
+export const parseCSVText = (text: string): SpreadsheetData => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRecord = () => {
+    record.push(field.trim());
+    if (record.some(Boolean)) records.push(record);
+    record = [];
+    field = '';
+  };
+
+  const source = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+  endRecord();
+
+  if (records.length === 0) throw new Error('CSV file is empty');
+
+  const [headers, ...rows] = records;
+  return { headers, rows };
+};
+
+const toISODate = (date: Date) => date.toISOString().split('T')[0];
+
+// Excel counts days from 30 Dec 1899 (including its fictitious 29 Feb 1900)
+export const excelSerialToISODate = (serial: number) =>
+  toISODate(new Date(Date.UTC(1899, 11, 30) + Math.round(serial * 86400000)));
+
+const isDateHeader = (header: string) => /(^|_)date$/i.test(header);
+
+// Dates come back as yyyy-mm-dd like the CSV templates; date columns stored as plain numbers are Excel serials
+const cellToText = (value: CellValue, header: string): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return toISODate(value);
+  if (typeof value === 'number') return isDateHeader(header) && value > 0 ? excelSerialToISODate(value) : String(value);
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'boolean') return String(value);
+  if ('richText' in value) return value.richText.map(part => part.text).join('').trim();
+  if ('hyperlink' in value) return value.text.trim();
+  if ('formula' in value || 'sharedFormula' in value) {
+    const result = value.result;
+    return result === undefined || (typeof result === 'object' && !(result instanceof Date)) ? '' : cellToText(result, header);
+  }
+  return '';
+};
+
+export const loadWorkbook = async (file: File): Promise<Workbook> => {
+  const ExcelJS = await loadExcelJS();
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  return workbook;
+};
+
+/** Sheets a user can pick from; hidden sheets such as template lists are left out */
+export const getSheetNames = (workbook: Workbook): string[] =>
+  workbook.worksheets.filter(worksheet => worksheet.state === 'visible').map(worksheet => worksheet.name);
+
+/** Reads a sheet (the first visible one by default) as header and row text, like a parsed CSV */
+export const readWorksheet = (workbook: Workbook, sheetName?: string): SpreadsheetData => {
+  const worksheet = sheetName
+    ? workbook.getWorksheet(sheetName)
+    : workbook.worksheets.find(sheet => sheet.state === 'visible');
+  if (!worksheet || worksheet.actualRowCount === 0) throw new Error('The sheet is empty');
+
+  const headers: string[] = [];
+  worksheet.getRow(1).eachCell({ includeEmpty: true }, (cell, column) => {
+    headers[column - 1] = cellToText(cell.value, '');
+  });
+
+  const rows: string[][] = [];
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+    const cells = headers.map((header, index) => cellToText(row.getCell(index + 1).value, header));
+    if (cells.some(Boolean)) rows.push(cells);
+  });
+
+  return { headers: Array.from(headers, header => header || ''), rows };
+};
+
+/** Reads a .csv file, or the first sheet of an .xlsx file */
+export const readSpreadsheetFile = async (file: File): Promise<SpreadsheetData> =>
+  isExcelFile(file) ? readWorksheet(await loadWorkbook(file)) : parseCSVText(await file.text());
+
+/** Downloads rows keyed by column title as a single-sheet .xlsx file */
+export const exportRowsToXLSX = async (rows: ExportRow[], fileName: string, sheetName = 'Sheet1') => {
+  const ExcelJS = await loadExcelJS();
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet(sheetName.slice(0, 31), { views: [{ state: 'frozen', ySplit: 1 }] });
+
+  const headers = Object.keys(rows[0] || {});
+  worksheet.columns = headers.map(header => ({ header, key: header, width: Math.min(Math.max(header.length + 4, 12), 40) }));
+  worksheet.getRow(1).font = { bold: true };
+  rows.forEach(row => worksheet.addRow(headers.map(header => row[header] ?? '')));
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  downloadBlob(new Blob([buffer], { type: XLSX_MIME_TYPE }), fileName);
+};
@@ -0,0 +1,130 @@
+export type StockCountStatus = 'COUNTING' | 'SUBMITTED' | 'APPROVED' | 'POSTED' | 'CANCELLED';
+
+export const stockCountStatusLabels: Record<StockCountStatus, string> = {
+  COUNTING: 'Counting',
+  SUBMITTED: 'Awaiting approval',
+  APPROVED: 'Approved',
+  POSTED: 'Posted',
+  CANCELLED: 'Cancelled',
+};
+
+export interface CountLine {
+  id: string;
+  item_code: string;
+  location_id: string;
+  system_qty: number;
+  counted_qty: number | null;
+  unit_cost: number;
+}
+
+export interface CountSummary {
+  total_lines: number;
+  counted_lines: number;
+  variance_lines: number;
+  gain_value: number;
+  loss_value: number;
+  net_value: number;
+}
+
+export interface CountCSVUpdate {
+  line_id: string;
+  counted_qty: number;
+  remarks: string | null;
+}
+
+export interface CountCSVError {
+  row: number;
+  message: string;
+}
+
+/**
+ * Counted minus frozen system quantity, valued at the frozen unit cost.
+ * Returns null for lines that have not been counted yet.
+ */
+export const getCountVariance = (line: CountLine): { qty: number, value: number } | null => {
+  if (line.counted_qty === null) return null;
+  const qty = line.counted_qty - line.system_qty;
+  return { qty, value: Math.round(qty * line.unit_cost * 100) / 100 };
+};
+
+export const summarizeCount = (lines: CountLine[]): CountSummary =>
+  lines.reduce((summary, line) => {
+    const variance = getCountVariance(line);
+    if (!variance) return summary;
+
+    summary.counted_lines += 1;
+    if (variance.qty !== 0) summary.variance_lines += 1;
+    if (variance.value > 0) summary.gain_value += variance.value;
+    if (variance.value < 0) summary.loss_value += variance.value;
+    summary.net_value += variance.value;
+    return summary;
+  }, {
+    total_lines: lines.length,
+    counted_lines: 0,
+    variance_lines: 0,
+    gain_value: 0,
+    loss_value: 0,
+    net_value: 0,
+  });
+
+/**
+ * Match uploaded count rows (item_code, counted_qty, optional location_code and remarks)
+ * to the lines of a session. location_code is required when the session spans several locations.
+ */
+export const matchCountRows = (
+  rows: Record<string, string>[],
+  lines: CountLine[],
+  locationCodes: Map<string, string>
+): { updates: CountCSVUpdate[], errors: CountCSVError[] } => {
+  const updates: CountCSVUpdate[] = [];
+  const errors: CountCSVError[] = [];
+  const seen = new Set<string>();
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2; // header is row 1
+    const itemCode = (row.item_code || '').trim();
+    const locationCode = (row.location_code || '').trim().toUpperCase();
+    const qtyText = (row.counted_qty || '').trim();
+
+    if (!itemCode) {
+      errors.push({ row: rowNumber, message: 'item_code is required' });
+      return;
+    }
+
+    const qty = Number(qtyText);
+    if (!qtyText || isNaN(qty) || qty < 0) {
+      errors.push({ row: rowNumber, message: `counted_qty "${qtyText}" must be zero or a positive number` });
+      return;
+    }
+
+    let candidates = lines.filter(line => line.item_code === itemCode);
+    if (locationCode) {
+      const locationId = locationCodes.get(locationCode);
+      if (!locationId) {
+        errors.push({ row: rowNumber, message: `Unknown location_code "${locationCode}"` });
+        return;
+      }
+      candidates = candidates.filter(line => line.location_id === locationId);
+    }
+
+    if (candidates.length === 0) {
+      errors.push({ row: rowNumber, message: `${itemCode} is not part of this count` });
+      return;
+    }
+    if (candidates.length > 1) {
+      errors.push({ row: rowNumber, message: `${itemCode} is counted at several locations; add a location_code` });
+      return;
+    }
+
+    const line = candidates[0];
+    if (seen.has(line.id)) {
+      errors.push({ row: rowNumber, message: `${itemCode} appears more than once in the file` });
+      return;
+    }
+    seen.add(line.id);
+
+    updates.push({ line_id: line.id, counted_qty: qty, remarks: (row.remarks || '').trim() || null });
+  });
+
+  return { updates, errors };
+};
@@ -0,0 +1,44 @@
+export type StockStatus =
+  | 'OUT_OF_STOCK'
+  | 'CRITICAL'
+  | 'LOW'
+  | 'NORMAL'
+  | 'OVERSTOCK'
+  | 'NOT_CONFIGURED';
+
+export interface StockLevels {
+  current_qty: number | null;
+  min_level: number | null;
+  reorder_point: number | null;
+  safety_stock: number | null;
+  max_level: number | null;
+  stock_status: string | null;
+}
+
+export const stockStatusLabels: Record<StockStatus, string> = {
+  OUT_OF_STOCK: 'Out of Stock',
+  CRITICAL: 'Critical',
+  LOW: 'Reorder',
+  NORMAL: 'Normal',
+  OVERSTOCK: 'Overstock',
+  NOT_CONFIGURED: 'Levels Not Set',
+};
+
+// Statuses that need purchasing attention (at or below the reorder point)
+export const reorderStatuses: StockStatus[] = ['OUT_OF_STOCK', 'CRITICAL', 'LOW'];
+
+export const getStockStatus = (item: Pick<StockLevels, 'stock_status'>): StockStatus =>
+  (item.stock_status as StockStatus) || 'NOT_CONFIGURED';
+
+export const needsReorder = (item: Pick<StockLevels, 'stock_status'>): boolean =>
+  reorderStatuses.includes(getStockStatus(item));
+
+/**
+ * Current stock as a percentage of the item's max level (or reorder point when
+ * no max is set). Returns null when neither level is configured.
+ */
+export const getStockLevelPercent = (item: StockLevels): number | null => {
+  const reference = item.max_level || item.reorder_point;
+  if (!reference) return null;
+  return Math.min(100, Math.round(((item.current_qty || 0) / reference) * 100));
+};
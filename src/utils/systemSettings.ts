@@ -0,0 +1,77 @@
+// Application settings stored as key/value rows in system_settings.
+// validate_system_setting() in the database enforces the same keys and value types.
+
+import { defaultTallySettings, type TallySettings } from './tallyXml';
+
+export interface SystemSettingValues {
+  company_name: string;
+  system_email: string;
+  notifications_enabled: boolean;
+  /** Nightly stock snapshots (the daily-stock-snapshot job) */
+  auto_backup: boolean;
+  /** Snapshots (outside closed periods) and analytics queries older than this are pruned nightly */
+  data_retention_days: number;
+  /** Read by post_issue/update_issue inside their stock lock */
+  allow_negative_stock: boolean;
+  tally_export: TallySettings;
+}
+
+export type SystemSettingKey = keyof SystemSettingValues;
+
+export const defaultSystemSettings: SystemSettingValues = {
+  company_name: 'DK Enterprises',
+  system_email: 'info@dkenterprises.co.in',
+  notifications_enabled: true,
+  auto_backup: true,
+  data_retention_days: 365,
+  allow_negative_stock: false,
+  tally_export: defaultTallySettings
+};
+
+export const MIN_RETENTION_DAYS = 1;
+export const MAX_RETENTION_DAYS = 3650;
+
+const isEmail = (value: string) => /^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(value);
+
+/** Same checks as the database trigger, so the form can explain them before saving */
+export const validateSystemSettings = (settings: Partial<SystemSettingValues>): string[] => {
+  const errors: string[] = [];
+
+  if (settings.company_name !== undefined && !settings.company_name.trim()) {
+    errors.push('Company name cannot be empty');
+  }
+  if (settings.system_email !== undefined && !isEmail(settings.system_email.trim())) {
+    errors.push('System email must be a valid email address');
+  }
+  if (
+    settings.data_retention_days !== undefined &&
+    (!Number.isInteger(settings.data_retention_days) ||
+      settings.data_retention_days < MIN_RETENTION_DAYS ||
+      settings.data_retention_days > MAX_RETENTION_DAYS)
+  ) {
+    errors.push(`Data retention must be a whole number of days between ${MIN_RETENTION_DAYS} and ${MAX_RETENTION_DAYS}`);
+  }
+
+  return errors;
+};
+
+/** Rows whose key is unknown or whose value has the wrong shape fall back to the default */
+export const mergeSystemSettings = (rows: { key: string; value: unknown }[]): SystemSettingValues => {
+  const settings: SystemSettingValues = { ...defaultSystemSettings };
+
+  rows.forEach(({ key, value }) => {
+    if (!(key in defaultSystemSettings)) return;
+    const settingKey = key as SystemSettingKey;
+    const fallback = defaultSystemSettings[settingKey];
+
+    if (settingKey === 'tally_export') {
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        settings.tally_export = { ...defaultTallySettings, ...(value as Partial<TallySettings>) };
+      }
+    } else if (typeof value === typeof fallback) {
+      (settings as unknown as Record<string, unknown>)[settingKey] = value;
+    }
+  });
+
+  return settings;
+};
@@ -0,0 +1,268 @@
+// Tally ERP 9 / TallyPrime XML import: purchase vouchers from GRNs and stock journals from issues
+
+export type TallyVoucherType = 'purchase' | 'stock_journal';
+
+export type TallyMappingType = 'stock_item' | 'party_ledger';
+
+export interface TallySettings {
+  company_name: string;
+  purchase_ledger: string;
+  godown: string;
+}
+
+export const defaultTallySettings: TallySettings = {
+  company_name: '',
+  purchase_ledger: 'Purchase Accounts',
+  godown: 'Main Location'
+};
+
+export const tallyVoucherTypeLabels: Record<TallyVoucherType, string> = {
+  purchase: 'Purchase Vouchers',
+  stock_journal: 'Stock Journals'
+};
+
+/** Tally names keyed by item_code (stock items) and vendor name (party ledgers) */
+export interface TallyNames {
+  stockItems: Map<string, string>;
+  partyLedgers: Map<string, string>;
+}
+
+export interface TallyGRNRow {
+  id: string;
+  date: string;
+  grn_number: string;
+  invoice_number: string | null;
+  vendor: string | null;
+  item_code: string;
+  qty_received: number;
+  uom: string;
+  amount_inr: number | null;
+  item_name: string;
+}
+
+export interface TallyIssueRow {
+  id: string;
+  date: string;
+  item_code: string;
+  qty_issued: number;
+  purpose: string | null;
+  uiorn: string | null;
+  remarks: string | null;
+  uom: string;
+  item_name: string;
+}
+
+interface VoucherLine {
+  stockItem: string;
+  qty: number;
+  uom: string;
+  amount: number;
+}
+
+export interface TallyVoucher {
+  key: string;
+  type: TallyVoucherType;
+  date: string;
+  voucherNumber: string;
+  reference: string;
+  partyLedger: string;
+  narration: string;
+  lines: VoucherLine[];
+  total: number;
+  entryIds: string[];
+  /** Why the voucher cannot be exported yet; empty when ready */
+  problems: string[];
+}
+
+export const escapeXML = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/** yyyy-mm-dd to Tally's yyyymmdd */
+export const formatTallyDate = (date: string) => date.slice(0, 10).replace(/-/g, '');
+
+const formatAmount = (amount: number) => amount.toFixed(2);
+
+const formatQty = (qty: number, uom: string) => ` ${qty} ${uom}`;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const stockItemName = (names: TallyNames, itemCode: string, itemName: string) =>
+  names.stockItems.get(itemCode) || itemName || itemCode;
+
+/** One purchase voucher per GRN number and supplier invoice; all of the GRN's lines go on it */
+export const buildPurchaseVouchers = (rows: TallyGRNRow[], names: TallyNames): TallyVoucher[] => {
+  const vouchers = new Map<string, TallyVoucher>();
+
+  rows.forEach(row => {
+    const key = `${row.grn_number}|${row.invoice_number || ''}`;
+    let voucher = vouchers.get(key);
+    if (!voucher) {
+      const vendor = row.vendor?.trim() || '';
+      voucher = {
+        key,
+        type: 'purchase',
+        date: row.date,
+        voucherNumber: row.grn_number,
+        reference: row.invoice_number || '',
+        partyLedger: vendor ? names.partyLedgers.get(vendor) || vendor : '',
+        narration: `GRN ${row.grn_number}${row.invoice_number ? `, invoice ${row.invoice_number}` : ''}`,
+        lines: [],
+        total: 0,
+        entryIds: [],
+        problems: vendor ? [] : ['No vendor']
+      };
+      vouchers.set(key, voucher);
+    }
+
+    if (row.amount_inr === null || row.amount_inr === undefined) {
+      voucher.problems.push(`No amount for ${row.item_code}`);
+    }
+
+    const amount = round2(row.amount_inr || 0);
+    voucher.lines.push({
+      stockItem: stockItemName(names, row.item_code, row.item_name),
+      qty: row.qty_received,
+      uom: row.uom,
+      amount
+    });
+    voucher.total = round2(voucher.total + amount);
+    voucher.entryIds.push(row.id);
+  });
+
+  return [...vouchers.values()];
+};
+
+/** One stock journal per day and job (UIORN), or per day and purpose for issues outside a job */
+export const buildStockJournals = (rows: TallyIssueRow[], names: TallyNames): TallyVoucher[] => {
+  const vouchers = new Map<string, TallyVoucher>();
+
+  rows.forEach(row => {
+    const job = row.uiorn?.trim() || '';
+    const purpose = row.purpose?.trim() || '';
+    const key = `${row.date}|${job || purpose}`;
+    let voucher = vouchers.get(key);
+    if (!voucher) {
+      voucher = {
+        key,
+        type: 'stock_journal',
+        date: row.date,
+        voucherNumber: '',
+        reference: job,
+        partyLedger: '',
+        narration: job ? `Issued to job ${job}` : `Issued for ${purpose || 'consumption'}`,
+        lines: [],
+        total: 0,
+        entryIds: [],
+        problems: []
+      };
+      vouchers.set(key, voucher);
+    }
+
+    voucher.lines.push({
+      stockItem: stockItemName(names, row.item_code, row.item_name),
+      qty: row.qty_issued,
+      uom: row.uom,
+      amount: 0
+    });
+    voucher.entryIds.push(row.id);
+  });
+
+  return [...vouchers.values()];
+};
+
+// Tally signs amounts by side: debits are negative and credits positive
+const purchaseVoucherXML = (voucher: TallyVoucher, settings: TallySettings) => `
+      <VOUCHER VCHTYPE="Purchase" ACTION="Create" OBJVIEW="Invoice Voucher View">
+        <DATE>${formatTallyDate(voucher.date)}</DATE>
+        <VOUCHERTYPENAME>Purchase</VOUCHERTYPENAME>
+        <VOUCHERNUMBER>${escapeXML(voucher.voucherNumber)}</VOUCHERNUMBER>
+        <REFERENCE>${escapeXML(voucher.reference)}</REFERENCE>
+        <PARTYLEDGERNAME>${escapeXML(voucher.partyLedger)}</PARTYLEDGERNAME>
+        <PERSISTEDVIEW>Invoice Voucher View</PERSISTEDVIEW>
+        <ISINVOICE>Yes</ISINVOICE>
+        <NARRATION>${escapeXML(voucher.narration)}</NARRATION>
+        <LEDGERENTRIES.LIST>
+          <LEDGERNAME>${escapeXML(voucher.partyLedger)}</LEDGERNAME>
+          <ISDEEMEDPOSITIVE>No</ISDEEMEDPOSITIVE>
+          <ISPARTYLEDGER>Yes</ISPARTYLEDGER>
+          <AMOUNT>${formatAmount(voucher.total)}</AMOUNT>
+        </LEDGERENTRIES.LIST>${voucher.lines.map(line => `
+        <ALLINVENTORYENTRIES.LIST>
+          <STOCKITEMNAME>${escapeXML(line.stockItem)}</STOCKITEMNAME>
+          <ISDEEMEDPOSITIVE>Yes</ISDEEMEDPOSITIVE>
+          <RATE>${line.qty ? formatAmount(line.amount / line.qty) : '0.00'}/${escapeXML(line.uom)}</RATE>
+          <AMOUNT>${formatAmount(-line.amount)}</AMOUNT>
+          <ACTUALQTY>${escapeXML(formatQty(line.qty, line.uom))}</ACTUALQTY>
+          <BILLEDQTY>${escapeXML(formatQty(line.qty, line.uom))}</BILLEDQTY>
+          <BATCHALLOCATIONS.LIST>
+            <GODOWNNAME>${escapeXML(settings.godown)}</GODOWNNAME>
+            <BATCHNAME>Primary Batch</BATCHNAME>
+            <AMOUNT>${formatAmount(-line.amount)}</AMOUNT>
+            <ACTUALQTY>${escapeXML(formatQty(line.qty, line.uom))}</ACTUALQTY>
+            <BILLEDQTY>${escapeXML(formatQty(line.qty, line.uom))}</BILLEDQTY>
+          </BATCHALLOCATIONS.LIST>
+          <ACCOUNTINGALLOCATIONS.LIST>
+            <LEDGERNAME>${escapeXML(settings.purchase_ledger)}</LEDGERNAME>
+            <ISDEEMEDPOSITIVE>Yes</ISDEEMEDPOSITIVE>
+            <AMOUNT>${formatAmount(-line.amount)}</AMOUNT>
+          </ACCOUNTINGALLOCATIONS.LIST>
+        </ALLINVENTORYENTRIES.LIST>`).join('')}
+      </VOUCHER>`;
+
+// Consumption only: issues leave the godown with no destination, and Tally values them itself
+const stockJournalXML = (voucher: TallyVoucher, settings: TallySettings) => `
+      <VOUCHER VCHTYPE="Stock Journal" ACTION="Create" OBJVIEW="Consumption Voucher View">
+        <DATE>${formatTallyDate(voucher.date)}</DATE>
+        <VOUCHERTYPENAME>Stock Journal</VOUCHERTYPENAME>
+        <REFERENCE>${escapeXML(voucher.reference)}</REFERENCE>
+        <PERSISTEDVIEW>Consumption Voucher View</PERSISTEDVIEW>
+        <NARRATION>${escapeXML(voucher.narration)}</NARRATION>${voucher.lines.map(line => `
+        <INVENTORYENTRIESOUT.LIST>
+          <STOCKITEMNAME>${escapeXML(line.stockItem)}</STOCKITEMNAME>
+          <ISDEEMEDPOSITIVE>No</ISDEEMEDPOSITIVE>
+          <ACTUALQTY>${escapeXML(formatQty(line.qty, line.uom))}</ACTUALQTY>
+          <BILLEDQTY>${escapeXML(formatQty(line.qty, line.uom))}</BILLEDQTY>
+          <BATCHALLOCATIONS.LIST>
+            <GODOWNNAME>${escapeXML(settings.godown)}</GODOWNNAME>
+            <BATCHNAME>Primary Batch</BATCHNAME>
+            <ACTUALQTY>${escapeXML(formatQty(line.qty, line.uom))}</ACTUALQTY>
+            <BILLEDQTY>${escapeXML(formatQty(line.qty, line.uom))}</BILLEDQTY>
+          </BATCHALLOCATIONS.LIST>
+        </INVENTORYENTRIESOUT.LIST>`).join('')}
+      </VOUCHER>`;
+
+/** Wraps vouchers in the envelope Tally's "Import Data" expects */
+export const buildTallyXML = (vouchers: TallyVoucher[], settings: TallySettings) => {
+  const company = settings.company_name.trim()
+    ? `
+        <STATICVARIABLES>
+          <SVCURRENTCOMPANY>${escapeXML(settings.company_name.trim())}</SVCURRENTCOMPANY>
+        </STATICVARIABLES>`
+    : '';
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<ENVELOPE>
+  <HEADER>
+    <TALLYREQUEST>Import Data</TALLYREQUEST>
+  </HEADER>
+  <BODY>
+    <IMPORTDATA>
+      <REQUESTDESC>
+        <REPORTNAME>Vouchers</REPORTNAME>${company}
+      </REQUESTDESC>
+      <REQUESTDATA>${vouchers.map(voucher => `
+        <TALLYMESSAGE xmlns:UDF="TallyUDF">${
+          voucher.type === 'purchase' ? purchaseVoucherXML(voucher, settings) : stockJournalXML(voucher, settings)
+        }
+        </TALLYMESSAGE>`).join('')}
+      </REQUESTDATA>
+    </IMPORTDATA>
+  </BODY>
+</ENVELOPE>
+`;
+};
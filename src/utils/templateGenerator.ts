@@ -1,41 +1,64 @@
 
+import { downloadBlob, loadExcelJS, XLSX_MIME_TYPE } from './spreadsheet';
+
+export type TemplateListKey = 'item_code' | 'category' | 'uom';
+
+export type TemplateLists = Partial<Record<TemplateListKey, string[]>>;
+
+// Units offered by the item forms
+export const uomOptions = ['PCS', 'KG', 'MTR', 'SQM', 'LTR'];
+
 export interface TemplateConfig {
   filename: string;
   headers: string[];
+  /** Columns an upload cannot do without; the rest of the headers are optional */
+  requiredHeaders: string[];
   sampleData: Record<string, any>[];
+  /** Columns that get a dropdown in the Excel template, and the list each one draws from */
+  validations?: Record<string, TemplateListKey>;
 }
 
+// Rows below the header that carry the Excel dropdowns
+const XLSX_TEMPLATE_ROWS = 1000;
+
 export const templateConfigs: Record<string, TemplateConfig> = {
   openingStock: {
     filename: 'opening_stock_template.csv',
-    headers: ['item_code', 'item_name', 'category', 'opening_qty', 'uom'],
+    headers: ['item_code', 'item_name', 'category', 'opening_qty', 'uom', 'opening_unit_cost'],
+    requiredHeaders: ['item_code', 'opening_qty'],
+    validations: { item_code: 'item_code', category: 'category', uom: 'uom' },
     sampleData: [
       {
         item_code: 'RAW001',
         item_name: 'Raw Material Sample',
         category: 'Raw Materials',
         opening_qty: '100',
-        uom: 'KG'
+        uom: 'KG',
+        opening_unit_cost: '85.50'
       },
       {
         item_code: 'PKG001',
         item_name: 'Packaging Sample',
         category: 'Packaging',
         opening_qty: '500',
-        uom: 'PCS'
+        uom: 'PCS',
+        opening_unit_cost: '2.25'
       },
       {
         item_code: 'FIN001',
         item_name: 'Finished Product Sample',
         category: 'Finished Goods',
         opening_qty: '50',
-        uom: 'PCS'
+        uom: 'PCS',
+        opening_unit_cost: ''
       }
     ]
   },
   grn: {
     filename: 'grn_template.csv',
-    headers: ['grn_number', 'date', 'item_code', 'qty_received', 'uom', 'invoice_number', 'amount_inr', 'vendor', 'remarks'],
+    headers: ['grn_number', 'date', 'item_code', 'qty_received', 'uom', 'invoice_number', 'amount_inr', 'vendor', 'po_number', 'location_code', 'lot_number', 'mfg_date', 'expiry_date', 'remarks'],
+    requiredHeaders: ['grn_number', 'date', 'item_code', 'qty_received', 'uom'],
+    validations: { item_code: 'item_code', uom: 'uom' },
     sampleData: [
       {
         grn_number: 'GRN001',
@@ -46,6 +69,11 @@ export const templateConfigs: Record<string, TemplateConfig> = {
         invoice_number: 'INV001',
         amount_inr: '5000',
         vendor: 'ABC Supplier',
+        po_number: 'PO001',
+        location_code: 'MAIN',
+        lot_number: 'R-1024',
+        mfg_date: '2024-01-02',
+        expiry_date: '2025-01-01',
         remarks: 'Regular delivery'
       },
       {
@@ -57,6 +85,8 @@ export const templateConfigs: Record<string, TemplateConfig> = {
         invoice_number: 'INV001',
         amount_inr: '1500',
         vendor: 'ABC Supplier',
+        po_number: 'PO001',
+        location_code: 'GODOWN',
         remarks: 'Same GRN with different item'
       },
       {
@@ -68,27 +98,86 @@ export const templateConfigs: Record<string, TemplateConfig> = {
         invoice_number: 'INV002',
         amount_inr: '2500',
         vendor: 'XYZ Supplier',
+        lot_number: 'ADH-2401',
+        mfg_date: '2024-01-10',
+        expiry_date: '2024-07-10',
         remarks: 'Single item GRN'
       }
     ]
   },
   issue: {
     filename: 'issue_template.csv',
-    headers: ['date', 'item_code', 'qty_issued', 'purpose', 'remarks'],
+    headers: ['date', 'item_code', 'qty_issued', 'purpose', 'remarks', 'uiorn', 'production_stage', 'location_code', 'lot_number'],
+    requiredHeaders: ['date', 'item_code', 'qty_issued', 'purpose'],
+    validations: { item_code: 'item_code' },
     sampleData: [
       {
         date: '2024-01-15',
         item_code: 'RAW001',
         qty_issued: '50',
         purpose: 'production',
-        remarks: 'For batch A001'
+        remarks: 'For batch A001',
+        uiorn: 'UIORN001',
+        production_stage: 'gravure_printing',
+        location_code: 'FLOOR',
+        lot_number: 'R-1024'
       },
       {
         date: '2024-01-16',
         item_code: 'PKG001',
         qty_issued: '100',
         purpose: 'maintenance',
-        remarks: 'Equipment repair'
+        remarks: 'Equipment repair',
+        uiorn: '',
+        production_stage: '',
+        location_code: '',
+        lot_number: ''
+      }
+    ]
+  },
+  itemMaster: {
+    filename: 'item_master_template.csv',
+    headers: ['item_name', 'category_name', 'uom', 'qualifier', 'gsm', 'size_mm', 'usage_type', 'status', 'min_level', 'reorder_point', 'safety_stock', 'max_level'],
+    requiredHeaders: ['item_name', 'category_name', 'uom'],
+    validations: { category_name: 'category', uom: 'uom' },
+    sampleData: [
+      {
+        item_name: 'Sample Item 1',
+        category_name: 'Raw Materials',
+        uom: 'PCS',
+        qualifier: 'PREMIUM',
+        gsm: '80',
+        size_mm: '100x200',
+        usage_type: 'Production',
+        status: 'active',
+        min_level: '20',
+        reorder_point: '50',
+        safety_stock: '10',
+        max_level: '200'
+      },
+      {
+        item_name: 'Sample Item 2',
+        category_name: 'Finished Goods',
+        uom: 'KG',
+        gsm: '150',
+        usage_type: 'Maintenance',
+        status: 'active'
+      }
+    ]
+  },
+  stockCount: {
+    filename: 'stock_count_template.csv',
+    headers: ['item_code', 'item_name', 'location_code', 'uom', 'counted_qty', 'remarks'],
+    requiredHeaders: ['item_code', 'counted_qty'],
+    validations: { item_code: 'item_code' },
+    sampleData: [
+      {
+        item_code: 'RAW001',
+        item_name: 'Raw Material Sample',
+        location_code: 'MAIN',
+        uom: 'KG',
+        counted_qty: '98',
+        remarks: 'Two bags damaged'
       }
     ]
   }
@@ -126,3 +215,43 @@ export const downloadCSVTemplate = (templateType: keyof typeof templateConfigs):
   
   URL.revokeObjectURL(url);
 };
+
+/**
+ * Excel version of a template. Columns listed in the config's validations get a dropdown fed from a
+ * hidden Lists sheet, so item codes, categories and units can be picked instead of typed.
+ */
+export const downloadXLSXTemplate = async (templateType: keyof typeof templateConfigs, lists: TemplateLists): Promise<void> => {
+  const config = templateConfigs[templateType];
+  const ExcelJS = await loadExcelJS();
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Template', { views: [{ state: 'frozen', ySplit: 1 }] });
+  const listSheet = workbook.addWorksheet('Lists', { state: 'veryHidden' });
+
+  sheet.columns = config.headers.map(header => ({ header, key: header, width: Math.max(header.length + 4, 14) }));
+  sheet.getRow(1).font = { bold: true };
+  config.sampleData.forEach(row => sheet.addRow(config.headers.map(header => row[header] || '')));
+
+  Object.entries(config.validations || {}).forEach(([header, listKey], index) => {
+    const values = lists[listKey] || [];
+    const column = config.headers.indexOf(header) + 1;
+    if (values.length === 0 || column === 0) return;
+
+    const listColumn = listSheet.getColumn(index + 1);
+    listColumn.values = [listKey, ...values];
+    const range = `Lists!$${listColumn.letter}$2:$${listColumn.letter}$${values.length + 1}`;
+
+    for (let row = 2; row <= XLSX_TEMPLATE_ROWS + 1; row++) {
+      sheet.getCell(row, column).dataValidation = {
+        type: 'list',
+        allowBlank: true,
+        formulae: [range],
+        showErrorMessage: true,
+        errorTitle: 'Not in the list',
+        error: `Pick a ${header.replace(/_/g, ' ')} from the list`
+      };
+    }
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  downloadBlob(new Blob([buffer], { type: XLSX_MIME_TYPE }), config.filename.replace(/\.csv$/, '.xlsx'));
+};
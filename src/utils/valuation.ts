@@ -0,0 +1,30 @@
+export type ValuationMethod = 'WEIGHTED_AVERAGE' | 'FIFO';
+
+export const valuationMethodLabels: Record<ValuationMethod, string> = {
+  WEIGHTED_AVERAGE: 'Weighted Average',
+  FIFO: 'FIFO',
+};
+
+export const valuationMethods = Object.keys(valuationMethodLabels) as ValuationMethod[];
+
+export const getValuationMethodLabel = (method: string | null | undefined): string =>
+  valuationMethodLabels[(method as ValuationMethod) || 'WEIGHTED_AVERAGE'] || method || '-';
+
+export const formatINR = (value: number | null | undefined): string =>
+  `₹${(value || 0).toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+/**
+ * Sum stock value per category, largest first.
+ */
+export const getStockValueByCategory = (
+  items: Array<{ category_name: string | null; stock_value: number | null }>
+): Array<{ category: string; value: number }> => {
+  const totals: Record<string, number> = {};
+  items.forEach(item => {
+    const category = item.category_name || 'Uncategorized';
+    totals[category] = (totals[category] || 0) + (item.stock_value || 0);
+  });
+  return Object.entries(totals)
+    .map(([category, value]) => ({ category, value }))
+    .sort((a, b) => b.value - a.value);
+};
@@ -0,0 +1,79 @@
+export const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+// Legal-form and filler words that don't distinguish one vendor from another
+const IGNORED_TOKENS = new Set([
+  'pvt', 'private', 'ltd', 'limited', 'llp', 'inc', 'co', 'company', 'corp', 'corporation',
+  'and', 'the', 'm', 's', 'ms',
+]);
+
+/**
+ * Reduce a vendor name to comparable tokens: "M/s ABC Suppliers Pvt. Ltd." -> ["abc", "supplier"].
+ */
+export const normalizeVendorTokens = (name: string): string[] =>
+  name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(token => token && !IGNORED_TOKENS.has(token))
+    .map(token => (token.length > 3 && token.endsWith('s') ? token.slice(0, -1) : token));
+
+export const normalizeVendorName = (name: string): string => normalizeVendorTokens(name).join(' ');
+
+const levenshtein = (a: string, b: string): number => {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+};
+
+/**
+ * Similarity between two vendor names from 0 to 1, taking the better of
+ * token overlap and edit distance on the normalised names.
+ */
+export const vendorSimilarity = (a: string, b: string): number => {
+  const tokensA = normalizeVendorTokens(a);
+  const tokensB = normalizeVendorTokens(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  const setB = new Set(tokensB);
+  const shared = tokensA.filter(token => setB.has(token)).length;
+  const tokenScore = (2 * shared) / (tokensA.length + tokensB.length);
+
+  const joinedA = tokensA.join(' ');
+  const joinedB = tokensB.join(' ');
+  const editScore = 1 - levenshtein(joinedA, joinedB) / Math.max(joinedA.length, joinedB.length);
+
+  return Math.max(tokenScore, editScore);
+};
+
+export interface VendorMatch<T> {
+  vendor: T;
+  score: number;
+}
+
+export const findBestVendorMatch = <T extends { vendor_name: string }>(
+  name: string,
+  vendors: T[],
+  threshold = 0.6
+): VendorMatch<T> | null => {
+  let best: VendorMatch<T> | null = null;
+  vendors.forEach(vendor => {
+    const score = vendorSimilarity(name, vendor.vendor_name);
+    if (score >= threshold && (!best || score > best.score)) {
+      best = { vendor, score };
+    }
+  });
+  return best;
+};
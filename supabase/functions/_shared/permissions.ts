@@ -0,0 +1,51 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+type PermissionModule = 'items' | 'grn' | 'issues' | 'inventory' | 'purchasing' | 'production' | 'reports' | 'imports';
+type PermissionAction = 'view' | 'create' | 'edit' | 'delete' | 'approve';
+
+// The functions run with the service role, so the caller's role has to be checked here.
+// Returns an error response to send back, or null when the caller may go ahead.
+export const requirePermission = async (
+  req: Request,
+  module: PermissionModule,
+  action: PermissionAction,
+  corsHeaders: Record<string, string>
+): Promise<Response | null> => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+
+  const deny = (status: number, error: string) =>
+    new Response(JSON.stringify({ error }), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  if (!token) {
+    return deny(401, 'Not signed in');
+  }
+
+  // Scheduled and server-side calls
+  if (token === serviceRoleKey) {
+    return null;
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+  const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+  if (userError || !user) {
+    return deny(401, 'Not signed in');
+  }
+
+  const { data: allowed, error } = await supabase.rpc('has_permission', {
+    _user_id: user.id,
+    _module: module,
+    _action: action,
+  });
+
+  if (error) {
+    console.error('Error checking permission:', error);
+    return deny(500, 'Failed to check permission');
+  }
+
+  return allowed ? null : deny(403, `You do not have permission to ${action} ${module}`);
+};
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { requirePermission } from "../_shared/permissions.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,6 +14,9 @@ serve(async (req) => {
   }
 
   try {
+    const denied = await requirePermission(req, 'reports', 'view', corsHeaders);
+    if (denied) return denied;
+
     const { query, dateRange, filters } = await req.json();
     
     // Create Supabase client
@@ -0,0 +1,73 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { requirePermission } from "../_shared/permissions.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const denied = await requirePermission(req, 'inventory', 'edit', corsHeaders);
+    if (denied) return denied;
+
+    // Create Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    console.log('Starting nightly stock reconciliation...');
+
+    // Record every item whose current_qty disagrees with its transactions
+    const { data: result, error } = await supabase.rpc('detect_stock_mismatches', { p_trigger: 'SCHEDULED' });
+
+    if (error) {
+      console.error('Error detecting stock mismatches:', error);
+      return new Response(JSON.stringify({ 
+        error: 'Failed to run stock reconciliation', 
+        details: error.message 
+      }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Report only what is new since the previous run
+    const { data: run, error: runError } = await supabase
+      .from('stock_reconciliation_runs')
+      .select('mismatches')
+      .eq('id', result.run_id)
+      .single();
+
+    if (runError) {
+      console.error('Error loading reconciliation run:', runError);
+    }
+
+    const newMismatches = (run?.mismatches || []).filter((item: { is_new: boolean }) => item.is_new);
+    console.log('Stock reconciliation result:', result, 'new mismatches:', newMismatches);
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: { ...result, new_mismatches: newMismatches },
+      timestamp: new Date().toISOString()
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in reconcile-stock function:', error);
+    return new Response(JSON.stringify({ 
+      error: 'Internal server error', 
+      details: error.message 
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,227 @@
+-- Per-item and per-category reorder levels
+-- Replaces the hard-coded alert thresholds (qty < 5 / < 10 / < 50) used by the UI.
+-- Item values override the category defaults; NULL means "not configured".
+
+ALTER TABLE public.item_master
+  ADD COLUMN min_level NUMERIC CHECK (min_level IS NULL OR min_level >= 0),
+  ADD COLUMN reorder_point NUMERIC CHECK (reorder_point IS NULL OR reorder_point >= 0),
+  ADD COLUMN safety_stock NUMERIC CHECK (safety_stock IS NULL OR safety_stock >= 0),
+  ADD COLUMN max_level NUMERIC CHECK (max_level IS NULL OR max_level >= 0);
+
+ALTER TABLE public.categories
+  ADD COLUMN default_min_level NUMERIC CHECK (default_min_level IS NULL OR default_min_level >= 0),
+  ADD COLUMN default_reorder_point NUMERIC CHECK (default_reorder_point IS NULL OR default_reorder_point >= 0),
+  ADD COLUMN default_safety_stock NUMERIC CHECK (default_safety_stock IS NULL OR default_safety_stock >= 0),
+  ADD COLUMN default_max_level NUMERIC CHECK (default_max_level IS NULL OR default_max_level >= 0);
+
+-- Rebuild stock_summary with effective levels and a computed stock_status
+DROP VIEW IF EXISTS stock_summary;
+
+CREATE VIEW stock_summary AS
+SELECT
+  s.item_code,
+  im.item_name,
+  c.category_name,
+  s.opening_qty,
+  COALESCE(grn_totals.total_grn_qty, 0) as total_grn_qty,
+  COALESCE(issue_totals.total_issued_qty, 0) as total_issued_qty,
+  s.current_qty,
+
+  -- Validation field: calculated vs actual stock
+  (s.opening_qty + COALESCE(grn_totals.total_grn_qty, 0) - COALESCE(issue_totals.total_issued_qty, 0)) as calculated_qty,
+
+  -- Consumption tracking for multiple periods
+  COALESCE(recent_consumption_7d.issue_7d, 0) as issue_7d,
+  COALESCE(recent_consumption_30d.issue_30d, 0) as issue_30d,
+  COALESCE(recent_consumption_90d.issue_90d, 0) as issue_90d,
+
+  CASE
+    WHEN COALESCE(recent_consumption_30d.issue_30d, 0) > 0
+    THEN ROUND(s.current_qty / (recent_consumption_30d.issue_30d / 30.0), 1)
+    WHEN s.current_qty > 0 AND COALESCE(recent_consumption_30d.issue_30d, 0) = 0
+    THEN 999999  -- Infinite days of cover (no recent consumption)
+    ELSE 0  -- No stock
+  END as days_of_cover,
+
+  CASE
+    WHEN COALESCE(recent_consumption_7d.issue_7d, 0) > 0
+    THEN ROUND(s.current_qty / (recent_consumption_7d.issue_7d / 7.0), 1)
+    WHEN s.current_qty > 0 AND COALESCE(recent_consumption_7d.issue_7d, 0) = 0
+    THEN 999999
+    ELSE 0
+  END as days_of_cover_7d,
+
+  CASE
+    WHEN COALESCE(recent_consumption_90d.issue_90d, 0) > 0
+    THEN ROUND(s.current_qty / (recent_consumption_90d.issue_90d / 90.0), 1)
+    WHEN s.current_qty > 0 AND COALESCE(recent_consumption_90d.issue_90d, 0) = 0
+    THEN 999999
+    ELSE 0
+  END as days_of_cover_90d,
+
+  -- Validation and debugging fields
+  CASE
+    WHEN ABS((s.opening_qty + COALESCE(grn_totals.total_grn_qty, 0) - COALESCE(issue_totals.total_issued_qty, 0)) - s.current_qty) > 0.01
+    THEN 'MISMATCH'
+    ELSE 'OK'
+  END as stock_validation_status,
+
+  -- Daily consumption rates for different periods
+  CASE
+    WHEN COALESCE(recent_consumption_7d.issue_7d, 0) > 0
+    THEN ROUND(recent_consumption_7d.issue_7d / 7.0, 3)
+    ELSE 0
+  END as consumption_rate_7d,
+
+  CASE
+    WHEN COALESCE(recent_consumption_30d.issue_30d, 0) > 0
+    THEN ROUND(recent_consumption_30d.issue_30d / 30.0, 3)
+    ELSE 0
+  END as consumption_rate_30d,
+
+  CASE
+    WHEN COALESCE(recent_consumption_90d.issue_90d, 0) > 0
+    THEN ROUND(recent_consumption_90d.issue_90d / 90.0, 3)
+    ELSE 0
+  END as consumption_rate_90d,
+
+  -- NEW: Effective reorder levels (item value, else category default)
+  levels.min_level,
+  levels.reorder_point,
+  levels.safety_stock,
+  levels.max_level,
+
+  -- NEW: Stock status derived from the effective levels
+  CASE
+    WHEN s.current_qty <= 0
+    THEN 'OUT_OF_STOCK'
+    WHEN levels.min_level IS NULL AND levels.reorder_point IS NULL
+     AND levels.safety_stock IS NULL AND levels.max_level IS NULL
+    THEN 'NOT_CONFIGURED'
+    WHEN s.current_qty <= levels.safety_stock OR s.current_qty < levels.min_level
+    THEN 'CRITICAL'
+    WHEN s.current_qty <= levels.reorder_point
+    THEN 'LOW'
+    WHEN s.current_qty > levels.max_level
+    THEN 'OVERSTOCK'
+    ELSE 'NORMAL'
+  END as stock_status
+
+FROM stock s
+LEFT JOIN item_master im ON s.item_code = im.item_code
+LEFT JOIN categories c ON im.category_id = c.id
+
+CROSS JOIN LATERAL (
+  SELECT
+    COALESCE(im.min_level, c.default_min_level) as min_level,
+    COALESCE(im.reorder_point, c.default_reorder_point) as reorder_point,
+    COALESCE(im.safety_stock, c.default_safety_stock) as safety_stock,
+    COALESCE(im.max_level, c.default_max_level) as max_level
+) levels
+
+-- Total GRN quantities (all time)
+LEFT JOIN (
+  SELECT
+    item_code,
+    SUM(qty_received) as total_grn_qty
+  FROM grn_log
+  GROUP BY item_code
+) grn_totals ON s.item_code = grn_totals.item_code
+
+-- Total issue quantities (all time)
+LEFT JOIN (
+  SELECT
+    item_code,
+    SUM(qty_issued) as total_issued_qty
+  FROM issue_log
+  GROUP BY item_code
+) issue_totals ON s.item_code = issue_totals.item_code
+
+-- 7-day consumption analysis
+LEFT JOIN (
+  SELECT
+    item_code,
+    SUM(qty_issued) as issue_7d
+  FROM issue_log
+  WHERE created_at >= CURRENT_DATE - INTERVAL '7 days'
+  GROUP BY item_code
+) recent_consumption_7d ON s.item_code = recent_consumption_7d.item_code
+
+-- 30-day consumption analysis
+LEFT JOIN (
+  SELECT
+    item_code,
+    SUM(qty_issued) as issue_30d
+  FROM issue_log
+  WHERE created_at >= CURRENT_DATE - INTERVAL '30 days'
+  GROUP BY item_code
+) recent_consumption_30d ON s.item_code = recent_consumption_30d.item_code
+
+-- 90-day consumption analysis
+LEFT JOIN (
+  SELECT
+    item_code,
+    SUM(qty_issued) as issue_90d
+  FROM issue_log
+  WHERE created_at >= CURRENT_DATE - INTERVAL '90 days'
+  GROUP BY item_code
+) recent_consumption_90d ON s.item_code = recent_consumption_90d.item_code;
+
+-- Include the reorder point and status in daily snapshots
+CREATE OR REPLACE FUNCTION public.capture_daily_stock_snapshot()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  snapshot_data JSONB;
+  record_count INTEGER;
+BEGIN
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'item_code', item_code,
+      'item_name', item_name,
+      'category_name', category_name,
+      'opening_qty', opening_qty,
+      'total_grn_qty', total_grn_qty,
+      'total_issued_qty', total_issued_qty,
+      'current_qty', current_qty,
+      'calculated_qty', calculated_qty,
+      'days_of_cover', days_of_cover,
+      'reorder_point', reorder_point,
+      'stock_status', stock_status
+    )
+  ), COUNT(*)
+  INTO snapshot_data, record_count
+  FROM stock_summary;
+
+  INSERT INTO public.daily_stock_snapshots (
+    snapshot_date,
+    snapshot_data,
+    record_count,
+    metadata
+  ) VALUES (
+    CURRENT_DATE,
+    snapshot_data,
+    record_count,
+    jsonb_build_object(
+      'captured_at', now(),
+      'source', 'automated_capture',
+      'version', '1.1'
+    )
+  )
+  ON CONFLICT (snapshot_date)
+  DO UPDATE SET
+    snapshot_data = EXCLUDED.snapshot_data,
+    record_count = EXCLUDED.record_count,
+    updated_at = now(),
+    metadata = EXCLUDED.metadata;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'date', CURRENT_DATE,
+    'record_count', record_count,
+    'message', 'Stock snapshot captured successfully'
+  );
+END;
+$$;
@@ -0,0 +1,159 @@
+-- Purchase orders that GRNs receive against
+-- po_logs holds customer orders and is left untouched; supplier POs get their own header/line tables.
+
+CREATE TABLE public.purchase_orders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  po_number TEXT NOT NULL UNIQUE,
+  vendor TEXT NOT NULL,
+  po_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  status TEXT NOT NULL DEFAULT 'DRAFT' CHECK (status IN ('DRAFT', 'APPROVED', 'CLOSED', 'CANCELLED')),
+  remarks TEXT,
+  created_by UUID DEFAULT auth.uid(),
+  approved_by UUID,
+  approved_at TIMESTAMP WITH TIME ZONE,
+  closed_by UUID,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.purchase_order_lines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  po_id UUID NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  item_code TEXT NOT NULL REFERENCES public.item_master(item_code),
+  ordered_qty NUMERIC NOT NULL CHECK (ordered_qty > 0),
+  rate NUMERIC CHECK (rate IS NULL OR rate >= 0),
+  expected_date DATE,
+  remarks TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_purchase_order_lines_po_id ON public.purchase_order_lines(po_id);
+CREATE INDEX idx_purchase_order_lines_item_code ON public.purchase_order_lines(item_code);
+
+-- Link receipts to the PO line they fulfil (optional, legacy GRNs stay unlinked)
+ALTER TABLE public.grn_log
+  ADD COLUMN po_line_id UUID REFERENCES public.purchase_order_lines(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_grn_log_po_line_id ON public.grn_log(po_line_id);
+
+-- Enable RLS
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin full access to purchase_orders"
+ON public.purchase_orders
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can read purchase_orders"
+ON public.purchase_orders
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admin full access to purchase_order_lines"
+ON public.purchase_order_lines
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can read purchase_order_lines"
+ON public.purchase_order_lines
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE TRIGGER update_purchase_orders_updated_at
+  BEFORE UPDATE ON public.purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_purchase_order_lines_updated_at
+  BEFORE UPDATE ON public.purchase_order_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Only approved POs can be received against, and the GRN item must match the PO line.
+-- Over-receipt is allowed here (the UI warns); received totals are derived in the view below.
+CREATE OR REPLACE FUNCTION public.validate_grn_po_line()
+RETURNS TRIGGER AS $$
+DECLARE
+  line_item_code TEXT;
+  po_status TEXT;
+BEGIN
+  IF NEW.po_line_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND NEW.po_line_id IS NOT DISTINCT FROM OLD.po_line_id
+     AND NEW.item_code = OLD.item_code THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT pol.item_code, po.status
+  INTO line_item_code, po_status
+  FROM public.purchase_order_lines pol
+  JOIN public.purchase_orders po ON po.id = pol.po_id
+  WHERE pol.id = NEW.po_line_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PO line % does not exist', NEW.po_line_id;
+  END IF;
+
+  IF po_status <> 'APPROVED' THEN
+    RAISE EXCEPTION 'Cannot receive against a PO with status %', po_status;
+  END IF;
+
+  IF line_item_code <> NEW.item_code THEN
+    RAISE EXCEPTION 'GRN item % does not match PO line item %', NEW.item_code, line_item_code;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER validate_grn_po_line_trigger
+  BEFORE INSERT OR UPDATE ON public.grn_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_grn_po_line();
+
+-- Ordered vs received per PO line; drives the GRN line picker and the pending-PO report
+CREATE VIEW purchase_order_line_status AS
+SELECT
+  pol.id AS po_line_id,
+  pol.po_id,
+  po.po_number,
+  po.vendor,
+  po.po_date,
+  po.status AS po_status,
+  pol.item_code,
+  im.item_name,
+  im.uom,
+  pol.ordered_qty,
+  pol.rate,
+  pol.expected_date,
+  COALESCE(grn_totals.received_qty, 0) AS received_qty,
+  GREATEST(pol.ordered_qty - COALESCE(grn_totals.received_qty, 0), 0) AS pending_qty,
+  GREATEST(COALESCE(grn_totals.received_qty, 0) - pol.ordered_qty, 0) AS over_received_qty,
+  grn_totals.last_received_date,
+  CASE
+    WHEN COALESCE(grn_totals.received_qty, 0) = 0 THEN 'PENDING'
+    WHEN grn_totals.received_qty < pol.ordered_qty THEN 'PARTIAL'
+    WHEN grn_totals.received_qty = pol.ordered_qty THEN 'RECEIVED'
+    ELSE 'OVER_RECEIVED'
+  END AS line_status,
+  (pol.expected_date IS NOT NULL
+    AND pol.expected_date < CURRENT_DATE
+    AND COALESCE(grn_totals.received_qty, 0) < pol.ordered_qty) AS is_overdue
+FROM public.purchase_order_lines pol
+JOIN public.purchase_orders po ON po.id = pol.po_id
+LEFT JOIN public.item_master im ON im.item_code = pol.item_code
+LEFT JOIN (
+  SELECT
+    po_line_id,
+    SUM(qty_received) AS received_qty,
+    MAX(date) AS last_received_date
+  FROM public.grn_log
+  WHERE po_line_id IS NOT NULL
+  GROUP BY po_line_id
+) grn_totals ON grn_totals.po_line_id = pol.id;
@@ -0,0 +1,144 @@
+-- Vendor master
+-- grn_log.vendor / purchase_orders.vendor stay as the display name; vendor_id is the reporting key.
+-- Legacy free-text GRN vendors are linked from the Vendors page review screen.
+
+CREATE TABLE public.vendors (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  vendor_name TEXT NOT NULL UNIQUE,
+  gstin TEXT UNIQUE CHECK (gstin IS NULL OR gstin ~ '^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$'),
+  contact_person TEXT,
+  phone TEXT,
+  email TEXT,
+  address TEXT,
+  payment_terms TEXT,
+  lead_time_days INTEGER CHECK (lead_time_days IS NULL OR lead_time_days >= 0),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'inactive')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.vendors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin full access to vendors"
+ON public.vendors
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can read vendors"
+ON public.vendors
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE TRIGGER update_vendors_updated_at
+  BEFORE UPDATE ON public.vendors
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.grn_log
+  ADD COLUMN vendor_id UUID REFERENCES public.vendors(id) ON DELETE SET NULL;
+
+ALTER TABLE public.purchase_orders
+  ADD COLUMN vendor_id UUID REFERENCES public.vendors(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_grn_log_vendor_id ON public.grn_log(vendor_id);
+CREATE INDEX idx_purchase_orders_vendor_id ON public.purchase_orders(vendor_id);
+
+-- Expose vendor_id on PO lines so a picked line can prefill the GRN vendor
+CREATE OR REPLACE VIEW purchase_order_line_status AS
+SELECT
+  pol.id AS po_line_id,
+  pol.po_id,
+  po.po_number,
+  po.vendor,
+  po.po_date,
+  po.status AS po_status,
+  pol.item_code,
+  im.item_name,
+  im.uom,
+  pol.ordered_qty,
+  pol.rate,
+  pol.expected_date,
+  COALESCE(grn_totals.received_qty, 0) AS received_qty,
+  GREATEST(pol.ordered_qty - COALESCE(grn_totals.received_qty, 0), 0) AS pending_qty,
+  GREATEST(COALESCE(grn_totals.received_qty, 0) - pol.ordered_qty, 0) AS over_received_qty,
+  grn_totals.last_received_date,
+  CASE
+    WHEN COALESCE(grn_totals.received_qty, 0) = 0 THEN 'PENDING'
+    WHEN grn_totals.received_qty < pol.ordered_qty THEN 'PARTIAL'
+    WHEN grn_totals.received_qty = pol.ordered_qty THEN 'RECEIVED'
+    ELSE 'OVER_RECEIVED'
+  END AS line_status,
+  (pol.expected_date IS NOT NULL
+    AND pol.expected_date < CURRENT_DATE
+    AND COALESCE(grn_totals.received_qty, 0) < pol.ordered_qty) AS is_overdue,
+  po.vendor_id
+FROM public.purchase_order_lines pol
+JOIN public.purchase_orders po ON po.id = pol.po_id
+LEFT JOIN public.item_master im ON im.item_code = pol.item_code
+LEFT JOIN (
+  SELECT
+    po_line_id,
+    SUM(qty_received) AS received_qty,
+    MAX(date) AS last_received_date
+  FROM public.grn_log
+  WHERE po_line_id IS NOT NULL
+  GROUP BY po_line_id
+) grn_totals ON grn_totals.po_line_id = pol.id;
+
+-- Spend and activity per vendor
+CREATE VIEW vendor_purchase_summary AS
+SELECT
+  v.id AS vendor_id,
+  v.vendor_name,
+  v.status,
+  COUNT(g.id) AS grn_count,
+  COALESCE(SUM(g.amount_inr), 0) AS total_spend,
+  COUNT(DISTINCT g.item_code) AS items_supplied,
+  MIN(g.date) AS first_purchase_date,
+  MAX(g.date) AS last_purchase_date
+FROM public.vendors v
+LEFT JOIN public.grn_log g ON g.vendor_id = v.id
+GROUP BY v.id, v.vendor_name, v.status;
+
+-- Per vendor and item: quantities, spend and the rate paid on the most recent priced receipt
+CREATE VIEW vendor_item_purchase_history AS
+SELECT
+  totals.vendor_id,
+  v.vendor_name,
+  totals.item_code,
+  im.item_name,
+  im.uom,
+  totals.grn_count,
+  totals.total_qty,
+  totals.total_amount,
+  CASE WHEN totals.priced_qty > 0 THEN ROUND(totals.total_amount / totals.priced_qty, 2) END AS avg_rate,
+  last_rate.last_rate,
+  last_rate.last_rate_date,
+  totals.last_purchase_date
+FROM (
+  SELECT
+    vendor_id,
+    item_code,
+    COUNT(*) AS grn_count,
+    SUM(qty_received) AS total_qty,
+    COALESCE(SUM(amount_inr), 0) AS total_amount,
+    SUM(qty_received) FILTER (WHERE amount_inr IS NOT NULL) AS priced_qty,
+    MAX(date) AS last_purchase_date
+  FROM public.grn_log
+  WHERE vendor_id IS NOT NULL
+  GROUP BY vendor_id, item_code
+) totals
+JOIN public.vendors v ON v.id = totals.vendor_id
+LEFT JOIN public.item_master im ON im.item_code = totals.item_code
+LEFT JOIN LATERAL (
+  SELECT
+    ROUND(g.amount_inr / g.qty_received, 2) AS last_rate,
+    g.date AS last_rate_date
+  FROM public.grn_log g
+  WHERE g.vendor_id = totals.vendor_id
+    AND g.item_code = totals.item_code
+    AND g.amount_inr IS NOT NULL
+    AND g.qty_received > 0
+  ORDER BY g.date DESC, g.created_at DESC
+  LIMIT 1
+) last_rate ON true;
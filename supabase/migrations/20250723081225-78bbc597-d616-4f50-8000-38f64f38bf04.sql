@@ -0,0 +1,503 @@
+-- Inventory valuation from GRN amounts
+-- Method is chosen per category (weighted average by default, or FIFO). Each item's history
+-- (opening stock, GRNs, issues in date order) is replayed to cost every issue and value the
+-- closing stock, so back-dated entries and edits are always reflected.
+
+ALTER TABLE public.categories
+  ADD COLUMN valuation_method TEXT NOT NULL DEFAULT 'WEIGHTED_AVERAGE'
+  CHECK (valuation_method IN ('WEIGHTED_AVERAGE', 'FIFO'));
+
+-- Unit cost of the opening quantity; opening stock is valued at zero when not set
+ALTER TABLE public.stock
+  ADD COLUMN opening_unit_cost NUMERIC CHECK (opening_unit_cost IS NULL OR opening_unit_cost >= 0);
+
+ALTER TABLE public.daily_stock_snapshots
+  ADD COLUMN total_stock_value NUMERIC;
+
+-- Current valuation per item
+CREATE TABLE public.item_valuation (
+  item_code TEXT NOT NULL PRIMARY KEY REFERENCES public.item_master(item_code) ON DELETE CASCADE,
+  valuation_method TEXT NOT NULL,
+  qty NUMERIC NOT NULL DEFAULT 0,
+  unit_cost NUMERIC NOT NULL DEFAULT 0,
+  stock_value NUMERIC NOT NULL DEFAULT 0,
+  calculated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Cost of each issue at the time it was made
+CREATE TABLE public.issue_valuation (
+  issue_id UUID NOT NULL PRIMARY KEY REFERENCES public.issue_log(id) ON DELETE CASCADE,
+  item_code TEXT NOT NULL,
+  valuation_method TEXT NOT NULL,
+  unit_cost NUMERIC NOT NULL,
+  total_cost NUMERIC NOT NULL,
+  calculated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_issue_valuation_item_code ON public.issue_valuation(item_code);
+
+ALTER TABLE public.item_valuation ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.issue_valuation ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin full access to item_valuation"
+ON public.item_valuation
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can read item_valuation"
+ON public.item_valuation
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admin full access to issue_valuation"
+ON public.issue_valuation
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can read issue_valuation"
+ON public.issue_valuation
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+-- Replay an item's transactions and store its valuation.
+-- GRNs without an amount are taken in at the running average (weighted average) or the
+-- last known rate (FIFO); issues beyond available layers are costed at the last known rate.
+CREATE OR REPLACE FUNCTION public.recalculate_item_valuation(p_item_code TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_method TEXT;
+  v_qty NUMERIC := 0;
+  v_value NUMERIC := 0;
+  v_last_rate NUMERIC := 0;
+  v_rate NUMERIC;
+  v_cost NUMERIC;
+  v_remaining NUMERIC;
+  v_take NUMERIC;
+  v_opening_qty NUMERIC;
+  v_opening_cost NUMERIC;
+  layer_qty NUMERIC[] := '{}';
+  layer_rate NUMERIC[] := '{}';
+  txn RECORD;
+BEGIN
+  SELECT COALESCE(c.valuation_method, 'WEIGHTED_AVERAGE')
+  INTO v_method
+  FROM public.item_master im
+  LEFT JOIN public.categories c ON c.id = im.category_id
+  WHERE im.item_code = p_item_code;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT opening_qty, COALESCE(opening_unit_cost, 0)
+  INTO v_opening_qty, v_opening_cost
+  FROM public.stock
+  WHERE item_code = p_item_code;
+
+  IF COALESCE(v_opening_qty, 0) > 0 THEN
+    v_qty := v_opening_qty;
+    v_value := v_opening_qty * v_opening_cost;
+    v_last_rate := v_opening_cost;
+    layer_qty := ARRAY[v_opening_qty];
+    layer_rate := ARRAY[v_opening_cost];
+  END IF;
+
+  FOR txn IN
+    SELECT 'GRN' AS kind, id, date, created_at, qty_received AS qty, amount_inr AS amount
+    FROM public.grn_log
+    WHERE item_code = p_item_code
+    UNION ALL
+    SELECT 'ISSUE' AS kind, id, date, created_at, qty_issued AS qty, NULL AS amount
+    FROM public.issue_log
+    WHERE item_code = p_item_code
+    ORDER BY date, kind, created_at
+  LOOP
+    IF txn.kind = 'GRN' THEN
+      v_rate := CASE
+        WHEN txn.amount IS NOT NULL AND txn.qty > 0 THEN txn.amount / txn.qty
+        WHEN v_method = 'WEIGHTED_AVERAGE' AND v_qty > 0 THEN v_value / v_qty
+        ELSE v_last_rate
+      END;
+      v_last_rate := v_rate;
+      v_qty := v_qty + txn.qty;
+      v_value := v_value + txn.qty * v_rate;
+      layer_qty := layer_qty || txn.qty;
+      layer_rate := layer_rate || v_rate;
+    ELSE
+      IF v_method = 'FIFO' THEN
+        v_remaining := txn.qty;
+        v_cost := 0;
+        WHILE v_remaining > 0 AND COALESCE(array_length(layer_qty, 1), 0) > 0 LOOP
+          v_take := LEAST(v_remaining, layer_qty[1]);
+          v_cost := v_cost + v_take * layer_rate[1];
+          v_remaining := v_remaining - v_take;
+          IF v_take = layer_qty[1] THEN
+            layer_qty := layer_qty[2:];
+            layer_rate := layer_rate[2:];
+          ELSE
+            layer_qty[1] := layer_qty[1] - v_take;
+          END IF;
+        END LOOP;
+        v_cost := v_cost + v_remaining * v_last_rate;
+      ELSE
+        v_cost := txn.qty * CASE WHEN v_qty > 0 THEN v_value / v_qty ELSE v_last_rate END;
+      END IF;
+
+      v_qty := v_qty - txn.qty;
+      v_value := CASE WHEN v_qty = 0 THEN 0 ELSE v_value - v_cost END;
+
+      INSERT INTO public.issue_valuation (issue_id, item_code, valuation_method, unit_cost, total_cost, calculated_at)
+      VALUES (
+        txn.id,
+        p_item_code,
+        v_method,
+        ROUND(CASE WHEN txn.qty > 0 THEN v_cost / txn.qty ELSE 0 END, 4),
+        ROUND(v_cost, 2),
+        now()
+      )
+      ON CONFLICT (issue_id) DO UPDATE SET
+        item_code = EXCLUDED.item_code,
+        valuation_method = EXCLUDED.valuation_method,
+        unit_cost = EXCLUDED.unit_cost,
+        total_cost = EXCLUDED.total_cost,
+        calculated_at = EXCLUDED.calculated_at;
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.item_valuation (item_code, valuation_method, qty, unit_cost, stock_value, calculated_at)
+  VALUES (
+    p_item_code,
+    v_method,
+    v_qty,
+    ROUND(CASE WHEN v_qty > 0 THEN v_value / v_qty ELSE v_last_rate END, 4),
+    ROUND(v_value, 2),
+    now()
+  )
+  ON CONFLICT (item_code) DO UPDATE SET
+    valuation_method = EXCLUDED.valuation_method,
+    qty = EXCLUDED.qty,
+    unit_cost = EXCLUDED.unit_cost,
+    stock_value = EXCLUDED.stock_value,
+    calculated_at = EXCLUDED.calculated_at;
+END;
+$$;
+
+-- Full rebuild, used for the initial backfill and from the Stock Summary page
+CREATE OR REPLACE FUNCTION public.recalculate_all_valuations()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  item RECORD;
+  item_count INTEGER := 0;
+BEGIN
+  FOR item IN SELECT item_code FROM public.item_master LOOP
+    PERFORM public.recalculate_item_valuation(item.item_code);
+    item_count := item_count + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'item_count', item_count,
+    'calculated_at', now()
+  );
+END;
+$$;
+
+-- Keep valuations current as transactions change
+CREATE OR REPLACE FUNCTION public.recalculate_valuation_on_transaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.recalculate_item_valuation(OLD.item_code);
+  END IF;
+
+  IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND NEW.item_code <> OLD.item_code) THEN
+    PERFORM public.recalculate_item_valuation(NEW.item_code);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER recalculate_valuation_on_grn
+  AFTER INSERT OR UPDATE OR DELETE ON public.grn_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.recalculate_valuation_on_transaction();
+
+CREATE TRIGGER recalculate_valuation_on_issue
+  AFTER INSERT OR UPDATE OR DELETE ON public.issue_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.recalculate_valuation_on_transaction();
+
+CREATE TRIGGER recalculate_valuation_on_opening_stock
+  AFTER INSERT OR UPDATE OF opening_qty, opening_unit_cost ON public.stock
+  FOR EACH ROW
+  EXECUTE FUNCTION public.recalculate_valuation_on_transaction();
+
+-- Re-value items when their category or the category's method changes
+CREATE OR REPLACE FUNCTION public.recalculate_valuation_on_method_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  item RECORD;
+BEGIN
+  IF TG_TABLE_NAME = 'item_master' THEN
+    PERFORM public.recalculate_item_valuation(NEW.item_code);
+  ELSE
+    FOR item IN SELECT item_code FROM public.item_master WHERE category_id = NEW.id LOOP
+      PERFORM public.recalculate_item_valuation(item.item_code);
+    END LOOP;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER recalculate_valuation_on_category_method
+  AFTER UPDATE OF valuation_method ON public.categories
+  FOR EACH ROW
+  WHEN (OLD.valuation_method IS DISTINCT FROM NEW.valuation_method)
+  EXECUTE FUNCTION public.recalculate_valuation_on_method_change();
+
+CREATE TRIGGER recalculate_valuation_on_item_category
+  AFTER UPDATE OF category_id ON public.item_master
+  FOR EACH ROW
+  WHEN (OLD.category_id IS DISTINCT FROM NEW.category_id)
+  EXECUTE FUNCTION public.recalculate_valuation_on_method_change();
+
+-- Expose unit cost and stock value on stock_summary (new columns appended)
+CREATE OR REPLACE VIEW stock_summary AS
+SELECT
+  s.item_code,
+  im.item_name,
+  c.category_name,
+  s.opening_qty,
+  COALESCE(grn_totals.total_grn_qty, 0) as total_grn_qty,
+  COALESCE(issue_totals.total_issued_qty, 0) as total_issued_qty,
+  s.current_qty,
+
+  -- Validation field: calculated vs actual stock
+  (s.opening_qty + COALESCE(grn_totals.total_grn_qty, 0) - COALESCE(issue_totals.total_issued_qty, 0)) as calculated_qty,
+
+  -- Consumption tracking for multiple periods
+  COALESCE(recent_consumption_7d.issue_7d, 0) as issue_7d,
+  COALESCE(recent_consumption_30d.issue_30d, 0) as issue_30d,
+  COALESCE(recent_consumption_90d.issue_90d, 0) as issue_90d,
+
+  CASE
+    WHEN COALESCE(recent_consumption_30d.issue_30d, 0) > 0
+    THEN ROUND(s.current_qty / (recent_consumption_30d.issue_30d / 30.0), 1)
+    WHEN s.current_qty > 0 AND COALESCE(recent_consumption_30d.issue_30d, 0) = 0
+    THEN 999999  -- Infinite days of cover (no recent consumption)
+    ELSE 0  -- No stock
+  END as days_of_cover,
+
+  CASE
+    WHEN COALESCE(recent_consumption_7d.issue_7d, 0) > 0
+    THEN ROUND(s.current_qty / (recent_consumption_7d.issue_7d / 7.0), 1)
+    WHEN s.current_qty > 0 AND COALESCE(recent_consumption_7d.issue_7d, 0) = 0
+    THEN 999999
+    ELSE 0
+  END as days_of_cover_7d,
+
+  CASE
+    WHEN COALESCE(recent_consumption_90d.issue_90d, 0) > 0
+    THEN ROUND(s.current_qty / (recent_consumption_90d.issue_90d / 90.0), 1)
+    WHEN s.current_qty > 0 AND COALESCE(recent_consumption_90d.issue_90d, 0) = 0
+    THEN 999999
+    ELSE 0
+  END as days_of_cover_90d,
+
+  -- Validation and debugging fields
+  CASE
+    WHEN ABS((s.opening_qty + COALESCE(grn_totals.total_grn_qty, 0) - COALESCE(issue_totals.total_issued_qty, 0)) - s.current_qty) > 0.01
+    THEN 'MISMATCH'
+    ELSE 'OK'
+  END as stock_validation_status,
+
+  -- Daily consumption rates for different periods
+  CASE
+    WHEN COALESCE(recent_consumption_7d.issue_7d, 0) > 0
+    THEN ROUND(recent_consumption_7d.issue_7d / 7.0, 3)
+    ELSE 0
+  END as consumption_rate_7d,
+
+  CASE
+    WHEN COALESCE(recent_consumption_30d.issue_30d, 0) > 0
+    THEN ROUND(recent_consumption_30d.issue_30d / 30.0, 3)
+    ELSE 0
+  END as consumption_rate_30d,
+
+  CASE
+    WHEN COALESCE(recent_consumption_90d.issue_90d, 0) > 0
+    THEN ROUND(recent_consumption_90d.issue_90d / 90.0, 3)
+    ELSE 0
+  END as consumption_rate_90d,
+
+  -- NEW: Effective reorder levels (item value, else category default)
+  levels.min_level,
+  levels.reorder_point,
+  levels.safety_stock,
+  levels.max_level,
+
+  -- NEW: Stock status derived from the effective levels
+  CASE
+    WHEN s.current_qty <= 0
+    THEN 'OUT_OF_STOCK'
+    WHEN levels.min_level IS NULL AND levels.reorder_point IS NULL
+     AND levels.safety_stock IS NULL AND levels.max_level IS NULL
+    THEN 'NOT_CONFIGURED'
+    WHEN s.current_qty <= levels.safety_stock OR s.current_qty < levels.min_level
+    THEN 'CRITICAL'
+    WHEN s.current_qty <= levels.reorder_point
+    THEN 'LOW'
+    WHEN s.current_qty > levels.max_level
+    THEN 'OVERSTOCK'
+    ELSE 'NORMAL'
+  END as stock_status,
+
+  -- Inventory valuation (maintained by recalculate_item_valuation)
+  COALESCE(iv.valuation_method, c.valuation_method, 'WEIGHTED_AVERAGE') as valuation_method,
+  COALESCE(iv.unit_cost, 0) as unit_cost,
+  COALESCE(iv.stock_value, 0) as stock_value
+
+FROM stock s
+LEFT JOIN item_master im ON s.item_code = im.item_code
+LEFT JOIN categories c ON im.category_id = c.id
+LEFT JOIN item_valuation iv ON s.item_code = iv.item_code
+
+CROSS JOIN LATERAL (
+  SELECT
+    COALESCE(im.min_level, c.default_min_level) as min_level,
+    COALESCE(im.reorder_point, c.default_reorder_point) as reorder_point,
+    COALESCE(im.safety_stock, c.default_safety_stock) as safety_stock,
+    COALESCE(im.max_level, c.default_max_level) as max_level
+) levels
+
+-- Total GRN quantities (all time)
+LEFT JOIN (
+  SELECT
+    item_code,
+    SUM(qty_received) as total_grn_qty
+  FROM grn_log
+  GROUP BY item_code
+) grn_totals ON s.item_code = grn_totals.item_code
+
+-- Total issue quantities (all time)
+LEFT JOIN (
+  SELECT
+    item_code,
+    SUM(qty_issued) as total_issued_qty
+  FROM issue_log
+  GROUP BY item_code
+) issue_totals ON s.item_code = issue_totals.item_code
+
+-- 7-day consumption analysis
+LEFT JOIN (
+  SELECT
+    item_code,
+    SUM(qty_issued) as issue_7d
+  FROM issue_log
+  WHERE created_at >= CURRENT_DATE - INTERVAL '7 days'
+  GROUP BY item_code
+) recent_consumption_7d ON s.item_code = recent_consumption_7d.item_code
+
+-- 30-day consumption analysis
+LEFT JOIN (
+  SELECT
+    item_code,
+    SUM(qty_issued) as issue_30d
+  FROM issue_log
+  WHERE created_at >= CURRENT_DATE - INTERVAL '30 days'
+  GROUP BY item_code
+) recent_consumption_30d ON s.item_code = recent_consumption_30d.item_code
+
+-- 90-day consumption analysis
+LEFT JOIN (
+  SELECT
+    item_code,
+    SUM(qty_issued) as issue_90d
+  FROM issue_log
+  WHERE created_at >= CURRENT_DATE - INTERVAL '90 days'
+  GROUP BY item_code
+) recent_consumption_90d ON s.item_code = recent_consumption_90d.item_code;
+
+-- Include valuation in daily snapshots for month-end reconciliation
+CREATE OR REPLACE FUNCTION public.capture_daily_stock_snapshot()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  snapshot_data JSONB;
+  record_count INTEGER;
+  stock_value_total NUMERIC;
+BEGIN
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'item_code', item_code,
+      'item_name', item_name,
+      'category_name', category_name,
+      'opening_qty', opening_qty,
+      'total_grn_qty', total_grn_qty,
+      'total_issued_qty', total_issued_qty,
+      'current_qty', current_qty,
+      'calculated_qty', calculated_qty,
+      'days_of_cover', days_of_cover,
+      'reorder_point', reorder_point,
+      'stock_status', stock_status,
+      'valuation_method', valuation_method,
+      'unit_cost', unit_cost,
+      'stock_value', stock_value
+    )
+  ), COUNT(*), COALESCE(SUM(stock_value), 0)
+  INTO snapshot_data, record_count, stock_value_total
+  FROM stock_summary;
+
+  INSERT INTO public.daily_stock_snapshots (
+    snapshot_date,
+    snapshot_data,
+    record_count,
+    total_stock_value,
+    metadata
+  ) VALUES (
+    CURRENT_DATE,
+    snapshot_data,
+    record_count,
+    stock_value_total,
+    jsonb_build_object(
+      'captured_at', now(),
+      'source', 'automated_capture',
+      'version', '1.2'
+    )
+  )
+  ON CONFLICT (snapshot_date)
+  DO UPDATE SET
+    snapshot_data = EXCLUDED.snapshot_data,
+    record_count = EXCLUDED.record_count,
+    total_stock_value = EXCLUDED.total_stock_value,
+    updated_at = now(),
+    metadata = EXCLUDED.metadata;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'date', CURRENT_DATE,
+    'record_count', record_count,
+    'total_stock_value', stock_value_total,
+    'message', 'Stock snapshot captured successfully'
+  );
+END;
+$$;
+
+-- Value existing stock
+SELECT public.recalculate_all_valuations();
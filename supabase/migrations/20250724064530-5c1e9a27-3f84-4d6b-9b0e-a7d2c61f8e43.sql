@@ -0,0 +1,76 @@
+-- Link material issues to production jobs (UIORN) and the stage that consumed them
+ALTER TABLE public.issue_log
+  ADD COLUMN uiorn TEXT REFERENCES public.order_punching(uiorn) ON DELETE SET NULL,
+  ADD COLUMN production_stage TEXT CHECK (production_stage IS NULL OR production_stage IN (
+    'order_punching', 'gravure_printing', 'lamination', 'adhesive_coating', 'slitting'
+  ));
+
+-- A stage only makes sense against a job
+ALTER TABLE public.issue_log
+  ADD CONSTRAINT issue_log_stage_requires_uiorn CHECK (production_stage IS NULL OR uiorn IS NOT NULL);
+
+CREATE INDEX idx_issue_log_uiorn ON public.issue_log(uiorn) WHERE uiorn IS NOT NULL;
+
+-- Which costing estimate a job should be compared against
+ALTER TABLE public.order_punching
+  ADD COLUMN cost_estimate_id UUID REFERENCES public.cost_mockup_estimate(id) ON DELETE SET NULL;
+
+-- Material issued per job, stage and item, valued at the issue's inventory cost
+CREATE VIEW job_material_consumption AS
+SELECT
+  il.uiorn,
+  il.production_stage,
+  il.item_code,
+  im.item_name,
+  im.uom,
+  COUNT(*) AS issue_count,
+  SUM(il.qty_issued) AS total_qty,
+  ROUND(SUM(COALESCE(iv.total_cost, 0)), 2) AS total_cost,
+  MIN(il.date) AS first_issue_date,
+  MAX(il.date) AS last_issue_date
+FROM public.issue_log il
+JOIN public.item_master im ON im.item_code = il.item_code
+LEFT JOIN public.issue_valuation iv ON iv.issue_id = il.id
+WHERE il.uiorn IS NOT NULL
+GROUP BY il.uiorn, il.production_stage, il.item_code, im.item_name, im.uom;
+
+-- Actual material cost per job next to its estimate.
+-- Jobs are sized as deckle (mm) x length (m); cost_per_sqm estimates are scaled by that area,
+-- otherwise the estimate's total_cost_estimate is used as-is.
+CREATE VIEW job_costing_summary AS
+SELECT
+  op.uiorn,
+  op.job_no,
+  op.item_code,
+  op.item_name,
+  op.order_entry_date,
+  op.deckle,
+  op.length,
+  ROUND(op.deckle / 1000.0 * op.length, 2) AS job_area_sqm,
+  COALESCE(m.issue_count, 0) AS issue_count,
+  COALESCE(m.items_issued, 0) AS items_issued,
+  COALESCE(m.total_qty, 0) AS total_qty,
+  COALESCE(m.material_cost, 0) AS material_cost,
+  m.last_issue_date,
+  op.cost_estimate_id,
+  ce.brand_sku_ref AS estimate_ref,
+  ce.cost_per_sqm AS estimate_cost_per_sqm,
+  CASE
+    WHEN ce.cost_per_sqm IS NOT NULL THEN ROUND(ce.cost_per_sqm * op.deckle / 1000.0 * op.length, 2)
+    ELSE ce.total_cost_estimate
+  END AS estimated_cost
+FROM public.order_punching op
+LEFT JOIN (
+  SELECT
+    il.uiorn,
+    COUNT(*) AS issue_count,
+    COUNT(DISTINCT il.item_code) AS items_issued,
+    SUM(il.qty_issued) AS total_qty,
+    ROUND(SUM(COALESCE(iv.total_cost, 0)), 2) AS material_cost,
+    MAX(il.date) AS last_issue_date
+  FROM public.issue_log il
+  LEFT JOIN public.issue_valuation iv ON iv.issue_id = il.id
+  WHERE il.uiorn IS NOT NULL
+  GROUP BY il.uiorn
+) m ON m.uiorn = op.uiorn
+LEFT JOIN public.cost_mockup_estimate ce ON ce.id = op.cost_estimate_id;
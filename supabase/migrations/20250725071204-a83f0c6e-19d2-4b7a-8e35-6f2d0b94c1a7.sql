@@ -0,0 +1,217 @@
+-- Bill of materials for finished items
+-- Each finished item can have several versions; exactly one may be ACTIVE and only DRAFT versions are editable.
+
+CREATE TABLE public.bom_headers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  item_code TEXT NOT NULL REFERENCES public.item_master(item_code) ON DELETE CASCADE,
+  version INTEGER NOT NULL CHECK (version > 0),
+  status TEXT NOT NULL DEFAULT 'DRAFT' CHECK (status IN ('DRAFT', 'ACTIVE', 'ARCHIVED')),
+  remarks TEXT,
+  created_by UUID DEFAULT auth.uid(),
+  activated_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (item_code, version)
+);
+
+CREATE UNIQUE INDEX idx_bom_headers_one_active
+  ON public.bom_headers(item_code)
+  WHERE status = 'ACTIVE';
+
+-- Quantities are per one unit (in the finished item's UOM); scrap is added on top
+CREATE TABLE public.bom_lines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  bom_id UUID NOT NULL REFERENCES public.bom_headers(id) ON DELETE CASCADE,
+  component_item_code TEXT NOT NULL REFERENCES public.item_master(item_code),
+  qty_per_unit NUMERIC NOT NULL CHECK (qty_per_unit > 0),
+  scrap_pct NUMERIC NOT NULL DEFAULT 0 CHECK (scrap_pct >= 0 AND scrap_pct < 100),
+  remarks TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (bom_id, component_item_code)
+);
+
+CREATE INDEX idx_bom_lines_component ON public.bom_lines(component_item_code);
+
+-- Jobs record the BOM version and quantity they were planned with
+ALTER TABLE public.order_punching
+  ADD COLUMN bom_id UUID REFERENCES public.bom_headers(id) ON DELETE SET NULL,
+  ADD COLUMN planned_qty NUMERIC CHECK (planned_qty IS NULL OR planned_qty > 0);
+
+-- Enable RLS
+ALTER TABLE public.bom_headers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bom_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin full access to bom_headers"
+ON public.bom_headers
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can read bom_headers"
+ON public.bom_headers
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admin full access to bom_lines"
+ON public.bom_lines
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can read bom_lines"
+ON public.bom_lines
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE TRIGGER update_bom_headers_updated_at
+  BEFORE UPDATE ON public.bom_headers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_bom_lines_updated_at
+  BEFORE UPDATE ON public.bom_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Active and archived versions are frozen so jobs planned against them stay reproducible
+CREATE OR REPLACE FUNCTION public.prevent_locked_bom_line_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  bom_status TEXT;
+  bom_item_code TEXT;
+BEGIN
+  SELECT status, item_code
+  INTO bom_status, bom_item_code
+  FROM public.bom_headers
+  WHERE id = COALESCE(NEW.bom_id, OLD.bom_id);
+
+  -- Header is being deleted along with its lines
+  IF NOT FOUND THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF bom_status <> 'DRAFT' THEN
+    RAISE EXCEPTION 'BOM lines can only be changed while the BOM is a draft (current status: %)', bom_status;
+  END IF;
+
+  IF TG_OP <> 'DELETE' AND NEW.component_item_code = bom_item_code THEN
+    RAISE EXCEPTION 'Item % cannot be a component of itself', bom_item_code;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER prevent_locked_bom_line_changes_trigger
+  BEFORE INSERT OR UPDATE OR DELETE ON public.bom_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_locked_bom_line_changes();
+
+-- Make a draft the active version, archiving whichever version was active before
+CREATE OR REPLACE FUNCTION public.activate_bom(p_bom_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item_code TEXT;
+  v_status TEXT;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can activate a BOM';
+  END IF;
+
+  SELECT item_code, status
+  INTO v_item_code, v_status
+  FROM public.bom_headers
+  WHERE id = p_bom_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'BOM % does not exist', p_bom_id;
+  END IF;
+
+  IF v_status <> 'DRAFT' THEN
+    RAISE EXCEPTION 'Only draft BOMs can be activated (current status: %)', v_status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.bom_lines WHERE bom_id = p_bom_id) THEN
+    RAISE EXCEPTION 'Cannot activate a BOM without components';
+  END IF;
+
+  UPDATE public.bom_headers
+  SET status = 'ARCHIVED'
+  WHERE item_code = v_item_code AND status = 'ACTIVE';
+
+  UPDATE public.bom_headers
+  SET status = 'ACTIVE', activated_at = now()
+  WHERE id = p_bom_id;
+END;
+$$;
+
+-- Gross material requirement for a planned quantity of a BOM, against current stock
+CREATE OR REPLACE FUNCTION public.calculate_bom_requirements(p_bom_id UUID, p_planned_qty NUMERIC)
+RETURNS TABLE (
+  component_item_code TEXT,
+  item_name TEXT,
+  uom TEXT,
+  qty_per_unit NUMERIC,
+  scrap_pct NUMERIC,
+  required_qty NUMERIC,
+  available_qty NUMERIC,
+  shortage_qty NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    bl.component_item_code,
+    im.item_name,
+    im.uom,
+    bl.qty_per_unit,
+    bl.scrap_pct,
+    ROUND(bl.qty_per_unit * p_planned_qty * (1 + bl.scrap_pct / 100), 4) AS required_qty,
+    COALESCE(ss.current_qty, 0) AS available_qty,
+    GREATEST(ROUND(bl.qty_per_unit * p_planned_qty * (1 + bl.scrap_pct / 100), 4) - COALESCE(ss.current_qty, 0), 0) AS shortage_qty
+  FROM public.bom_lines bl
+  JOIN public.item_master im ON im.item_code = bl.component_item_code
+  LEFT JOIN public.stock_summary ss ON ss.item_code = bl.component_item_code
+  WHERE bl.bom_id = p_bom_id
+  ORDER BY im.item_name;
+$$;
+
+-- Planned (from the job's BOM version and planned quantity) vs actual (issues booked to the UIORN).
+-- Items issued to a job that are not on its BOM appear with a planned quantity of zero.
+CREATE VIEW job_bom_consumption AS
+WITH actuals AS (
+  SELECT il.uiorn, il.item_code, SUM(il.qty_issued) AS actual_qty
+  FROM public.issue_log il
+  WHERE il.uiorn IS NOT NULL
+  GROUP BY il.uiorn, il.item_code
+),
+planned AS (
+  SELECT
+    op.uiorn,
+    bl.component_item_code AS item_code,
+    ROUND(bl.qty_per_unit * op.planned_qty * (1 + bl.scrap_pct / 100), 4) AS planned_qty
+  FROM public.order_punching op
+  JOIN public.bom_lines bl ON bl.bom_id = op.bom_id
+  WHERE op.planned_qty IS NOT NULL
+)
+SELECT
+  COALESCE(p.uiorn, a.uiorn) AS uiorn,
+  COALESCE(p.item_code, a.item_code) AS item_code,
+  im.item_name,
+  im.uom,
+  COALESCE(p.planned_qty, 0) AS planned_qty,
+  COALESCE(a.actual_qty, 0) AS actual_qty,
+  COALESCE(a.actual_qty, 0) - COALESCE(p.planned_qty, 0) AS variance_qty,
+  p.item_code IS NOT NULL AS on_bom
+FROM planned p
+FULL OUTER JOIN actuals a ON a.uiorn = p.uiorn AND a.item_code = p.item_code
+JOIN public.item_master im ON im.item_code = COALESCE(p.item_code, a.item_code)
+WHERE COALESCE(p.uiorn, a.uiorn) IN (
+  SELECT uiorn FROM public.order_punching WHERE bom_id IS NOT NULL
+);
@@ -0,0 +1,296 @@
+-- Material requirements planning
+-- A run projects each item's stock over its vendor lead time plus a planning horizon and proposes
+-- purchase requisitions; buyers review and edit them, then convert them into draft purchase orders.
+
+CREATE TABLE public.mrp_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  horizon_days INTEGER NOT NULL CHECK (horizon_days > 0),
+  default_lead_time_days INTEGER NOT NULL CHECK (default_lead_time_days >= 0),
+  requisition_count INTEGER NOT NULL DEFAULT 0,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- The planning inputs are stored with each proposal so buyers can see why it was raised
+CREATE TABLE public.purchase_requisitions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  run_id UUID NOT NULL REFERENCES public.mrp_runs(id) ON DELETE CASCADE,
+  item_code TEXT NOT NULL REFERENCES public.item_master(item_code) ON DELETE CASCADE,
+  vendor_id UUID REFERENCES public.vendors(id) ON DELETE SET NULL,
+  current_qty NUMERIC NOT NULL DEFAULT 0,
+  open_po_qty NUMERIC NOT NULL DEFAULT 0,
+  job_demand_qty NUMERIC NOT NULL DEFAULT 0,
+  daily_consumption NUMERIC NOT NULL DEFAULT 0,
+  lead_time_days INTEGER NOT NULL DEFAULT 0,
+  forecast_demand_qty NUMERIC NOT NULL DEFAULT 0,
+  projected_qty NUMERIC NOT NULL DEFAULT 0,
+  reorder_level NUMERIC NOT NULL DEFAULT 0,
+  target_qty NUMERIC NOT NULL DEFAULT 0,
+  suggested_qty NUMERIC NOT NULL CHECK (suggested_qty > 0),
+  proposed_qty NUMERIC NOT NULL CHECK (proposed_qty > 0),
+  rate NUMERIC CHECK (rate IS NULL OR rate >= 0),
+  need_by_date DATE NOT NULL,
+  order_by_date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'PROPOSED' CHECK (status IN ('PROPOSED', 'CONVERTED', 'REJECTED', 'SUPERSEDED')),
+  po_line_id UUID REFERENCES public.purchase_order_lines(id) ON DELETE SET NULL,
+  remarks TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_purchase_requisitions_run_id ON public.purchase_requisitions(run_id);
+CREATE INDEX idx_purchase_requisitions_status ON public.purchase_requisitions(status);
+
+-- Enable RLS
+ALTER TABLE public.mrp_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_requisitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin full access to mrp_runs"
+ON public.mrp_runs
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can read mrp_runs"
+ON public.mrp_runs
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admin full access to purchase_requisitions"
+ON public.purchase_requisitions
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can read purchase_requisitions"
+ON public.purchase_requisitions
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE TRIGGER update_purchase_requisitions_updated_at
+  BEFORE UPDATE ON public.purchase_requisitions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Per item, over lead time + horizon:
+--   projected = current + open PO (draft/approved, not yet received) - remaining BOM demand of open jobs
+--               - daily consumption (higher of the 30d/90d rates) x (lead time + horizon)
+-- A requisition is proposed when projected falls below the reorder level (reorder point, else safety stock),
+-- for enough to bring it back up to max level (or the reorder level when no max is set).
+-- The preferred vendor is the active vendor of the item's most recent GRN; its lead time and last rate are used.
+CREATE OR REPLACE FUNCTION public.run_mrp(
+  p_horizon_days INTEGER DEFAULT 30,
+  p_default_lead_time_days INTEGER DEFAULT 7
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run_id UUID;
+  v_count INTEGER;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can run MRP';
+  END IF;
+
+  IF p_horizon_days IS NULL OR p_horizon_days <= 0 THEN
+    RAISE EXCEPTION 'Planning horizon must be at least one day';
+  END IF;
+
+  -- Proposals nobody acted on are replaced by this run
+  UPDATE public.purchase_requisitions
+  SET status = 'SUPERSEDED'
+  WHERE status = 'PROPOSED';
+
+  INSERT INTO public.mrp_runs (horizon_days, default_lead_time_days)
+  VALUES (p_horizon_days, COALESCE(p_default_lead_time_days, 0))
+  RETURNING id INTO v_run_id;
+
+  INSERT INTO public.purchase_requisitions (
+    run_id, item_code, vendor_id, current_qty, open_po_qty, job_demand_qty, daily_consumption,
+    lead_time_days, forecast_demand_qty, projected_qty, reorder_level, target_qty,
+    suggested_qty, proposed_qty, rate, need_by_date, order_by_date
+  )
+  WITH job_demand AS (
+    SELECT item_code, SUM(GREATEST(planned_qty - actual_qty, 0)) AS job_demand_qty
+    FROM public.job_bom_consumption
+    WHERE on_bom
+    GROUP BY item_code
+  ),
+  open_po AS (
+    SELECT item_code, SUM(pending_qty) AS open_po_qty
+    FROM public.purchase_order_line_status
+    WHERE po_status IN ('DRAFT', 'APPROVED')
+    GROUP BY item_code
+  ),
+  preferred_vendor AS (
+    SELECT DISTINCT ON (h.item_code)
+      h.item_code,
+      h.vendor_id,
+      v.lead_time_days,
+      h.last_rate
+    FROM public.vendor_item_purchase_history h
+    JOIN public.vendors v ON v.id = h.vendor_id AND v.status = 'active'
+    ORDER BY h.item_code, h.last_purchase_date DESC NULLS LAST
+  ),
+  inputs AS (
+    SELECT
+      ss.item_code,
+      pv.vendor_id,
+      pv.last_rate,
+      COALESCE(ss.current_qty, 0) AS current_qty,
+      COALESCE(po.open_po_qty, 0) AS open_po_qty,
+      COALESCE(jd.job_demand_qty, 0) AS job_demand_qty,
+      GREATEST(COALESCE(ss.consumption_rate_30d, 0), COALESCE(ss.consumption_rate_90d, 0)) AS daily_consumption,
+      COALESCE(pv.lead_time_days, p_default_lead_time_days, 0) AS lead_time_days,
+      COALESCE(ss.reorder_point, ss.safety_stock, 0) AS reorder_level,
+      ss.max_level
+    FROM public.stock_summary ss
+    LEFT JOIN open_po po ON po.item_code = ss.item_code
+    LEFT JOIN job_demand jd ON jd.item_code = ss.item_code
+    LEFT JOIN preferred_vendor pv ON pv.item_code = ss.item_code
+  ),
+  projection AS (
+    SELECT
+      i.*,
+      ROUND(i.daily_consumption * (i.lead_time_days + p_horizon_days), 3) AS forecast_demand_qty,
+      i.current_qty + i.open_po_qty - i.job_demand_qty AS available_qty,
+      GREATEST(COALESCE(i.max_level, 0), i.reorder_level) AS target_qty
+    FROM inputs i
+  ),
+  proposals AS (
+    SELECT
+      p.*,
+      p.available_qty - p.forecast_demand_qty AS projected_qty,
+      -- The day stock is expected to reach the reorder level at the current consumption rate
+      CASE
+        WHEN p.available_qty <= p.reorder_level OR p.daily_consumption = 0 THEN CURRENT_DATE
+        ELSE CURRENT_DATE + FLOOR((p.available_qty - p.reorder_level) / p.daily_consumption)::INTEGER
+      END AS need_by_date
+    FROM projection p
+  )
+  SELECT
+    v_run_id,
+    item_code,
+    vendor_id,
+    current_qty,
+    open_po_qty,
+    job_demand_qty,
+    daily_consumption,
+    lead_time_days,
+    forecast_demand_qty,
+    projected_qty,
+    reorder_level,
+    target_qty,
+    CEIL(target_qty - projected_qty),
+    CEIL(target_qty - projected_qty),
+    last_rate,
+    need_by_date,
+    need_by_date - lead_time_days
+  FROM proposals
+  WHERE projected_qty < reorder_level;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE public.mrp_runs
+  SET requisition_count = v_count
+  WHERE id = v_run_id;
+
+  RETURN v_run_id;
+END;
+$$;
+
+-- Turn proposed requisitions into draft POs, one per vendor, in a single transaction
+CREATE OR REPLACE FUNCTION public.convert_requisitions_to_pos(p_requisition_ids UUID[])
+RETURNS TABLE (
+  po_id UUID,
+  po_number TEXT,
+  vendor TEXT,
+  line_count INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_vendor RECORD;
+  v_req RECORD;
+  v_po_id UUID;
+  v_po_number TEXT;
+  v_line_id UUID;
+  v_lines INTEGER;
+  v_prefix TEXT := 'MRP-' || to_char(CURRENT_DATE, 'YYYYMMDD') || '-';
+  v_seq INTEGER;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can create purchase orders';
+  END IF;
+
+  IF p_requisition_ids IS NULL OR array_length(p_requisition_ids, 1) IS NULL THEN
+    RAISE EXCEPTION 'Select at least one requisition';
+  END IF;
+
+  PERFORM 1
+  FROM public.purchase_requisitions
+  WHERE id = ANY(p_requisition_ids)
+  FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM public.purchase_requisitions
+    WHERE id = ANY(p_requisition_ids) AND status <> 'PROPOSED'
+  ) THEN
+    RAISE EXCEPTION 'Only proposed requisitions can be converted; refresh and try again';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.purchase_requisitions
+    WHERE id = ANY(p_requisition_ids) AND vendor_id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Assign a vendor to every selected requisition before converting';
+  END IF;
+
+  SELECT COUNT(*) INTO v_seq
+  FROM public.purchase_orders po
+  WHERE po.po_number LIKE v_prefix || '%';
+
+  FOR v_vendor IN
+    SELECT DISTINCT v.id, v.vendor_name
+    FROM public.purchase_requisitions pr
+    JOIN public.vendors v ON v.id = pr.vendor_id
+    WHERE pr.id = ANY(p_requisition_ids)
+    ORDER BY v.vendor_name
+  LOOP
+    v_seq := v_seq + 1;
+    v_po_number := v_prefix || lpad(v_seq::TEXT, 2, '0');
+    v_lines := 0;
+
+    INSERT INTO public.purchase_orders (po_number, vendor, vendor_id, remarks)
+    VALUES (v_po_number, v_vendor.vendor_name, v_vendor.id, 'Raised from MRP proposals')
+    RETURNING id INTO v_po_id;
+
+    FOR v_req IN
+      SELECT pr.id, pr.item_code, pr.proposed_qty, pr.rate, pr.need_by_date, pr.remarks
+      FROM public.purchase_requisitions pr
+      WHERE pr.id = ANY(p_requisition_ids) AND pr.vendor_id = v_vendor.id
+      ORDER BY pr.need_by_date
+    LOOP
+      INSERT INTO public.purchase_order_lines (po_id, item_code, ordered_qty, rate, expected_date, remarks)
+      VALUES (v_po_id, v_req.item_code, v_req.proposed_qty, v_req.rate, v_req.need_by_date, v_req.remarks)
+      RETURNING id INTO v_line_id;
+
+      UPDATE public.purchase_requisitions
+      SET status = 'CONVERTED', po_line_id = v_line_id
+      WHERE id = v_req.id;
+
+      v_lines := v_lines + 1;
+    END LOOP;
+
+    po_id := v_po_id;
+    po_number := v_po_number;
+    vendor := v_vendor.vendor_name;
+    line_count := v_lines;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
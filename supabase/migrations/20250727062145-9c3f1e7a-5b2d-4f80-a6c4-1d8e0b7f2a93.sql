@@ -0,0 +1,220 @@
+-- Storage locations (main store, printing floor, godown, ...)
+-- stock.current_qty stays the company-wide total per item; the per-location split is derived in
+-- location_stock from opening stock (held at the default location), GRNs, issues and transfers.
+
+CREATE TABLE public.storage_locations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  location_code TEXT NOT NULL UNIQUE,
+  location_name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'inactive')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Exactly one default location receives opening stock and untagged transactions
+CREATE UNIQUE INDEX idx_storage_locations_one_default
+  ON public.storage_locations(is_default)
+  WHERE is_default;
+
+ALTER TABLE public.storage_locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin full access to storage_locations"
+ON public.storage_locations
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can read storage_locations"
+ON public.storage_locations
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE TRIGGER update_storage_locations_updated_at
+  BEFORE UPDATE ON public.storage_locations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.storage_locations (location_code, location_name, description, is_default) VALUES
+  ('MAIN', 'Main Store', 'Central raw material store', true),
+  ('FLOOR', 'Printing Floor', 'Material staged at the machines', false),
+  ('GODOWN', 'Godown', 'Bulk storage', false);
+
+CREATE OR REPLACE FUNCTION public.get_default_location_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM public.storage_locations WHERE is_default LIMIT 1;
+$$;
+
+-- GRNs receive into and issues draw from a location; existing entries belong to the default location
+ALTER TABLE public.grn_log
+  ADD COLUMN location_id UUID REFERENCES public.storage_locations(id);
+
+ALTER TABLE public.issue_log
+  ADD COLUMN location_id UUID REFERENCES public.storage_locations(id);
+
+UPDATE public.grn_log SET location_id = public.get_default_location_id();
+UPDATE public.issue_log SET location_id = public.get_default_location_id();
+
+ALTER TABLE public.grn_log
+  ALTER COLUMN location_id SET DEFAULT public.get_default_location_id(),
+  ALTER COLUMN location_id SET NOT NULL;
+
+ALTER TABLE public.issue_log
+  ALTER COLUMN location_id SET DEFAULT public.get_default_location_id(),
+  ALTER COLUMN location_id SET NOT NULL;
+
+CREATE INDEX idx_grn_log_location_id ON public.grn_log(location_id);
+CREATE INDEX idx_issue_log_location_id ON public.issue_log(location_id);
+
+-- Inter-location transfers; they move stock between locations without changing the item total
+CREATE TABLE public.stock_transfers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  transfer_number TEXT NOT NULL UNIQUE,
+  date DATE NOT NULL DEFAULT CURRENT_DATE,
+  item_code TEXT NOT NULL REFERENCES public.item_master(item_code) ON UPDATE CASCADE,
+  from_location_id UUID NOT NULL REFERENCES public.storage_locations(id),
+  to_location_id UUID NOT NULL REFERENCES public.storage_locations(id),
+  qty NUMERIC NOT NULL CHECK (qty > 0),
+  remarks TEXT,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT stock_transfers_distinct_locations CHECK (from_location_id <> to_location_id)
+);
+
+CREATE INDEX idx_stock_transfers_item_code ON public.stock_transfers(item_code);
+
+-- Audit trail for transfer modifications (kept after the transfer itself is deleted)
+CREATE TABLE public.stock_transfer_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transfer_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('UPDATE', 'DELETE')),
+  old_values JSONB,
+  new_values JSONB,
+  user_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE public.stock_transfers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_transfer_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin full access to stock_transfers"
+ON public.stock_transfers
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can read stock_transfers"
+ON public.stock_transfers
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can create stock_transfers"
+ON public.stock_transfers
+FOR INSERT
+WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Admin full access to stock_transfer_audit_log"
+ON public.stock_transfer_audit_log
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_stock_transfers_updated_at
+  BEFORE UPDATE ON public.stock_transfers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Stock per (item, location)
+CREATE VIEW location_stock AS
+WITH movements AS (
+  SELECT s.item_code, public.get_default_location_id() AS location_id, s.opening_qty AS qty
+  FROM public.stock s
+  UNION ALL
+  SELECT g.item_code, g.location_id, g.qty_received
+  FROM public.grn_log g
+  UNION ALL
+  SELECT i.item_code, i.location_id, -i.qty_issued
+  FROM public.issue_log i
+  UNION ALL
+  SELECT t.item_code, t.to_location_id, t.qty
+  FROM public.stock_transfers t
+  UNION ALL
+  SELECT t.item_code, t.from_location_id, -t.qty
+  FROM public.stock_transfers t
+)
+SELECT
+  m.item_code,
+  im.item_name,
+  im.uom,
+  c.category_name,
+  sl.id AS location_id,
+  sl.location_code,
+  sl.location_name,
+  SUM(m.qty) AS current_qty,
+  COALESCE(iv.unit_cost, 0) AS unit_cost,
+  ROUND(SUM(m.qty) * COALESCE(iv.unit_cost, 0), 2) AS stock_value
+FROM movements m
+JOIN public.storage_locations sl ON sl.id = m.location_id
+JOIN public.item_master im ON im.item_code = m.item_code
+LEFT JOIN public.categories c ON c.id = im.category_id
+LEFT JOIN public.item_valuation iv ON iv.item_code = m.item_code
+GROUP BY m.item_code, im.item_name, im.uom, c.category_name, sl.id, sl.location_code, sl.location_name, iv.unit_cost;
+
+-- A transfer cannot move more than the source location holds
+CREATE OR REPLACE FUNCTION public.validate_stock_transfer()
+RETURNS TRIGGER AS $$
+DECLARE
+  available NUMERIC;
+BEGIN
+  SELECT COALESCE(SUM(current_qty), 0)
+  INTO available
+  FROM public.location_stock
+  WHERE item_code = NEW.item_code AND location_id = NEW.from_location_id;
+
+  -- On edit, the transfer's own quantity is still counted against the source
+  IF TG_OP = 'UPDATE' AND OLD.item_code = NEW.item_code AND OLD.from_location_id = NEW.from_location_id THEN
+    available := available + OLD.qty;
+  END IF;
+
+  IF NEW.qty > available THEN
+    RAISE EXCEPTION 'Insufficient stock at source location: % available, % requested', available, NEW.qty;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER validate_stock_transfer_trigger
+  BEFORE INSERT OR UPDATE ON public.stock_transfers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_stock_transfer();
+
+CREATE OR REPLACE FUNCTION public.audit_stock_transfer_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.stock_transfer_audit_log (transfer_id, action, old_values, new_values, user_id)
+  VALUES (
+    OLD.id,
+    TG_OP,
+    to_jsonb(OLD),
+    CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(NEW) END,
+    auth.uid()
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER stock_transfer_update_trigger
+  AFTER UPDATE ON public.stock_transfers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_stock_transfer_change();
+
+CREATE TRIGGER stock_transfer_delete_trigger
+  BEFORE DELETE ON public.stock_transfers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_stock_transfer_change();
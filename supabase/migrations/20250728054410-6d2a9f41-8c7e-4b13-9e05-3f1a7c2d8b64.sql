@@ -0,0 +1,124 @@
+-- Lot / roll tracking
+-- A GRN line with a lot number is one lot (a film roll, an adhesive or ink batch). Issues can draw
+-- on a specific lot so every roll can be traced to the jobs that consumed it.
+
+ALTER TABLE public.grn_log
+  ADD COLUMN lot_number TEXT,
+  ADD COLUMN mfg_date DATE,
+  ADD COLUMN expiry_date DATE,
+  ADD CONSTRAINT grn_log_lot_dates_check CHECK (expiry_date IS NULL OR mfg_date IS NULL OR expiry_date >= mfg_date);
+
+-- A lot or roll number identifies one receipt of an item
+CREATE UNIQUE INDEX idx_grn_log_item_lot
+  ON public.grn_log(item_code, lot_number)
+  WHERE lot_number IS NOT NULL;
+
+ALTER TABLE public.issue_log
+  ADD COLUMN lot_id UUID REFERENCES public.grn_log(id);
+
+CREATE INDEX idx_issue_log_lot_id ON public.issue_log(lot_id);
+
+-- Remaining quantity and shelf life per lot
+CREATE VIEW stock_lots AS
+SELECT
+  g.id AS lot_id,
+  g.lot_number,
+  g.item_code,
+  im.item_name,
+  im.uom,
+  c.category_name,
+  g.grn_number,
+  g.date AS received_date,
+  g.vendor,
+  g.location_id,
+  sl.location_name,
+  g.mfg_date,
+  g.expiry_date,
+  g.qty_received,
+  COALESCE(issued.qty_issued, 0) AS qty_issued,
+  g.qty_received - COALESCE(issued.qty_issued, 0) AS remaining_qty,
+  g.expiry_date - CURRENT_DATE AS days_to_expiry,
+  CASE
+    WHEN g.expiry_date IS NULL THEN 'NO_EXPIRY'
+    WHEN g.expiry_date < CURRENT_DATE THEN 'EXPIRED'
+    WHEN g.expiry_date <= CURRENT_DATE + 30 THEN 'EXPIRING'
+    ELSE 'OK'
+  END AS expiry_status
+FROM public.grn_log g
+JOIN public.item_master im ON im.item_code = g.item_code
+LEFT JOIN public.categories c ON c.id = im.category_id
+LEFT JOIN public.storage_locations sl ON sl.id = g.location_id
+LEFT JOIN (
+  SELECT lot_id, SUM(qty_issued) AS qty_issued
+  FROM public.issue_log
+  WHERE lot_id IS NOT NULL
+  GROUP BY lot_id
+) issued ON issued.lot_id = g.id
+WHERE g.lot_number IS NOT NULL;
+
+-- An issue against a lot must match the lot's item, stay within what is left and not use expired material
+CREATE OR REPLACE FUNCTION public.validate_issue_lot()
+RETURNS TRIGGER AS $$
+DECLARE
+  lot RECORD;
+  already_issued NUMERIC;
+BEGIN
+  IF NEW.lot_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT item_code, lot_number, qty_received, expiry_date
+  INTO lot
+  FROM public.grn_log
+  WHERE id = NEW.lot_id;
+
+  IF lot.item_code IS DISTINCT FROM NEW.item_code THEN
+    RAISE EXCEPTION 'Lot % does not belong to item %', lot.lot_number, NEW.item_code;
+  END IF;
+
+  IF lot.expiry_date < NEW.date THEN
+    RAISE EXCEPTION 'Lot % expired on %', lot.lot_number, lot.expiry_date;
+  END IF;
+
+  SELECT COALESCE(SUM(qty_issued), 0)
+  INTO already_issued
+  FROM public.issue_log
+  WHERE lot_id = NEW.lot_id
+    AND id <> NEW.id;
+
+  IF NEW.qty_issued > lot.qty_received - already_issued THEN
+    RAISE EXCEPTION 'Lot % has only % left', lot.lot_number, lot.qty_received - already_issued;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER validate_issue_lot_trigger
+  BEFORE INSERT OR UPDATE ON public.issue_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_issue_lot();
+
+-- A lot's receipt cannot be cut below what has already been issued from it
+CREATE OR REPLACE FUNCTION public.validate_lot_receipt()
+RETURNS TRIGGER AS $$
+DECLARE
+  issued NUMERIC;
+BEGIN
+  SELECT COALESCE(SUM(qty_issued), 0)
+  INTO issued
+  FROM public.issue_log
+  WHERE lot_id = NEW.id;
+
+  IF issued > 0 AND (NEW.qty_received < issued OR NEW.item_code <> OLD.item_code) THEN
+    RAISE EXCEPTION 'Lot % already has % issued', COALESCE(NEW.lot_number, OLD.lot_number), issued;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER validate_lot_receipt_trigger
+  BEFORE UPDATE ON public.grn_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_lot_receipt();
@@ -0,0 +1,659 @@
+-- Physical stock counts (cycle counts)
+-- A count session freezes the system quantity of every item in scope (a location, a category or both),
+-- counters enter what they find, an admin approves the variances and posting writes one entry per
+-- variance into stock_adjustment_log. Adjustments move stock.current_qty; opening_qty is never touched.
+
+CREATE TABLE public.stock_counts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  count_number TEXT NOT NULL UNIQUE,
+  count_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  location_id UUID REFERENCES public.storage_locations(id),
+  category_id UUID REFERENCES public.categories(id),
+  status TEXT NOT NULL DEFAULT 'COUNTING' CHECK (status IN ('COUNTING', 'SUBMITTED', 'APPROVED', 'POSTED', 'CANCELLED')),
+  remarks TEXT,
+  frozen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_by UUID DEFAULT auth.uid(),
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  approved_by UUID,
+  approved_at TIMESTAMP WITH TIME ZONE,
+  posted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT stock_counts_scope CHECK (location_id IS NOT NULL OR category_id IS NOT NULL)
+);
+
+-- system_qty and unit_cost are frozen when the session is created; counted_qty stays NULL until counted
+CREATE TABLE public.stock_count_lines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  count_id UUID NOT NULL REFERENCES public.stock_counts(id) ON DELETE CASCADE,
+  item_code TEXT NOT NULL REFERENCES public.item_master(item_code) ON UPDATE CASCADE,
+  location_id UUID NOT NULL REFERENCES public.storage_locations(id),
+  system_qty NUMERIC NOT NULL DEFAULT 0,
+  unit_cost NUMERIC NOT NULL DEFAULT 0,
+  counted_qty NUMERIC CHECK (counted_qty IS NULL OR counted_qty >= 0),
+  remarks TEXT,
+  counted_by UUID,
+  counted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (count_id, item_code, location_id)
+);
+
+CREATE INDEX idx_stock_count_lines_count_id ON public.stock_count_lines(count_id);
+
+-- Stock corrections that are neither receipts nor issues; qty is signed
+CREATE TABLE public.stock_adjustment_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  adjustment_number TEXT NOT NULL UNIQUE,
+  date DATE NOT NULL DEFAULT CURRENT_DATE,
+  item_code TEXT NOT NULL REFERENCES public.item_master(item_code) ON UPDATE CASCADE,
+  location_id UUID NOT NULL DEFAULT public.get_default_location_id() REFERENCES public.storage_locations(id),
+  qty NUMERIC NOT NULL CHECK (qty <> 0),
+  reason TEXT NOT NULL DEFAULT 'COUNT_CORRECTION',
+  remarks TEXT,
+  count_id UUID REFERENCES public.stock_counts(id),
+  approved_by UUID,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_stock_adjustment_log_item_code ON public.stock_adjustment_log(item_code);
+CREATE INDEX idx_stock_adjustment_log_count_id ON public.stock_adjustment_log(count_id);
+
+-- Enable RLS
+ALTER TABLE public.stock_counts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_count_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_adjustment_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin full access to stock_counts"
+ON public.stock_counts
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can read stock_counts"
+ON public.stock_counts
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admin full access to stock_count_lines"
+ON public.stock_count_lines
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can read stock_count_lines"
+ON public.stock_count_lines
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+-- Counters can record quantities only while the session is open for counting
+CREATE POLICY "Users can count open stock_count_lines"
+ON public.stock_count_lines
+FOR UPDATE
+USING (
+  auth.role() = 'authenticated'
+  AND EXISTS (
+    SELECT 1 FROM public.stock_counts sc
+    WHERE sc.id = count_id AND sc.status = 'COUNTING'
+  )
+);
+
+CREATE POLICY "Admin full access to stock_adjustment_log"
+ON public.stock_adjustment_log
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can read stock_adjustment_log"
+ON public.stock_adjustment_log
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE TRIGGER update_stock_counts_updated_at
+  BEFORE UPDATE ON public.stock_counts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_stock_count_lines_updated_at
+  BEFORE UPDATE ON public.stock_count_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Update stock on adjustment
+CREATE OR REPLACE FUNCTION public.update_stock_on_adjustment()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.stock (item_code, current_qty, last_updated)
+  VALUES (NEW.item_code, NEW.qty, now())
+  ON CONFLICT (item_code)
+  DO UPDATE SET
+    current_qty = stock.current_qty + NEW.qty,
+    last_updated = now();
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER adjustment_stock_update
+  AFTER INSERT ON public.stock_adjustment_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_stock_on_adjustment();
+
+CREATE TRIGGER recalculate_valuation_on_adjustment
+  AFTER INSERT OR UPDATE OR DELETE ON public.stock_adjustment_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.recalculate_valuation_on_transaction();
+
+-- Open a count session and freeze the system quantity of everything in scope.
+-- Location-only counts list the items that have had stock at the location; category counts list
+-- every active item of the category, so stock found for an item the system shows as zero can be recorded.
+CREATE OR REPLACE FUNCTION public.create_stock_count(
+  p_location_id UUID DEFAULT NULL,
+  p_category_id UUID DEFAULT NULL,
+  p_remarks TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count_id UUID;
+  v_prefix TEXT := 'CNT-' || to_char(CURRENT_DATE, 'YYYYMMDD') || '-';
+  v_seq INTEGER;
+BEGIN
+  IF auth.role() <> 'authenticated' THEN
+    RAISE EXCEPTION 'Sign in to start a stock count';
+  END IF;
+
+  IF p_location_id IS NULL AND p_category_id IS NULL THEN
+    RAISE EXCEPTION 'Choose a location or a category to count';
+  END IF;
+
+  SELECT COUNT(*) INTO v_seq
+  FROM public.stock_counts
+  WHERE count_number LIKE v_prefix || '%';
+
+  INSERT INTO public.stock_counts (count_number, location_id, category_id, remarks)
+  VALUES (v_prefix || lpad((v_seq + 1)::TEXT, 3, '0'), p_location_id, p_category_id, p_remarks)
+  RETURNING id INTO v_count_id;
+
+  INSERT INTO public.stock_count_lines (count_id, item_code, location_id, system_qty, unit_cost)
+  SELECT
+    v_count_id,
+    im.item_code,
+    sl.id,
+    COALESCE(ls.current_qty, 0),
+    COALESCE(iv.unit_cost, 0)
+  FROM public.item_master im
+  CROSS JOIN public.storage_locations sl
+  LEFT JOIN public.location_stock ls ON ls.item_code = im.item_code AND ls.location_id = sl.id
+  LEFT JOIN public.item_valuation iv ON iv.item_code = im.item_code
+  WHERE (p_location_id IS NULL OR sl.id = p_location_id)
+    AND (p_category_id IS NULL OR im.category_id = p_category_id)
+    AND (
+      ls.item_code IS NOT NULL
+      OR (p_category_id IS NOT NULL AND im.status = 'active' AND sl.status = 'active')
+    );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'There is nothing to count in this scope';
+  END IF;
+
+  RETURN v_count_id;
+END;
+$$;
+
+-- Move a session through its workflow. Counters submit; only admins approve, send back or cancel.
+-- Posting goes through post_stock_count.
+CREATE OR REPLACE FUNCTION public.set_stock_count_status(p_count_id UUID, p_status TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  SELECT status INTO v_status
+  FROM public.stock_counts
+  WHERE id = p_count_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock count not found';
+  END IF;
+
+  IF p_status <> 'SUBMITTED' AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can approve, send back or cancel a stock count';
+  END IF;
+
+  IF NOT (
+    (v_status = 'COUNTING' AND p_status IN ('SUBMITTED', 'CANCELLED'))
+    OR (v_status = 'SUBMITTED' AND p_status IN ('COUNTING', 'APPROVED', 'CANCELLED'))
+    OR (v_status = 'APPROVED' AND p_status IN ('COUNTING', 'CANCELLED'))
+  ) THEN
+    RAISE EXCEPTION 'A % stock count cannot be moved to %', lower(v_status), lower(p_status);
+  END IF;
+
+  IF p_status = 'SUBMITTED' AND NOT EXISTS (
+    SELECT 1 FROM public.stock_count_lines
+    WHERE count_id = p_count_id AND counted_qty IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Enter at least one counted quantity before submitting';
+  END IF;
+
+  UPDATE public.stock_counts
+  SET
+    status = p_status,
+    submitted_at = CASE WHEN p_status = 'SUBMITTED' THEN now() ELSE submitted_at END,
+    approved_by = CASE WHEN p_status = 'APPROVED' THEN auth.uid() WHEN p_status = 'COUNTING' THEN NULL ELSE approved_by END,
+    approved_at = CASE WHEN p_status = 'APPROVED' THEN now() WHEN p_status = 'COUNTING' THEN NULL ELSE approved_at END
+  WHERE id = p_count_id;
+END;
+$$;
+
+-- Post an approved count: one adjustment per counted line whose quantity differs from the frozen
+-- system quantity. Uncounted lines are left alone.
+CREATE OR REPLACE FUNCTION public.post_stock_count(p_count_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count RECORD;
+  v_prefix TEXT := 'ADJ-' || to_char(CURRENT_DATE, 'YYYYMMDD') || '-';
+  v_seq INTEGER;
+  v_posted INTEGER;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can post stock count adjustments';
+  END IF;
+
+  SELECT * INTO v_count
+  FROM public.stock_counts
+  WHERE id = p_count_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock count not found';
+  END IF;
+
+  IF v_count.status <> 'APPROVED' THEN
+    RAISE EXCEPTION 'Only approved stock counts can be posted';
+  END IF;
+
+  SELECT COUNT(*) INTO v_seq
+  FROM public.stock_adjustment_log
+  WHERE adjustment_number LIKE v_prefix || '%';
+
+  INSERT INTO public.stock_adjustment_log (
+    adjustment_number, date, item_code, location_id, qty, reason, remarks, count_id, approved_by
+  )
+  SELECT
+    v_prefix || lpad((v_seq + ROW_NUMBER() OVER (ORDER BY l.item_code, l.location_id))::TEXT, 3, '0'),
+    v_count.count_date,
+    l.item_code,
+    l.location_id,
+    l.counted_qty - l.system_qty,
+    'COUNT_CORRECTION',
+    COALESCE(l.remarks, 'Stock count ' || v_count.count_number),
+    v_count.id,
+    v_count.approved_by
+  FROM public.stock_count_lines l
+  WHERE l.count_id = p_count_id
+    AND l.counted_qty IS NOT NULL
+    AND l.counted_qty <> l.system_qty;
+
+  GET DIAGNOSTICS v_posted = ROW_COUNT;
+
+  UPDATE public.stock_counts
+  SET status = 'POSTED', posted_at = now()
+  WHERE id = p_count_id;
+
+  RETURN v_posted;
+END;
+$$;
+
+-- Value adjustments alongside receipts and issues
+CREATE OR REPLACE FUNCTION public.recalculate_item_valuation(p_item_code TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_method TEXT;
+  v_qty NUMERIC := 0;
+  v_value NUMERIC := 0;
+  v_last_rate NUMERIC := 0;
+  v_rate NUMERIC;
+  v_cost NUMERIC;
+  v_remaining NUMERIC;
+  v_take NUMERIC;
+  v_opening_qty NUMERIC;
+  v_opening_cost NUMERIC;
+  layer_qty NUMERIC[] := '{}';
+  layer_rate NUMERIC[] := '{}';
+  txn RECORD;
+BEGIN
+  SELECT COALESCE(c.valuation_method, 'WEIGHTED_AVERAGE')
+  INTO v_method
+  FROM public.item_master im
+  LEFT JOIN public.categories c ON c.id = im.category_id
+  WHERE im.item_code = p_item_code;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT opening_qty, COALESCE(opening_unit_cost, 0)
+  INTO v_opening_qty, v_opening_cost
+  FROM public.stock
+  WHERE item_code = p_item_code;
+
+  IF COALESCE(v_opening_qty, 0) > 0 THEN
+    v_qty := v_opening_qty;
+    v_value := v_opening_qty * v_opening_cost;
+    v_last_rate := v_opening_cost;
+    layer_qty := ARRAY[v_opening_qty];
+    layer_rate := ARRAY[v_opening_cost];
+  END IF;
+
+  FOR txn IN
+    SELECT 'GRN' AS kind, id, date, created_at, qty_received AS qty, amount_inr AS amount
+    FROM public.grn_log
+    WHERE item_code = p_item_code
+    UNION ALL
+    SELECT 'ISSUE' AS kind, id, date, created_at, qty_issued AS qty, NULL AS amount
+    FROM public.issue_log
+    WHERE item_code = p_item_code
+    UNION ALL
+    -- Adjustments come after the day's receipts and issues
+    SELECT 'STOCK_ADJUSTMENT' AS kind, id, date, created_at, qty, NULL AS amount
+    FROM public.stock_adjustment_log
+    WHERE item_code = p_item_code
+    ORDER BY date, kind, created_at
+  LOOP
+    -- Stock found on adjustment comes in at the current rate, like a GRN without an amount;
+    -- stock written off goes out like an issue
+    IF txn.kind = 'GRN' OR (txn.kind = 'STOCK_ADJUSTMENT' AND txn.qty > 0) THEN
+      v_rate := CASE
+        WHEN txn.amount IS NOT NULL AND txn.qty > 0 THEN txn.amount / txn.qty
+        WHEN v_method = 'WEIGHTED_AVERAGE' AND v_qty > 0 THEN v_value / v_qty
+        ELSE v_last_rate
+      END;
+      v_last_rate := v_rate;
+      v_qty := v_qty + txn.qty;
+      v_value := v_value + txn.qty * v_rate;
+      layer_qty := layer_qty || txn.qty;
+      layer_rate := layer_rate || v_rate;
+    ELSE
+      IF txn.kind = 'STOCK_ADJUSTMENT' THEN
+        txn.qty := -txn.qty;
+      END IF;
+      IF v_method = 'FIFO' THEN
+        v_remaining := txn.qty;
+        v_cost := 0;
+        WHILE v_remaining > 0 AND COALESCE(array_length(layer_qty, 1), 0) > 0 LOOP
+          v_take := LEAST(v_remaining, layer_qty[1]);
+          v_cost := v_cost + v_take * layer_rate[1];
+          v_remaining := v_remaining - v_take;
+          IF v_take = layer_qty[1] THEN
+            layer_qty := layer_qty[2:];
+            layer_rate := layer_rate[2:];
+          ELSE
+            layer_qty[1] := layer_qty[1] - v_take;
+          END IF;
+        END LOOP;
+        v_cost := v_cost + v_remaining * v_last_rate;
+      ELSE
+        v_cost := txn.qty * CASE WHEN v_qty > 0 THEN v_value / v_qty ELSE v_last_rate END;
+      END IF;
+
+      v_qty := v_qty - txn.qty;
+      v_value := CASE WHEN v_qty = 0 THEN 0 ELSE v_value - v_cost END;
+
+      IF txn.kind = 'ISSUE' THEN
+        INSERT INTO public.issue_valuation (issue_id, item_code, valuation_method, unit_cost, total_cost, calculated_at)
+        VALUES (
+          txn.id,
+          p_item_code,
+          v_method,
+          ROUND(CASE WHEN txn.qty > 0 THEN v_cost / txn.qty ELSE 0 END, 4),
+          ROUND(v_cost, 2),
+          now()
+        )
+        ON CONFLICT (issue_id) DO UPDATE SET
+          item_code = EXCLUDED.item_code,
+          valuation_method = EXCLUDED.valuation_method,
+          unit_cost = EXCLUDED.unit_cost,
+          total_cost = EXCLUDED.total_cost,
+          calculated_at = EXCLUDED.calculated_at;
+      END IF;
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.item_valuation (item_code, valuation_method, qty, unit_cost, stock_value, calculated_at)
+  VALUES (
+    p_item_code,
+    v_method,
+    v_qty,
+    ROUND(CASE WHEN v_qty > 0 THEN v_value / v_qty ELSE v_last_rate END, 4),
+    ROUND(v_value, 2),
+    now()
+  )
+  ON CONFLICT (item_code) DO UPDATE SET
+    valuation_method = EXCLUDED.valuation_method,
+    qty = EXCLUDED.qty,
+    unit_cost = EXCLUDED.unit_cost,
+    stock_value = EXCLUDED.stock_value,
+    calculated_at = EXCLUDED.calculated_at;
+END;
+$$;
+
+-- Stock per (item, location), now including adjustments
+CREATE OR REPLACE VIEW location_stock AS
+WITH movements AS (
+  SELECT s.item_code, public.get_default_location_id() AS location_id, s.opening_qty AS qty
+  FROM public.stock s
+  UNION ALL
+  SELECT g.item_code, g.location_id, g.qty_received
+  FROM public.grn_log g
+  UNION ALL
+  SELECT i.item_code, i.location_id, -i.qty_issued
+  FROM public.issue_log i
+  UNION ALL
+  SELECT t.item_code, t.to_location_id, t.qty
+  FROM public.stock_transfers t
+  UNION ALL
+  SELECT t.item_code, t.from_location_id, -t.qty
+  FROM public.stock_transfers t
+  UNION ALL
+  SELECT a.item_code, a.location_id, a.qty
+  FROM public.stock_adjustment_log a
+)
+SELECT
+  m.item_code,
+  im.item_name,
+  im.uom,
+  c.category_name,
+  sl.id AS location_id,
+  sl.location_code,
+  sl.location_name,
+  SUM(m.qty) AS current_qty,
+  COALESCE(iv.unit_cost, 0) AS unit_cost,
+  ROUND(SUM(m.qty) * COALESCE(iv.unit_cost, 0), 2) AS stock_value
+FROM movements m
+JOIN public.storage_locations sl ON sl.id = m.location_id
+JOIN public.item_master im ON im.item_code = m.item_code
+LEFT JOIN public.categories c ON c.id = im.category_id
+LEFT JOIN public.item_valuation iv ON iv.item_code = m.item_code
+GROUP BY m.item_code, im.item_name, im.uom, c.category_name, sl.id, sl.location_code, sl.location_name, iv.unit_cost;
+
+-- Adjustments count towards calculated_qty so posted counts don't show as MISMATCH
+CREATE OR REPLACE VIEW stock_summary AS
+SELECT
+  s.item_code,
+  im.item_name,
+  c.category_name,
+  s.opening_qty,
+  COALESCE(grn_totals.total_grn_qty, 0) as total_grn_qty,
+  COALESCE(issue_totals.total_issued_qty, 0) as total_issued_qty,
+  s.current_qty,
+
+  -- Validation field: calculated vs actual stock
+  (s.opening_qty + COALESCE(grn_totals.total_grn_qty, 0) - COALESCE(issue_totals.total_issued_qty, 0) + COALESCE(adjustment_totals.total_adjustment_qty, 0)) as calculated_qty,
+
+  -- Consumption tracking for multiple periods
+  COALESCE(recent_consumption_7d.issue_7d, 0) as issue_7d,
+  COALESCE(recent_consumption_30d.issue_30d, 0) as issue_30d,
+  COALESCE(recent_consumption_90d.issue_90d, 0) as issue_90d,
+
+  CASE
+    WHEN COALESCE(recent_consumption_30d.issue_30d, 0) > 0
+    THEN ROUND(s.current_qty / (recent_consumption_30d.issue_30d / 30.0), 1)
+    WHEN s.current_qty > 0 AND COALESCE(recent_consumption_30d.issue_30d, 0) = 0
+    THEN 999999  -- Infinite days of cover (no recent consumption)
+    ELSE 0  -- No stock
+  END as days_of_cover,
+
+  CASE
+    WHEN COALESCE(recent_consumption_7d.issue_7d, 0) > 0
+    THEN ROUND(s.current_qty / (recent_consumption_7d.issue_7d / 7.0), 1)
+    WHEN s.current_qty > 0 AND COALESCE(recent_consumption_7d.issue_7d, 0) = 0
+    THEN 999999
+    ELSE 0
+  END as days_of_cover_7d,
+
+  CASE
+    WHEN COALESCE(recent_consumption_90d.issue_90d, 0) > 0
+    THEN ROUND(s.current_qty / (recent_consumption_90d.issue_90d / 90.0), 1)
+    WHEN s.current_qty > 0 AND COALESCE(recent_consumption_90d.issue_90d, 0) = 0
+    THEN 999999
+    ELSE 0
+  END as days_of_cover_90d,
+
+  -- Validation and debugging fields
+  CASE
+    WHEN ABS((s.opening_qty + COALESCE(grn_totals.total_grn_qty, 0) - COALESCE(issue_totals.total_issued_qty, 0) + COALESCE(adjustment_totals.total_adjustment_qty, 0)) - s.current_qty) > 0.01
+    THEN 'MISMATCH'
+    ELSE 'OK'
+  END as stock_validation_status,
+
+  -- Daily consumption rates for different periods
+  CASE
+    WHEN COALESCE(recent_consumption_7d.issue_7d, 0) > 0
+    THEN ROUND(recent_consumption_7d.issue_7d / 7.0, 3)
+    ELSE 0
+  END as consumption_rate_7d,
+
+  CASE
+    WHEN COALESCE(recent_consumption_30d.issue_30d, 0) > 0
+    THEN ROUND(recent_consumption_30d.issue_30d / 30.0, 3)
+    ELSE 0
+  END as consumption_rate_30d,
+
+  CASE
+    WHEN COALESCE(recent_consumption_90d.issue_90d, 0) > 0
+    THEN ROUND(recent_consumption_90d.issue_90d / 90.0, 3)
+    ELSE 0
+  END as consumption_rate_90d,
+
+  -- NEW: Effective reorder levels (item value, else category default)
+  levels.min_level,
+  levels.reorder_point,
+  levels.safety_stock,
+  levels.max_level,
+
+  -- NEW: Stock status derived from the effective levels
+  CASE
+    WHEN s.current_qty <= 0
+    THEN 'OUT_OF_STOCK'
+    WHEN levels.min_level IS NULL AND levels.reorder_point IS NULL
+     AND levels.safety_stock IS NULL AND levels.max_level IS NULL
+    THEN 'NOT_CONFIGURED'
+    WHEN s.current_qty <= levels.safety_stock OR s.current_qty < levels.min_level
+    THEN 'CRITICAL'
+    WHEN s.current_qty <= levels.reorder_point
+    THEN 'LOW'
+    WHEN s.current_qty > levels.max_level
+    THEN 'OVERSTOCK'
+    ELSE 'NORMAL'
+  END as stock_status,
+
+  -- Inventory valuation (maintained by recalculate_item_valuation)
+  COALESCE(iv.valuation_method, c.valuation_method, 'WEIGHTED_AVERAGE') as valuation_method,
+  COALESCE(iv.unit_cost, 0) as unit_cost,
+  COALESCE(iv.stock_value, 0) as stock_value,
+
+  -- NEW: Net stock adjustments (count corrections and write-offs)
+  COALESCE(adjustment_totals.total_adjustment_qty, 0) as total_adjustment_qty
+
+FROM stock s
+LEFT JOIN item_master im ON s.item_code = im.item_code
+LEFT JOIN categories c ON im.category_id = c.id
+LEFT JOIN item_valuation iv ON s.item_code = iv.item_code
+
+CROSS JOIN LATERAL (
+  SELECT
+    COALESCE(im.min_level, c.default_min_level) as min_level,
+    COALESCE(im.reorder_point, c.default_reorder_point) as reorder_point,
+    COALESCE(im.safety_stock, c.default_safety_stock) as safety_stock,
+    COALESCE(im.max_level, c.default_max_level) as max_level
+) levels
+
+-- Total GRN quantities (all time)
+LEFT JOIN (
+  SELECT
+    item_code,
+    SUM(qty_received) as total_grn_qty
+  FROM grn_log
+  GROUP BY item_code
+) grn_totals ON s.item_code = grn_totals.item_code
+
+-- Total issue quantities (all time)
+LEFT JOIN (
+  SELECT
+    item_code,
+    SUM(qty_issued) as total_issued_qty
+  FROM issue_log
+  GROUP BY item_code
+) issue_totals ON s.item_code = issue_totals.item_code
+
+-- Net adjustment quantities (all time)
+LEFT JOIN (
+  SELECT
+    item_code,
+    SUM(qty) as total_adjustment_qty
+  FROM stock_adjustment_log
+  GROUP BY item_code
+) adjustment_totals ON s.item_code = adjustment_totals.item_code
+
+-- 7-day consumption analysis
+LEFT JOIN (
+  SELECT
+    item_code,
+    SUM(qty_issued) as issue_7d
+  FROM issue_log
+  WHERE created_at >= CURRENT_DATE - INTERVAL '7 days'
+  GROUP BY item_code
+) recent_consumption_7d ON s.item_code = recent_consumption_7d.item_code
+
+-- 30-day consumption analysis
+LEFT JOIN (
+  SELECT
+    item_code,
+    SUM(qty_issued) as issue_30d
+  FROM issue_log
+  WHERE created_at >= CURRENT_DATE - INTERVAL '30 days'
+  GROUP BY item_code
+) recent_consumption_30d ON s.item_code = recent_consumption_30d.item_code
+
+-- 90-day consumption analysis
+LEFT JOIN (
+  SELECT
+    item_code,
+    SUM(qty_issued) as issue_90d
+  FROM issue_log
+  WHERE created_at >= CURRENT_DATE - INTERVAL '90 days'
+  GROUP BY item_code
+) recent_consumption_90d ON s.item_code = recent_consumption_90d.item_code;
@@ -0,0 +1,611 @@
+-- Stock adjustments as a transaction type of their own (damage, scrap, expiry, samples, write-offs,
+-- stock found and count corrections) instead of issues with a made-up purpose.
+-- Anyone can raise an adjustment; it moves stock only once an admin approves it. Admins' own entries
+-- are approved on entry. Edits and deletions are audited like GRNs and issues.
+
+ALTER TABLE public.stock_adjustment_log
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'APPROVED', 'REJECTED')),
+  ADD COLUMN approved_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+-- Adjustments posted from stock counts so far were approved with their count
+UPDATE public.stock_adjustment_log
+SET status = 'APPROVED', approved_at = created_at;
+
+UPDATE public.stock_adjustment_log
+SET remarks = 'Stock count correction'
+WHERE remarks IS NULL OR btrim(remarks) = '';
+
+ALTER TABLE public.stock_adjustment_log
+  ALTER COLUMN reason DROP DEFAULT,
+  ALTER COLUMN remarks SET NOT NULL,
+  ADD CONSTRAINT stock_adjustment_log_remarks_required CHECK (btrim(remarks) <> ''),
+  ADD CONSTRAINT stock_adjustment_log_reason CHECK (
+    reason IN ('DAMAGE', 'SCRAP', 'EXPIRY', 'SAMPLE', 'WRITE_OFF', 'FOUND', 'COUNT_CORRECTION')
+  ),
+  -- Losses only reduce stock, found stock only adds; count corrections go either way
+  ADD CONSTRAINT stock_adjustment_log_reason_direction CHECK (
+    (reason IN ('DAMAGE', 'SCRAP', 'EXPIRY', 'SAMPLE', 'WRITE_OFF') AND qty < 0)
+    OR (reason = 'FOUND' AND qty > 0)
+    OR reason = 'COUNT_CORRECTION'
+  ),
+  ADD CONSTRAINT stock_adjustment_log_approver_required CHECK (status <> 'APPROVED' OR approved_by IS NOT NULL);
+
+CREATE INDEX idx_stock_adjustment_log_status ON public.stock_adjustment_log(status);
+
+CREATE POLICY "Users can create stock_adjustment_log"
+ON public.stock_adjustment_log
+FOR INSERT
+WITH CHECK (auth.role() = 'authenticated');
+
+CREATE TRIGGER update_stock_adjustment_log_updated_at
+  BEFORE UPDATE ON public.stock_adjustment_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Audit trail for adjustment modifications (kept after the adjustment itself is deleted)
+CREATE TABLE public.stock_adjustment_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  adjustment_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('UPDATE', 'DELETE')),
+  old_values JSONB,
+  new_values JSONB,
+  user_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE public.stock_adjustment_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin full access to stock_adjustment_audit_log"
+ON public.stock_adjustment_audit_log
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Only admins approve or reject. Their own entries are approved on entry; the approver defaults
+-- to the admin acting. Approving a loss cannot take a location below zero.
+CREATE OR REPLACE FUNCTION public.validate_stock_adjustment()
+RETURNS TRIGGER AS $$
+DECLARE
+  is_admin BOOLEAN := has_role(auth.uid(), 'admin'::app_role);
+  available NUMERIC;
+BEGIN
+  IF TG_OP = 'INSERT' AND is_admin AND NEW.status = 'PENDING' THEN
+    NEW.status := 'APPROVED';
+  END IF;
+
+  IF NEW.status <> 'PENDING' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM NEW.status) THEN
+    IF NOT is_admin THEN
+      RAISE EXCEPTION 'Only admins can approve or reject stock adjustments';
+    END IF;
+
+    IF NEW.status = 'APPROVED' THEN
+      NEW.approved_by := COALESCE(NEW.approved_by, auth.uid());
+      NEW.approved_at := now();
+    END IF;
+  END IF;
+
+  IF NEW.status = 'APPROVED' AND NEW.qty < 0 AND NEW.reason <> 'COUNT_CORRECTION' THEN
+    SELECT COALESCE(SUM(current_qty), 0)
+    INTO available
+    FROM public.location_stock
+    WHERE item_code = NEW.item_code AND location_id = NEW.location_id;
+
+    -- On edit, the adjustment's own approved quantity is already counted in the location
+    IF TG_OP = 'UPDATE' AND OLD.status = 'APPROVED'
+       AND OLD.item_code = NEW.item_code AND OLD.location_id = NEW.location_id THEN
+      available := available - OLD.qty;
+    END IF;
+
+    IF available + NEW.qty < 0 THEN
+      RAISE EXCEPTION 'Insufficient stock at location: % available, % to write off', available, -NEW.qty;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER validate_stock_adjustment_trigger
+  BEFORE INSERT OR UPDATE ON public.stock_adjustment_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_stock_adjustment();
+
+-- Only approved adjustments move stock
+CREATE OR REPLACE FUNCTION public.update_stock_on_adjustment()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status <> 'APPROVED' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.stock (item_code, current_qty, last_updated)
+  VALUES (NEW.item_code, NEW.qty, now())
+  ON CONFLICT (item_code)
+  DO UPDATE SET
+    current_qty = stock.current_qty + NEW.qty,
+    last_updated = now();
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to handle adjustment updates (including approval) with stock recalculation
+CREATE OR REPLACE FUNCTION public.update_adjustment_with_stock_adjustment()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Log the change
+  INSERT INTO public.stock_adjustment_audit_log (adjustment_id, action, old_values, new_values, user_id)
+  VALUES (
+    NEW.id,
+    'UPDATE',
+    to_jsonb(OLD),
+    to_jsonb(NEW),
+    auth.uid()
+  );
+
+  -- Reverse the old quantity if it had moved stock
+  IF OLD.status = 'APPROVED' THEN
+    UPDATE public.stock
+    SET
+      current_qty = current_qty - OLD.qty,
+      last_updated = now()
+    WHERE item_code = OLD.item_code;
+  END IF;
+
+  -- Apply the new quantity once approved
+  IF NEW.status = 'APPROVED' THEN
+    INSERT INTO public.stock (item_code, current_qty, last_updated)
+    VALUES (NEW.item_code, NEW.qty, now())
+    ON CONFLICT (item_code)
+    DO UPDATE SET
+      current_qty = stock.current_qty + NEW.qty,
+      last_updated = now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to handle adjustment deletions with stock reversal
+CREATE OR REPLACE FUNCTION public.delete_adjustment_with_stock_reversal()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Log the deletion
+  INSERT INTO public.stock_adjustment_audit_log (adjustment_id, action, old_values, new_values, user_id)
+  VALUES (
+    OLD.id,
+    'DELETE',
+    to_jsonb(OLD),
+    NULL,
+    auth.uid()
+  );
+
+  -- Reverse the adjustment if it had moved stock
+  IF OLD.status = 'APPROVED' THEN
+    UPDATE public.stock
+    SET
+      current_qty = current_qty - OLD.qty,
+      last_updated = now()
+    WHERE item_code = OLD.item_code;
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER adjustment_update_trigger
+  AFTER UPDATE ON public.stock_adjustment_log
+  FOR EACH ROW
+  EXECUTE FUNCTION update_adjustment_with_stock_adjustment();
+
+CREATE TRIGGER adjustment_delete_trigger
+  BEFORE DELETE ON public.stock_adjustment_log
+  FOR EACH ROW
+  EXECUTE FUNCTION delete_adjustment_with_stock_reversal();
+
+-- Count corrections are approved with their count
+CREATE OR REPLACE FUNCTION public.post_stock_count(p_count_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count RECORD;
+  v_prefix TEXT := 'ADJ-' || to_char(CURRENT_DATE, 'YYYYMMDD') || '-';
+  v_seq INTEGER;
+  v_posted INTEGER;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can post stock count adjustments';
+  END IF;
+
+  SELECT * INTO v_count
+  FROM public.stock_counts
+  WHERE id = p_count_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock count not found';
+  END IF;
+
+  IF v_count.status <> 'APPROVED' THEN
+    RAISE EXCEPTION 'Only approved stock counts can be posted';
+  END IF;
+
+  SELECT COUNT(*) INTO v_seq
+  FROM public.stock_adjustment_log
+  WHERE adjustment_number LIKE v_prefix || '%';
+
+  INSERT INTO public.stock_adjustment_log (
+    adjustment_number, date, item_code, location_id, qty, reason, remarks, count_id, status, approved_by
+  )
+  SELECT
+    v_prefix || lpad((v_seq + ROW_NUMBER() OVER (ORDER BY l.item_code, l.location_id))::TEXT, 3, '0'),
+    v_count.count_date,
+    l.item_code,
+    l.location_id,
+    l.counted_qty - l.system_qty,
+    'COUNT_CORRECTION',
+    COALESCE(NULLIF(btrim(l.remarks), ''), 'Stock count ' || v_count.count_number),
+    v_count.id,
+    'APPROVED',
+    v_count.approved_by
+  FROM public.stock_count_lines l
+  WHERE l.count_id = p_count_id
+    AND l.counted_qty IS NOT NULL
+    AND l.counted_qty <> l.system_qty;
+
+  GET DIAGNOSTICS v_posted = ROW_COUNT;
+
+  UPDATE public.stock_counts
+  SET status = 'POSTED', posted_at = now()
+  WHERE id = p_count_id;
+
+  RETURN v_posted;
+END;
+$$;
+
+-- Pending and rejected adjustments are left out of valuation and stock views
+CREATE OR REPLACE FUNCTION public.recalculate_item_valuation(p_item_code TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_method TEXT;
+  v_qty NUMERIC := 0;
+  v_value NUMERIC := 0;
+  v_last_rate NUMERIC := 0;
+  v_rate NUMERIC;
+  v_cost NUMERIC;
+  v_remaining NUMERIC;
+  v_take NUMERIC;
+  v_opening_qty NUMERIC;
+  v_opening_cost NUMERIC;
+  layer_qty NUMERIC[] := '{}';
+  layer_rate NUMERIC[] := '{}';
+  txn RECORD;
+BEGIN
+  SELECT COALESCE(c.valuation_method, 'WEIGHTED_AVERAGE')
+  INTO v_method
+  FROM public.item_master im
+  LEFT JOIN public.categories c ON c.id = im.category_id
+  WHERE im.item_code = p_item_code;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT opening_qty, COALESCE(opening_unit_cost, 0)
+  INTO v_opening_qty, v_opening_cost
+  FROM public.stock
+  WHERE item_code = p_item_code;
+
+  IF COALESCE(v_opening_qty, 0) > 0 THEN
+    v_qty := v_opening_qty;
+    v_value := v_opening_qty * v_opening_cost;
+    v_last_rate := v_opening_cost;
+    layer_qty := ARRAY[v_opening_qty];
+    layer_rate := ARRAY[v_opening_cost];
+  END IF;
+
+  FOR txn IN
+    SELECT 'GRN' AS kind, id, date, created_at, qty_received AS qty, amount_inr AS amount
+    FROM public.grn_log
+    WHERE item_code = p_item_code
+    UNION ALL
+    SELECT 'ISSUE' AS kind, id, date, created_at, qty_issued AS qty, NULL AS amount
+    FROM public.issue_log
+    WHERE item_code = p_item_code
+    UNION ALL
+    -- Adjustments come after the day's receipts and issues
+    SELECT 'STOCK_ADJUSTMENT' AS kind, id, date, created_at, qty, NULL AS amount
+    FROM public.stock_adjustment_log
+    WHERE item_code = p_item_code AND status = 'APPROVED'
+    ORDER BY date, kind, created_at
+  LOOP
+    -- Stock found on adjustment comes in at the current rate, like a GRN without an amount;
+    -- stock written off goes out like an issue
+    IF txn.kind = 'GRN' OR (txn.kind = 'STOCK_ADJUSTMENT' AND txn.qty > 0) THEN
+      v_rate := CASE
+        WHEN txn.amount IS NOT NULL AND txn.qty > 0 THEN txn.amount / txn.qty
+        WHEN v_method = 'WEIGHTED_AVERAGE' AND v_qty > 0 THEN v_value / v_qty
+        ELSE v_last_rate
+      END;
+      v_last_rate := v_rate;
+      v_qty := v_qty + txn.qty;
+      v_value := v_value + txn.qty * v_rate;
+      layer_qty := layer_qty || txn.qty;
+      layer_rate := layer_rate || v_rate;
+    ELSE
+      IF txn.kind = 'STOCK_ADJUSTMENT' THEN
+        txn.qty := -txn.qty;
+      END IF;
+      IF v_method = 'FIFO' THEN
+        v_remaining := txn.qty;
+        v_cost := 0;
+        WHILE v_remaining > 0 AND COALESCE(array_length(layer_qty, 1), 0) > 0 LOOP
+          v_take := LEAST(v_remaining, layer_qty[1]);
+          v_cost := v_cost + v_take * layer_rate[1];
+          v_remaining := v_remaining - v_take;
+          IF v_take = layer_qty[1] THEN
+            layer_qty := layer_qty[2:];
+            layer_rate := layer_rate[2:];
+          ELSE
+            layer_qty[1] := layer_qty[1] - v_take;
+          END IF;
+        END LOOP;
+        v_cost := v_cost + v_remaining * v_last_rate;
+      ELSE
+        v_cost := txn.qty * CASE WHEN v_qty > 0 THEN v_value / v_qty ELSE v_last_rate END;
+      END IF;
+
+      v_qty := v_qty - txn.qty;
+      v_value := CASE WHEN v_qty = 0 THEN 0 ELSE v_value - v_cost END;
+
+      IF txn.kind = 'ISSUE' THEN
+        INSERT INTO public.issue_valuation (issue_id, item_code, valuation_method, unit_cost, total_cost, calculated_at)
+        VALUES (
+          txn.id,
+          p_item_code,
+          v_method,
+          ROUND(CASE WHEN txn.qty > 0 THEN v_cost / txn.qty ELSE 0 END, 4),
+          ROUND(v_cost, 2),
+          now()
+        )
+        ON CONFLICT (issue_id) DO UPDATE SET
+          item_code = EXCLUDED.item_code,
+          valuation_method = EXCLUDED.valuation_method,
+          unit_cost = EXCLUDED.unit_cost,
+          total_cost = EXCLUDED.total_cost,
+          calculated_at = EXCLUDED.calculated_at;
+      END IF;
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.item_valuation (item_code, valuation_method, qty, unit_cost, stock_value, calculated_at)
+  VALUES (
+    p_item_code,
+    v_method,
+    v_qty,
+    ROUND(CASE WHEN v_qty > 0 THEN v_value / v_qty ELSE v_last_rate END, 4),
+    ROUND(v_value, 2),
+    now()
+  )
+  ON CONFLICT (item_code) DO UPDATE SET
+    valuation_method = EXCLUDED.valuation_method,
+    qty = EXCLUDED.qty,
+    unit_cost = EXCLUDED.unit_cost,
+    stock_value = EXCLUDED.stock_value,
+    calculated_at = EXCLUDED.calculated_at;
+END;
+$$;
+
+CREATE OR REPLACE VIEW location_stock AS
+WITH movements AS (
+  SELECT s.item_code, public.get_default_location_id() AS location_id, s.opening_qty AS qty
+  FROM public.stock s
+  UNION ALL
+  SELECT g.item_code, g.location_id, g.qty_received
+  FROM public.grn_log g
+  UNION ALL
+  SELECT i.item_code, i.location_id, -i.qty_issued
+  FROM public.issue_log i
+  UNION ALL
+  SELECT t.item_code, t.to_location_id, t.qty
+  FROM public.stock_transfers t
+  UNION ALL
+  SELECT t.item_code, t.from_location_id, -t.qty
+  FROM public.stock_transfers t
+  UNION ALL
+  SELECT a.item_code, a.location_id, a.qty
+  FROM public.stock_adjustment_log a
+  WHERE a.status = 'APPROVED'
+)
+SELECT
+  m.item_code,
+  im.item_name,
+  im.uom,
+  c.category_name,
+  sl.id AS location_id,
+  sl.location_code,
+  sl.location_name,
+  SUM(m.qty) AS current_qty,
+  COALESCE(iv.unit_cost, 0) AS unit_cost,
+  ROUND(SUM(m.qty) * COALESCE(iv.unit_cost, 0), 2) AS stock_value
+FROM movements m
+JOIN public.storage_locations sl ON sl.id = m.location_id
+JOIN public.item_master im ON im.item_code = m.item_code
+LEFT JOIN public.categories c ON c.id = im.category_id
+LEFT JOIN public.item_valuation iv ON iv.item_code = m.item_code
+GROUP BY m.item_code, im.item_name, im.uom, c.category_name, sl.id, sl.location_code, sl.location_name, iv.unit_cost;
+
+CREATE OR REPLACE VIEW stock_summary AS
+SELECT
+  s.item_code,
+  im.item_name,
+  c.category_name,
+  s.opening_qty,
+  COALESCE(grn_totals.total_grn_qty, 0) as total_grn_qty,
+  COALESCE(issue_totals.total_issued_qty, 0) as total_issued_qty,
+  s.current_qty,
+
+  -- Validation field: calculated vs actual stock
+  (s.opening_qty + COALESCE(grn_totals.total_grn_qty, 0) - COALESCE(issue_totals.total_issued_qty, 0) + COALESCE(adjustment_totals.total_adjustment_qty, 0)) as calculated_qty,
+
+  -- Consumption tracking for multiple periods
+  COALESCE(recent_consumption_7d.issue_7d, 0) as issue_7d,
+  COALESCE(recent_consumption_30d.issue_30d, 0) as issue_30d,
+  COALESCE(recent_consumption_90d.issue_90d, 0) as issue_90d,
+
+  CASE
+    WHEN COALESCE(recent_consumption_30d.issue_30d, 0) > 0
+    THEN ROUND(s.current_qty / (recent_consumption_30d.issue_30d / 30.0), 1)
+    WHEN s.current_qty > 0 AND COALESCE(recent_consumption_30d.issue_30d, 0) = 0
+    THEN 999999  -- Infinite days of cover (no recent consumption)
+    ELSE 0  -- No stock
+  END as days_of_cover,
+
+  CASE
+    WHEN COALESCE(recent_consumption_7d.issue_7d, 0) > 0
+    THEN ROUND(s.current_qty / (recent_consumption_7d.issue_7d / 7.0), 1)
+    WHEN s.current_qty > 0 AND COALESCE(recent_consumption_7d.issue_7d, 0) = 0
+    THEN 999999
+    ELSE 0
+  END as days_of_cover_7d,
+
+  CASE
+    WHEN COALESCE(recent_consumption_90d.issue_90d, 0) > 0
+    THEN ROUND(s.current_qty / (recent_consumption_90d.issue_90d / 90.0), 1)
+    WHEN s.current_qty > 0 AND COALESCE(recent_consumption_90d.issue_90d, 0) = 0
+    THEN 999999
+    ELSE 0
+  END as days_of_cover_90d,
+
+  -- Validation and debugging fields
+  CASE
+    WHEN ABS((s.opening_qty + COALESCE(grn_totals.total_grn_qty, 0) - COALESCE(issue_totals.total_issued_qty, 0) + COALESCE(adjustment_totals.total_adjustment_qty, 0)) - s.current_qty) > 0.01
+    THEN 'MISMATCH'
+    ELSE 'OK'
+  END as stock_validation_status,
+
+  -- Daily consumption rates for different periods
+  CASE
+    WHEN COALESCE(recent_consumption_7d.issue_7d, 0) > 0
+    THEN ROUND(recent_consumption_7d.issue_7d / 7.0, 3)
+    ELSE 0
+  END as consumption_rate_7d,
+
+  CASE
+    WHEN COALESCE(recent_consumption_30d.issue_30d, 0) > 0
+    THEN ROUND(recent_consumption_30d.issue_30d / 30.0, 3)
+    ELSE 0
+  END as consumption_rate_30d,
+
+  CASE
+    WHEN COALESCE(recent_consumption_90d.issue_90d, 0) > 0
+    THEN ROUND(recent_consumption_90d.issue_90d / 90.0, 3)
+    ELSE 0
+  END as consumption_rate_90d,
+
+  -- NEW: Effective reorder levels (item value, else category default)
+  levels.min_level,
+  levels.reorder_point,
+  levels.safety_stock,
+  levels.max_level,
+
+  -- NEW: Stock status derived from the effective levels
+  CASE
+    WHEN s.current_qty <= 0
+    THEN 'OUT_OF_STOCK'
+    WHEN levels.min_level IS NULL AND levels.reorder_point IS NULL
+     AND levels.safety_stock IS NULL AND levels.max_level IS NULL
+    THEN 'NOT_CONFIGURED'
+    WHEN s.current_qty <= levels.safety_stock OR s.current_qty < levels.min_level
+    THEN 'CRITICAL'
+    WHEN s.current_qty <= levels.reorder_point
+    THEN 'LOW'
+    WHEN s.current_qty > levels.max_level
+    THEN 'OVERSTOCK'
+    ELSE 'NORMAL'
+  END as stock_status,
+
+  -- Inventory valuation (maintained by recalculate_item_valuation)
+  COALESCE(iv.valuation_method, c.valuation_method, 'WEIGHTED_AVERAGE') as valuation_method,
+  COALESCE(iv.unit_cost, 0) as unit_cost,
+  COALESCE(iv.stock_value, 0) as stock_value,
+
+  -- NEW: Net stock adjustments (count corrections and write-offs)
+  COALESCE(adjustment_totals.total_adjustment_qty, 0) as total_adjustment_qty
+
+FROM stock s
+LEFT JOIN item_master im ON s.item_code = im.item_code
+LEFT JOIN categories c ON im.category_id = c.id
+LEFT JOIN item_valuation iv ON s.item_code = iv.item_code
+
+CROSS JOIN LATERAL (
+  SELECT
+    COALESCE(im.min_level, c.default_min_level) as min_level,
+    COALESCE(im.reorder_point, c.default_reorder_point) as reorder_point,
+    COALESCE(im.safety_stock, c.default_safety_stock) as safety_stock,
+    COALESCE(im.max_level, c.default_max_level) as max_level
+) levels
+
+-- Total GRN quantities (all time)
+LEFT JOIN (
+  SELECT
+    item_code,
+    SUM(qty_received) as total_grn_qty
+  FROM grn_log
+  GROUP BY item_code
+) grn_totals ON s.item_code = grn_totals.item_code
+
+-- Total issue quantities (all time)
+LEFT JOIN (
+  SELECT
+    item_code,
+    SUM(qty_issued) as total_issued_qty
+  FROM issue_log
+  GROUP BY item_code
+) issue_totals ON s.item_code = issue_totals.item_code
+
+-- Net adjustment quantities (all time)
+LEFT JOIN (
+  SELECT
+    item_code,
+    SUM(qty) as total_adjustment_qty
+  FROM stock_adjustment_log
+  WHERE status = 'APPROVED'
+  GROUP BY item_code
+) adjustment_totals ON s.item_code = adjustment_totals.item_code
+
+-- 7-day consumption analysis
+LEFT JOIN (
+  SELECT
+    item_code,
+    SUM(qty_issued) as issue_7d
+  FROM issue_log
+  WHERE created_at >= CURRENT_DATE - INTERVAL '7 days'
+  GROUP BY item_code
+) recent_consumption_7d ON s.item_code = recent_consumption_7d.item_code
+
+-- 30-day consumption analysis
+LEFT JOIN (
+  SELECT
+    item_code,
+    SUM(qty_issued) as issue_30d
+  FROM issue_log
+  WHERE created_at >= CURRENT_DATE - INTERVAL '30 days'
+  GROUP BY item_code
+) recent_consumption_30d ON s.item_code = recent_consumption_30d.item_code
+
+-- 90-day consumption analysis
+LEFT JOIN (
+  SELECT
+    item_code,
+    SUM(qty_issued) as issue_90d
+  FROM issue_log
+  WHERE created_at >= CURRENT_DATE - INTERVAL '90 days'
+  GROUP BY item_code
+) recent_consumption_90d ON s.item_code = recent_consumption_90d.item_code;
@@ -0,0 +1,181 @@
+-- Stock reconciliation: stock_summary flags MISMATCH when current_qty drifts from what the
+-- transactions add up to. A nightly run records every mismatched item (and which ones are new since
+-- the last run); admins review the drift and approve a correction that rewrites current_qty to the
+-- calculated quantity. Every correction is kept in stock_reconciliation_log.
+
+CREATE TABLE public.stock_reconciliation_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  trigger_type TEXT NOT NULL DEFAULT 'MANUAL' CHECK (trigger_type IN ('SCHEDULED', 'MANUAL')),
+  mismatch_count INTEGER NOT NULL DEFAULT 0,
+  new_mismatch_count INTEGER NOT NULL DEFAULT 0,
+  resolved_count INTEGER NOT NULL DEFAULT 0,
+  -- [{ item_code, item_name, current_qty, calculated_qty, difference, is_new, first_detected_at, last_ok_at }]
+  mismatches JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_stock_reconciliation_runs_run_at ON public.stock_reconciliation_runs(run_at);
+
+ALTER TABLE public.stock_reconciliation_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin full access to stock_reconciliation_runs"
+ON public.stock_reconciliation_runs
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TABLE public.stock_reconciliation_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  item_code TEXT NOT NULL,
+  previous_qty NUMERIC NOT NULL,
+  corrected_qty NUMERIC NOT NULL,
+  remarks TEXT NOT NULL CHECK (btrim(remarks) <> ''),
+  approved_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_stock_reconciliation_log_item_code ON public.stock_reconciliation_log(item_code);
+
+ALTER TABLE public.stock_reconciliation_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin full access to stock_reconciliation_log"
+ON public.stock_reconciliation_log
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Records the current mismatches. Items already mismatched in the previous run keep their first
+-- detection time and last known good run, so the drift can be traced to what happened after it.
+CREATE OR REPLACE FUNCTION public.detect_stock_mismatches(p_trigger TEXT DEFAULT 'MANUAL')
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_previous_at TIMESTAMP WITH TIME ZONE;
+  v_previous_mismatches JSONB := '[]'::jsonb;
+  v_mismatches JSONB;
+  v_mismatch_count INTEGER;
+  v_new_count INTEGER;
+  v_resolved_count INTEGER;
+  v_run_id UUID;
+BEGIN
+  -- pg_cron runs without a JWT and the edge function uses the service role
+  IF COALESCE(auth.role(), 'service_role') <> 'service_role' AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can run stock reconciliation';
+  END IF;
+
+  SELECT run_at, mismatches INTO v_previous_at, v_previous_mismatches
+  FROM public.stock_reconciliation_runs
+  ORDER BY run_at DESC
+  LIMIT 1;
+
+  v_previous_mismatches := COALESCE(v_previous_mismatches, '[]'::jsonb);
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'item_code', s.item_code,
+    'item_name', s.item_name,
+    'current_qty', s.current_qty,
+    'calculated_qty', s.calculated_qty,
+    'difference', s.current_qty - s.calculated_qty,
+    'is_new', previous.item IS NULL,
+    'first_detected_at', COALESCE((previous.item->>'first_detected_at')::TIMESTAMP WITH TIME ZONE, now()),
+    'last_ok_at', CASE
+      WHEN previous.item IS NULL THEN v_previous_at
+      ELSE (previous.item->>'last_ok_at')::TIMESTAMP WITH TIME ZONE
+    END
+  ) ORDER BY s.item_code), '[]'::jsonb)
+  INTO v_mismatches
+  FROM public.stock_summary s
+  LEFT JOIN LATERAL (
+    SELECT m AS item
+    FROM jsonb_array_elements(v_previous_mismatches) m
+    WHERE m->>'item_code' = s.item_code
+  ) previous ON true
+  WHERE s.stock_validation_status = 'MISMATCH';
+
+  v_mismatch_count := jsonb_array_length(v_mismatches);
+
+  SELECT COUNT(*) INTO v_new_count
+  FROM jsonb_array_elements(v_mismatches) m
+  WHERE (m->>'is_new')::BOOLEAN;
+
+  SELECT COUNT(*) INTO v_resolved_count
+  FROM jsonb_array_elements(v_previous_mismatches) p
+  WHERE NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_mismatches) m WHERE m->>'item_code' = p->>'item_code'
+  );
+
+  INSERT INTO public.stock_reconciliation_runs (
+    trigger_type, mismatch_count, new_mismatch_count, resolved_count, mismatches, created_by
+  ) VALUES (
+    p_trigger, v_mismatch_count, v_new_count, v_resolved_count, v_mismatches, auth.uid()
+  )
+  RETURNING id INTO v_run_id;
+
+  RETURN jsonb_build_object(
+    'run_id', v_run_id,
+    'mismatch_count', v_mismatch_count,
+    'new_mismatch_count', v_new_count,
+    'resolved_count', v_resolved_count
+  );
+END;
+$$;
+
+-- Approving a correction sets current_qty to what opening stock, GRNs, issues and approved
+-- adjustments add up to, recomputed here under a row lock rather than trusted from the client
+CREATE OR REPLACE FUNCTION public.apply_stock_reconciliation(p_item_code TEXT, p_remarks TEXT)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current NUMERIC;
+  v_calculated NUMERIC;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can correct stock';
+  END IF;
+
+  IF p_remarks IS NULL OR btrim(p_remarks) = '' THEN
+    RAISE EXCEPTION 'A reason is required for a stock correction';
+  END IF;
+
+  SELECT current_qty INTO v_current
+  FROM public.stock
+  WHERE item_code = p_item_code
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No stock record for item %', p_item_code;
+  END IF;
+
+  SELECT calculated_qty INTO v_calculated
+  FROM public.stock_summary
+  WHERE item_code = p_item_code;
+
+  IF ABS(v_calculated - v_current) <= 0.01 THEN
+    RAISE EXCEPTION 'Stock for % already matches its transactions', p_item_code;
+  END IF;
+
+  INSERT INTO public.stock_reconciliation_log (item_code, previous_qty, corrected_qty, remarks, approved_by)
+  VALUES (p_item_code, v_current, v_calculated, btrim(p_remarks), auth.uid());
+
+  UPDATE public.stock
+  SET current_qty = v_calculated, last_updated = now()
+  WHERE item_code = p_item_code;
+
+  RETURN v_calculated;
+END;
+$$;
+
+-- Nightly mismatch report, after the 2 AM stock snapshot
+SELECT cron.schedule(
+    'nightly-stock-reconciliation',
+    '15 2 * * *', -- Every day at 2:15 AM
+    $$
+    SELECT public.detect_stock_mismatches('SCHEDULED');
+    $$
+);
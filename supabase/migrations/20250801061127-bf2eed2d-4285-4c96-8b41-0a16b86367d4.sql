@@ -0,0 +1,196 @@
+-- Issues are posted through RPCs that lock the item's stock row before checking availability, so two
+-- storekeepers issuing the same item at once are serialized instead of both passing a browser-side
+-- check and driving stock negative. Negative stock can be allowed through a system setting.
+
+CREATE TABLE public.system_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  key TEXT NOT NULL UNIQUE,
+  value JSONB NOT NULL,
+  updated_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.system_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin full access to system_settings"
+ON public.system_settings
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can read system_settings"
+ON public.system_settings
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE TRIGGER update_system_settings_updated_at
+  BEFORE UPDATE ON public.system_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.system_settings (key, value) VALUES ('allow_negative_stock', 'false'::jsonb);
+
+-- Locks the item's stock row and checks the item and location can cover the quantity.
+-- p_returned_qty is what an edited issue gives back at p_returned_location_id before taking the new quantity.
+CREATE OR REPLACE FUNCTION public.lock_stock_for_issue(
+  p_item_code TEXT,
+  p_location_id UUID,
+  p_qty NUMERIC,
+  p_returned_qty NUMERIC DEFAULT 0,
+  p_returned_location_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current NUMERIC;
+  v_at_location NUMERIC;
+  v_location_name TEXT;
+  v_allow_negative BOOLEAN;
+BEGIN
+  SELECT current_qty INTO v_current
+  FROM public.stock
+  WHERE item_code = p_item_code
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No stock record for item %', p_item_code;
+  END IF;
+
+  SELECT COALESCE((value #>> '{}')::BOOLEAN, false) INTO v_allow_negative
+  FROM public.system_settings
+  WHERE key = 'allow_negative_stock';
+
+  IF COALESCE(v_allow_negative, false) THEN
+    RETURN;
+  END IF;
+
+  IF v_current + p_returned_qty < p_qty THEN
+    RAISE EXCEPTION 'Insufficient stock for %: available %, requested %', p_item_code, v_current + p_returned_qty, p_qty;
+  END IF;
+
+  SELECT COALESCE(SUM(current_qty), 0) INTO v_at_location
+  FROM public.location_stock
+  WHERE item_code = p_item_code
+    AND location_id = p_location_id;
+
+  IF p_returned_location_id = p_location_id THEN
+    v_at_location := v_at_location + p_returned_qty;
+  END IF;
+
+  IF v_at_location < p_qty THEN
+    SELECT location_name INTO v_location_name FROM public.storage_locations WHERE id = p_location_id;
+    RAISE EXCEPTION 'Insufficient stock at %: available %, requested %', COALESCE(v_location_name, 'the selected location'), v_at_location, p_qty;
+  END IF;
+END;
+$$;
+
+-- Posts an issue and returns the item's new balance. Lot allocations ([{ lot_id, qty }]) become one
+-- issue entry each; whatever they do not cover is issued without a lot.
+CREATE OR REPLACE FUNCTION public.post_issue(
+  p_item_code TEXT,
+  p_date DATE,
+  p_qty NUMERIC,
+  p_location_id UUID,
+  p_purpose TEXT DEFAULT NULL,
+  p_remarks TEXT DEFAULT NULL,
+  p_uiorn TEXT DEFAULT NULL,
+  p_production_stage TEXT DEFAULT NULL,
+  p_lot_allocations JSONB DEFAULT '[]'::jsonb
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_allocated NUMERIC;
+  v_balance NUMERIC;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can post issues';
+  END IF;
+
+  IF p_qty IS NULL OR p_qty <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than 0';
+  END IF;
+
+  SELECT COALESCE(SUM((a->>'qty')::NUMERIC), 0) INTO v_allocated
+  FROM jsonb_array_elements(COALESCE(p_lot_allocations, '[]'::jsonb)) a;
+
+  IF v_allocated > p_qty THEN
+    RAISE EXCEPTION 'Lot allocations (%) exceed the issue quantity (%)', v_allocated, p_qty;
+  END IF;
+
+  PERFORM public.lock_stock_for_issue(p_item_code, p_location_id, p_qty);
+
+  INSERT INTO public.issue_log (date, item_code, qty_issued, purpose, remarks, uiorn, production_stage, location_id, lot_id)
+  SELECT p_date, p_item_code, (a->>'qty')::NUMERIC, p_purpose, p_remarks, p_uiorn, p_production_stage, p_location_id, (a->>'lot_id')::UUID
+  FROM jsonb_array_elements(COALESCE(p_lot_allocations, '[]'::jsonb)) a
+  WHERE (a->>'qty')::NUMERIC > 0;
+
+  IF p_qty > v_allocated THEN
+    INSERT INTO public.issue_log (date, item_code, qty_issued, purpose, remarks, uiorn, production_stage, location_id)
+    VALUES (p_date, p_item_code, p_qty - v_allocated, p_purpose, p_remarks, p_uiorn, p_production_stage, p_location_id);
+  END IF;
+
+  SELECT current_qty INTO v_balance FROM public.stock WHERE item_code = p_item_code;
+  RETURN v_balance;
+END;
+$$;
+
+-- Edits an issue under the same lock; the entry's original quantity counts as available again
+CREATE OR REPLACE FUNCTION public.update_issue(
+  p_issue_id UUID,
+  p_date DATE,
+  p_qty NUMERIC,
+  p_location_id UUID,
+  p_purpose TEXT DEFAULT NULL,
+  p_remarks TEXT DEFAULT NULL,
+  p_uiorn TEXT DEFAULT NULL,
+  p_production_stage TEXT DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_issue RECORD;
+  v_balance NUMERIC;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can edit issues';
+  END IF;
+
+  IF p_qty IS NULL OR p_qty <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than 0';
+  END IF;
+
+  SELECT item_code, qty_issued, location_id INTO v_issue
+  FROM public.issue_log
+  WHERE id = p_issue_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Issue entry not found';
+  END IF;
+
+  PERFORM public.lock_stock_for_issue(v_issue.item_code, p_location_id, p_qty, v_issue.qty_issued, v_issue.location_id);
+
+  UPDATE public.issue_log
+  SET
+    date = p_date,
+    qty_issued = p_qty,
+    location_id = p_location_id,
+    purpose = p_purpose,
+    remarks = p_remarks,
+    uiorn = p_uiorn,
+    production_stage = p_production_stage
+  WHERE id = p_issue_id;
+
+  SELECT current_qty INTO v_balance FROM public.stock WHERE item_code = v_issue.item_code;
+  RETURN v_balance;
+END;
+$$;
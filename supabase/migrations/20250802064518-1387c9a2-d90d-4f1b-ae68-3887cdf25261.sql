@@ -0,0 +1,252 @@
+-- CSV imports run through one RPC: a dry run validates every row on the server and reports per-row
+-- results without saving anything, and a commit applies the whole file in one transaction or nothing.
+-- Imported GRN and issue rows keep the id of their upload log entry so a batch can be traced and undone.
+
+ALTER TABLE public.csv_upload_log
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'COMMITTED',
+  ADD CONSTRAINT csv_upload_log_status_check CHECK (status IN ('COMMITTED', 'FAILED'));
+
+ALTER TABLE public.grn_log
+  ADD COLUMN import_batch_id UUID REFERENCES public.csv_upload_log(id) ON DELETE SET NULL;
+
+ALTER TABLE public.issue_log
+  ADD COLUMN import_batch_id UUID REFERENCES public.csv_upload_log(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_grn_log_import_batch_id ON public.grn_log(import_batch_id);
+CREATE INDEX idx_issue_log_import_batch_id ON public.issue_log(import_batch_id);
+
+-- Rows are the parsed CSV rows with references already resolved by the browser (location_id, po_line_id,
+-- vendor_id, lot_id) and the CSV line number in "row". Item master rows carry "action" = 'update' with
+-- the existing item_code when the user chose to update a conflicting item.
+CREATE OR REPLACE FUNCTION public.import_csv_rows(
+  p_file_type TEXT,
+  p_file_name TEXT,
+  p_rows JSONB,
+  p_dry_run BOOLEAN DEFAULT true
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row JSONB;
+  v_row_number INTEGER;
+  v_total INTEGER;
+  v_batch_id UUID;
+  v_results JSONB := '[]'::jsonb;
+  v_errors JSONB := '[]'::jsonb;
+  v_error_count INTEGER := 0;
+  v_item_code TEXT;
+  v_lot_number TEXT;
+  v_category_id UUID;
+  v_category_name TEXT;
+  v_new_category TEXT;
+  v_created_categories TEXT[] := '{}';
+  v_code_result JSONB;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can import CSV files';
+  END IF;
+
+  IF p_file_type NOT IN ('grn', 'issue', 'item_master') THEN
+    RAISE EXCEPTION 'Unsupported import type: %', p_file_type;
+  END IF;
+
+  v_total := jsonb_array_length(COALESCE(p_rows, '[]'::jsonb));
+  IF v_total = 0 THEN
+    RAISE EXCEPTION 'The file has no rows to import';
+  END IF;
+
+  BEGIN
+    INSERT INTO public.csv_upload_log (user_id, file_name, file_type, total_rows, success_rows, error_rows)
+    VALUES (auth.uid(), p_file_name, p_file_type, v_total, v_total, 0)
+    RETURNING id INTO v_batch_id;
+
+    FOR v_row IN SELECT * FROM jsonb_array_elements(p_rows)
+    LOOP
+      v_row_number := (v_row->>'row')::INTEGER;
+      v_item_code := NULLIF(btrim(v_row->>'item_code'), '');
+      v_new_category := NULL;
+
+      -- Each row runs in its own savepoint so one bad row is reported without hiding the others
+      BEGIN
+        IF p_file_type = 'grn' THEN
+          v_lot_number := NULLIF(btrim(v_row->>'lot_number'), '');
+
+          IF EXISTS (
+            SELECT 1 FROM public.grn_log
+            WHERE grn_number = btrim(v_row->>'grn_number')
+              AND item_code = v_item_code
+              AND COALESCE(lot_number, '') = COALESCE(v_lot_number, '')
+          ) THEN
+            RAISE EXCEPTION 'GRN % with item % already exists', btrim(v_row->>'grn_number'), v_item_code;
+          END IF;
+
+          IF v_lot_number IS NOT NULL AND EXISTS (
+            SELECT 1 FROM public.grn_log WHERE item_code = v_item_code AND lot_number = v_lot_number
+          ) THEN
+            RAISE EXCEPTION 'Lot % of item % has already been received', v_lot_number, v_item_code;
+          END IF;
+
+          INSERT INTO public.grn_log (
+            grn_number, date, item_code, qty_received, uom, invoice_number, amount_inr, vendor, vendor_id,
+            po_line_id, remarks, location_id, lot_number, mfg_date, expiry_date, import_batch_id
+          )
+          VALUES (
+            btrim(v_row->>'grn_number'),
+            (v_row->>'date')::DATE,
+            v_item_code,
+            (v_row->>'qty_received')::NUMERIC,
+            v_row->>'uom',
+            NULLIF(btrim(v_row->>'invoice_number'), ''),
+            NULLIF(btrim(v_row->>'amount_inr'), '')::NUMERIC,
+            NULLIF(btrim(v_row->>'vendor'), ''),
+            NULLIF(v_row->>'vendor_id', '')::UUID,
+            NULLIF(v_row->>'po_line_id', '')::UUID,
+            NULLIF(btrim(v_row->>'remarks'), ''),
+            COALESCE(NULLIF(v_row->>'location_id', '')::UUID, public.get_default_location_id()),
+            v_lot_number,
+            NULLIF(btrim(v_row->>'mfg_date'), '')::DATE,
+            NULLIF(btrim(v_row->>'expiry_date'), '')::DATE,
+            v_batch_id
+          );
+
+        ELSIF p_file_type = 'issue' THEN
+          -- Earlier rows of the file are already applied inside this transaction, so they count against stock
+          PERFORM public.lock_stock_for_issue(
+            v_item_code,
+            COALESCE(NULLIF(v_row->>'location_id', '')::UUID, public.get_default_location_id()),
+            (v_row->>'qty_issued')::NUMERIC
+          );
+
+          INSERT INTO public.issue_log (
+            date, item_code, qty_issued, purpose, remarks, uiorn, production_stage, location_id, lot_id, import_batch_id
+          )
+          VALUES (
+            (v_row->>'date')::DATE,
+            v_item_code,
+            (v_row->>'qty_issued')::NUMERIC,
+            NULLIF(btrim(v_row->>'purpose'), ''),
+            NULLIF(btrim(v_row->>'remarks'), ''),
+            NULLIF(btrim(v_row->>'uiorn'), ''),
+            NULLIF(btrim(v_row->>'production_stage'), ''),
+            COALESCE(NULLIF(v_row->>'location_id', '')::UUID, public.get_default_location_id()),
+            NULLIF(v_row->>'lot_id', '')::UUID,
+            v_batch_id
+          );
+
+        ELSE
+          SELECT id, category_name INTO v_category_id, v_category_name
+          FROM public.categories
+          WHERE lower(category_name) = lower(btrim(v_row->>'category_name'))
+          LIMIT 1;
+
+          IF NOT FOUND THEN
+            INSERT INTO public.categories (category_name, description)
+            VALUES (btrim(v_row->>'category_name'), 'Auto-created from CSV upload')
+            RETURNING id, category_name INTO v_category_id, v_category_name;
+            v_new_category := v_category_name;
+          END IF;
+
+          IF v_row->>'action' = 'error' THEN
+            RAISE EXCEPTION 'Item % already exists', v_item_code;
+          ELSIF v_row->>'action' = 'update' THEN
+            UPDATE public.item_master
+            SET
+              item_name = v_row->>'item_name',
+              category_id = v_category_id,
+              qualifier = NULLIF(btrim(v_row->>'qualifier'), ''),
+              gsm = (v_row->>'gsm')::NUMERIC,
+              size_mm = NULLIF(btrim(v_row->>'size_mm'), ''),
+              uom = v_row->>'uom',
+              usage_type = NULLIF(btrim(v_row->>'usage_type'), ''),
+              status = COALESCE(NULLIF(btrim(v_row->>'status'), ''), 'active'),
+              min_level = COALESCE((v_row->>'min_level')::NUMERIC, min_level),
+              reorder_point = COALESCE((v_row->>'reorder_point')::NUMERIC, reorder_point),
+              safety_stock = COALESCE((v_row->>'safety_stock')::NUMERIC, safety_stock),
+              max_level = COALESCE((v_row->>'max_level')::NUMERIC, max_level),
+              updated_at = now()
+            WHERE item_code = v_item_code;
+
+            IF NOT FOUND THEN
+              RAISE EXCEPTION 'Item % to update was not found', v_item_code;
+            END IF;
+          ELSE
+            v_code_result := public.generate_item_code_with_validation(
+              v_category_name,
+              COALESCE(v_row->>'qualifier', ''),
+              COALESCE(v_row->>'size_mm', ''),
+              (v_row->>'gsm')::NUMERIC
+            );
+
+            IF NOT COALESCE((v_code_result->>'success')::BOOLEAN, false) THEN
+              RAISE EXCEPTION 'Item code generation failed: %', v_code_result->'validation'->'errors';
+            END IF;
+
+            v_item_code := v_code_result->>'item_code';
+
+            INSERT INTO public.item_master (
+              item_code, item_name, category_id, qualifier, gsm, size_mm, uom, usage_type, status,
+              min_level, reorder_point, safety_stock, max_level, auto_code
+            )
+            VALUES (
+              v_item_code,
+              v_row->>'item_name',
+              v_category_id,
+              NULLIF(btrim(v_row->>'qualifier'), ''),
+              (v_row->>'gsm')::NUMERIC,
+              NULLIF(btrim(v_row->>'size_mm'), ''),
+              v_row->>'uom',
+              NULLIF(btrim(v_row->>'usage_type'), ''),
+              COALESCE(NULLIF(btrim(v_row->>'status'), ''), 'active'),
+              (v_row->>'min_level')::NUMERIC,
+              (v_row->>'reorder_point')::NUMERIC,
+              (v_row->>'safety_stock')::NUMERIC,
+              (v_row->>'max_level')::NUMERIC,
+              v_item_code
+            );
+
+            INSERT INTO public.stock (item_code, opening_qty, current_qty)
+            VALUES (v_item_code, 0, 0)
+            ON CONFLICT (item_code) DO NOTHING;
+          END IF;
+
+          IF v_new_category IS NOT NULL THEN
+            v_created_categories := array_append(v_created_categories, v_new_category);
+          END IF;
+        END IF;
+
+        v_results := v_results || jsonb_build_object('row', v_row_number, 'status', 'OK', 'item_code', v_item_code, 'message', NULL);
+      EXCEPTION WHEN OTHERS THEN
+        v_error_count := v_error_count + 1;
+        v_results := v_results || jsonb_build_object('row', v_row_number, 'status', 'ERROR', 'item_code', v_item_code, 'message', SQLERRM);
+        v_errors := v_errors || jsonb_build_object('row', v_row_number, 'message', SQLERRM);
+      END;
+    END LOOP;
+
+    -- Undo everything, including the log entry, unless this is a commit in which every row succeeded
+    IF p_dry_run OR v_error_count > 0 THEN
+      RAISE EXCEPTION USING ERRCODE = 'IM001';
+    END IF;
+  EXCEPTION WHEN SQLSTATE 'IM001' THEN
+    v_batch_id := NULL;
+  END;
+
+  -- A rejected commit is still logged so it shows up in the upload history
+  IF NOT p_dry_run AND v_error_count > 0 THEN
+    INSERT INTO public.csv_upload_log (user_id, file_name, file_type, total_rows, success_rows, error_rows, errors, status)
+    VALUES (auth.uid(), p_file_name, p_file_type, v_total, 0, v_error_count, v_errors, 'FAILED');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'batch_id', v_batch_id,
+    'dry_run', p_dry_run,
+    'committed', v_batch_id IS NOT NULL,
+    'total_rows', v_total,
+    'error_rows', v_error_count,
+    'results', v_results,
+    'created_categories', to_jsonb(v_created_categories)
+  );
+END;
+$$;
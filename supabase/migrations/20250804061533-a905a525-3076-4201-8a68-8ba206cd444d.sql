@@ -0,0 +1,36 @@
+-- Saved column mappings for CSV/Excel imports. A profile maps the columns of a vendor or Tally
+-- export onto an uploader's template fields and is picked up again for files with the same headers.
+CREATE TABLE public.import_mapping_profiles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  profile_name TEXT NOT NULL,
+  template_type TEXT NOT NULL,
+  header_signature TEXT NOT NULL,
+  source_headers TEXT[] NOT NULL,
+  column_map JSONB NOT NULL DEFAULT '{}'::jsonb,
+  date_format TEXT NOT NULL DEFAULT 'YYYY-MM-DD',
+  decimal_separator TEXT NOT NULL DEFAULT '.',
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT import_mapping_profiles_name_key UNIQUE (template_type, profile_name),
+  CONSTRAINT import_mapping_profiles_decimal_separator_check CHECK (decimal_separator IN ('.', ','))
+);
+
+CREATE INDEX idx_import_mapping_profiles_signature ON public.import_mapping_profiles(template_type, header_signature);
+
+ALTER TABLE public.import_mapping_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin full access to import_mapping_profiles"
+ON public.import_mapping_profiles
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can read import_mapping_profiles"
+ON public.import_mapping_profiles
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE TRIGGER update_import_mapping_profiles_updated_at
+  BEFORE UPDATE ON public.import_mapping_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,142 @@
+-- Tally XML export of GRNs (purchase vouchers) and issues (stock journals)
+
+-- Names the accountant's Tally company uses for our items and vendors
+CREATE TABLE public.tally_name_mappings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  mapping_type TEXT NOT NULL,
+  source_key TEXT NOT NULL,
+  tally_name TEXT NOT NULL,
+  updated_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT tally_name_mappings_type_check CHECK (mapping_type IN ('stock_item', 'party_ledger')),
+  CONSTRAINT tally_name_mappings_source_key UNIQUE (mapping_type, source_key)
+);
+
+ALTER TABLE public.tally_name_mappings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin full access to tally_name_mappings"
+ON public.tally_name_mappings
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can read tally_name_mappings"
+ON public.tally_name_mappings
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE TRIGGER update_tally_name_mappings_updated_at
+  BEFORE UPDATE ON public.tally_name_mappings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One downloaded XML file
+CREATE TABLE public.tally_exports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  voucher_type TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  from_date DATE,
+  to_date DATE,
+  voucher_count INTEGER NOT NULL DEFAULT 0,
+  entry_count INTEGER NOT NULL DEFAULT 0,
+  exported_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT tally_exports_voucher_type_check CHECK (voucher_type IN ('purchase', 'stock_journal'))
+);
+
+ALTER TABLE public.tally_exports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin full access to tally_exports"
+ON public.tally_exports
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can read tally_exports"
+ON public.tally_exports
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+-- Exported marker per GRN/issue row. Kept beside grn_log and issue_log rather than as a column on
+-- them so marking rows does not fire their update triggers (stock adjustment, audit, revaluation).
+-- The unique keys stop a row going to Tally twice; deleting an export releases its rows.
+CREATE TABLE public.tally_export_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  export_id UUID NOT NULL REFERENCES public.tally_exports(id) ON DELETE CASCADE,
+  grn_id UUID REFERENCES public.grn_log(id) ON DELETE CASCADE,
+  issue_id UUID REFERENCES public.issue_log(id) ON DELETE CASCADE,
+  CONSTRAINT tally_export_entries_grn_id_key UNIQUE (grn_id),
+  CONSTRAINT tally_export_entries_issue_id_key UNIQUE (issue_id),
+  CONSTRAINT tally_export_entries_source_check CHECK ((grn_id IS NULL) <> (issue_id IS NULL))
+);
+
+CREATE INDEX idx_tally_export_entries_export_id ON public.tally_export_entries(export_id);
+
+ALTER TABLE public.tally_export_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin full access to tally_export_entries"
+ON public.tally_export_entries
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can read tally_export_entries"
+ON public.tally_export_entries
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+-- Ledger and godown names used when building vouchers
+INSERT INTO public.system_settings (key, value) VALUES (
+  'tally_export',
+  '{"company_name": "", "purchase_ledger": "Purchase Accounts", "godown": "Main Location"}'::jsonb
+);
+
+-- Records an export and marks its rows in one go; fails if any row was exported in the meantime
+CREATE OR REPLACE FUNCTION public.record_tally_export(
+  p_voucher_type TEXT,
+  p_file_name TEXT,
+  p_from_date DATE,
+  p_to_date DATE,
+  p_voucher_count INTEGER,
+  p_grn_ids UUID[] DEFAULT '{}',
+  p_issue_ids UUID[] DEFAULT '{}'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_export_id UUID;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can export to Tally';
+  END IF;
+
+  IF COALESCE(array_length(p_grn_ids, 1), 0) + COALESCE(array_length(p_issue_ids, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'Nothing to export';
+  END IF;
+
+  INSERT INTO public.tally_exports (voucher_type, file_name, from_date, to_date, voucher_count, entry_count, exported_by)
+  VALUES (
+    p_voucher_type,
+    p_file_name,
+    p_from_date,
+    p_to_date,
+    p_voucher_count,
+    COALESCE(array_length(p_grn_ids, 1), 0) + COALESCE(array_length(p_issue_ids, 1), 0),
+    auth.uid()
+  )
+  RETURNING id INTO v_export_id;
+
+  BEGIN
+    INSERT INTO public.tally_export_entries (export_id, grn_id)
+    SELECT v_export_id, unnest(p_grn_ids);
+
+    INSERT INTO public.tally_export_entries (export_id, issue_id)
+    SELECT v_export_id, unnest(p_issue_ids);
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'Some of these entries have already been exported to Tally; refresh and try again';
+  END;
+
+  RETURN v_export_id;
+END;
+$$;
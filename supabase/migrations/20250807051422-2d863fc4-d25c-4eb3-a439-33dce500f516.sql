@@ -0,0 +1,1701 @@
+-- Configurable roles with per-module permissions.
+-- Admins (user_roles 'admin') keep full access; everyone else gets what their assigned role allows.
+
+CREATE TABLE public.roles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  role_key TEXT NOT NULL UNIQUE,
+  role_name TEXT NOT NULL,
+  description TEXT,
+  -- Seeded roles can be re-permissioned but not deleted
+  is_system BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.roles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin full access to roles"
+ON public.roles
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can read roles"
+ON public.roles
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE TRIGGER update_roles_updated_at
+  BEFORE UPDATE ON public.roles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One row per role and module; a missing row means no access to that module
+CREATE TABLE public.role_permissions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  role_id UUID NOT NULL REFERENCES public.roles(id) ON DELETE CASCADE,
+  module TEXT NOT NULL,
+  can_view BOOLEAN NOT NULL DEFAULT false,
+  can_create BOOLEAN NOT NULL DEFAULT false,
+  can_edit BOOLEAN NOT NULL DEFAULT false,
+  can_delete BOOLEAN NOT NULL DEFAULT false,
+  can_approve BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT role_permissions_module_check CHECK (
+    module IN ('items', 'grn', 'issues', 'inventory', 'purchasing', 'production', 'reports', 'imports')
+  ),
+  CONSTRAINT role_permissions_role_module UNIQUE (role_id, module)
+);
+
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin full access to role_permissions"
+ON public.role_permissions
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can read role_permissions"
+ON public.role_permissions
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE TRIGGER update_role_permissions_updated_at
+  BEFORE UPDATE ON public.role_permissions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Each user works under one role. Roles still in use cannot be deleted.
+CREATE TABLE public.user_role_assignments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  role_id UUID NOT NULL REFERENCES public.roles(id) ON DELETE RESTRICT,
+  assigned_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_role_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin full access to user_role_assignments"
+ON public.user_role_assignments
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can view their own role assignment"
+ON public.user_role_assignments
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_user_role_assignments_updated_at
+  BEFORE UPDATE ON public.user_role_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.has_permission(_user_id UUID, _module TEXT, _action TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_role(_user_id, 'admin'::app_role) OR EXISTS (
+    SELECT 1
+    FROM public.user_role_assignments a
+    JOIN public.role_permissions p ON p.role_id = a.role_id
+    WHERE a.user_id = _user_id
+      AND p.module = _module
+      AND CASE _action
+        WHEN 'view' THEN p.can_view
+        WHEN 'create' THEN p.can_create
+        WHEN 'edit' THEN p.can_edit
+        WHEN 'delete' THEN p.can_delete
+        WHEN 'approve' THEN p.can_approve
+        ELSE false
+      END
+  )
+$$;
+
+INSERT INTO public.roles (role_key, role_name, description, is_system) VALUES
+  ('viewer', 'Viewer', 'Read-only access to day-to-day modules; given to new users', true),
+  ('storekeeper', 'Storekeeper', 'Receives and issues stock, runs transfers and counts', true),
+  ('buyer', 'Buyer', 'Manages vendors, purchase orders and material planning', true),
+  ('production', 'Production', 'Works on production jobs and bills of materials', true),
+  ('auditor', 'Auditor', 'Read-only access to every module, including imports and exports', true);
+
+INSERT INTO public.role_permissions (role_id, module, can_view, can_create, can_edit, can_delete, can_approve)
+SELECT r.id, p.module, p.can_view, p.can_create, p.can_edit, p.can_delete, p.can_approve
+FROM (VALUES
+  ('viewer', 'items', true, false, false, false, false),
+  ('viewer', 'grn', true, false, false, false, false),
+  ('viewer', 'issues', true, false, false, false, false),
+  ('viewer', 'inventory', true, false, false, false, false),
+  ('viewer', 'purchasing', true, false, false, false, false),
+  ('viewer', 'production', true, false, false, false, false),
+  ('viewer', 'reports', true, false, false, false, false),
+  ('storekeeper', 'items', true, false, false, false, false),
+  ('storekeeper', 'grn', true, true, true, false, false),
+  ('storekeeper', 'issues', true, true, true, false, false),
+  ('storekeeper', 'inventory', true, true, true, false, false),
+  ('storekeeper', 'purchasing', true, false, false, false, false),
+  ('storekeeper', 'reports', true, false, false, false, false),
+  ('buyer', 'items', true, false, false, false, false),
+  ('buyer', 'grn', true, false, false, false, false),
+  ('buyer', 'inventory', true, false, false, false, false),
+  ('buyer', 'purchasing', true, true, true, true, true),
+  ('buyer', 'reports', true, false, false, false, false),
+  ('production', 'items', true, false, false, false, false),
+  ('production', 'issues', true, false, false, false, false),
+  ('production', 'production', true, true, true, false, false),
+  ('auditor', 'items', true, false, false, false, false),
+  ('auditor', 'grn', true, false, false, false, false),
+  ('auditor', 'issues', true, false, false, false, false),
+  ('auditor', 'inventory', true, false, false, false, false),
+  ('auditor', 'purchasing', true, false, false, false, false),
+  ('auditor', 'production', true, false, false, false, false),
+  ('auditor', 'reports', true, false, false, false, false),
+  ('auditor', 'imports', true, false, false, false, false)
+) AS p(role_key, module, can_view, can_create, can_edit, can_delete, can_approve)
+JOIN public.roles r ON r.role_key = p.role_key;
+
+-- Existing users keep the read-only access they had
+INSERT INTO public.user_role_assignments (user_id, role_id)
+SELECT DISTINCT ur.user_id, r.id
+FROM public.user_roles ur
+CROSS JOIN public.roles r
+WHERE r.role_key = 'viewer'
+ON CONFLICT (user_id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Insert default role for new users
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (NEW.id, 'user');
+
+  INSERT INTO public.user_role_assignments (user_id, role_id)
+  SELECT NEW.id, id FROM public.roles WHERE role_key = 'viewer';
+
+  -- Check if the email is admin email
+  IF NEW.email = 'info@dkenterprises.co.in' THEN
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.id, 'admin')
+    ON CONFLICT (user_id, role) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Admin flag and role for one user, changed together
+CREATE OR REPLACE FUNCTION public.set_user_access(p_user_id UUID, p_role_id UUID, p_is_admin BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can change user access';
+  END IF;
+
+  IF p_user_id = auth.uid() AND NOT p_is_admin THEN
+    RAISE EXCEPTION 'You cannot remove your own admin access';
+  END IF;
+
+  IF p_is_admin THEN
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (p_user_id, 'admin')
+    ON CONFLICT (user_id, role) DO NOTHING;
+  ELSE
+    DELETE FROM public.user_roles
+    WHERE user_id = p_user_id AND role = 'admin';
+  END IF;
+
+  IF p_role_id IS NULL THEN
+    DELETE FROM public.user_role_assignments WHERE user_id = p_user_id;
+  ELSE
+    INSERT INTO public.user_role_assignments (user_id, role_id, assigned_by)
+    VALUES (p_user_id, p_role_id, auth.uid())
+    ON CONFLICT (user_id) DO UPDATE
+    SET role_id = EXCLUDED.role_id,
+        assigned_by = EXCLUDED.assigned_by;
+  END IF;
+END;
+$$;
+
+-- GRNs and issues are now posted by non-admin users too; their stock triggers must write to stock
+-- with the owner's rights like the other stock triggers already do
+ALTER FUNCTION public.update_stock_on_grn() SECURITY DEFINER SET search_path = public;
+ALTER FUNCTION public.update_stock_on_issue() SECURITY DEFINER SET search_path = public;
+
+-- Module permissions on top of the existing admin policies. Reference data (items, categories,
+-- vendors, stock, locations) stays readable by every signed-in user since other modules look it up.
+
+-- item_master
+CREATE POLICY "Permitted users can create item_master"
+ON public.item_master
+FOR INSERT
+WITH CHECK (has_permission(auth.uid(), 'items', 'create'));
+
+CREATE POLICY "Permitted users can update item_master"
+ON public.item_master
+FOR UPDATE
+USING (has_permission(auth.uid(), 'items', 'edit'));
+
+CREATE POLICY "Permitted users can delete item_master"
+ON public.item_master
+FOR DELETE
+USING (has_permission(auth.uid(), 'items', 'delete'));
+
+-- categories
+CREATE POLICY "Permitted users can create categories"
+ON public.categories
+FOR INSERT
+WITH CHECK (has_permission(auth.uid(), 'items', 'create'));
+
+CREATE POLICY "Permitted users can update categories"
+ON public.categories
+FOR UPDATE
+USING (has_permission(auth.uid(), 'items', 'edit'));
+
+CREATE POLICY "Permitted users can delete categories"
+ON public.categories
+FOR DELETE
+USING (has_permission(auth.uid(), 'items', 'delete'));
+
+-- grn_log
+DROP POLICY IF EXISTS "Users can read grn_log" ON public.grn_log;
+
+CREATE POLICY "Permitted users can read grn_log"
+ON public.grn_log
+FOR SELECT
+USING (has_permission(auth.uid(), 'grn', 'view'));
+
+CREATE POLICY "Permitted users can create grn_log"
+ON public.grn_log
+FOR INSERT
+WITH CHECK (has_permission(auth.uid(), 'grn', 'create'));
+
+CREATE POLICY "Permitted users can update grn_log"
+ON public.grn_log
+FOR UPDATE
+USING (has_permission(auth.uid(), 'grn', 'edit'));
+
+CREATE POLICY "Permitted users can delete grn_log"
+ON public.grn_log
+FOR DELETE
+USING (has_permission(auth.uid(), 'grn', 'delete'));
+
+-- grn_audit_log
+CREATE POLICY "Permitted users can read grn_audit_log"
+ON public.grn_audit_log
+FOR SELECT
+USING (has_permission(auth.uid(), 'grn', 'view'));
+
+-- issue_log
+DROP POLICY IF EXISTS "Users can read issue_log" ON public.issue_log;
+
+CREATE POLICY "Permitted users can read issue_log"
+ON public.issue_log
+FOR SELECT
+USING (has_permission(auth.uid(), 'issues', 'view'));
+
+CREATE POLICY "Permitted users can create issue_log"
+ON public.issue_log
+FOR INSERT
+WITH CHECK (has_permission(auth.uid(), 'issues', 'create'));
+
+CREATE POLICY "Permitted users can update issue_log"
+ON public.issue_log
+FOR UPDATE
+USING (has_permission(auth.uid(), 'issues', 'edit'));
+
+CREATE POLICY "Permitted users can delete issue_log"
+ON public.issue_log
+FOR DELETE
+USING (has_permission(auth.uid(), 'issues', 'delete'));
+
+-- issue_audit_log
+CREATE POLICY "Permitted users can read issue_audit_log"
+ON public.issue_audit_log
+FOR SELECT
+USING (has_permission(auth.uid(), 'issues', 'view'));
+
+-- stock_transfers
+DROP POLICY IF EXISTS "Users can read stock_transfers" ON public.stock_transfers;
+
+CREATE POLICY "Permitted users can read stock_transfers"
+ON public.stock_transfers
+FOR SELECT
+USING (has_permission(auth.uid(), 'inventory', 'view'));
+
+CREATE POLICY "Permitted users can create stock_transfers"
+ON public.stock_transfers
+FOR INSERT
+WITH CHECK (has_permission(auth.uid(), 'inventory', 'create'));
+
+CREATE POLICY "Permitted users can update stock_transfers"
+ON public.stock_transfers
+FOR UPDATE
+USING (has_permission(auth.uid(), 'inventory', 'edit'));
+
+CREATE POLICY "Permitted users can delete stock_transfers"
+ON public.stock_transfers
+FOR DELETE
+USING (has_permission(auth.uid(), 'inventory', 'delete'));
+
+-- stock_transfer_audit_log
+CREATE POLICY "Permitted users can read stock_transfer_audit_log"
+ON public.stock_transfer_audit_log
+FOR SELECT
+USING (has_permission(auth.uid(), 'inventory', 'view'));
+
+-- stock_adjustment_log
+DROP POLICY IF EXISTS "Users can read stock_adjustment_log" ON public.stock_adjustment_log;
+
+CREATE POLICY "Permitted users can read stock_adjustment_log"
+ON public.stock_adjustment_log
+FOR SELECT
+USING (has_permission(auth.uid(), 'inventory', 'view'));
+
+CREATE POLICY "Permitted users can create stock_adjustment_log"
+ON public.stock_adjustment_log
+FOR INSERT
+WITH CHECK (has_permission(auth.uid(), 'inventory', 'create'));
+
+CREATE POLICY "Permitted users can update stock_adjustment_log"
+ON public.stock_adjustment_log
+FOR UPDATE
+USING (has_permission(auth.uid(), 'inventory', 'edit'));
+
+CREATE POLICY "Permitted users can delete stock_adjustment_log"
+ON public.stock_adjustment_log
+FOR DELETE
+USING (has_permission(auth.uid(), 'inventory', 'delete'));
+
+-- stock_adjustment_audit_log
+CREATE POLICY "Permitted users can read stock_adjustment_audit_log"
+ON public.stock_adjustment_audit_log
+FOR SELECT
+USING (has_permission(auth.uid(), 'inventory', 'view'));
+
+-- stock_counts
+DROP POLICY IF EXISTS "Users can read stock_counts" ON public.stock_counts;
+
+CREATE POLICY "Permitted users can read stock_counts"
+ON public.stock_counts
+FOR SELECT
+USING (has_permission(auth.uid(), 'inventory', 'view'));
+
+-- stock_count_lines
+DROP POLICY IF EXISTS "Users can read stock_count_lines" ON public.stock_count_lines;
+
+CREATE POLICY "Permitted users can read stock_count_lines"
+ON public.stock_count_lines
+FOR SELECT
+USING (has_permission(auth.uid(), 'inventory', 'view'));
+
+-- stock_reconciliation_runs
+CREATE POLICY "Permitted users can read stock_reconciliation_runs"
+ON public.stock_reconciliation_runs
+FOR SELECT
+USING (has_permission(auth.uid(), 'inventory', 'view'));
+
+-- stock_reconciliation_log
+CREATE POLICY "Permitted users can read stock_reconciliation_log"
+ON public.stock_reconciliation_log
+FOR SELECT
+USING (has_permission(auth.uid(), 'inventory', 'view'));
+
+-- vendors
+CREATE POLICY "Permitted users can create vendors"
+ON public.vendors
+FOR INSERT
+WITH CHECK (has_permission(auth.uid(), 'purchasing', 'create'));
+
+CREATE POLICY "Permitted users can update vendors"
+ON public.vendors
+FOR UPDATE
+USING (has_permission(auth.uid(), 'purchasing', 'edit'));
+
+CREATE POLICY "Permitted users can delete vendors"
+ON public.vendors
+FOR DELETE
+USING (has_permission(auth.uid(), 'purchasing', 'delete'));
+
+-- purchase_orders
+DROP POLICY IF EXISTS "Users can read purchase_orders" ON public.purchase_orders;
+
+CREATE POLICY "Permitted users can read purchase_orders"
+ON public.purchase_orders
+FOR SELECT
+USING (has_permission(auth.uid(), 'purchasing', 'view'));
+
+CREATE POLICY "Permitted users can create purchase_orders"
+ON public.purchase_orders
+FOR INSERT
+WITH CHECK (has_permission(auth.uid(), 'purchasing', 'create'));
+
+CREATE POLICY "Permitted users can update purchase_orders"
+ON public.purchase_orders
+FOR UPDATE
+USING (has_permission(auth.uid(), 'purchasing', 'edit'));
+
+CREATE POLICY "Permitted users can delete purchase_orders"
+ON public.purchase_orders
+FOR DELETE
+USING (has_permission(auth.uid(), 'purchasing', 'delete'));
+
+-- purchase_order_lines
+DROP POLICY IF EXISTS "Users can read purchase_order_lines" ON public.purchase_order_lines;
+
+CREATE POLICY "Permitted users can read purchase_order_lines"
+ON public.purchase_order_lines
+FOR SELECT
+USING (has_permission(auth.uid(), 'purchasing', 'view'));
+
+CREATE POLICY "Permitted users can create purchase_order_lines"
+ON public.purchase_order_lines
+FOR INSERT
+WITH CHECK (has_permission(auth.uid(), 'purchasing', 'create'));
+
+CREATE POLICY "Permitted users can update purchase_order_lines"
+ON public.purchase_order_lines
+FOR UPDATE
+USING (has_permission(auth.uid(), 'purchasing', 'edit'));
+
+CREATE POLICY "Permitted users can delete purchase_order_lines"
+ON public.purchase_order_lines
+FOR DELETE
+USING (has_permission(auth.uid(), 'purchasing', 'delete'));
+
+-- purchase_requisitions
+DROP POLICY IF EXISTS "Users can read purchase_requisitions" ON public.purchase_requisitions;
+
+CREATE POLICY "Permitted users can read purchase_requisitions"
+ON public.purchase_requisitions
+FOR SELECT
+USING (has_permission(auth.uid(), 'purchasing', 'view'));
+
+CREATE POLICY "Permitted users can create purchase_requisitions"
+ON public.purchase_requisitions
+FOR INSERT
+WITH CHECK (has_permission(auth.uid(), 'purchasing', 'create'));
+
+CREATE POLICY "Permitted users can update purchase_requisitions"
+ON public.purchase_requisitions
+FOR UPDATE
+USING (has_permission(auth.uid(), 'purchasing', 'edit'));
+
+CREATE POLICY "Permitted users can delete purchase_requisitions"
+ON public.purchase_requisitions
+FOR DELETE
+USING (has_permission(auth.uid(), 'purchasing', 'delete'));
+
+-- mrp_runs
+DROP POLICY IF EXISTS "Users can read mrp_runs" ON public.mrp_runs;
+
+CREATE POLICY "Permitted users can read mrp_runs"
+ON public.mrp_runs
+FOR SELECT
+USING (has_permission(auth.uid(), 'purchasing', 'view'));
+
+-- bom_headers
+DROP POLICY IF EXISTS "Users can read bom_headers" ON public.bom_headers;
+
+CREATE POLICY "Permitted users can read bom_headers"
+ON public.bom_headers
+FOR SELECT
+USING (has_permission(auth.uid(), 'production', 'view'));
+
+CREATE POLICY "Permitted users can create bom_headers"
+ON public.bom_headers
+FOR INSERT
+WITH CHECK (has_permission(auth.uid(), 'production', 'create'));
+
+CREATE POLICY "Permitted users can update bom_headers"
+ON public.bom_headers
+FOR UPDATE
+USING (has_permission(auth.uid(), 'production', 'edit'));
+
+CREATE POLICY "Permitted users can delete bom_headers"
+ON public.bom_headers
+FOR DELETE
+USING (has_permission(auth.uid(), 'production', 'delete'));
+
+-- bom_lines
+DROP POLICY IF EXISTS "Users can read bom_lines" ON public.bom_lines;
+
+CREATE POLICY "Permitted users can read bom_lines"
+ON public.bom_lines
+FOR SELECT
+USING (has_permission(auth.uid(), 'production', 'view'));
+
+CREATE POLICY "Permitted users can create bom_lines"
+ON public.bom_lines
+FOR INSERT
+WITH CHECK (has_permission(auth.uid(), 'production', 'create'));
+
+CREATE POLICY "Permitted users can update bom_lines"
+ON public.bom_lines
+FOR UPDATE
+USING (has_permission(auth.uid(), 'production', 'edit'));
+
+CREATE POLICY "Permitted users can delete bom_lines"
+ON public.bom_lines
+FOR DELETE
+USING (has_permission(auth.uid(), 'production', 'delete'));
+
+-- daily_stock_snapshots
+DROP POLICY IF EXISTS "Users can read daily_stock_snapshots" ON public.daily_stock_snapshots;
+
+CREATE POLICY "Permitted users can read daily_stock_snapshots"
+ON public.daily_stock_snapshots
+FOR SELECT
+USING (has_permission(auth.uid(), 'reports', 'view'));
+
+-- csv_upload_log
+CREATE POLICY "Permitted users can read csv_upload_log"
+ON public.csv_upload_log
+FOR SELECT
+USING (has_permission(auth.uid(), 'imports', 'view'));
+
+-- tally_name_mappings
+DROP POLICY IF EXISTS "Users can read tally_name_mappings" ON public.tally_name_mappings;
+
+CREATE POLICY "Permitted users can read tally_name_mappings"
+ON public.tally_name_mappings
+FOR SELECT
+USING (has_permission(auth.uid(), 'imports', 'view'));
+
+CREATE POLICY "Permitted users can create tally_name_mappings"
+ON public.tally_name_mappings
+FOR INSERT
+WITH CHECK (has_permission(auth.uid(), 'imports', 'create'));
+
+CREATE POLICY "Permitted users can update tally_name_mappings"
+ON public.tally_name_mappings
+FOR UPDATE
+USING (has_permission(auth.uid(), 'imports', 'edit'));
+
+CREATE POLICY "Permitted users can delete tally_name_mappings"
+ON public.tally_name_mappings
+FOR DELETE
+USING (has_permission(auth.uid(), 'imports', 'delete'));
+
+-- tally_exports
+DROP POLICY IF EXISTS "Users can read tally_exports" ON public.tally_exports;
+
+CREATE POLICY "Permitted users can read tally_exports"
+ON public.tally_exports
+FOR SELECT
+USING (has_permission(auth.uid(), 'imports', 'view'));
+
+CREATE POLICY "Permitted users can create tally_exports"
+ON public.tally_exports
+FOR INSERT
+WITH CHECK (has_permission(auth.uid(), 'imports', 'create'));
+
+CREATE POLICY "Permitted users can update tally_exports"
+ON public.tally_exports
+FOR UPDATE
+USING (has_permission(auth.uid(), 'imports', 'edit'));
+
+CREATE POLICY "Permitted users can delete tally_exports"
+ON public.tally_exports
+FOR DELETE
+USING (has_permission(auth.uid(), 'imports', 'delete'));
+
+-- tally_export_entries
+DROP POLICY IF EXISTS "Users can read tally_export_entries" ON public.tally_export_entries;
+
+CREATE POLICY "Permitted users can read tally_export_entries"
+ON public.tally_export_entries
+FOR SELECT
+USING (has_permission(auth.uid(), 'imports', 'view'));
+
+DROP POLICY IF EXISTS "Users can create stock_transfers" ON public.stock_transfers;
+DROP POLICY IF EXISTS "Users can create stock_adjustment_log" ON public.stock_adjustment_log;
+
+DROP POLICY IF EXISTS "Users can count open stock_count_lines" ON public.stock_count_lines;
+CREATE POLICY "Permitted users can count open stock_count_lines"
+ON public.stock_count_lines
+FOR UPDATE
+USING (
+  has_permission(auth.uid(), 'inventory', 'edit')
+  AND EXISTS (
+    SELECT 1 FROM public.stock_counts sc
+    WHERE sc.id = count_id AND sc.status = 'COUNTING'
+  )
+);
+
+-- Anyone uploading a file may save a column mapping for it
+CREATE POLICY "Users can create import_mapping_profiles"
+ON public.import_mapping_profiles
+FOR INSERT
+WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Users can update their import_mapping_profiles"
+ON public.import_mapping_profiles
+FOR UPDATE
+USING (auth.uid() = created_by);
+
+-- Production stage tables predate these migrations; replace whatever policies they carry
+DO $$
+DECLARE
+  v_table TEXT;
+  v_policy RECORD;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['order_punching', 'gravure_printing', 'lamination', 'adhesive_coating', 'slitting']
+  LOOP
+    FOR v_policy IN
+      SELECT policyname FROM pg_policies WHERE schemaname = 'public' AND tablename = v_table
+    LOOP
+      EXECUTE format('DROP POLICY %I ON public.%I', v_policy.policyname, v_table);
+    END LOOP;
+
+    EXECUTE format('ALTER TABLE public.%I ENABLE ROW LEVEL SECURITY', v_table);
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I FOR ALL USING (has_role(auth.uid(), ''admin''::app_role))',
+      'Admin full access to ' || v_table, v_table
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I FOR SELECT USING (has_permission(auth.uid(), ''production'', ''view''))',
+      'Permitted users can read ' || v_table, v_table
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I FOR INSERT WITH CHECK (has_permission(auth.uid(), ''production'', ''create''))',
+      'Permitted users can create ' || v_table, v_table
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I FOR UPDATE USING (has_permission(auth.uid(), ''production'', ''edit''))',
+      'Permitted users can update ' || v_table, v_table
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I FOR DELETE USING (has_permission(auth.uid(), ''production'', ''delete''))',
+      'Permitted users can delete ' || v_table, v_table
+    );
+  END LOOP;
+END $$;
+
+-- RPCs that were admin-only now check the module permission instead
+CREATE OR REPLACE FUNCTION public.post_issue(
+  p_item_code TEXT,
+  p_date DATE,
+  p_qty NUMERIC,
+  p_location_id UUID,
+  p_purpose TEXT DEFAULT NULL,
+  p_remarks TEXT DEFAULT NULL,
+  p_uiorn TEXT DEFAULT NULL,
+  p_production_stage TEXT DEFAULT NULL,
+  p_lot_allocations JSONB DEFAULT '[]'::jsonb
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_allocated NUMERIC;
+  v_balance NUMERIC;
+BEGIN
+  IF NOT has_permission(auth.uid(), 'issues', 'create') THEN
+    RAISE EXCEPTION 'You do not have permission to post issues';
+  END IF;
+
+  IF p_qty IS NULL OR p_qty <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than 0';
+  END IF;
+
+  SELECT COALESCE(SUM((a->>'qty')::NUMERIC), 0) INTO v_allocated
+  FROM jsonb_array_elements(COALESCE(p_lot_allocations, '[]'::jsonb)) a;
+
+  IF v_allocated > p_qty THEN
+    RAISE EXCEPTION 'Lot allocations (%) exceed the issue quantity (%)', v_allocated, p_qty;
+  END IF;
+
+  PERFORM public.lock_stock_for_issue(p_item_code, p_location_id, p_qty);
+
+  INSERT INTO public.issue_log (date, item_code, qty_issued, purpose, remarks, uiorn, production_stage, location_id, lot_id)
+  SELECT p_date, p_item_code, (a->>'qty')::NUMERIC, p_purpose, p_remarks, p_uiorn, p_production_stage, p_location_id, (a->>'lot_id')::UUID
+  FROM jsonb_array_elements(COALESCE(p_lot_allocations, '[]'::jsonb)) a
+  WHERE (a->>'qty')::NUMERIC > 0;
+
+  IF p_qty > v_allocated THEN
+    INSERT INTO public.issue_log (date, item_code, qty_issued, purpose, remarks, uiorn, production_stage, location_id)
+    VALUES (p_date, p_item_code, p_qty - v_allocated, p_purpose, p_remarks, p_uiorn, p_production_stage, p_location_id);
+  END IF;
+
+  SELECT current_qty INTO v_balance FROM public.stock WHERE item_code = p_item_code;
+  RETURN v_balance;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_issue(
+  p_issue_id UUID,
+  p_date DATE,
+  p_qty NUMERIC,
+  p_location_id UUID,
+  p_purpose TEXT DEFAULT NULL,
+  p_remarks TEXT DEFAULT NULL,
+  p_uiorn TEXT DEFAULT NULL,
+  p_production_stage TEXT DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_issue RECORD;
+  v_balance NUMERIC;
+BEGIN
+  IF NOT has_permission(auth.uid(), 'issues', 'edit') THEN
+    RAISE EXCEPTION 'You do not have permission to edit issues';
+  END IF;
+
+  IF p_qty IS NULL OR p_qty <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than 0';
+  END IF;
+
+  SELECT item_code, qty_issued, location_id INTO v_issue
+  FROM public.issue_log
+  WHERE id = p_issue_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Issue entry not found';
+  END IF;
+
+  PERFORM public.lock_stock_for_issue(v_issue.item_code, p_location_id, p_qty, v_issue.qty_issued, v_issue.location_id);
+
+  UPDATE public.issue_log
+  SET
+    date = p_date,
+    qty_issued = p_qty,
+    location_id = p_location_id,
+    purpose = p_purpose,
+    remarks = p_remarks,
+    uiorn = p_uiorn,
+    production_stage = p_production_stage
+  WHERE id = p_issue_id;
+
+  SELECT current_qty INTO v_balance FROM public.stock WHERE item_code = v_issue.item_code;
+  RETURN v_balance;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.import_csv_rows(
+  p_file_type TEXT,
+  p_file_name TEXT,
+  p_rows JSONB,
+  p_dry_run BOOLEAN DEFAULT true
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row JSONB;
+  v_row_number INTEGER;
+  v_total INTEGER;
+  v_batch_id UUID;
+  v_results JSONB := '[]'::jsonb;
+  v_errors JSONB := '[]'::jsonb;
+  v_error_count INTEGER := 0;
+  v_item_code TEXT;
+  v_lot_number TEXT;
+  v_category_id UUID;
+  v_category_name TEXT;
+  v_new_category TEXT;
+  v_created_categories TEXT[] := '{}';
+  v_code_result JSONB;
+BEGIN
+  IF NOT has_permission(
+    auth.uid(),
+    CASE p_file_type WHEN 'grn' THEN 'grn' WHEN 'issue' THEN 'issues' ELSE 'items' END,
+    'create'
+  ) THEN
+    RAISE EXCEPTION 'You do not have permission to import % files', p_file_type;
+  END IF;
+
+  IF p_file_type NOT IN ('grn', 'issue', 'item_master') THEN
+    RAISE EXCEPTION 'Unsupported import type: %', p_file_type;
+  END IF;
+
+  v_total := jsonb_array_length(COALESCE(p_rows, '[]'::jsonb));
+  IF v_total = 0 THEN
+    RAISE EXCEPTION 'The file has no rows to import';
+  END IF;
+
+  BEGIN
+    INSERT INTO public.csv_upload_log (user_id, file_name, file_type, total_rows, success_rows, error_rows)
+    VALUES (auth.uid(), p_file_name, p_file_type, v_total, v_total, 0)
+    RETURNING id INTO v_batch_id;
+
+    FOR v_row IN SELECT * FROM jsonb_array_elements(p_rows)
+    LOOP
+      v_row_number := (v_row->>'row')::INTEGER;
+      v_item_code := NULLIF(btrim(v_row->>'item_code'), '');
+      v_new_category := NULL;
+
+      -- Each row runs in its own savepoint so one bad row is reported without hiding the others
+      BEGIN
+        IF p_file_type = 'grn' THEN
+          v_lot_number := NULLIF(btrim(v_row->>'lot_number'), '');
+
+          IF EXISTS (
+            SELECT 1 FROM public.grn_log
+            WHERE grn_number = btrim(v_row->>'grn_number')
+              AND item_code = v_item_code
+              AND COALESCE(lot_number, '') = COALESCE(v_lot_number, '')
+          ) THEN
+            RAISE EXCEPTION 'GRN % with item % already exists', btrim(v_row->>'grn_number'), v_item_code;
+          END IF;
+
+          IF v_lot_number IS NOT NULL AND EXISTS (
+            SELECT 1 FROM public.grn_log WHERE item_code = v_item_code AND lot_number = v_lot_number
+          ) THEN
+            RAISE EXCEPTION 'Lot % of item % has already been received', v_lot_number, v_item_code;
+          END IF;
+
+          INSERT INTO public.grn_log (
+            grn_number, date, item_code, qty_received, uom, invoice_number, amount_inr, vendor, vendor_id,
+            po_line_id, remarks, location_id, lot_number, mfg_date, expiry_date, import_batch_id
+          )
+          VALUES (
+            btrim(v_row->>'grn_number'),
+            (v_row->>'date')::DATE,
+            v_item_code,
+            (v_row->>'qty_received')::NUMERIC,
+            v_row->>'uom',
+            NULLIF(btrim(v_row->>'invoice_number'), ''),
+            NULLIF(btrim(v_row->>'amount_inr'), '')::NUMERIC,
+            NULLIF(btrim(v_row->>'vendor'), ''),
+            NULLIF(v_row->>'vendor_id', '')::UUID,
+            NULLIF(v_row->>'po_line_id', '')::UUID,
+            NULLIF(btrim(v_row->>'remarks'), ''),
+            COALESCE(NULLIF(v_row->>'location_id', '')::UUID, public.get_default_location_id()),
+            v_lot_number,
+            NULLIF(btrim(v_row->>'mfg_date'), '')::DATE,
+            NULLIF(btrim(v_row->>'expiry_date'), '')::DATE,
+            v_batch_id
+          );
+
+        ELSIF p_file_type = 'issue' THEN
+          -- Earlier rows of the file are already applied inside this transaction, so they count against stock
+          PERFORM public.lock_stock_for_issue(
+            v_item_code,
+            COALESCE(NULLIF(v_row->>'location_id', '')::UUID, public.get_default_location_id()),
+            (v_row->>'qty_issued')::NUMERIC
+          );
+
+          INSERT INTO public.issue_log (
+            date, item_code, qty_issued, purpose, remarks, uiorn, production_stage, location_id, lot_id, import_batch_id
+          )
+          VALUES (
+            (v_row->>'date')::DATE,
+            v_item_code,
+            (v_row->>'qty_issued')::NUMERIC,
+            NULLIF(btrim(v_row->>'purpose'), ''),
+            NULLIF(btrim(v_row->>'remarks'), ''),
+            NULLIF(btrim(v_row->>'uiorn'), ''),
+            NULLIF(btrim(v_row->>'production_stage'), ''),
+            COALESCE(NULLIF(v_row->>'location_id', '')::UUID, public.get_default_location_id()),
+            NULLIF(v_row->>'lot_id', '')::UUID,
+            v_batch_id
+          );
+
+        ELSE
+          SELECT id, category_name INTO v_category_id, v_category_name
+          FROM public.categories
+          WHERE lower(category_name) = lower(btrim(v_row->>'category_name'))
+          LIMIT 1;
+
+          IF NOT FOUND THEN
+            INSERT INTO public.categories (category_name, description)
+            VALUES (btrim(v_row->>'category_name'), 'Auto-created from CSV upload')
+            RETURNING id, category_name INTO v_category_id, v_category_name;
+            v_new_category := v_category_name;
+          END IF;
+
+          IF v_row->>'action' = 'error' THEN
+            RAISE EXCEPTION 'Item % already exists', v_item_code;
+          ELSIF v_row->>'action' = 'update' THEN
+            UPDATE public.item_master
+            SET
+              item_name = v_row->>'item_name',
+              category_id = v_category_id,
+              qualifier = NULLIF(btrim(v_row->>'qualifier'), ''),
+              gsm = (v_row->>'gsm')::NUMERIC,
+              size_mm = NULLIF(btrim(v_row->>'size_mm'), ''),
+              uom = v_row->>'uom',
+              usage_type = NULLIF(btrim(v_row->>'usage_type'), ''),
+              status = COALESCE(NULLIF(btrim(v_row->>'status'), ''), 'active'),
+              min_level = COALESCE((v_row->>'min_level')::NUMERIC, min_level),
+              reorder_point = COALESCE((v_row->>'reorder_point')::NUMERIC, reorder_point),
+              safety_stock = COALESCE((v_row->>'safety_stock')::NUMERIC, safety_stock),
+              max_level = COALESCE((v_row->>'max_level')::NUMERIC, max_level),
+              updated_at = now()
+            WHERE item_code = v_item_code;
+
+            IF NOT FOUND THEN
+              RAISE EXCEPTION 'Item % to update was not found', v_item_code;
+            END IF;
+          ELSE
+            v_code_result := public.generate_item_code_with_validation(
+              v_category_name,
+              COALESCE(v_row->>'qualifier', ''),
+              COALESCE(v_row->>'size_mm', ''),
+              (v_row->>'gsm')::NUMERIC
+            );
+
+            IF NOT COALESCE((v_code_result->>'success')::BOOLEAN, false) THEN
+              RAISE EXCEPTION 'Item code generation failed: %', v_code_result->'validation'->'errors';
+            END IF;
+
+            v_item_code := v_code_result->>'item_code';
+
+            INSERT INTO public.item_master (
+              item_code, item_name, category_id, qualifier, gsm, size_mm, uom, usage_type, status,
+              min_level, reorder_point, safety_stock, max_level, auto_code, import_batch_id
+            )
+            VALUES (
+              v_item_code,
+              v_row->>'item_name',
+              v_category_id,
+              NULLIF(btrim(v_row->>'qualifier'), ''),
+              (v_row->>'gsm')::NUMERIC,
+              NULLIF(btrim(v_row->>'size_mm'), ''),
+              v_row->>'uom',
+              NULLIF(btrim(v_row->>'usage_type'), ''),
+              COALESCE(NULLIF(btrim(v_row->>'status'), ''), 'active'),
+              (v_row->>'min_level')::NUMERIC,
+              (v_row->>'reorder_point')::NUMERIC,
+              (v_row->>'safety_stock')::NUMERIC,
+              (v_row->>'max_level')::NUMERIC,
+              v_item_code,
+              v_batch_id
+            );
+
+            INSERT INTO public.stock (item_code, opening_qty, current_qty)
+            VALUES (v_item_code, 0, 0)
+            ON CONFLICT (item_code) DO NOTHING;
+          END IF;
+
+          IF v_new_category IS NOT NULL THEN
+            v_created_categories := array_append(v_created_categories, v_new_category);
+          END IF;
+        END IF;
+
+        v_results := v_results || jsonb_build_object('row', v_row_number, 'status', 'OK', 'item_code', v_item_code, 'message', NULL);
+      EXCEPTION WHEN OTHERS THEN
+        v_error_count := v_error_count + 1;
+        v_results := v_results || jsonb_build_object('row', v_row_number, 'status', 'ERROR', 'item_code', v_item_code, 'message', SQLERRM);
+        v_errors := v_errors || jsonb_build_object('row', v_row_number, 'message', SQLERRM);
+      END;
+    END LOOP;
+
+    -- Undo everything, including the log entry, unless this is a commit in which every row succeeded
+    IF p_dry_run OR v_error_count > 0 THEN
+      RAISE EXCEPTION USING ERRCODE = 'IM001';
+    END IF;
+  EXCEPTION WHEN SQLSTATE 'IM001' THEN
+    v_batch_id := NULL;
+  END;
+
+  -- A rejected commit is still logged so it shows up in the upload history
+  IF NOT p_dry_run AND v_error_count > 0 THEN
+    INSERT INTO public.csv_upload_log (user_id, file_name, file_type, total_rows, success_rows, error_rows, errors, status)
+    VALUES (auth.uid(), p_file_name, p_file_type, v_total, 0, v_error_count, v_errors, 'FAILED');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'batch_id', v_batch_id,
+    'dry_run', p_dry_run,
+    'committed', v_batch_id IS NOT NULL,
+    'total_rows', v_total,
+    'error_rows', v_error_count,
+    'results', v_results,
+    'created_categories', to_jsonb(v_created_categories)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.rollback_import_batch(p_batch_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch RECORD;
+  v_issue_count INTEGER;
+  v_grn_count INTEGER;
+  v_item_count INTEGER := 0;
+  v_item_code TEXT;
+  v_lot_number TEXT;
+BEGIN
+  IF NOT has_permission(auth.uid(), 'imports', 'delete') THEN
+    RAISE EXCEPTION 'You do not have permission to roll back imports';
+  END IF;
+
+  SELECT * INTO v_batch
+  FROM public.csv_upload_log
+  WHERE id = p_batch_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import not found';
+  END IF;
+
+  IF v_batch.status <> 'COMMITTED' THEN
+    RAISE EXCEPTION 'Only committed imports can be rolled back; this one is %', lower(v_batch.status);
+  END IF;
+
+  -- A received lot that has since been issued by other entries cannot be taken back
+  SELECT g.lot_number INTO v_lot_number
+  FROM public.grn_log g
+  JOIN public.issue_log i ON i.lot_id = g.id
+  WHERE g.import_batch_id = p_batch_id
+    AND i.import_batch_id IS DISTINCT FROM p_batch_id
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Lot % from this import has already been issued; delete those issues first', v_lot_number;
+  END IF;
+
+  DELETE FROM public.issue_log WHERE import_batch_id = p_batch_id;
+  GET DIAGNOSTICS v_issue_count = ROW_COUNT;
+
+  DELETE FROM public.grn_log WHERE import_batch_id = p_batch_id;
+  GET DIAGNOSTICS v_grn_count = ROW_COUNT;
+
+  FOR v_item_code IN SELECT item_code FROM public.item_master WHERE import_batch_id = p_batch_id
+  LOOP
+    BEGIN
+      DELETE FROM public.stock WHERE item_code = v_item_code;
+      DELETE FROM public.item_master WHERE item_code = v_item_code;
+      v_item_count := v_item_count + 1;
+    EXCEPTION WHEN foreign_key_violation THEN
+      RAISE EXCEPTION 'Item % from this import is already used elsewhere and cannot be removed', v_item_code;
+    END;
+  END LOOP;
+
+  UPDATE public.csv_upload_log
+  SET
+    status = 'ROLLED_BACK',
+    rolled_back_at = now(),
+    rolled_back_by = auth.uid()
+  WHERE id = p_batch_id;
+
+  RETURN jsonb_build_object('grn_rows', v_grn_count, 'issue_rows', v_issue_count, 'item_rows', v_item_count);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_tally_export(
+  p_voucher_type TEXT,
+  p_file_name TEXT,
+  p_from_date DATE,
+  p_to_date DATE,
+  p_voucher_count INTEGER,
+  p_grn_ids UUID[] DEFAULT '{}',
+  p_issue_ids UUID[] DEFAULT '{}'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_export_id UUID;
+BEGIN
+  IF NOT has_permission(auth.uid(), 'imports', 'create') THEN
+    RAISE EXCEPTION 'You do not have permission to export to Tally';
+  END IF;
+
+  IF COALESCE(array_length(p_grn_ids, 1), 0) + COALESCE(array_length(p_issue_ids, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'Nothing to export';
+  END IF;
+
+  INSERT INTO public.tally_exports (voucher_type, file_name, from_date, to_date, voucher_count, entry_count, exported_by)
+  VALUES (
+    p_voucher_type,
+    p_file_name,
+    p_from_date,
+    p_to_date,
+    p_voucher_count,
+    COALESCE(array_length(p_grn_ids, 1), 0) + COALESCE(array_length(p_issue_ids, 1), 0),
+    auth.uid()
+  )
+  RETURNING id INTO v_export_id;
+
+  BEGIN
+    INSERT INTO public.tally_export_entries (export_id, grn_id)
+    SELECT v_export_id, unnest(p_grn_ids);
+
+    INSERT INTO public.tally_export_entries (export_id, issue_id)
+    SELECT v_export_id, unnest(p_issue_ids);
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'Some of these entries have already been exported to Tally; refresh and try again';
+  END;
+
+  RETURN v_export_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.activate_bom(p_bom_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item_code TEXT;
+  v_status TEXT;
+BEGIN
+  IF NOT has_permission(auth.uid(), 'production', 'approve') THEN
+    RAISE EXCEPTION 'You do not have permission to activate a BOM';
+  END IF;
+
+  SELECT item_code, status
+  INTO v_item_code, v_status
+  FROM public.bom_headers
+  WHERE id = p_bom_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'BOM % does not exist', p_bom_id;
+  END IF;
+
+  IF v_status <> 'DRAFT' THEN
+    RAISE EXCEPTION 'Only draft BOMs can be activated (current status: %)', v_status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.bom_lines WHERE bom_id = p_bom_id) THEN
+    RAISE EXCEPTION 'Cannot activate a BOM without components';
+  END IF;
+
+  UPDATE public.bom_headers
+  SET status = 'ARCHIVED'
+  WHERE item_code = v_item_code AND status = 'ACTIVE';
+
+  UPDATE public.bom_headers
+  SET status = 'ACTIVE', activated_at = now()
+  WHERE id = p_bom_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.run_mrp(
+  p_horizon_days INTEGER DEFAULT 30,
+  p_default_lead_time_days INTEGER DEFAULT 7
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run_id UUID;
+  v_count INTEGER;
+BEGIN
+  IF NOT has_permission(auth.uid(), 'purchasing', 'create') THEN
+    RAISE EXCEPTION 'You do not have permission to run MRP';
+  END IF;
+
+  IF p_horizon_days IS NULL OR p_horizon_days <= 0 THEN
+    RAISE EXCEPTION 'Planning horizon must be at least one day';
+  END IF;
+
+  -- Proposals nobody acted on are replaced by this run
+  UPDATE public.purchase_requisitions
+  SET status = 'SUPERSEDED'
+  WHERE status = 'PROPOSED';
+
+  INSERT INTO public.mrp_runs (horizon_days, default_lead_time_days)
+  VALUES (p_horizon_days, COALESCE(p_default_lead_time_days, 0))
+  RETURNING id INTO v_run_id;
+
+  INSERT INTO public.purchase_requisitions (
+    run_id, item_code, vendor_id, current_qty, open_po_qty, job_demand_qty, daily_consumption,
+    lead_time_days, forecast_demand_qty, projected_qty, reorder_level, target_qty,
+    suggested_qty, proposed_qty, rate, need_by_date, order_by_date
+  )
+  WITH job_demand AS (
+    SELECT item_code, SUM(GREATEST(planned_qty - actual_qty, 0)) AS job_demand_qty
+    FROM public.job_bom_consumption
+    WHERE on_bom
+    GROUP BY item_code
+  ),
+  open_po AS (
+    SELECT item_code, SUM(pending_qty) AS open_po_qty
+    FROM public.purchase_order_line_status
+    WHERE po_status IN ('DRAFT', 'APPROVED')
+    GROUP BY item_code
+  ),
+  preferred_vendor AS (
+    SELECT DISTINCT ON (h.item_code)
+      h.item_code,
+      h.vendor_id,
+      v.lead_time_days,
+      h.last_rate
+    FROM public.vendor_item_purchase_history h
+    JOIN public.vendors v ON v.id = h.vendor_id AND v.status = 'active'
+    ORDER BY h.item_code, h.last_purchase_date DESC NULLS LAST
+  ),
+  inputs AS (
+    SELECT
+      ss.item_code,
+      pv.vendor_id,
+      pv.last_rate,
+      COALESCE(ss.current_qty, 0) AS current_qty,
+      COALESCE(po.open_po_qty, 0) AS open_po_qty,
+      COALESCE(jd.job_demand_qty, 0) AS job_demand_qty,
+      GREATEST(COALESCE(ss.consumption_rate_30d, 0), COALESCE(ss.consumption_rate_90d, 0)) AS daily_consumption,
+      COALESCE(pv.lead_time_days, p_default_lead_time_days, 0) AS lead_time_days,
+      COALESCE(ss.reorder_point, ss.safety_stock, 0) AS reorder_level,
+      ss.max_level
+    FROM public.stock_summary ss
+    LEFT JOIN open_po po ON po.item_code = ss.item_code
+    LEFT JOIN job_demand jd ON jd.item_code = ss.item_code
+    LEFT JOIN preferred_vendor pv ON pv.item_code = ss.item_code
+  ),
+  projection AS (
+    SELECT
+      i.*,
+      ROUND(i.daily_consumption * (i.lead_time_days + p_horizon_days), 3) AS forecast_demand_qty,
+      i.current_qty + i.open_po_qty - i.job_demand_qty AS available_qty,
+      GREATEST(COALESCE(i.max_level, 0), i.reorder_level) AS target_qty
+    FROM inputs i
+  ),
+  proposals AS (
+    SELECT
+      p.*,
+      p.available_qty - p.forecast_demand_qty AS projected_qty,
+      -- The day stock is expected to reach the reorder level at the current consumption rate
+      CASE
+        WHEN p.available_qty <= p.reorder_level OR p.daily_consumption = 0 THEN CURRENT_DATE
+        ELSE CURRENT_DATE + FLOOR((p.available_qty - p.reorder_level) / p.daily_consumption)::INTEGER
+      END AS need_by_date
+    FROM projection p
+  )
+  SELECT
+    v_run_id,
+    item_code,
+    vendor_id,
+    current_qty,
+    open_po_qty,
+    job_demand_qty,
+    daily_consumption,
+    lead_time_days,
+    forecast_demand_qty,
+    projected_qty,
+    reorder_level,
+    target_qty,
+    CEIL(target_qty - projected_qty),
+    CEIL(target_qty - projected_qty),
+    last_rate,
+    need_by_date,
+    need_by_date - lead_time_days
+  FROM proposals
+  WHERE projected_qty < reorder_level;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE public.mrp_runs
+  SET requisition_count = v_count
+  WHERE id = v_run_id;
+
+  RETURN v_run_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.convert_requisitions_to_pos(p_requisition_ids UUID[])
+RETURNS TABLE (
+  po_id UUID,
+  po_number TEXT,
+  vendor TEXT,
+  line_count INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_vendor RECORD;
+  v_req RECORD;
+  v_po_id UUID;
+  v_po_number TEXT;
+  v_line_id UUID;
+  v_lines INTEGER;
+  v_prefix TEXT := 'MRP-' || to_char(CURRENT_DATE, 'YYYYMMDD') || '-';
+  v_seq INTEGER;
+BEGIN
+  IF NOT has_permission(auth.uid(), 'purchasing', 'create') THEN
+    RAISE EXCEPTION 'You do not have permission to create purchase orders';
+  END IF;
+
+  IF p_requisition_ids IS NULL OR array_length(p_requisition_ids, 1) IS NULL THEN
+    RAISE EXCEPTION 'Select at least one requisition';
+  END IF;
+
+  PERFORM 1
+  FROM public.purchase_requisitions
+  WHERE id = ANY(p_requisition_ids)
+  FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM public.purchase_requisitions
+    WHERE id = ANY(p_requisition_ids) AND status <> 'PROPOSED'
+  ) THEN
+    RAISE EXCEPTION 'Only proposed requisitions can be converted; refresh and try again';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.purchase_requisitions
+    WHERE id = ANY(p_requisition_ids) AND vendor_id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Assign a vendor to every selected requisition before converting';
+  END IF;
+
+  SELECT COUNT(*) INTO v_seq
+  FROM public.purchase_orders po
+  WHERE po.po_number LIKE v_prefix || '%';
+
+  FOR v_vendor IN
+    SELECT DISTINCT v.id, v.vendor_name
+    FROM public.purchase_requisitions pr
+    JOIN public.vendors v ON v.id = pr.vendor_id
+    WHERE pr.id = ANY(p_requisition_ids)
+    ORDER BY v.vendor_name
+  LOOP
+    v_seq := v_seq + 1;
+    v_po_number := v_prefix || lpad(v_seq::TEXT, 2, '0');
+    v_lines := 0;
+
+    INSERT INTO public.purchase_orders (po_number, vendor, vendor_id, remarks)
+    VALUES (v_po_number, v_vendor.vendor_name, v_vendor.id, 'Raised from MRP proposals')
+    RETURNING id INTO v_po_id;
+
+    FOR v_req IN
+      SELECT pr.id, pr.item_code, pr.proposed_qty, pr.rate, pr.need_by_date, pr.remarks
+      FROM public.purchase_requisitions pr
+      WHERE pr.id = ANY(p_requisition_ids) AND pr.vendor_id = v_vendor.id
+      ORDER BY pr.need_by_date
+    LOOP
+      INSERT INTO public.purchase_order_lines (po_id, item_code, ordered_qty, rate, expected_date, remarks)
+      VALUES (v_po_id, v_req.item_code, v_req.proposed_qty, v_req.rate, v_req.need_by_date, v_req.remarks)
+      RETURNING id INTO v_line_id;
+
+      UPDATE public.purchase_requisitions
+      SET status = 'CONVERTED', po_line_id = v_line_id
+      WHERE id = v_req.id;
+
+      v_lines := v_lines + 1;
+    END LOOP;
+
+    po_id := v_po_id;
+    po_number := v_po_number;
+    vendor := v_vendor.vendor_name;
+    line_count := v_lines;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_stock_count_status(p_count_id UUID, p_status TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  SELECT status INTO v_status
+  FROM public.stock_counts
+  WHERE id = p_count_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock count not found';
+  END IF;
+
+  IF p_status <> 'SUBMITTED' AND NOT has_permission(auth.uid(), 'inventory', 'approve') THEN
+    RAISE EXCEPTION 'You do not have permission to approve, send back or cancel a stock count';
+  END IF;
+
+  IF NOT (
+    (v_status = 'COUNTING' AND p_status IN ('SUBMITTED', 'CANCELLED'))
+    OR (v_status = 'SUBMITTED' AND p_status IN ('COUNTING', 'APPROVED', 'CANCELLED'))
+    OR (v_status = 'APPROVED' AND p_status IN ('COUNTING', 'CANCELLED'))
+  ) THEN
+    RAISE EXCEPTION 'A % stock count cannot be moved to %', lower(v_status), lower(p_status);
+  END IF;
+
+  IF p_status = 'SUBMITTED' AND NOT EXISTS (
+    SELECT 1 FROM public.stock_count_lines
+    WHERE count_id = p_count_id AND counted_qty IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Enter at least one counted quantity before submitting';
+  END IF;
+
+  UPDATE public.stock_counts
+  SET
+    status = p_status,
+    submitted_at = CASE WHEN p_status = 'SUBMITTED' THEN now() ELSE submitted_at END,
+    approved_by = CASE WHEN p_status = 'APPROVED' THEN auth.uid() WHEN p_status = 'COUNTING' THEN NULL ELSE approved_by END,
+    approved_at = CASE WHEN p_status = 'APPROVED' THEN now() WHEN p_status = 'COUNTING' THEN NULL ELSE approved_at END
+  WHERE id = p_count_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.post_stock_count(p_count_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count RECORD;
+  v_prefix TEXT := 'ADJ-' || to_char(CURRENT_DATE, 'YYYYMMDD') || '-';
+  v_seq INTEGER;
+  v_posted INTEGER;
+BEGIN
+  IF NOT has_permission(auth.uid(), 'inventory', 'approve') THEN
+    RAISE EXCEPTION 'You do not have permission to post stock count adjustments';
+  END IF;
+
+  SELECT * INTO v_count
+  FROM public.stock_counts
+  WHERE id = p_count_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock count not found';
+  END IF;
+
+  IF v_count.status <> 'APPROVED' THEN
+    RAISE EXCEPTION 'Only approved stock counts can be posted';
+  END IF;
+
+  SELECT COUNT(*) INTO v_seq
+  FROM public.stock_adjustment_log
+  WHERE adjustment_number LIKE v_prefix || '%';
+
+  INSERT INTO public.stock_adjustment_log (
+    adjustment_number, date, item_code, location_id, qty, reason, remarks, count_id, status, approved_by
+  )
+  SELECT
+    v_prefix || lpad((v_seq + ROW_NUMBER() OVER (ORDER BY l.item_code, l.location_id))::TEXT, 3, '0'),
+    v_count.count_date,
+    l.item_code,
+    l.location_id,
+    l.counted_qty - l.system_qty,
+    'COUNT_CORRECTION',
+    COALESCE(NULLIF(btrim(l.remarks), ''), 'Stock count ' || v_count.count_number),
+    v_count.id,
+    'APPROVED',
+    v_count.approved_by
+  FROM public.stock_count_lines l
+  WHERE l.count_id = p_count_id
+    AND l.counted_qty IS NOT NULL
+    AND l.counted_qty <> l.system_qty;
+
+  GET DIAGNOSTICS v_posted = ROW_COUNT;
+
+  UPDATE public.stock_counts
+  SET status = 'POSTED', posted_at = now()
+  WHERE id = p_count_id;
+
+  RETURN v_posted;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.detect_stock_mismatches(p_trigger TEXT DEFAULT 'MANUAL')
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_previous_at TIMESTAMP WITH TIME ZONE;
+  v_previous_mismatches JSONB := '[]'::jsonb;
+  v_mismatches JSONB;
+  v_mismatch_count INTEGER;
+  v_new_count INTEGER;
+  v_resolved_count INTEGER;
+  v_run_id UUID;
+BEGIN
+  -- pg_cron runs without a JWT and the edge function uses the service role
+  IF COALESCE(auth.role(), 'service_role') <> 'service_role' AND NOT has_permission(auth.uid(), 'inventory', 'edit') THEN
+    RAISE EXCEPTION 'You do not have permission to run stock reconciliation';
+  END IF;
+
+  SELECT run_at, mismatches INTO v_previous_at, v_previous_mismatches
+  FROM public.stock_reconciliation_runs
+  ORDER BY run_at DESC
+  LIMIT 1;
+
+  v_previous_mismatches := COALESCE(v_previous_mismatches, '[]'::jsonb);
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'item_code', s.item_code,
+    'item_name', s.item_name,
+    'current_qty', s.current_qty,
+    'calculated_qty', s.calculated_qty,
+    'difference', s.current_qty - s.calculated_qty,
+    'is_new', previous.item IS NULL,
+    'first_detected_at', COALESCE((previous.item->>'first_detected_at')::TIMESTAMP WITH TIME ZONE, now()),
+    'last_ok_at', CASE
+      WHEN previous.item IS NULL THEN v_previous_at
+      ELSE (previous.item->>'last_ok_at')::TIMESTAMP WITH TIME ZONE
+    END
+  ) ORDER BY s.item_code), '[]'::jsonb)
+  INTO v_mismatches
+  FROM public.stock_summary s
+  LEFT JOIN LATERAL (
+    SELECT m AS item
+    FROM jsonb_array_elements(v_previous_mismatches) m
+    WHERE m->>'item_code' = s.item_code
+  ) previous ON true
+  WHERE s.stock_validation_status = 'MISMATCH';
+
+  v_mismatch_count := jsonb_array_length(v_mismatches);
+
+  SELECT COUNT(*) INTO v_new_count
+  FROM jsonb_array_elements(v_mismatches) m
+  WHERE (m->>'is_new')::BOOLEAN;
+
+  SELECT COUNT(*) INTO v_resolved_count
+  FROM jsonb_array_elements(v_previous_mismatches) p
+  WHERE NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_mismatches) m WHERE m->>'item_code' = p->>'item_code'
+  );
+
+  INSERT INTO public.stock_reconciliation_runs (
+    trigger_type, mismatch_count, new_mismatch_count, resolved_count, mismatches, created_by
+  ) VALUES (
+    p_trigger, v_mismatch_count, v_new_count, v_resolved_count, v_mismatches, auth.uid()
+  )
+  RETURNING id INTO v_run_id;
+
+  RETURN jsonb_build_object(
+    'run_id', v_run_id,
+    'mismatch_count', v_mismatch_count,
+    'new_mismatch_count', v_new_count,
+    'resolved_count', v_resolved_count
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_stock_reconciliation(p_item_code TEXT, p_remarks TEXT)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current NUMERIC;
+  v_calculated NUMERIC;
+BEGIN
+  IF NOT has_permission(auth.uid(), 'inventory', 'approve') THEN
+    RAISE EXCEPTION 'You do not have permission to correct stock';
+  END IF;
+
+  IF p_remarks IS NULL OR btrim(p_remarks) = '' THEN
+    RAISE EXCEPTION 'A reason is required for a stock correction';
+  END IF;
+
+  SELECT current_qty INTO v_current
+  FROM public.stock
+  WHERE item_code = p_item_code
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No stock record for item %', p_item_code;
+  END IF;
+
+  SELECT calculated_qty INTO v_calculated
+  FROM public.stock_summary
+  WHERE item_code = p_item_code;
+
+  IF ABS(v_calculated - v_current) <= 0.01 THEN
+    RAISE EXCEPTION 'Stock for % already matches its transactions', p_item_code;
+  END IF;
+
+  INSERT INTO public.stock_reconciliation_log (item_code, previous_qty, corrected_qty, remarks, approved_by)
+  VALUES (p_item_code, v_current, v_calculated, btrim(p_remarks), auth.uid());
+
+  UPDATE public.stock
+  SET current_qty = v_calculated, last_updated = now()
+  WHERE item_code = p_item_code;
+
+  RETURN v_calculated;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.validate_stock_adjustment()
+RETURNS TRIGGER AS $$
+DECLARE
+  can_approve BOOLEAN := has_permission(auth.uid(), 'inventory', 'approve');
+  available NUMERIC;
+BEGIN
+  IF TG_OP = 'INSERT' AND can_approve AND NEW.status = 'PENDING' THEN
+    NEW.status := 'APPROVED';
+  END IF;
+
+  IF NEW.status <> 'PENDING' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM NEW.status) THEN
+    IF NOT can_approve THEN
+      RAISE EXCEPTION 'You do not have permission to approve or reject stock adjustments';
+    END IF;
+
+    IF NEW.status = 'APPROVED' THEN
+      NEW.approved_by := COALESCE(NEW.approved_by, auth.uid());
+      NEW.approved_at := now();
+    END IF;
+  END IF;
+
+  IF NEW.status = 'APPROVED' AND NEW.qty < 0 AND NEW.reason <> 'COUNT_CORRECTION' THEN
+    SELECT COALESCE(SUM(current_qty), 0)
+    INTO available
+    FROM public.location_stock
+    WHERE item_code = NEW.item_code AND location_id = NEW.location_id;
+
+    -- On edit, the adjustment's own approved quantity is already counted in the location
+    IF TG_OP = 'UPDATE' AND OLD.status = 'APPROVED'
+       AND OLD.item_code = NEW.item_code AND OLD.location_id = NEW.location_id THEN
+      available := available - OLD.qty;
+    END IF;
+
+    IF available + NEW.qty < 0 THEN
+      RAISE EXCEPTION 'Insufficient stock at location: % available, % to write off', available, -NEW.qty;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Approving a purchase order needs purchasing approve, not just edit
+CREATE OR REPLACE FUNCTION public.validate_purchase_order_approval()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'APPROVED' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM NEW.status)
+     AND NOT has_permission(auth.uid(), 'purchasing', 'approve') THEN
+    RAISE EXCEPTION 'You do not have permission to approve purchase orders';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER validate_purchase_order_approval
+BEFORE INSERT OR UPDATE ON public.purchase_orders
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_purchase_order_approval();
@@ -0,0 +1,459 @@
+-- Maker-checker for posted GRNs and issues: edits and deletions become change requests that a
+-- second user with approve permission applies. The stock triggers only fire once it is approved.
+
+-- In-app notifications
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  link TEXT,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_user_id ON public.notifications(user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin full access to notifications"
+ON public.notifications
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Users can read their notifications"
+ON public.notifications
+FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can update their notifications"
+ON public.notifications
+FOR UPDATE
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their notifications"
+ON public.notifications
+FOR DELETE
+USING (user_id = auth.uid());
+
+-- Called from SECURITY DEFINER functions; nothing is sent while notifications are switched off
+CREATE OR REPLACE FUNCTION public.create_notification(
+  p_user_id UUID,
+  p_title TEXT,
+  p_message TEXT,
+  p_link TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF get_system_setting('notifications_enabled') = 'false'::jsonb THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, title, message, link)
+  VALUES (p_user_id, p_title, p_message, p_link);
+END;
+$$;
+
+-- Pending edits and deletions of posted entries
+CREATE TABLE public.transaction_change_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('grn', 'issue')),
+  -- No foreign key: the entry is gone once a deletion is approved
+  entry_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('UPDATE', 'DELETE')),
+  -- The entry as it was when the change was requested
+  old_values JSONB NOT NULL,
+  -- Only the fields being changed; null for deletions
+  new_values JSONB,
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'APPROVED', 'REJECTED')),
+  requested_by UUID NOT NULL DEFAULT auth.uid(),
+  requested_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  reviewed_by UUID,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_transaction_change_requests_status ON public.transaction_change_requests(status, requested_at DESC);
+
+-- One open request per entry at a time
+CREATE UNIQUE INDEX idx_transaction_change_requests_pending_entry
+  ON public.transaction_change_requests(entry_type, entry_id)
+  WHERE status = 'PENDING';
+
+ALTER TABLE public.transaction_change_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin full access to transaction_change_requests"
+ON public.transaction_change_requests
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Permitted users can read transaction_change_requests"
+ON public.transaction_change_requests
+FOR SELECT
+USING (
+  requested_by = auth.uid()
+  OR has_permission(auth.uid(), CASE entry_type WHEN 'grn' THEN 'grn' ELSE 'issues' END, 'view')
+);
+
+CREATE TRIGGER update_transaction_change_requests_updated_at
+  BEFORE UPDATE ON public.transaction_change_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Posted entries can only be changed through an approved request. Vendor linking only touches the
+-- vendor columns and stays direct; changes cascaded from other tables (pg_trigger_depth > 1) pass.
+CREATE OR REPLACE FUNCTION public.guard_posted_entry_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(current_setting('app.approved_entry_change', true), '') <> '' OR pg_trigger_depth() > 1 THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND to_jsonb(NEW) - 'vendor' - 'vendor_id' = to_jsonb(OLD) - 'vendor' - 'vendor_id' THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'Posted entries can only be % through an approved change request',
+    CASE TG_OP WHEN 'DELETE' THEN 'deleted' ELSE 'edited' END;
+END;
+$$;
+
+CREATE TRIGGER guard_grn_change
+  BEFORE UPDATE OR DELETE ON public.grn_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_posted_entry_change();
+
+CREATE TRIGGER guard_issue_change
+  BEFORE UPDATE OR DELETE ON public.issue_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_posted_entry_change();
+
+-- Issue edits now go through request_entry_change
+DROP FUNCTION IF EXISTS public.update_issue(UUID, DATE, NUMERIC, UUID, TEXT, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.request_entry_change(
+  p_entry_type TEXT,
+  p_entry_id UUID,
+  p_action TEXT,
+  p_new_values JSONB DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_module TEXT;
+  v_editable TEXT[];
+  v_old JSONB;
+  v_new JSONB := '{}'::jsonb;
+  v_key TEXT;
+  v_label TEXT;
+  v_request_id UUID;
+  v_approver UUID;
+BEGIN
+  IF p_entry_type = 'grn' THEN
+    v_module := 'grn';
+    v_editable := ARRAY['date', 'grn_number', 'qty_received', 'invoice_number', 'vendor_id', 'vendor',
+                        'amount_inr', 'remarks', 'location_id', 'lot_number', 'expiry_date'];
+    SELECT to_jsonb(g) INTO v_old FROM public.grn_log g WHERE g.id = p_entry_id;
+  ELSIF p_entry_type = 'issue' THEN
+    v_module := 'issues';
+    v_editable := ARRAY['date', 'qty_issued', 'location_id', 'purpose', 'remarks', 'uiorn', 'production_stage'];
+    SELECT to_jsonb(i) INTO v_old FROM public.issue_log i WHERE i.id = p_entry_id;
+  ELSE
+    RAISE EXCEPTION 'Unknown entry type %', p_entry_type;
+  END IF;
+
+  IF p_action NOT IN ('UPDATE', 'DELETE') THEN
+    RAISE EXCEPTION 'Unknown action %', p_action;
+  END IF;
+
+  IF NOT has_permission(auth.uid(), v_module, CASE p_action WHEN 'UPDATE' THEN 'edit' ELSE 'delete' END) THEN
+    RAISE EXCEPTION 'You do not have permission to % this entry', lower(p_action);
+  END IF;
+
+  IF v_old IS NULL THEN
+    RAISE EXCEPTION 'Entry not found';
+  END IF;
+
+  IF p_action = 'UPDATE' THEN
+    FOREACH v_key IN ARRAY v_editable LOOP
+      IF p_new_values ? v_key AND p_new_values -> v_key IS DISTINCT FROM v_old -> v_key THEN
+        v_new := v_new || jsonb_build_object(v_key, p_new_values -> v_key);
+      END IF;
+    END LOOP;
+
+    IF v_new = '{}'::jsonb THEN
+      RAISE EXCEPTION 'Nothing has changed';
+    END IF;
+
+    IF COALESCE((v_new ->> CASE p_entry_type WHEN 'grn' THEN 'qty_received' ELSE 'qty_issued' END)::NUMERIC, 1) <= 0 THEN
+      RAISE EXCEPTION 'Quantity must be greater than 0';
+    END IF;
+  ELSE
+    v_new := NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.transaction_change_requests
+    WHERE entry_type = p_entry_type AND entry_id = p_entry_id AND status = 'PENDING'
+  ) THEN
+    RAISE EXCEPTION 'A change to this entry is already waiting for approval';
+  END IF;
+
+  INSERT INTO public.transaction_change_requests (entry_type, entry_id, action, old_values, new_values, reason, requested_by)
+  VALUES (p_entry_type, p_entry_id, p_action, v_old, v_new, NULLIF(trim(p_reason), ''), auth.uid())
+  RETURNING id INTO v_request_id;
+
+  v_label := CASE p_entry_type
+    WHEN 'grn' THEN 'GRN ' || (v_old ->> 'grn_number')
+    ELSE 'Issue of ' || (v_old ->> 'item_code') || ' on ' || (v_old ->> 'date')
+  END;
+
+  FOR v_approver IN
+    SELECT user_id FROM public.user_roles WHERE role = 'admin'
+    UNION
+    SELECT a.user_id
+    FROM public.user_role_assignments a
+    JOIN public.role_permissions rp ON rp.role_id = a.role_id
+    WHERE rp.module = v_module AND rp.can_approve
+  LOOP
+    IF v_approver <> auth.uid() THEN
+      PERFORM public.create_notification(
+        v_approver,
+        'Change waiting for approval',
+        v_label || ': ' || CASE p_action WHEN 'UPDATE' THEN 'edit' ELSE 'deletion' END || ' requested',
+        '/change-requests'
+      );
+    END IF;
+  END LOOP;
+
+  RETURN v_request_id;
+END;
+$$;
+
+-- Approving applies the change, which fires the usual stock triggers; the requester cannot approve
+-- their own change. Requests whose entry changed since they were raised can only be rejected.
+CREATE OR REPLACE FUNCTION public.review_entry_change(
+  p_request_id UUID,
+  p_approve BOOLEAN,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request RECORD;
+  v_module TEXT;
+  v_current JSONB;
+  v_grn public.grn_log;
+  v_issue public.issue_log;
+  v_label TEXT;
+BEGIN
+  SELECT * INTO v_request
+  FROM public.transaction_change_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Change request not found';
+  END IF;
+
+  v_module := CASE v_request.entry_type WHEN 'grn' THEN 'grn' ELSE 'issues' END;
+
+  IF NOT has_permission(auth.uid(), v_module, 'approve') THEN
+    RAISE EXCEPTION 'You do not have permission to review this change';
+  END IF;
+
+  IF v_request.requested_by = auth.uid() THEN
+    RAISE EXCEPTION 'A change has to be reviewed by someone other than the person who requested it';
+  END IF;
+
+  IF v_request.status <> 'PENDING' THEN
+    RAISE EXCEPTION 'This change has already been %', lower(v_request.status);
+  END IF;
+
+  IF p_approve THEN
+    IF v_request.entry_type = 'grn' THEN
+      SELECT to_jsonb(g) INTO v_current FROM public.grn_log g WHERE g.id = v_request.entry_id FOR UPDATE;
+    ELSE
+      SELECT to_jsonb(i) INTO v_current FROM public.issue_log i WHERE i.id = v_request.entry_id FOR UPDATE;
+    END IF;
+
+    IF v_current IS NULL THEN
+      RAISE EXCEPTION 'The entry no longer exists; reject this request';
+    END IF;
+
+    IF v_current - 'vendor' - 'vendor_id' <> v_request.old_values - 'vendor' - 'vendor_id' THEN
+      RAISE EXCEPTION 'The entry has changed since this request was made; reject it and request again';
+    END IF;
+
+    PERFORM set_config('app.approved_entry_change', p_request_id::TEXT, true);
+
+    IF v_request.entry_type = 'grn' THEN
+      IF v_request.action = 'DELETE' THEN
+        DELETE FROM public.grn_log WHERE id = v_request.entry_id;
+      ELSE
+        v_grn := jsonb_populate_record(NULL::public.grn_log, v_current || v_request.new_values);
+        UPDATE public.grn_log
+        SET
+          date = v_grn.date,
+          grn_number = v_grn.grn_number,
+          qty_received = v_grn.qty_received,
+          invoice_number = v_grn.invoice_number,
+          vendor_id = v_grn.vendor_id,
+          vendor = v_grn.vendor,
+          amount_inr = v_grn.amount_inr,
+          remarks = v_grn.remarks,
+          location_id = v_grn.location_id,
+          lot_number = v_grn.lot_number,
+          expiry_date = v_grn.expiry_date
+        WHERE id = v_request.entry_id;
+      END IF;
+    ELSE
+      IF v_request.action = 'DELETE' THEN
+        DELETE FROM public.issue_log WHERE id = v_request.entry_id;
+      ELSE
+        v_issue := jsonb_populate_record(NULL::public.issue_log, v_current || v_request.new_values);
+
+        IF v_issue.qty_issued IS NULL OR v_issue.qty_issued <= 0 THEN
+          RAISE EXCEPTION 'Quantity must be greater than 0';
+        END IF;
+
+        PERFORM public.lock_stock_for_issue(
+          v_issue.item_code,
+          v_issue.location_id,
+          v_issue.qty_issued,
+          (v_current ->> 'qty_issued')::NUMERIC,
+          (v_current ->> 'location_id')::UUID
+        );
+
+        UPDATE public.issue_log
+        SET
+          date = v_issue.date,
+          qty_issued = v_issue.qty_issued,
+          location_id = v_issue.location_id,
+          purpose = v_issue.purpose,
+          remarks = v_issue.remarks,
+          uiorn = v_issue.uiorn,
+          production_stage = v_issue.production_stage
+        WHERE id = v_request.entry_id;
+      END IF;
+    END IF;
+
+    PERFORM set_config('app.approved_entry_change', '', true);
+  END IF;
+
+  UPDATE public.transaction_change_requests
+  SET
+    status = CASE WHEN p_approve THEN 'APPROVED' ELSE 'REJECTED' END,
+    reviewed_by = auth.uid(),
+    reviewed_at = now(),
+    review_notes = NULLIF(trim(p_notes), '')
+  WHERE id = p_request_id;
+
+  v_label := CASE v_request.entry_type
+    WHEN 'grn' THEN 'GRN ' || (v_request.old_values ->> 'grn_number')
+    ELSE 'Issue of ' || (v_request.old_values ->> 'item_code') || ' on ' || (v_request.old_values ->> 'date')
+  END;
+
+  PERFORM public.create_notification(
+    v_request.requested_by,
+    CASE WHEN p_approve THEN 'Change approved' ELSE 'Change rejected' END,
+    v_label || ': your ' || CASE v_request.action WHEN 'UPDATE' THEN 'edit' ELSE 'deletion' END
+      || CASE WHEN p_approve THEN ' was applied' ELSE ' was rejected' END
+      || COALESCE(' (' || NULLIF(trim(p_notes), '') || ')', ''),
+    '/change-requests'
+  );
+END;
+$$;
+
+-- Rolling back an import is its own reviewed action, so it may remove the batch's posted entries
+CREATE OR REPLACE FUNCTION public.rollback_import_batch(p_batch_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch RECORD;
+  v_issue_count INTEGER;
+  v_grn_count INTEGER;
+  v_item_count INTEGER := 0;
+  v_item_code TEXT;
+  v_lot_number TEXT;
+BEGIN
+  IF NOT has_permission(auth.uid(), 'imports', 'delete') THEN
+    RAISE EXCEPTION 'You do not have permission to roll back imports';
+  END IF;
+
+  SELECT * INTO v_batch
+  FROM public.csv_upload_log
+  WHERE id = p_batch_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import not found';
+  END IF;
+
+  IF v_batch.status <> 'COMMITTED' THEN
+    RAISE EXCEPTION 'Only committed imports can be rolled back; this one is %', lower(v_batch.status);
+  END IF;
+
+  -- A received lot that has since been issued by other entries cannot be taken back
+  SELECT g.lot_number INTO v_lot_number
+  FROM public.grn_log g
+  JOIN public.issue_log i ON i.lot_id = g.id
+  WHERE g.import_batch_id = p_batch_id
+    AND i.import_batch_id IS DISTINCT FROM p_batch_id
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Lot % from this import has already been issued; delete those issues first', v_lot_number;
+  END IF;
+
+  PERFORM set_config('app.approved_entry_change', 'import-rollback', true);
+
+  DELETE FROM public.issue_log WHERE import_batch_id = p_batch_id;
+  GET DIAGNOSTICS v_issue_count = ROW_COUNT;
+
+  DELETE FROM public.grn_log WHERE import_batch_id = p_batch_id;
+  GET DIAGNOSTICS v_grn_count = ROW_COUNT;
+
+  PERFORM set_config('app.approved_entry_change', '', true);
+
+  FOR v_item_code IN SELECT item_code FROM public.item_master WHERE import_batch_id = p_batch_id
+  LOOP
+    BEGIN
+      DELETE FROM public.stock WHERE item_code = v_item_code;
+      DELETE FROM public.item_master WHERE item_code = v_item_code;
+      v_item_count := v_item_count + 1;
+    EXCEPTION WHEN foreign_key_violation THEN
+      RAISE EXCEPTION 'Item % from this import is already used elsewhere and cannot be removed', v_item_code;
+    END;
+  END LOOP;
+
+  UPDATE public.csv_upload_log
+  SET
+    status = 'ROLLED_BACK',
+    rolled_back_at = now(),
+    rolled_back_by = auth.uid()
+  WHERE id = p_batch_id;
+
+  RETURN jsonb_build_object('grn_rows', v_grn_count, 'issue_rows', v_issue_count, 'item_rows', v_item_count);
+END;
+$$;
@@ -0,0 +1,102 @@
+-- Audit trail for master data and access changes, alongside grn_audit_log and issue_audit_log.
+
+-- Audit rows have to outlive the entries they describe; with the foreign keys in place the
+-- audit row written by the delete trigger blocked the delete itself
+ALTER TABLE public.grn_audit_log DROP CONSTRAINT IF EXISTS grn_audit_log_grn_id_fkey;
+ALTER TABLE public.issue_audit_log DROP CONSTRAINT IF EXISTS issue_audit_log_issue_id_fkey;
+
+CREATE INDEX IF NOT EXISTS idx_grn_audit_log_created_at ON public.grn_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_issue_audit_log_created_at ON public.issue_audit_log(created_at DESC);
+
+CREATE TABLE public.master_data_audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  -- item_code for items and stock, user_id for access tables, id otherwise
+  record_key TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  old_values JSONB,
+  new_values JSONB,
+  user_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_master_data_audit_log_created_at ON public.master_data_audit_log(created_at DESC);
+CREATE INDEX idx_master_data_audit_log_record ON public.master_data_audit_log(table_name, record_key);
+
+ALTER TABLE public.master_data_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin full access to master_data_audit_log"
+ON public.master_data_audit_log
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Changes to user access stay admin-only
+CREATE POLICY "Permitted users can read master_data_audit_log"
+ON public.master_data_audit_log
+FOR SELECT
+USING (
+  (table_name IN ('item_master', 'categories') AND has_permission(auth.uid(), 'items', 'view'))
+  OR (table_name = 'stock' AND has_permission(auth.uid(), 'inventory', 'view'))
+);
+
+-- TG_ARGV[0] names the column used as record_key. Updates that only touch timestamps are skipped,
+-- so stock rows are logged when a quantity changes, not on every recalculation.
+CREATE OR REPLACE FUNCTION public.log_master_data_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old JSONB := CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END;
+  v_new JSONB := CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END;
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND v_old - 'updated_at' - 'last_updated' = v_new - 'updated_at' - 'last_updated' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.master_data_audit_log (table_name, record_key, action, old_values, new_values, user_id)
+  VALUES (
+    TG_TABLE_NAME,
+    COALESCE(v_new, v_old) ->> TG_ARGV[0],
+    TG_OP,
+    v_old,
+    v_new,
+    auth.uid()
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER audit_item_master_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.item_master
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_master_data_change('item_code');
+
+CREATE TRIGGER audit_categories_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_master_data_change('id');
+
+CREATE TRIGGER audit_stock_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.stock
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_master_data_change('item_code');
+
+CREATE TRIGGER audit_user_roles_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.user_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_master_data_change('user_id');
+
+-- Role assignments and permissions decide access as much as user_roles does
+CREATE TRIGGER audit_user_role_assignments_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.user_role_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_master_data_change('user_id');
+
+CREATE TRIGGER audit_role_permissions_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.role_permissions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_master_data_change('role_id');
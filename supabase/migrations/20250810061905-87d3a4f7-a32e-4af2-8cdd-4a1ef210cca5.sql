@@ -0,0 +1,186 @@
+-- Accounting period closing: once a month is closed, GRNs, issues and stock adjustments dated
+-- in it can no longer be added, changed or deleted, so closed stock history and
+-- daily_stock_snapshots stay valid.
+
+CREATE TABLE public.accounting_periods (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  period_month DATE NOT NULL UNIQUE CHECK (period_month = date_trunc('month', period_month)::date),
+  is_locked BOOLEAN NOT NULL DEFAULT true,
+  locked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_by UUID,
+  reopened_at TIMESTAMP WITH TIME ZONE,
+  reopened_by UUID,
+  reopen_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (is_locked OR length(trim(COALESCE(reopen_reason, ''))) > 0)
+);
+
+ALTER TABLE public.accounting_periods ENABLE ROW LEVEL SECURITY;
+
+-- Everyone needs the closed months to grey out locked entries; changes go through
+-- close_accounting_period and reopen_accounting_period only
+CREATE POLICY "Users can read accounting_periods"
+ON public.accounting_periods
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE TRIGGER update_accounting_periods_updated_at
+  BEFORE UPDATE ON public.accounting_periods
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Closing and reopening land in the audit trail with the user and reopen reason
+CREATE TRIGGER audit_accounting_periods_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.accounting_periods
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_master_data_change('period_month');
+
+CREATE OR REPLACE FUNCTION public.is_period_locked(p_date DATE)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.accounting_periods
+    WHERE period_month = date_trunc('month', p_date)::date
+      AND is_locked
+  );
+$$;
+
+-- Applies to approved change requests and import rollbacks as well; only vendor links,
+-- which do not touch stock, may still be fixed on closed entries
+CREATE OR REPLACE FUNCTION public.enforce_period_lock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND to_jsonb(NEW) - 'vendor' - 'vendor_id' = to_jsonb(OLD) - 'vendor' - 'vendor_id' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') AND public.is_period_locked(OLD.date) THEN
+    RAISE EXCEPTION 'The period for % is closed; entries dated in it cannot be changed', to_char(OLD.date, 'Mon YYYY');
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND public.is_period_locked(NEW.date) THEN
+    RAISE EXCEPTION 'The period for % is closed; entries cannot be dated in it', to_char(NEW.date, 'Mon YYYY');
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER enforce_grn_period_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON public.grn_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_period_lock();
+
+CREATE TRIGGER enforce_issue_period_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON public.issue_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_period_lock();
+
+CREATE TRIGGER enforce_adjustment_period_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON public.stock_adjustment_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_period_lock();
+
+-- Refuse change requests that could never be approved
+CREATE OR REPLACE FUNCTION public.guard_change_request_period()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF public.is_period_locked((NEW.old_values ->> 'date')::date) THEN
+    RAISE EXCEPTION 'The period for % is closed; entries dated in it cannot be changed',
+      to_char((NEW.old_values ->> 'date')::date, 'Mon YYYY');
+  END IF;
+
+  IF NEW.new_values ? 'date' AND public.is_period_locked((NEW.new_values ->> 'date')::date) THEN
+    RAISE EXCEPTION 'The period for % is closed; entries cannot be dated in it',
+      to_char((NEW.new_values ->> 'date')::date, 'Mon YYYY');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_change_request_period
+  BEFORE INSERT ON public.transaction_change_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_change_request_period();
+
+CREATE OR REPLACE FUNCTION public.close_accounting_period(p_period_month DATE)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_month DATE := date_trunc('month', p_period_month)::date;
+  v_pending INTEGER;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can close accounting periods';
+  END IF;
+
+  IF v_month >= date_trunc('month', CURRENT_DATE)::date THEN
+    RAISE EXCEPTION 'Only months that have ended can be closed';
+  END IF;
+
+  -- Pending requests on entries in the month could not be approved afterwards
+  SELECT COUNT(*) INTO v_pending
+  FROM public.transaction_change_requests
+  WHERE status = 'PENDING'
+    AND date_trunc('month', (old_values ->> 'date')::date)::date = v_month;
+
+  IF v_pending > 0 THEN
+    RAISE EXCEPTION 'Resolve the % pending change request(s) for % before closing it', v_pending, to_char(v_month, 'Mon YYYY');
+  END IF;
+
+  INSERT INTO public.accounting_periods (period_month, is_locked, locked_at, locked_by)
+  VALUES (v_month, true, now(), auth.uid())
+  ON CONFLICT (period_month) DO UPDATE
+  SET is_locked = true,
+      locked_at = now(),
+      locked_by = auth.uid()
+  WHERE NOT accounting_periods.is_locked;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reopen_accounting_period(p_period_month DATE, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_month DATE := date_trunc('month', p_period_month)::date;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can reopen accounting periods';
+  END IF;
+
+  IF length(trim(COALESCE(p_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'A reason is required to reopen a closed period';
+  END IF;
+
+  UPDATE public.accounting_periods
+  SET is_locked = false,
+      reopened_at = now(),
+      reopened_by = auth.uid(),
+      reopen_reason = trim(p_reason)
+  WHERE period_month = v_month
+    AND is_locked;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION '% is not closed', to_char(v_month, 'Mon YYYY');
+  END IF;
+END;
+$$;
@@ -0,0 +1,10 @@
+-- Issues are only posted through post_issue and import_csv_rows, which lock the stock row and apply
+-- allow_negative_stock and the per-location balance check. A direct insert skipped all of that.
+DROP POLICY IF EXISTS "Permitted users can create issue_log" ON public.issue_log;
+
+-- Admin full access would still allow it; the SECURITY DEFINER functions bypass RLS as table owner
+CREATE POLICY "Issues are posted through post_issue"
+ON public.issue_log
+AS RESTRICTIVE
+FOR INSERT
+WITH CHECK (false);
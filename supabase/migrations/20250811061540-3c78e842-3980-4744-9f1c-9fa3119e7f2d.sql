@@ -0,0 +1,112 @@
+-- Period closing is cumulative: closing a month closes everything dated on or before its end.
+-- The books are closed through the latest locked month, and only that month can be reopened.
+
+CREATE OR REPLACE FUNCTION public.get_closed_through_month()
+RETURNS DATE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT MAX(period_month) FROM public.accounting_periods WHERE is_locked;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_period_locked(p_date DATE)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(date_trunc('month', p_date)::date <= public.get_closed_through_month(), false);
+$$;
+
+CREATE OR REPLACE FUNCTION public.close_accounting_period(p_period_month DATE)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_month DATE := date_trunc('month', p_period_month)::date;
+  v_pending INTEGER;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can close accounting periods';
+  END IF;
+
+  IF v_month >= date_trunc('month', CURRENT_DATE)::date THEN
+    RAISE EXCEPTION 'Only months that have ended can be closed';
+  END IF;
+
+  IF public.is_period_locked(v_month) THEN
+    RAISE EXCEPTION '% is already closed', to_char(v_month, 'Mon YYYY');
+  END IF;
+
+  -- Pending requests on entries in the closed range could not be approved afterwards
+  SELECT COUNT(*) INTO v_pending
+  FROM public.transaction_change_requests
+  WHERE status = 'PENDING'
+    AND date_trunc('month', (old_values ->> 'date')::date)::date <= v_month;
+
+  IF v_pending > 0 THEN
+    RAISE EXCEPTION 'Resolve the % pending change request(s) dated on or before % before closing it',
+      v_pending, to_char(v_month, 'Mon YYYY');
+  END IF;
+
+  -- Earlier months that were reopened are closed again, so the audit trail shows it
+  UPDATE public.accounting_periods
+  SET is_locked = true,
+      locked_at = now(),
+      locked_by = auth.uid()
+  WHERE period_month < v_month
+    AND NOT is_locked;
+
+  INSERT INTO public.accounting_periods (period_month, is_locked, locked_at, locked_by)
+  VALUES (v_month, true, now(), auth.uid())
+  ON CONFLICT (period_month) DO UPDATE
+  SET is_locked = true,
+      locked_at = now(),
+      locked_by = auth.uid();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reopen_accounting_period(p_period_month DATE, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_month DATE := date_trunc('month', p_period_month)::date;
+  v_closed_through DATE := public.get_closed_through_month();
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can reopen accounting periods';
+  END IF;
+
+  IF length(trim(COALESCE(p_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'A reason is required to reopen a closed period';
+  END IF;
+
+  IF v_closed_through IS NULL OR v_month > v_closed_through THEN
+    RAISE EXCEPTION '% is not closed', to_char(v_month, 'Mon YYYY');
+  END IF;
+
+  IF v_month < v_closed_through THEN
+    RAISE EXCEPTION 'Reopen % first; months are reopened latest first', to_char(v_closed_through, 'Mon YYYY');
+  END IF;
+
+  UPDATE public.accounting_periods
+  SET is_locked = false,
+      reopened_at = now(),
+      reopened_by = auth.uid(),
+      reopen_reason = trim(p_reason)
+  WHERE period_month = v_month;
+
+  -- Only this month reopens; the month before stays closed even if it was never closed on its own
+  INSERT INTO public.accounting_periods (period_month, is_locked, locked_at, locked_by)
+  VALUES ((v_month - INTERVAL '1 month')::date, true, now(), auth.uid())
+  ON CONFLICT (period_month) DO NOTHING;
+END;
+$$;
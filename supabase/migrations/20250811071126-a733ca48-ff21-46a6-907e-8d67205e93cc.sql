@@ -0,0 +1,431 @@
+-- Views run with their owner's rights, so they bypassed the per-module RLS on the tables they read.
+-- Each one now checks the module itself. They are not security_invoker: a user who can see purchase
+-- orders but not GRNs would then get received quantities silently summed from nothing.
+
+-- Scheduled jobs and edge functions using the service role see everything, as they did before
+CREATE OR REPLACE FUNCTION public.can_view_module(p_module TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(auth.role(), 'service_role') = 'service_role'
+    OR has_permission(auth.uid(), p_module, 'view');
+$$;
+
+-- Purchasing: PO progress and vendor spend
+CREATE OR REPLACE VIEW purchase_order_line_status AS
+SELECT
+  pol.id AS po_line_id,
+  pol.po_id,
+  po.po_number,
+  po.vendor,
+  po.po_date,
+  po.status AS po_status,
+  pol.item_code,
+  im.item_name,
+  im.uom,
+  pol.ordered_qty,
+  pol.rate,
+  pol.expected_date,
+  COALESCE(grn_totals.received_qty, 0) AS received_qty,
+  GREATEST(pol.ordered_qty - COALESCE(grn_totals.received_qty, 0), 0) AS pending_qty,
+  GREATEST(COALESCE(grn_totals.received_qty, 0) - pol.ordered_qty, 0) AS over_received_qty,
+  grn_totals.last_received_date,
+  CASE
+    WHEN COALESCE(grn_totals.received_qty, 0) = 0 THEN 'PENDING'
+    WHEN grn_totals.received_qty < pol.ordered_qty THEN 'PARTIAL'
+    WHEN grn_totals.received_qty = pol.ordered_qty THEN 'RECEIVED'
+    ELSE 'OVER_RECEIVED'
+  END AS line_status,
+  (pol.expected_date IS NOT NULL
+    AND pol.expected_date < CURRENT_DATE
+    AND COALESCE(grn_totals.received_qty, 0) < pol.ordered_qty) AS is_overdue,
+  po.vendor_id
+FROM public.purchase_order_lines pol
+JOIN public.purchase_orders po ON po.id = pol.po_id
+LEFT JOIN public.item_master im ON im.item_code = pol.item_code
+LEFT JOIN (
+  SELECT
+    po_line_id,
+    SUM(qty_received) AS received_qty,
+    MAX(date) AS last_received_date
+  FROM public.grn_log
+  WHERE po_line_id IS NOT NULL
+  GROUP BY po_line_id
+) grn_totals ON grn_totals.po_line_id = pol.id
+WHERE public.can_view_module('purchasing');
+
+CREATE OR REPLACE VIEW vendor_purchase_summary AS
+SELECT
+  v.id AS vendor_id,
+  v.vendor_name,
+  v.status,
+  COUNT(g.id) AS grn_count,
+  COALESCE(SUM(g.amount_inr), 0) AS total_spend,
+  COUNT(DISTINCT g.item_code) AS items_supplied,
+  MIN(g.date) AS first_purchase_date,
+  MAX(g.date) AS last_purchase_date
+FROM public.vendors v
+LEFT JOIN public.grn_log g ON g.vendor_id = v.id
+WHERE public.can_view_module('purchasing')
+GROUP BY v.id, v.vendor_name, v.status;
+
+CREATE OR REPLACE VIEW vendor_item_purchase_history AS
+SELECT
+  totals.vendor_id,
+  v.vendor_name,
+  totals.item_code,
+  im.item_name,
+  im.uom,
+  totals.grn_count,
+  totals.total_qty,
+  totals.total_amount,
+  CASE WHEN totals.priced_qty > 0 THEN ROUND(totals.total_amount / totals.priced_qty, 2) END AS avg_rate,
+  last_rate.last_rate,
+  last_rate.last_rate_date,
+  totals.last_purchase_date
+FROM (
+  SELECT
+    vendor_id,
+    item_code,
+    COUNT(*) AS grn_count,
+    SUM(qty_received) AS total_qty,
+    COALESCE(SUM(amount_inr), 0) AS total_amount,
+    SUM(qty_received) FILTER (WHERE amount_inr IS NOT NULL) AS priced_qty,
+    MAX(date) AS last_purchase_date
+  FROM public.grn_log
+  WHERE vendor_id IS NOT NULL
+  GROUP BY vendor_id, item_code
+) totals
+JOIN public.vendors v ON v.id = totals.vendor_id
+LEFT JOIN public.item_master im ON im.item_code = totals.item_code
+LEFT JOIN LATERAL (
+  SELECT
+    ROUND(g.amount_inr / g.qty_received, 2) AS last_rate,
+    g.date AS last_rate_date
+  FROM public.grn_log g
+  WHERE g.vendor_id = totals.vendor_id
+    AND g.item_code = totals.item_code
+    AND g.amount_inr IS NOT NULL
+    AND g.qty_received > 0
+  ORDER BY g.date DESC, g.created_at DESC
+  LIMIT 1
+) last_rate ON true
+WHERE public.can_view_module('purchasing');
+
+-- Production: job material usage and costing
+CREATE OR REPLACE VIEW job_material_consumption AS
+SELECT
+  il.uiorn,
+  il.production_stage,
+  il.item_code,
+  im.item_name,
+  im.uom,
+  COUNT(*) AS issue_count,
+  SUM(il.qty_issued) AS total_qty,
+  ROUND(SUM(COALESCE(iv.total_cost, 0)), 2) AS total_cost,
+  MIN(il.date) AS first_issue_date,
+  MAX(il.date) AS last_issue_date
+FROM public.issue_log il
+JOIN public.item_master im ON im.item_code = il.item_code
+LEFT JOIN public.issue_valuation iv ON iv.issue_id = il.id
+WHERE il.uiorn IS NOT NULL
+  AND public.can_view_module('production')
+GROUP BY il.uiorn, il.production_stage, il.item_code, im.item_name, im.uom;
+
+CREATE OR REPLACE VIEW job_costing_summary AS
+SELECT
+  op.uiorn,
+  op.job_no,
+  op.item_code,
+  op.item_name,
+  op.order_entry_date,
+  op.deckle,
+  op.length,
+  ROUND(op.deckle / 1000.0 * op.length, 2) AS job_area_sqm,
+  COALESCE(m.issue_count, 0) AS issue_count,
+  COALESCE(m.items_issued, 0) AS items_issued,
+  COALESCE(m.total_qty, 0) AS total_qty,
+  COALESCE(m.material_cost, 0) AS material_cost,
+  m.last_issue_date,
+  op.cost_estimate_id,
+  ce.brand_sku_ref AS estimate_ref,
+  ce.cost_per_sqm AS estimate_cost_per_sqm,
+  CASE
+    WHEN ce.cost_per_sqm IS NOT NULL THEN ROUND(ce.cost_per_sqm * op.deckle / 1000.0 * op.length, 2)
+    ELSE ce.total_cost_estimate
+  END AS estimated_cost
+FROM public.order_punching op
+LEFT JOIN (
+  SELECT
+    il.uiorn,
+    COUNT(*) AS issue_count,
+    COUNT(DISTINCT il.item_code) AS items_issued,
+    SUM(il.qty_issued) AS total_qty,
+    ROUND(SUM(COALESCE(iv.total_cost, 0)), 2) AS material_cost,
+    MAX(il.date) AS last_issue_date
+  FROM public.issue_log il
+  LEFT JOIN public.issue_valuation iv ON iv.issue_id = il.id
+  WHERE il.uiorn IS NOT NULL
+  GROUP BY il.uiorn
+) m ON m.uiorn = op.uiorn
+LEFT JOIN public.cost_mockup_estimate ce ON ce.id = op.cost_estimate_id
+WHERE public.can_view_module('production');
+
+CREATE OR REPLACE VIEW job_bom_consumption AS
+WITH actuals AS (
+  SELECT il.uiorn, il.item_code, SUM(il.qty_issued) AS actual_qty
+  FROM public.issue_log il
+  WHERE il.uiorn IS NOT NULL
+  GROUP BY il.uiorn, il.item_code
+),
+planned AS (
+  SELECT
+    op.uiorn,
+    bl.component_item_code AS item_code,
+    ROUND(bl.qty_per_unit * op.planned_qty * (1 + bl.scrap_pct / 100), 4) AS planned_qty
+  FROM public.order_punching op
+  JOIN public.bom_lines bl ON bl.bom_id = op.bom_id
+  WHERE op.planned_qty IS NOT NULL
+)
+SELECT
+  COALESCE(p.uiorn, a.uiorn) AS uiorn,
+  COALESCE(p.item_code, a.item_code) AS item_code,
+  im.item_name,
+  im.uom,
+  COALESCE(p.planned_qty, 0) AS planned_qty,
+  COALESCE(a.actual_qty, 0) AS actual_qty,
+  COALESCE(a.actual_qty, 0) - COALESCE(p.planned_qty, 0) AS variance_qty,
+  p.item_code IS NOT NULL AS on_bom
+FROM planned p
+FULL OUTER JOIN actuals a ON a.uiorn = p.uiorn AND a.item_code = p.item_code
+JOIN public.item_master im ON im.item_code = COALESCE(p.item_code, a.item_code)
+WHERE COALESCE(p.uiorn, a.uiorn) IN (
+  SELECT uiorn FROM public.order_punching WHERE bom_id IS NOT NULL
+)
+AND public.can_view_module('production');
+
+-- Stock quantities stay visible to everyone; valuation is limited to report viewers
+CREATE OR REPLACE VIEW stock_summary AS
+SELECT
+  s.item_code,
+  im.item_name,
+  c.category_name,
+  s.opening_qty,
+  COALESCE(grn_totals.total_grn_qty, 0) as total_grn_qty,
+  COALESCE(issue_totals.total_issued_qty, 0) as total_issued_qty,
+  s.current_qty,
+
+  -- Validation field: calculated vs actual stock
+  (s.opening_qty + COALESCE(grn_totals.total_grn_qty, 0) - COALESCE(issue_totals.total_issued_qty, 0) + COALESCE(adjustment_totals.total_adjustment_qty, 0)) as calculated_qty,
+
+  -- Consumption tracking for multiple periods
+  COALESCE(recent_consumption_7d.issue_7d, 0) as issue_7d,
+  COALESCE(recent_consumption_30d.issue_30d, 0) as issue_30d,
+  COALESCE(recent_consumption_90d.issue_90d, 0) as issue_90d,
+
+  CASE
+    WHEN COALESCE(recent_consumption_30d.issue_30d, 0) > 0
+    THEN ROUND(s.current_qty / (recent_consumption_30d.issue_30d / 30.0), 1)
+    WHEN s.current_qty > 0 AND COALESCE(recent_consumption_30d.issue_30d, 0) = 0
+    THEN 999999  -- Infinite days of cover (no recent consumption)
+    ELSE 0  -- No stock
+  END as days_of_cover,
+
+  CASE
+    WHEN COALESCE(recent_consumption_7d.issue_7d, 0) > 0
+    THEN ROUND(s.current_qty / (recent_consumption_7d.issue_7d / 7.0), 1)
+    WHEN s.current_qty > 0 AND COALESCE(recent_consumption_7d.issue_7d, 0) = 0
+    THEN 999999
+    ELSE 0
+  END as days_of_cover_7d,
+
+  CASE
+    WHEN COALESCE(recent_consumption_90d.issue_90d, 0) > 0
+    THEN ROUND(s.current_qty / (recent_consumption_90d.issue_90d / 90.0), 1)
+    WHEN s.current_qty > 0 AND COALESCE(recent_consumption_90d.issue_90d, 0) = 0
+    THEN 999999
+    ELSE 0
+  END as days_of_cover_90d,
+
+  -- Validation and debugging fields
+  CASE
+    WHEN ABS((s.opening_qty + COALESCE(grn_totals.total_grn_qty, 0) - COALESCE(issue_totals.total_issued_qty, 0) + COALESCE(adjustment_totals.total_adjustment_qty, 0)) - s.current_qty) > 0.01
+    THEN 'MISMATCH'
+    ELSE 'OK'
+  END as stock_validation_status,
+
+  -- Daily consumption rates for different periods
+  CASE
+    WHEN COALESCE(recent_consumption_7d.issue_7d, 0) > 0
+    THEN ROUND(recent_consumption_7d.issue_7d / 7.0, 3)
+    ELSE 0
+  END as consumption_rate_7d,
+
+  CASE
+    WHEN COALESCE(recent_consumption_30d.issue_30d, 0) > 0
+    THEN ROUND(recent_consumption_30d.issue_30d / 30.0, 3)
+    ELSE 0
+  END as consumption_rate_30d,
+
+  CASE
+    WHEN COALESCE(recent_consumption_90d.issue_90d, 0) > 0
+    THEN ROUND(recent_consumption_90d.issue_90d / 90.0, 3)
+    ELSE 0
+  END as consumption_rate_90d,
+
+  -- NEW: Effective reorder levels (item value, else category default)
+  levels.min_level,
+  levels.reorder_point,
+  levels.safety_stock,
+  levels.max_level,
+
+  -- NEW: Stock status derived from the effective levels
+  CASE
+    WHEN s.current_qty <= 0
+    THEN 'OUT_OF_STOCK'
+    WHEN levels.min_level IS NULL AND levels.reorder_point IS NULL
+     AND levels.safety_stock IS NULL AND levels.max_level IS NULL
+    THEN 'NOT_CONFIGURED'
+    WHEN s.current_qty <= levels.safety_stock OR s.current_qty < levels.min_level
+    THEN 'CRITICAL'
+    WHEN s.current_qty <= levels.reorder_point
+    THEN 'LOW'
+    WHEN s.current_qty > levels.max_level
+    THEN 'OVERSTOCK'
+    ELSE 'NORMAL'
+  END as stock_status,
+
+  -- Inventory valuation (maintained by recalculate_item_valuation)
+  COALESCE(iv.valuation_method, c.valuation_method, 'WEIGHTED_AVERAGE') as valuation_method,
+  CASE WHEN public.can_view_module('reports') THEN COALESCE(iv.unit_cost, 0) END as unit_cost,
+  CASE WHEN public.can_view_module('reports') THEN COALESCE(iv.stock_value, 0) END as stock_value,
+
+  -- NEW: Net stock adjustments (count corrections and write-offs)
+  COALESCE(adjustment_totals.total_adjustment_qty, 0) as total_adjustment_qty
+
+FROM stock s
+LEFT JOIN item_master im ON s.item_code = im.item_code
+LEFT JOIN categories c ON im.category_id = c.id
+LEFT JOIN item_valuation iv ON s.item_code = iv.item_code
+
+CROSS JOIN LATERAL (
+  SELECT
+    COALESCE(im.min_level, c.default_min_level) as min_level,
+    COALESCE(im.reorder_point, c.default_reorder_point) as reorder_point,
+    COALESCE(im.safety_stock, c.default_safety_stock) as safety_stock,
+    COALESCE(im.max_level, c.default_max_level) as max_level
+) levels
+
+-- Total GRN quantities (all time)
+LEFT JOIN (
+  SELECT
+    item_code,
+    SUM(qty_received) as total_grn_qty
+  FROM grn_log
+  GROUP BY item_code
+) grn_totals ON s.item_code = grn_totals.item_code
+
+-- Total issue quantities (all time)
+LEFT JOIN (
+  SELECT
+    item_code,
+    SUM(qty_issued) as total_issued_qty
+  FROM issue_log
+  GROUP BY item_code
+) issue_totals ON s.item_code = issue_totals.item_code
+
+-- Net adjustment quantities (all time)
+LEFT JOIN (
+  SELECT
+    item_code,
+    SUM(qty) as total_adjustment_qty
+  FROM stock_adjustment_log
+  WHERE status = 'APPROVED'
+  GROUP BY item_code
+) adjustment_totals ON s.item_code = adjustment_totals.item_code
+
+-- 7-day consumption analysis
+LEFT JOIN (
+  SELECT
+    item_code,
+    SUM(qty_issued) as issue_7d
+  FROM issue_log
+  WHERE created_at >= CURRENT_DATE - INTERVAL '7 days'
+  GROUP BY item_code
+) recent_consumption_7d ON s.item_code = recent_consumption_7d.item_code
+
+-- 30-day consumption analysis
+LEFT JOIN (
+  SELECT
+    item_code,
+    SUM(qty_issued) as issue_30d
+  FROM issue_log
+  WHERE created_at >= CURRENT_DATE - INTERVAL '30 days'
+  GROUP BY item_code
+) recent_consumption_30d ON s.item_code = recent_consumption_30d.item_code
+
+-- 90-day consumption analysis
+LEFT JOIN (
+  SELECT
+    item_code,
+    SUM(qty_issued) as issue_90d
+  FROM issue_log
+  WHERE created_at >= CURRENT_DATE - INTERVAL '90 days'
+  GROUP BY item_code
+) recent_consumption_90d ON s.item_code = recent_consumption_90d.item_code;
+
+CREATE OR REPLACE VIEW location_stock AS
+WITH movements AS (
+  SELECT s.item_code, public.get_default_location_id() AS location_id, s.opening_qty AS qty
+  FROM public.stock s
+  UNION ALL
+  SELECT g.item_code, g.location_id, g.qty_received
+  FROM public.grn_log g
+  UNION ALL
+  SELECT i.item_code, i.location_id, -i.qty_issued
+  FROM public.issue_log i
+  UNION ALL
+  SELECT t.item_code, t.to_location_id, t.qty
+  FROM public.stock_transfers t
+  UNION ALL
+  SELECT t.item_code, t.from_location_id, -t.qty
+  FROM public.stock_transfers t
+  UNION ALL
+  SELECT a.item_code, a.location_id, a.qty
+  FROM public.stock_adjustment_log a
+  WHERE a.status = 'APPROVED'
+)
+SELECT
+  m.item_code,
+  im.item_name,
+  im.uom,
+  c.category_name,
+  sl.id AS location_id,
+  sl.location_code,
+  sl.location_name,
+  SUM(m.qty) AS current_qty,
+  CASE WHEN public.can_view_module('reports') THEN COALESCE(iv.unit_cost, 0) END AS unit_cost,
+  CASE WHEN public.can_view_module('reports') THEN ROUND(SUM(m.qty) * COALESCE(iv.unit_cost, 0), 2) END AS stock_value
+FROM movements m
+JOIN public.storage_locations sl ON sl.id = m.location_id
+JOIN public.item_master im ON im.item_code = m.item_code
+LEFT JOIN public.categories c ON c.id = im.category_id
+LEFT JOIN public.item_valuation iv ON iv.item_code = m.item_code
+GROUP BY m.item_code, im.item_name, im.uom, c.category_name, sl.id, sl.location_code, sl.location_name, iv.unit_cost;
+
+DROP POLICY IF EXISTS "Users can read item_valuation" ON public.item_valuation;
+
+CREATE POLICY "Permitted users can read item_valuation"
+ON public.item_valuation
+FOR SELECT
+USING (has_permission(auth.uid(), 'reports', 'view'));
+
+DROP POLICY IF EXISTS "Users can read issue_valuation" ON public.issue_valuation;
+
+CREATE POLICY "Permitted users can read issue_valuation"
+ON public.issue_valuation
+FOR SELECT
+USING (has_permission(auth.uid(), 'reports', 'view'));
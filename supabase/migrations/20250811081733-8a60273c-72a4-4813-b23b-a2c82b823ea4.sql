@@ -0,0 +1,96 @@
+-- Valuation is recalculated once per item per transaction instead of once per changed row.
+-- recalculate_item_valuation replays the item's whole history, so a bulk import, an import rollback
+-- or a category method change used to cost O(n²) per item inside one transaction.
+-- Changes now queue the item; a deferred trigger values each queued item once at commit.
+
+CREATE TABLE public.valuation_recalc_queue (
+  item_code TEXT NOT NULL PRIMARY KEY
+);
+
+-- Written and emptied by the triggers below only
+ALTER TABLE public.valuation_recalc_queue ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.queue_valuation_recalc()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    INSERT INTO public.valuation_recalc_queue (item_code) VALUES (OLD.item_code) ON CONFLICT DO NOTHING;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    INSERT INTO public.valuation_recalc_queue (item_code) VALUES (NEW.item_code) ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.process_valuation_recalc()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.valuation_recalc_queue WHERE item_code = NEW.item_code;
+  PERFORM public.recalculate_item_valuation(NEW.item_code);
+  RETURN NULL;
+END;
+$$;
+
+-- The queue row only exists inside the transaction, so this fires once per item at commit
+CREATE CONSTRAINT TRIGGER process_valuation_recalc
+  AFTER INSERT ON public.valuation_recalc_queue
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION public.process_valuation_recalc();
+
+DROP TRIGGER IF EXISTS recalculate_valuation_on_grn ON public.grn_log;
+DROP TRIGGER IF EXISTS recalculate_valuation_on_issue ON public.issue_log;
+DROP TRIGGER IF EXISTS recalculate_valuation_on_opening_stock ON public.stock;
+DROP TRIGGER IF EXISTS recalculate_valuation_on_adjustment ON public.stock_adjustment_log;
+DROP FUNCTION IF EXISTS public.recalculate_valuation_on_transaction();
+
+CREATE TRIGGER recalculate_valuation_on_grn
+  AFTER INSERT OR UPDATE OR DELETE ON public.grn_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.queue_valuation_recalc();
+
+CREATE TRIGGER recalculate_valuation_on_issue
+  AFTER INSERT OR UPDATE OR DELETE ON public.issue_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.queue_valuation_recalc();
+
+CREATE TRIGGER recalculate_valuation_on_opening_stock
+  AFTER INSERT OR UPDATE OF opening_qty, opening_unit_cost ON public.stock
+  FOR EACH ROW
+  EXECUTE FUNCTION public.queue_valuation_recalc();
+
+CREATE TRIGGER recalculate_valuation_on_adjustment
+  AFTER INSERT OR UPDATE OR DELETE ON public.stock_adjustment_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.queue_valuation_recalc();
+
+-- Re-value items when their category or the category's method changes
+CREATE OR REPLACE FUNCTION public.recalculate_valuation_on_method_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'item_master' THEN
+    INSERT INTO public.valuation_recalc_queue (item_code) VALUES (NEW.item_code) ON CONFLICT DO NOTHING;
+  ELSE
+    INSERT INTO public.valuation_recalc_queue (item_code)
+    SELECT item_code FROM public.item_master WHERE category_id = NEW.id
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,136 @@
+-- Stock adjustments need a second person's sign-off, as change requests already do.
+-- Entries are no longer auto-approved for users who can approve, and nobody can approve or reject
+-- an adjustment they entered themselves. Only a stock count posting may insert already-approved
+-- corrections, since the count itself was approved in its own step.
+-- Loss checks now lock the item's stock row first, so two write-offs cannot both pass against the same quantity.
+
+CREATE OR REPLACE FUNCTION public.validate_stock_adjustment()
+RETURNS TRIGGER AS $$
+DECLARE
+  can_approve BOOLEAN := has_permission(auth.uid(), 'inventory', 'approve');
+  available NUMERIC;
+BEGIN
+  -- The entering user is who the second-person check compares against, so it cannot be supplied by the client
+  IF TG_OP = 'INSERT' THEN
+    NEW.created_by := COALESCE(auth.uid(), NEW.created_by);
+  ELSE
+    NEW.created_by := OLD.created_by;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.status <> 'PENDING' THEN
+    IF NEW.count_id IS NULL
+       OR COALESCE(current_setting('app.posting_stock_count', true), '') <> NEW.count_id::TEXT THEN
+      RAISE EXCEPTION 'New stock adjustments must be approved by someone other than the person who entered them';
+    END IF;
+
+    NEW.approved_at := now();
+  ELSIF TG_OP = 'UPDATE' AND OLD.status IS DISTINCT FROM NEW.status THEN
+    IF NOT can_approve THEN
+      RAISE EXCEPTION 'You do not have permission to approve or reject stock adjustments';
+    END IF;
+
+    IF OLD.status <> 'PENDING' THEN
+      RAISE EXCEPTION 'This adjustment has already been %', lower(OLD.status);
+    END IF;
+
+    IF NEW.created_by = auth.uid() THEN
+      RAISE EXCEPTION 'An adjustment has to be reviewed by someone other than the person who entered it';
+    END IF;
+
+    NEW.approved_by := auth.uid();
+    NEW.approved_at := now();
+  END IF;
+
+  IF NEW.status = 'APPROVED' AND NEW.qty < 0 AND NEW.reason <> 'COUNT_CORRECTION' THEN
+    -- Serialise with issues and other adjustments of the item before reading what is available
+    PERFORM 1
+    FROM public.stock
+    WHERE item_code = NEW.item_code
+    FOR UPDATE;
+
+    SELECT COALESCE(SUM(current_qty), 0)
+    INTO available
+    FROM public.location_stock
+    WHERE item_code = NEW.item_code AND location_id = NEW.location_id;
+
+    -- On edit, the adjustment's own approved quantity is already counted in the location
+    IF TG_OP = 'UPDATE' AND OLD.status = 'APPROVED'
+       AND OLD.item_code = NEW.item_code AND OLD.location_id = NEW.location_id THEN
+      available := available - OLD.qty;
+    END IF;
+
+    IF available + NEW.qty < 0 THEN
+      RAISE EXCEPTION 'Insufficient stock at location: % available, % to write off', available, -NEW.qty;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.post_stock_count(p_count_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count RECORD;
+  v_prefix TEXT := 'ADJ-' || to_char(CURRENT_DATE, 'YYYYMMDD') || '-';
+  v_seq INTEGER;
+  v_posted INTEGER;
+BEGIN
+  IF NOT has_permission(auth.uid(), 'inventory', 'approve') THEN
+    RAISE EXCEPTION 'You do not have permission to post stock count adjustments';
+  END IF;
+
+  SELECT * INTO v_count
+  FROM public.stock_counts
+  WHERE id = p_count_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock count not found';
+  END IF;
+
+  IF v_count.status <> 'APPROVED' THEN
+    RAISE EXCEPTION 'Only approved stock counts can be posted';
+  END IF;
+
+  SELECT COUNT(*) INTO v_seq
+  FROM public.stock_adjustment_log
+  WHERE adjustment_number LIKE v_prefix || '%';
+
+  -- Lets validate_stock_adjustment accept this count's corrections as already approved
+  PERFORM set_config('app.posting_stock_count', p_count_id::TEXT, true);
+
+  INSERT INTO public.stock_adjustment_log (
+    adjustment_number, date, item_code, location_id, qty, reason, remarks, count_id, status, approved_by
+  )
+  SELECT
+    v_prefix || lpad((v_seq + ROW_NUMBER() OVER (ORDER BY l.item_code, l.location_id))::TEXT, 3, '0'),
+    v_count.count_date,
+    l.item_code,
+    l.location_id,
+    l.counted_qty - l.system_qty,
+    'COUNT_CORRECTION',
+    COALESCE(NULLIF(btrim(l.remarks), ''), 'Stock count ' || v_count.count_number),
+    v_count.id,
+    'APPROVED',
+    v_count.approved_by
+  FROM public.stock_count_lines l
+  WHERE l.count_id = p_count_id
+    AND l.counted_qty IS NOT NULL
+    AND l.counted_qty <> l.system_qty;
+
+  GET DIAGNOSTICS v_posted = ROW_COUNT;
+
+  PERFORM set_config('app.posting_stock_count', '', true);
+
+  UPDATE public.stock_counts
+  SET status = 'POSTED', posted_at = now()
+  WHERE id = p_count_id;
+
+  RETURN v_posted;
+END;
+$$;
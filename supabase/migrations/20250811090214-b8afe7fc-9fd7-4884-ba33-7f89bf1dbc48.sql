@@ -0,0 +1,89 @@
+-- Brings back the auto_backup setting and snapshot pruning by data_retention_days.
+-- Snapshots dated in closed accounting periods are kept, since those months' stock history cannot change.
+
+INSERT INTO public.system_settings (key, value) VALUES
+  ('auto_backup', 'true'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.validate_system_setting()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  CASE NEW.key
+    WHEN 'company_name' THEN
+      IF jsonb_typeof(NEW.value) <> 'string' OR btrim(NEW.value #>> '{}') = '' THEN
+        RAISE EXCEPTION 'Company name cannot be empty';
+      END IF;
+    WHEN 'system_email' THEN
+      IF jsonb_typeof(NEW.value) <> 'string' OR (NEW.value #>> '{}') !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+        RAISE EXCEPTION 'System email must be a valid email address';
+      END IF;
+    WHEN 'notifications_enabled', 'auto_backup', 'allow_negative_stock' THEN
+      IF jsonb_typeof(NEW.value) <> 'boolean' THEN
+        RAISE EXCEPTION 'Setting % must be true or false', NEW.key;
+      END IF;
+    WHEN 'data_retention_days' THEN
+      IF jsonb_typeof(NEW.value) <> 'number'
+        OR (NEW.value #>> '{}')::NUMERIC <> trunc((NEW.value #>> '{}')::NUMERIC)
+        OR (NEW.value #>> '{}')::NUMERIC NOT BETWEEN 1 AND 3650 THEN
+        RAISE EXCEPTION 'Data retention must be a whole number of days between 1 and 3650';
+      END IF;
+    WHEN 'tally_export' THEN
+      IF jsonb_typeof(NEW.value) <> 'object' THEN
+        RAISE EXCEPTION 'Tally export settings must be an object';
+      END IF;
+    ELSE
+      RAISE EXCEPTION 'Unknown system setting %', NEW.key;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Deletes stock snapshots and analytics queries older than data_retention_days.
+-- Snapshots in closed periods are kept. Runs nightly from cron; admins can also run it from Settings.
+CREATE OR REPLACE FUNCTION public.prune_expired_data()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_days INTEGER;
+  v_snapshots INTEGER;
+  v_queries INTEGER;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can prune old data';
+  END IF;
+
+  v_days := COALESCE((get_system_setting('data_retention_days') #>> '{}')::INTEGER, 365);
+
+  DELETE FROM public.daily_stock_snapshots
+  WHERE snapshot_date < CURRENT_DATE - v_days
+    AND NOT public.is_period_locked(snapshot_date);
+  GET DIAGNOSTICS v_snapshots = ROW_COUNT;
+
+  DELETE FROM public.stock_analytics_queries
+  WHERE created_at < now() - make_interval(days => v_days);
+  GET DIAGNOSTICS v_queries = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'retention_days', v_days,
+    'snapshots_deleted', v_snapshots,
+    'analytics_queries_deleted', v_queries
+  );
+END;
+$$;
+
+-- Daily snapshots are the system's backup; they only run while auto_backup is on
+SELECT cron.schedule(
+    'daily-stock-snapshot',
+    '0 2 * * *', -- Every day at 2 AM
+    $$
+    SELECT public.capture_daily_stock_snapshot()
+    WHERE public.get_system_setting('auto_backup') = 'true'::jsonb;
+    $$
+);
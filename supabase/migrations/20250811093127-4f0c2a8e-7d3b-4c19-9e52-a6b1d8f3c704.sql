@@ -0,0 +1,143 @@
+-- Production users can be limited to the stages they work on.
+-- allowed_stages on a user's role assignment lists the stage tables they may see and record;
+-- NULL keeps access to every stage. Stage records are scoped by RLS. The job board still shows
+-- each job's progress through all stages, so a stage knows which jobs are waiting for it.
+
+ALTER TABLE public.user_role_assignments
+  ADD COLUMN allowed_stages TEXT[],
+  ADD CONSTRAINT user_role_assignments_allowed_stages_check CHECK (
+    allowed_stages <@ ARRAY['order_punching', 'gravure_printing', 'lamination', 'adhesive_coating', 'slitting']
+  );
+
+CREATE OR REPLACE FUNCTION public.has_stage_access(_user_id UUID, _stage TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_role(_user_id, 'admin'::app_role) OR EXISTS (
+    SELECT 1
+    FROM public.user_role_assignments a
+    WHERE a.user_id = _user_id
+      AND (a.allowed_stages IS NULL OR _stage = ANY(a.allowed_stages))
+  )
+$$;
+
+-- Every stage works from the punched order, so reading order_punching only needs production view
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['order_punching', 'gravure_printing', 'lamination', 'adhesive_coating', 'slitting']
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Permitted users can read ' || v_table, v_table);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Permitted users can create ' || v_table, v_table);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Permitted users can update ' || v_table, v_table);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Permitted users can delete ' || v_table, v_table);
+
+    IF v_table = 'order_punching' THEN
+      EXECUTE format(
+        'CREATE POLICY %I ON public.%I FOR SELECT USING (has_permission(auth.uid(), ''production'', ''view''))',
+        'Permitted users can read ' || v_table, v_table
+      );
+    ELSE
+      EXECUTE format(
+        'CREATE POLICY %I ON public.%I FOR SELECT USING (has_permission(auth.uid(), ''production'', ''view'') AND has_stage_access(auth.uid(), %L))',
+        'Permitted users can read ' || v_table, v_table, v_table
+      );
+    END IF;
+
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I FOR INSERT WITH CHECK (has_permission(auth.uid(), ''production'', ''create'') AND has_stage_access(auth.uid(), %L))',
+      'Permitted users can create ' || v_table, v_table, v_table
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I FOR UPDATE USING (has_permission(auth.uid(), ''production'', ''edit'') AND has_stage_access(auth.uid(), %L))',
+      'Permitted users can update ' || v_table, v_table, v_table
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I FOR DELETE USING (has_permission(auth.uid(), ''production'', ''delete'') AND has_stage_access(auth.uid(), %L))',
+      'Permitted users can delete ' || v_table, v_table, v_table
+    );
+  END LOOP;
+END $$;
+
+-- Job board for the Production page. Reads every stage's status with the owner's rights, since
+-- a stage user cannot read the other stages' records but needs to know where each job has got to.
+CREATE OR REPLACE FUNCTION public.get_job_board()
+RETURNS TABLE (
+  uiorn TEXT,
+  item_name TEXT,
+  order_punching TEXT,
+  gravure_printing TEXT,
+  coating_lamination TEXT,
+  adhesive_coating TEXT,
+  slitting TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_permission(auth.uid(), 'production', 'view') THEN
+    RAISE EXCEPTION 'You do not have permission to view production';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    w.uiorn::TEXT,
+    w.item_name::TEXT,
+    w.order_punching::TEXT,
+    w.gravure_printing::TEXT,
+    w.coating_lamination::TEXT,
+    w.adhesive_coating::TEXT,
+    w.slitting::TEXT
+  FROM public.get_workflow_status() w;
+END;
+$$;
+
+-- Admin flag, role and production stages for one user, changed together
+DROP FUNCTION IF EXISTS public.set_user_access(UUID, UUID, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.set_user_access(
+  p_user_id UUID,
+  p_role_id UUID,
+  p_is_admin BOOLEAN,
+  p_allowed_stages TEXT[] DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can change user access';
+  END IF;
+
+  IF p_user_id = auth.uid() AND NOT p_is_admin THEN
+    RAISE EXCEPTION 'You cannot remove your own admin access';
+  END IF;
+
+  IF p_is_admin THEN
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (p_user_id, 'admin')
+    ON CONFLICT (user_id, role) DO NOTHING;
+  ELSE
+    DELETE FROM public.user_roles
+    WHERE user_id = p_user_id AND role = 'admin';
+  END IF;
+
+  IF p_role_id IS NULL THEN
+    DELETE FROM public.user_role_assignments WHERE user_id = p_user_id;
+  ELSE
+    INSERT INTO public.user_role_assignments (user_id, role_id, allowed_stages, assigned_by)
+    VALUES (p_user_id, p_role_id, p_allowed_stages, auth.uid())
+    ON CONFLICT (user_id) DO UPDATE
+    SET role_id = EXCLUDED.role_id,
+        allowed_stages = EXCLUDED.allowed_stages,
+        assigned_by = EXCLUDED.assigned_by;
+  END IF;
+END;
+$$;